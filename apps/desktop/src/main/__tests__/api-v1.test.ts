@@ -0,0 +1,387 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { PostureCalibrationRecord } from "../../shared/types/calibration";
+import { buildOpenApiDocument } from "../api/openapi";
+import {
+  type ApiRoute,
+  apiOk,
+  createApiRouter,
+  validateApiParams,
+} from "../api/router";
+
+const stored = new Map<string, string>();
+
+vi.mock("electron", () => ({
+  BrowserWindow: vi.fn(),
+  dialog: { showSaveDialog: vi.fn() },
+}));
+
+vi.mock("../database/settingsRepository", () => ({
+  getAllSettings: () => Object.fromEntries(stored),
+  getSetting: (key: string) => stored.get(key) ?? null,
+  setSetting: (key: string, value: string) => {
+    stored.set(key, value);
+  },
+}));
+
+vi.mock("../../shared/logger", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  }),
+  toErrorPayload: (error: unknown) => ({ error }),
+}));
+
+vi.mock("../database/calibrationRepository", () => ({
+  listPostureCalibrations: vi.fn(() => []),
+}));
+
+vi.mock("../database/monitoringProfileRepository", () => ({
+  listMonitoringProfiles: vi.fn(() => []),
+}));
+
+vi.mock("../database/dailyPostureProfileRepository", () => ({
+  listDailyPostureProfileLogs: vi.fn(() => []),
+}));
+
+vi.mock("../database/dailyPostureRepository", () => ({
+  calculateStreak: vi.fn(() => 4),
+  getDailyPostureLogsInRange: vi.fn(() => [{ date: "2025-11-14" }]),
+  getDailySummary: vi.fn((date: string) => ({ date, avgScore: 81 })),
+  getTodaySummary: vi.fn(),
+  getWeeklySummary: vi.fn(),
+}));
+
+vi.mock("../database/postureSummaryRepository", () => ({
+  getBestStreak: vi.fn(),
+  getMonthSummary: vi.fn((year: number, month: number) => ({
+    period: `${year}-${String(month).padStart(2, "0")}`,
+  })),
+  getRangeSummary: vi.fn(),
+  getWeekOverWeekSummary: vi.fn(),
+  getYearSummary: vi.fn(() => {
+    throw new Error("database is locked");
+  }),
+}));
+
+vi.mock("../database/postureTimelineRepository", () => ({
+  getPostureHeatmap: vi.fn(),
+  getPostureTimeline: vi.fn(() => []),
+}));
+
+const route = (overrides: Partial<ApiRoute>): ApiRoute => ({
+  method: "GET",
+  path: "/items",
+  operationId: "listItems",
+  summary: "List items",
+  tag: "items",
+  handle: () => apiOk([]),
+  ...overrides,
+});
+
+/**
+ * Test suite for the `/api/v1` router, its OpenAPI document and the HTTP
+ * behaviour of the versioned routes.
+ */
+describe("Local REST API v1", () => {
+  describe("Router", () => {
+    const router = createApiRouter([
+      route({}),
+      route({ method: "POST", path: "/items/{id}/archive" }),
+    ]);
+
+    it("should match path templates and extract parameters", () => {
+      expect(router.match("POST", "/items/42/archive")).toMatchObject({
+        ok: true,
+        rawParams: { id: "42" },
+      });
+    });
+
+    it("should answer 405 with the allowed methods for a known path", () => {
+      expect(router.match("GET", "/items/42/archive")).toEqual({
+        ok: false,
+        status: 405,
+        allowedMethods: ["POST"],
+      });
+    });
+
+    it("should answer 404 for unknown paths", () => {
+      expect(router.match("GET", "/items/42")).toMatchObject({
+        ok: false,
+        status: 404,
+      });
+    });
+  });
+
+  describe("Parameter validation", () => {
+    const schemas = {
+      from: { type: "string", format: "date", required: true },
+      limit: { type: "integer", minimum: 1, maximum: 100, default: 10 },
+    } as const;
+
+    it("should coerce integers and apply defaults", () => {
+      expect(
+        validateApiParams(schemas, (name) =>
+          name === "from" ? "2025-02-28" : null,
+        ),
+      ).toEqual({ ok: true, value: { from: "2025-02-28", limit: 10 } });
+    });
+
+    it("should reject missing, malformed and out-of-range values", () => {
+      expect(validateApiParams(schemas, () => null)).toMatchObject({
+        ok: false,
+        status: 400,
+        message: "from is required",
+      });
+      expect(
+        validateApiParams(schemas, (name) =>
+          name === "from" ? "2025-02-30" : null,
+        ),
+      ).toMatchObject({ message: "from must be a YYYY-MM-DD date" });
+      expect(
+        validateApiParams(schemas, (name) =>
+          name === "from" ? "2025-02-28" : "1.5",
+        ),
+      ).toMatchObject({
+        message: "limit must be an integer between 1 and 100",
+      });
+    });
+  });
+
+  describe("OpenAPI document", () => {
+    it("should describe visible routes with parameters and security", () => {
+      const document = buildOpenApiDocument({
+        title: "Test",
+        version: "1.0.0",
+        routes: [
+          route({
+            query: { limit: { type: "integer", minimum: 1 } },
+          }),
+          route({ path: "/hidden", hidden: true }),
+          route({ path: "/public", operationId: "getPublic", public: true }),
+        ],
+        schemas: {},
+      });
+      const paths = document.paths as Record<string, Record<string, unknown>>;
+
+      expect(Object.keys(paths)).toEqual(["/items", "/public"]);
+      expect(paths["/items"]?.get).toMatchObject({
+        operationId: "listItems",
+        parameters: [
+          {
+            name: "limit",
+            in: "query",
+            required: false,
+            schema: { type: "integer", minimum: 1 },
+          },
+        ],
+      });
+      expect(paths["/items"]?.get).toHaveProperty("responses.401");
+      expect(paths["/public"]?.get).toMatchObject({ security: [] });
+      expect(paths["/public"]?.get).not.toHaveProperty("responses.401");
+    });
+  });
+
+  describe("HTTP", () => {
+    let origin: string;
+    let secret: string;
+    let paused = false;
+    const startRecalibration = vi.fn();
+    const activateCalibration = vi.fn((id: number) =>
+      id === 7 ? ({ id, isActive: true } as PostureCalibrationRecord) : null,
+    );
+
+    const get = (path: string, init: RequestInit = {}) =>
+      fetch(`${origin}${path}`, {
+        ...init,
+        headers: { Authorization: `Bearer ${secret}`, ...init.headers },
+      });
+
+    beforeAll(async () => {
+      stored.clear();
+      const { createApiToken } = await import("../apiTokenService.js");
+      const result = createApiToken("test");
+      if (!result.ok) throw new Error("token not created");
+      secret = result.secret;
+
+      process.env.POSELY_DASHBOARD_HTTP_PORT = String(
+        40000 + Math.floor(Math.random() * 10000),
+      );
+      const { startDashboardHttpServer, getDashboardHttpOrigin } = await import(
+        "../dashboardHttpServer.js"
+      );
+      startDashboardHttpServer();
+      await vi.waitFor(() => {
+        expect(getDashboardHttpOrigin()).not.toBeNull();
+      });
+      origin = getDashboardHttpOrigin() ?? "";
+    });
+
+    afterAll(async () => {
+      const { setDashboardApiControls, stopDashboardHttpServer } = await import(
+        "../dashboardHttpServer.js"
+      );
+      setDashboardApiControls(null);
+      stopDashboardHttpServer();
+      delete process.env.POSELY_DASHBOARD_HTTP_PORT;
+    });
+
+    it("should serve the OpenAPI document without a token", async () => {
+      const response = await fetch(`${origin}/api/v1/openapi.json`);
+      const document = (await response.json()) as {
+        openapi: string;
+        paths: Record<string, unknown>;
+      };
+
+      expect(response.status).toBe(200);
+      expect(document.openapi).toMatch(/^3\./);
+      expect(Object.keys(document.paths)).toEqual(
+        expect.arrayContaining([
+          "/api/v1/history/daily",
+          "/api/v1/calibrations/{id}/activate",
+          "/api/v1/monitoring/pause",
+        ]),
+      );
+      expect(Object.keys(document.paths)).not.toContain(
+        "/api/dashboard/daily-summary",
+      );
+    });
+
+    it("should wrap errors in a consistent envelope", async () => {
+      const unauthorized = await fetch(`${origin}/api/v1/settings`);
+      const invalid = await get("/api/v1/history/month?year=2025&month=13");
+      const missing = await get("/api/v1/nope");
+
+      expect(unauthorized.status).toBe(401);
+      expect(await unauthorized.json()).toEqual({
+        error: { code: "unauthorized", message: "Missing API token" },
+      });
+      expect(invalid.status).toBe(400);
+      expect(await invalid.json()).toEqual({
+        error: {
+          code: "bad_request",
+          message: "month must be an integer between 1 and 12",
+        },
+      });
+      expect(missing.status).toBe(404);
+      expect(await missing.json()).toMatchObject({
+        error: { code: "not_found" },
+      });
+    });
+
+    it("should answer 405 with an Allow header for the wrong method", async () => {
+      const response = await get("/api/v1/monitoring/pause");
+
+      expect(response.status).toBe(405);
+      expect(response.headers.get("allow")).toBe("POST");
+    });
+
+    it("should turn handler failures into 500 envelopes", async () => {
+      const response = await get("/api/v1/history/year?year=2025");
+
+      expect(response.status).toBe(500);
+      expect(await response.json()).toMatchObject({
+        error: { code: "internal_error" },
+      });
+    });
+
+    it("should serve validated history queries", async () => {
+      const month = await get("/api/v1/history/month?year=2025&month=3");
+      const reversed = await get(
+        "/api/v1/history/daily?from=2025-03-02&to=2025-03-01",
+      );
+
+      expect(await month.json()).toEqual({ period: "2025-03" });
+      expect(reversed.status).toBe(400);
+    });
+
+    it("should read settings by key", async () => {
+      const known = await get("/api/v1/settings/dayStartHour");
+      const unknown = await get("/api/v1/settings/apiTokens");
+
+      expect(await known.json()).toEqual({ key: "dayStartHour", value: 0 });
+      expect(unknown.status).toBe(404);
+    });
+
+    it("should answer 503 for monitoring routes until controls are registered", async () => {
+      const response = await get("/api/v1/tick");
+
+      expect(response.status).toBe(503);
+    });
+
+    it("should pause, resume and activate calibrations through the controls", async () => {
+      const { setDashboardApiControls } = await import(
+        "../dashboardHttpServer.js"
+      );
+      setDashboardApiControls({
+        getLatestTick: () => null,
+        isMonitoringPaused: () => paused,
+        setMonitoringPaused: (value) => {
+          paused = value;
+        },
+        activateCalibration,
+        startRecalibration,
+      });
+
+      const pause = await get("/api/v1/monitoring/pause", { method: "POST" });
+      expect(await pause.json()).toEqual({ paused: true });
+      expect(await (await get("/api/v1/tick")).json()).toEqual({
+        paused: true,
+        tick: null,
+      });
+
+      const resume = await get("/api/v1/monitoring/resume", { method: "POST" });
+      expect(await resume.json()).toEqual({ paused: false });
+
+      const activated = await get("/api/v1/calibrations/7/activate", {
+        method: "POST",
+      });
+      const unknown = await get("/api/v1/calibrations/8/activate", {
+        method: "POST",
+      });
+      const invalid = await get("/api/v1/calibrations/abc/activate", {
+        method: "POST",
+      });
+
+      expect(await activated.json()).toEqual({ id: 7, isActive: true });
+      expect(unknown.status).toBe(404);
+      expect(invalid.status).toBe(400);
+      expect(activateCalibration).toHaveBeenCalledTimes(2);
+
+      const recalibrate = await get("/api/v1/calibrations/recalibrate", {
+        method: "POST",
+      });
+      expect(recalibrate.status).toBe(202);
+      expect(startRecalibration).toHaveBeenCalledTimes(1);
+    });
+
+    it("should serve today's summary with the current streak", async () => {
+      const response = await get("/api/v1/history/today");
+      const body = (await response.json()) as {
+        date: string;
+        summary: { date: string };
+        streak: number;
+      };
+
+      expect(body.streak).toBe(4);
+      expect(body.summary.date).toBe(body.date);
+    });
+
+    it("should export history as JSON or CSV", async () => {
+      const json = await get("/api/v1/export?from=2025-11-01&to=2025-11-30");
+      const csv = await get("/api/v1/export?format=csv");
+      const inverted = await get(
+        "/api/v1/export?from=2025-11-30&to=2025-11-01",
+      );
+
+      expect(await json.json()).toMatchObject({
+        range: { from: "2025-11-01", to: "2025-11-30" },
+        dailyLogs: [{ date: "2025-11-14" }],
+      });
+      expect(csv.headers.get("content-type")).toContain("text/csv");
+      expect(await csv.text()).toMatch(/^# posely-export,schemaVersion=3/);
+      expect(inverted.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import path from "path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { WORKER_MESSAGES, type WorkerMessage } from "../../shared/ipcChannels";
+
+type BackgroundWorkerModule = typeof import("../backgroundWorker.js");
+
+const { workers, workerConstructor } = vi.hoisted(() => {
+  const spawned: Array<{
+    entrypoint: string;
+    options: { workerData: Record<string, unknown> };
+    posted: WorkerMessage[];
+    emit: (event: string, arg: unknown) => void;
+  }> = [];
+
+  class FakeWorker {
+    posted: WorkerMessage[] = [];
+
+    private listeners = new Map<string, Array<(arg: unknown) => void>>();
+
+    constructor(
+      public entrypoint: string,
+      public options: { workerData: Record<string, unknown> },
+    ) {
+      spawned.push(this);
+    }
+
+    postMessage(message: WorkerMessage) {
+      this.posted.push(message);
+    }
+
+    terminate() {
+      return Promise.resolve(1);
+    }
+
+    on(event: string, listener: (arg: unknown) => void) {
+      this.listeners.set(event, [
+        ...(this.listeners.get(event) ?? []),
+        listener,
+      ]);
+      return this;
+    }
+
+    emit(event: string, arg: unknown) {
+      (this.listeners.get(event) ?? []).forEach((listener) => listener(arg));
+    }
+  }
+
+  return { workers: spawned, workerConstructor: FakeWorker };
+});
+
+vi.mock("node:worker_threads", () => ({ Worker: workerConstructor }));
+
+vi.mock("../sentry", () => ({ captureException: vi.fn() }));
+
+vi.mock("../../shared/logger", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  }),
+  toErrorPayload: (error: unknown) => ({ error }),
+}));
+
+let backgroundWorkerModule: BackgroundWorkerModule;
+
+beforeEach(async () => {
+  workers.length = 0;
+  backgroundWorkerModule = await import("../backgroundWorker.js");
+});
+
+describe("getWorkerEntrypoint", () => {
+  it("picks the bundle next to the main bundle", () => {
+    const { getWorkerEntrypoint } = backgroundWorkerModule;
+    expect(getWorkerEntrypoint(true, "/app/dist")).toBe(
+      path.join("/app/dist", "worker.js"),
+    );
+    expect(getWorkerEntrypoint(false, "/app/dist")).toBe(
+      path.join("/app/dist", "worker.bundle.dev.js"),
+    );
+  });
+});
+
+describe("createBackgroundWorker", () => {
+  it("passes debug flags from the environment to the worker", () => {
+    const backgroundWorker = backgroundWorkerModule.createBackgroundWorker({
+      entrypoint: "/app/dist/worker.js",
+      env: { POSELY_DEBUG_HEAD_POSE: "true" },
+    });
+
+    backgroundWorker.start();
+
+    expect(workers).toHaveLength(1);
+    expect(workers[0]?.entrypoint).toBe("/app/dist/worker.js");
+    expect(workers[0]?.options.workerData).toMatchObject({
+      debugHeadPose: true,
+      debugGuardrailsVerbose: false,
+    });
+    backgroundWorker.stop();
+  });
+
+  it("forwards messages and worker errors to listeners added after creation", () => {
+    const backgroundWorker = backgroundWorkerModule.createBackgroundWorker({
+      entrypoint: "/app/dist/worker.js",
+      env: {},
+    });
+    const listener = vi.fn();
+    backgroundWorker.start();
+    const unsubscribe = backgroundWorker.onMessage(listener);
+
+    workers[0]?.emit("message", { type: WORKER_MESSAGES.status });
+    workers[0]?.emit("error", new Error("boom"));
+    unsubscribe();
+    workers[0]?.emit("message", { type: WORKER_MESSAGES.status });
+
+    expect(listener.mock.calls).toEqual([
+      [{ type: WORKER_MESSAGES.status }],
+      [{ type: WORKER_MESSAGES.status, payload: { error: "boom" } }],
+    ]);
+    backgroundWorker.stop();
+  });
+
+  it("keeps notifying other listeners when one throws", () => {
+    const backgroundWorker = backgroundWorkerModule.createBackgroundWorker({
+      entrypoint: "/app/dist/worker.js",
+      env: {},
+    });
+    const listener = vi.fn();
+    backgroundWorker.onStateChange(() => {
+      throw new Error("listener failed");
+    });
+    backgroundWorker.onStateChange(listener);
+
+    backgroundWorker.start();
+    workers[0]?.emit("message", { type: WORKER_MESSAGES.ready });
+
+    expect(listener.mock.calls).toEqual([["starting"], ["running"]]);
+    backgroundWorker.stop();
+  });
+
+  it("replays messages from the registered provider once the worker is ready", () => {
+    const backgroundWorker = backgroundWorkerModule.createBackgroundWorker({
+      entrypoint: "/app/dist/worker.js",
+      env: {},
+    });
+    backgroundWorker.setReplayMessages(() => [
+      { type: WORKER_MESSAGES.setPaused, payload: true },
+    ]);
+
+    backgroundWorker.start();
+    workers[0]?.emit("message", { type: WORKER_MESSAGES.ready });
+
+    expect(workers[0]?.posted).toEqual([
+      { type: WORKER_MESSAGES.setPaused, payload: true },
+    ]);
+    backgroundWorker.stop();
+  });
+});
@@ -0,0 +1,193 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { BreakCycleConfig } from "../../shared/breaks/breakCycle";
+import type { BreakEvent } from "../../shared/types/breaks";
+import type { EngineTick } from "../../shared/types/engine-output";
+
+type BreakCoachModule = typeof import("../breakCoach.js");
+
+vi.mock("../../shared/logger", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  }),
+  toErrorPayload: (error: unknown) => ({ error }),
+}));
+
+const MINUTE = 60_000;
+
+const WALL_CLOCK_START = Date.parse("2025-11-03T09:00:00.000Z");
+
+const FIFTY_TEN: BreakCycleConfig = {
+  enabled: true,
+  workMinutes: 50,
+  breakMinutes: 10,
+  longBreakMinutes: 0,
+  longBreakEvery: 4,
+  absenceMinutes: 5,
+};
+
+let coachModule: BreakCoachModule;
+
+/**
+ * Fake wall clock for the coach's `now`, ticking every 10 seconds. Tick
+ * timestamps are monotonic like the engine's and start at zero.
+ */
+const createHarness = (config: BreakCycleConfig = FIFTY_TEN) => {
+  let clock = WALL_CLOCK_START;
+  const onBreakDue = vi.fn((_breakMinutes: number) => undefined);
+  const onEvent = vi.fn((_event: BreakEvent, _at: number) => undefined);
+  const coach = coachModule.createBreakCoach({
+    config,
+    onBreakDue,
+    onEvent,
+    now: () => clock,
+  });
+
+  const tick = (presence: EngineTick["presence"]): void => {
+    coach.handleTick({
+      t: clock - WALL_CLOCK_START,
+      presence,
+      reliability: "OK",
+      zone: "GREEN",
+      state: "GOOD",
+      score: 90,
+      metrics: { pitchDeg: 0, ehdNorm: 0, dpr: 1, conf: 1 },
+    });
+  };
+
+  /** Tick with `presence` for `minutes` */
+  const stay = (presence: EngineTick["presence"], minutes: number): void => {
+    const end = clock + minutes * MINUTE;
+    tick(presence);
+    while (clock < end) {
+      clock += 10_000;
+      tick(presence);
+    }
+  };
+
+  const events = () => onEvent.mock.calls.map(([event]) => event);
+  const eventTimes = () => onEvent.mock.calls.map(([, at]) => at);
+
+  return { coach, onBreakDue, stay, events, eventTimes, getClock: () => clock };
+};
+
+describe("breakCoach", () => {
+  beforeEach(async () => {
+    vi.resetModules();
+    coachModule = await import("../breakCoach.js");
+  });
+
+  it("prompts once when a work period is over", () => {
+    const { coach, onBreakDue, stay, events } = createHarness();
+
+    stay("PRESENT", 49);
+    expect(onBreakDue).not.toHaveBeenCalled();
+
+    stay("PRESENT", 5);
+    expect(onBreakDue).toHaveBeenCalledTimes(1);
+    expect(onBreakDue).toHaveBeenCalledWith(10);
+    expect(events()).toEqual(["prompted"]);
+    expect(coach.getState().phase).toBe("breakDue");
+  });
+
+  it("counts stepping away as a break and restarts on return", () => {
+    const { coach, stay, events, getClock } = createHarness();
+
+    stay("PRESENT", 50);
+    stay("ABSENT", 4);
+    expect(events()).toEqual(["prompted"]);
+
+    stay("ABSENT", 2);
+    expect(events()).toEqual(["prompted", "taken"]);
+    expect(coach.getState().phase).toBe("away");
+
+    stay("PRESENT", 1);
+    const state = coach.getState();
+    expect(state.phase).toBe("working");
+    expect(state.completedBreaks).toBe(1);
+    expect(state.nextBreakAt).toBe(getClock() - MINUTE + 50 * MINUTE);
+  });
+
+  it("counts a break ignored for a whole work period as skipped", () => {
+    const { coach, onBreakDue, stay, events } = createHarness();
+
+    stay("PRESENT", 100);
+
+    expect(events()).toEqual(["prompted", "skipped"]);
+    expect(onBreakDue).toHaveBeenCalledTimes(1);
+    expect(coach.getState()).toMatchObject({
+      phase: "working",
+      completedBreaks: 0,
+    });
+  });
+
+  it("records a finished stretch as taken and only skips a due break", () => {
+    const { coach, stay, events, eventTimes, getClock } = createHarness();
+
+    coach.skipBreak();
+    expect(events()).toEqual([]);
+
+    stay("PRESENT", 50);
+    coach.completeStretch();
+    expect(events()).toEqual(["prompted", "stretched", "taken"]);
+    expect(coach.getState().phase).toBe("working");
+
+    stay("PRESENT", 50);
+    coach.skipBreak();
+    expect(events()).toEqual([
+      "prompted",
+      "stretched",
+      "taken",
+      "prompted",
+      "skipped",
+    ]);
+    expect(eventTimes()).toEqual([
+      WALL_CLOCK_START + 50 * MINUTE,
+      WALL_CLOCK_START + 50 * MINUTE,
+      WALL_CLOCK_START + 50 * MINUTE,
+      getClock(),
+      getClock(),
+    ]);
+  });
+
+  it("makes every n-th break a long one", () => {
+    const { coach, onBreakDue, stay } = createHarness({
+      ...FIFTY_TEN,
+      workMinutes: 25,
+      breakMinutes: 5,
+      longBreakMinutes: 15,
+    });
+
+    [1, 2, 3, 4].forEach(() => {
+      stay("PRESENT", 25);
+      coach.completeStretch();
+    });
+
+    expect(onBreakDue.mock.calls.map(([minutes]) => minutes)).toEqual([
+      5, 5, 5, 15,
+    ]);
+  });
+
+  it("stays quiet while disabled and starts over on a new config", () => {
+    const { coach, onBreakDue, stay, events } = createHarness({
+      ...FIFTY_TEN,
+      enabled: false,
+    });
+
+    stay("PRESENT", 60);
+    coach.completeStretch();
+    expect(onBreakDue).not.toHaveBeenCalled();
+    expect(events()).toEqual([]);
+    expect(coach.getState().phase).toBe("off");
+
+    coach.setConfig(FIFTY_TEN);
+    expect(coach.getState()).toMatchObject({
+      phase: "working",
+      workStartedAt: null,
+    });
+    stay("PRESENT", 50);
+    expect(onBreakDue).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { BreakCycleConfig } from "../../shared/breaks/breakCycle";
+import { IPC_CHANNELS } from "../../shared/ipcChannels";
+import type { EngineTick } from "../../shared/types/engine-output";
+
+type BreakCoachServiceModule = typeof import("../breakCoachService.js");
+
+const mocks = vi.hoisted(() => ({
+  send: vi.fn(),
+  showBreakNotification: vi.fn(() => true),
+  recordDailyBreakEvent: vi.fn(),
+}));
+
+vi.mock("electron", () => ({
+  BrowserWindow: {
+    getAllWindows: () => [
+      { isDestroyed: () => false, webContents: { send: mocks.send } },
+    ],
+  },
+}));
+
+vi.mock("../reminderNotifications", () => ({
+  showBreakNotification: mocks.showBreakNotification,
+}));
+
+vi.mock("../database/dailyBreakRepository", () => ({
+  recordDailyBreakEvent: mocks.recordDailyBreakEvent,
+}));
+
+vi.mock("../../shared/logger", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  }),
+  toErrorPayload: (error: unknown) => ({ error }),
+}));
+
+const MINUTE = 60_000;
+
+const FIFTY_TEN: BreakCycleConfig = {
+  enabled: true,
+  workMinutes: 50,
+  breakMinutes: 10,
+  longBreakMinutes: 0,
+  longBreakEvery: 4,
+  absenceMinutes: 5,
+};
+
+let serviceModule: BreakCoachServiceModule;
+
+const createHarness = (isHeld: (now: number) => boolean = () => false) => {
+  const openStretchWindow = vi.fn();
+  const coach = serviceModule.createBreakCoachService({
+    isHeld,
+    openStretchWindow,
+  });
+  coach.setConfig(FIFTY_TEN);
+
+  /** Tick while present for `minutes`, every 10 seconds of system time */
+  const work = (minutes: number): void => {
+    const end = Date.now() + minutes * MINUTE;
+    while (Date.now() < end) {
+      vi.setSystemTime(Date.now() + 10_000);
+      coach.handleTick({
+        t: Date.now(),
+        presence: "PRESENT",
+        reliability: "OK",
+        zone: "GREEN",
+        state: "GOOD",
+        score: 90,
+        metrics: { pitchDeg: 0, ehdNorm: 0, dpr: 1, conf: 1 },
+      } satisfies EngineTick);
+    }
+  };
+
+  return { coach, openStretchWindow, work };
+};
+
+describe("breakCoachService", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    vi.resetModules();
+    mocks.send.mockClear();
+    mocks.showBreakNotification.mockClear();
+    mocks.recordDailyBreakEvent.mockClear();
+    serviceModule = await import("../breakCoachService.js");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("announces a due break with handlers that open the stretch window", () => {
+    const { openStretchWindow, work } = createHarness();
+
+    work(51);
+
+    expect(mocks.showBreakNotification).toHaveBeenCalledTimes(1);
+    const [[breakMinutes, handlers]] = mocks.showBreakNotification.mock
+      .calls as unknown as [[number, { onStartStretch: () => void }]];
+    expect(breakMinutes).toBe(10);
+    handlers.onStartStretch();
+    expect(openStretchWindow).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not announce breaks while reminders are held", () => {
+    const isHeld = vi.fn(() => true);
+    const { work } = createHarness(isHeld);
+
+    work(51);
+
+    expect(isHeld).toHaveBeenCalled();
+    expect(mocks.showBreakNotification).not.toHaveBeenCalled();
+  });
+
+  it("logs break events and pushes state changes to windows", () => {
+    const { coach, work } = createHarness();
+
+    work(51);
+    coach.skipBreak();
+
+    expect(mocks.recordDailyBreakEvent).toHaveBeenCalled();
+    expect(mocks.send).toHaveBeenCalledWith(
+      IPC_CHANNELS.breakCoachStateChanged,
+      coach.getState(),
+    );
+  });
+});
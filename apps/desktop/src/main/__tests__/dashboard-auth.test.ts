@@ -0,0 +1,308 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import {
+  authorizeDashboardRequest,
+  buildCorsHeaders,
+  readBearerToken,
+} from "../dashboardAuth";
+
+const stored = new Map<string, string>();
+
+vi.mock("electron", () => ({
+  BrowserWindow: vi.fn(),
+  dialog: { showSaveDialog: vi.fn() },
+}));
+
+vi.mock("../database/settingsRepository", () => ({
+  getSetting: (key: string) => stored.get(key) ?? null,
+  setSetting: (key: string, value: string) => {
+    stored.set(key, value);
+  },
+}));
+
+vi.mock("../../shared/logger", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  }),
+  toErrorPayload: (error: unknown) => ({ error }),
+}));
+
+vi.mock("../database/calibrationRepository", () => ({
+  listPostureCalibrations: vi.fn(),
+}));
+
+vi.mock("../database/dailyPostureRepository", () => ({
+  getDailyPostureLogsInRange: vi.fn(),
+  getTodaySummary: () => ({ date: "2025-11-14", avgScore: 80 }),
+  getWeeklySummary: () => [],
+}));
+
+vi.mock("../database/postureSummaryRepository", () => ({
+  getBestStreak: vi.fn(),
+  getMonthSummary: vi.fn(),
+  getRangeSummary: vi.fn(),
+  getWeekOverWeekSummary: vi.fn(),
+  getYearSummary: vi.fn(),
+}));
+
+vi.mock("../database/postureTimelineRepository", () => ({
+  getPostureHeatmap: () => [],
+  getPostureTimeline: vi.fn(),
+}));
+
+const ALLOWED = "http://localhost:1212";
+
+/**
+ * Test suite for the local dashboard API access rules.
+ * Validates origin allowlisting, token checks and the resulting HTTP statuses.
+ */
+describe("Dashboard API Authorization", () => {
+  const verifyToken = (secret: string) => secret === "psly_valid";
+  const options = { allowedOrigins: [ALLOWED], verifyToken };
+
+  describe("Token extraction", () => {
+    it("should read a bearer token from the Authorization header", () => {
+      expect(readBearerToken("Bearer psly_valid")).toBe("psly_valid");
+      expect(readBearerToken("bearer  psly_valid ")).toBe("psly_valid");
+    });
+
+    it("should ignore other authorization schemes", () => {
+      expect(readBearerToken("Basic dXNlcjpwYXNz")).toBeNull();
+      expect(readBearerToken(null)).toBeNull();
+    });
+  });
+
+  describe("Request authorization", () => {
+    it("should accept a valid token without an Origin header", () => {
+      expect(
+        authorizeDashboardRequest(
+          {
+            method: "GET",
+            origin: null,
+            authorization: "Bearer psly_valid",
+            queryToken: null,
+          },
+          options,
+        ),
+      ).toEqual({ ok: true, allowedOrigin: null });
+    });
+
+    it("should accept a token from the query string", () => {
+      expect(
+        authorizeDashboardRequest(
+          {
+            method: "GET",
+            origin: ALLOWED,
+            authorization: null,
+            queryToken: "psly_valid",
+          },
+          options,
+        ),
+      ).toEqual({ ok: true, allowedOrigin: ALLOWED });
+    });
+
+    it("should reject missing or unknown tokens with 401", () => {
+      const missing = authorizeDashboardRequest(
+        { method: "GET", origin: null, authorization: null, queryToken: null },
+        options,
+      );
+      const invalid = authorizeDashboardRequest(
+        {
+          method: "GET",
+          origin: null,
+          authorization: "Bearer psly_other",
+          queryToken: null,
+        },
+        options,
+      );
+
+      expect(missing).toEqual({
+        ok: false,
+        status: 401,
+        error: "Missing API token",
+      });
+      expect(invalid).toEqual({
+        ok: false,
+        status: 401,
+        error: "Invalid API token",
+      });
+    });
+
+    it("should reject origins outside the allowlist with 403 even with a valid token", () => {
+      expect(
+        authorizeDashboardRequest(
+          {
+            method: "GET",
+            origin: "https://evil.example",
+            authorization: "Bearer psly_valid",
+            queryToken: null,
+          },
+          options,
+        ),
+      ).toEqual({ ok: false, status: 403, error: "Origin not allowed" });
+    });
+
+    it("should let allowlisted preflight requests through without a token", () => {
+      expect(
+        authorizeDashboardRequest(
+          {
+            method: "OPTIONS",
+            origin: ALLOWED,
+            authorization: null,
+            queryToken: null,
+          },
+          options,
+        ),
+      ).toEqual({ ok: true, allowedOrigin: ALLOWED });
+    });
+
+    it("should serve public routes without a token but still check the origin", () => {
+      const request = {
+        method: "GET",
+        authorization: null,
+        queryToken: null,
+        isPublic: true,
+      };
+
+      expect(
+        authorizeDashboardRequest({ ...request, origin: null }, options),
+      ).toEqual({ ok: true, allowedOrigin: null });
+      expect(
+        authorizeDashboardRequest(
+          { ...request, origin: "https://evil.example" },
+          options,
+        ),
+      ).toMatchObject({ ok: false, status: 403 });
+    });
+  });
+
+  describe("CORS headers", () => {
+    it("should echo the allowed origin instead of a wildcard", () => {
+      expect(buildCorsHeaders(ALLOWED)).toMatchObject({
+        "Access-Control-Allow-Origin": ALLOWED,
+        "Access-Control-Allow-Headers": "Authorization, Content-Type",
+      });
+    });
+
+    it("should omit Access-Control-Allow-Origin for non-browser clients", () => {
+      expect(buildCorsHeaders(null)).toEqual({ Vary: "Origin" });
+    });
+  });
+
+  describe("Token storage", () => {
+    beforeEach(() => {
+      stored.clear();
+    });
+
+    it("should store only a hash of the secret", async () => {
+      const { createApiToken } = await import("../apiTokenService.js");
+
+      const result = createApiToken("OBS overlay", 1000);
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.secret.startsWith("psly_")).toBe(true);
+      expect(stored.get("apiTokens")).not.toContain(result.secret);
+      expect(result.token).toMatchObject({
+        name: "OBS overlay",
+        createdAt: 1000,
+        lastUsedAt: null,
+      });
+    });
+
+    it("should verify, record usage and revoke tokens", async () => {
+      const { createApiToken, listApiTokens, revokeApiToken, verifyApiToken } =
+        await import("../apiTokenService.js");
+      const result = createApiToken("script");
+      if (!result.ok) throw new Error("token not created");
+
+      expect(verifyApiToken(result.secret, 5000)?.id).toBe(result.token.id);
+      expect(listApiTokens()[0]?.lastUsedAt).toBe(5000);
+      expect(verifyApiToken("psly_wrong")).toBeNull();
+
+      expect(revokeApiToken(result.token.id)).toBe(true);
+      expect(verifyApiToken(result.secret)).toBeNull();
+      expect(revokeApiToken(result.token.id)).toBe(false);
+    });
+
+    it("should reject empty token names", async () => {
+      const { createApiToken } = await import("../apiTokenService.js");
+
+      expect(createApiToken("  ").ok).toBe(false);
+      expect(createApiToken(42).ok).toBe(false);
+    });
+  });
+
+  describe("HTTP responses", () => {
+    let origin: string;
+    let secret: string;
+
+    beforeAll(async () => {
+      stored.clear();
+      stored.set("apiAllowedOrigins", ALLOWED);
+      const { createApiToken } = await import("../apiTokenService.js");
+      const result = createApiToken("test");
+      if (!result.ok) throw new Error("token not created");
+      secret = result.secret;
+
+      process.env.POSELY_DASHBOARD_HTTP_PORT = String(
+        40000 + Math.floor(Math.random() * 10000),
+      );
+      const { startDashboardHttpServer, getDashboardHttpOrigin } = await import(
+        "../dashboardHttpServer.js"
+      );
+      startDashboardHttpServer();
+      await vi.waitFor(() => {
+        expect(getDashboardHttpOrigin()).not.toBeNull();
+      });
+      origin = getDashboardHttpOrigin() ?? "";
+    });
+
+    afterAll(async () => {
+      const { stopDashboardHttpServer } = await import(
+        "../dashboardHttpServer.js"
+      );
+      stopDashboardHttpServer();
+      delete process.env.POSELY_DASHBOARD_HTTP_PORT;
+    });
+
+    it("should answer 401 without a token", async () => {
+      const response = await fetch(`${origin}/api/dashboard/daily-summary`);
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get("www-authenticate")).toContain("Bearer");
+    });
+
+    it("should answer 403 for a disallowed origin", async () => {
+      const response = await fetch(`${origin}/api/dashboard/daily-summary`, {
+        headers: {
+          Authorization: `Bearer ${secret}`,
+          Origin: "https://evil.example",
+        },
+      });
+
+      expect(response.status).toBe(403);
+      expect(response.headers.get("access-control-allow-origin")).toBeNull();
+    });
+
+    it("should serve data to an authorised allowlisted origin", async () => {
+      const response = await fetch(`${origin}/api/dashboard/daily-summary`, {
+        headers: { Authorization: `Bearer ${secret}`, Origin: ALLOWED },
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("access-control-allow-origin")).toBe(ALLOWED);
+      expect(await response.json()).toMatchObject({ avgScore: 80 });
+    });
+  });
+});
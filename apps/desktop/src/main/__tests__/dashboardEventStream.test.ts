@@ -0,0 +1,166 @@
+import { EventEmitter } from "node:events";
+import type http from "node:http";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { EngineTick } from "../../shared/types/engine";
+
+vi.mock("../../shared/logger", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+class FakeResponse extends EventEmitter {
+  chunks: string[] = [];
+
+  writeHead = vi.fn();
+
+  end = vi.fn();
+
+  flushes = true;
+
+  write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return this.flushes;
+  }
+
+  events(name: string): unknown[] {
+    return this.chunks
+      .filter((chunk) => chunk.startsWith(`event: ${name}\n`))
+      .map((chunk) => JSON.parse(chunk.split("\ndata: ")[1] ?? "null"));
+  }
+}
+
+const createTick = (score: number): EngineTick => ({
+  t: 0,
+  presence: "PRESENT",
+  reliability: "OK",
+  metrics: { pitchDeg: 10, ehdNorm: 0.2, dpr: 1, conf: 0.9 },
+  score,
+  zone: "GREEN",
+  state: "GOOD",
+});
+
+const connect = async (tickIntervalMs: number | null = null) => {
+  const { openDashboardStream } = await import("../dashboardEventStream.js");
+  const req = new EventEmitter();
+  const res = new FakeResponse();
+  openDashboardStream(
+    req as unknown as http.IncomingMessage,
+    res as unknown as http.ServerResponse,
+    tickIntervalMs,
+  );
+  return { req, res };
+};
+
+describe("Dashboard event stream", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(async () => {
+    const { closeDashboardStreams, setDashboardStreamTickInterval } =
+      await import("../dashboardEventStream.js");
+    closeDashboardStreams();
+    setDashboardStreamTickInterval(1000);
+    vi.useRealTimers();
+  });
+
+  it("opens an event stream with SSE headers", async () => {
+    const { res } = await connect();
+
+    expect(res.writeHead).toHaveBeenCalledWith(
+      200,
+      expect.objectContaining({ "Content-Type": "text/event-stream" }),
+    );
+    expect(res.chunks[0]).toBe("retry: 3000\n\n");
+  });
+
+  it("rate-limits ticks per client", async () => {
+    const { publishDashboardStreamTick } = await import(
+      "../dashboardEventStream.js"
+    );
+    const { res: slow } = await connect();
+    const { res: fast } = await connect(200);
+
+    publishDashboardStreamTick(createTick(10), 0);
+    publishDashboardStreamTick(createTick(20), 300);
+    publishDashboardStreamTick(createTick(30), 1000);
+
+    expect(slow.events("tick")).toMatchObject([{ score: 10 }, { score: 30 }]);
+    expect(fast.events("tick")).toMatchObject([
+      { score: 10 },
+      { score: 20 },
+      { score: 30 },
+    ]);
+  });
+
+  it("follows the configured default interval", async () => {
+    const { publishDashboardStreamTick, setDashboardStreamTickInterval } =
+      await import("../dashboardEventStream.js");
+    setDashboardStreamTickInterval(5000);
+    const { res } = await connect();
+
+    publishDashboardStreamTick(createTick(10), 0);
+    publishDashboardStreamTick(createTick(20), 4000);
+    publishDashboardStreamTick(createTick(30), 5000);
+
+    expect(res.events("tick")).toMatchObject([{ score: 10 }, { score: 30 }]);
+  });
+
+  it("pushes calibration and data update events to every client", async () => {
+    const { publishDashboardStreamEvent } = await import(
+      "../dashboardEventStream.js"
+    );
+    const { res } = await connect();
+
+    publishDashboardStreamEvent("calibration-progress", { progress: 0.5 });
+    publishDashboardStreamEvent("posture-data-updated");
+
+    expect(res.events("calibration-progress")).toEqual([{ progress: 0.5 }]);
+    expect(res.events("posture-data-updated")).toEqual([{}]);
+  });
+
+  it("drops events for a blocked client until it drains", async () => {
+    const { publishDashboardStreamEvent } = await import(
+      "../dashboardEventStream.js"
+    );
+    const { res } = await connect();
+    res.flushes = false;
+
+    publishDashboardStreamEvent("posture-data-updated");
+    publishDashboardStreamEvent("posture-data-updated");
+    expect(res.events("posture-data-updated")).toHaveLength(1);
+
+    res.flushes = true;
+    res.emit("drain");
+    publishDashboardStreamEvent("posture-data-updated");
+    expect(res.events("posture-data-updated")).toHaveLength(2);
+  });
+
+  it("sends keep-alive comments and forgets disconnected clients", async () => {
+    const { getDashboardStreamClientCount } = await import(
+      "../dashboardEventStream.js"
+    );
+    const { req, res } = await connect();
+
+    vi.advanceTimersByTime(15000);
+    expect(res.chunks).toContain(": keep-alive\n\n");
+
+    req.emit("close");
+    expect(getDashboardStreamClientCount()).toBe(0);
+  });
+
+  it("validates the tickIntervalMs query parameter", async () => {
+    const { parseStreamTickInterval } = await import(
+      "../dashboardEventStream.js"
+    );
+
+    expect(parseStreamTickInterval(null)).toEqual({ ok: true, value: null });
+    expect(parseStreamTickInterval("250")).toEqual({ ok: true, value: 250 });
+    expect(parseStreamTickInterval("50").ok).toBe(false);
+    expect(parseStreamTickInterval("abc").ok).toBe(false);
+  });
+});
@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  IPC_INVOKE_CHANNELS,
+  parseIpcInvokeArgs,
+} from "../../shared/ipc/contract";
+import { IPC_CHANNELS } from "../../shared/ipcChannels";
+
+type RawHandler = (_event: unknown, ..._args: unknown[]) => Promise<unknown>;
+
+const handlers = new Map<string, RawHandler>();
+
+vi.mock("electron", () => ({
+  ipcMain: {
+    handle: vi.fn((channel: string, handler: RawHandler) => {
+      handlers.set(channel, handler);
+    }),
+  },
+}));
+
+let ipcModule: typeof import("../ipc/handleInvoke.js");
+
+beforeEach(async () => {
+  vi.resetModules();
+  handlers.clear();
+  ipcModule = await import("../ipc/handleInvoke.js");
+});
+
+const callChannel = (channel: string, ...rawArgs: unknown[]) => {
+  const handler = handlers.get(channel);
+  if (!handler) {
+    throw new Error(`No handler registered for ${channel}`);
+  }
+  return handler({}, ...rawArgs);
+};
+
+describe("handleIpcInvoke", () => {
+  it("dispatches validated arguments with the request id", async () => {
+    const handler = vi.fn(() => null);
+    ipcModule.handleIpcInvoke(IPC_CHANNELS.getRangeSummary, handler);
+
+    await callChannel(IPC_CHANNELS.getRangeSummary, {
+      requestId: "abc-1",
+      args: ["2024-01-01", "2024-01-07"],
+    });
+
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ requestId: "abc-1" }),
+      "2024-01-01",
+      "2024-01-07",
+    );
+  });
+
+  it("rejects invalid arguments before the handler runs", async () => {
+    const handler = vi.fn(() => null);
+    ipcModule.handleIpcInvoke(IPC_CHANNELS.getYearSummary, handler);
+
+    await expect(
+      callChannel(IPC_CHANNELS.getYearSummary, {
+        requestId: "abc-2",
+        args: ["2024"],
+      }),
+    ).rejects.toThrow(
+      "Invalid posture:get-year-summary request (abc-2): argument 1 must be an integer",
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("rejects calls sent without a request envelope", async () => {
+    const handler = vi.fn(() => []);
+    ipcModule.handleIpcInvoke(IPC_CHANNELS.listWebhooks, handler);
+
+    await expect(callChannel(IPC_CHANNELS.listWebhooks)).rejects.toThrow(
+      /Malformed/,
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("reports contract channels that have no handler", () => {
+    ipcModule.handleIpcInvoke(IPC_CHANNELS.listWebhooks, () => []);
+
+    const unhandled = ipcModule.getUnhandledIpcInvokeChannels();
+    expect(unhandled).not.toContain(IPC_CHANNELS.listWebhooks);
+    expect(unhandled).toHaveLength(IPC_INVOKE_CHANNELS.length - 1);
+  });
+});
+
+describe("parseIpcInvokeArgs", () => {
+  it("accepts omitted optional arguments", () => {
+    expect(parseIpcInvokeArgs(IPC_CHANNELS.exportPostureData, [])).toEqual({
+      ok: true,
+      value: [undefined],
+    });
+  });
+
+  it("rejects extra arguments", () => {
+    expect(parseIpcInvokeArgs(IPC_CHANNELS.listProfiles, [1])).toEqual({
+      ok: false,
+      error: "expected at most 0 arguments, received 1",
+    });
+  });
+
+  it("checks setting keys against the registry", () => {
+    expect(
+      parseIpcInvokeArgs(IPC_CHANNELS.setSetting, ["dayStartHour", 4]).ok,
+    ).toBe(true);
+    expect(
+      parseIpcInvokeArgs(IPC_CHANNELS.setSetting, ["unknownKey", 4]),
+    ).toEqual({ ok: false, error: "argument 1 must be a setting key" });
+  });
+
+  it("validates object payload shapes", () => {
+    expect(
+      parseIpcInvokeArgs(IPC_CHANNELS.createWebhook, [
+        { name: "Ops", url: "https://example.com", events: ["nope"] },
+      ]).ok,
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,279 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import type { EngineTick } from "../../shared/types/engine";
+import type { EngineFramePayload } from "../../shared/types/engine-ipc";
+import {
+  formatMetricFamilies,
+  negotiateExpositionFormat,
+} from "../api/prometheus";
+
+const stored = new Map<string, string>();
+
+vi.mock("electron", () => ({
+  BrowserWindow: vi.fn(),
+  dialog: { showSaveDialog: vi.fn() },
+}));
+
+vi.mock("../database/settingsRepository", () => ({
+  getSetting: (key: string) => stored.get(key) ?? null,
+  setSetting: (key: string, value: string) => {
+    stored.set(key, value);
+  },
+}));
+
+vi.mock("../../shared/logger", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  }),
+  toErrorPayload: (error: unknown) => ({ error }),
+}));
+
+vi.mock("../database/calibrationRepository", () => ({
+  listPostureCalibrations: vi.fn(),
+}));
+
+vi.mock("../database/dailyPostureRepository", () => ({
+  getDailyPostureLogsInRange: vi.fn(),
+  getTodaySummary: vi.fn(() => ({
+    date: "2025-11-14",
+    secondsInGreen: 1200,
+    secondsInYellow: 300,
+    secondsInRed: 60,
+    avgScore: 80,
+    sampleCount: 100,
+    meetsGoal: 1,
+  })),
+  getWeeklySummary: vi.fn(),
+}));
+
+vi.mock("../database/postureSummaryRepository", () => ({
+  getBestStreak: vi.fn(),
+  getMonthSummary: vi.fn(),
+  getRangeSummary: vi.fn(),
+  getWeekOverWeekSummary: vi.fn(),
+  getYearSummary: vi.fn(),
+}));
+
+vi.mock("../database/postureTimelineRepository", () => ({
+  getPostureHeatmap: vi.fn(),
+  getPostureTimeline: vi.fn(),
+}));
+
+const frame = (
+  overrides: Partial<EngineFramePayload["result"]> = {},
+  diagnostics: EngineFramePayload["diagnostics"] = null,
+): EngineFramePayload => ({
+  result: { frameId: 1, processedAt: 1000, durationMs: 5, ...overrides },
+  diagnostics,
+});
+
+const gatedMetrics = {
+  flags: {
+    yawDeweighted: false,
+    lowConfidence: true,
+    baselinePending: false,
+    confidenceGated: true,
+  },
+} as EngineFramePayload["result"]["metrics"];
+
+/**
+ * Test suite for the Prometheus/OpenMetrics endpoint.
+ * Covers the exposition formats, engine frame counters and the HTTP route.
+ */
+describe("Metrics endpoint", () => {
+  describe("Exposition format", () => {
+    const families = [
+      {
+        name: "posely_frames",
+        help: "Frames\nseen",
+        type: "counter" as const,
+        samples: [{ labels: { reason: 'a"b' }, value: 3 }],
+      },
+      {
+        name: "posely_empty",
+        help: "Unused",
+        type: "gauge" as const,
+        samples: [],
+      },
+    ];
+
+    it("should render Prometheus text with _total counter families", () => {
+      expect(formatMetricFamilies(families, "prometheus")).toBe(
+        [
+          "# HELP posely_frames_total Frames\\nseen",
+          "# TYPE posely_frames_total counter",
+          'posely_frames_total{reason="a\\"b"} 3',
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("should render OpenMetrics with bare family names and an EOF marker", () => {
+      const output = formatMetricFamilies(families, "openmetrics");
+
+      expect(output).toContain("# TYPE posely_frames counter\n");
+      expect(output).toContain('posely_frames_total{reason="a\\"b"} 3\n');
+      expect(output.endsWith("# EOF\n")).toBe(true);
+    });
+
+    it("should negotiate OpenMetrics only when requested", () => {
+      expect(
+        negotiateExpositionFormat(
+          "application/openmetrics-text;version=1.0.0,text/plain;q=0.5",
+        ),
+      ).toBe("openmetrics");
+      expect(negotiateExpositionFormat("text/plain")).toBe("prometheus");
+      expect(negotiateExpositionFormat(null)).toBe("prometheus");
+    });
+  });
+
+  describe("Engine frame counters", () => {
+    beforeEach(async () => {
+      const { resetEngineMetrics } = await import("../engineMetrics.js");
+      resetEngineMetrics();
+    });
+
+    it("should count frames, guardrail reasons and gated frames", async () => {
+      const { getEngineMetricsSnapshot, recordEngineFrameMetrics } =
+        await import("../engineMetrics.js");
+
+      recordEngineFrameMetrics(
+        frame(
+          {
+            reliabilityReasons: ["yaw-threshold", "confidence-low"],
+            metrics: gatedMetrics,
+          },
+          { fps: 12, inputWidth: 320, cpuAverage: 18.5 },
+        ),
+      );
+      recordEngineFrameMetrics(
+        frame({ reliabilityReasons: ["yaw-threshold"] }, { fps: 10 }),
+      );
+
+      expect(getEngineMetricsSnapshot()).toMatchObject({
+        framesTotal: 2,
+        confidenceGateSkippedTotal: 1,
+        reliabilityReasonTotals: {
+          "yaw-threshold": 2,
+          "confidence-low": 1,
+          "roll-threshold": 0,
+        },
+        fps: 10,
+        inputWidth: 320,
+        rendererCpuAverage: 18.5,
+      });
+    });
+
+    it("should ignore malformed reason lists from the renderer", async () => {
+      const { getEngineMetricsSnapshot, recordEngineFrameMetrics } =
+        await import("../engineMetrics.js");
+
+      recordEngineFrameMetrics(
+        frame({
+          reliabilityReasons: "yaw-threshold" as unknown as [],
+        }),
+      );
+      recordEngineFrameMetrics(
+        frame({ reliabilityReasons: ["bogus"] as unknown as [] }),
+      );
+
+      expect(
+        getEngineMetricsSnapshot().reliabilityReasonTotals["yaw-threshold"],
+      ).toBe(0);
+    });
+  });
+
+  describe("HTTP", () => {
+    let origin: string;
+    let secret: string;
+
+    beforeAll(async () => {
+      stored.clear();
+      const { createApiToken } = await import("../apiTokenService.js");
+      const result = createApiToken("prometheus");
+      if (!result.ok) throw new Error("token not created");
+      secret = result.secret;
+
+      process.env.POSELY_DASHBOARD_HTTP_PORT = String(
+        40000 + Math.floor(Math.random() * 10000),
+      );
+      const {
+        getDashboardHttpOrigin,
+        setDashboardApiControls,
+        startDashboardHttpServer,
+      } = await import("../dashboardHttpServer.js");
+      setDashboardApiControls({
+        getLatestTick: () => ({ score: 72, zone: "YELLOW" }) as EngineTick,
+        isMonitoringPaused: () => false,
+        setMonitoringPaused: vi.fn(),
+        activateCalibration: vi.fn(),
+        startRecalibration: vi.fn(),
+      });
+      startDashboardHttpServer();
+      await vi.waitFor(() => {
+        expect(getDashboardHttpOrigin()).not.toBeNull();
+      });
+      origin = getDashboardHttpOrigin() ?? "";
+    });
+
+    afterAll(async () => {
+      const { setDashboardApiControls, stopDashboardHttpServer } = await import(
+        "../dashboardHttpServer.js"
+      );
+      setDashboardApiControls(null);
+      stopDashboardHttpServer();
+      delete process.env.POSELY_DASHBOARD_HTTP_PORT;
+    });
+
+    it("should require an API token", async () => {
+      const response = await fetch(`${origin}/metrics`);
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should expose posture and engine metrics", async () => {
+      const response = await fetch(`${origin}/metrics`, {
+        headers: { Authorization: `Bearer ${secret}` },
+      });
+      const body = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toContain("version=0.0.4");
+      expect(body).toContain("posely_posture_score 72\n");
+      expect(body).toContain('posely_posture_zone{zone="yellow"} 1\n');
+      expect(body).toContain(
+        'posely_posture_zone_seconds_today{zone="green"} 1200\n',
+      );
+      expect(body).toContain("posely_monitoring_paused 0\n");
+      expect(body).toContain("# TYPE posely_engine_frames_total counter\n");
+      expect(body).toContain(
+        'posely_reliability_reason_frames_total{reason="illumination-low"} 0\n',
+      );
+      expect(body).toContain('posely_cpu_average_percent{process="main"}');
+    });
+
+    it("should answer OpenMetrics scrapers in their format", async () => {
+      const response = await fetch(`${origin}/metrics`, {
+        headers: {
+          Authorization: `Bearer ${secret}`,
+          Accept: "application/openmetrics-text; version=1.0.0",
+        },
+      });
+
+      expect(response.headers.get("content-type")).toContain(
+        "application/openmetrics-text",
+      );
+      expect((await response.text()).endsWith("# EOF\n")).toBe(true);
+    });
+  });
+});
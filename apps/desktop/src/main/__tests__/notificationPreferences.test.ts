@@ -0,0 +1,163 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { QuietHours } from "../../shared/types/notifications";
+
+const stored = new Map<string, string>();
+
+vi.mock("../database/settingsRepository", () => ({
+  getSetting: (key: string) => stored.get(key) ?? null,
+  setSetting: (key: string, value: string) => {
+    stored.set(key, value);
+  },
+}));
+
+vi.mock("../../shared/logger", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  }),
+  toErrorPayload: (error: unknown) => ({ error }),
+}));
+
+const HOUR = 60;
+
+const week = (window: Partial<QuietHours> = {}): QuietHours[] =>
+  Array.from({ length: 7 }, () => ({
+    enabled: false,
+    startMinute: 22 * HOUR,
+    endMinute: 7 * HOUR,
+    ...window,
+  }));
+
+describe("notificationPreferencesService", () => {
+  beforeEach(() => {
+    stored.clear();
+    vi.resetModules();
+  });
+
+  it("defaults to the built-in reminder schedules", async () => {
+    const { getNotificationPreferences } = await import(
+      "../notificationPreferencesService.js"
+    );
+    const { toReminderSchedules } = await import("../reminderEngine.js");
+
+    const preferences = getNotificationPreferences();
+
+    expect(toReminderSchedules(preferences.schedules)).toEqual({
+      red: [1, 3, 5, 7, 9, 11],
+      yellowFromGreen: [3, 5, 7, 9, 11],
+      yellowDwell: [5, 7, 9, 11],
+      greenBreak: [45],
+    });
+    expect(preferences.quietHours).toHaveLength(7);
+    expect(preferences.doNotDisturbUntil).toBeNull();
+  });
+
+  it("persists valid schedule updates and rejects out-of-range ones", async () => {
+    const { getNotificationPreferences, updateNotificationPreferences } =
+      await import("../notificationPreferencesService.js");
+    const calm = {
+      enabled: true,
+      firstDelayMinutes: 10,
+      repeatIntervalMinutes: 15,
+      maxRepeats: 2,
+    };
+
+    expect(
+      updateNotificationPreferences({ schedules: { red: calm } }),
+    ).toMatchObject({ ok: true });
+    expect(
+      updateNotificationPreferences({
+        schedules: { yellowDwell: { ...calm, repeatIntervalMinutes: 0 } },
+      }),
+    ).toMatchObject({ ok: false });
+    expect(
+      updateNotificationPreferences({ quietHours: week().slice(1) }),
+    ).toMatchObject({ ok: false });
+
+    const preferences = getNotificationPreferences();
+    expect(preferences.schedules.red).toEqual(calm);
+    expect(preferences.schedules.yellowDwell.repeatIntervalMinutes).toBe(2);
+  });
+
+  it("falls back to defaults for an unreadable row", async () => {
+    stored.set("notificationPreferences", "{not json");
+    const { getNotificationPreferences } = await import(
+      "../notificationPreferencesService.js"
+    );
+
+    expect(getNotificationPreferences().schedules.red.firstDelayMinutes).toBe(
+      1,
+    );
+  });
+
+  it("treats an expired do-not-disturb as off", async () => {
+    const { getNotificationPreferences, setDoNotDisturbUntil } = await import(
+      "../notificationPreferencesService.js"
+    );
+
+    expect(setDoNotDisturbUntil(5_000, 1_000).doNotDisturbUntil).toBe(5_000);
+    expect(getNotificationPreferences(4_999).doNotDisturbUntil).toBe(5_000);
+    expect(getNotificationPreferences(5_000).doNotDisturbUntil).toBeNull();
+    expect(setDoNotDisturbUntil(500, 1_000).doNotDisturbUntil).toBeNull();
+  });
+
+  it("applies quiet hours that run past midnight to the next morning", async () => {
+    const { isWithinQuietHours } = await import(
+      "../notificationPreferencesService.js"
+    );
+    // Friday 22:00 - 07:00 only
+    const quietHours = week();
+    quietHours[5] = {
+      enabled: true,
+      startMinute: 22 * HOUR,
+      endMinute: 7 * HOUR,
+    };
+
+    // 2026-10-16 is a Friday
+    expect(isWithinQuietHours(quietHours, new Date(2026, 9, 16, 21, 59))).toBe(
+      false,
+    );
+    expect(isWithinQuietHours(quietHours, new Date(2026, 9, 16, 23, 0))).toBe(
+      true,
+    );
+    expect(isWithinQuietHours(quietHours, new Date(2026, 9, 17, 6, 59))).toBe(
+      true,
+    );
+    expect(isWithinQuietHours(quietHours, new Date(2026, 9, 17, 7, 0))).toBe(
+      false,
+    );
+    expect(isWithinQuietHours(quietHours, new Date(2026, 9, 16, 6, 0))).toBe(
+      false,
+    );
+  });
+
+  it("holds reminders during do-not-disturb and quiet hours", async () => {
+    const { createDefaultNotificationPreferences, isNotificationQuietTime } =
+      await import("../notificationPreferencesService.js");
+    const preferences = createDefaultNotificationPreferences();
+    const noon = new Date(2026, 9, 19, 12, 0).getTime();
+
+    expect(isNotificationQuietTime(preferences, noon)).toBe(false);
+    expect(
+      isNotificationQuietTime(
+        { ...preferences, doNotDisturbUntil: noon + 1 },
+        noon,
+      ),
+    ).toBe(true);
+    expect(
+      isNotificationQuietTime(
+        {
+          ...preferences,
+          quietHours: week({
+            enabled: true,
+            startMinute: 12 * HOUR,
+            endMinute: 13 * HOUR,
+          }),
+        },
+        noon,
+      ),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,302 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { EngineTick } from "../../shared/types/engine";
+
+const upsertDailyPostureLog = vi.fn();
+const upsertDailyPostureProfileLog = vi.fn();
+const upsertPostureTimelineBucket = vi.fn();
+const applyPostureTimelineRetention = vi.fn();
+const appendPostureTickJournalEntry = vi.fn();
+const listPostureTickJournal = vi.fn();
+const commitPostureTickJournal = vi.fn();
+
+vi.mock("../../shared/logger", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  }),
+  toErrorPayload: (error: unknown) => ({ error }),
+}));
+
+vi.mock("../database/dailyPostureRepository", () => ({
+  upsertDailyPostureLog,
+}));
+
+vi.mock("../database/dailyPostureProfileRepository", () => ({
+  upsertDailyPostureProfileLog,
+}));
+
+vi.mock("../database/postureTimelineRepository", () => ({
+  applyPostureTimelineRetention,
+  upsertPostureTimelineBucket,
+  getMinuteStart: (timestamp: number) => timestamp - (timestamp % 60000),
+}));
+
+vi.mock("../database/postureTickJournalRepository", () => ({
+  appendPostureTickJournalEntry,
+  commitPostureTickJournal,
+  listPostureTickJournal,
+}));
+
+vi.mock("../settingsService", () => ({
+  getPostureGoalRule: () => ({
+    minAvgScore: 70,
+    minMonitoredMinutes: 0,
+    maxRedMinutes: 1440,
+    restOnWeekends: false,
+  }),
+}));
+
+const createTick = (overrides: Partial<EngineTick> = {}): EngineTick => ({
+  t: Date.now(),
+  presence: "PRESENT",
+  reliability: "OK",
+  metrics: { pitchDeg: 10, ehdNorm: 0.2, dpr: 1, conf: 0.9 },
+  score: 80,
+  zone: "GREEN",
+  state: "GOOD",
+  ...overrides,
+});
+
+describe("Posture data aggregator", () => {
+  let journalId = 0;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2025, 10, 14, 10, 0, 0));
+
+    journalId = 0;
+    appendPostureTickJournalEntry.mockImplementation(() => {
+      journalId += 1;
+      return journalId;
+    });
+    commitPostureTickJournal.mockImplementation(
+      (_throughId: number | null, persist: () => void) => persist(),
+    );
+    listPostureTickJournal.mockReturnValue([]);
+    upsertDailyPostureLog.mockImplementation((data) => data);
+
+    const { resetAccumulator, stopPostureDataAggregator } = await import(
+      "../postureDataAggregator.js"
+    );
+    stopPostureDataAggregator();
+    resetAccumulator();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("journals every tick before it is saved", async () => {
+    const { processEngineTick } = await import("../postureDataAggregator.js");
+
+    processEngineTick(createTick());
+
+    expect(appendPostureTickJournalEntry).toHaveBeenCalledWith(
+      expect.objectContaining({
+        date: "2025-11-14",
+        secondsElapsed: 1,
+        presence: "PRESENT",
+        zone: "GREEN",
+        score: 80,
+      }),
+    );
+    expect(upsertDailyPostureLog).not.toHaveBeenCalled();
+  });
+
+  it("saves only the totals added since the previous save", async () => {
+    const { processEngineTick, forceSavePostureData } = await import(
+      "../postureDataAggregator.js"
+    );
+
+    processEngineTick(createTick());
+    vi.advanceTimersByTime(1000);
+    processEngineTick(createTick());
+    forceSavePostureData();
+
+    vi.advanceTimersByTime(1000);
+    processEngineTick(createTick({ zone: "RED", score: 40 }));
+    forceSavePostureData();
+
+    expect(upsertDailyPostureLog).toHaveBeenCalledTimes(2);
+    expect(upsertDailyPostureLog.mock.calls[0]?.[0]).toMatchObject({
+      date: "2025-11-14",
+      secondsInGreen: 2,
+      sampleCount: 2,
+    });
+    expect(upsertDailyPostureLog.mock.calls[1]?.[0]).toMatchObject({
+      secondsInGreen: 0,
+      secondsInRed: 1,
+      avgScore: 40,
+      sampleCount: 1,
+    });
+    expect(commitPostureTickJournal.mock.calls.map((call) => call[0])).toEqual([
+      2, 3,
+    ]);
+  });
+
+  it("splits the daily totals by monitoring profile", async () => {
+    const { processEngineTick, forceSavePostureData } = await import(
+      "../postureDataAggregator.js"
+    );
+
+    processEngineTick(createTick(), 1);
+    vi.advanceTimersByTime(1000);
+    processEngineTick(createTick({ zone: "RED", score: 40 }), 2);
+    forceSavePostureData();
+
+    expect(appendPostureTickJournalEntry.mock.calls[1]?.[0]).toMatchObject({
+      profileId: 2,
+    });
+    expect(upsertDailyPostureLog).toHaveBeenCalledTimes(1);
+    expect(upsertDailyPostureLog.mock.calls[0]?.[0]).toMatchObject({
+      secondsInGreen: 1,
+      secondsInRed: 1,
+      sampleCount: 2,
+    });
+    expect(
+      upsertDailyPostureProfileLog.mock.calls.map((call) => call[0]),
+    ).toEqual([
+      expect.objectContaining({
+        date: "2025-11-14",
+        profileId: 1,
+        secondsInGreen: 1,
+        avgScore: 80,
+      }),
+      expect.objectContaining({
+        date: "2025-11-14",
+        profileId: 2,
+        secondsInRed: 1,
+        avgScore: 40,
+      }),
+    ]);
+  });
+
+  it("saves the previous day before counting the first tick of a new day", async () => {
+    vi.setSystemTime(new Date(2025, 10, 14, 23, 59, 59));
+    const { processEngineTick } = await import("../postureDataAggregator.js");
+
+    processEngineTick(createTick());
+    vi.advanceTimersByTime(2000);
+    processEngineTick(createTick());
+
+    expect(upsertDailyPostureLog).toHaveBeenCalledTimes(1);
+    expect(upsertDailyPostureLog.mock.calls[0]?.[0]).toMatchObject({
+      date: "2025-11-14",
+      sampleCount: 1,
+    });
+    expect(commitPostureTickJournal).toHaveBeenCalledWith(
+      1,
+      expect.any(Function),
+    );
+    expect(applyPostureTimelineRetention).toHaveBeenCalled();
+  });
+
+  it("replays the journal left by a previous run on start", async () => {
+    const receivedAt = new Date(2025, 10, 13, 22, 0, 0).getTime();
+    listPostureTickJournal.mockReturnValue([
+      {
+        id: 7,
+        receivedAt,
+        date: "2025-11-13",
+        secondsElapsed: 5,
+        presence: "PRESENT",
+        reliability: "OK",
+        zone: "YELLOW",
+        score: 60,
+        pitchDeg: 12,
+        ehdNorm: 0.3,
+        dpr: 1.1,
+        profileId: 1,
+      },
+      {
+        id: 8,
+        receivedAt: receivedAt + 5000,
+        date: "2025-11-13",
+        secondsElapsed: 5,
+        presence: "ABSENT",
+        reliability: "OK",
+        zone: "GREEN",
+        score: 0,
+        pitchDeg: 0,
+        ehdNorm: 0,
+        dpr: 0,
+        profileId: 1,
+      },
+    ]);
+    const onDataSaved = vi.fn();
+    const { startPostureDataAggregator, stopPostureDataAggregator } =
+      await import("../postureDataAggregator.js");
+
+    startPostureDataAggregator(onDataSaved);
+
+    expect(upsertDailyPostureLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        date: "2025-11-13",
+        secondsInYellow: 5,
+        sampleCount: 1,
+      }),
+      expect.any(Object),
+    );
+    expect(upsertPostureTimelineBucket).toHaveBeenCalledWith(
+      expect.objectContaining({
+        bucketStart: receivedAt,
+        secondsPresent: 5,
+        secondsReliable: 10,
+      }),
+    );
+    expect(commitPostureTickJournal).toHaveBeenCalledWith(
+      8,
+      expect.any(Function),
+    );
+    expect(onDataSaved).toHaveBeenCalledTimes(1);
+
+    stopPostureDataAggregator();
+  });
+
+  it("keeps pending data for the next save when a save fails", async () => {
+    const { processEngineTick, forceSavePostureData } = await import(
+      "../postureDataAggregator.js"
+    );
+    commitPostureTickJournal.mockImplementationOnce(() => {
+      throw new Error("database is locked");
+    });
+
+    processEngineTick(createTick());
+    forceSavePostureData();
+    forceSavePostureData();
+
+    expect(commitPostureTickJournal).toHaveBeenCalledTimes(2);
+    expect(commitPostureTickJournal).toHaveBeenLastCalledWith(
+      1,
+      expect.any(Function),
+    );
+    expect(upsertDailyPostureLog).toHaveBeenCalledTimes(1);
+    expect(upsertDailyPostureLog.mock.calls[0]?.[0]).toMatchObject({
+      sampleCount: 1,
+    });
+  });
+
+  it("saves on suspend and does not count the time asleep", async () => {
+    const {
+      processEngineTick,
+      suspendPostureDataAggregator,
+      forceSavePostureData,
+    } = await import("../postureDataAggregator.js");
+
+    processEngineTick(createTick());
+    suspendPostureDataAggregator();
+    expect(upsertDailyPostureLog).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(30 * 60 * 1000);
+    processEngineTick(createTick());
+    forceSavePostureData();
+
+    expect(upsertDailyPostureLog.mock.calls[1]?.[0]).toMatchObject({
+      secondsInGreen: 1,
+    });
+  });
+});
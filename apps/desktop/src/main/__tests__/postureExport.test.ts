@@ -0,0 +1,308 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { PostureCalibrationRecord } from "../../shared/types/calibration";
+
+const showSaveDialog = vi.fn();
+const writeFile = vi.fn();
+const getDailyPostureLogsInRange = vi.fn();
+const listPostureCalibrations = vi.fn();
+const getAllSettings = vi.fn();
+const listMonitoringProfiles = vi.fn();
+const listDailyPostureProfileLogs = vi.fn();
+
+vi.mock("electron", () => ({
+  BrowserWindow: vi.fn(),
+  dialog: {
+    showSaveDialog,
+  },
+}));
+
+vi.mock("fs", () => ({
+  promises: {
+    writeFile,
+  },
+}));
+
+vi.mock("../../shared/logger", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  }),
+  toErrorPayload: (error: unknown) => ({ error }),
+}));
+
+vi.mock("../database/dailyPostureRepository", () => ({
+  getDailyPostureLogsInRange,
+}));
+
+vi.mock("../database/dailyPostureProfileRepository", () => ({
+  listDailyPostureProfileLogs,
+}));
+
+vi.mock("../database/calibrationRepository", () => ({
+  listPostureCalibrations,
+}));
+
+vi.mock("../database/monitoringProfileRepository", () => ({
+  listMonitoringProfiles,
+}));
+
+vi.mock("../database/settingsRepository", () => ({
+  getAllSettings,
+}));
+
+const createCalibration = (
+  overrides: Partial<PostureCalibrationRecord> = {},
+): PostureCalibrationRecord => ({
+  id: 1,
+  userId: 1,
+  profileId: 1,
+  cameraKey: null,
+  baselinePitch: 10,
+  baselineEHD: 0.2,
+  baselineDPR: 1,
+  quality: 90,
+  sampleCount: 120,
+  sensitivity: "medium",
+  customPitchThreshold: null,
+  customEHDThreshold: null,
+  customDPRThreshold: null,
+  calibratedAt: new Date(2025, 10, 3, 9, 0).getTime(),
+  isActive: true,
+  createdAt: new Date(2025, 10, 3, 9, 0).getTime(),
+  updatedAt: new Date(2025, 10, 3, 9, 0).getTime(),
+  ...overrides,
+});
+
+describe("Posture export", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    getDailyPostureLogsInRange.mockReturnValue([
+      {
+        date: "2025-11-03",
+        secondsInGreen: 3600,
+        secondsInYellow: 600,
+        secondsInRed: 300,
+        avgScore: 81.5,
+        sampleCount: 4500,
+        meetsGoal: 1,
+      },
+    ]);
+    listDailyPostureProfileLogs.mockReturnValue([
+      {
+        id: 8,
+        date: "2025-11-03",
+        profileId: 3,
+        secondsInGreen: 1800,
+        secondsInYellow: 300,
+        secondsInRed: 0,
+        avgScore: 84,
+        sampleCount: 2000,
+      },
+    ]);
+    listPostureCalibrations.mockReturnValue([
+      createCalibration({ id: 2, profileId: 3, cameraKey: "usb:046d:085c" }),
+      createCalibration({
+        id: 1,
+        calibratedAt: new Date(2025, 9, 1, 9, 0).getTime(),
+        isActive: false,
+      }),
+    ]);
+    listMonitoringProfiles.mockReturnValue([
+      {
+        id: 1,
+        name: "Default",
+        performanceMode: "balanced",
+        isActive: false,
+        cameraKey: null,
+        createdAt: 0,
+        updatedAt: 0,
+      },
+      {
+        id: 3,
+        name: "Standing, desk",
+        performanceMode: "battery",
+        isActive: true,
+        cameraKey: "usb:046d:085c",
+        createdAt: 0,
+        updatedAt: 0,
+      },
+    ]);
+    getAllSettings.mockReturnValue({
+      sensitivity: "50",
+      note: 'tilted, "a lot"',
+      apiTokens: '[{"id":"1","hash":"abc"}]',
+      webhooks: '[{"id":"2","secret":"whsec_abc"}]',
+    });
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("normaliseExportRange", () => {
+    it("treats empty bounds as open", async () => {
+      const { normaliseExportRange } = await import("../postureExport.js");
+
+      expect(normaliseExportRange({ from: "", to: undefined })).toEqual({
+        from: null,
+        to: null,
+      });
+    });
+
+    it("rejects malformed or inverted ranges", async () => {
+      const { normaliseExportRange } = await import("../postureExport.js");
+
+      expect(() => normaliseExportRange({ from: "2025-02-30" })).toThrow(
+        "Invalid export start date",
+      );
+      expect(() =>
+        normaliseExportRange({ from: "2025-11-05", to: "2025-11-01" }),
+      ).toThrow("must not be after");
+    });
+  });
+
+  describe("buildPostureExportDocument", () => {
+    it("filters calibrations by range and includes settings", async () => {
+      const { buildPostureExportDocument } = await import(
+        "../postureExport.js"
+      );
+
+      const document = buildPostureExportDocument(
+        { from: "2025-11-01", to: "2025-11-30" },
+        new Date("2025-11-04T00:00:00.000Z"),
+      );
+
+      expect(getDailyPostureLogsInRange).toHaveBeenCalledWith(
+        "2025-11-01",
+        "2025-11-30",
+      );
+      expect(listDailyPostureProfileLogs).toHaveBeenCalledWith(
+        "2025-11-01",
+        "2025-11-30",
+      );
+      expect(document.schemaVersion).toBe(3);
+      expect(document.profiles).toEqual([
+        {
+          id: 1,
+          name: "Default",
+          performanceMode: "balanced",
+          cameraKey: null,
+        },
+        {
+          id: 3,
+          name: "Standing, desk",
+          performanceMode: "battery",
+          cameraKey: "usb:046d:085c",
+        },
+      ]);
+      expect(document.exportedAt).toBe("2025-11-04T00:00:00.000Z");
+      expect(document.dailyLogs).toHaveLength(1);
+      expect(document.profileDailyLogs).toEqual([
+        {
+          date: "2025-11-03",
+          profileId: 3,
+          secondsInGreen: 1800,
+          secondsInYellow: 300,
+          secondsInRed: 0,
+          avgScore: 84,
+          sampleCount: 2000,
+        },
+      ]);
+      expect(document.calibrations.map((c) => c.id)).toEqual([2]);
+      expect(document.calibrations[0]?.calibratedAt).toBe(
+        new Date(2025, 10, 3, 9, 0).toISOString(),
+      );
+      expect(document.settings).toEqual({
+        sensitivity: "50",
+        note: 'tilted, "a lot"',
+      });
+    });
+  });
+
+  describe("serializePostureExportCsv", () => {
+    it("writes one section per collection and escapes cells", async () => {
+      const { buildPostureExportDocument, serializePostureExportCsv } =
+        await import("../postureExport.js");
+
+      const csv = serializePostureExportCsv(
+        buildPostureExportDocument(
+          { from: null, to: null },
+          new Date("2025-11-04T00:00:00.000Z"),
+        ),
+      );
+      const lines = csv.trimEnd().split("\n");
+
+      expect(lines[0]).toBe(
+        "# posely-export,schemaVersion=3,exportedAt=2025-11-04T00:00:00.000Z,from=,to=",
+      );
+      expect(lines).toContain("# profiles");
+      expect(lines).toContain("id,name,performance_mode,camera_key");
+      expect(lines).toContain("1,Default,balanced,");
+      expect(lines).toContain('3,"Standing, desk",battery,usb:046d:085c');
+      expect(lines).toContain("# daily_logs");
+      expect(lines).toContain("2025-11-03,3600,600,300,81.5,4500,1");
+      expect(lines).toContain("# profile_daily_logs");
+      expect(lines).toContain(
+        "date,profile_id,seconds_in_green,seconds_in_yellow,seconds_in_red,avg_score,sample_count",
+      );
+      expect(lines).toContain("2025-11-03,3,1800,300,0,84,2000");
+      expect(lines).toContain("# calibrations");
+      expect(lines).toContain(
+        "id,user_id,profile_id,camera_key,calibrated_at,baseline_pitch,baseline_ehd,baseline_dpr,quality,sample_count,sensitivity,custom_pitch_threshold,custom_ehd_threshold,custom_dpr_threshold,is_active,created_at,updated_at",
+      );
+      expect(
+        lines.some(
+          (line) =>
+            line.startsWith("2,1,3,usb:046d:085c,") && line.includes(",1,"),
+        ),
+      ).toBe(true);
+      expect(lines.some((line) => line.startsWith("1,1,1,,"))).toBe(true);
+      expect(lines).toContain("# settings");
+      expect(lines).toContain('note,"tilted, ""a lot"""');
+    });
+  });
+
+  describe("exportPostureHistory", () => {
+    it("returns canceled when the save dialog is dismissed", async () => {
+      showSaveDialog.mockResolvedValue({ canceled: true, filePath: "" });
+      const { exportPostureHistory } = await import("../postureExport.js");
+
+      const result = await exportPostureHistory({ format: "csv" });
+
+      expect(result).toEqual({ ok: false, canceled: true });
+      expect(writeFile).not.toHaveBeenCalled();
+    });
+
+    it("derives the format from the chosen file extension", async () => {
+      showSaveDialog.mockResolvedValue({
+        canceled: false,
+        filePath: "/tmp/posely.json",
+      });
+      writeFile.mockResolvedValue(undefined);
+      const { exportPostureHistory } = await import("../postureExport.js");
+
+      const result = await exportPostureHistory({ format: "csv" });
+
+      expect(result).toEqual({
+        ok: true,
+        filePath: "/tmp/posely.json",
+        format: "json",
+        counts: { dailyLogs: 1, calibrations: 2, settings: 2 },
+      });
+      const written = writeFile.mock.calls[0]?.[1] as string;
+      expect(JSON.parse(written)).toMatchObject({ schemaVersion: 3 });
+    });
+
+    it("reports validation errors without opening the dialog", async () => {
+      const { exportPostureHistory } = await import("../postureExport.js");
+
+      const result = await exportPostureHistory({ from: "not-a-date" });
+
+      expect(result.ok).toBe(false);
+      expect(showSaveDialog).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const showOpenDialog = vi.fn();
+const readFile = vi.fn();
+const restorePostureBackup = vi.fn();
+
+vi.mock("electron", () => ({
+  BrowserWindow: vi.fn(),
+  dialog: {
+    showOpenDialog,
+  },
+}));
+
+vi.mock("fs", () => ({
+  promises: {
+    readFile,
+  },
+}));
+
+vi.mock("../../shared/logger", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  }),
+  toErrorPayload: (error: unknown) => ({ error }),
+}));
+
+vi.mock("../database/postureBackupRepository", () => ({
+  restorePostureBackup,
+}));
+
+const GOAL_RULE = {
+  minAvgScore: 70,
+  minMonitoredMinutes: 0,
+  maxRedMinutes: 1440,
+  restOnWeekends: false,
+};
+
+vi.mock("../settingsService", () => ({
+  getPostureGoalRule: () => GOAL_RULE,
+}));
+
+const CSV_BACKUP = [
+  "# posely-export,schemaVersion=3,exportedAt=2025-11-04T00:00:00.000Z,from=,to=",
+  "",
+  "# daily_logs",
+  "date,seconds_in_green,seconds_in_yellow,seconds_in_red,avg_score,sample_count,meets_goal",
+  "2025-11-03,3600,600,300,81.5,4500,1",
+  "",
+  "# profiles",
+  "id,name,performance_mode,camera_key",
+  "1,Default,balanced,",
+  '3,"Standing, desk",battery,usb:046d:085c',
+  "",
+  "# profile_daily_logs",
+  "date,profile_id,seconds_in_green,seconds_in_yellow,seconds_in_red,avg_score,sample_count",
+  "2025-11-03,3,1800,300,0,84,2000",
+  "",
+  "# calibrations",
+  "id,user_id,profile_id,camera_key,calibrated_at,baseline_pitch,baseline_ehd,baseline_dpr,quality,sample_count,sensitivity,custom_pitch_threshold,custom_ehd_threshold,custom_dpr_threshold,is_active,created_at,updated_at",
+  "2,1,3,usb:046d:085c,2025-11-03T09:00:00.000Z,10,0.2,1,90,120,medium,,,,1,2025-11-03T09:00:00.000Z,2025-11-03T09:00:00.000Z",
+  "3,1,1,,2025-11-02T09:00:00.000Z,11,0.2,1,88,120,low,,,,0,2025-11-02T09:00:00.000Z,2025-11-02T09:00:00.000Z",
+  "",
+  "# settings",
+  "key,value",
+  'note,"tilted, ""a lot"""',
+  "",
+].join("\n");
+
+const EMPTY_DIFF = {
+  dailyLogs: { inserted: ["2025-11-03"], updated: [], unchanged: [] },
+  profileDailyLogs: { inserted: 1, updated: 0, unchanged: 0 },
+  calibrations: { inserted: 1, skipped: 0, activeCalibratedAt: null },
+};
+
+describe("Posture import", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.resetModules();
+    restorePostureBackup.mockReturnValue(EMPTY_DIFF);
+  });
+
+  it("parses the sectioned CSV export back into a backup document", async () => {
+    const { parsePostureBackupCsv } = await import("../postureImport.js");
+
+    expect(parsePostureBackupCsv(CSV_BACKUP)).toMatchObject({
+      schemaVersion: 3,
+      range: { from: null, to: null },
+      dailyLogs: [{ date: "2025-11-03", avgScore: 81.5, meetsGoal: 1 }],
+      profiles: [
+        { id: 1, name: "Default", cameraKey: null },
+        {
+          id: 3,
+          name: "Standing, desk",
+          performanceMode: "battery",
+          cameraKey: "usb:046d:085c",
+        },
+      ],
+      profileDailyLogs: [
+        {
+          date: "2025-11-03",
+          profileId: 3,
+          secondsInGreen: 1800,
+          avgScore: 84,
+          sampleCount: 2000,
+        },
+      ],
+      calibrations: [
+        {
+          id: 2,
+          profileId: 3,
+          cameraKey: "usb:046d:085c",
+          customPitchThreshold: null,
+          isActive: true,
+        },
+        { id: 3, profileId: 1, cameraKey: null, isActive: false },
+      ],
+      settings: { note: 'tilted, "a lot"' },
+    });
+  });
+
+  it("previews with a dry run and commits the same backup", async () => {
+    showOpenDialog.mockResolvedValue({
+      canceled: false,
+      filePaths: ["/tmp/backup.csv"],
+    });
+    readFile.mockResolvedValue(CSV_BACKUP);
+    const { commitPostureImport, previewPostureImport } = await import(
+      "../postureImport.js"
+    );
+
+    const preview = await previewPostureImport({ strategy: "sum" });
+    expect(preview).toMatchObject({ ok: true, dryRun: true, diff: EMPTY_DIFF });
+    expect(restorePostureBackup).toHaveBeenLastCalledWith(
+      expect.objectContaining({ schemaVersion: 3 }),
+      "sum",
+      true,
+      GOAL_RULE,
+    );
+
+    const committed = commitPostureImport();
+    expect(committed).toMatchObject({ ok: true, dryRun: false });
+    expect(restorePostureBackup).toHaveBeenLastCalledWith(
+      expect.objectContaining({ schemaVersion: 3 }),
+      "sum",
+      false,
+      GOAL_RULE,
+    );
+
+    expect(commitPostureImport()).toEqual({
+      ok: false,
+      errors: ["No previewed backup to import"],
+    });
+  });
+
+  it("returns validation errors without touching the database", async () => {
+    showOpenDialog.mockResolvedValue({
+      canceled: false,
+      filePaths: ["/tmp/backup.json"],
+    });
+    readFile.mockResolvedValue(JSON.stringify({ schemaVersion: 99 }));
+    const { previewPostureImport } = await import("../postureImport.js");
+
+    const result = await previewPostureImport({ strategy: "overwrite" });
+
+    expect(result.ok).toBe(false);
+    expect(restorePostureBackup).not.toHaveBeenCalled();
+  });
+});
@@ -14,6 +14,7 @@ const listeners = new Map<string, (..._args: unknown[]) => void>();
 
 vi.mock("electron", () => {
   const send = vi.fn();
+  const invoke = vi.fn(() => Promise.resolve(null));
   const removeListener = vi.fn(
     (channel: string, listener: (..._args: unknown[]) => void) => {
       const existing = listeners.get(channel);
@@ -43,6 +44,7 @@ vi.mock("electron", () => {
     contextBridge,
     ipcRenderer: {
       send,
+      invoke,
       on,
       once,
       removeListener,
@@ -85,6 +87,40 @@ describe("electron preload bridge", () => {
     ).toThrowError(/unsupported IPC channel/);
   });
 
+  it("wraps invoke arguments in a request envelope", async () => {
+    await electronHandler.ipcRenderer.invoke(
+      IPC_CHANNELS.getRangeSummary,
+      "2024-01-01",
+      "2024-01-07",
+    );
+
+    expect(electronMock.ipcRenderer.invoke).toHaveBeenCalledWith(
+      IPC_CHANNELS.getRangeSummary,
+      {
+        requestId: expect.any(String) as string,
+        args: ["2024-01-01", "2024-01-07"],
+      },
+    );
+  });
+
+  it("gives each invoke call its own request id", async () => {
+    await electronHandler.ipcRenderer.invoke(IPC_CHANNELS.getDailySummary);
+    await electronHandler.ipcRenderer.invoke(IPC_CHANNELS.getDailySummary);
+
+    const requestIds = vi
+      .mocked(electronMock.ipcRenderer.invoke)
+      .mock.calls.map(
+        ([, envelope]) => (envelope as { requestId: string }).requestId,
+      );
+    expect(new Set(requestIds).size).toBe(2);
+  });
+
+  it("throws when invoking a channel outside the IPC contract", () => {
+    expect(() =>
+      electronHandler.ipcRenderer.invoke(IPC_CHANNELS.engineTick as never),
+    ).toThrowError(/unsupported IPC channel/);
+  });
+
   it("removes underlying listener on cleanup", () => {
     const handler = vi.fn();
 
@@ -0,0 +1,221 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { PresentationReason } from "../presentationDetector";
+
+type PresentationDetectorModule = typeof import("../presentationDetector.js");
+type PresentationProbesModule = typeof import("../presentationProbes.js");
+
+vi.mock("../../shared/logger", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  }),
+  toErrorPayload: (error: unknown) => ({ error }),
+}));
+
+const POLL_MS = 1_000;
+
+let detectorModule: PresentationDetectorModule;
+
+const createHarness = () => {
+  let cameraInUse = false;
+  let fullscreen: boolean | Error = false;
+  const onChange = vi.fn((_reasons: PresentationReason[]) => undefined);
+  const detector = detectorModule.createPresentationDetector({
+    probes: {
+      camera: async () => cameraInUse,
+      fullscreen: async () => {
+        if (fullscreen instanceof Error) {
+          throw fullscreen;
+        }
+        return fullscreen;
+      },
+    },
+    onChange,
+    pollMs: POLL_MS,
+  });
+
+  return {
+    detector,
+    onChange,
+    setCameraInUse: (value: boolean) => {
+      cameraInUse = value;
+    },
+    setFullscreen: (value: boolean | Error) => {
+      fullscreen = value;
+    },
+    /** Let the next poll run */
+    nextPoll: () => vi.advanceTimersByTimeAsync(POLL_MS),
+  };
+};
+
+describe("presentationDetector", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.resetModules();
+    detectorModule = await import("../presentationDetector.js");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("reports detected reasons only when they change", async () => {
+    const { detector, onChange, setCameraInUse, setFullscreen, nextPoll } =
+      createHarness();
+
+    detector.start();
+    await nextPoll();
+    expect(onChange).not.toHaveBeenCalled();
+
+    setCameraInUse(true);
+    await nextPoll();
+    await nextPoll();
+    setFullscreen(true);
+    await nextPoll();
+    setCameraInUse(false);
+    setFullscreen(false);
+    await nextPoll();
+
+    expect(onChange.mock.calls).toEqual([
+      [["camera"]],
+      [["camera", "fullscreen"]],
+      [[]],
+    ]);
+    detector.stop();
+  });
+
+  it("treats a failing probe as not detected", async () => {
+    const { detector, onChange, setCameraInUse, setFullscreen, nextPoll } =
+      createHarness();
+    setCameraInUse(true);
+    setFullscreen(new Error("xprop: unable to open display"));
+
+    detector.start();
+    await nextPoll();
+
+    expect(detector.getReasons()).toEqual(["camera"]);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    detector.stop();
+  });
+
+  it("keeps presenting mode when detection stops", async () => {
+    const { detector, onChange, setFullscreen, nextPoll } = createHarness();
+    setFullscreen(true);
+
+    detector.setPresenting(true);
+    detector.start();
+    await nextPoll();
+    expect(detector.getReasons()).toEqual(["fullscreen", "presenting"]);
+
+    detector.stop();
+    expect(detector.getReasons()).toEqual(["presenting"]);
+    await nextPoll();
+
+    detector.setPresenting(false);
+    expect(onChange.mock.calls).toEqual([
+      [["presenting"]],
+      [["fullscreen", "presenting"]],
+      [["presenting"]],
+      [[]],
+    ]);
+  });
+});
+
+describe("presentationProbes", () => {
+  let probesModule: PresentationProbesModule;
+
+  beforeEach(async () => {
+    vi.resetModules();
+    probesModule = await import("../presentationProbes.js");
+  });
+
+  it("finds other apps using the camera in the Windows consent store", () => {
+    const key =
+      "HKEY_CURRENT_USER\\Software\\Microsoft\\Windows\\CurrentVersion\\CapabilityAccessManager\\ConsentStore\\webcam";
+    const output = [
+      `${key}\\Microsoft.WindowsCamera_8wekyb3d8bbwe`,
+      "    LastUsedTimeStop    REG_QWORD    0x1d9a2b3c4d5e6f7",
+      "",
+      `${key}\\NonPackaged\\C:#Program Files#Posely#Posely.exe`,
+      "    LastUsedTimeStop    REG_QWORD    0x0",
+      "",
+    ].join("\r\n");
+    const ownExecutable = "C:\\Program Files\\Posely\\Posely.exe";
+
+    expect(probesModule.parseWindowsWebcamInUse(output, ownExecutable)).toBe(
+      false,
+    );
+    expect(
+      probesModule.parseWindowsWebcamInUse(
+        `${output}${key}\\NonPackaged\\C:#Users#me#AppData#Zoom#bin#Zoom.exe\r\n    LastUsedTimeStop    REG_QWORD    0x0\r\n`,
+        ownExecutable,
+      ),
+    ).toBe(true);
+  });
+
+  it("reads the processes holding a video device from fuser output", () => {
+    expect(probesModule.parseFuserPids(" 4211 4388m")).toEqual([4211, 4388]);
+    expect(probesModule.parseFuserPids("")).toEqual([]);
+  });
+
+  it("reads the fullscreen state from xprop output", () => {
+    expect(
+      probesModule.isXpropFullscreen(
+        "_NET_WM_STATE(ATOM) = _NET_WM_STATE_FULLSCREEN, _NET_WM_STATE_FOCUSED",
+      ),
+    ).toBe(true);
+    expect(
+      probesModule.isXpropFullscreen(
+        "_NET_WM_STATE(ATOM) = _NET_WM_STATE_MAXIMIZED_VERT",
+      ),
+    ).toBe(false);
+  });
+
+  it("answers queries from one helper process and restarts it after exit", async () => {
+    // Answers two lines, then exits on the third without answering
+    const query = probesModule.createLineQuery(process.execPath, [
+      "-e",
+      [
+        "let count = 0;",
+        "require('readline').createInterface({ input: process.stdin })",
+        ".on('line', () => {",
+        "count += 1;",
+        "if (count === 3) process.exit(0);",
+        "console.log(` ${process.pid}:${count} `);",
+        "});",
+      ].join(" "),
+    ]);
+
+    const first = await query();
+    const second = await query();
+    const [pid] = first.split(":");
+    expect(first).toBe(`${pid}:1`);
+    expect(second).toBe(`${pid}:2`);
+
+    await expect(query()).rejects.toThrow("exited with code 0");
+    const restarted = await query();
+    expect(restarted).toMatch(/^\d+:1$/);
+    expect(restarted).not.toBe(first);
+  });
+
+  it("skips fullscreen detection while an own window is focused", async () => {
+    const probes = probesModule.createPresentationProbes({
+      platform: "linux",
+      ownExecutable: "/opt/posely/posely",
+      getOwnProcessIds: () => [],
+      isOwnWindowFocused: () => true,
+    });
+
+    await expect(probes.fullscreen?.()).resolves.toBe(false);
+    expect(
+      probesModule.createPresentationProbes({
+        platform: "darwin",
+        ownExecutable: "/Applications/Posely.app",
+        getOwnProcessIds: () => [],
+        isOwnWindowFocused: () => false,
+      }).camera,
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,239 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { MonitoringProfile } from "../../shared/types/profiles";
+
+const profiles: MonitoringProfile[] = [];
+const calibratedProfileIds = new Set<number>();
+
+const makeProfile = (
+  id: number,
+  name: string,
+  isActive = false,
+): MonitoringProfile => ({
+  id,
+  name,
+  performanceMode: "balanced",
+  isActive,
+  cameraKey: null,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+vi.mock("../../shared/logger", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+vi.mock("../database/calibrationRepository", () => ({
+  getActivePostureCalibration: vi.fn(
+    (_userId: number | undefined, profileId: number) =>
+      calibratedProfileIds.has(profileId) ? { id: profileId } : null,
+  ),
+}));
+
+vi.mock("../database/monitoringProfileRepository", () => ({
+  listMonitoringProfiles: vi.fn(() => profiles.map((p) => ({ ...p }))),
+  getMonitoringProfileById: vi.fn(
+    (id: number) => profiles.find((p) => p.id === id) ?? null,
+  ),
+  getActiveMonitoringProfile: vi.fn(
+    () => profiles.find((p) => p.isActive) ?? null,
+  ),
+  getMonitoringProfileByCameraKey: vi.fn(
+    (cameraKey: string) =>
+      profiles.find((p) => p.cameraKey === cameraKey) ?? null,
+  ),
+  insertMonitoringProfile: vi.fn(
+    (
+      name: string,
+      performanceMode: MonitoringProfile["performanceMode"],
+      _now: number,
+      cameraKey: string | null = null,
+    ) => {
+      const profile = {
+        ...makeProfile(profiles.length + 1, name),
+        performanceMode,
+        cameraKey,
+      };
+      profiles.push(profile);
+      return profile;
+    },
+  ),
+  updateMonitoringProfile: vi.fn(
+    (id: number, update: Partial<MonitoringProfile>) => {
+      const profile = profiles.find((p) => p.id === id);
+      if (!profile) {
+        return null;
+      }
+      Object.assign(profile, update);
+      return { ...profile };
+    },
+  ),
+  deleteMonitoringProfile: vi.fn((id: number) => {
+    const index = profiles.findIndex((p) => p.id === id);
+    profiles.splice(index, 1);
+    return index >= 0;
+  }),
+  markMonitoringProfileActive: vi.fn((id: number) => {
+    profiles.forEach((profile) => {
+      profile.isActive = profile.id === id;
+    });
+  }),
+}));
+
+describe("profileService", () => {
+  beforeEach(() => {
+    profiles.splice(0, profiles.length, makeProfile(1, "Desk", true));
+    calibratedProfileIds.clear();
+    calibratedProfileIds.add(1);
+    vi.resetModules();
+  });
+
+  it("validates names and performance modes on create", async () => {
+    const { createProfile } = await import("../profileService.js");
+
+    expect(createProfile({ name: "  " })).toEqual({
+      ok: false,
+      error: "Profile name must be 1-40 characters",
+    });
+    expect(createProfile({ name: "desk" })).toEqual({
+      ok: false,
+      error: 'A profile named "desk" already exists',
+    });
+    expect(createProfile({ name: "Laptop", performanceMode: "turbo" })).toEqual(
+      { ok: false, error: "Unknown performance mode" },
+    );
+
+    const created = createProfile({
+      name: " Laptop ",
+      performanceMode: "battery_saver",
+    });
+    expect(created).toMatchObject({
+      ok: true,
+      profile: { name: "Laptop", performanceMode: "battery_saver" },
+    });
+    expect(profiles).toHaveLength(2);
+  });
+
+  it("notifies listeners only when another profile becomes active", async () => {
+    const { activateProfile, createProfile, onActiveProfileChanged } =
+      await import("../profileService.js");
+    createProfile({ name: "Laptop" });
+    const listener = vi.fn();
+    const unsubscribe = onActiveProfileChanged(listener);
+
+    expect(activateProfile(1)).toMatchObject({ ok: true });
+    expect(activateProfile(2)).toMatchObject({
+      ok: true,
+      profile: { id: 2, isActive: true },
+    });
+    expect(activateProfile(99)).toEqual({
+      ok: false,
+      error: "Profile not found",
+    });
+    unsubscribe();
+    activateProfile(1);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 2, name: "Laptop" }),
+    );
+  });
+
+  it("announces edits to the active profile", async () => {
+    const { onActiveProfileChanged, updateProfile } = await import(
+      "../profileService.js"
+    );
+    const listener = vi.fn();
+    onActiveProfileChanged(listener);
+
+    expect(updateProfile(1, { performanceMode: "responsive" })).toMatchObject({
+      ok: true,
+      profile: { performanceMode: "responsive" },
+    });
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 1, performanceMode: "responsive" }),
+    );
+  });
+
+  it("refuses to delete the active profile", async () => {
+    const { createProfile, deleteProfile } = await import(
+      "../profileService.js"
+    );
+
+    expect(deleteProfile(1)).toEqual({
+      ok: false,
+      error: "Switch to another profile before deleting",
+    });
+    createProfile({ name: "Laptop" });
+    expect(deleteProfile(2)).toEqual({ ok: true });
+    expect(profiles.map((p) => p.id)).toEqual([1]);
+  });
+
+  describe("resolveProfileForCamera", () => {
+    const builtIn = { deviceId: "a1", label: "FaceTime HD Camera" };
+    const external = { deviceId: "b2", label: "Logitech BRIO" };
+
+    it("binds the first camera to an unbound active profile", async () => {
+      const { resolveProfileForCamera, toCameraKey } = await import(
+        "../profileService.js"
+      );
+
+      expect(resolveProfileForCamera(builtIn)).toMatchObject({
+        ok: true,
+        outcome: "bound",
+        profile: { id: 1, cameraKey: toCameraKey(builtIn) },
+        needsCalibration: false,
+      });
+      expect(resolveProfileForCamera(builtIn)).toMatchObject({
+        outcome: "unchanged",
+      });
+    });
+
+    it("creates an uncalibrated profile for an unknown camera and switches back", async () => {
+      const { onActiveProfileChanged, resolveProfileForCamera } = await import(
+        "../profileService.js"
+      );
+      const listener = vi.fn();
+      onActiveProfileChanged(listener);
+      resolveProfileForCamera(builtIn);
+
+      expect(resolveProfileForCamera(external)).toMatchObject({
+        ok: true,
+        outcome: "created",
+        profile: { id: 2, name: "Logitech BRIO", isActive: true },
+        needsCalibration: true,
+      });
+      expect(resolveProfileForCamera(builtIn)).toMatchObject({
+        ok: true,
+        outcome: "switched",
+        profile: { id: 1 },
+        needsCalibration: false,
+      });
+      expect(listener.mock.calls.map(([profile]) => profile.id)).toEqual([
+        2, 1,
+      ]);
+    });
+
+    it("keys unlabeled cameras by device id and avoids name clashes", async () => {
+      const { createProfile, resolveProfileForCamera, toCameraKey } =
+        await import("../profileService.js");
+      resolveProfileForCamera(builtIn);
+      createProfile({ name: "Camera" });
+
+      expect(toCameraKey({ deviceId: "c3", label: "" })).not.toBe(
+        toCameraKey({ deviceId: "d4", label: "" }),
+      );
+      expect(
+        resolveProfileForCamera({ deviceId: "c3", label: "" }),
+      ).toMatchObject({ outcome: "created", profile: { name: "Camera 2" } });
+      expect(resolveProfileForCamera({ deviceId: " ", label: "" })).toEqual({
+        ok: false,
+        error: "Camera has no label or device id",
+      });
+    });
+  });
+});
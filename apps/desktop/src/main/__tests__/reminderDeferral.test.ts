@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { EngineTick } from "../../shared/types/engine-output";
+import type { ScoreZone } from "../../shared/types/score";
+
+type ReminderDeferralModule = typeof import("../reminderDeferral.js");
+
+const MINUTE = 60_000;
+
+let deferralModule: ReminderDeferralModule;
+
+const createTick = (
+  t: number,
+  zone: ScoreZone,
+  presence: EngineTick["presence"] = "PRESENT",
+): EngineTick => ({
+  t,
+  presence,
+  reliability: "OK",
+  zone,
+  state: zone === "GREEN" ? "GOOD" : "AT_RISK",
+  score: zone === "GREEN" ? 90 : 30,
+  metrics: { pitchDeg: 0, ehdNorm: 0, dpr: 1, conf: 1 },
+});
+
+/** Tick every second from `from` for `minutes` */
+const tickFor = (
+  deferral: ReturnType<ReminderDeferralModule["createReminderDeferral"]>,
+  from: number,
+  minutes: number,
+  zone: ScoreZone,
+  presence?: EngineTick["presence"],
+): number => {
+  const end = from + minutes * MINUTE;
+  let clock = from;
+  while (clock < end) {
+    clock += 1_000;
+    deferral.handleTick(createTick(clock, zone, presence));
+  }
+  return clock;
+};
+
+describe("reminderDeferral", () => {
+  beforeEach(async () => {
+    vi.resetModules();
+    deferralModule = await import("../reminderDeferral.js");
+  });
+
+  it("sums up red time and held reminders when a call ends", () => {
+    const deferral = deferralModule.createReminderDeferral();
+
+    expect(deferral.setReasons(["fullscreen"])).toBeNull();
+    expect(deferral.setReasons(["fullscreen", "camera"])).toBeNull();
+    expect(deferral.isActive()).toBe(true);
+
+    let clock = tickFor(deferral, 0, 5, "GREEN");
+    clock = tickFor(deferral, clock, 12, "RED");
+    clock = tickFor(deferral, clock, 3, "RED", "ABSENT");
+    deferral.defer();
+    deferral.defer();
+
+    expect(deferral.setReasons([])).toEqual({
+      reason: "camera",
+      redMinutes: 12,
+      deferredCount: 2,
+    });
+    expect(deferral.isActive()).toBe(false);
+  });
+
+  it("does not count gaps between ticks in full", () => {
+    const deferral = deferralModule.createReminderDeferral();
+    deferral.setReasons(["presenting"]);
+
+    deferral.handleTick(createTick(0, "RED"));
+    deferral.handleTick(createTick(30 * MINUTE, "RED"));
+    tickFor(deferral, 30 * MINUTE, 2, "RED");
+    deferral.defer();
+
+    expect(deferral.setReasons([])).toMatchObject({
+      reason: "presenting",
+      redMinutes: 2,
+    });
+  });
+
+  it("has nothing to report when no reminder was held", () => {
+    const deferral = deferralModule.createReminderDeferral();
+
+    deferral.defer();
+    expect(deferral.setReasons([])).toBeNull();
+
+    deferral.setReasons(["camera"]);
+    tickFor(deferral, 0, 3, "RED");
+    expect(deferral.setReasons([])).toBeNull();
+  });
+});
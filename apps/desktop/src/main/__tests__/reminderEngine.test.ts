@@ -0,0 +1,237 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { EngineTick } from "../../shared/types/engine-output";
+import { DEFAULT_NOTIFICATION_SCHEDULES } from "../../shared/types/notifications";
+import type { ScoreZone } from "../../shared/types/score";
+import type { Reminder } from "../reminderEngine";
+
+type ReminderEngineModule = typeof import("../reminderEngine.js");
+
+vi.mock("../../shared/logger", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  }),
+  toErrorPayload: (error: unknown) => ({ error }),
+}));
+
+const MINUTE = 60_000;
+
+let reminderModule: ReminderEngineModule;
+
+/**
+ * Fake clock shared by the engine's `now` and the tick timestamps, advanced
+ * one tick per second like the real engine
+ */
+const createHarness = (
+  overrides: Partial<
+    Parameters<ReminderEngineModule["createReminderEngine"]>[0]
+  > = {},
+) => {
+  let clock = 0;
+  const deliver = vi.fn((_reminder: Reminder) => true);
+  const engine = reminderModule.createReminderEngine({
+    deliver,
+    now: () => clock,
+    ...overrides,
+  });
+
+  const tick = (zone: ScoreZone): void => {
+    const payload: EngineTick = {
+      t: clock,
+      presence: "PRESENT",
+      reliability: "OK",
+      zone,
+      state: zone === "GREEN" ? "GOOD" : "AT_RISK",
+      score: zone === "GREEN" ? 90 : 50,
+      metrics: { pitchDeg: 0, ehdNorm: 0, dpr: 1, conf: 1 },
+    };
+    engine.handleTick(payload);
+  };
+
+  /** Tick every second in `zone` for `minutes` */
+  const stay = (zone: ScoreZone, minutes: number): void => {
+    const end = clock + minutes * MINUTE;
+    tick(zone);
+    while (clock < end) {
+      clock += 1_000;
+      tick(zone);
+    }
+  };
+
+  const delivered = () =>
+    deliver.mock.calls.map(([{ type, minutes }]) => [type, minutes]);
+
+  return { engine, deliver, stay, delivered };
+};
+
+describe("reminderEngine", () => {
+  beforeEach(async () => {
+    vi.resetModules();
+    reminderModule = await import("../reminderEngine.js");
+  });
+
+  it("repeats red-zone reminders on the default schedule", () => {
+    const { stay, delivered } = createHarness();
+
+    stay("RED", 12);
+
+    expect(delivered()).toEqual([
+      ["red", 1],
+      ["red", 3],
+      ["red", 5],
+      ["red", 7],
+      ["red", 9],
+      ["red", 11],
+    ]);
+  });
+
+  it("distinguishes slipping from green and dwelling in yellow", () => {
+    const { stay, delivered } = createHarness();
+
+    stay("GREEN", 1);
+    stay("YELLOW", 5);
+    stay("RED", 0.5);
+    stay("YELLOW", 5);
+
+    expect(delivered()).toEqual([
+      ["yellowFromGreen", 3],
+      ["yellowFromGreen", 5],
+      ["yellowDwell", 5],
+      ["yellowDwell", 5],
+    ]);
+  });
+
+  it("suggests a break after 45 minutes in the green zone", () => {
+    const { stay, delivered } = createHarness();
+
+    stay("GREEN", 44);
+    expect(delivered()).toEqual([]);
+    stay("GREEN", 20);
+
+    expect(delivered()).toEqual([["greenBreak", 45]]);
+  });
+
+  it("holds reminders while snoozed and skips the steps it missed", () => {
+    const { engine, stay, delivered } = createHarness();
+
+    stay("RED", 1);
+    engine.snooze();
+    stay("RED", 16);
+    expect(engine.getSnoozedUntil()).toBeNull();
+
+    // 3-11 came due during the 15 minute snooze; only the latest is shown
+    expect(delivered()).toEqual([
+      ["red", 1],
+      ["red", 11],
+    ]);
+  });
+
+  it("stops repeating an acknowledged zone until it is entered again", () => {
+    const { engine, stay, delivered } = createHarness();
+
+    stay("GREEN", 1);
+    stay("YELLOW", 3);
+    engine.acknowledge("yellowFromGreen");
+    stay("YELLOW", 8);
+    stay("RED", 1);
+
+    expect(delivered()).toEqual([
+      ["yellowFromGreen", 3],
+      ["red", 1],
+    ]);
+  });
+
+  it("retries a step that could not be delivered", () => {
+    const deliver = vi.fn().mockReturnValueOnce(false).mockReturnValue(true);
+    const { stay } = createHarness({ deliver });
+
+    stay("RED", 2);
+
+    expect(deliver).toHaveBeenCalledTimes(2);
+    expect(deliver.mock.calls[1]?.[0]).toMatchObject({
+      type: "red",
+      minutes: 1,
+    });
+  });
+
+  it("holds reminders during quiet time like a snooze", () => {
+    let quiet = true;
+    const { stay, delivered } = createHarness({ isQuiet: () => quiet });
+
+    stay("RED", 4);
+    quiet = false;
+    stay("RED", 0.5);
+
+    // 1 and 3 came due while quiet; only the latest is shown
+    expect(delivered()).toEqual([["red", 3]]);
+  });
+
+  it("follows updated schedules without repeating past steps", () => {
+    const { engine, stay, delivered } = createHarness();
+
+    stay("RED", 1.5);
+    engine.setSchedules(
+      reminderModule.toReminderSchedules({
+        ...DEFAULT_NOTIFICATION_SCHEDULES,
+        red: {
+          enabled: true,
+          firstDelayMinutes: 1,
+          repeatIntervalMinutes: 10,
+          maxRepeats: 1,
+        },
+        greenBreak: {
+          ...DEFAULT_NOTIFICATION_SCHEDULES.greenBreak,
+          enabled: false,
+        },
+      }),
+    );
+    stay("RED", 10);
+    stay("GREEN", 60);
+
+    expect(delivered()).toEqual([
+      ["red", 1],
+      ["red", 11],
+    ]);
+  });
+
+  it("measures schedule changes in tick time, not wall-clock time", () => {
+    // Ticks carry monotonic timestamps while `now` is the wall clock
+    const wallClockStart = Date.parse("2025-11-03T09:00:00.000Z");
+    let wallClock = wallClockStart;
+    const { engine, stay, delivered } = createHarness({
+      now: () => wallClock,
+    });
+
+    stay("RED", 1.5);
+    wallClock = wallClockStart + 1.5 * MINUTE;
+    engine.setSchedules(
+      reminderModule.toReminderSchedules({
+        ...DEFAULT_NOTIFICATION_SCHEDULES,
+        red: {
+          enabled: true,
+          firstDelayMinutes: 1,
+          repeatIntervalMinutes: 10,
+          maxRepeats: 1,
+        },
+      }),
+    );
+    stay("RED", 10);
+
+    expect(delivered()).toEqual([
+      ["red", 1],
+      ["red", 11],
+    ]);
+  });
+
+  it("starts over after a reset", () => {
+    const { engine, stay, delivered } = createHarness();
+
+    stay("RED", 0.9);
+    engine.reset();
+    stay("RED", 0.9);
+
+    expect(delivered()).toEqual([]);
+  });
+});
@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type Listener = (...args: unknown[]) => void;
+
+const created: FakeNotification[] = [];
+let locale = "en-US";
+
+class FakeNotification {
+  static isSupported = vi.fn(() => true);
+
+  listeners = new Map<string, Listener>();
+
+  show = vi.fn();
+
+  constructor(
+    public options: { title: string; body: string; actions: unknown[] },
+  ) {
+    created.push(this);
+  }
+
+  on(event: string, listener: Listener) {
+    this.listeners.set(event, listener);
+    return this;
+  }
+
+  emit(event: string, ...args: unknown[]) {
+    this.listeners.get(event)?.(...args);
+  }
+}
+
+vi.mock("electron", () => ({
+  Notification: FakeNotification,
+  app: { getLocale: () => locale },
+}));
+
+vi.mock("../../shared/logger", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  }),
+  toErrorPayload: (error: unknown) => ({ error }),
+}));
+
+const createHandlers = () => ({
+  onSnooze: vi.fn(),
+  onAcknowledge: vi.fn(),
+  onClick: vi.fn(),
+});
+
+describe("reminderNotifications", () => {
+  beforeEach(() => {
+    created.length = 0;
+    locale = "en-US";
+    FakeNotification.isSupported.mockReturnValue(true);
+    vi.resetModules();
+  });
+
+  it("shows localized text with snooze and fix actions", async () => {
+    const { showReminderNotification } = await import(
+      "../reminderNotifications.js"
+    );
+    const handlers = createHandlers();
+
+    expect(
+      showReminderNotification(
+        { type: "red", minutes: 3, firedAt: 0 },
+        handlers,
+      ),
+    ).toBe(true);
+
+    const [notification] = created;
+    expect(notification?.options).toMatchObject({
+      title: "Posture Alert",
+      body: expect.stringContaining("3 minutes"),
+      actions: [
+        { type: "button", text: "Snooze 15 min" },
+        { type: "button", text: "I'm fixing it" },
+      ],
+    });
+    expect(notification?.show).toHaveBeenCalled();
+
+    notification?.emit("action", {}, 0);
+    notification?.emit("action", {}, 1);
+    notification?.emit("click");
+    expect(handlers.onSnooze).toHaveBeenCalledTimes(1);
+    expect(handlers.onAcknowledge).toHaveBeenCalledWith("red");
+    expect(handlers.onClick).toHaveBeenCalledTimes(1);
+  });
+
+  it("follows a Korean system locale and offers only snooze for breaks", async () => {
+    locale = "ko";
+    const { showReminderNotification } = await import(
+      "../reminderNotifications.js"
+    );
+
+    showReminderNotification(
+      { type: "greenBreak", minutes: 45, firedAt: 0 },
+      createHandlers(),
+    );
+
+    expect(created[0]?.options).toMatchObject({
+      title: "잠깐 쉬어가요",
+      body: expect.stringContaining("45분"),
+      actions: [{ type: "button", text: "15분 미루기" }],
+    });
+  });
+
+  it("sums up a call by red time, or by held reminders without any", async () => {
+    const { showDeferredSummaryNotification } = await import(
+      "../reminderNotifications.js"
+    );
+    const onClick = vi.fn();
+
+    showDeferredSummaryNotification(
+      { reason: "camera", redMinutes: 12, deferredCount: 4 },
+      { onClick },
+    );
+    showDeferredSummaryNotification(
+      { reason: "presenting", redMinutes: 0, deferredCount: 1 },
+      { onClick },
+    );
+
+    expect(created.map(({ options }) => options)).toEqual([
+      {
+        title: "Posture During Your Call",
+        body: expect.stringContaining(
+          "You spent 12 minutes in the red zone during your call",
+        ),
+        silent: false,
+        actions: [],
+      },
+      {
+        title: "Posture While Presenting",
+        body: expect.stringContaining("1 posture reminder was held back"),
+        silent: false,
+        actions: [],
+      },
+    ]);
+    created[0]?.emit("click");
+    expect(onClick).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports failure when notifications are unsupported", async () => {
+    FakeNotification.isSupported.mockReturnValue(false);
+    const { showReminderNotification } = await import(
+      "../reminderNotifications.js"
+    );
+
+    expect(
+      showReminderNotification(
+        { type: "red", minutes: 1, firedAt: 0 },
+        createHandlers(),
+      ),
+    ).toBe(false);
+    expect(created).toHaveLength(0);
+  });
+});
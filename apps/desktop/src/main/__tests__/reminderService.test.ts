@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { EngineTick } from "../../shared/types/engine-output";
+import type { ScoreZone } from "../../shared/types/score";
+
+type ReminderServiceModule = typeof import("../reminderService.js");
+
+const notifications = vi.hoisted(() => ({
+  showReminderNotification: vi.fn(() => true),
+  showDeferredSummaryNotification: vi.fn(() => true),
+}));
+
+vi.mock("../reminderNotifications", () => notifications);
+
+const stored = new Map<string, string>();
+
+vi.mock("../database/settingsRepository", () => ({
+  getSetting: (key: string) => stored.get(key) ?? null,
+  setSetting: (key: string, value: string) => {
+    stored.set(key, value);
+  },
+}));
+
+vi.mock("../../shared/logger", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  }),
+  toErrorPayload: (error: unknown) => ({ error }),
+}));
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+
+let serviceModule: ReminderServiceModule;
+
+const createTick = (t: number, zone: ScoreZone): EngineTick => ({
+  t,
+  presence: "PRESENT",
+  reliability: "OK",
+  zone,
+  state: zone === "GREEN" ? "GOOD" : "AT_RISK",
+  score: zone === "GREEN" ? 90 : 30,
+  metrics: { pitchDeg: 0, ehdNorm: 0, dpr: 1, conf: 1 },
+});
+
+const createService = () => serviceModule.createReminderService({ probes: {} });
+
+describe("reminderService", () => {
+  beforeEach(async () => {
+    stored.clear();
+    vi.resetModules();
+    notifications.showReminderNotification.mockClear();
+    notifications.showDeferredSummaryNotification.mockClear();
+    serviceModule = await import("../reminderService.js");
+  });
+
+  it("shows due reminders and routes their clicks to listeners", () => {
+    const service = createService();
+    const onClick = vi.fn();
+    service.onNotificationClick(onClick);
+
+    service.handleTick(createTick(0, "RED"));
+    service.handleTick(createTick(MINUTE, "RED"));
+
+    expect(notifications.showReminderNotification).toHaveBeenCalledTimes(1);
+    const [[, handlers]] = notifications.showReminderNotification.mock
+      .calls as unknown as [[unknown, { onClick: () => void }]];
+    handlers.onClick();
+    expect(onClick).toHaveBeenCalledTimes(1);
+  });
+
+  it("holds reminders while presenting and sums them up afterwards", () => {
+    const service = createService();
+    const onPresentationChange = vi.fn();
+    service.onPresentationChange(onPresentationChange);
+
+    service.setPresenting(true);
+    expect(service.isHeld(0)).toBe(true);
+    expect(service.getPresentationReasons()).toEqual(["presenting"]);
+
+    service.handleTick(createTick(0, "RED"));
+    service.handleTick(createTick(MINUTE, "RED"));
+    expect(notifications.showReminderNotification).not.toHaveBeenCalled();
+
+    service.setPresenting(false);
+    expect(service.isHeld(0)).toBe(false);
+    expect(onPresentationChange).toHaveBeenCalledTimes(2);
+    expect(notifications.showDeferredSummaryNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: "presenting", deferredCount: 1 }),
+      expect.objectContaining({ onClick: expect.any(Function) }),
+    );
+  });
+
+  it("drops reminders during do-not-disturb and reports the change", () => {
+    const service = createService();
+    const onPreferencesChange = vi.fn();
+    service.onPreferencesChange(onPreferencesChange);
+    const until = Date.now() + HOUR;
+
+    const preferences = service.setDoNotDisturb(until);
+    expect(preferences.doNotDisturbUntil).toBe(until);
+    expect(onPreferencesChange).toHaveBeenCalledWith(preferences);
+    expect(service.isHeld(Date.now())).toBe(true);
+
+    service.handleTick(createTick(0, "RED"));
+    service.handleTick(createTick(MINUTE, "RED"));
+    expect(notifications.showReminderNotification).not.toHaveBeenCalled();
+
+    expect(service.setDoNotDisturb(null).doNotDisturbUntil).toBeNull();
+    expect(service.isHeld(Date.now())).toBe(false);
+  });
+
+  it("follows the schedules of applied preferences", async () => {
+    const { createDefaultNotificationPreferences } = await import(
+      "../notificationPreferencesService.js"
+    );
+    const service = createService();
+    const preferences = createDefaultNotificationPreferences();
+    service.applyPreferences({
+      ...preferences,
+      schedules: {
+        ...preferences.schedules,
+        red: { ...preferences.schedules.red, enabled: false },
+      },
+    });
+
+    service.handleTick(createTick(0, "RED"));
+    service.handleTick(createTick(MINUTE, "RED"));
+
+    expect(notifications.showReminderNotification).not.toHaveBeenCalled();
+    expect(service.getPreferences().schedules.red.enabled).toBe(false);
+  });
+});
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const stored = new Map<string, string>();
+
+vi.mock("../../shared/logger", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+vi.mock("../database/settingsRepository", () => ({
+  getSetting: vi.fn((key: string) => stored.get(key) ?? null),
+  setSetting: vi.fn((key: string, value: string) => {
+    stored.set(key, value);
+  }),
+}));
+
+describe("settingsService", () => {
+  beforeEach(() => {
+    stored.clear();
+    vi.resetModules();
+  });
+
+  it("returns typed values with defaults for missing rows", async () => {
+    stored.set("sensitivity", "70");
+    const { getAllSettingValues } = await import("../settingsService.js");
+
+    expect(getAllSettingValues()).toEqual({
+      launchAtStartup: false,
+      sensitivity: 70,
+      onboardingCompleted: false,
+      goalMinAvgScore: 70,
+      goalMinMonitoredMinutes: 0,
+      goalMaxRedMinutes: 1440,
+      streakRestOnWeekends: false,
+      dayStartHour: 0,
+      streamTickIntervalMs: 1000,
+      apiAllowedOrigins: "",
+      autoSwitchProfileByCamera: true,
+      breakCoachEnabled: false,
+      breakWorkMinutes: 50,
+      breakMinutes: 10,
+      breakLongMinutes: 0,
+      breakLongEvery: 4,
+      breakAbsenceMinutes: 5,
+      deferRemindersWhilePresenting: true,
+      trayIconStyle: "ring",
+      trayIconMonochrome: false,
+    });
+  });
+
+  it("rejects unknown keys and invalid values without writing", async () => {
+    const { updateSettingValue } = await import("../settingsService.js");
+
+    expect(updateSettingValue("theme", "dark")).toEqual({
+      success: false,
+      error: "Unknown setting: theme",
+    });
+    expect(updateSettingValue("sensitivity", "80")).toEqual({
+      success: false,
+      error: "sensitivity must be a number",
+    });
+    expect(stored.size).toBe(0);
+  });
+
+  it("persists valid values and notifies listeners only on change", async () => {
+    const { onSettingChanged, updateSettingValue } = await import(
+      "../settingsService.js"
+    );
+    const listener = vi.fn();
+    const unsubscribe = onSettingChanged(listener);
+
+    expect(updateSettingValue("launchAtStartup", true)).toEqual({
+      success: true,
+      value: true,
+    });
+    updateSettingValue("launchAtStartup", true);
+    unsubscribe();
+    updateSettingValue("launchAtStartup", false);
+
+    expect(stored.get("launchAtStartup")).toBe("false");
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({
+      key: "launchAtStartup",
+      value: true,
+    });
+  });
+});
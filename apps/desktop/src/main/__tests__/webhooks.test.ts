@@ -0,0 +1,433 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import type { WebhookPayload } from "../../shared/types/webhooks";
+import type {
+  NewWebhookDeliveryRow,
+  WebhookDeliveryRow,
+} from "../database/schema";
+import type { WebhookDeliveryUpdate } from "../database/webhookDeliveryRepository";
+
+const stored = new Map<string, string>();
+const deliveryRows = new Map<number, WebhookDeliveryRow>();
+
+vi.mock("../database/settingsRepository", () => ({
+  getSetting: (key: string) => stored.get(key) ?? null,
+  setSetting: (key: string, value: string) => {
+    stored.set(key, value);
+  },
+}));
+
+vi.mock("../../shared/logger", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  }),
+  toErrorPayload: (error: unknown) => ({ error }),
+}));
+
+vi.mock("../database/client", () => ({
+  getDatabase: vi.fn(),
+  initializeDatabase: vi.fn(),
+}));
+
+vi.mock("../database/webhookDeliveryRepository", async (importOriginal) => ({
+  ...(await importOriginal<
+    typeof import("../database/webhookDeliveryRepository")
+  >()),
+  insertWebhookDelivery: (delivery: NewWebhookDeliveryRow) => {
+    const row = {
+      responseStatus: null,
+      error: null,
+      nextAttemptAt: null,
+      attempts: 0,
+      ...delivery,
+      id: deliveryRows.size + 1,
+    } as WebhookDeliveryRow;
+    deliveryRows.set(row.id, row);
+    return row;
+  },
+  updateWebhookDelivery: (id: number, update: WebhookDeliveryUpdate) => {
+    const row = deliveryRows.get(id);
+    if (!row) return null;
+    const next = { ...row, ...update } as WebhookDeliveryRow;
+    deliveryRows.set(id, next);
+    return next;
+  },
+  listPendingWebhookDeliveries: () =>
+    [...deliveryRows.values()].filter((row) => row.status === "pending"),
+  pruneWebhookDeliveries: () => 0,
+}));
+
+type ReceivedRequest = {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+};
+
+/**
+ * Test suite for outbound webhooks: the registry, daily event detection and
+ * the dispatcher running against a local HTTP stub.
+ */
+describe("Webhooks", () => {
+  beforeEach(() => {
+    stored.clear();
+    deliveryRows.clear();
+  });
+
+  describe("Registry", () => {
+    it("should create a webhook and return its secret once", async () => {
+      const { createWebhook, listWebhooks } = await import(
+        "../webhookService.js"
+      );
+
+      const result = createWebhook(
+        {
+          name: " Home Assistant ",
+          url: "http://127.0.0.1:8123/api/webhook/posely",
+          events: ["goal.met", "bogus"],
+        },
+        1000,
+      );
+
+      expect(result).toMatchObject({
+        ok: true,
+        webhook: { name: "Home Assistant", events: ["goal.met"] },
+      });
+      expect(result.ok && result.secret).toMatch(/^whsec_/);
+      expect(listWebhooks()[0]).not.toHaveProperty("secret");
+    });
+
+    it("should reject bad names, URLs and event lists", async () => {
+      const { createWebhook } = await import("../webhookService.js");
+
+      expect(
+        createWebhook({ name: "", url: "http://a", events: ["goal.met"] }),
+      ).toMatchObject({ ok: false });
+      expect(
+        createWebhook({
+          name: "x",
+          url: "file:///etc/passwd",
+          events: ["goal.met"],
+        }),
+      ).toEqual({ ok: false, error: "Webhook URL must be an http(s) URL" });
+      expect(
+        createWebhook({ name: "x", url: "https://example.com", events: [] }),
+      ).toEqual({ ok: false, error: "Select at least one event" });
+    });
+
+    it("should only return enabled subscribers of an event", async () => {
+      const { createWebhook, getWebhookSubscribers, setWebhookEnabled } =
+        await import("../webhookService.js");
+      const first = createWebhook({
+        name: "a",
+        url: "http://127.0.0.1/a",
+        events: ["goal.met"],
+      });
+      createWebhook({
+        name: "b",
+        url: "http://127.0.0.1/b",
+        events: ["streak.broken"],
+      });
+      if (!first.ok) throw new Error("webhook not created");
+
+      expect(
+        getWebhookSubscribers("goal.met").map((hook) => hook.name),
+      ).toEqual(["a"]);
+      setWebhookEnabled(first.webhook.id, false);
+      expect(getWebhookSubscribers("goal.met")).toEqual([]);
+    });
+  });
+
+  describe("Daily events", () => {
+    const day = (date: string, meetsGoal: number) => ({
+      date,
+      meetsGoal,
+      avgScore: 80,
+    });
+    const empty = { goalMetDate: null, streakCheckedDate: null };
+
+    it("should send goal.met once per day", async () => {
+      const { evaluateDailyWebhookEvents } = await import(
+        "../webhookEvents.js"
+      );
+      const logs = [day("2025-11-12", 1), day("2025-11-13", 1)];
+
+      const first = evaluateDailyWebhookEvents(
+        logs,
+        "2025-11-13",
+        { restOnWeekends: false },
+        empty,
+      );
+      const second = evaluateDailyWebhookEvents(
+        logs,
+        "2025-11-13",
+        { restOnWeekends: false },
+        first.state,
+      );
+
+      expect(first.events).toEqual([
+        {
+          event: "goal.met",
+          data: { date: "2025-11-13", avgScore: 80, streak: 2 },
+        },
+      ]);
+      expect(second.events).toEqual([]);
+    });
+
+    it("should send streak.broken when yesterday ended a streak", async () => {
+      const { evaluateDailyWebhookEvents } = await import(
+        "../webhookEvents.js"
+      );
+      const logs = [
+        day("2025-11-10", 1),
+        day("2025-11-11", 1),
+        day("2025-11-12", 0),
+      ];
+
+      expect(
+        evaluateDailyWebhookEvents(
+          logs,
+          "2025-11-13",
+          { restOnWeekends: false },
+          empty,
+        ).events,
+      ).toEqual([
+        {
+          event: "streak.broken",
+          data: { date: "2025-11-12", previousStreak: 2 },
+        },
+      ]);
+    });
+
+    it("should not break the streak on a rest day", async () => {
+      const { evaluateDailyWebhookEvents } = await import(
+        "../webhookEvents.js"
+      );
+      // 2025-11-15 is a Saturday
+      const logs = [day("2025-11-14", 1)];
+
+      expect(
+        evaluateDailyWebhookEvents(
+          logs,
+          "2025-11-16",
+          { restOnWeekends: true },
+          empty,
+        ).events,
+      ).toEqual([]);
+    });
+  });
+
+  describe("Dispatcher", () => {
+    let server: http.Server;
+    let url: string;
+    let received: ReceivedRequest[];
+    let responses: number[];
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        const chunks: Buffer[] = [];
+        req.on("data", (chunk: Buffer) => chunks.push(chunk));
+        req.on("end", () => {
+          received.push({
+            headers: req.headers,
+            body: Buffer.concat(chunks).toString("utf-8"),
+          });
+          res.statusCode = responses.shift() ?? 204;
+          res.end();
+        });
+      });
+      await new Promise<void>((resolve) => {
+        server.listen(0, "127.0.0.1", resolve);
+      });
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+      });
+    });
+
+    beforeEach(() => {
+      received = [];
+      responses = [];
+    });
+
+    const subscribe = async (target = url) => {
+      const { createWebhook } = await import("../webhookService.js");
+      const result = createWebhook({
+        name: "stub",
+        url: target,
+        events: ["posture.bad_posture"],
+      });
+      if (!result.ok) throw new Error("webhook not created");
+      return result;
+    };
+
+    let dispatcher: import("../webhookDispatcher.js").WebhookDispatcher | null =
+      null;
+
+    afterEach(() => {
+      dispatcher?.stop();
+      dispatcher = null;
+    });
+
+    const createDispatcher = async (retryDelaysMs: number[] = [5, 5]) => {
+      const { createWebhookDispatcher } = await import(
+        "../webhookDispatcher.js"
+      );
+      dispatcher = createWebhookDispatcher({
+        retryDelaysMs,
+        requestTimeoutMs: 2000,
+      });
+      return dispatcher;
+    };
+
+    it("should POST a signed JSON payload to subscribers", async () => {
+      const { signWebhookPayload } = await import("../webhookDispatcher.js");
+      const { secret } = await subscribe();
+      const queued = (await createDispatcher()).dispatch(
+        "posture.bad_posture",
+        { score: 31 },
+      );
+
+      expect(queued).toBe(1);
+      await vi.waitFor(() => {
+        expect(deliveryRows.get(1)?.status).toBe("delivered");
+      });
+      const [request] = received;
+      const payload = JSON.parse(request?.body ?? "") as WebhookPayload;
+      const timestamp = Number(request?.headers["x-posely-timestamp"]);
+
+      expect(payload).toMatchObject({
+        event: "posture.bad_posture",
+        data: { score: 31 },
+      });
+      expect(request?.headers["x-posely-event"]).toBe("posture.bad_posture");
+      expect(request?.headers["x-posely-signature"]).toBe(
+        `sha256=${signWebhookPayload(secret, timestamp, request?.body ?? "")}`,
+      );
+    });
+
+    it("should retry server errors with backoff", async () => {
+      await subscribe();
+      responses = [503, 500];
+      (await createDispatcher()).dispatch("posture.bad_posture", {});
+
+      await vi.waitFor(() => {
+        expect(deliveryRows.get(1)).toMatchObject({
+          status: "delivered",
+          attempts: 3,
+          responseStatus: 204,
+        });
+      });
+      expect(
+        new Set(received.map((request) => request.headers["x-posely-delivery"]))
+          .size,
+      ).toBe(1);
+    });
+
+    it("should give up after the last retry", async () => {
+      await subscribe();
+      responses = [500, 500, 500];
+      (await createDispatcher()).dispatch("posture.bad_posture", {});
+
+      await vi.waitFor(() => {
+        expect(deliveryRows.get(1)).toMatchObject({
+          status: "failed",
+          attempts: 3,
+          error: "HTTP 500",
+          nextAttemptAt: null,
+        });
+      });
+    });
+
+    it("should not retry client errors", async () => {
+      await subscribe();
+      responses = [404];
+      (await createDispatcher()).dispatch("posture.bad_posture", {});
+
+      await vi.waitFor(() => {
+        expect(deliveryRows.get(1)).toMatchObject({
+          status: "failed",
+          attempts: 1,
+          responseStatus: 404,
+        });
+      });
+      expect(received).toHaveLength(1);
+    });
+
+    it("should report the outcome of a test event without retrying", async () => {
+      const { webhook } = await subscribe();
+      responses = [500];
+      const result = await (await createDispatcher()).sendTestEvent(webhook.id);
+
+      expect(result).toMatchObject({
+        ok: true,
+        delivery: { event: "webhook.test", status: "failed", attempts: 1 },
+      });
+      expect(received).toHaveLength(1);
+      expect(await (await createDispatcher()).sendTestEvent("missing")).toEqual(
+        { ok: false, error: "Webhook not found" },
+      );
+    });
+
+    it("should resume deliveries left pending by a previous run", async () => {
+      const { webhook } = await subscribe();
+      deliveryRows.set(1, {
+        id: 1,
+        webhookId: webhook.id,
+        event: "posture.bad_posture",
+        payload: '{"id":"x"}',
+        status: "pending",
+        attempts: 1,
+        responseStatus: 500,
+        error: "HTTP 500",
+        createdAt: 0,
+        updatedAt: 0,
+        nextAttemptAt: 0,
+      });
+
+      (await createDispatcher()).resumePending();
+
+      await vi.waitFor(() => {
+        expect(deliveryRows.get(1)).toMatchObject({
+          status: "delivered",
+          attempts: 2,
+        });
+      });
+      expect(received[0]?.body).toBe('{"id":"x"}');
+    });
+
+    it("should drop retries for deleted webhooks", async () => {
+      const { deleteWebhook } = await import("../webhookService.js");
+      const { webhook } = await subscribe();
+      responses = [500];
+      (await createDispatcher([50])).dispatch("posture.bad_posture", {});
+      await vi.waitFor(() => {
+        expect(deliveryRows.get(1)?.attempts).toBe(1);
+      });
+
+      deleteWebhook(webhook.id);
+
+      await vi.waitFor(() => {
+        expect(deliveryRows.get(1)).toMatchObject({
+          status: "failed",
+          error: "Webhook was deleted",
+        });
+      });
+      expect(received).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WORKER_MESSAGES, type WorkerMessage } from "../../shared/ipcChannels";
+
+type SupervisorModule = typeof import("../workerSupervisor.js");
+
+let supervisorModule: SupervisorModule;
+
+class FakeWorker {
+  posted: WorkerMessage[] = [];
+
+  terminated = false;
+
+  answersPings = true;
+
+  private messageListeners: Array<(message: WorkerMessage) => void> = [];
+
+  private exitListeners: Array<(code: number) => void> = [];
+
+  postMessage(message: WorkerMessage) {
+    this.posted.push(message);
+    if (message.type === WORKER_MESSAGES.ping && this.answersPings) {
+      this.emitMessage({
+        type: WORKER_MESSAGES.pong,
+        payload: message.payload,
+      });
+    }
+  }
+
+  terminate() {
+    this.terminated = true;
+    return Promise.resolve(1);
+  }
+
+  on(event: "message" | "exit", listener: (arg: never) => void) {
+    if (event === "message") {
+      this.messageListeners.push(listener as (message: WorkerMessage) => void);
+    } else {
+      this.exitListeners.push(listener as (code: number) => void);
+    }
+    return this;
+  }
+
+  emitMessage(message: WorkerMessage) {
+    this.messageListeners.forEach((listener) => listener(message));
+  }
+
+  emitExit(code: number) {
+    this.exitListeners.forEach((listener) => listener(code));
+  }
+}
+
+const createHarness = (
+  overrides: Partial<
+    Parameters<SupervisorModule["createWorkerSupervisor"]>[0]
+  > = {},
+) => {
+  const workers: FakeWorker[] = [];
+  const onMessage = vi.fn();
+  const onStateChange = vi.fn();
+  const supervisor = supervisorModule.createWorkerSupervisor({
+    spawn: () => {
+      const worker = new FakeWorker();
+      workers.push(worker);
+      return worker;
+    },
+    onMessage,
+    onStateChange,
+    heartbeatIntervalMs: 1_000,
+    maxMissedHeartbeats: 2,
+    restartBaseDelayMs: 500,
+    restartMaxDelayMs: 4_000,
+    stableAfterMs: 10_000,
+    ...overrides,
+  });
+  return { workers, onMessage, onStateChange, supervisor };
+};
+
+beforeEach(async () => {
+  vi.useFakeTimers();
+  supervisorModule = await import("../workerSupervisor.js");
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("getWorkerRestartDelay", () => {
+  it("doubles the delay per attempt up to the cap", () => {
+    const { getWorkerRestartDelay } = supervisorModule;
+    expect(getWorkerRestartDelay(1, 1_000, 10_000)).toBe(1_000);
+    expect(getWorkerRestartDelay(2, 1_000, 10_000)).toBe(2_000);
+    expect(getWorkerRestartDelay(4, 1_000, 10_000)).toBe(8_000);
+    expect(getWorkerRestartDelay(5, 1_000, 10_000)).toBe(10_000);
+  });
+});
+
+describe("createWorkerSupervisor", () => {
+  it("reports running once the worker is ready", () => {
+    const { workers, onStateChange, supervisor } = createHarness();
+
+    supervisor.start();
+    expect(supervisor.getState()).toBe("starting");
+
+    workers[0]?.emitMessage({ type: WORKER_MESSAGES.ready });
+    expect(supervisor.getState()).toBe("running");
+    expect(onStateChange.mock.calls).toEqual([["starting"], ["running"]]);
+  });
+
+  it("does not forward heartbeat pongs", () => {
+    const { workers, onMessage, supervisor } = createHarness();
+    supervisor.start();
+
+    vi.advanceTimersByTime(3_000);
+    workers[0]?.emitMessage({
+      type: WORKER_MESSAGES.pong,
+      payload: { respondedAt: "now" },
+    });
+
+    expect(onMessage).toHaveBeenCalledTimes(1);
+    expect(onMessage).toHaveBeenCalledWith({
+      type: WORKER_MESSAGES.pong,
+      payload: { respondedAt: "now" },
+    });
+  });
+
+  it("restarts with exponential backoff after unexpected exits", () => {
+    const { workers, supervisor } = createHarness();
+    supervisor.start();
+
+    workers[0]?.emitExit(1);
+    expect(supervisor.getState()).toBe("degraded");
+    vi.advanceTimersByTime(499);
+    expect(workers).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(workers).toHaveLength(2);
+
+    workers[1]?.emitExit(1);
+    vi.advanceTimersByTime(999);
+    expect(workers).toHaveLength(2);
+    vi.advanceTimersByTime(1);
+    expect(workers).toHaveLength(3);
+    expect(supervisor.getRestartAttempts()).toBe(2);
+  });
+
+  it("resets the backoff once a worker stays up", () => {
+    const { workers, supervisor } = createHarness();
+    supervisor.start();
+    workers[0]?.emitExit(1);
+    vi.advanceTimersByTime(500);
+
+    workers[1]?.emitMessage({ type: WORKER_MESSAGES.ready });
+    vi.advanceTimersByTime(10_000);
+
+    expect(supervisor.getRestartAttempts()).toBe(0);
+  });
+
+  it("terminates and replaces a worker that stops answering heartbeats", () => {
+    const { workers, supervisor } = createHarness();
+    supervisor.start();
+    workers[0]?.emitMessage({ type: WORKER_MESSAGES.ready });
+    const hung = workers[0];
+    if (hung) {
+      hung.answersPings = false;
+    }
+
+    vi.advanceTimersByTime(3_000);
+
+    expect(hung?.terminated).toBe(true);
+    expect(supervisor.getState()).toBe("degraded");
+    vi.advanceTimersByTime(500);
+    expect(workers).toHaveLength(2);
+    expect(supervisor.getWorker()).toBe(workers[1]);
+  });
+
+  it("ignores exits of a worker it already replaced", () => {
+    const { workers, supervisor } = createHarness();
+    supervisor.start();
+    const hung = workers[0];
+    if (hung) {
+      hung.answersPings = false;
+    }
+    vi.advanceTimersByTime(3_000);
+
+    hung?.emitExit(1);
+
+    expect(supervisor.getRestartAttempts()).toBe(1);
+  });
+
+  it("replays state to each worker that reports ready", () => {
+    const replay: WorkerMessage[] = [
+      { type: WORKER_MESSAGES.calibrationApply, payload: { thresholds: {} } },
+      { type: WORKER_MESSAGES.setPaused, payload: true },
+    ];
+    const { workers, supervisor } = createHarness({
+      getReplayMessages: () => replay,
+    });
+    supervisor.start();
+    workers[0]?.emitExit(1);
+    vi.advanceTimersByTime(500);
+
+    workers[1]?.emitMessage({ type: WORKER_MESSAGES.ready });
+
+    expect(workers[1]?.posted).toEqual(replay);
+  });
+
+  it("stops restarting after stop", () => {
+    const { workers, supervisor } = createHarness();
+    supervisor.start();
+
+    supervisor.stop();
+    workers[0]?.emitExit(1);
+    vi.advanceTimersByTime(10_000);
+
+    expect(workers[0]?.terminated).toBe(true);
+    expect(workers).toHaveLength(1);
+    expect(supervisor.getState()).toBe("stopped");
+  });
+
+  it("retries when spawning the worker throws", () => {
+    let attempts = 0;
+    const { supervisor } = createHarness({
+      spawn: () => {
+        attempts += 1;
+        if (attempts === 1) {
+          throw new Error("missing bundle");
+        }
+        return new FakeWorker();
+      },
+    });
+
+    supervisor.start();
+    expect(supervisor.getState()).toBe("degraded");
+    vi.advanceTimersByTime(500);
+
+    expect(attempts).toBe(2);
+    expect(supervisor.getWorker()).not.toBeNull();
+  });
+});
+
+describe("createBoundedQueue", () => {
+  it("drops the oldest entries beyond the limit", () => {
+    const queue = supervisorModule.createBoundedQueue<number>(2);
+
+    expect(queue.push(1)).toBeUndefined();
+    expect(queue.push(2)).toBeUndefined();
+    expect(queue.push(3)).toBe(1);
+
+    expect(queue.droppedCount()).toBe(1);
+    expect(queue.drain()).toEqual([2, 3]);
+    expect(queue.size()).toBe(0);
+  });
+});
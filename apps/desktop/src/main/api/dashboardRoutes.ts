@@ -0,0 +1,116 @@
+import {
+  DASHBOARD_HEATMAP_DAYS,
+  DASHBOARD_STREAM_MAX_TICK_INTERVAL_MS,
+  DASHBOARD_STREAM_MIN_TICK_INTERVAL_MS,
+  DASHBOARD_STREAM_PATH,
+} from "../../shared/config/dashboard";
+import {
+  type SummaryQueryResult,
+  parseSummaryMonth,
+  parseSummaryRange,
+  parseSummaryYear,
+} from "../../shared/validation/summaryQuery";
+import { openDashboardStream } from "../dashboardEventStream";
+import {
+  getTodaySummary,
+  getWeeklySummary,
+} from "../database/dailyPostureRepository";
+import {
+  getBestStreak,
+  getMonthSummary,
+  getRangeSummary,
+  getWeekOverWeekSummary,
+  getYearSummary,
+} from "../database/postureSummaryRepository";
+import { getPostureHeatmap } from "../database/postureTimelineRepository";
+import { getPostureGoalRule } from "../settingsService";
+import { type ApiResult, type ApiRoute, apiError, apiOk } from "./router";
+
+const fromSummaryQuery = <T>(
+  result: SummaryQueryResult<T>,
+  load: (value: T) => unknown,
+): ApiResult =>
+  result.ok
+    ? apiOk(load(result.value))
+    : apiError(400, "bad_request", result.error);
+
+const legacyRoute = (
+  path: string,
+  operationId: string,
+  handle: ApiRoute["handle"],
+): ApiRoute => ({
+  method: "GET",
+  path: `/api/dashboard/${path}`,
+  operationId,
+  summary: operationId,
+  tag: "dashboard",
+  hidden: true,
+  handle,
+});
+
+/**
+ * Routes used by the browser-mode dashboard. They predate `/api/v1`, keep
+ * their original paths and query handling, and are not part of the OpenAPI
+ * document.
+ */
+export const createDashboardRoutes = (): ApiRoute[] => [
+  {
+    method: "GET",
+    path: DASHBOARD_STREAM_PATH,
+    operationId: "openStream",
+    summary: "openStream",
+    tag: "dashboard",
+    hidden: true,
+    query: {
+      tickIntervalMs: {
+        type: "integer",
+        minimum: DASHBOARD_STREAM_MIN_TICK_INTERVAL_MS,
+        maximum: DASHBOARD_STREAM_MAX_TICK_INTERVAL_MS,
+      },
+    },
+    handle: ({ query, req, res }) => {
+      const { tickIntervalMs } = query;
+      openDashboardStream(
+        req,
+        res,
+        typeof tickIntervalMs === "number" ? tickIntervalMs : null,
+      );
+      return { ok: true, streaming: true };
+    },
+  },
+  legacyRoute("daily-summary", "dailySummary", () =>
+    apiOk(getTodaySummary(getPostureGoalRule())),
+  ),
+  legacyRoute("weekly-summary", "weeklySummary", () =>
+    apiOk(getWeeklySummary()),
+  ),
+  legacyRoute("heatmap", "heatmap", () =>
+    apiOk(getPostureHeatmap(DASHBOARD_HEATMAP_DAYS)),
+  ),
+  legacyRoute("goal", "goal", () => apiOk(getPostureGoalRule())),
+  // Summary routes validate through summaryQuery so IPC and HTTP agree
+  legacyRoute("range-summary", "rangeSummary", ({ searchParams }) =>
+    fromSummaryQuery(
+      parseSummaryRange(searchParams.get("from"), searchParams.get("to")),
+      ({ from, to }) => getRangeSummary(from, to),
+    ),
+  ),
+  legacyRoute("month-summary", "monthSummary", ({ searchParams }) =>
+    fromSummaryQuery(
+      parseSummaryMonth(searchParams.get("year"), searchParams.get("month")),
+      ({ year, month }) => getMonthSummary(year, month),
+    ),
+  ),
+  legacyRoute("year-summary", "yearSummary", ({ searchParams }) =>
+    fromSummaryQuery(
+      parseSummaryYear(searchParams.get("year")),
+      getYearSummary,
+    ),
+  ),
+  legacyRoute("best-streak", "bestStreak", () =>
+    apiOk(getBestStreak(getPostureGoalRule())),
+  ),
+  legacyRoute("week-over-week", "weekOverWeek", () =>
+    apiOk(getWeekOverWeekSummary()),
+  ),
+];
@@ -0,0 +1,148 @@
+import { DASHBOARD_METRICS_PATH } from "../../shared/config/dashboard";
+import type { EngineZone } from "../../shared/types/engine";
+import { getTodaySummary } from "../database/dailyPostureRepository";
+import { getEngineMetricsSnapshot } from "../engineMetrics";
+import { getPostureGoalRule } from "../settingsService";
+import {
+  type MetricFamily,
+  formatMetricFamilies,
+  getExpositionContentType,
+  negotiateExpositionFormat,
+} from "./prometheus";
+import { type ApiRoute, apiText } from "./router";
+import type { ApiV1Controls } from "./v1Routes";
+
+const ZONES: readonly EngineZone[] = ["GREEN", "YELLOW", "RED"];
+
+const zoneLabel = (zone: EngineZone): Record<string, string> => ({
+  zone: zone.toLowerCase(),
+});
+
+/**
+ * Collect every metric family served at `/metrics`
+ */
+export const collectMetricFamilies = (
+  controls: ApiV1Controls | null,
+  now?: number,
+): MetricFamily[] => {
+  const engine = getEngineMetricsSnapshot(now);
+  const tick = controls?.getLatestTick() ?? null;
+  const today = getTodaySummary(getPostureGoalRule());
+  const todaySeconds: Record<EngineZone, number> = {
+    GREEN: today?.secondsInGreen ?? 0,
+    YELLOW: today?.secondsInYellow ?? 0,
+    RED: today?.secondsInRed ?? 0,
+  };
+
+  return [
+    {
+      name: "posely_monitoring_paused",
+      help: "1 while monitoring is paused from the tray or the API",
+      type: "gauge",
+      samples: controls
+        ? [{ value: controls.isMonitoringPaused() ? 1 : 0 }]
+        : [],
+    },
+    {
+      name: "posely_posture_score",
+      help: "Posture score of the latest engine tick, 0-100",
+      type: "gauge",
+      samples: tick ? [{ value: tick.score }] : [],
+    },
+    {
+      name: "posely_posture_zone",
+      help: "1 for the zone of the latest engine tick, 0 for the others",
+      type: "gauge",
+      samples: tick
+        ? ZONES.map((zone) => ({
+            labels: zoneLabel(zone),
+            value: tick.zone === zone ? 1 : 0,
+          }))
+        : [],
+    },
+    {
+      name: "posely_posture_zone_seconds_today",
+      help: "Seconds spent in each zone today, as of the last aggregator save",
+      type: "gauge",
+      samples: ZONES.map((zone) => ({
+        labels: zoneLabel(zone),
+        value: todaySeconds[zone],
+      })),
+    },
+    {
+      name: "posely_engine_fps",
+      help: "Frames per second reported by the detection engine",
+      type: "gauge",
+      samples: engine.fps === null ? [] : [{ value: engine.fps }],
+    },
+    {
+      name: "posely_engine_input_width_pixels",
+      help: "Effective input width of the latest processed frame",
+      type: "gauge",
+      samples: engine.inputWidth === null ? [] : [{ value: engine.inputWidth }],
+    },
+    {
+      name: "posely_engine_frames",
+      help: "Engine frames received from the renderer",
+      type: "counter",
+      samples: [{ value: engine.framesTotal }],
+    },
+    {
+      name: "posely_reliability_reason_frames",
+      help: "Frames flagged unreliable by each guardrail reason",
+      type: "counter",
+      samples: Object.entries(engine.reliabilityReasonTotals).map(
+        ([reason, value]) => ({ labels: { reason }, value }),
+      ),
+    },
+    {
+      name: "posely_confidence_gate_skipped_frames",
+      help: "Frames whose confidence was below the ConfidenceGate threshold",
+      type: "counter",
+      samples: [{ value: engine.confidenceGateSkippedTotal }],
+    },
+    {
+      name: "posely_cpu_average_percent",
+      help: "Rolling CpuMonitor average per process, 0-100",
+      type: "gauge",
+      samples: [
+        ...(engine.rendererCpuAverage === null
+          ? []
+          : [
+              {
+                labels: { process: "renderer" },
+                value: engine.rendererCpuAverage,
+              },
+            ]),
+        { labels: { process: "main" }, value: engine.mainCpuAverage },
+      ],
+    },
+  ];
+};
+
+/**
+ * `/metrics` scrape endpoint. It needs an API token like every other route;
+ * configure it as the scrape job's bearer credentials.
+ */
+export const createMetricsRoutes = (
+  getControls: () => ApiV1Controls | null,
+): ApiRoute[] => [
+  {
+    method: "GET",
+    path: DASHBOARD_METRICS_PATH,
+    operationId: "getMetrics",
+    summary: "Prometheus metrics",
+    tag: "metrics",
+    hidden: true,
+    handle: ({ req }) => {
+      const accept = req.headers.accept;
+      const format = negotiateExpositionFormat(
+        typeof accept === "string" ? accept : null,
+      );
+      return apiText(
+        formatMetricFamilies(collectMetricFamilies(getControls()), format),
+        getExpositionContentType(format),
+      );
+    },
+  },
+];
@@ -0,0 +1,143 @@
+import {
+  API_ERROR_CODES,
+  type ApiParamSchema,
+  type ApiRoute,
+  type JsonSchema,
+} from "./router";
+
+export type OpenApiDocumentOptions = {
+  title: string;
+  version: string;
+  description?: string;
+  routes: readonly ApiRoute[];
+  /** Reusable schemas referenced as `#/components/schemas/<name>` */
+  schemas: Record<string, JsonSchema>;
+};
+
+const ERROR_RESPONSE_REF = { $ref: "#/components/responses/Error" };
+
+const toParameter = (
+  name: string,
+  location: "path" | "query",
+  schema: ApiParamSchema,
+): JsonSchema => ({
+  name,
+  in: location,
+  // OpenAPI requires path parameters to be marked required
+  required: location === "path" ? true : Boolean(schema.required),
+  description: schema.description,
+  schema:
+    schema.type === "integer"
+      ? {
+          type: "integer",
+          minimum: schema.minimum,
+          maximum: schema.maximum,
+          default: schema.default,
+        }
+      : { type: "string", format: schema.format, enum: schema.enum },
+});
+
+const toOperation = (route: ApiRoute): JsonSchema => {
+  const parameters = [
+    ...Object.entries(route.pathParams ?? {}).map(([name, schema]) =>
+      toParameter(name, "path", schema),
+    ),
+    ...Object.entries(route.query ?? {}).map(([name, schema]) =>
+      toParameter(name, "query", schema),
+    ),
+  ];
+
+  const responses: Record<string, unknown> = {
+    "200": {
+      description: "Success",
+      content: { "application/json": { schema: route.response ?? {} } },
+    },
+  };
+  if (parameters.length > 0) {
+    responses["400"] = ERROR_RESPONSE_REF;
+  }
+  if (!route.public) {
+    responses["401"] = ERROR_RESPONSE_REF;
+  }
+  responses["403"] = ERROR_RESPONSE_REF;
+  if (route.pathParams) {
+    responses["404"] = ERROR_RESPONSE_REF;
+  }
+  responses["500"] = ERROR_RESPONSE_REF;
+
+  return {
+    operationId: route.operationId,
+    summary: route.summary,
+    tags: [route.tag],
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(route.public ? { security: [] } : {}),
+    responses,
+  };
+};
+
+/**
+ * Generate an OpenAPI 3.0 document from the route table so the served
+ * description can never drift from what the router accepts
+ */
+export const buildOpenApiDocument = ({
+  title,
+  version,
+  description,
+  routes,
+  schemas,
+}: OpenApiDocumentOptions): JsonSchema => {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  routes
+    .filter((route) => !route.hidden)
+    .forEach((route) => {
+      paths[route.path] = {
+        ...paths[route.path],
+        [route.method.toLowerCase()]: toOperation(route),
+      };
+    });
+
+  const tags = Array.from(
+    new Set(routes.filter((route) => !route.hidden).map((route) => route.tag)),
+  ).map((name) => ({ name }));
+
+  return {
+    openapi: "3.0.3",
+    info: { title, version, description },
+    tags,
+    paths,
+    security: [{ bearerAuth: [] }, { queryToken: [] }],
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+        queryToken: { type: "apiKey", in: "query", name: "token" },
+      },
+      responses: {
+        Error: {
+          description: "Error",
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/ErrorEnvelope" },
+            },
+          },
+        },
+      },
+      schemas: {
+        ErrorEnvelope: {
+          type: "object",
+          required: ["error"],
+          properties: {
+            error: {
+              type: "object",
+              required: ["code", "message"],
+              properties: {
+                code: { type: "string", enum: API_ERROR_CODES },
+                message: { type: "string" },
+              },
+            },
+          },
+        },
+        ...schemas,
+      },
+    },
+  };
+};
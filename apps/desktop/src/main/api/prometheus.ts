@@ -0,0 +1,98 @@
+export type MetricType = "gauge" | "counter";
+
+export type MetricSample = {
+  labels?: Record<string, string>;
+  value: number;
+};
+
+/**
+ * One metric family. Counter names are given without the `_total` suffix;
+ * the formatter adds it where each format expects it.
+ */
+export type MetricFamily = {
+  name: string;
+  help: string;
+  type: MetricType;
+  samples: MetricSample[];
+};
+
+export type ExpositionFormat = "prometheus" | "openmetrics";
+
+export const PROMETHEUS_CONTENT_TYPE =
+  "text/plain; version=0.0.4; charset=utf-8";
+
+export const OPENMETRICS_CONTENT_TYPE =
+  "application/openmetrics-text; version=1.0.0; charset=utf-8";
+
+/**
+ * Pick OpenMetrics only when the scraper asks for it; Prometheus sends it
+ * first in its Accept header by default
+ */
+export const negotiateExpositionFormat = (
+  accept: string | null,
+): ExpositionFormat =>
+  accept?.includes("application/openmetrics-text")
+    ? "openmetrics"
+    : "prometheus";
+
+export const getExpositionContentType = (format: ExpositionFormat): string =>
+  format === "openmetrics" ? OPENMETRICS_CONTENT_TYPE : PROMETHEUS_CONTENT_TYPE;
+
+const escapeHelp = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+
+const escapeLabelValue = (value: string): string =>
+  escapeHelp(value).replace(/"/g, '\\"');
+
+const formatValue = (value: number): string => {
+  if (Number.isNaN(value)) {
+    return "NaN";
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? "+Inf" : "-Inf";
+  }
+  return String(value);
+};
+
+const formatLabels = (labels: Record<string, string> | undefined): string => {
+  const entries = Object.entries(labels ?? {});
+  if (entries.length === 0) {
+    return "";
+  }
+  return `{${entries
+    .map(([name, value]) => `${name}="${escapeLabelValue(value)}"`)
+    .join(",")}}`;
+};
+
+/**
+ * Render families in the Prometheus text format (0.0.4) or OpenMetrics 1.0.
+ * Families without samples are left out.
+ */
+export const formatMetricFamilies = (
+  families: readonly MetricFamily[],
+  format: ExpositionFormat,
+): string => {
+  const lines: string[] = [];
+
+  families
+    .filter((family) => family.samples.length > 0)
+    .forEach((family) => {
+      const sampleName =
+        family.type === "counter" ? `${family.name}_total` : family.name;
+      // OpenMetrics names the family without the counter suffix
+      const familyName = format === "openmetrics" ? family.name : sampleName;
+
+      lines.push(`# HELP ${familyName} ${escapeHelp(family.help)}`);
+      lines.push(`# TYPE ${familyName} ${family.type}`);
+      family.samples.forEach((sample) => {
+        lines.push(
+          `${sampleName}${formatLabels(sample.labels)} ${formatValue(sample.value)}`,
+        );
+      });
+    });
+
+  if (format === "openmetrics") {
+    lines.push("# EOF");
+  }
+  return `${lines.join("\n")}\n`;
+};
@@ -0,0 +1,323 @@
+import type http from "node:http";
+
+export type ApiMethod = "GET" | "POST";
+
+/**
+ * Schema for a single path or query parameter. Doubles as the validator and
+ * as the OpenAPI parameter description.
+ */
+export type ApiParamSchema =
+  | {
+      type: "string";
+      description?: string;
+      required?: boolean;
+      /** `date` requires a real YYYY-MM-DD calendar date */
+      format?: "date";
+      enum?: readonly string[];
+    }
+  | {
+      type: "integer";
+      description?: string;
+      required?: boolean;
+      minimum?: number;
+      maximum?: number;
+      default?: number;
+    };
+
+export type ApiParamValue = string | number | undefined;
+
+export type ApiParams = Record<string, ApiParamValue>;
+
+export const API_ERROR_CODES = [
+  "bad_request",
+  "unauthorized",
+  "forbidden",
+  "not_found",
+  "method_not_allowed",
+  "unavailable",
+  "internal_error",
+] as const;
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+/**
+ * Body of every non-2xx JSON response
+ */
+export type ApiErrorEnvelope = {
+  error: { code: ApiErrorCode; message: string };
+};
+
+export type ApiFailure = {
+  ok: false;
+  status: number;
+  code: ApiErrorCode;
+  message: string;
+};
+
+export type ApiResult =
+  /** `body` is serialised as JSON unless a `contentType` is given */
+  | { ok: true; status?: number; body: unknown; contentType?: string }
+  /** The handler wrote the response itself (event streams) */
+  | { ok: true; streaming: true }
+  | ApiFailure;
+
+export type ApiRequest = {
+  params: ApiParams;
+  query: ApiParams;
+  /** Raw query string, for parameters not described by the route */
+  searchParams: URLSearchParams;
+  req: http.IncomingMessage;
+  res: http.ServerResponse;
+};
+
+/** Plain JSON Schema object, emitted verbatim into the OpenAPI document */
+export type JsonSchema = Record<string, unknown>;
+
+export type ApiRoute = {
+  method: ApiMethod;
+  /** Path template with OpenAPI-style parameters, e.g. `/calibrations/{id}` */
+  path: string;
+  operationId: string;
+  summary: string;
+  tag: string;
+  pathParams?: Record<string, ApiParamSchema>;
+  query?: Record<string, ApiParamSchema>;
+  /** Schema of the 200 response body */
+  response?: JsonSchema;
+  /** Served without an API token; the origin allowlist still applies */
+  public?: boolean;
+  /** Left out of the OpenAPI document (legacy dashboard routes) */
+  hidden?: boolean;
+  handle: (request: ApiRequest) => ApiResult;
+};
+
+export type ApiRouteMatch =
+  | { ok: true; route: ApiRoute; rawParams: Record<string, string> }
+  | { ok: false; status: 404 | 405; allowedMethods: ApiMethod[] };
+
+export type ApiRouter = {
+  routes: readonly ApiRoute[];
+  match: (method: string, pathname: string) => ApiRouteMatch;
+};
+
+type CompiledRoute = {
+  route: ApiRoute;
+  pattern: RegExp;
+  paramNames: string[];
+};
+
+const PATH_PARAM_PATTERN = /\{([A-Za-z0-9_]+)\}/g;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const INTEGER_PATTERN = /^-?\d+$/;
+
+export const apiOk = (body: unknown, status = 200): ApiResult => ({
+  ok: true,
+  status,
+  body,
+});
+
+/**
+ * Plain-text success response, such as a metrics exposition
+ */
+export const apiText = (body: string, contentType: string): ApiResult => ({
+  ok: true,
+  status: 200,
+  body,
+  contentType,
+});
+
+export const apiError = (
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+): ApiFailure => ({ ok: false, status, code, message });
+
+export const toErrorEnvelope = (
+  code: ApiErrorCode,
+  message: string,
+): ApiErrorEnvelope => ({ error: { code, message } });
+
+const decodePathSegment = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    // Malformed escapes are passed through and fail parameter validation
+    return value;
+  }
+};
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^$()|[\]\\]/g, "\\$&");
+
+const compileRoute = (route: ApiRoute): CompiledRoute => {
+  const paramNames: string[] = [];
+  const source = route.path
+    .split(PATH_PARAM_PATTERN)
+    .map((part, index) => {
+      // split() with a capture group alternates literal text and names
+      if (index % 2 === 1) {
+        paramNames.push(part);
+        return "([^/]+)";
+      }
+      return escapeRegExp(part);
+    })
+    .join("");
+  return { route, pattern: new RegExp(`^${source}$`), paramNames };
+};
+
+/**
+ * Build a router over a fixed route table. A path that exists under another
+ * method yields 405 rather than 404.
+ */
+export const createApiRouter = (routes: readonly ApiRoute[]): ApiRouter => {
+  const compiled = routes.map(compileRoute);
+
+  const match = (method: string, pathname: string): ApiRouteMatch => {
+    const pathMatches = compiled.filter(({ pattern }) =>
+      pattern.test(pathname),
+    );
+    const hit = pathMatches.find(({ route }) => route.method === method);
+    if (!hit) {
+      return pathMatches.length > 0
+        ? {
+            ok: false,
+            status: 405,
+            allowedMethods: pathMatches.map(({ route }) => route.method),
+          }
+        : { ok: false, status: 404, allowedMethods: [] };
+    }
+
+    const groups = hit.pattern.exec(pathname) ?? [];
+    const rawParams: Record<string, string> = {};
+    hit.paramNames.forEach((name, index) => {
+      rawParams[name] = decodePathSegment(groups[index + 1] ?? "");
+    });
+    return { ok: true, route: hit.route, rawParams };
+  };
+
+  return { routes, match };
+};
+
+const isCalendarDate = (value: string): boolean => {
+  if (!DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return (
+    !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+  );
+};
+
+const parseParam = (
+  name: string,
+  schema: ApiParamSchema,
+  raw: string,
+): { ok: true; value: ApiParamValue } | ApiFailure => {
+  if (schema.type === "integer") {
+    const value = Number(raw);
+    const inRange =
+      INTEGER_PATTERN.test(raw) &&
+      Number.isSafeInteger(value) &&
+      (schema.minimum === undefined || value >= schema.minimum) &&
+      (schema.maximum === undefined || value <= schema.maximum);
+    if (!inRange) {
+      const bounds =
+        schema.minimum !== undefined && schema.maximum !== undefined
+          ? ` between ${schema.minimum} and ${schema.maximum}`
+          : "";
+      return apiError(
+        400,
+        "bad_request",
+        `${name} must be an integer${bounds}`,
+      );
+    }
+    return { ok: true, value };
+  }
+
+  if (schema.format === "date" && !isCalendarDate(raw)) {
+    return apiError(400, "bad_request", `${name} must be a YYYY-MM-DD date`);
+  }
+  if (schema.enum && !schema.enum.includes(raw)) {
+    return apiError(
+      400,
+      "bad_request",
+      `${name} must be one of ${schema.enum.join(", ")}`,
+    );
+  }
+  return { ok: true, value: raw };
+};
+
+/**
+ * Validate raw parameters against their schemas. Unknown parameters are
+ * ignored so clients can pass `token` alongside route parameters.
+ */
+export const validateApiParams = (
+  schemas: Record<string, ApiParamSchema> | undefined,
+  read: (name: string) => string | null,
+): { ok: true; value: ApiParams } | ApiFailure => {
+  const value: ApiParams = {};
+  const failures = Object.entries(schemas ?? {}).map(
+    ([name, schema]): ApiFailure | null => {
+      const raw = read(name);
+      if (raw === null || raw === "") {
+        value[name] = schema.type === "integer" ? schema.default : undefined;
+        return schema.required
+          ? apiError(400, "bad_request", `${name} is required`)
+          : null;
+      }
+      const parsed = parseParam(name, schema, raw);
+      if (!parsed.ok) {
+        return parsed;
+      }
+      value[name] = parsed.value;
+      return null;
+    },
+  );
+
+  // Report the first invalid parameter in declaration order
+  return failures.find((failure) => failure !== null) ?? { ok: true, value };
+};
+
+/**
+ * Validate a matched request and run its handler. Handler exceptions become
+ * a 500 envelope; the caller decides how to log them.
+ */
+export const runApiRoute = (
+  match: Extract<ApiRouteMatch, { ok: true }>,
+  searchParams: URLSearchParams,
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  onError: (error: unknown) => void,
+): ApiResult => {
+  const { route, rawParams } = match;
+  const params = validateApiParams(
+    route.pathParams,
+    (name) => rawParams[name] ?? null,
+  );
+  if (!params.ok) {
+    return params;
+  }
+  const query = validateApiParams(route.query, (name) =>
+    searchParams.get(name),
+  );
+  if (!query.ok) {
+    return query;
+  }
+
+  try {
+    return route.handle({
+      params: params.value,
+      query: query.value,
+      searchParams,
+      req,
+      res,
+    });
+  } catch (error) {
+    onError(error);
+    return apiError(
+      500,
+      "internal_error",
+      `Failed to handle ${route.operationId}`,
+    );
+  }
+};
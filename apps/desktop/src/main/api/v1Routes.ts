@@ -0,0 +1,437 @@
+import { DASHBOARD_API_V1_PREFIX } from "../../shared/config/dashboard";
+import { isSettingKey } from "../../shared/settings/registry";
+import { getTodayLocalDate } from "../../shared/time";
+import type { PostureCalibrationRecord } from "../../shared/types/calibration";
+import type { EngineTick } from "../../shared/types/engine";
+import type {
+  PostureExportFormat,
+  PostureExportRange,
+} from "../../shared/types/export";
+import { parseSummaryRange } from "../../shared/validation/summaryQuery";
+import { listPostureCalibrations } from "../database/calibrationRepository";
+import {
+  calculateStreak,
+  getDailyPostureLogsInRange,
+  getDailySummary,
+} from "../database/dailyPostureRepository";
+import {
+  getBestStreak,
+  getMonthSummary,
+  getRangeSummary,
+  getWeekOverWeekSummary,
+  getYearSummary,
+} from "../database/postureSummaryRepository";
+import { getPostureTimeline } from "../database/postureTimelineRepository";
+import {
+  buildPostureExportDocument,
+  normaliseExportRange,
+  serializePostureExportCsv,
+} from "../postureExport";
+import {
+  getAllSettingValues,
+  getPostureGoalRule,
+  getSettingValue,
+} from "../settingsService";
+import { buildOpenApiDocument } from "./openapi";
+import {
+  type ApiParamSchema,
+  type ApiResult,
+  type ApiRoute,
+  type JsonSchema,
+  apiError,
+  apiOk,
+  apiText,
+} from "./router";
+import { API_V1_SCHEMAS, schemaRef } from "./v1Schemas";
+
+export const API_V1_VERSION = "1.0.0";
+
+/** Longest timeline window served in one request */
+export const API_V1_MAX_TIMELINE_RANGE_MS = 31 * 24 * 60 * 60 * 1000;
+
+/**
+ * App state the v1 API reads and controls; registered by the main process
+ * once the tray and worker exist
+ */
+export type ApiV1Controls = {
+  getLatestTick: () => EngineTick | null;
+  isMonitoringPaused: () => boolean;
+  setMonitoringPaused: (paused: boolean) => void;
+  /** Make a stored calibration the active one; null when the id is unknown */
+  activateCalibration: (id: number) => PostureCalibrationRecord | null;
+  /** Open the calibration screen; completes in the app, not in the request */
+  startRecalibration: () => void;
+};
+
+const v1 = (path: string): string => `${DASHBOARD_API_V1_PREFIX}${path}`;
+
+const arrayOf = (name: string): JsonSchema => ({
+  type: "array",
+  items: schemaRef(name),
+});
+
+const dateParam = (description: string, required = false): ApiParamSchema => ({
+  type: "string",
+  format: "date",
+  description,
+  required,
+});
+
+const YEAR_PARAM: ApiParamSchema = {
+  type: "integer",
+  required: true,
+  minimum: 1970,
+  maximum: 9999,
+};
+
+const toRangeError = (from: unknown, to: unknown): ApiResult | null => {
+  const range = parseSummaryRange(from, to);
+  return range.ok ? null : apiError(400, "bad_request", range.error);
+};
+
+/**
+ * @returns The normalised range, or the validation message
+ */
+const toExportRange = (
+  from: unknown,
+  to: unknown,
+): PostureExportRange | string => {
+  try {
+    return normaliseExportRange({
+      from: typeof from === "string" ? from : undefined,
+      to: typeof to === "string" ? to : undefined,
+    });
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid export range";
+  }
+};
+
+/**
+ * Build the `/api/v1` route table. `getControls` is read per request so the
+ * routes can be created before the main process registers its controls.
+ */
+export const createApiV1Routes = (
+  getControls: () => ApiV1Controls | null,
+): ApiRoute[] => {
+  const withControls = (
+    handle: (controls: ApiV1Controls) => ApiResult,
+  ): ApiResult => {
+    const controls = getControls();
+    return controls
+      ? handle(controls)
+      : apiError(503, "unavailable", "Monitoring is not running");
+  };
+
+  const routes: ApiRoute[] = [
+    {
+      method: "GET",
+      path: v1("/history/daily"),
+      operationId: "listDailyHistory",
+      summary: "Daily posture logs, oldest first",
+      tag: "history",
+      query: {
+        from: dateParam("Inclusive start date; open when omitted"),
+        to: dateParam("Inclusive end date; open when omitted"),
+      },
+      response: arrayOf("DailySummary"),
+      handle: ({ query }) => {
+        const from = typeof query.from === "string" ? query.from : null;
+        const to = typeof query.to === "string" ? query.to : null;
+        const rangeError = from && to ? toRangeError(from, to) : null;
+        return rangeError ?? apiOk(getDailyPostureLogsInRange(from, to));
+      },
+    },
+    {
+      method: "GET",
+      path: v1("/history/today"),
+      operationId: "getTodaySummary",
+      summary: "Today's totals and the current streak",
+      tag: "history",
+      response: schemaRef("TodaySummary"),
+      handle: () => {
+        const today = getTodayLocalDate();
+        return apiOk({
+          date: today,
+          summary: getDailySummary(today),
+          streak: calculateStreak(getPostureGoalRule()),
+        });
+      },
+    },
+    {
+      method: "GET",
+      path: v1("/history/range"),
+      operationId: "getRangeSummary",
+      summary: "Totals for an inclusive date range",
+      tag: "history",
+      query: {
+        from: dateParam("Inclusive start date", true),
+        to: dateParam("Inclusive end date", true),
+      },
+      response: schemaRef("RangeSummary"),
+      handle: ({ query }) =>
+        toRangeError(query.from, query.to) ??
+        apiOk(getRangeSummary(String(query.from), String(query.to))),
+    },
+    {
+      method: "GET",
+      path: v1("/history/month"),
+      operationId: "getMonthSummary",
+      summary: "Totals for a calendar month",
+      tag: "history",
+      query: {
+        year: YEAR_PARAM,
+        month: { type: "integer", required: true, minimum: 1, maximum: 12 },
+      },
+      response: schemaRef("PeriodSummary"),
+      handle: ({ query }) =>
+        apiOk(getMonthSummary(Number(query.year), Number(query.month))),
+    },
+    {
+      method: "GET",
+      path: v1("/history/year"),
+      operationId: "getYearSummary",
+      summary: "Totals for a calendar year with a monthly breakdown",
+      tag: "history",
+      query: { year: YEAR_PARAM },
+      response: schemaRef("YearSummary"),
+      handle: ({ query }) => apiOk(getYearSummary(Number(query.year))),
+    },
+    {
+      method: "GET",
+      path: v1("/history/week-over-week"),
+      operationId: "getWeekOverWeekSummary",
+      summary: "The last 7 days compared with the 7 days before",
+      tag: "history",
+      response: schemaRef("WeekComparison"),
+      handle: () => apiOk(getWeekOverWeekSummary()),
+    },
+    {
+      method: "GET",
+      path: v1("/history/best-streak"),
+      operationId: "getBestStreak",
+      summary: "Longest run of goal-met days",
+      tag: "history",
+      response: schemaRef("BestStreak"),
+      handle: () => apiOk(getBestStreak(getPostureGoalRule())),
+    },
+    {
+      method: "GET",
+      path: v1("/history/timeline"),
+      operationId: "listTimeline",
+      summary: "Timeline buckets starting in [from, to)",
+      tag: "history",
+      query: {
+        from: {
+          type: "integer",
+          required: true,
+          minimum: 0,
+          description: "Epoch ms, inclusive",
+        },
+        to: {
+          type: "integer",
+          required: true,
+          minimum: 0,
+          description: "Epoch ms, exclusive; at most 31 days after from",
+        },
+      },
+      response: arrayOf("TimelineBucket"),
+      handle: ({ query }) => {
+        const from = Number(query.from);
+        const to = Number(query.to);
+        if (to <= from) {
+          return apiError(400, "bad_request", "to must be after from");
+        }
+        if (to - from > API_V1_MAX_TIMELINE_RANGE_MS) {
+          return apiError(
+            400,
+            "bad_request",
+            "timeline range must not exceed 31 days",
+          );
+        }
+        return apiOk(getPostureTimeline({ from, to }));
+      },
+    },
+    {
+      method: "GET",
+      path: v1("/tick"),
+      operationId: "getCurrentTick",
+      summary: "Latest engine tick and whether monitoring is paused",
+      tag: "monitoring",
+      response: schemaRef("CurrentTick"),
+      handle: () =>
+        withControls((controls) =>
+          apiOk({
+            paused: controls.isMonitoringPaused(),
+            tick: controls.getLatestTick(),
+          }),
+        ),
+    },
+    {
+      method: "GET",
+      path: v1("/monitoring"),
+      operationId: "getMonitoringStatus",
+      summary: "Whether monitoring is paused",
+      tag: "monitoring",
+      response: schemaRef("MonitoringStatus"),
+      handle: () =>
+        withControls((controls) =>
+          apiOk({ paused: controls.isMonitoringPaused() }),
+        ),
+    },
+    {
+      method: "POST",
+      path: v1("/monitoring/pause"),
+      operationId: "pauseMonitoring",
+      summary: "Pause monitoring; a no-op when already paused",
+      tag: "monitoring",
+      response: schemaRef("MonitoringStatus"),
+      handle: () =>
+        withControls((controls) => {
+          controls.setMonitoringPaused(true);
+          return apiOk({ paused: controls.isMonitoringPaused() });
+        }),
+    },
+    {
+      method: "POST",
+      path: v1("/monitoring/resume"),
+      operationId: "resumeMonitoring",
+      summary: "Resume monitoring; a no-op when already running",
+      tag: "monitoring",
+      response: schemaRef("MonitoringStatus"),
+      handle: () =>
+        withControls((controls) => {
+          controls.setMonitoringPaused(false);
+          return apiOk({ paused: controls.isMonitoringPaused() });
+        }),
+    },
+    {
+      method: "GET",
+      path: v1("/calibrations"),
+      operationId: "listCalibrations",
+      summary: "Stored calibrations, newest first",
+      tag: "calibration",
+      query: {
+        limit: { type: "integer", minimum: 1, maximum: 100, default: 10 },
+      },
+      response: arrayOf("Calibration"),
+      handle: ({ query }) =>
+        apiOk(listPostureCalibrations(undefined, Number(query.limit))),
+    },
+    {
+      method: "POST",
+      path: v1("/calibrations/{id}/activate"),
+      operationId: "activateCalibration",
+      summary: "Make a stored calibration the active one",
+      tag: "calibration",
+      pathParams: { id: { type: "integer", minimum: 1 } },
+      response: schemaRef("Calibration"),
+      handle: ({ params }) =>
+        withControls((controls) => {
+          const record = controls.activateCalibration(Number(params.id));
+          return record
+            ? apiOk(record)
+            : apiError(404, "not_found", "Calibration not found");
+        }),
+    },
+    {
+      method: "POST",
+      path: v1("/calibrations/recalibrate"),
+      operationId: "startRecalibration",
+      summary: "Open the calibration screen in the app",
+      tag: "calibration",
+      response: schemaRef("RecalibrationStatus"),
+      handle: () =>
+        withControls((controls) => {
+          controls.startRecalibration();
+          return apiOk({ started: true }, 202);
+        }),
+    },
+    {
+      method: "GET",
+      path: v1("/export"),
+      operationId: "exportHistory",
+      summary: "Posture history export, as JSON or sectioned CSV",
+      tag: "history",
+      query: {
+        format: { type: "string", enum: ["json", "csv"] },
+        from: dateParam("Inclusive start date; open when omitted"),
+        to: dateParam("Inclusive end date; open when omitted"),
+      },
+      response: schemaRef("PostureExport"),
+      handle: ({ query }) => {
+        const format: PostureExportFormat =
+          query.format === "csv" ? "csv" : "json";
+        const range = toExportRange(query.from, query.to);
+        if (typeof range === "string") {
+          return apiError(400, "bad_request", range);
+        }
+        const document = buildPostureExportDocument(range);
+        return format === "csv"
+          ? apiText(
+              serializePostureExportCsv(document),
+              "text/csv; charset=utf-8",
+            )
+          : apiOk(document);
+      },
+    },
+    {
+      method: "GET",
+      path: v1("/settings"),
+      operationId: "getSettings",
+      summary: "Current settings",
+      tag: "settings",
+      response: schemaRef("Settings"),
+      handle: () => apiOk(getAllSettingValues()),
+    },
+    {
+      method: "GET",
+      path: v1("/settings/{key}"),
+      operationId: "getSetting",
+      summary: "A single setting",
+      tag: "settings",
+      pathParams: { key: { type: "string" } },
+      response: {
+        type: "object",
+        required: ["key", "value"],
+        properties: {
+          key: { type: "string" },
+          value: {
+            oneOf: [
+              { type: "boolean" },
+              { type: "number" },
+              { type: "string" },
+            ],
+          },
+        },
+      },
+      handle: ({ params }) =>
+        isSettingKey(params.key)
+          ? apiOk({ key: params.key, value: getSettingValue(params.key) })
+          : apiError(404, "not_found", "Unknown setting"),
+    },
+  ];
+
+  let openApiDocument: JsonSchema | null = null;
+  routes.push({
+    method: "GET",
+    path: v1("/openapi.json"),
+    operationId: "getOpenApiDocument",
+    summary: "This OpenAPI document",
+    tag: "meta",
+    public: true,
+    response: { type: "object" },
+    handle: () => {
+      openApiDocument ??= buildOpenApiDocument({
+        title: "Posely local API",
+        version: API_V1_VERSION,
+        description:
+          "Served by the desktop app on the loopback interface. Every operation except this document needs an API token created in Settings.",
+        routes,
+        schemas: API_V1_SCHEMAS,
+      });
+      return apiOk(openApiDocument);
+    },
+  });
+
+  return routes;
+};
@@ -0,0 +1,207 @@
+import type { JsonSchema } from "./router";
+
+/**
+ * JSON Schemas for `/api/v1` response bodies, mirroring the TypeScript types
+ * in `shared/types` and the repositories. Keep both in step when a response
+ * shape changes.
+ */
+
+export const schemaRef = (name: string): JsonSchema => ({
+  $ref: `#/components/schemas/${name}`,
+});
+
+const integer: JsonSchema = { type: "integer" };
+const number: JsonSchema = { type: "number" };
+const date: JsonSchema = { type: "string", format: "date" };
+
+const objectSchema = (properties: Record<string, JsonSchema>): JsonSchema => ({
+  type: "object",
+  required: Object.keys(properties),
+  properties,
+});
+
+const rangeSummaryProperties: Record<string, JsonSchema> = {
+  from: date,
+  to: date,
+  daysWithData: integer,
+  goalMetDays: integer,
+  avgScore: number,
+  sampleCount: integer,
+  secondsInGreen: integer,
+  secondsInYellow: integer,
+  secondsInRed: integer,
+  monitoredSeconds: integer,
+};
+
+const periodSummaryProperties: Record<string, JsonSchema> = {
+  ...rangeSummaryProperties,
+  period: { type: "string", description: "YYYY-MM or YYYY" },
+};
+
+export const API_V1_SCHEMAS: Record<string, JsonSchema> = {
+  DailySummary: objectSchema({
+    date,
+    secondsInGreen: integer,
+    secondsInYellow: integer,
+    secondsInRed: integer,
+    avgScore: number,
+    sampleCount: integer,
+    meetsGoal: { type: "integer", enum: [0, 1] },
+  }),
+  TodaySummary: objectSchema({
+    date,
+    summary: { allOf: [schemaRef("DailySummary")], nullable: true },
+    streak: integer,
+  }),
+  RangeSummary: objectSchema(rangeSummaryProperties),
+  PeriodSummary: objectSchema(periodSummaryProperties),
+  YearSummary: objectSchema({
+    ...periodSummaryProperties,
+    months: { type: "array", items: schemaRef("PeriodSummary") },
+  }),
+  BestStreak: objectSchema({
+    length: integer,
+    startDate: { ...date, nullable: true },
+    endDate: { ...date, nullable: true },
+  }),
+  WeekComparison: objectSchema({
+    current: schemaRef("RangeSummary"),
+    previous: schemaRef("RangeSummary"),
+    delta: objectSchema({
+      avgScore: number,
+      monitoredSeconds: integer,
+      secondsInRed: integer,
+      goalMetDays: integer,
+    }),
+  }),
+  TimelineBucket: objectSchema({
+    bucketStart: { type: "integer", description: "Epoch ms" },
+    bucketSeconds: integer,
+    date,
+    secondsInGreen: integer,
+    secondsInYellow: integer,
+    secondsInRed: integer,
+    secondsPresent: integer,
+    secondsReliable: integer,
+    avgScore: number,
+    minScore: { type: "number", nullable: true },
+    avgPitchDeg: number,
+    avgEhdNorm: number,
+    avgDpr: number,
+    sampleCount: integer,
+  }),
+  EngineTick: objectSchema({
+    t: { type: "integer", description: "Epoch ms" },
+    presence: { type: "string", enum: ["PRESENT", "ABSENT"] },
+    reliability: { type: "string", enum: ["OK", "UNRELIABLE"] },
+    metrics: objectSchema({
+      pitchDeg: number,
+      ehdNorm: number,
+      dpr: number,
+      conf: number,
+    }),
+    score: number,
+    zone: { type: "string", enum: ["GREEN", "YELLOW", "RED"] },
+    state: {
+      type: "string",
+      enum: [
+        "GOOD",
+        "AT_RISK",
+        "BAD_POSTURE",
+        "RECOVERING",
+        "IDLE",
+        "UNRELIABLE",
+        "INITIAL",
+      ],
+    },
+  }),
+  CurrentTick: objectSchema({
+    paused: { type: "boolean" },
+    tick: { allOf: [schemaRef("EngineTick")], nullable: true },
+  }),
+  Calibration: objectSchema({
+    id: integer,
+    userId: integer,
+    profileId: { type: "integer", description: "Monitoring profile" },
+    cameraKey: {
+      type: "string",
+      nullable: true,
+      description: "Hash of the camera the baseline was captured with",
+    },
+    baselinePitch: number,
+    baselineEHD: number,
+    baselineDPR: number,
+    quality: number,
+    sampleCount: integer,
+    sensitivity: {
+      type: "string",
+      enum: ["low", "medium", "high", "custom"],
+    },
+    customPitchThreshold: { type: "number", nullable: true },
+    customEHDThreshold: { type: "number", nullable: true },
+    customDPRThreshold: { type: "number", nullable: true },
+    calibratedAt: { type: "integer", description: "Epoch ms" },
+    isActive: { type: "boolean" },
+    createdAt: { type: "integer", description: "Epoch ms" },
+    updatedAt: { type: "integer", description: "Epoch ms" },
+  }),
+  Settings: {
+    type: "object",
+    description: "Current values of every registered setting",
+    additionalProperties: {
+      oneOf: [{ type: "boolean" }, { type: "number" }, { type: "string" }],
+    },
+  },
+  MonitoringStatus: objectSchema({ paused: { type: "boolean" } }),
+  RecalibrationStatus: objectSchema({ started: { type: "boolean" } }),
+  PostureExport: {
+    type: "object",
+    description:
+      "PostureExportDocument (shared/types/export.ts); the CSV layout documented there when format=csv",
+    required: [
+      "schemaVersion",
+      "exportedAt",
+      "range",
+      "dailyLogs",
+      "profiles",
+      "profileDailyLogs",
+      "calibrations",
+      "settings",
+    ],
+    properties: {
+      schemaVersion: integer,
+      exportedAt: { type: "string", format: "date-time" },
+      range: objectSchema({
+        from: { ...date, nullable: true },
+        to: { ...date, nullable: true },
+      }),
+      dailyLogs: { type: "array", items: schemaRef("DailySummary") },
+      profiles: {
+        type: "array",
+        items: objectSchema({
+          id: integer,
+          name: { type: "string" },
+          performanceMode: { type: "string" },
+          cameraKey: { type: "string", nullable: true },
+        }),
+      },
+      profileDailyLogs: {
+        type: "array",
+        items: objectSchema({
+          date,
+          profileId: integer,
+          secondsInGreen: integer,
+          secondsInYellow: integer,
+          secondsInRed: integer,
+          avgScore: number,
+          sampleCount: integer,
+        }),
+      },
+      calibrations: { type: "array", items: { type: "object" } },
+      settings: {
+        type: "object",
+        additionalProperties: { type: "string" },
+      },
+    },
+  },
+};
@@ -0,0 +1,151 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { getLogger } from "../shared/logger";
+import type {
+  ApiTokenCreateResult,
+  ApiTokenSummary,
+} from "../shared/types/apiAccess";
+import { getSetting, setSetting } from "./database/settingsRepository";
+
+const logger = getLogger("api-token-service", "main");
+
+/** Settings row holding the JSON list of tokens; not part of the registry */
+export const API_TOKENS_SETTING_KEY = "apiTokens";
+
+const TOKEN_SECRET_PREFIX = "psly_";
+const TOKEN_PREFIX_LENGTH = TOKEN_SECRET_PREFIX.length + 4;
+const MAX_TOKEN_NAME_LENGTH = 64;
+// lastUsedAt is informational; avoid a settings write on every request
+const LAST_USED_WRITE_INTERVAL_MS = 60000;
+
+type StoredApiToken = ApiTokenSummary & {
+  /** Hex SHA-256 of the secret */
+  hash: string;
+};
+
+const hashSecret = (secret: string): string =>
+  createHash("sha256").update(secret).digest("hex");
+
+const isStoredApiToken = (value: unknown): value is StoredApiToken => {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const token = value as Record<string, unknown>;
+  return (
+    typeof token.id === "string" &&
+    typeof token.name === "string" &&
+    typeof token.prefix === "string" &&
+    typeof token.hash === "string" &&
+    typeof token.createdAt === "number" &&
+    (token.lastUsedAt === null || typeof token.lastUsedAt === "number")
+  );
+};
+
+const readTokens = (): StoredApiToken[] => {
+  const raw = getSetting(API_TOKENS_SETTING_KEY);
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? parsed.filter(isStoredApiToken) : [];
+  } catch (error) {
+    logger.warn("Ignoring unreadable API token list", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return [];
+  }
+};
+
+const writeTokens = (tokens: StoredApiToken[]): void => {
+  setSetting(API_TOKENS_SETTING_KEY, JSON.stringify(tokens));
+};
+
+const toSummary = (token: StoredApiToken): ApiTokenSummary => ({
+  id: token.id,
+  name: token.name,
+  prefix: token.prefix,
+  createdAt: token.createdAt,
+  lastUsedAt: token.lastUsedAt,
+});
+
+export const listApiTokens = (): ApiTokenSummary[] =>
+  readTokens().map(toSummary);
+
+/**
+ * Create a token for `name`. The returned secret is not stored and cannot be
+ * shown again.
+ */
+export const createApiToken = (
+  name: unknown,
+  now: number = Date.now(),
+): ApiTokenCreateResult => {
+  const trimmed = typeof name === "string" ? name.trim() : "";
+  if (trimmed.length === 0 || trimmed.length > MAX_TOKEN_NAME_LENGTH) {
+    return {
+      ok: false,
+      error: `Token name must be 1-${MAX_TOKEN_NAME_LENGTH} characters`,
+    };
+  }
+
+  const secret = `${TOKEN_SECRET_PREFIX}${randomBytes(24).toString("base64url")}`;
+  const token: StoredApiToken = {
+    id: randomUUID(),
+    name: trimmed,
+    prefix: secret.slice(0, TOKEN_PREFIX_LENGTH),
+    createdAt: now,
+    lastUsedAt: null,
+    hash: hashSecret(secret),
+  };
+
+  writeTokens([...readTokens(), token]);
+  logger.info("Created API token", { id: token.id, name: token.name });
+  return { ok: true, token: toSummary(token), secret };
+};
+
+/**
+ * Delete a token; requests using it are rejected immediately
+ * @returns false when no token has that id
+ */
+export const revokeApiToken = (id: unknown): boolean => {
+  const tokens = readTokens();
+  const remaining = tokens.filter((token) => token.id !== id);
+  if (remaining.length === tokens.length) {
+    return false;
+  }
+  writeTokens(remaining);
+  logger.info("Revoked API token", { id });
+  return true;
+};
+
+/**
+ * Look up the token matching a presented secret
+ */
+export const verifyApiToken = (
+  secret: string,
+  now: number = Date.now(),
+): ApiTokenSummary | null => {
+  if (!secret.startsWith(TOKEN_SECRET_PREFIX)) {
+    return null;
+  }
+
+  const presented = Buffer.from(hashSecret(secret), "hex");
+  const tokens = readTokens();
+  const match = tokens.find((token) => {
+    const stored = Buffer.from(token.hash, "hex");
+    return (
+      stored.length === presented.length && timingSafeEqual(stored, presented)
+    );
+  });
+  if (!match) {
+    return null;
+  }
+
+  if (
+    match.lastUsedAt === null ||
+    now - match.lastUsedAt >= LAST_USED_WRITE_INTERVAL_MS
+  ) {
+    match.lastUsedAt = now;
+    writeTokens(tokens);
+  }
+  return toSummary(match);
+};
@@ -0,0 +1,138 @@
+import { Worker } from "node:worker_threads";
+import path from "path";
+import { parseBooleanFlag } from "../shared/env";
+import buildGuardrailOverridesFromRecord from "../shared/guardrails/overrides";
+import { WORKER_MESSAGES, type WorkerMessage } from "../shared/ipcChannels";
+import { getLogger, toErrorPayload } from "../shared/logger";
+import { captureException } from "./sentry";
+import {
+  type WorkerSupervisor,
+  type WorkerSupervisorState,
+  createWorkerSupervisor,
+} from "./workerSupervisor";
+
+type WorkerMessageListener = (message: WorkerMessage) => void;
+type WorkerStateListener = (state: WorkerSupervisorState) => void;
+
+const logger = getLogger("background-worker", "main");
+
+const WORKER_BUNDLE_FILES = {
+  packaged: "worker.js",
+  development: "worker.bundle.dev.js",
+} as const;
+
+/**
+ * Path of the worker bundle, which is emitted next to the main bundle in
+ * `directory`
+ */
+export const getWorkerEntrypoint = (
+  isPackaged: boolean,
+  directory: string,
+): string =>
+  path.join(
+    directory,
+    isPackaged ? WORKER_BUNDLE_FILES.packaged : WORKER_BUNDLE_FILES.development,
+  );
+
+export type BackgroundWorkerOptions = {
+  entrypoint: string;
+  /** Source of the guardrail overrides and debug flags handed to the worker */
+  env: Record<string, string | undefined>;
+};
+
+export type BackgroundWorker = WorkerSupervisor<Worker> & {
+  /**
+   * Every worker message except heartbeat pongs, plus a status message when
+   * the worker reports an error
+   * @returns A function that removes the listener
+   */
+  onMessage: (listener: WorkerMessageListener) => () => void;
+  /** @returns A function that removes the listener */
+  onStateChange: (listener: WorkerStateListener) => () => void;
+  /** Messages replayed to every worker that reports ready */
+  setReplayMessages: (provider: () => WorkerMessage[]) => void;
+};
+
+const subscribe = <T>(
+  listeners: Set<(value: T) => void>,
+  listener: (value: T) => void,
+): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = <T>(listeners: Set<(value: T) => void>, value: T): void => {
+  listeners.forEach((listener) => {
+    try {
+      listener(value);
+    } catch (error) {
+      logger.error("Background worker listener failed", toErrorPayload(error));
+    }
+  });
+};
+
+/**
+ * The supervised background worker. Listeners are registered after
+ * creation, so main can wire the worker before its handlers are defined.
+ */
+export const createBackgroundWorker = (
+  options: BackgroundWorkerOptions,
+): BackgroundWorker => {
+  const messageListeners = new Set<WorkerMessageListener>();
+  const stateListeners = new Set<WorkerStateListener>();
+  let getReplayMessages = (): WorkerMessage[] => [];
+
+  const spawn = (): Worker => {
+    const guardrailOverrides = buildGuardrailOverridesFromRecord(options.env);
+    const debugHeadPose = parseBooleanFlag(
+      options.env.POSELY_DEBUG_HEAD_POSE,
+      false,
+    );
+    const debugGuardrailsVerbose = parseBooleanFlag(
+      options.env.POSELY_DEBUG_GUARDRAILS_VERBOSE,
+      false,
+    );
+
+    try {
+      const worker = new Worker(options.entrypoint, {
+        workerData: {
+          guardrailOverrides,
+          debugHeadPose,
+          debugGuardrailsVerbose,
+        },
+      });
+      worker.on("error", (error) => {
+        logger.error("Worker process error", toErrorPayload(error));
+        captureException(error, { scope: "worker:error" });
+        notify(messageListeners, {
+          type: WORKER_MESSAGES.status,
+          payload: {
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      });
+      return worker;
+    } catch (error: unknown) {
+      captureException(error, { scope: "worker:start" });
+      throw error;
+    }
+  };
+
+  const supervisor = createWorkerSupervisor({
+    spawn,
+    onMessage: (message) => notify(messageListeners, message),
+    onStateChange: (state) => notify(stateListeners, state),
+    getReplayMessages: () => getReplayMessages(),
+  });
+
+  return {
+    ...supervisor,
+    onMessage: (listener) => subscribe(messageListeners, listener),
+    onStateChange: (listener) => subscribe(stateListeners, listener),
+    setReplayMessages: (provider) => {
+      getReplayMessages = provider;
+    },
+  };
+};
@@ -0,0 +1,197 @@
+import {
+  type BreakCycleConfig,
+  getBreakLengthMinutes,
+} from "../shared/breaks/breakCycle";
+import { getLogger } from "../shared/logger";
+import type { BreakCoachState, BreakEvent } from "../shared/types/breaks";
+import type { EngineTick } from "../shared/types/engine-output";
+
+const logger = getLogger("break-coach", "main");
+
+const MINUTE_IN_MS = 60_000;
+
+export type BreakCoachOptions = {
+  config: BreakCycleConfig;
+  /** A break came due; show the prompt */
+  onBreakDue: (breakMinutes: number) => void;
+  /** Count an event towards the day it happened on */
+  onEvent: (event: BreakEvent, at: number) => void;
+  onStateChange?: (state: BreakCoachState) => void;
+  /** Wall clock the whole cycle runs on */
+  now?: () => number;
+};
+
+export type BreakCoach = {
+  /** Advance the cycle with an engine tick */
+  handleTick: (tick: EngineTick) => void;
+  /** A guided stretch was finished: counts as a break taken */
+  completeStretch: () => void;
+  /** Skip the due break and start the next work period */
+  skipBreak: () => void;
+  /** Start over, e.g. when monitoring is paused */
+  reset: () => void;
+  setConfig: (config: BreakCycleConfig) => void;
+  getState: () => BreakCoachState;
+};
+
+/**
+ * Work/break cycle coach. Work time counts while the user is at the camera;
+ * when a break comes due it is prompted once, and stepping away for
+ * `absenceMinutes` (or finishing a guided stretch) counts as taking it. A due
+ * break still not taken when the next one would come due counts as skipped.
+ * Tick timestamps are monotonic rather than wall-clock time, so ticks only
+ * drive the cycle and every time in it comes from `now`.
+ */
+export const createBreakCoach = ({
+  config: initialConfig,
+  onBreakDue,
+  onEvent,
+  onStateChange,
+  now = Date.now,
+}: BreakCoachOptions): BreakCoach => {
+  let config = initialConfig;
+  let workStartedAt: number | null = null;
+  let breakDueAt: number | null = null;
+  let absentSince: number | null = null;
+  let isAway = false;
+  let completedBreaks = 0;
+
+  const getState = (): BreakCoachState => {
+    const breakMinutes = getBreakLengthMinutes(config, completedBreaks);
+    if (!config.enabled) {
+      return {
+        phase: "off",
+        workStartedAt: null,
+        nextBreakAt: null,
+        breakMinutes,
+        completedBreaks,
+      };
+    }
+    if (isAway || breakDueAt !== null) {
+      return {
+        phase: isAway ? "away" : "breakDue",
+        workStartedAt: null,
+        nextBreakAt: null,
+        breakMinutes,
+        completedBreaks,
+      };
+    }
+    return {
+      phase: "working",
+      workStartedAt,
+      nextBreakAt:
+        workStartedAt === null
+          ? null
+          : workStartedAt + config.workMinutes * MINUTE_IN_MS,
+      breakMinutes,
+      completedBreaks,
+    };
+  };
+
+  const notifyStateChange = () => {
+    onStateChange?.(getState());
+  };
+
+  const startWork = (timestamp: number | null) => {
+    workStartedAt = timestamp;
+    breakDueAt = null;
+    notifyStateChange();
+  };
+
+  const recordBreakTaken = (timestamp: number) => {
+    completedBreaks += 1;
+    onEvent("taken", timestamp);
+    logger.info("Break taken", { completedBreaks });
+  };
+
+  const handleAbsence = (timestamp: number) => {
+    if (absentSince === null) {
+      absentSince = timestamp;
+    }
+    if (
+      !isAway &&
+      timestamp - absentSince >= config.absenceMinutes * MINUTE_IN_MS
+    ) {
+      isAway = true;
+      recordBreakTaken(timestamp);
+      startWork(null);
+    }
+  };
+
+  const handlePresence = (timestamp: number) => {
+    absentSince = null;
+    if (isAway || workStartedAt === null) {
+      isAway = false;
+      startWork(timestamp);
+      return;
+    }
+
+    if (breakDueAt === null) {
+      if (timestamp - workStartedAt >= config.workMinutes * MINUTE_IN_MS) {
+        breakDueAt = timestamp;
+        onEvent("prompted", timestamp);
+        onBreakDue(getBreakLengthMinutes(config, completedBreaks));
+        notifyStateChange();
+      }
+      return;
+    }
+
+    // Ignored for a whole work period: the break was skipped
+    if (timestamp - breakDueAt >= config.workMinutes * MINUTE_IN_MS) {
+      onEvent("skipped", timestamp);
+      startWork(timestamp);
+    }
+  };
+
+  const handleTick = (tick: EngineTick): void => {
+    if (!config.enabled) {
+      return;
+    }
+    const timestamp = now();
+    if (tick.presence === "ABSENT") {
+      handleAbsence(timestamp);
+    } else {
+      handlePresence(timestamp);
+    }
+  };
+
+  const completeStretch = (): void => {
+    if (!config.enabled) {
+      return;
+    }
+    const timestamp = now();
+    onEvent("stretched", timestamp);
+    recordBreakTaken(timestamp);
+    startWork(timestamp);
+  };
+
+  const skipBreak = (): void => {
+    if (breakDueAt === null) {
+      return;
+    }
+    const timestamp = now();
+    onEvent("skipped", timestamp);
+    startWork(timestamp);
+  };
+
+  const reset = (): void => {
+    absentSince = null;
+    isAway = false;
+    startWork(null);
+  };
+
+  const setConfig = (next: BreakCycleConfig): void => {
+    config = next;
+    completedBreaks = 0;
+    reset();
+  };
+
+  return {
+    handleTick,
+    completeStretch,
+    skipBreak,
+    reset,
+    setConfig,
+    getState,
+  };
+};
@@ -0,0 +1,58 @@
+import { BrowserWindow } from "electron";
+import { toBreakCycleConfig } from "../shared/breaks/breakCycle";
+import { IPC_CHANNELS } from "../shared/ipcChannels";
+import { getLogger, toErrorPayload } from "../shared/logger";
+import { getSettingDefaults } from "../shared/settings/registry";
+import { toLocalDateString } from "../shared/time";
+import { type BreakCoach, createBreakCoach } from "./breakCoach";
+import { recordDailyBreakEvent } from "./database/dailyBreakRepository";
+import { showBreakNotification } from "./reminderNotifications";
+
+const logger = getLogger("break-coach-service", "main");
+
+export type BreakCoachServiceOptions = {
+  /** Breaks that come due while this returns true are not announced */
+  isHeld: (now: number) => boolean;
+  /** Open the guided stretch window from the break notification */
+  openStretchWindow: () => void;
+};
+
+/**
+ * Work/break cycles announced with a native notification, logged per day
+ * and pushed to every window. Starts with the default cycle; the stored one
+ * is applied with `setConfig` once settings are readable.
+ */
+export const createBreakCoachService = ({
+  isHeld,
+  openStretchWindow,
+}: BreakCoachServiceOptions): BreakCoach => {
+  const breakCoach = createBreakCoach({
+    config: toBreakCycleConfig(getSettingDefaults()),
+    onBreakDue: (breakMinutes) => {
+      if (isHeld(Date.now())) {
+        return;
+      }
+      showBreakNotification(breakMinutes, {
+        onStartStretch: openStretchWindow,
+        onSkip: () => breakCoach.skipBreak(),
+        onClick: openStretchWindow,
+      });
+    },
+    onEvent: (event, at) => {
+      try {
+        recordDailyBreakEvent(toLocalDateString(at), event);
+      } catch (error) {
+        logger.error("Failed to record break event", toErrorPayload(error));
+      }
+    },
+    onStateChange: (state) => {
+      BrowserWindow.getAllWindows().forEach((window) => {
+        if (!window.isDestroyed()) {
+          window.webContents.send(IPC_CHANNELS.breakCoachStateChanged, state);
+        }
+      });
+    },
+  });
+
+  return breakCoach;
+};
@@ -1,16 +1,12 @@
 import { shell, systemPreferences } from "electron";
 import { getLogger } from "../shared/logger";
+import type {
+  CameraPermissionResult,
+  OpenCameraSettingsResult,
+} from "../shared/types/camera";
 import { captureException } from "./sentry";
 
-export type CameraPermissionResult = {
-  granted: boolean;
-  error?: string;
-};
-
-export type OpenCameraSettingsResult = {
-  success: boolean;
-  error?: string;
-};
+export type { CameraPermissionResult, OpenCameraSettingsResult };
 
 const logger = getLogger("camera-permissions", "main");
 
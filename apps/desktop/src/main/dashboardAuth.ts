@@ -0,0 +1,70 @@
+export type DashboardAuthRequest = {
+  method: string;
+  /** Origin header, null for non-browser clients that do not send one */
+  origin: string | null;
+  authorization: string | null;
+  /** `?token=` query parameter, for clients such as EventSource that cannot set headers */
+  queryToken: string | null;
+  /** Routes such as the OpenAPI document that are served without a token */
+  isPublic?: boolean;
+};
+
+export type DashboardAuthOptions = {
+  allowedOrigins: readonly string[];
+  verifyToken: (secret: string) => boolean;
+};
+
+export type DashboardAuthResult =
+  | { ok: true; allowedOrigin: string | null }
+  | { ok: false; status: 401 | 403; error: string };
+
+const BEARER_PATTERN = /^Bearer\s+(\S+)$/i;
+
+export const readBearerToken = (authorization: string | null): string | null =>
+  authorization?.trim().match(BEARER_PATTERN)?.[1] ?? null;
+
+/**
+ * Decide whether a dashboard HTTP request may proceed.
+ * Browser requests must come from an allowlisted origin (403 otherwise) and
+ * every request except a CORS preflight or a public route needs a valid token
+ * (401 otherwise).
+ */
+export const authorizeDashboardRequest = (
+  request: DashboardAuthRequest,
+  { allowedOrigins, verifyToken }: DashboardAuthOptions,
+): DashboardAuthResult => {
+  if (request.origin !== null && !allowedOrigins.includes(request.origin)) {
+    return { ok: false, status: 403, error: "Origin not allowed" };
+  }
+
+  // Browsers never attach credentials to a preflight
+  if (request.method === "OPTIONS" || request.isPublic) {
+    return { ok: true, allowedOrigin: request.origin };
+  }
+
+  const token = readBearerToken(request.authorization) ?? request.queryToken;
+  if (!token) {
+    return { ok: false, status: 401, error: "Missing API token" };
+  }
+  if (!verifyToken(token)) {
+    return { ok: false, status: 401, error: "Invalid API token" };
+  }
+
+  return { ok: true, allowedOrigin: request.origin };
+};
+
+/**
+ * CORS headers for an authorised request; the allowed origin is echoed back
+ * instead of `*`
+ */
+export const buildCorsHeaders = (
+  allowedOrigin: string | null,
+): Record<string, string> =>
+  allowedOrigin
+    ? {
+        "Access-Control-Allow-Origin": allowedOrigin,
+        "Access-Control-Allow-Methods": "GET,POST,OPTIONS",
+        "Access-Control-Allow-Headers": "Authorization, Content-Type",
+        Vary: "Origin",
+      }
+    : { Vary: "Origin" };
@@ -0,0 +1,196 @@
+import type http from "node:http";
+import {
+  DASHBOARD_STREAM_EVENTS,
+  DASHBOARD_STREAM_HEARTBEAT_MS,
+  DASHBOARD_STREAM_MAX_TICK_INTERVAL_MS,
+  DASHBOARD_STREAM_MIN_TICK_INTERVAL_MS,
+  type DashboardStreamEvent,
+} from "../shared/config/dashboard";
+import { getLogger } from "../shared/logger";
+import { getSettingDefault } from "../shared/settings/registry";
+import type { EngineTick } from "../shared/types/engine";
+
+const logger = getLogger("dashboard-stream", "main");
+
+type StreamClient = {
+  id: number;
+  res: http.ServerResponse;
+  /** Per-client override from the query string, null to follow the setting */
+  tickIntervalMs: number | null;
+  lastTickSentAt: number | null;
+  /** Set while the socket buffer is full; events are dropped until drain */
+  blocked: boolean;
+};
+
+export type StreamTickIntervalResult =
+  | { ok: true; value: number | null }
+  | { ok: false; error: string };
+
+const clients = new Set<StreamClient>();
+let nextClientId = 1;
+let defaultTickIntervalMs = getSettingDefault("streamTickIntervalMs");
+let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Apply the `streamTickIntervalMs` setting to clients without an override
+ */
+export const setDashboardStreamTickInterval = (intervalMs: number): void => {
+  defaultTickIntervalMs = intervalMs;
+};
+
+/**
+ * Validate the optional `tickIntervalMs` query parameter
+ */
+export const parseStreamTickInterval = (
+  raw: string | null,
+): StreamTickIntervalResult => {
+  if (raw === null || raw === "") {
+    return { ok: true, value: null };
+  }
+  const value = Number(raw);
+  if (
+    !Number.isInteger(value) ||
+    value < DASHBOARD_STREAM_MIN_TICK_INTERVAL_MS ||
+    value > DASHBOARD_STREAM_MAX_TICK_INTERVAL_MS
+  ) {
+    return {
+      ok: false,
+      error: `tickIntervalMs must be an integer between ${DASHBOARD_STREAM_MIN_TICK_INTERVAL_MS} and ${DASHBOARD_STREAM_MAX_TICK_INTERVAL_MS}`,
+    };
+  }
+  return { ok: true, value };
+};
+
+const formatEvent = (event: DashboardStreamEvent, data: unknown): string =>
+  `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+const writeToClient = (client: StreamClient, chunk: string): boolean => {
+  if (client.blocked) {
+    return false;
+  }
+  if (!client.res.write(chunk)) {
+    client.blocked = true;
+    client.res.once("drain", () => {
+      client.blocked = false;
+    });
+  }
+  return true;
+};
+
+const stopHeartbeat = (): void => {
+  if (heartbeatTimer) {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+  }
+};
+
+const startHeartbeat = (): void => {
+  if (heartbeatTimer) {
+    return;
+  }
+  heartbeatTimer = setInterval(() => {
+    clients.forEach((client) => {
+      writeToClient(client, ": keep-alive\n\n");
+    });
+  }, DASHBOARD_STREAM_HEARTBEAT_MS);
+};
+
+/**
+ * Turn a GET request into an event stream and keep it until the client
+ * disconnects or the server stops
+ */
+export const openDashboardStream = (
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  tickIntervalMs: number | null,
+): void => {
+  const client: StreamClient = {
+    id: nextClientId,
+    res,
+    tickIntervalMs,
+    lastTickSentAt: null,
+    blocked: false,
+  };
+  nextClientId += 1;
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.write("retry: 3000\n\n");
+
+  clients.add(client);
+  startHeartbeat();
+  logger.info("Dashboard stream client connected", {
+    clientId: client.id,
+    tickIntervalMs,
+    clientCount: clients.size,
+  });
+
+  req.on("close", () => {
+    clients.delete(client);
+    if (clients.size === 0) {
+      stopHeartbeat();
+    }
+    logger.info("Dashboard stream client disconnected", {
+      clientId: client.id,
+      clientCount: clients.size,
+    });
+  });
+};
+
+/**
+ * Push an EngineTick to every client whose tick interval has elapsed
+ * Ticks arriving faster than a client's interval are dropped, not queued.
+ */
+export const publishDashboardStreamTick = (
+  tick: EngineTick,
+  now: number = Date.now(),
+): void => {
+  if (clients.size === 0) {
+    return;
+  }
+  const chunk = formatEvent(DASHBOARD_STREAM_EVENTS.tick, tick);
+  clients.forEach((client) => {
+    const intervalMs = client.tickIntervalMs ?? defaultTickIntervalMs;
+    if (
+      client.lastTickSentAt !== null &&
+      now - client.lastTickSentAt < intervalMs
+    ) {
+      return;
+    }
+    if (writeToClient(client, chunk)) {
+      client.lastTickSentAt = now;
+    }
+  });
+};
+
+/**
+ * Push a non-tick event (calibration, data updates) to every client
+ */
+export const publishDashboardStreamEvent = (
+  event: Exclude<DashboardStreamEvent, "tick">,
+  data: unknown = {},
+): void => {
+  if (clients.size === 0) {
+    return;
+  }
+  const chunk = formatEvent(event, data);
+  clients.forEach((client) => {
+    writeToClient(client, chunk);
+  });
+};
+
+export const getDashboardStreamClientCount = (): number => clients.size;
+
+/**
+ * End every open stream so the HTTP server can close
+ */
+export const closeDashboardStreams = (): void => {
+  clients.forEach((client) => {
+    client.res.end();
+  });
+  clients.clear();
+  stopHeartbeat();
+};
@@ -6,15 +6,33 @@ import {
   DASHBOARD_HTTP_ORIGIN_ENV_KEY,
 } from "../shared/config/dashboard";
 import { getLogger, toErrorPayload } from "../shared/logger";
+import { parseOriginList } from "../shared/validation/originList";
+import { createDashboardRoutes } from "./api/dashboardRoutes";
+import { createMetricsRoutes } from "./api/metricsRoutes";
 import {
-  getTodaySummary,
-  getWeeklySummary,
-} from "./database/dailyPostureRepository";
+  type ApiErrorCode,
+  type ApiResult,
+  createApiRouter,
+  runApiRoute,
+  toErrorEnvelope,
+} from "./api/router";
+import { type ApiV1Controls, createApiV1Routes } from "./api/v1Routes";
+import { verifyApiToken } from "./apiTokenService";
+import { authorizeDashboardRequest, buildCorsHeaders } from "./dashboardAuth";
+import { closeDashboardStreams } from "./dashboardEventStream";
+import { getSettingValue } from "./settingsService";
 
 const logger = getLogger("dashboard-http", "main");
 
 let server: http.Server | null = null;
 let activeOrigin: string | null = null;
+let apiControls: ApiV1Controls | null = null;
+
+const router = createApiRouter([
+  ...createDashboardRoutes(),
+  ...createMetricsRoutes(() => apiControls),
+  ...createApiV1Routes(() => apiControls),
+]);
 
 const setDashboardHttpOriginEnv = (origin: string): void => {
   Reflect.set(process.env, DASHBOARD_HTTP_ORIGIN_ENV_KEY, origin);
@@ -24,13 +42,55 @@ const clearDashboardHttpOriginEnv = (): void => {
   Reflect.deleteProperty(process.env, DASHBOARD_HTTP_ORIGIN_ENV_KEY);
 };
 
+/**
+ * Give `/api/v1` access to the live tick, pause state and calibration
+ * activation; until then those routes answer 503
+ */
+export const setDashboardApiControls = (
+  controls: ApiV1Controls | null,
+): void => {
+  apiControls = controls;
+};
+
 const buildHeaders = (): Record<string, string> => ({
   "Content-Type": "application/json",
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET,OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type",
 });
 
+const sendError = (
+  res: http.ServerResponse,
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  headers: Record<string, string> = {},
+): void => {
+  res.writeHead(status, { ...buildHeaders(), ...headers });
+  res.end(JSON.stringify(toErrorEnvelope(code, message)));
+};
+
+const sendResult = (res: http.ServerResponse, result: ApiResult): void => {
+  if (!result.ok) {
+    sendError(res, result.status, result.code, result.message);
+    return;
+  }
+  if ("streaming" in result) {
+    return;
+  }
+  if (result.contentType) {
+    res.writeHead(result.status ?? 200, {
+      "Content-Type": result.contentType,
+    });
+    res.end(String(result.body));
+    return;
+  }
+  res.writeHead(result.status ?? 200, buildHeaders());
+  res.end(JSON.stringify(result.body));
+};
+
+const readHeader = (req: http.IncomingMessage, name: string): string | null => {
+  const value = req.headers[name];
+  return typeof value === "string" ? value : null;
+};
+
 const parseConfiguredPort = (): {
   port: number;
   host: string;
@@ -81,76 +141,99 @@ const handleRequest = (
   res: http.ServerResponse<http.IncomingMessage>,
   port: number,
 ) => {
-  res.setHeader("Access-Control-Allow-Origin", "*");
-  res.setHeader("Access-Control-Allow-Methods", "GET,OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
-
-  if (req.method === "OPTIONS") {
-    res.writeHead(204);
-    res.end();
-    return;
-  }
-
   if (!req.url) {
-    res.writeHead(400, buildHeaders());
-    res.end(JSON.stringify({ error: "Missing request URL" }));
+    sendError(res, 400, "bad_request", "Missing request URL");
     return;
   }
 
   let pathname: string;
+  let searchParams: URLSearchParams;
   try {
     const parsedUrl = new URL(req.url, `http://localhost:${port}`);
     pathname = parsedUrl.pathname;
+    searchParams = parsedUrl.searchParams;
   } catch (error) {
     logger.warn("Invalid request URL received", {
       url: req.url,
       error: toErrorPayload(error),
     });
-    res.writeHead(400, buildHeaders());
-    res.end(JSON.stringify({ error: "Invalid request URL" }));
+    sendError(res, 400, "bad_request", "Invalid request URL");
     return;
   }
 
-  if (req.method !== "GET") {
-    res.writeHead(405, buildHeaders());
-    res.end(JSON.stringify({ error: "Method not allowed" }));
+  const method = req.method ?? "GET";
+  const match = router.match(method, pathname);
+
+  let auth: ReturnType<typeof authorizeDashboardRequest>;
+  try {
+    auth = authorizeDashboardRequest(
+      {
+        method,
+        origin: readHeader(req, "origin"),
+        authorization: readHeader(req, "authorization"),
+        queryToken: searchParams.get("token"),
+        isPublic: match.ok && match.route.public === true,
+      },
+      {
+        allowedOrigins: parseOriginList(getSettingValue("apiAllowedOrigins")),
+        verifyToken: (secret) => verifyApiToken(secret) !== null,
+      },
+    );
+  } catch (error) {
+    logger.error("Failed to authorize request", toErrorPayload(error));
+    sendError(res, 500, "internal_error", "Failed to authorize request");
     return;
   }
 
-  if (pathname === "/api/dashboard/daily-summary") {
-    try {
-      const summary = getTodaySummary();
-      res.writeHead(200, buildHeaders());
-      res.end(JSON.stringify(summary));
-    } catch (error) {
-      logger.error(
-        "Failed to handle daily summary request",
-        toErrorPayload(error),
-      );
-      res.writeHead(500, buildHeaders());
-      res.end(JSON.stringify({ error: "Failed to load daily summary" }));
-    }
+  if (!auth.ok) {
+    logger.warn("Rejected dashboard HTTP request", {
+      pathname,
+      status: auth.status,
+      error: auth.error,
+    });
+    sendError(
+      res,
+      auth.status,
+      auth.status === 401 ? "unauthorized" : "forbidden",
+      auth.error,
+      auth.status === 401
+        ? { "WWW-Authenticate": 'Bearer realm="posely"' }
+        : {},
+    );
     return;
   }
 
-  if (pathname === "/api/dashboard/weekly-summary") {
-    try {
-      const summary = getWeeklySummary();
-      res.writeHead(200, buildHeaders());
-      res.end(JSON.stringify(summary));
-    } catch (error) {
-      logger.error(
-        "Failed to handle weekly summary request",
-        toErrorPayload(error),
-      );
-      res.writeHead(500, buildHeaders());
-      res.end(JSON.stringify({ error: "Failed to load weekly summary" }));
+  Object.entries(buildCorsHeaders(auth.allowedOrigin)).forEach(
+    ([name, value]) => {
+      res.setHeader(name, value);
+    },
+  );
+
+  if (method === "OPTIONS") {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  if (!match.ok) {
+    if (match.status === 405) {
+      sendError(res, 405, "method_not_allowed", "Method not allowed", {
+        Allow: match.allowedMethods.join(", "),
+      });
+    } else {
+      sendError(res, 404, "not_found", "Not found");
     }
     return;
   }
 
-  res.writeHead(404, buildHeaders());
-  res.end(JSON.stringify({ error: "Not found" }));
+  const result = runApiRoute(match, searchParams, req, res, (error) => {
+    logger.error("Failed to handle dashboard HTTP request", {
+      pathname,
+      operationId: match.route.operationId,
+      ...toErrorPayload(error),
+    });
+  });
+  sendResult(res, result);
 };
 
 export const startDashboardHttpServer = (): void => {
@@ -209,6 +292,8 @@ export const stopDashboardHttpServer = (): void => {
   server = null;
   activeOrigin = null;
   clearDashboardHttpOriginEnv();
+  // Open event streams would otherwise keep close() waiting forever
+  closeDashboardStreams();
   serverToClose.close((error) => {
     if (error) {
       logger.warn(
@@ -37,6 +37,8 @@ describe("DailyPostureRepository", () => {
       set: vi.fn().mockReturnThis(),
       orderBy: vi.fn().mockReturnThis(),
       all: vi.fn(),
+      run: vi.fn(),
+      transaction: vi.fn((fn: (tx: unknown) => unknown) => fn(mockDb)),
     } as any;
 
     const clientModule = await import("../client.js");
@@ -119,6 +121,117 @@ describe("DailyPostureRepository", () => {
     });
   });
 
+  it("should evaluate the goal rule against accumulated totals", async () => {
+    const { upsertDailyPostureLog } = await import(
+      "../dailyPostureRepository.js"
+    );
+
+    (mockDb.get as any).mockReturnValueOnce({
+      id: 1,
+      date: "2025-11-02",
+      secondsInGreen: 1800,
+      secondsInYellow: 0,
+      secondsInRed: 0,
+      avgScore: 80,
+      sampleCount: 100,
+      meetsGoal: 0,
+    });
+    (mockDb.get as any).mockReturnValueOnce({});
+
+    upsertDailyPostureLog(
+      {
+        date: "2025-11-02",
+        secondsInGreen: 1800,
+        secondsInYellow: 0,
+        secondsInRed: 0,
+        avgScore: 80,
+        sampleCount: 100,
+        meetsGoal: 0,
+      },
+      {
+        minAvgScore: 70,
+        minMonitoredMinutes: 60,
+        maxRedMinutes: 1440,
+        restOnWeekends: false,
+      },
+    );
+
+    expect((mockDb as any).set).toHaveBeenCalledWith(
+      expect.objectContaining({ secondsInGreen: 3600, meetsGoal: 1 }),
+    );
+  });
+
+  describe("recomputeDailyGoals", () => {
+    it("should only update rows whose goal outcome changed", async () => {
+      const { recomputeDailyGoals } = await import(
+        "../dailyPostureRepository.js"
+      );
+
+      (mockDb.all as any).mockReturnValueOnce([
+        {
+          id: 1,
+          date: "2025-11-01",
+          secondsInGreen: 3600,
+          secondsInYellow: 0,
+          secondsInRed: 0,
+          avgScore: 72,
+          sampleCount: 100,
+          meetsGoal: 1,
+        },
+        {
+          id: 2,
+          date: "2025-11-02",
+          secondsInGreen: 3600,
+          secondsInYellow: 0,
+          secondsInRed: 0,
+          avgScore: 90,
+          sampleCount: 100,
+          meetsGoal: 1,
+        },
+      ]);
+
+      const changed = recomputeDailyGoals({
+        minAvgScore: 80,
+        minMonitoredMinutes: 0,
+        maxRedMinutes: 1440,
+        restOnWeekends: false,
+      });
+
+      expect(changed).toBe(1);
+      expect((mockDb as any).set).toHaveBeenCalledTimes(1);
+      expect((mockDb as any).set).toHaveBeenCalledWith({ meetsGoal: 0 });
+    });
+  });
+
+  describe("countStreak", () => {
+    // 2025-11-10 is a Monday
+    const logs = [
+      { date: "2025-11-10", meetsGoal: 1 },
+      { date: "2025-11-07", meetsGoal: 1 },
+      { date: "2025-11-06", meetsGoal: 1 },
+      { date: "2025-11-05", meetsGoal: 0 },
+    ];
+
+    it("should stop at the first day without a met goal", async () => {
+      const { countStreak } = await import("../dailyPostureRepository.js");
+
+      expect(countStreak(logs, "2025-11-10", { restOnWeekends: false })).toBe(
+        1,
+      );
+      expect(countStreak(logs, "2025-11-11", { restOnWeekends: false })).toBe(
+        0,
+      );
+    });
+
+    it("should skip weekends without breaking the streak on rest days", async () => {
+      const { countStreak } = await import("../dailyPostureRepository.js");
+
+      expect(countStreak(logs, "2025-11-10", { restOnWeekends: true })).toBe(3);
+      // A Sunday with no data still carries Friday's streak
+      expect(countStreak(logs, "2025-11-09", { restOnWeekends: true })).toBe(2);
+    });
+  });
+
   describe("getDailyPostureLogByDate", () => {
     it("should return record when date exists", async () => {
       const { getDailyPostureLogByDate } = await import("../dailyPostureRepository.js");
@@ -0,0 +1,66 @@
+-- Posely database as created by client.ts before schema_migrations existed
+-- and before daily_posture_logs gained the meets_goal column.
+
+CREATE TABLE calibration_baselines (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  created_at INTEGER NOT NULL,
+  detector TEXT NOT NULL,
+  keypoints_json TEXT NOT NULL
+);
+
+CREATE TABLE posture_calibration (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL DEFAULT 1,
+  baseline_pitch REAL NOT NULL,
+  baseline_ehd REAL NOT NULL,
+  baseline_dpr REAL NOT NULL,
+  quality INTEGER NOT NULL,
+  sample_count INTEGER NOT NULL,
+  sensitivity TEXT NOT NULL DEFAULT 'medium',
+  custom_pitch_threshold REAL,
+  custom_ehd_threshold REAL,
+  custom_dpr_threshold REAL,
+  calibrated_at INTEGER NOT NULL,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+  updated_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now'))
+);
+
+CREATE INDEX posture_calibration_user_active_idx
+  ON posture_calibration(user_id, is_active);
+
+CREATE INDEX posture_calibration_calibrated_at_idx
+  ON posture_calibration(calibrated_at);
+
+CREATE TABLE daily_posture_logs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  date TEXT NOT NULL UNIQUE,
+  seconds_in_green INTEGER NOT NULL DEFAULT 0,
+  seconds_in_yellow INTEGER NOT NULL DEFAULT 0,
+  seconds_in_red INTEGER NOT NULL DEFAULT 0,
+  avg_score REAL NOT NULL DEFAULT 0,
+  sample_count INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE settings (
+  key TEXT PRIMARY KEY NOT NULL,
+  value TEXT NOT NULL
+);
+
+INSERT INTO calibration_baselines (created_at, detector, keypoints_json)
+VALUES (1730000000000, 'mediapipe', '[]');
+
+INSERT INTO posture_calibration (
+  user_id, baseline_pitch, baseline_ehd, baseline_dpr, quality, sample_count,
+  sensitivity, calibrated_at, is_active, created_at, updated_at
+) VALUES (1, 12.5, 0.18, 1.02, 88, 150, 'medium', 1762160400, 1, 1762160400, 1762160400);
+
+INSERT INTO daily_posture_logs (
+  date, seconds_in_green, seconds_in_yellow, seconds_in_red, avg_score, sample_count
+) VALUES
+  ('2025-11-02', 3600, 600, 300, 82.5, 4500),
+  ('2025-11-03', 1200, 900, 1500, 55.0, 3600);
+
+INSERT INTO settings (key, value) VALUES
+  ('sensitivity', '65'),
+  ('launchAtStartup', 'true');
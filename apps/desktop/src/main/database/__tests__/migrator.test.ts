@@ -0,0 +1,176 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MIGRATIONS } from "../migrations.js";
+import { getAppliedMigrationVersions, runMigrations } from "../migrator.js";
+
+// Mock logger
+vi.mock("../../../shared/logger.js", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+const FIXTURE_PATH = path.join(__dirname, "fixtures", "legacy-unversioned.sql");
+
+const LATEST_VERSION = Math.max(
+  ...MIGRATIONS.map((migration) => migration.version),
+);
+
+const getColumns = (sqlite: Database.Database, table: string): string[] =>
+  (
+    sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]
+  ).map((column) => column.name);
+
+describe("Database migrator", () => {
+  let tempDir: string;
+  let databasePath: string;
+  let sqlite: Database.Database | null;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "posely-migrator-"));
+    databasePath = path.join(tempDir, "posely.sqlite");
+    sqlite = null;
+  });
+
+  afterEach(() => {
+    sqlite?.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const openLegacyFixture = (): Database.Database => {
+    const legacy = new Database(databasePath);
+    legacy.exec(fs.readFileSync(FIXTURE_PATH, "utf-8"));
+    legacy.close();
+    return new Database(databasePath);
+  };
+
+  it("creates every table on a fresh database without a backup", () => {
+    sqlite = new Database(databasePath);
+
+    const result = runMigrations(sqlite, { databasePath });
+
+    expect(result).toEqual({
+      fromVersion: 0,
+      toVersion: LATEST_VERSION,
+      applied: MIGRATIONS.map((migration) => migration.version),
+      backupPath: null,
+    });
+    expect(getColumns(sqlite, "daily_posture_logs")).toContain("meets_goal");
+    expect(getColumns(sqlite, "posture_timeline")).toContain("bucket_start");
+    expect(getColumns(sqlite, "daily_break_logs")).toContain("breaks_taken");
+    expect(fs.readdirSync(tempDir).some((file) => file.endsWith(".bak"))).toBe(
+      false,
+    );
+  });
+
+  it("upgrades a legacy database fixture and keeps its data", () => {
+    sqlite = openLegacyFixture();
+
+    const result = runMigrations(sqlite, {
+      databasePath,
+      now: () => new Date("2025-11-04T08:30:00.000Z"),
+    });
+
+    expect(result.fromVersion).toBe(0);
+    expect(result.toVersion).toBe(LATEST_VERSION);
+    expect(getAppliedMigrationVersions(sqlite)).toEqual(
+      MIGRATIONS.map((migration) => migration.version),
+    );
+
+    expect(getColumns(sqlite, "daily_posture_logs")).toContain("meets_goal");
+    expect(
+      sqlite
+        .prepare(
+          "SELECT date, avg_score, meets_goal FROM daily_posture_logs ORDER BY date",
+        )
+        .all(),
+    ).toEqual([
+      { date: "2025-11-02", avg_score: 82.5, meets_goal: 0 },
+      { date: "2025-11-03", avg_score: 55, meets_goal: 0 },
+    ]);
+    expect(
+      sqlite.prepare("SELECT COUNT(*) AS count FROM posture_calibration").get(),
+    ).toEqual({ count: 1 });
+    expect(
+      sqlite
+        .prepare(
+          "SELECT id, name, is_active, camera_key FROM monitoring_profiles ORDER BY id",
+        )
+        .all(),
+    ).toEqual([{ id: 1, name: "Desk", is_active: 1, camera_key: null }]);
+    expect(
+      sqlite
+        .prepare("SELECT profile_id, camera_key FROM posture_calibration")
+        .all(),
+    ).toEqual([{ profile_id: 1, camera_key: null }]);
+    expect(
+      sqlite
+        .prepare("SELECT value FROM settings WHERE key = ?")
+        .get("sensitivity"),
+    ).toEqual({ value: "65" });
+
+    expect(result.backupPath).toBe(`${databasePath}.v0-20251104T083000.bak`);
+    const backup = new Database(result.backupPath as string, {
+      readonly: true,
+    });
+    try {
+      expect(getColumns(backup, "daily_posture_logs")).not.toContain(
+        "meets_goal",
+      );
+      expect(
+        backup
+          .prepare("SELECT COUNT(*) AS count FROM daily_posture_logs")
+          .get(),
+      ).toEqual({ count: 2 });
+    } finally {
+      backup.close();
+    }
+  });
+
+  it("is a no-op once the database is up to date", () => {
+    sqlite = openLegacyFixture();
+    runMigrations(sqlite, { databasePath });
+
+    const result = runMigrations(sqlite, { databasePath });
+
+    expect(result).toEqual({
+      fromVersion: LATEST_VERSION,
+      toVersion: LATEST_VERSION,
+      applied: [],
+      backupPath: null,
+    });
+  });
+
+  it("rolls back a failing migration and leaves earlier ones applied", () => {
+    sqlite = new Database(databasePath);
+    const migrations = [
+      ...MIGRATIONS,
+      {
+        version: LATEST_VERSION + 1,
+        name: "broken",
+        up: (db: Database.Database) => {
+          db.exec("CREATE TABLE half_done (id INTEGER)");
+          throw new Error("boom");
+        },
+      },
+    ];
+
+    expect(() =>
+      runMigrations(sqlite as Database.Database, { migrations }),
+    ).toThrow("boom");
+    expect(getAppliedMigrationVersions(sqlite)).toEqual(
+      MIGRATIONS.map((migration) => migration.version),
+    );
+    expect(
+      sqlite
+        .prepare("SELECT name FROM sqlite_master WHERE name = 'half_done'")
+        .get(),
+    ).toBeUndefined();
+  });
+});
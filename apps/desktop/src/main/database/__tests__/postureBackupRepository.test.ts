@@ -0,0 +1,523 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { PostureExportDocument } from "../../../shared/types/export.js";
+
+// Mock the database client
+vi.mock("../client.js", () => ({
+  getDatabase: vi.fn(),
+  initializeDatabase: vi.fn(),
+}));
+
+// Mock logger
+vi.mock("../../../shared/logger.js", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+const createDailyLog = (overrides = {}) => ({
+  date: "2025-11-03",
+  secondsInGreen: 600,
+  secondsInYellow: 300,
+  secondsInRed: 100,
+  avgScore: 80,
+  sampleCount: 1000,
+  meetsGoal: 1,
+  ...overrides,
+});
+
+// Every day in these tests meets it
+const LENIENT_RULE = {
+  minAvgScore: 0,
+  minMonitoredMinutes: 0,
+  maxRedMinutes: 24 * 60,
+  restOnWeekends: false,
+};
+
+const createDocument = (
+  overrides: Partial<PostureExportDocument> = {},
+): PostureExportDocument => ({
+  schemaVersion: 3,
+  exportedAt: "2025-11-04T00:00:00.000Z",
+  range: { from: null, to: null },
+  dailyLogs: [],
+  profiles: [],
+  profileDailyLogs: [],
+  calibrations: [],
+  settings: {},
+  ...overrides,
+});
+
+const createMockDb = () => {
+  const db = {
+    select: vi.fn().mockReturnThis(),
+    from: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    get: vi.fn(),
+    all: vi.fn(),
+    insert: vi.fn().mockReturnThis(),
+    values: vi.fn().mockReturnThis(),
+    update: vi.fn().mockReturnThis(),
+    set: vi.fn().mockReturnThis(),
+    run: vi.fn(() => ({ lastInsertRowid: 10 })),
+    transaction: vi.fn(),
+  };
+  db.transaction.mockImplementation((fn: (tx: typeof db) => unknown) => fn(db));
+  return db;
+};
+
+describe("PostureBackupRepository", () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    mockDb = createMockDb();
+
+    const clientModule = await import("../client.js");
+    vi.mocked(clientModule.getDatabase).mockReturnValue(mockDb as never);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("mergeDailyPostureLog", () => {
+    it("keeps the row with more samples for max-samples", async () => {
+      const { mergeDailyPostureLog } = await import(
+        "../postureBackupRepository.js"
+      );
+      const existing = createDailyLog();
+
+      expect(
+        mergeDailyPostureLog(
+          existing,
+          createDailyLog({ sampleCount: 500, avgScore: 40 }),
+          "max-samples",
+          LENIENT_RULE,
+        ),
+      ).toEqual(existing);
+      expect(
+        mergeDailyPostureLog(
+          existing,
+          createDailyLog({ sampleCount: 2000, avgScore: 40 }),
+          "max-samples",
+          LENIENT_RULE,
+        ),
+      ).toMatchObject({ sampleCount: 2000, avgScore: 40 });
+    });
+
+    it("sums durations and weights the score for sum", async () => {
+      const { mergeDailyPostureLog } = await import(
+        "../postureBackupRepository.js"
+      );
+
+      const merged = mergeDailyPostureLog(
+        createDailyLog(),
+        createDailyLog({ avgScore: 50, sampleCount: 3000, meetsGoal: 0 }),
+        "sum",
+      );
+
+      expect(merged).toEqual({
+        date: "2025-11-03",
+        secondsInGreen: 1200,
+        secondsInYellow: 600,
+        secondsInRed: 200,
+        avgScore: 57.5,
+        sampleCount: 4000,
+        meetsGoal: 0,
+      });
+    });
+
+    it("replaces the row for overwrite", async () => {
+      const { mergeDailyPostureLog } = await import(
+        "../postureBackupRepository.js"
+      );
+
+      const incoming = createDailyLog({ sampleCount: 10, avgScore: 20 });
+      expect(
+        mergeDailyPostureLog(
+          createDailyLog(),
+          incoming,
+          "overwrite",
+          LENIENT_RULE,
+        ),
+      ).toEqual(incoming);
+    });
+
+    it("re-checks the goal of the kept row against the current rule", async () => {
+      const { mergeDailyPostureLog } = await import(
+        "../postureBackupRepository.js"
+      );
+      const strictRule = { ...LENIENT_RULE, minAvgScore: 90 };
+
+      expect(
+        mergeDailyPostureLog(
+          createDailyLog(),
+          createDailyLog({ sampleCount: 2000, meetsGoal: 1 }),
+          "overwrite",
+          strictRule,
+        ),
+      ).toMatchObject({ sampleCount: 2000, meetsGoal: 0 });
+      expect(
+        mergeDailyPostureLog(
+          createDailyLog({ meetsGoal: 0 }),
+          createDailyLog({ sampleCount: 10 }),
+          "max-samples",
+          LENIENT_RULE,
+        ),
+      ).toMatchObject({ sampleCount: 1000, meetsGoal: 1 });
+      expect(
+        mergeDailyPostureLog(
+          createDailyLog(),
+          createDailyLog({ sampleCount: 10 }),
+          "max-samples",
+          strictRule,
+        ),
+      ).toMatchObject({ sampleCount: 1000, meetsGoal: 0 });
+    });
+  });
+
+  describe("resolveActiveCalibrations", () => {
+    it("keeps the newest active row and falls back to the newest row", async () => {
+      const { resolveActiveCalibrations } = await import(
+        "../postureBackupRepository.js"
+      );
+
+      const active = resolveActiveCalibrations([
+        {
+          id: 1,
+          userId: 1,
+          calibratedAt: 100,
+          isActive: true,
+          storedActive: true,
+        },
+        {
+          id: 2,
+          userId: 1,
+          calibratedAt: 300,
+          isActive: false,
+          storedActive: false,
+        },
+        {
+          id: 3,
+          userId: 1,
+          calibratedAt: 200,
+          isActive: true,
+          storedActive: false,
+        },
+        {
+          id: 4,
+          userId: 2,
+          calibratedAt: 50,
+          isActive: false,
+          storedActive: false,
+        },
+        {
+          id: 5,
+          userId: 2,
+          calibratedAt: 80,
+          isActive: false,
+          storedActive: false,
+        },
+      ]);
+
+      expect(active.get(1)?.id).toBe(3);
+      expect(active.get(2)?.id).toBe(5);
+    });
+  });
+
+  describe("restorePostureBackup", () => {
+    it("reports a diff without writing on dry run", async () => {
+      const { restorePostureBackup } = await import(
+        "../postureBackupRepository.js"
+      );
+      mockDb.get
+        .mockReturnValueOnce(undefined)
+        .mockReturnValueOnce({ id: 1, ...createDailyLog() });
+      mockDb.all.mockReturnValue([]);
+
+      const diff = restorePostureBackup(
+        createDocument({
+          dailyLogs: [
+            createDailyLog({ date: "2025-11-02" }),
+            createDailyLog({ sampleCount: 10 }),
+          ],
+          calibrations: [
+            {
+              id: 7,
+              userId: 1,
+              baselinePitch: 10,
+              baselineEHD: 0.2,
+              baselineDPR: 1,
+              quality: 90,
+              sampleCount: 120,
+              sensitivity: "medium",
+              customPitchThreshold: null,
+              customEHDThreshold: null,
+              customDPRThreshold: null,
+              calibratedAt: "2025-11-03T09:00:00.000Z",
+              isActive: true,
+              createdAt: "2025-11-03T09:00:00.000Z",
+              updatedAt: "2025-11-03T09:00:00.000Z",
+            },
+          ],
+        }),
+        "max-samples",
+        true,
+      );
+
+      expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+      expect(diff).toEqual({
+        dailyLogs: {
+          inserted: ["2025-11-02"],
+          updated: [],
+          unchanged: ["2025-11-03"],
+        },
+        profileDailyLogs: { inserted: 0, updated: 0, unchanged: 0 },
+        calibrations: {
+          inserted: 1,
+          skipped: 0,
+          activeCalibratedAt: Date.parse("2025-11-03T09:00:00.000Z"),
+        },
+      });
+      expect(mockDb.insert).not.toHaveBeenCalled();
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it("checks inserted days against the current goal rule", async () => {
+      const { restorePostureBackup } = await import(
+        "../postureBackupRepository.js"
+      );
+      mockDb.get.mockReturnValue(undefined);
+      mockDb.all.mockReturnValue([]);
+
+      restorePostureBackup(
+        createDocument({
+          dailyLogs: [
+            createDailyLog({ date: "2025-11-02", meetsGoal: 1 }),
+            createDailyLog({ avgScore: 95, meetsGoal: 0 }),
+          ],
+        }),
+        "sum",
+        false,
+        { ...LENIENT_RULE, minAvgScore: 90 },
+      );
+
+      expect(mockDb.values.mock.calls.map(([values]) => values)).toEqual([
+        expect.objectContaining({ date: "2025-11-02", meetsGoal: 0 }),
+        expect.objectContaining({ date: "2025-11-03", meetsGoal: 1 }),
+      ]);
+    });
+
+    it("skips known calibrations and keeps exactly one active", async () => {
+      const { restorePostureBackup } = await import(
+        "../postureBackupRepository.js"
+      );
+      const calibratedAt = new Date("2025-11-01T09:00:00.000Z");
+      mockDb.all.mockReturnValue([
+        { id: 1, userId: 1, profileId: 1, calibratedAt, isActive: true },
+      ]);
+
+      const calibration = {
+        id: 1,
+        userId: 1,
+        baselinePitch: 10,
+        baselineEHD: 0.2,
+        baselineDPR: 1,
+        quality: 90,
+        sampleCount: 120,
+        sensitivity: "medium" as const,
+        customPitchThreshold: null,
+        customEHDThreshold: null,
+        customDPRThreshold: null,
+        isActive: true,
+        createdAt: "2025-11-01T09:00:00.000Z",
+        updatedAt: "2025-11-01T09:00:00.000Z",
+      };
+
+      const diff = restorePostureBackup(
+        createDocument({
+          calibrations: [
+            { ...calibration, calibratedAt: calibratedAt.toISOString() },
+            {
+              ...calibration,
+              id: 2,
+              calibratedAt: "2025-11-05T09:00:00.000Z",
+            },
+          ],
+        }),
+        "sum",
+        false,
+      );
+
+      expect(diff.calibrations).toEqual({
+        inserted: 1,
+        skipped: 1,
+        activeCalibratedAt: Date.parse("2025-11-05T09:00:00.000Z"),
+      });
+      expect(mockDb.values).toHaveBeenCalledWith(
+        expect.objectContaining({ isActive: false }),
+      );
+      // Previously active row is deactivated, imported row becomes active
+      expect(mockDb.set).toHaveBeenCalledWith(
+        expect.objectContaining({ isActive: false }),
+      );
+      expect(mockDb.set).toHaveBeenCalledWith(
+        expect.objectContaining({ isActive: true }),
+      );
+      expect(mockDb.update).toHaveBeenCalledTimes(2);
+    });
+
+    it("maps backup profiles to local profiles instead of reusing their IDs", async () => {
+      const { restorePostureBackup } = await import(
+        "../postureBackupRepository.js"
+      );
+      // Local IDs 2 and 3 collide with unrelated backup profiles
+      mockDb.all
+        .mockReturnValueOnce([
+          { id: 1, name: "Default", cameraKey: null },
+          { id: 2, name: "Office", cameraKey: "usb:1111:2222" },
+          { id: 3, name: "Desk", cameraKey: "usb:046d:085c" },
+          { id: 4, name: "Laptop", cameraKey: "builtin:facetime" },
+        ])
+        .mockReturnValueOnce([]);
+
+      const calibration = {
+        userId: 1,
+        baselinePitch: 10,
+        baselineEHD: 0.2,
+        baselineDPR: 1,
+        quality: 90,
+        sampleCount: 120,
+        sensitivity: "medium" as const,
+        customPitchThreshold: null,
+        customEHDThreshold: null,
+        customDPRThreshold: null,
+        isActive: true,
+        cameraKey: null,
+        createdAt: "2025-11-01T09:00:00.000Z",
+        updatedAt: "2025-11-01T09:00:00.000Z",
+      };
+
+      restorePostureBackup(
+        createDocument({
+          profiles: [
+            {
+              id: 2,
+              name: "Standing desk",
+              performanceMode: "balanced",
+              cameraKey: "usb:046d:085c",
+            },
+            {
+              id: 3,
+              name: "Laptop",
+              performanceMode: "battery",
+              cameraKey: null,
+            },
+            {
+              id: 4,
+              name: "Kitchen",
+              performanceMode: "balanced",
+              cameraKey: "usb:9999:0001",
+            },
+          ],
+          calibrations: [
+            {
+              ...calibration,
+              id: 1,
+              profileId: 2,
+              calibratedAt: "2025-11-01T09:00:00.000Z",
+            },
+            {
+              ...calibration,
+              id: 2,
+              profileId: 3,
+              calibratedAt: "2025-11-02T09:00:00.000Z",
+            },
+            {
+              ...calibration,
+              id: 3,
+              profileId: 4,
+              calibratedAt: "2025-11-03T09:00:00.000Z",
+            },
+            {
+              ...calibration,
+              id: 4,
+              profileId: 7,
+              calibratedAt: "2025-11-04T09:00:00.000Z",
+            },
+          ],
+        }),
+        "sum",
+        false,
+      );
+
+      // Camera key match, name match, then unmatched and unknown profiles
+      expect(
+        mockDb.values.mock.calls.map(([values]) => values.profileId),
+      ).toEqual([3, 4, 1, 1]);
+    });
+
+    it("restores per-profile days under the matching local profile", async () => {
+      const { restorePostureBackup } = await import(
+        "../postureBackupRepository.js"
+      );
+      mockDb.all
+        .mockReturnValueOnce([
+          { id: 1, name: "Default", cameraKey: null },
+          { id: 3, name: "Desk", cameraKey: "usb:046d:085c" },
+        ])
+        .mockReturnValueOnce([]);
+      const { meetsGoal: _meetsGoal, ...totals } = createDailyLog();
+      mockDb.get
+        .mockReturnValueOnce(undefined)
+        .mockReturnValueOnce({ id: 5, profileId: 3, ...totals });
+
+      const diff = restorePostureBackup(
+        createDocument({
+          profiles: [
+            {
+              id: 2,
+              name: "Standing desk",
+              performanceMode: "balanced",
+              cameraKey: "usb:046d:085c",
+            },
+            {
+              id: 4,
+              name: "Desk",
+              performanceMode: "balanced",
+              cameraKey: null,
+            },
+          ],
+          profileDailyLogs: [
+            { ...totals, date: "2025-11-02", profileId: 2 },
+            { ...totals, profileId: 2 },
+            // Maps to the same local profile and merges with the row
+            // inserted above
+            { ...totals, date: "2025-11-02", profileId: 4 },
+          ],
+        }),
+        "sum",
+        false,
+      );
+
+      expect(diff.profileDailyLogs).toEqual({
+        inserted: 1,
+        updated: 2,
+        unchanged: 0,
+      });
+      expect(mockDb.values).toHaveBeenCalledWith({
+        ...totals,
+        date: "2025-11-02",
+        profileId: 3,
+      });
+      expect(mockDb.set).toHaveBeenCalledWith(
+        expect.objectContaining({ secondsInGreen: 1200, sampleCount: 2000 }),
+      );
+      expect(mockDb.get).toHaveBeenCalledTimes(2);
+    });
+  });
+});
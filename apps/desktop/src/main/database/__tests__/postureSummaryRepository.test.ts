@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { DailySummary } from "../dailyPostureRepository.js";
+
+const getDailyPostureLogsInRange = vi.fn();
+
+vi.mock("../dailyPostureRepository.js", () => ({
+  getDailyPostureLogsInRange,
+}));
+
+vi.mock("../../../shared/logger.js", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+const createLog = (
+  date: string,
+  overrides: Partial<DailySummary> = {},
+): DailySummary => ({
+  date,
+  secondsInGreen: 3600,
+  secondsInYellow: 600,
+  secondsInRed: 300,
+  avgScore: 80,
+  sampleCount: 100,
+  meetsGoal: 1,
+  ...overrides,
+});
+
+describe("PostureSummaryRepository", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("summarizeDailyLogs", () => {
+    it("weights the score by samples and counts goal-met days", async () => {
+      const { summarizeDailyLogs } = await import(
+        "../postureSummaryRepository.js"
+      );
+
+      const summary = summarizeDailyLogs(
+        [
+          createLog("2025-11-01", { avgScore: 90, sampleCount: 300 }),
+          createLog("2025-11-02", {
+            avgScore: 50,
+            sampleCount: 100,
+            meetsGoal: 0,
+          }),
+          createLog("2025-12-01"),
+        ],
+        "2025-11-01",
+        "2025-11-30",
+      );
+
+      expect(summary).toEqual({
+        from: "2025-11-01",
+        to: "2025-11-30",
+        daysWithData: 2,
+        goalMetDays: 1,
+        avgScore: 80,
+        sampleCount: 400,
+        secondsInGreen: 7200,
+        secondsInYellow: 1200,
+        secondsInRed: 600,
+        monitoredSeconds: 9000,
+      });
+    });
+
+    it("returns zeros for an empty range", async () => {
+      const { summarizeDailyLogs } = await import(
+        "../postureSummaryRepository.js"
+      );
+
+      expect(summarizeDailyLogs([], "2025-11-01", "2025-11-07")).toMatchObject({
+        daysWithData: 0,
+        avgScore: 0,
+        monitoredSeconds: 0,
+      });
+    });
+  });
+
+  describe("findBestStreak", () => {
+    const logs = [
+      createLog("2025-11-03"),
+      createLog("2025-11-04"),
+      createLog("2025-11-05", { meetsGoal: 0 }),
+      createLog("2025-11-06"),
+      createLog("2025-11-07"),
+      // 2025-11-08/09 is a weekend without data
+      createLog("2025-11-10"),
+    ];
+
+    it("returns the longest run with its dates", async () => {
+      const { findBestStreak } = await import("../postureSummaryRepository.js");
+
+      expect(findBestStreak(logs, { restOnWeekends: false })).toEqual({
+        length: 2,
+        startDate: "2025-11-03",
+        endDate: "2025-11-04",
+      });
+      expect(findBestStreak([], { restOnWeekends: false })).toEqual({
+        length: 0,
+        startDate: null,
+        endDate: null,
+      });
+    });
+
+    it("bridges rest days without counting them", async () => {
+      const { findBestStreak } = await import("../postureSummaryRepository.js");
+
+      expect(findBestStreak(logs, { restOnWeekends: true })).toEqual({
+        length: 3,
+        startDate: "2025-11-06",
+        endDate: "2025-11-10",
+      });
+    });
+  });
+
+  describe("getYearSummary", () => {
+    it("rolls the year up by calendar month", async () => {
+      getDailyPostureLogsInRange.mockReturnValue([
+        createLog("2024-02-29"),
+        createLog("2024-11-03", { meetsGoal: 0 }),
+        createLog("2024-11-04"),
+      ]);
+      const { getYearSummary } = await import("../postureSummaryRepository.js");
+
+      const summary = getYearSummary(2024);
+
+      expect(getDailyPostureLogsInRange).toHaveBeenCalledWith(
+        "2024-01-01",
+        "2024-12-31",
+      );
+      expect(summary.period).toBe("2024");
+      expect(summary.daysWithData).toBe(3);
+      expect(summary.months).toHaveLength(12);
+      expect(summary.months[1]).toMatchObject({
+        period: "2024-02",
+        from: "2024-02-01",
+        to: "2024-02-29",
+        daysWithData: 1,
+      });
+      expect(summary.months[10]).toMatchObject({
+        period: "2024-11",
+        daysWithData: 2,
+        goalMetDays: 1,
+      });
+    });
+  });
+
+  describe("getWeekOverWeekSummary", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("compares the last 7 days with the week before", async () => {
+      getDailyPostureLogsInRange.mockReturnValue([
+        createLog("2025-11-01", { avgScore: 60, secondsInRed: 900 }),
+        createLog("2025-11-10", { avgScore: 85 }),
+        createLog("2025-11-14", { avgScore: 75 }),
+      ]);
+      const { getWeekOverWeekSummary } = await import(
+        "../postureSummaryRepository.js"
+      );
+
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date(2025, 10, 14, 12));
+
+      const comparison = getWeekOverWeekSummary();
+
+      expect(getDailyPostureLogsInRange).toHaveBeenCalledWith(
+        "2025-11-01",
+        "2025-11-14",
+      );
+      expect(comparison.current).toMatchObject({
+        from: "2025-11-08",
+        to: "2025-11-14",
+        daysWithData: 2,
+      });
+      expect(comparison.previous).toMatchObject({
+        from: "2025-11-01",
+        to: "2025-11-07",
+        daysWithData: 1,
+      });
+      expect(comparison.delta).toEqual({
+        avgScore: 20,
+        monitoredSeconds: 3900,
+        secondsInRed: -300,
+        goalMetDays: 1,
+      });
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { PostureTimelineBucket } from "../postureTimelineRepository.js";
+
+// Mock the database client
+vi.mock("../client.js", () => ({
+  getDatabase: vi.fn(),
+  initializeDatabase: vi.fn(),
+}));
+
+// Mock logger
+vi.mock("../../../shared/logger.js", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+const createBucket = (
+  overrides: Partial<PostureTimelineBucket> = {},
+): PostureTimelineBucket => ({
+  bucketStart: new Date(2025, 10, 3, 14, 5).getTime(),
+  bucketSeconds: 60,
+  date: "2025-11-03",
+  secondsInGreen: 30,
+  secondsInYellow: 20,
+  secondsInRed: 10,
+  secondsPresent: 60,
+  secondsReliable: 60,
+  avgScore: 80,
+  minScore: 55,
+  avgPitchDeg: 10,
+  avgEhdNorm: 0.1,
+  avgDpr: 1,
+  sampleCount: 60,
+  ...overrides,
+});
+
+const createMockDb = () => ({
+  select: vi.fn().mockReturnThis(),
+  from: vi.fn().mockReturnThis(),
+  where: vi.fn().mockReturnThis(),
+  get: vi.fn(),
+  insert: vi.fn().mockReturnThis(),
+  values: vi.fn().mockReturnThis(),
+  returning: vi.fn().mockReturnThis(),
+  update: vi.fn().mockReturnThis(),
+  set: vi.fn().mockReturnThis(),
+  orderBy: vi.fn().mockReturnThis(),
+  all: vi.fn(),
+});
+
+describe("PostureTimelineRepository", () => {
+  let mockDb: ReturnType<typeof createMockDb>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    mockDb = createMockDb();
+
+    const clientModule = await import("../client.js");
+    vi.mocked(clientModule.getDatabase).mockReturnValue(mockDb as never);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("mergeTimelineBuckets", () => {
+    it("sums durations and weights averages by sample count", async () => {
+      const { mergeTimelineBuckets } = await import(
+        "../postureTimelineRepository.js"
+      );
+
+      const merged = mergeTimelineBuckets(
+        createBucket(),
+        createBucket({
+          secondsInGreen: 0,
+          secondsInYellow: 0,
+          secondsInRed: 30,
+          secondsPresent: 30,
+          secondsReliable: 20,
+          avgScore: 50,
+          minScore: 40,
+          avgPitchDeg: 20,
+          sampleCount: 20,
+        }),
+      );
+
+      expect(merged.secondsInRed).toBe(40);
+      expect(merged.secondsPresent).toBe(90);
+      expect(merged.secondsReliable).toBe(80);
+      expect(merged.sampleCount).toBe(80);
+      expect(merged.avgScore).toBeCloseTo((80 * 60 + 50 * 20) / 80);
+      expect(merged.avgPitchDeg).toBeCloseTo((10 * 60 + 20 * 20) / 80);
+      expect(merged.minScore).toBe(40);
+    });
+
+    it("keeps the known minimum when one side has no samples", async () => {
+      const { mergeTimelineBuckets } = await import(
+        "../postureTimelineRepository.js"
+      );
+
+      const merged = mergeTimelineBuckets(
+        createBucket({ minScore: null, sampleCount: 0, avgScore: 0 }),
+        createBucket({ minScore: 62, sampleCount: 10, avgScore: 70 }),
+      );
+
+      expect(merged.minScore).toBe(62);
+      expect(merged.avgScore).toBe(70);
+    });
+  });
+
+  describe("rollupTimelineBuckets", () => {
+    it("groups minute buckets into local hour buckets", async () => {
+      const { rollupTimelineBuckets } = await import(
+        "../postureTimelineRepository.js"
+      );
+
+      const rolled = rollupTimelineBuckets([
+        createBucket({ bucketStart: new Date(2025, 10, 3, 15, 1).getTime() }),
+        createBucket({ bucketStart: new Date(2025, 10, 3, 14, 5).getTime() }),
+        createBucket({
+          bucketStart: new Date(2025, 10, 3, 14, 59).getTime(),
+          minScore: 30,
+        }),
+      ]);
+
+      expect(rolled).toHaveLength(2);
+      expect(rolled[0]).toMatchObject({
+        bucketStart: new Date(2025, 10, 3, 14, 0).getTime(),
+        bucketSeconds: 3600,
+        date: "2025-11-03",
+        secondsPresent: 120,
+        sampleCount: 120,
+        minScore: 30,
+      });
+      expect(rolled[1]).toMatchObject({
+        bucketStart: new Date(2025, 10, 3, 15, 0).getTime(),
+        sampleCount: 60,
+      });
+    });
+  });
+
+  describe("upsertPostureTimelineBucket", () => {
+    it("inserts a new bucket when none exists", async () => {
+      const { upsertPostureTimelineBucket } = await import(
+        "../postureTimelineRepository.js"
+      );
+      const bucket = createBucket();
+
+      mockDb.get.mockReturnValueOnce(undefined);
+      mockDb.get.mockReturnValueOnce({ id: 1, ...bucket });
+
+      const result = upsertPostureTimelineBucket(bucket);
+
+      expect(result).toEqual({ id: 1, ...bucket });
+      expect(mockDb.insert).toHaveBeenCalled();
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it("accumulates into an existing bucket", async () => {
+      const { upsertPostureTimelineBucket } = await import(
+        "../postureTimelineRepository.js"
+      );
+      const bucket = createBucket();
+
+      mockDb.get.mockReturnValueOnce({ id: 7, ...bucket });
+      mockDb.get.mockReturnValueOnce({ id: 7 });
+
+      upsertPostureTimelineBucket(bucket);
+
+      expect(mockDb.update).toHaveBeenCalled();
+      expect(mockDb.set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          secondsPresent: 120,
+          sampleCount: 120,
+          avgScore: 80,
+        }),
+      );
+    });
+  });
+
+  describe("buildPostureHeatmap", () => {
+    it("groups buckets by local weekday and hour", async () => {
+      const { buildPostureHeatmap } = await import(
+        "../postureTimelineRepository.js"
+      );
+
+      // 2025-11-04 and 2025-11-11 are both Tuesdays
+      const heatmap = buildPostureHeatmap([
+        createBucket({
+          bucketStart: new Date(2025, 10, 4, 14, 5).getTime(),
+          date: "2025-11-04",
+          avgScore: 60,
+          secondsInRed: 120,
+        }),
+        createBucket({
+          bucketStart: new Date(2025, 10, 11, 14, 30).getTime(),
+          date: "2025-11-11",
+          avgScore: 80,
+          secondsInRed: 0,
+        }),
+        createBucket({
+          bucketStart: new Date(2025, 10, 3, 9, 0).getTime(),
+          date: "2025-11-03",
+        }),
+      ]);
+
+      expect(heatmap).toHaveLength(2);
+      expect(heatmap[0]).toMatchObject({ weekday: 1, hour: 9, dayCount: 1 });
+      expect(heatmap[1]).toMatchObject({
+        weekday: 2,
+        hour: 14,
+        avgScore: 70,
+        avgRedMinutes: 1,
+        sampleCount: 120,
+        dayCount: 2,
+      });
+    });
+
+    it("skips buckets without any monitored data", async () => {
+      const { buildPostureHeatmap } = await import(
+        "../postureTimelineRepository.js"
+      );
+
+      const heatmap = buildPostureHeatmap([
+        createBucket({ sampleCount: 0, secondsInRed: 0 }),
+      ]);
+
+      expect(heatmap).toEqual([]);
+    });
+  });
+});
@@ -26,6 +26,7 @@ type BaselineRow = {
 type PostureRow = {
   id: number;
   userId: number;
+  profileId: number;
   baselinePitch: number;
   baselineEHD: number;
   baselineDPR: number;
@@ -251,6 +252,7 @@ vi.mock("./client", () => {
               const row: PostureRow = {
                 id: nextId,
                 userId: (value.userId as number | undefined) ?? 1,
+                profileId: (value.profileId as number | undefined) ?? 1,
                 baselinePitch: value.baselinePitch as number,
                 baselineEHD: value.baselineEHD as number,
                 baselineDPR: value.baselineDPR as number,
@@ -520,4 +522,26 @@ describe("calibrationRepository", () => {
       expect(historyTwo[0].userId).toBe(2);
     }
   });
+
+  it("keeps one active calibration per monitoring profile", () => {
+    const desk = savePostureCalibration(
+      createPosturePayload({ calibratedAt: 1_700_000_070_000, profileId: 1 }),
+    );
+    const standing = savePostureCalibration(
+      createPosturePayload({ calibratedAt: 1_700_000_080_000, profileId: 2 }),
+    );
+    const standingNewer = savePostureCalibration(
+      createPosturePayload({ calibratedAt: 1_700_000_090_000, profileId: 2 }),
+    );
+
+    expect(getActivePostureCalibration(1, 1)?.id).toBe(desk.id);
+    expect(getActivePostureCalibration(1, 2)?.id).toBe(standingNewer.id);
+
+    markPostureCalibrationActive(standing.id, 1, 2);
+    expect(getActivePostureCalibration(1, 2)?.id).toBe(standing.id);
+    expect(getActivePostureCalibration(1, 1)?.id).toBe(desk.id);
+
+    expect(listPostureCalibrations(1, 10, 2)).toHaveLength(2);
+    expect(listPostureCalibrations(1)).toHaveLength(3);
+  });
 });
@@ -7,6 +7,7 @@ import type {
   PostureCalibrationPayload,
   PostureCalibrationRecord,
 } from "../../shared/types/calibration";
+import { DEFAULT_MONITORING_PROFILE_ID } from "../../shared/types/profiles";
 import { initializeDatabase } from "./client";
 import {
   type PostureCalibrationRow,
@@ -86,6 +87,8 @@ const parsePostureCalibrationRow = (
   return {
     id: row.id,
     userId: row.userId,
+    profileId: row.profileId,
+    cameraKey: row.cameraKey ?? null,
     baselinePitch: row.baselinePitch,
     baselineEHD: row.baselineEHD,
     baselineDPR: row.baselineDPR,
@@ -111,7 +114,7 @@ const parsePostureCalibrationRow = (
   };
 };
 
-const getPostureCalibrationById = (
+export const getPostureCalibrationById = (
   id: number,
 ): PostureCalibrationRecord | null => {
   const db = initializeDatabase();
@@ -148,6 +151,7 @@ export const savePostureCalibration = (
   const db = initializeDatabase();
   const now = new Date();
   const userId = payload.userId ?? 1;
+  const profileId = payload.profileId ?? DEFAULT_MONITORING_PROFILE_ID;
   const isActive = payload.isActive ?? true;
   const sensitivity = payload.sensitivity ?? "medium";
   const custom = normaliseCustomThresholds(payload.customThresholds);
@@ -159,6 +163,8 @@ export const savePostureCalibration = (
     .insert(postureCalibration)
     .values({
       userId,
+      profileId,
+      cameraKey: payload.cameraKey ?? null,
       baselinePitch: payload.baselinePitch,
       baselineEHD: payload.baselineEHD,
       baselineDPR: payload.baselineDPR,
@@ -186,6 +192,7 @@ export const savePostureCalibration = (
       .where(
         and(
           eq(postureCalibration.userId, userId),
+          eq(postureCalibration.profileId, profileId),
           not(eq(postureCalibration.id, newId)),
         ),
       )
@@ -207,8 +214,13 @@ export const savePostureCalibration = (
   return inserted;
 };
 
+/**
+ * Active calibration of a monitoring profile, falling back to the profile's
+ * most recent one
+ */
 export const getActivePostureCalibration = (
   userId = 1,
+  profileId = DEFAULT_MONITORING_PROFILE_ID,
 ): PostureCalibrationRecord | null => {
   const db = initializeDatabase();
   const activeRow = db
@@ -217,6 +229,7 @@ export const getActivePostureCalibration = (
     .where(
       and(
         eq(postureCalibration.userId, userId),
+        eq(postureCalibration.profileId, profileId),
         eq(postureCalibration.isActive, true),
       ),
     )
@@ -230,22 +243,39 @@ export const getActivePostureCalibration = (
   const latestRow = db
     .select()
     .from(postureCalibration)
-    .where(eq(postureCalibration.userId, userId))
+    .where(
+      and(
+        eq(postureCalibration.userId, userId),
+        eq(postureCalibration.profileId, profileId),
+      ),
+    )
     .orderBy(desc(postureCalibration.calibratedAt))
     .limit(1)
     .get();
   return parsePostureCalibrationRow(latestRow);
 };
 
+/**
+ * Most recent calibrations, across every monitoring profile unless
+ * `profileId` is given
+ */
 export const listPostureCalibrations = (
   userId = 1,
   limit = 10,
+  profileId?: number,
 ): PostureCalibrationRecord[] => {
   const db = initializeDatabase();
   const rows = db
     .select()
     .from(postureCalibration)
-    .where(eq(postureCalibration.userId, userId))
+    .where(
+      profileId === undefined
+        ? eq(postureCalibration.userId, userId)
+        : and(
+            eq(postureCalibration.userId, userId),
+            eq(postureCalibration.profileId, profileId),
+          ),
+    )
     .orderBy(desc(postureCalibration.calibratedAt))
     .limit(limit)
     .all();
@@ -277,9 +307,14 @@ export const updatePostureCalibrationSensitivity = (
   return getPostureCalibrationById(calibrationId);
 };
 
+/**
+ * Make a calibration the active one of its monitoring profile; calibrations
+ * of other profiles keep their active flag
+ */
 export const markPostureCalibrationActive = (
   calibrationId: number,
   userId: number,
+  profileId = DEFAULT_MONITORING_PROFILE_ID,
 ): void => {
   const db = initializeDatabase();
   const now = new Date();
@@ -292,6 +327,7 @@ export const markPostureCalibrationActive = (
     .where(
       and(
         eq(postureCalibration.userId, userId),
+        eq(postureCalibration.profileId, profileId),
         not(eq(postureCalibration.id, calibrationId)),
       ),
     )
@@ -2,14 +2,34 @@
  * Daily posture tracking constants
  */
 
-/**
- * Streak threshold: minimum average score required to count a day as "goal met"
- * If a day's avgScore >= STREAK_THRESHOLD, meetsGoal = 1, otherwise 0
- */
-export const STREAK_THRESHOLD = 70;
-
 /**
  * Maximum number of days to query when calculating streak
  * Prevents performance degradation with large historical datasets
  */
 export const MAX_STREAK_DAYS = 365;
+
+/**
+ * Width of a fine-grained posture timeline bucket, in seconds
+ */
+export const TIMELINE_MINUTE_BUCKET_SECONDS = 60;
+
+/**
+ * Width of a rolled-up posture timeline bucket, in seconds
+ */
+export const TIMELINE_HOUR_BUCKET_SECONDS = 3600;
+
+/**
+ * Minute-level timeline rows older than this are rolled up into hourly rows
+ */
+export const TIMELINE_MINUTE_RETENTION_DAYS = 30;
+
+/**
+ * Hourly timeline rows older than this are deleted
+ * Daily totals remain available in daily_posture_logs
+ */
+export const TIMELINE_HOUR_RETENTION_DAYS = 365;
+
+/**
+ * Finished webhook deliveries older than this are deleted from the delivery log
+ */
+export const WEBHOOK_DELIVERY_RETENTION_DAYS = 30;
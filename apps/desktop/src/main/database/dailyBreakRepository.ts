@@ -0,0 +1,78 @@
+import { and, eq, gte, lte, sql } from "drizzle-orm";
+import { getLogger } from "../../shared/logger";
+import type { BreakEvent, DailyBreakSummary } from "../../shared/types/breaks";
+import { getDatabase } from "./client";
+import { type DailyBreakLogRow, dailyBreakLogs } from "./schema";
+
+const logger = getLogger("daily-break-repository", "main");
+
+// Counter column bumped by each event
+const COUNTER_COLUMNS: Record<
+  BreakEvent,
+  "breaksPrompted" | "breaksTaken" | "breaksSkipped" | "stretchesCompleted"
+> = {
+  prompted: "breaksPrompted",
+  taken: "breaksTaken",
+  skipped: "breaksSkipped",
+  stretched: "stretchesCompleted",
+};
+
+const mapRowToDailyBreakSummary = (
+  row: DailyBreakLogRow,
+): DailyBreakSummary => ({
+  date: row.date,
+  prompted: row.breaksPrompted,
+  taken: row.breaksTaken,
+  skipped: row.breaksSkipped,
+  stretched: row.stretchesCompleted,
+});
+
+/**
+ * Count one break coach event on a day (local date, YYYY-MM-DD)
+ */
+export const recordDailyBreakEvent = (
+  date: string,
+  event: BreakEvent,
+): DailyBreakSummary => {
+  const db = getDatabase();
+  const column = COUNTER_COLUMNS[event];
+
+  try {
+    db.insert(dailyBreakLogs)
+      .values({ date })
+      .onConflictDoNothing({ target: dailyBreakLogs.date })
+      .run();
+    const row = db
+      .update(dailyBreakLogs)
+      .set({ [column]: sql`${dailyBreakLogs[column]} + 1` })
+      .where(eq(dailyBreakLogs.date, date))
+      .returning()
+      .get();
+    return mapRowToDailyBreakSummary(row);
+  } catch (error) {
+    logger.error(
+      `Failed to record break event: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+    throw error;
+  }
+};
+
+/**
+ * Days with break activity between two dates (inclusive, YYYY-MM-DD),
+ * oldest first
+ */
+export const getDailyBreakLogsInRange = (
+  from: string,
+  to: string,
+): DailyBreakSummary[] => {
+  const db = getDatabase();
+  return db
+    .select()
+    .from(dailyBreakLogs)
+    .where(and(gte(dailyBreakLogs.date, from), lte(dailyBreakLogs.date, to)))
+    .orderBy(dailyBreakLogs.date)
+    .all()
+    .map(mapRowToDailyBreakSummary);
+};
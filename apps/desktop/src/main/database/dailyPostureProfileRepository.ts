@@ -0,0 +1,173 @@
+import { and, eq, gte, lte } from "drizzle-orm";
+import { getLogger } from "../../shared/logger";
+import {
+  DEFAULT_POSTURE_GOAL_RULE,
+  type PostureGoalRule,
+  meetsPostureGoal,
+} from "../../shared/posture/postureGoal";
+import { addDaysToLocalDate, getTodayLocalDate } from "../../shared/time";
+import type { DailySummary } from "../../shared/types/summary";
+import { getDatabase } from "./client";
+import {
+  type DailyPostureProfileLogRow,
+  type NewDailyPostureProfileLogRow,
+  dailyPostureProfileLogs,
+} from "./schema";
+
+const logger = getLogger("daily-posture-profile-repository", "main");
+
+/**
+ * meetsGoal is not stored per profile; it is evaluated against `rule` when
+ * the rows are read so goal changes apply without a recompute
+ */
+const mapRowToDailySummary = (
+  row: DailyPostureProfileLogRow,
+  rule: PostureGoalRule,
+): DailySummary => ({
+  date: row.date,
+  secondsInGreen: row.secondsInGreen,
+  secondsInYellow: row.secondsInYellow,
+  secondsInRed: row.secondsInRed,
+  avgScore: row.avgScore,
+  sampleCount: row.sampleCount,
+  meetsGoal: meetsPostureGoal(row, rule) ? 1 : 0,
+});
+
+/**
+ * Insert or accumulate one profile's share of a day
+ */
+export const upsertDailyPostureProfileLog = (
+  data: NewDailyPostureProfileLogRow,
+): DailyPostureProfileLogRow => {
+  const db = getDatabase();
+  const where = and(
+    eq(dailyPostureProfileLogs.date, data.date),
+    eq(dailyPostureProfileLogs.profileId, data.profileId),
+  );
+
+  try {
+    const existing = db
+      .select()
+      .from(dailyPostureProfileLogs)
+      .where(where)
+      .get();
+
+    if (!existing) {
+      return db.insert(dailyPostureProfileLogs).values(data).returning().get();
+    }
+
+    const sampleCount = existing.sampleCount + (data.sampleCount ?? 0);
+    const avgScore =
+      sampleCount > 0
+        ? (existing.avgScore * existing.sampleCount +
+            (data.avgScore ?? 0) * (data.sampleCount ?? 0)) /
+          sampleCount
+        : existing.avgScore;
+
+    return db
+      .update(dailyPostureProfileLogs)
+      .set({
+        secondsInGreen: existing.secondsInGreen + (data.secondsInGreen ?? 0),
+        secondsInYellow: existing.secondsInYellow + (data.secondsInYellow ?? 0),
+        secondsInRed: existing.secondsInRed + (data.secondsInRed ?? 0),
+        avgScore,
+        sampleCount,
+      })
+      .where(where)
+      .returning()
+      .get();
+  } catch (error) {
+    logger.error(
+      `Failed to upsert daily posture profile log: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+    throw error;
+  }
+};
+
+/**
+ * One profile's days between two dates (inclusive, YYYY-MM-DD), oldest first
+ */
+export const getDailyPostureProfileLogsInRange = (
+  profileId: number,
+  from: string,
+  to: string,
+  rule: PostureGoalRule = DEFAULT_POSTURE_GOAL_RULE,
+): DailySummary[] => {
+  const db = getDatabase();
+  return db
+    .select()
+    .from(dailyPostureProfileLogs)
+    .where(
+      and(
+        eq(dailyPostureProfileLogs.profileId, profileId),
+        gte(dailyPostureProfileLogs.date, from),
+        lte(dailyPostureProfileLogs.date, to),
+      ),
+    )
+    .orderBy(dailyPostureProfileLogs.date)
+    .all()
+    .map((row) => mapRowToDailySummary(row, rule));
+};
+
+/**
+ * Every profile's days with optional inclusive date bounds, ordered by date
+ * and profile, for exports
+ */
+export const listDailyPostureProfileLogs = (
+  from: string | null,
+  to: string | null,
+): DailyPostureProfileLogRow[] => {
+  const db = getDatabase();
+  const conditions = [
+    from ? gte(dailyPostureProfileLogs.date, from) : undefined,
+    to ? lte(dailyPostureProfileLogs.date, to) : undefined,
+  ].filter((condition) => condition !== undefined);
+
+  try {
+    return db
+      .select()
+      .from(dailyPostureProfileLogs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(dailyPostureProfileLogs.date, dailyPostureProfileLogs.profileId)
+      .all();
+  } catch (error) {
+    logger.error(
+      `Failed to list daily posture profile logs: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+    throw error;
+  }
+};
+
+/**
+ * Today's totals for one profile, without a streak (streaks are not tracked
+ * per profile)
+ */
+export const getProfileTodaySummary = (
+  profileId: number,
+  rule: PostureGoalRule = DEFAULT_POSTURE_GOAL_RULE,
+): DailySummary | null => {
+  const today = getTodayLocalDate();
+  return (
+    getDailyPostureProfileLogsInRange(profileId, today, today, rule)[0] ?? null
+  );
+};
+
+/**
+ * The last 7 days (including today) for one profile, oldest first
+ */
+export const getProfileWeeklySummary = (
+  profileId: number,
+  rule: PostureGoalRule = DEFAULT_POSTURE_GOAL_RULE,
+): DailySummary[] => {
+  const today = getTodayLocalDate();
+  return getDailyPostureProfileLogsInRange(
+    profileId,
+    addDaysToLocalDate(today, -6),
+    today,
+    rule,
+  );
+};
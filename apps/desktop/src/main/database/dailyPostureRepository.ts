@@ -1,5 +1,13 @@
 import { and, desc, eq, gte, lte } from "drizzle-orm";
 import { getLogger } from "../../shared/logger";
+import {
+  DEFAULT_POSTURE_GOAL_RULE,
+  type PostureGoalRule,
+  isPostureRestDay,
+  meetsPostureGoal,
+} from "../../shared/posture/postureGoal";
+import { addDaysToLocalDate, getTodayLocalDate } from "../../shared/time";
+import type { DailySummary } from "../../shared/types/summary";
 import { getDatabase, initializeDatabase } from "./client";
 import { MAX_STREAK_DAYS } from "./constants";
 import {
@@ -10,16 +18,7 @@ import {
 
 const logger = getLogger("daily-posture-repository", "main");
 
-export type DailySummary = {
-  date: string;
-  secondsInGreen: number;
-  secondsInYellow: number;
-  secondsInRed: number;
-  avgScore: number;
-  sampleCount: number;
-  meetsGoal: number; // 1 if avgScore >= 70, else 0
-  streak?: number; // Optional: daily streak count
-};
+export type { DailySummary };
 
 export type DailyPostureUpdate = {
   date: string;
@@ -28,7 +27,7 @@ export type DailyPostureUpdate = {
   secondsInRed: number;
   avgScore: number;
   sampleCount: number;
-  meetsGoal: number; // 1 if avgScore >= 70, else 0
+  meetsGoal: number; // 1 if the day met the goal rule, else 0
 };
 
 type DailyPostureRow = typeof dailyPostureLogs.$inferSelect;
@@ -76,30 +75,12 @@ export const getDailySummary = (date: string): DailySummary | null => {
 };
 
 /**
- * Get date string for N days ago in YYYY-MM-DD format
+ * Insert or accumulate a daily log
+ * When `rule` is given, meetsGoal is evaluated against the accumulated totals
  */
-export const getDateStringDaysAgo = (daysAgo: number): string => {
-  const date = new Date();
-  date.setDate(date.getDate() - daysAgo);
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
-};
-
-/**
- * Get the current date in YYYY-MM-DD format
- */
-export const getTodayDateString = (): string => {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = String(now.getMonth() + 1).padStart(2, "0");
-  const day = String(now.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
-};
-
 export const upsertDailyPostureLog = (
   data: NewDailyPostureLogRow,
+  rule?: PostureGoalRule,
 ): DailyPostureLogRow => {
   const db = getDatabase();
 
@@ -124,15 +105,21 @@ export const upsertDailyPostureLog = (
           newSampleCount;
       }
 
+      const totals = {
+        secondsInGreen: existing.secondsInGreen + (data.secondsInGreen ?? 0),
+        secondsInYellow: existing.secondsInYellow + (data.secondsInYellow ?? 0),
+        secondsInRed: existing.secondsInRed + (data.secondsInRed ?? 0),
+        avgScore: newAvgScore,
+      };
+
       const updated = db
         .update(dailyPostureLogs)
         .set({
-          secondsInGreen: existing.secondsInGreen + (data.secondsInGreen ?? 0),
-          secondsInYellow:
-            existing.secondsInYellow + (data.secondsInYellow ?? 0),
-          secondsInRed: existing.secondsInRed + (data.secondsInRed ?? 0),
-          avgScore: newAvgScore,
+          ...totals,
           sampleCount: newSampleCount,
+          ...(rule
+            ? { meetsGoal: meetsPostureGoal(totals, rule) ? 1 : 0 }
+            : {}),
         })
         .where(eq(dailyPostureLogs.date, data.date))
         .returning()
@@ -146,7 +133,24 @@ export const upsertDailyPostureLog = (
       // Insert new record
       const inserted = db
         .insert(dailyPostureLogs)
-        .values(data)
+        .values(
+          rule
+            ? {
+                ...data,
+                meetsGoal: meetsPostureGoal(
+                  {
+                    secondsInGreen: data.secondsInGreen ?? 0,
+                    secondsInYellow: data.secondsInYellow ?? 0,
+                    secondsInRed: data.secondsInRed ?? 0,
+                    avgScore: data.avgScore ?? 0,
+                  },
+                  rule,
+                )
+                  ? 1
+                  : 0,
+              }
+            : data,
+        )
         .returning()
         .get();
 
@@ -187,71 +191,139 @@ export const getDailyPostureLogByDate = (
 };
 
 /**
- * Calculate daily streak: consecutive days where meetsGoal = 1
- * Counts backwards from today until a day with meetsGoal = 0 is found
- * Returns 0 if no days meet the goal or if today doesn't meet the goal
+ * Get daily logs between two dates (inclusive, YYYY-MM-DD)
+ * Either bound may be null to leave that side of the range open
+ * Returns summaries sorted by date (oldest first)
  */
-export const calculateStreak = (): number => {
+export const getDailyPostureLogsInRange = (
+  from: string | null,
+  to: string | null,
+): DailySummary[] => {
   const db = initializeDatabase();
-  const today = getTodayDateString();
+  const conditions = [
+    from ? gte(dailyPostureLogs.date, from) : undefined,
+    to ? lte(dailyPostureLogs.date, to) : undefined,
+  ].filter((condition) => condition !== undefined);
 
-  // Get all logs ordered by date descending (most recent first)
-  // Limit to prevent performance degradation with large datasets
-  const allLogs = db
-    .select()
-    .from(dailyPostureLogs)
-    .orderBy(desc(dailyPostureLogs.date))
-    .limit(MAX_STREAK_DAYS)
-    .all();
+  try {
+    const rows = db
+      .select()
+      .from(dailyPostureLogs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(dailyPostureLogs.date)
+      .all();
 
-  // If no logs exist, streak is 0
-  if (allLogs.length === 0) {
-    return 0;
+    return rows.map(mapRowToDailySummary);
+  } catch (error) {
+    logger.error(
+      `Failed to get daily posture logs in range: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+    throw error;
   }
+};
 
-  // Check if today exists and meets the goal
-  const todayLog = allLogs.find((log) => log.date === today);
-  if (!todayLog || todayLog.meetsGoal === 0) {
-    return 0; // Streak broken or no data for today
+/**
+ * Re-evaluate meetsGoal for every stored day after the goal rule changed
+ * @returns Number of rows whose meetsGoal flipped
+ */
+export const recomputeDailyGoals = (rule: PostureGoalRule): number => {
+  const db = getDatabase();
+
+  try {
+    const changed = db.transaction((tx) => {
+      let count = 0;
+      tx.select()
+        .from(dailyPostureLogs)
+        .all()
+        .forEach((row) => {
+          const meetsGoal = meetsPostureGoal(row, rule) ? 1 : 0;
+          if (meetsGoal === row.meetsGoal) {
+            return;
+          }
+          tx.update(dailyPostureLogs)
+            .set({ meetsGoal })
+            .where(eq(dailyPostureLogs.id, row.id))
+            .run();
+          count += 1;
+        });
+      return count;
+    });
+
+    logger.info(`Recomputed daily goals: ${changed} day(s) changed`);
+    return changed;
+  } catch (error) {
+    logger.error(
+      `Failed to recompute daily goals: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+    throw error;
   }
+};
 
-  // Count consecutive CALENDAR days from today backwards where meetsGoal = 1
-  // We check each expected date one by one
-  let streak = 1; // Start with today
+/**
+ * Count consecutive days meeting the goal, walking backwards from `today`
+ * (pure helper)
+ * Rest days that miss the goal are skipped without breaking or extending the
+ * streak. A non-rest day that misses the goal (or has no data) ends it, so the
+ * streak is 0 until today meets the goal.
+ */
+export const countStreak = (
+  logs: Pick<DailySummary, "date" | "meetsGoal">[],
+  today: string,
+  rule: Pick<PostureGoalRule, "restOnWeekends"> = DEFAULT_POSTURE_GOAL_RULE,
+): number => {
+  const metByDate = new Map(logs.map((log) => [log.date, log.meetsGoal === 1]));
+
+  let streak = 0;
   let currentDate = today;
 
-  // Keep checking previous days
-  while (true) {
-    // Calculate the previous day
-    const date = new Date(currentDate);
-    date.setDate(date.getDate() - 1);
-    const previousDate = date.toISOString().split("T")[0] as string;
-
-    // Look for this date in the logs
-    const log = allLogs.find((l) => l.date === previousDate);
-
-    // If date not found or doesn't meet goal, streak ends
-    if (!log || log.meetsGoal === 0) {
+  for (let checked = 0; checked < MAX_STREAK_DAYS; checked += 1) {
+    if (metByDate.get(currentDate)) {
+      streak += 1;
+    } else if (!isPostureRestDay(currentDate, rule)) {
       break;
     }
-
-    // Date found and meets goal, continue streak
-    streak += 1;
-    currentDate = previousDate;
+    currentDate = addDaysToLocalDate(currentDate, -1);
   }
 
   return streak;
 };
 
+/**
+ * Calculate daily streak: consecutive days where meetsGoal = 1
+ * Counts backwards from today until a non-rest day with meetsGoal = 0 is found
+ * Returns 0 if no days meet the goal or if today doesn't meet the goal
+ */
+export const calculateStreak = (
+  rule: Pick<PostureGoalRule, "restOnWeekends"> = DEFAULT_POSTURE_GOAL_RULE,
+): number => {
+  const db = initializeDatabase();
+
+  // Limit to prevent performance degradation with large datasets
+  const recentLogs = db
+    .select()
+    .from(dailyPostureLogs)
+    .orderBy(desc(dailyPostureLogs.date))
+    .limit(MAX_STREAK_DAYS)
+    .all();
+
+  return countStreak(recentLogs, getTodayLocalDate(), rule);
+};
+
 /**
  * Get today's summary
  */
-export const getTodaySummary = (): DailySummary | null => {
-  const today = getTodayDateString();
+export const getTodaySummary = (
+  rule: Pick<PostureGoalRule, "restOnWeekends"> = DEFAULT_POSTURE_GOAL_RULE,
+): DailySummary | null => {
+  const today = getTodayLocalDate();
   const summary = getDailySummary(today);
 
   if (summary) {
-    const streak = calculateStreak();
+    const streak = calculateStreak(rule);
     return {
       ...summary,
       streak,
@@ -267,8 +339,8 @@ export const getTodaySummary = (): DailySummary | null => {
  */
 export const getWeeklySummary = (): DailySummary[] => {
   const db = initializeDatabase();
-  const sevenDaysAgo = getDateStringDaysAgo(6);
-  const today = getTodayDateString();
+  const sevenDaysAgo = addDaysToLocalDate(getTodayLocalDate(), -6);
+  const today = getTodayLocalDate();
 
   const rows = db
     .select()
@@ -0,0 +1,313 @@
+import type Database from "better-sqlite3";
+import { DEFAULT_PERFORMANCE_MODE_ID } from "../../shared/sampling/performanceModes";
+import { DEFAULT_MONITORING_PROFILE_ID } from "../../shared/types/profiles";
+import {
+  CALIBRATION_BASELINES_TABLE,
+  DAILY_BREAK_LOGS_TABLE,
+  DAILY_POSTURE_LOGS_TABLE,
+  DAILY_POSTURE_PROFILE_LOGS_TABLE,
+  MONITORING_PROFILES_TABLE,
+  POSTURE_CALIBRATION_TABLE,
+  POSTURE_TICK_JOURNAL_TABLE,
+  POSTURE_TIMELINE_TABLE,
+  SETTINGS_TABLE,
+  WEBHOOK_DELIVERIES_TABLE,
+} from "./schema";
+
+export type Migration = {
+  /** Strictly increasing, never reused once released */
+  version: number;
+  name: string;
+  up: (sqlite: Database.Database) => void;
+};
+
+const hasColumn = (
+  sqlite: Database.Database,
+  table: string,
+  column: string,
+): boolean => {
+  const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as {
+    name: string;
+  }[];
+  return columns.some((entry) => entry.name === column);
+};
+
+/**
+ * Ordered up-migrations. Databases created before the migration runner existed
+ * already contain some of these tables, so every step must be idempotent.
+ * Append new migrations to the end; never edit one that has shipped.
+ */
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    version: 1,
+    name: "create_calibration_baselines",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS ${CALIBRATION_BASELINES_TABLE} (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          created_at INTEGER NOT NULL,
+          detector TEXT NOT NULL,
+          keypoints_json TEXT NOT NULL
+        )
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: "create_posture_calibration",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS ${POSTURE_CALIBRATION_TABLE} (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL DEFAULT 1,
+          baseline_pitch REAL NOT NULL,
+          baseline_ehd REAL NOT NULL,
+          baseline_dpr REAL NOT NULL,
+          quality INTEGER NOT NULL,
+          sample_count INTEGER NOT NULL,
+          sensitivity TEXT NOT NULL DEFAULT 'medium',
+          custom_pitch_threshold REAL,
+          custom_ehd_threshold REAL,
+          custom_dpr_threshold REAL,
+          calibrated_at INTEGER NOT NULL,
+          is_active INTEGER NOT NULL DEFAULT 1,
+          created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+          updated_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now'))
+        );
+
+        CREATE INDEX IF NOT EXISTS posture_calibration_user_active_idx
+        ON ${POSTURE_CALIBRATION_TABLE}(user_id, is_active);
+
+        CREATE INDEX IF NOT EXISTS posture_calibration_calibrated_at_idx
+        ON ${POSTURE_CALIBRATION_TABLE}(calibrated_at);
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: "create_daily_posture_logs",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS ${DAILY_POSTURE_LOGS_TABLE} (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          date TEXT NOT NULL UNIQUE,
+          seconds_in_green INTEGER NOT NULL DEFAULT 0,
+          seconds_in_yellow INTEGER NOT NULL DEFAULT 0,
+          seconds_in_red INTEGER NOT NULL DEFAULT 0,
+          avg_score REAL NOT NULL DEFAULT 0,
+          sample_count INTEGER NOT NULL DEFAULT 0
+        )
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: "add_daily_posture_logs_meets_goal",
+    up: (sqlite) => {
+      if (hasColumn(sqlite, DAILY_POSTURE_LOGS_TABLE, "meets_goal")) {
+        return;
+      }
+      sqlite.exec(
+        `ALTER TABLE ${DAILY_POSTURE_LOGS_TABLE} ADD COLUMN meets_goal INTEGER NOT NULL DEFAULT 0`,
+      );
+    },
+  },
+  {
+    version: 5,
+    name: "create_settings",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS ${SETTINGS_TABLE} (
+          key TEXT PRIMARY KEY NOT NULL,
+          value TEXT NOT NULL
+        )
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: "create_posture_timeline",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS ${POSTURE_TIMELINE_TABLE} (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          bucket_start INTEGER NOT NULL,
+          bucket_seconds INTEGER NOT NULL DEFAULT 60,
+          date TEXT NOT NULL,
+          seconds_in_green INTEGER NOT NULL DEFAULT 0,
+          seconds_in_yellow INTEGER NOT NULL DEFAULT 0,
+          seconds_in_red INTEGER NOT NULL DEFAULT 0,
+          seconds_present INTEGER NOT NULL DEFAULT 0,
+          seconds_reliable INTEGER NOT NULL DEFAULT 0,
+          avg_score REAL NOT NULL DEFAULT 0,
+          min_score REAL,
+          avg_pitch_deg REAL NOT NULL DEFAULT 0,
+          avg_ehd_norm REAL NOT NULL DEFAULT 0,
+          avg_dpr REAL NOT NULL DEFAULT 0,
+          sample_count INTEGER NOT NULL DEFAULT 0
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS posture_timeline_bucket_idx
+        ON ${POSTURE_TIMELINE_TABLE}(bucket_start, bucket_seconds);
+
+        CREATE INDEX IF NOT EXISTS posture_timeline_date_idx
+        ON ${POSTURE_TIMELINE_TABLE}(date);
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: "create_posture_tick_journal",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS ${POSTURE_TICK_JOURNAL_TABLE} (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          received_at INTEGER NOT NULL,
+          date TEXT NOT NULL,
+          seconds_elapsed INTEGER NOT NULL,
+          presence TEXT NOT NULL,
+          reliability TEXT NOT NULL,
+          zone TEXT NOT NULL,
+          score REAL NOT NULL,
+          pitch_deg REAL NOT NULL,
+          ehd_norm REAL NOT NULL,
+          dpr REAL NOT NULL
+        )
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: "create_webhook_deliveries",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS ${WEBHOOK_DELIVERIES_TABLE} (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          webhook_id TEXT NOT NULL,
+          event TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          status TEXT NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          response_status INTEGER,
+          error TEXT,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          next_attempt_at INTEGER
+        );
+
+        CREATE INDEX IF NOT EXISTS webhook_deliveries_status_idx
+        ON ${WEBHOOK_DELIVERIES_TABLE}(status);
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: "create_monitoring_profiles",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS ${MONITORING_PROFILES_TABLE} (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          performance_mode TEXT NOT NULL,
+          is_active INTEGER NOT NULL DEFAULT 0,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        )
+      `);
+      // Existing calibrations and logs are attributed to this profile
+      const now = Date.now();
+      sqlite
+        .prepare(
+          `INSERT OR IGNORE INTO ${MONITORING_PROFILES_TABLE}
+            (id, name, performance_mode, is_active, created_at, updated_at)
+          VALUES (?, 'Desk', ?, 1, ?, ?)`,
+        )
+        .run(
+          DEFAULT_MONITORING_PROFILE_ID,
+          DEFAULT_PERFORMANCE_MODE_ID,
+          now,
+          now,
+        );
+    },
+  },
+  {
+    version: 10,
+    name: "add_posture_calibration_profile_id",
+    up: (sqlite) => {
+      if (!hasColumn(sqlite, POSTURE_CALIBRATION_TABLE, "profile_id")) {
+        sqlite.exec(
+          `ALTER TABLE ${POSTURE_CALIBRATION_TABLE} ADD COLUMN profile_id INTEGER NOT NULL DEFAULT ${DEFAULT_MONITORING_PROFILE_ID}`,
+        );
+      }
+      sqlite.exec(`
+        CREATE INDEX IF NOT EXISTS posture_calibration_profile_active_idx
+        ON ${POSTURE_CALIBRATION_TABLE}(user_id, profile_id, is_active)
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: "add_posture_tick_journal_profile_id",
+    up: (sqlite) => {
+      if (hasColumn(sqlite, POSTURE_TICK_JOURNAL_TABLE, "profile_id")) {
+        return;
+      }
+      sqlite.exec(
+        `ALTER TABLE ${POSTURE_TICK_JOURNAL_TABLE} ADD COLUMN profile_id INTEGER NOT NULL DEFAULT ${DEFAULT_MONITORING_PROFILE_ID}`,
+      );
+    },
+  },
+  {
+    version: 12,
+    name: "create_daily_posture_profile_logs",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS ${DAILY_POSTURE_PROFILE_LOGS_TABLE} (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          date TEXT NOT NULL,
+          profile_id INTEGER NOT NULL,
+          seconds_in_green INTEGER NOT NULL DEFAULT 0,
+          seconds_in_yellow INTEGER NOT NULL DEFAULT 0,
+          seconds_in_red INTEGER NOT NULL DEFAULT 0,
+          avg_score REAL NOT NULL DEFAULT 0,
+          sample_count INTEGER NOT NULL DEFAULT 0
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS daily_posture_profile_logs_date_idx
+        ON ${DAILY_POSTURE_PROFILE_LOGS_TABLE}(date, profile_id);
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: "add_camera_keys",
+    up: (sqlite) => {
+      if (!hasColumn(sqlite, MONITORING_PROFILES_TABLE, "camera_key")) {
+        sqlite.exec(
+          `ALTER TABLE ${MONITORING_PROFILES_TABLE} ADD COLUMN camera_key TEXT`,
+        );
+      }
+      if (!hasColumn(sqlite, POSTURE_CALIBRATION_TABLE, "camera_key")) {
+        sqlite.exec(
+          `ALTER TABLE ${POSTURE_CALIBRATION_TABLE} ADD COLUMN camera_key TEXT`,
+        );
+      }
+    },
+  },
+  {
+    version: 14,
+    name: "create_daily_break_logs",
+    up: (sqlite) => {
+      sqlite.exec(`
+        CREATE TABLE IF NOT EXISTS ${DAILY_BREAK_LOGS_TABLE} (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          date TEXT NOT NULL UNIQUE,
+          breaks_prompted INTEGER NOT NULL DEFAULT 0,
+          breaks_taken INTEGER NOT NULL DEFAULT 0,
+          breaks_skipped INTEGER NOT NULL DEFAULT 0,
+          stretches_completed INTEGER NOT NULL DEFAULT 0
+        );
+      `);
+    },
+  },
+];
@@ -0,0 +1,154 @@
+import type Database from "better-sqlite3";
+import fs from "fs";
+import { getLogger } from "../../shared/logger";
+import { MIGRATIONS, type Migration } from "./migrations";
+import { SCHEMA_MIGRATIONS_TABLE } from "./schema";
+
+const logger = getLogger("database-migrator", "main");
+
+export type MigrationRunResult = {
+  fromVersion: number;
+  toVersion: number;
+  applied: number[];
+  backupPath: string | null;
+};
+
+export type MigrationRunOptions = {
+  /** Path of the database file, used to place the pre-migration backup */
+  databasePath?: string;
+  migrations?: readonly Migration[];
+  now?: () => Date;
+};
+
+const ensureMigrationsTable = (sqlite: Database.Database): void => {
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS ${SCHEMA_MIGRATIONS_TABLE} (
+      version INTEGER PRIMARY KEY NOT NULL,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )
+  `);
+};
+
+/**
+ * Versions recorded in schema_migrations, ascending
+ */
+export const getAppliedMigrationVersions = (
+  sqlite: Database.Database,
+): number[] => {
+  ensureMigrationsTable(sqlite);
+  const rows = sqlite
+    .prepare(
+      `SELECT version FROM ${SCHEMA_MIGRATIONS_TABLE} ORDER BY version ASC`,
+    )
+    .all() as { version: number }[];
+  return rows.map((row) => row.version);
+};
+
+const hasUserTables = (sqlite: Database.Database): boolean => {
+  const row = sqlite
+    .prepare(
+      `SELECT COUNT(*) AS count FROM sqlite_master
+       WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name != ?`,
+    )
+    .get(SCHEMA_MIGRATIONS_TABLE) as { count: number };
+  return row.count > 0;
+};
+
+const formatBackupTimestamp = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, "").replace(/\..+$/, "");
+
+/**
+ * Copy the database next to the original before migrating it.
+ * VACUUM INTO writes a consistent snapshot even with WAL enabled.
+ */
+const backupDatabase = (
+  sqlite: Database.Database,
+  databasePath: string,
+  fromVersion: number,
+  now: Date,
+): string => {
+  const backupPath = `${databasePath}.v${fromVersion}-${formatBackupTimestamp(now)}.bak`;
+  if (fs.existsSync(backupPath)) {
+    fs.unlinkSync(backupPath);
+  }
+  sqlite.prepare("VACUUM INTO ?").run(backupPath);
+  return backupPath;
+};
+
+/**
+ * Apply every pending migration in version order, each in its own transaction.
+ * Existing databases are backed up first; a failing migration is rolled back
+ * and rethrown so the app never runs against a half-migrated schema.
+ */
+export const runMigrations = (
+  sqlite: Database.Database,
+  options: MigrationRunOptions = {},
+): MigrationRunResult => {
+  const migrations = [...(options.migrations ?? MIGRATIONS)].sort(
+    (a, b) => a.version - b.version,
+  );
+  const now = options.now ?? (() => new Date());
+
+  const applied = new Set(getAppliedMigrationVersions(sqlite));
+  const fromVersion = applied.size > 0 ? Math.max(...applied) : 0;
+  const pending = migrations.filter(
+    (migration) => !applied.has(migration.version),
+  );
+
+  if (pending.length === 0) {
+    return {
+      fromVersion,
+      toVersion: fromVersion,
+      applied: [],
+      backupPath: null,
+    };
+  }
+
+  let backupPath: string | null = null;
+  const { databasePath } = options;
+  if (
+    databasePath &&
+    databasePath !== ":memory:" &&
+    fs.existsSync(databasePath) &&
+    hasUserTables(sqlite)
+  ) {
+    try {
+      backupPath = backupDatabase(sqlite, databasePath, fromVersion, now());
+      logger.info(`Backed up database before migrating to ${backupPath}`);
+    } catch (error) {
+      logger.error(
+        `Failed to back up database before migrating: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      );
+      throw error;
+    }
+  }
+
+  const record = sqlite.prepare(
+    `INSERT INTO ${SCHEMA_MIGRATIONS_TABLE} (version, name, applied_at) VALUES (?, ?, ?)`,
+  );
+  const appliedVersions: number[] = [];
+
+  pending.forEach((migration) => {
+    try {
+      sqlite.transaction(() => {
+        migration.up(sqlite);
+        record.run(migration.version, migration.name, now().getTime());
+      })();
+      appliedVersions.push(migration.version);
+      logger.info(`Applied migration ${migration.version} (${migration.name})`);
+    } catch (error) {
+      logger.error(
+        `Failed to apply migration ${migration.version} (${migration.name}): ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      );
+      throw error;
+    }
+  });
+
+  const toVersion = Math.max(fromVersion, ...appliedVersions);
+  return { fromVersion, toVersion, applied: appliedVersions, backupPath };
+};
@@ -0,0 +1,208 @@
+import { asc, eq, not } from "drizzle-orm";
+import { getLogger } from "../../shared/logger";
+import {
+  DEFAULT_PERFORMANCE_MODE_ID,
+  type PerformanceModeId,
+  isPerformanceModeId,
+} from "../../shared/sampling/performanceModes";
+import type { MonitoringProfile } from "../../shared/types/profiles";
+import { getDatabase } from "./client";
+import {
+  type MonitoringProfileRow,
+  type NewMonitoringProfileRow,
+  monitoringProfiles,
+} from "./schema";
+
+const logger = getLogger("monitoring-profile-repository", "main");
+
+export type MonitoringProfileRowUpdate = Partial<
+  Pick<NewMonitoringProfileRow, "name" | "performanceMode" | "cameraKey">
+>;
+
+export const mapRowToMonitoringProfile = (
+  row: MonitoringProfileRow,
+): MonitoringProfile => ({
+  id: row.id,
+  name: row.name,
+  performanceMode: isPerformanceModeId(row.performanceMode)
+    ? row.performanceMode
+    : DEFAULT_PERFORMANCE_MODE_ID,
+  isActive: Boolean(row.isActive),
+  cameraKey: row.cameraKey ?? null,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+/**
+ * Every profile, oldest first
+ */
+export const listMonitoringProfiles = (): MonitoringProfile[] => {
+  const db = getDatabase();
+  return db
+    .select()
+    .from(monitoringProfiles)
+    .orderBy(asc(monitoringProfiles.id))
+    .all()
+    .map(mapRowToMonitoringProfile);
+};
+
+export const getMonitoringProfileById = (
+  id: number,
+): MonitoringProfile | null => {
+  const db = getDatabase();
+  const row = db
+    .select()
+    .from(monitoringProfiles)
+    .where(eq(monitoringProfiles.id, id))
+    .get();
+  return row ? mapRowToMonitoringProfile(row) : null;
+};
+
+/**
+ * The active profile, falling back to the oldest one when none is flagged
+ */
+export const getActiveMonitoringProfile = (): MonitoringProfile | null => {
+  const db = getDatabase();
+  const row =
+    db
+      .select()
+      .from(monitoringProfiles)
+      .where(eq(monitoringProfiles.isActive, true))
+      .get() ??
+    db
+      .select()
+      .from(monitoringProfiles)
+      .orderBy(asc(monitoringProfiles.id))
+      .limit(1)
+      .get();
+  return row ? mapRowToMonitoringProfile(row) : null;
+};
+
+/**
+ * The oldest profile bound to `cameraKey`
+ */
+export const getMonitoringProfileByCameraKey = (
+  cameraKey: string,
+): MonitoringProfile | null => {
+  const db = getDatabase();
+  const row = db
+    .select()
+    .from(monitoringProfiles)
+    .where(eq(monitoringProfiles.cameraKey, cameraKey))
+    .orderBy(asc(monitoringProfiles.id))
+    .limit(1)
+    .get();
+  return row ? mapRowToMonitoringProfile(row) : null;
+};
+
+/**
+ * Create an inactive profile
+ */
+export const insertMonitoringProfile = (
+  name: string,
+  performanceMode: PerformanceModeId,
+  now = Date.now(),
+  cameraKey: string | null = null,
+): MonitoringProfile => {
+  const db = getDatabase();
+
+  try {
+    const row = db
+      .insert(monitoringProfiles)
+      .values({
+        name,
+        performanceMode,
+        cameraKey,
+        isActive: false,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning()
+      .get();
+    return mapRowToMonitoringProfile(row);
+  } catch (error) {
+    logger.error(
+      `Failed to insert monitoring profile: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+    throw error;
+  }
+};
+
+export const updateMonitoringProfile = (
+  id: number,
+  update: MonitoringProfileRowUpdate,
+  now = Date.now(),
+): MonitoringProfile | null => {
+  const db = getDatabase();
+
+  try {
+    const row = db
+      .update(monitoringProfiles)
+      .set({ ...update, updatedAt: now })
+      .where(eq(monitoringProfiles.id, id))
+      .returning()
+      .get();
+    return row ? mapRowToMonitoringProfile(row) : null;
+  } catch (error) {
+    logger.error(
+      `Failed to update monitoring profile: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+    throw error;
+  }
+};
+
+/**
+ * @returns Whether a row was deleted
+ */
+export const deleteMonitoringProfile = (id: number): boolean => {
+  const db = getDatabase();
+
+  try {
+    const result = db
+      .delete(monitoringProfiles)
+      .where(eq(monitoringProfiles.id, id))
+      .run();
+    return result.changes > 0;
+  } catch (error) {
+    logger.error(
+      `Failed to delete monitoring profile: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+    throw error;
+  }
+};
+
+/**
+ * Flag `id` as the only active profile
+ */
+export const markMonitoringProfileActive = (
+  id: number,
+  now = Date.now(),
+): void => {
+  const db = getDatabase();
+
+  try {
+    db.transaction((tx) => {
+      tx.update(monitoringProfiles)
+        .set({ isActive: false, updatedAt: now })
+        .where(not(eq(monitoringProfiles.id, id)))
+        .run();
+      tx.update(monitoringProfiles)
+        .set({ isActive: true, updatedAt: now })
+        .where(eq(monitoringProfiles.id, id))
+        .run();
+    });
+  } catch (error) {
+    logger.error(
+      `Failed to activate monitoring profile: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+    throw error;
+  }
+};
@@ -0,0 +1,503 @@
+import { and, eq } from "drizzle-orm";
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { getLogger } from "../../shared/logger";
+import {
+  DEFAULT_POSTURE_GOAL_RULE,
+  type PostureGoalRule,
+  meetsPostureGoal,
+} from "../../shared/posture/postureGoal";
+import type {
+  PostureExportCalibration,
+  PostureExportDailyLog,
+  PostureExportDocument,
+  PostureExportProfile,
+  PostureExportProfileDailyLog,
+  PostureImportDiff,
+  PostureImportStrategy,
+} from "../../shared/types/export";
+import { DEFAULT_MONITORING_PROFILE_ID } from "../../shared/types/profiles";
+import { getDatabase } from "./client";
+import {
+  type DailyPostureLogRow,
+  type DailyPostureProfileLogRow,
+  type MonitoringProfileRow,
+  type PostureCalibrationRow,
+  dailyPostureLogs,
+  dailyPostureProfileLogs,
+  monitoringProfiles,
+  postureCalibration,
+  type schema,
+} from "./schema";
+
+const logger = getLogger("posture-backup-repository", "main");
+
+const DEFAULT_USER_ID = 1;
+
+type BackupExecutor = Pick<
+  BetterSQLite3Database<typeof schema>,
+  "select" | "insert" | "update"
+>;
+
+type DailyLogValues = Omit<DailyPostureLogRow, "id">;
+
+type ProfileDailyLogValues = Omit<DailyPostureProfileLogRow, "id">;
+
+type DailyTotals = Pick<
+  DailyLogValues,
+  | "secondsInGreen"
+  | "secondsInYellow"
+  | "secondsInRed"
+  | "avgScore"
+  | "sampleCount"
+>;
+
+const toDailyLogValues = (log: PostureExportDailyLog): DailyLogValues => ({
+  date: log.date,
+  secondsInGreen: log.secondsInGreen,
+  secondsInYellow: log.secondsInYellow,
+  secondsInRed: log.secondsInRed,
+  avgScore: log.avgScore,
+  sampleCount: log.sampleCount,
+  meetsGoal: log.meetsGoal,
+});
+
+const toDailyTotals = (values: DailyTotals): DailyTotals => ({
+  secondsInGreen: values.secondsInGreen,
+  secondsInYellow: values.secondsInYellow,
+  secondsInRed: values.secondsInRed,
+  avgScore: values.avgScore,
+  sampleCount: values.sampleCount,
+});
+
+const isSameDailyTotals = (a: DailyTotals, b: DailyTotals): boolean =>
+  a.secondsInGreen === b.secondsInGreen &&
+  a.secondsInYellow === b.secondsInYellow &&
+  a.secondsInRed === b.secondsInRed &&
+  a.avgScore === b.avgScore &&
+  a.sampleCount === b.sampleCount;
+
+const isSameDailyLog = (a: DailyLogValues, b: DailyLogValues): boolean =>
+  isSameDailyTotals(a, b) && a.meetsGoal === b.meetsGoal;
+
+/**
+ * Days follow the current goal rule, not the one the backup was made with
+ */
+const withPostureGoal = (
+  values: Omit<DailyLogValues, "meetsGoal">,
+  rule: PostureGoalRule,
+): DailyLogValues => ({
+  ...values,
+  meetsGoal: meetsPostureGoal(values, rule) ? 1 : 0,
+});
+
+/**
+ * Merge the totals of an imported day into an existing row for the same day
+ */
+const mergeDailyTotals = (
+  existing: DailyTotals,
+  incoming: DailyTotals,
+  strategy: PostureImportStrategy,
+): DailyTotals => {
+  if (strategy === "overwrite") {
+    return toDailyTotals(incoming);
+  }
+
+  if (strategy === "max-samples") {
+    return toDailyTotals(
+      incoming.sampleCount > existing.sampleCount ? incoming : existing,
+    );
+  }
+
+  const sampleCount = existing.sampleCount + incoming.sampleCount;
+  return {
+    secondsInGreen: existing.secondsInGreen + incoming.secondsInGreen,
+    secondsInYellow: existing.secondsInYellow + incoming.secondsInYellow,
+    secondsInRed: existing.secondsInRed + incoming.secondsInRed,
+    avgScore:
+      sampleCount > 0
+        ? (existing.avgScore * existing.sampleCount +
+            incoming.avgScore * incoming.sampleCount) /
+          sampleCount
+        : existing.avgScore,
+    sampleCount,
+  };
+};
+
+/**
+ * Merge an imported daily log into an existing row for the same date (pure
+ * helper). The merged day is re-checked against `rule`.
+ */
+export const mergeDailyPostureLog = (
+  existing: DailyLogValues,
+  incoming: DailyLogValues,
+  strategy: PostureImportStrategy,
+  rule: PostureGoalRule = DEFAULT_POSTURE_GOAL_RULE,
+): DailyLogValues =>
+  withPostureGoal(
+    {
+      date: existing.date,
+      ...mergeDailyTotals(existing, incoming, strategy),
+    },
+    rule,
+  );
+
+const restoreDailyLogs = (
+  db: BackupExecutor,
+  logs: PostureExportDailyLog[],
+  strategy: PostureImportStrategy,
+  dryRun: boolean,
+  rule: PostureGoalRule,
+): PostureImportDiff["dailyLogs"] => {
+  const diff: PostureImportDiff["dailyLogs"] = {
+    inserted: [],
+    updated: [],
+    unchanged: [],
+  };
+
+  logs.forEach((log) => {
+    const incoming = withPostureGoal(toDailyLogValues(log), rule);
+    const existing = db
+      .select()
+      .from(dailyPostureLogs)
+      .where(eq(dailyPostureLogs.date, incoming.date))
+      .get();
+
+    if (!existing) {
+      diff.inserted.push(incoming.date);
+      if (!dryRun) {
+        db.insert(dailyPostureLogs).values(incoming).run();
+      }
+      return;
+    }
+
+    const merged = mergeDailyPostureLog(existing, incoming, strategy, rule);
+    if (isSameDailyLog(existing, merged)) {
+      diff.unchanged.push(incoming.date);
+      return;
+    }
+
+    diff.updated.push(incoming.date);
+    if (!dryRun) {
+      db.update(dailyPostureLogs)
+        .set(merged)
+        .where(eq(dailyPostureLogs.date, incoming.date))
+        .run();
+    }
+  });
+
+  return diff;
+};
+
+const restoreProfileDailyLogs = (
+  db: BackupExecutor,
+  profileIds: Map<number, number>,
+  logs: PostureExportProfileDailyLog[],
+  strategy: PostureImportStrategy,
+  dryRun: boolean,
+): PostureImportDiff["profileDailyLogs"] => {
+  const diff: PostureImportDiff["profileDailyLogs"] = {
+    inserted: 0,
+    updated: 0,
+    unchanged: 0,
+  };
+  // Rows written by this import; several backup profiles can map to the same
+  // local profile, and a dry run never reaches the database
+  const staged = new Map<string, ProfileDailyLogValues>();
+
+  logs.forEach((log) => {
+    const profileId =
+      profileIds.get(log.profileId) ?? DEFAULT_MONITORING_PROFILE_ID;
+    const key = `${log.date}:${profileId}`;
+    const where = and(
+      eq(dailyPostureProfileLogs.date, log.date),
+      eq(dailyPostureProfileLogs.profileId, profileId),
+    );
+    const existing =
+      staged.get(key) ??
+      db.select().from(dailyPostureProfileLogs).where(where).get();
+
+    if (!existing) {
+      const inserted = { date: log.date, profileId, ...toDailyTotals(log) };
+      staged.set(key, inserted);
+      diff.inserted += 1;
+      if (!dryRun) {
+        db.insert(dailyPostureProfileLogs).values(inserted).run();
+      }
+      return;
+    }
+
+    const merged = mergeDailyTotals(existing, log, strategy);
+    if (isSameDailyTotals(existing, merged)) {
+      diff.unchanged += 1;
+      return;
+    }
+
+    staged.set(key, { date: log.date, profileId, ...merged });
+    diff.updated += 1;
+    if (!dryRun) {
+      db.update(dailyPostureProfileLogs).set(merged).where(where).run();
+    }
+  });
+
+  return diff;
+};
+
+// posture_calibration stores timestamps with second precision
+const toCalibrationKey = (
+  userId: number,
+  profileId: number,
+  calibratedAt: number,
+): string => `${userId}:${profileId}:${Math.floor(calibratedAt / 1000)}`;
+
+type CalibrationCandidate = {
+  id: number | null;
+  userId: number;
+  /** Omitted for rows that belong to the default profile */
+  profileId?: number;
+  calibratedAt: number;
+  isActive: boolean;
+  /** Current value of is_active in the database (imported rows start inactive) */
+  storedActive: boolean;
+};
+
+/**
+ * Pick the calibration that should stay active for each user: the most recent
+ * row flagged active, or the most recent row when none is (pure helper).
+ * Candidates are expected to belong to a single monitoring profile.
+ */
+export const resolveActiveCalibrations = (
+  candidates: CalibrationCandidate[],
+): Map<number, CalibrationCandidate> => {
+  const byUser = new Map<number, CalibrationCandidate[]>();
+  candidates.forEach((candidate) => {
+    const rows = byUser.get(candidate.userId) ?? [];
+    rows.push(candidate);
+    byUser.set(candidate.userId, rows);
+  });
+
+  const active = new Map<number, CalibrationCandidate>();
+  byUser.forEach((rows, userId) => {
+    const flagged = rows.filter((row) => row.isActive);
+    const pool = flagged.length > 0 ? flagged : rows;
+    const latest = pool.reduce((best, row) =>
+      row.calibratedAt > best.calibratedAt ? row : best,
+    );
+    active.set(userId, latest);
+  });
+  return active;
+};
+
+/**
+ * Map the profile IDs of a backup to local profile IDs (pure helper).
+ * IDs are assigned per machine, so a backup profile matches the local profile
+ * with the same camera key, else the one with the same name. Unmatched
+ * profiles map to the default profile.
+ */
+export const mapBackupProfiles = (
+  backupProfiles: PostureExportProfile[],
+  localProfiles: Pick<MonitoringProfileRow, "id" | "name" | "cameraKey">[],
+): Map<number, number> =>
+  new Map(
+    backupProfiles.map((profile) => {
+      const byCamera =
+        profile.cameraKey === null
+          ? undefined
+          : localProfiles.find(
+              (local) => local.cameraKey === profile.cameraKey,
+            );
+      const match =
+        byCamera ?? localProfiles.find((local) => local.name === profile.name);
+      return [profile.id, match?.id ?? DEFAULT_MONITORING_PROFILE_ID];
+    }),
+  );
+
+const restoreCalibrations = (
+  db: BackupExecutor,
+  profileIds: Map<number, number>,
+  calibrations: PostureExportCalibration[],
+  dryRun: boolean,
+): PostureImportDiff["calibrations"] => {
+  const existingRows: PostureCalibrationRow[] = db
+    .select()
+    .from(postureCalibration)
+    .all();
+  const existingKeys = new Set(
+    existingRows.map((row) =>
+      toCalibrationKey(row.userId, row.profileId, row.calibratedAt.getTime()),
+    ),
+  );
+
+  const candidates: CalibrationCandidate[] = existingRows.map((row) => ({
+    id: row.id,
+    userId: row.userId,
+    profileId: row.profileId,
+    calibratedAt: row.calibratedAt.getTime(),
+    isActive: row.isActive,
+    storedActive: row.isActive,
+  }));
+
+  let inserted = 0;
+  let skipped = 0;
+
+  calibrations.forEach((calibration) => {
+    const calibratedAt = Date.parse(calibration.calibratedAt);
+    const profileId =
+      (calibration.profileId === undefined
+        ? undefined
+        : profileIds.get(calibration.profileId)) ??
+      DEFAULT_MONITORING_PROFILE_ID;
+    const key = toCalibrationKey(calibration.userId, profileId, calibratedAt);
+    if (existingKeys.has(key)) {
+      skipped += 1;
+      return;
+    }
+    existingKeys.add(key);
+    inserted += 1;
+
+    let id: number | null = null;
+    if (!dryRun) {
+      const result = db
+        .insert(postureCalibration)
+        .values({
+          userId: calibration.userId,
+          profileId,
+          cameraKey: calibration.cameraKey ?? null,
+          baselinePitch: calibration.baselinePitch,
+          baselineEHD: calibration.baselineEHD,
+          baselineDPR: calibration.baselineDPR,
+          quality: calibration.quality,
+          sampleCount: calibration.sampleCount,
+          sensitivity: calibration.sensitivity,
+          customPitchThreshold: calibration.customPitchThreshold,
+          customEHDThreshold: calibration.customEHDThreshold,
+          customDPRThreshold: calibration.customDPRThreshold,
+          calibratedAt: new Date(calibratedAt),
+          isActive: false,
+          createdAt: new Date(calibration.createdAt),
+          updatedAt: new Date(calibration.updatedAt),
+        })
+        .run();
+      id = Number(result.lastInsertRowid ?? 0);
+    }
+
+    candidates.push({
+      id,
+      userId: calibration.userId,
+      profileId,
+      calibratedAt,
+      isActive: calibration.isActive,
+      storedActive: false,
+    });
+  });
+
+  // Each profile keeps its own active calibration
+  const candidatesByProfile = new Map<number, CalibrationCandidate[]>();
+  candidates.forEach((candidate) => {
+    const profileId = candidate.profileId ?? DEFAULT_MONITORING_PROFILE_ID;
+    const rows = candidatesByProfile.get(profileId) ?? [];
+    rows.push(candidate);
+    candidatesByProfile.set(profileId, rows);
+  });
+  const activeByProfile = new Map(
+    [...candidatesByProfile].map(([profileId, rows]) => [
+      profileId,
+      resolveActiveCalibrations(rows),
+    ]),
+  );
+  const activeByUser =
+    activeByProfile.get(DEFAULT_MONITORING_PROFILE_ID) ??
+    new Map<number, CalibrationCandidate>();
+
+  if (!dryRun) {
+    const now = new Date();
+    candidates.forEach((candidate) => {
+      const shouldBeActive =
+        activeByProfile
+          .get(candidate.profileId ?? DEFAULT_MONITORING_PROFILE_ID)
+          ?.get(candidate.userId) === candidate;
+      if (candidate.id === null || candidate.storedActive === shouldBeActive) {
+        return;
+      }
+      db.update(postureCalibration)
+        .set({ isActive: shouldBeActive, updatedAt: now })
+        .where(eq(postureCalibration.id, candidate.id))
+        .run();
+    });
+  }
+
+  return {
+    inserted,
+    skipped,
+    activeCalibratedAt: activeByUser.get(DEFAULT_USER_ID)?.calibratedAt ?? null,
+  };
+};
+
+/**
+ * Restore a validated backup into the database
+ * Daily logs are merged by date and per-profile days by date and profile
+ * using `strategy`, calibrations are added when not already present and
+ * exactly one calibration per user and monitoring profile is left active.
+ * Per-profile days and calibrations go to the local profile matching their
+ * backup profile (see `mapBackupProfiles`), else to the default profile.
+ * Everything runs in a single transaction; with `dryRun` nothing is written
+ * and the returned diff describes what a real import would change.
+ * Settings in the backup are not restored. Inserted and merged days are
+ * evaluated against `rule` instead of keeping the backup's `meetsGoal`.
+ */
+export const restorePostureBackup = (
+  document: PostureExportDocument,
+  strategy: PostureImportStrategy,
+  dryRun: boolean,
+  rule: PostureGoalRule = DEFAULT_POSTURE_GOAL_RULE,
+): PostureImportDiff => {
+  const db = getDatabase();
+
+  try {
+    const diff = db.transaction((tx) => {
+      const profileIds = mapBackupProfiles(
+        document.profiles,
+        document.profiles.length > 0
+          ? tx.select().from(monitoringProfiles).all()
+          : [],
+      );
+      return {
+        dailyLogs: restoreDailyLogs(
+          tx,
+          document.dailyLogs,
+          strategy,
+          dryRun,
+          rule,
+        ),
+        profileDailyLogs: restoreProfileDailyLogs(
+          tx,
+          profileIds,
+          document.profileDailyLogs,
+          strategy,
+          dryRun,
+        ),
+        calibrations: restoreCalibrations(
+          tx,
+          profileIds,
+          document.calibrations,
+          dryRun,
+        ),
+      };
+    });
+
+    logger.info(
+      `${dryRun ? "Planned" : "Applied"} posture backup import (${strategy}): ${
+        diff.dailyLogs.inserted.length
+      } inserted, ${diff.dailyLogs.updated.length} updated, ${
+        diff.calibrations.inserted
+      } calibrations added`,
+    );
+    return diff;
+  } catch (error) {
+    logger.error(
+      `Failed to restore posture backup: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+    throw error;
+  }
+};
@@ -0,0 +1,252 @@
+import { getLogger } from "../../shared/logger";
+import {
+  DEFAULT_POSTURE_GOAL_RULE,
+  type PostureGoalRule,
+  isPostureRestDay,
+} from "../../shared/posture/postureGoal";
+import { addDaysToLocalDate, getTodayLocalDate } from "../../shared/time";
+import type {
+  PostureBestStreak,
+  PosturePeriodSummary,
+  PostureRangeSummary,
+  PostureWeekComparison,
+  PostureYearSummary,
+} from "../../shared/types/summary";
+import {
+  type DailySummary,
+  getDailyPostureLogsInRange,
+} from "./dailyPostureRepository";
+
+const logger = getLogger("posture-summary-repository", "main");
+
+const formatMonthPeriod = (year: number, month: number): string =>
+  `${year}-${String(month).padStart(2, "0")}`;
+
+const getMonthRange = (
+  year: number,
+  month: number,
+): { from: string; to: string } => {
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const period = formatMonthPeriod(year, month);
+  return { from: `${period}-01`, to: `${period}-${lastDay}` };
+};
+
+/**
+ * Roll daily logs up into totals for an inclusive date range (pure helper)
+ * Logs outside the range are ignored
+ */
+export const summarizeDailyLogs = (
+  logs: DailySummary[],
+  from: string,
+  to: string,
+): PostureRangeSummary => {
+  const inRange = logs.filter((log) => log.date >= from && log.date <= to);
+
+  const totals = inRange.reduce(
+    (acc, log) => ({
+      secondsInGreen: acc.secondsInGreen + log.secondsInGreen,
+      secondsInYellow: acc.secondsInYellow + log.secondsInYellow,
+      secondsInRed: acc.secondsInRed + log.secondsInRed,
+      scoreSum: acc.scoreSum + log.avgScore * log.sampleCount,
+      sampleCount: acc.sampleCount + log.sampleCount,
+      goalMetDays: acc.goalMetDays + (log.meetsGoal === 1 ? 1 : 0),
+    }),
+    {
+      secondsInGreen: 0,
+      secondsInYellow: 0,
+      secondsInRed: 0,
+      scoreSum: 0,
+      sampleCount: 0,
+      goalMetDays: 0,
+    },
+  );
+
+  return {
+    from,
+    to,
+    daysWithData: inRange.length,
+    goalMetDays: totals.goalMetDays,
+    avgScore: totals.sampleCount > 0 ? totals.scoreSum / totals.sampleCount : 0,
+    sampleCount: totals.sampleCount,
+    secondsInGreen: totals.secondsInGreen,
+    secondsInYellow: totals.secondsInYellow,
+    secondsInRed: totals.secondsInRed,
+    monitoredSeconds:
+      totals.secondsInGreen + totals.secondsInYellow + totals.secondsInRed,
+  };
+};
+
+/**
+ * Find the longest run of goal-met days (pure helper)
+ * Uses the same rest-day rules as the current streak; the earliest run wins
+ * a tie.
+ */
+export const findBestStreak = (
+  logs: Pick<DailySummary, "date" | "meetsGoal">[],
+  rule: Pick<PostureGoalRule, "restOnWeekends"> = DEFAULT_POSTURE_GOAL_RULE,
+): PostureBestStreak => {
+  const best: PostureBestStreak = { length: 0, startDate: null, endDate: null };
+  if (logs.length === 0) {
+    return best;
+  }
+
+  const dates = logs.map((log) => log.date).sort();
+  const metByDate = new Map(logs.map((log) => [log.date, log.meetsGoal === 1]));
+  const lastDate = dates[dates.length - 1] as string;
+
+  let current: PostureBestStreak = { ...best };
+  for (
+    let date = dates[0] as string;
+    date <= lastDate;
+    date = addDaysToLocalDate(date, 1)
+  ) {
+    if (metByDate.get(date)) {
+      current = {
+        length: current.length + 1,
+        startDate: current.startDate ?? date,
+        endDate: date,
+      };
+      if (current.length > best.length) {
+        Object.assign(best, current);
+      }
+    } else if (!isPostureRestDay(date, rule)) {
+      current = { length: 0, startDate: null, endDate: null };
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Compare the 7 days ending `today` with the 7 days before (pure helper)
+ */
+export const compareWeeks = (
+  logs: DailySummary[],
+  today: string,
+): PostureWeekComparison => {
+  const current = summarizeDailyLogs(
+    logs,
+    addDaysToLocalDate(today, -6),
+    today,
+  );
+  const previous = summarizeDailyLogs(
+    logs,
+    addDaysToLocalDate(today, -13),
+    addDaysToLocalDate(today, -7),
+  );
+
+  return {
+    current,
+    previous,
+    delta: {
+      avgScore: current.avgScore - previous.avgScore,
+      monitoredSeconds: current.monitoredSeconds - previous.monitoredSeconds,
+      secondsInRed: current.secondsInRed - previous.secondsInRed,
+      goalMetDays: current.goalMetDays - previous.goalMetDays,
+    },
+  };
+};
+
+/**
+ * Get totals for an arbitrary inclusive date range (YYYY-MM-DD)
+ */
+export const getRangeSummary = (
+  from: string,
+  to: string,
+): PostureRangeSummary => {
+  try {
+    return summarizeDailyLogs(getDailyPostureLogsInRange(from, to), from, to);
+  } catch (error) {
+    logger.error(
+      `Failed to get range summary: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+    throw error;
+  }
+};
+
+/**
+ * Get totals for a calendar month (`month` is 1-based)
+ */
+export const getMonthSummary = (
+  year: number,
+  month: number,
+): PosturePeriodSummary => {
+  const { from, to } = getMonthRange(year, month);
+  return {
+    ...getRangeSummary(from, to),
+    period: formatMonthPeriod(year, month),
+  };
+};
+
+/**
+ * Get totals for a calendar year together with its monthly rollups
+ */
+export const getYearSummary = (year: number): PostureYearSummary => {
+  const from = `${year}-01-01`;
+  const to = `${year}-12-31`;
+
+  try {
+    const logs = getDailyPostureLogsInRange(from, to);
+    const months = Array.from({ length: 12 }, (_, index) => {
+      const range = getMonthRange(year, index + 1);
+      return {
+        ...summarizeDailyLogs(logs, range.from, range.to),
+        period: formatMonthPeriod(year, index + 1),
+      };
+    });
+
+    return {
+      ...summarizeDailyLogs(logs, from, to),
+      period: String(year),
+      months,
+    };
+  } catch (error) {
+    logger.error(
+      `Failed to get year summary: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+    throw error;
+  }
+};
+
+/**
+ * Get the longest streak across all stored history
+ */
+export const getBestStreak = (
+  rule: Pick<PostureGoalRule, "restOnWeekends"> = DEFAULT_POSTURE_GOAL_RULE,
+): PostureBestStreak => {
+  try {
+    return findBestStreak(getDailyPostureLogsInRange(null, null), rule);
+  } catch (error) {
+    logger.error(
+      `Failed to get best streak: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+    throw error;
+  }
+};
+
+/**
+ * Compare this week (last 7 days including today) with the week before
+ */
+export const getWeekOverWeekSummary = (): PostureWeekComparison => {
+  const today = getTodayLocalDate();
+
+  try {
+    return compareWeeks(
+      getDailyPostureLogsInRange(addDaysToLocalDate(today, -13), today),
+      today,
+    );
+  } catch (error) {
+    logger.error(
+      `Failed to get week-over-week summary: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+    throw error;
+  }
+};
@@ -0,0 +1,74 @@
+import { asc, lte } from "drizzle-orm";
+import { getLogger } from "../../shared/logger";
+import { getDatabase } from "./client";
+import {
+  type NewPostureTickJournalRow,
+  type PostureTickJournalRow,
+  postureTickJournal,
+} from "./schema";
+
+const logger = getLogger("posture-tick-journal-repository", "main");
+
+/**
+ * Append one processed tick to the journal
+ * @returns The journal id, used later to trim the journal up to a flush
+ */
+export const appendPostureTickJournalEntry = (
+  entry: NewPostureTickJournalRow,
+): number => {
+  const db = getDatabase();
+
+  try {
+    const result = db.insert(postureTickJournal).values(entry).run();
+    return Number(result.lastInsertRowid);
+  } catch (error) {
+    logger.error(
+      `Failed to append posture tick journal entry: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+    throw error;
+  }
+};
+
+/**
+ * Get every journal entry that has not been persisted yet, oldest first
+ */
+export const listPostureTickJournal = (): PostureTickJournalRow[] => {
+  const db = getDatabase();
+  return db
+    .select()
+    .from(postureTickJournal)
+    .orderBy(asc(postureTickJournal.id))
+    .all();
+};
+
+/**
+ * Run `persist` and delete journal entries up to `throughId` in one
+ * transaction, so a crash either keeps both the journal and the old totals or
+ * neither. With a null `throughId` the journal is left untouched.
+ */
+export const commitPostureTickJournal = (
+  throughId: number | null,
+  persist: () => void,
+): void => {
+  const db = getDatabase();
+
+  try {
+    db.transaction((tx) => {
+      persist();
+      if (throughId !== null) {
+        tx.delete(postureTickJournal)
+          .where(lte(postureTickJournal.id, throughId))
+          .run();
+      }
+    });
+  } catch (error) {
+    logger.error(
+      `Failed to commit posture tick journal: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+    throw error;
+  }
+};
@@ -0,0 +1,428 @@
+import { and, eq, gte, lt } from "drizzle-orm";
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { getLogger } from "../../shared/logger";
+import {
+  addDaysToLocalDate,
+  getLocalDayStart,
+  getTodayLocalDate,
+  toLocalDateString,
+} from "../../shared/time";
+import type { PostureHeatmapCell } from "../../shared/types/summary";
+import { getDatabase } from "./client";
+import {
+  TIMELINE_HOUR_BUCKET_SECONDS,
+  TIMELINE_HOUR_RETENTION_DAYS,
+  TIMELINE_MINUTE_BUCKET_SECONDS,
+  TIMELINE_MINUTE_RETENTION_DAYS,
+} from "./constants";
+import {
+  type NewPostureTimelineRow,
+  type PostureTimelineRow,
+  postureTimeline,
+  type schema,
+} from "./schema";
+
+const logger = getLogger("posture-timeline-repository", "main");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PostureTimelineBucket = {
+  bucketStart: number;
+  bucketSeconds: number;
+  date: string;
+  secondsInGreen: number;
+  secondsInYellow: number;
+  secondsInRed: number;
+  secondsPresent: number;
+  secondsReliable: number;
+  avgScore: number;
+  minScore: number | null;
+  avgPitchDeg: number;
+  avgEhdNorm: number;
+  avgDpr: number;
+  sampleCount: number;
+};
+
+/**
+ * Half-open range of bucket start times in epoch ms: [from, to)
+ */
+export type PostureTimelineRange = {
+  from: number;
+  to: number;
+};
+
+export type PostureTimelineRetentionResult = {
+  rolledUpMinutes: number;
+  deletedHours: number;
+};
+
+type TimelineExecutor = Pick<
+  BetterSQLite3Database<typeof schema>,
+  "select" | "insert" | "update" | "delete"
+>;
+
+const mapRowToBucket = (row: PostureTimelineRow): PostureTimelineBucket => ({
+  bucketStart: row.bucketStart,
+  bucketSeconds: row.bucketSeconds,
+  date: row.date,
+  secondsInGreen: row.secondsInGreen,
+  secondsInYellow: row.secondsInYellow,
+  secondsInRed: row.secondsInRed,
+  secondsPresent: row.secondsPresent,
+  secondsReliable: row.secondsReliable,
+  avgScore: row.avgScore,
+  minScore: row.minScore ?? null,
+  avgPitchDeg: row.avgPitchDeg,
+  avgEhdNorm: row.avgEhdNorm,
+  avgDpr: row.avgDpr,
+  sampleCount: row.sampleCount,
+});
+
+const weightedAverage = (
+  first: number,
+  firstWeight: number,
+  second: number,
+  secondWeight: number,
+): number => {
+  const totalWeight = firstWeight + secondWeight;
+  if (totalWeight <= 0) {
+    return 0;
+  }
+  return (first * firstWeight + second * secondWeight) / totalWeight;
+};
+
+const mergeMinScore = (
+  first: number | null,
+  second: number | null,
+): number | null => {
+  if (first === null) {
+    return second;
+  }
+  if (second === null) {
+    return first;
+  }
+  return Math.min(first, second);
+};
+
+/**
+ * Combine two buckets covering the same period.
+ * Durations are summed, averages are weighted by sample count and the
+ * minimum score keeps the lowest observed value.
+ */
+export const mergeTimelineBuckets = (
+  existing: PostureTimelineBucket,
+  incoming: PostureTimelineBucket,
+): PostureTimelineBucket => ({
+  bucketStart: existing.bucketStart,
+  bucketSeconds: existing.bucketSeconds,
+  date: existing.date,
+  secondsInGreen: existing.secondsInGreen + incoming.secondsInGreen,
+  secondsInYellow: existing.secondsInYellow + incoming.secondsInYellow,
+  secondsInRed: existing.secondsInRed + incoming.secondsInRed,
+  secondsPresent: existing.secondsPresent + incoming.secondsPresent,
+  secondsReliable: existing.secondsReliable + incoming.secondsReliable,
+  avgScore: weightedAverage(
+    existing.avgScore,
+    existing.sampleCount,
+    incoming.avgScore,
+    incoming.sampleCount,
+  ),
+  minScore: mergeMinScore(existing.minScore, incoming.minScore),
+  avgPitchDeg: weightedAverage(
+    existing.avgPitchDeg,
+    existing.sampleCount,
+    incoming.avgPitchDeg,
+    incoming.sampleCount,
+  ),
+  avgEhdNorm: weightedAverage(
+    existing.avgEhdNorm,
+    existing.sampleCount,
+    incoming.avgEhdNorm,
+    incoming.sampleCount,
+  ),
+  avgDpr: weightedAverage(
+    existing.avgDpr,
+    existing.sampleCount,
+    incoming.avgDpr,
+    incoming.sampleCount,
+  ),
+  sampleCount: existing.sampleCount + incoming.sampleCount,
+});
+
+/**
+ * Get the start of the local hour containing the given timestamp.
+ * Uses local time so rolled-up rows line up with wall-clock hours even in
+ * timezones with a non-whole-hour UTC offset.
+ */
+export const getLocalHourStart = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  date.setMinutes(0, 0, 0);
+  return date.getTime();
+};
+
+/**
+ * Get the start of the local minute containing the given timestamp
+ */
+export const getMinuteStart = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  date.setSeconds(0, 0);
+  return date.getTime();
+};
+
+/**
+ * Group buckets into coarser hourly buckets (pure helper used by retention)
+ * Returns buckets sorted by start time (oldest first)
+ */
+export const rollupTimelineBuckets = (
+  buckets: PostureTimelineBucket[],
+): PostureTimelineBucket[] => {
+  const byHour = new Map<number, PostureTimelineBucket>();
+
+  buckets.forEach((bucket) => {
+    const hourStart = getLocalHourStart(bucket.bucketStart);
+    const normalised: PostureTimelineBucket = {
+      ...bucket,
+      bucketStart: hourStart,
+      bucketSeconds: TIMELINE_HOUR_BUCKET_SECONDS,
+      date: toLocalDateString(hourStart),
+    };
+    const existing = byHour.get(hourStart);
+    byHour.set(
+      hourStart,
+      existing ? mergeTimelineBuckets(existing, normalised) : normalised,
+    );
+  });
+
+  return Array.from(byHour.values()).sort(
+    (a, b) => a.bucketStart - b.bucketStart,
+  );
+};
+
+const toBucket = (data: NewPostureTimelineRow): PostureTimelineBucket => ({
+  bucketStart: data.bucketStart,
+  bucketSeconds: data.bucketSeconds ?? TIMELINE_MINUTE_BUCKET_SECONDS,
+  date: data.date,
+  secondsInGreen: data.secondsInGreen ?? 0,
+  secondsInYellow: data.secondsInYellow ?? 0,
+  secondsInRed: data.secondsInRed ?? 0,
+  secondsPresent: data.secondsPresent ?? 0,
+  secondsReliable: data.secondsReliable ?? 0,
+  avgScore: data.avgScore ?? 0,
+  minScore: data.minScore ?? null,
+  avgPitchDeg: data.avgPitchDeg ?? 0,
+  avgEhdNorm: data.avgEhdNorm ?? 0,
+  avgDpr: data.avgDpr ?? 0,
+  sampleCount: data.sampleCount ?? 0,
+});
+
+const upsertBucket = (
+  db: TimelineExecutor,
+  data: NewPostureTimelineRow,
+): PostureTimelineRow => {
+  const incoming = toBucket(data);
+
+  const existing = db
+    .select()
+    .from(postureTimeline)
+    .where(
+      and(
+        eq(postureTimeline.bucketStart, incoming.bucketStart),
+        eq(postureTimeline.bucketSeconds, incoming.bucketSeconds),
+      ),
+    )
+    .get();
+
+  if (existing) {
+    // Accumulate so partial flushes of the same bucket add up
+    const merged = mergeTimelineBuckets(mapRowToBucket(existing), incoming);
+    return db
+      .update(postureTimeline)
+      .set(merged)
+      .where(eq(postureTimeline.id, existing.id))
+      .returning()
+      .get();
+  }
+
+  return db.insert(postureTimeline).values(incoming).returning().get();
+};
+
+/**
+ * Insert a timeline bucket, or accumulate into the existing row for the
+ * same bucket start and width
+ */
+export const upsertPostureTimelineBucket = (
+  data: NewPostureTimelineRow,
+): PostureTimelineRow => {
+  const db = getDatabase();
+
+  try {
+    return upsertBucket(db, data);
+  } catch (error) {
+    logger.error(
+      `Failed to upsert posture timeline bucket: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+    throw error;
+  }
+};
+
+/**
+ * Get timeline buckets whose start falls within the range
+ * Minute and hourly rows are both returned; use `bucketSeconds` to tell them apart
+ * Returns buckets sorted by start time (oldest first)
+ */
+export const getPostureTimeline = (
+  range: PostureTimelineRange,
+): PostureTimelineBucket[] => {
+  const db = getDatabase();
+
+  const rows = db
+    .select()
+    .from(postureTimeline)
+    .where(
+      and(
+        gte(postureTimeline.bucketStart, range.from),
+        lt(postureTimeline.bucketStart, range.to),
+      ),
+    )
+    .orderBy(postureTimeline.bucketStart)
+    .all();
+
+  return rows.map(mapRowToBucket);
+};
+
+/**
+ * Apply the timeline retention policy:
+ * - minute rows older than TIMELINE_MINUTE_RETENTION_DAYS are rolled up into hourly rows
+ * - hourly rows older than TIMELINE_HOUR_RETENTION_DAYS are deleted
+ * Runs in a single transaction so a crash never loses rolled-up minutes.
+ */
+export const applyPostureTimelineRetention = (
+  now: number = Date.now(),
+): PostureTimelineRetentionResult => {
+  const db = getDatabase();
+  const minuteCutoff = getLocalHourStart(
+    now - TIMELINE_MINUTE_RETENTION_DAYS * DAY_MS,
+  );
+  const hourCutoff = getLocalHourStart(
+    now - TIMELINE_HOUR_RETENTION_DAYS * DAY_MS,
+  );
+
+  try {
+    const result = db.transaction((tx) => {
+      const staleMinuteCondition = and(
+        eq(postureTimeline.bucketSeconds, TIMELINE_MINUTE_BUCKET_SECONDS),
+        lt(postureTimeline.bucketStart, minuteCutoff),
+      );
+      const staleMinutes = tx
+        .select()
+        .from(postureTimeline)
+        .where(staleMinuteCondition)
+        .all();
+
+      if (staleMinutes.length > 0) {
+        rollupTimelineBuckets(staleMinutes.map(mapRowToBucket)).forEach(
+          (hourBucket) => {
+            upsertBucket(tx, hourBucket);
+          },
+        );
+
+        tx.delete(postureTimeline).where(staleMinuteCondition).run();
+      }
+
+      const deleted = tx
+        .delete(postureTimeline)
+        .where(
+          and(
+            eq(postureTimeline.bucketSeconds, TIMELINE_HOUR_BUCKET_SECONDS),
+            lt(postureTimeline.bucketStart, hourCutoff),
+          ),
+        )
+        .run();
+
+      return {
+        rolledUpMinutes: staleMinutes.length,
+        deletedHours: deleted.changes,
+      };
+    });
+
+    if (result.rolledUpMinutes > 0 || result.deletedHours > 0) {
+      logger.info("Applied posture timeline retention", result);
+    }
+
+    return result;
+  } catch (error) {
+    logger.error(
+      `Failed to apply posture timeline retention: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+    throw error;
+  }
+};
+
+export type { PostureHeatmapCell };
+
+/**
+ * Aggregate timeline buckets into a weekday × hour grid (pure helper)
+ * Only slots with monitored data are returned, sorted by weekday then hour
+ */
+export const buildPostureHeatmap = (
+  buckets: PostureTimelineBucket[],
+): PostureHeatmapCell[] => {
+  type CellState = {
+    weekday: number;
+    hour: number;
+    scoreSum: number;
+    sampleCount: number;
+    secondsInRed: number;
+    dates: Set<string>;
+  };
+  const cells = new Map<string, CellState>();
+
+  buckets.forEach((bucket) => {
+    if (bucket.sampleCount === 0 && bucket.secondsInRed === 0) {
+      return;
+    }
+    const start = new Date(bucket.bucketStart);
+    const weekday = start.getDay();
+    const hour = start.getHours();
+    const key = `${weekday}:${hour}`;
+    const cell = cells.get(key) ?? {
+      weekday,
+      hour,
+      scoreSum: 0,
+      sampleCount: 0,
+      secondsInRed: 0,
+      dates: new Set<string>(),
+    };
+    cell.scoreSum += bucket.avgScore * bucket.sampleCount;
+    cell.sampleCount += bucket.sampleCount;
+    cell.secondsInRed += bucket.secondsInRed;
+    cell.dates.add(bucket.date);
+    cells.set(key, cell);
+  });
+
+  return Array.from(cells.values())
+    .map((cell) => ({
+      weekday: cell.weekday,
+      hour: cell.hour,
+      avgScore: cell.sampleCount > 0 ? cell.scoreSum / cell.sampleCount : 0,
+      avgRedMinutes: cell.secondsInRed / 60 / cell.dates.size,
+      sampleCount: cell.sampleCount,
+      dayCount: cell.dates.size,
+    }))
+    .sort((a, b) => a.weekday - b.weekday || a.hour - b.hour);
+};
+
+/**
+ * Get the weekday × hour heatmap for the last N days (including today)
+ */
+export const getPostureHeatmap = (days: number): PostureHeatmapCell[] => {
+  const from = getLocalDayStart(
+    addDaysToLocalDate(getTodayLocalDate(), -(days - 1)),
+  );
+
+  return buildPostureHeatmap(getPostureTimeline({ from, to: Date.now() + 1 }));
+};
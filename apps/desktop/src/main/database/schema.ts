@@ -1,4 +1,11 @@
-import { integer, real, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import {
+  index,
+  integer,
+  real,
+  sqliteTable,
+  text,
+  uniqueIndex,
+} from "drizzle-orm/sqlite-core";
 import {
   calibrationBaselines,
   postureCalibration,
@@ -17,17 +24,14 @@ export {
 
 export const DAILY_POSTURE_LOGS_TABLE = "daily_posture_logs" as const;
 export const SETTINGS_TABLE = "settings" as const;
-
-// export const calibrationBaselines = sqliteTable("calibration_baselines", {
-//   id: integer("id").primaryKey({ autoIncrement: true }),
-//   createdAt: integer("created_at").notNull(),
-//   detector: text("detector").notNull(),
-//   keypointsJson: text("keypoints_json").notNull(),
-// });
-
-// export type CalibrationBaselineRow = typeof calibrationBaselines.$inferSelect;
-// export type NewCalibrationBaselineRow =
-//   typeof calibrationBaselines.$inferInsert;
+export const POSTURE_TIMELINE_TABLE = "posture_timeline" as const;
+export const SCHEMA_MIGRATIONS_TABLE = "schema_migrations" as const;
+export const POSTURE_TICK_JOURNAL_TABLE = "posture_tick_journal" as const;
+export const WEBHOOK_DELIVERIES_TABLE = "webhook_deliveries" as const;
+export const MONITORING_PROFILES_TABLE = "monitoring_profiles" as const;
+export const DAILY_POSTURE_PROFILE_LOGS_TABLE =
+  "daily_posture_profile_logs" as const;
+export const DAILY_BREAK_LOGS_TABLE = "daily_break_logs" as const;
 
 export const dailyPostureLogs = sqliteTable(DAILY_POSTURE_LOGS_TABLE, {
   id: integer("id").primaryKey({ autoIncrement: true }),
@@ -43,6 +47,154 @@ export const dailyPostureLogs = sqliteTable(DAILY_POSTURE_LOGS_TABLE, {
 export type DailyPostureLogRow = typeof dailyPostureLogs.$inferSelect;
 export type NewDailyPostureLogRow = typeof dailyPostureLogs.$inferInsert;
 
+/**
+ * Named monitoring setups (desk, standing desk, laptop…). Exactly one row is
+ * active; its calibration and performance mode drive detection.
+ */
+export const monitoringProfiles = sqliteTable(MONITORING_PROFILES_TABLE, {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull().unique(),
+  performanceMode: text("performance_mode").notNull(),
+  isActive: integer("is_active", { mode: "boolean" }).notNull().default(false),
+  // Camera that switches to this profile automatically, null until first seen
+  cameraKey: text("camera_key"),
+  createdAt: integer("created_at").notNull(),
+  updatedAt: integer("updated_at").notNull(),
+});
+
+export type MonitoringProfileRow = typeof monitoringProfiles.$inferSelect;
+export type NewMonitoringProfileRow = typeof monitoringProfiles.$inferInsert;
+
+/**
+ * Per-profile breakdown of daily_posture_logs. Goals and streaks keep using
+ * the daily totals; these rows only back the Dashboard profile filter.
+ */
+export const dailyPostureProfileLogs = sqliteTable(
+  DAILY_POSTURE_PROFILE_LOGS_TABLE,
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    date: text("date").notNull(),
+    profileId: integer("profile_id").notNull(),
+    secondsInGreen: integer("seconds_in_green").notNull().default(0),
+    secondsInYellow: integer("seconds_in_yellow").notNull().default(0),
+    secondsInRed: integer("seconds_in_red").notNull().default(0),
+    avgScore: real("avg_score").notNull().default(0),
+    sampleCount: integer("sample_count").notNull().default(0),
+  },
+  (table) => ({
+    dateProfileIdx: uniqueIndex("daily_posture_profile_logs_date_idx").on(
+      table.date,
+      table.profileId,
+    ),
+  }),
+);
+
+export type DailyPostureProfileLogRow =
+  typeof dailyPostureProfileLogs.$inferSelect;
+export type NewDailyPostureProfileLogRow =
+  typeof dailyPostureProfileLogs.$inferInsert;
+
+/**
+ * Break coach adherence per day, kept apart from daily_posture_logs so
+ * posture imports and goal recomputes never touch it
+ */
+export const dailyBreakLogs = sqliteTable(DAILY_BREAK_LOGS_TABLE, {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  date: text("date").notNull().unique(),
+  breaksPrompted: integer("breaks_prompted").notNull().default(0),
+  breaksTaken: integer("breaks_taken").notNull().default(0),
+  breaksSkipped: integer("breaks_skipped").notNull().default(0),
+  stretchesCompleted: integer("stretches_completed").notNull().default(0),
+});
+
+export type DailyBreakLogRow = typeof dailyBreakLogs.$inferSelect;
+
+/**
+ * Intraday posture history. Each row covers one bucket starting at
+ * `bucketStart` (epoch ms) and lasting `bucketSeconds` (60 for minute rows,
+ * 3600 once rolled up into hourly rows by the retention policy).
+ */
+export const postureTimeline = sqliteTable(
+  POSTURE_TIMELINE_TABLE,
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    bucketStart: integer("bucket_start").notNull(),
+    bucketSeconds: integer("bucket_seconds").notNull().default(60),
+    date: text("date").notNull(),
+    secondsInGreen: integer("seconds_in_green").notNull().default(0),
+    secondsInYellow: integer("seconds_in_yellow").notNull().default(0),
+    secondsInRed: integer("seconds_in_red").notNull().default(0),
+    secondsPresent: integer("seconds_present").notNull().default(0),
+    secondsReliable: integer("seconds_reliable").notNull().default(0),
+    avgScore: real("avg_score").notNull().default(0),
+    minScore: real("min_score"),
+    avgPitchDeg: real("avg_pitch_deg").notNull().default(0),
+    avgEhdNorm: real("avg_ehd_norm").notNull().default(0),
+    avgDpr: real("avg_dpr").notNull().default(0),
+    sampleCount: integer("sample_count").notNull().default(0),
+  },
+  (table) => ({
+    bucketIdx: uniqueIndex("posture_timeline_bucket_idx").on(
+      table.bucketStart,
+      table.bucketSeconds,
+    ),
+    dateIdx: index("posture_timeline_date_idx").on(table.date),
+  }),
+);
+
+export type PostureTimelineRow = typeof postureTimeline.$inferSelect;
+export type NewPostureTimelineRow = typeof postureTimeline.$inferInsert;
+
+/**
+ * Write-ahead journal of engine ticks that have not been folded into
+ * daily_posture_logs / posture_timeline yet. Rows are deleted in the same
+ * transaction that persists them and replayed on startup after a crash.
+ */
+export const postureTickJournal = sqliteTable(POSTURE_TICK_JOURNAL_TABLE, {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  receivedAt: integer("received_at").notNull(),
+  date: text("date").notNull(),
+  secondsElapsed: integer("seconds_elapsed").notNull(),
+  presence: text("presence").notNull(),
+  reliability: text("reliability").notNull(),
+  zone: text("zone").notNull(),
+  score: real("score").notNull(),
+  pitchDeg: real("pitch_deg").notNull(),
+  ehdNorm: real("ehd_norm").notNull(),
+  dpr: real("dpr").notNull(),
+  profileId: integer("profile_id").notNull().default(1),
+});
+
+export type PostureTickJournalRow = typeof postureTickJournal.$inferSelect;
+export type NewPostureTickJournalRow = typeof postureTickJournal.$inferInsert;
+
+/**
+ * Outbound webhook deliveries, one row per event and webhook. Pending rows are
+ * retried with backoff and resumed on startup.
+ */
+export const webhookDeliveries = sqliteTable(
+  WEBHOOK_DELIVERIES_TABLE,
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    webhookId: text("webhook_id").notNull(),
+    event: text("event").notNull(),
+    payload: text("payload").notNull(),
+    status: text("status").notNull(),
+    attempts: integer("attempts").notNull().default(0),
+    responseStatus: integer("response_status"),
+    error: text("error"),
+    createdAt: integer("created_at").notNull(),
+    updatedAt: integer("updated_at").notNull(),
+    nextAttemptAt: integer("next_attempt_at"),
+  },
+  (table) => ({
+    statusIdx: index("webhook_deliveries_status_idx").on(table.status),
+  }),
+);
+
+export type WebhookDeliveryRow = typeof webhookDeliveries.$inferSelect;
+export type NewWebhookDeliveryRow = typeof webhookDeliveries.$inferInsert;
+
 export const settings = sqliteTable(SETTINGS_TABLE, {
   key: text("key").primaryKey().notNull(),
   value: text("value").notNull(),
@@ -51,9 +203,26 @@ export const settings = sqliteTable(SETTINGS_TABLE, {
 export type SettingRow = typeof settings.$inferSelect;
 export type NewSettingRow = typeof settings.$inferInsert;
 
+/**
+ * Migration history. One row per applied migration, see ./migrations
+ */
+export const schemaMigrations = sqliteTable(SCHEMA_MIGRATIONS_TABLE, {
+  version: integer("version").primaryKey().notNull(),
+  name: text("name").notNull(),
+  appliedAt: integer("applied_at").notNull(),
+});
+
+export type SchemaMigrationRow = typeof schemaMigrations.$inferSelect;
+
 export const schema = {
   calibrationBaselines,
   postureCalibration,
   dailyPostureLogs,
+  monitoringProfiles,
+  dailyPostureProfileLogs,
+  postureTimeline,
+  postureTickJournal,
+  webhookDeliveries,
   settings,
+  schemaMigrations,
 };
@@ -13,6 +13,16 @@ export const getSetting = (key: string): string | null => {
   return result?.value ?? null;
 };
 
+/**
+ * Get every stored setting
+ * @returns A key/value map of all settings
+ */
+export const getAllSettings = (): Record<string, string> => {
+  const db = getDatabase();
+  const rows = db.select().from(settings).all();
+  return Object.fromEntries(rows.map((row) => [row.key, row.value]));
+};
+
 /**
  * Set a setting value
  * @param key - The setting key
@@ -0,0 +1,145 @@
+import { and, asc, desc, eq, lt, ne } from "drizzle-orm";
+import { getLogger } from "../../shared/logger";
+import type {
+  WebhookDeliveryEvent,
+  WebhookDeliveryStatus,
+  WebhookDeliverySummary,
+} from "../../shared/types/webhooks";
+import { getDatabase } from "./client";
+import {
+  type NewWebhookDeliveryRow,
+  type WebhookDeliveryRow,
+  webhookDeliveries,
+} from "./schema";
+
+const logger = getLogger("webhook-delivery-repository", "main");
+
+export type WebhookDeliveryUpdate = Pick<
+  NewWebhookDeliveryRow,
+  | "status"
+  | "attempts"
+  | "responseStatus"
+  | "error"
+  | "updatedAt"
+  | "nextAttemptAt"
+>;
+
+export const mapRowToWebhookDelivery = (
+  row: WebhookDeliveryRow,
+): WebhookDeliverySummary => ({
+  id: row.id,
+  webhookId: row.webhookId,
+  event: row.event as WebhookDeliveryEvent,
+  status: row.status as WebhookDeliveryStatus,
+  attempts: row.attempts,
+  responseStatus: row.responseStatus ?? null,
+  error: row.error ?? null,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+  nextAttemptAt: row.nextAttemptAt ?? null,
+});
+
+/**
+ * Record a new delivery before its first attempt
+ */
+export const insertWebhookDelivery = (
+  delivery: NewWebhookDeliveryRow,
+): WebhookDeliveryRow => {
+  const db = getDatabase();
+
+  try {
+    return db.insert(webhookDeliveries).values(delivery).returning().get();
+  } catch (error) {
+    logger.error(
+      `Failed to insert webhook delivery: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+    throw error;
+  }
+};
+
+/**
+ * Store the outcome of an attempt
+ */
+export const updateWebhookDelivery = (
+  id: number,
+  update: WebhookDeliveryUpdate,
+): WebhookDeliveryRow | null => {
+  const db = getDatabase();
+
+  try {
+    return (
+      db
+        .update(webhookDeliveries)
+        .set(update)
+        .where(eq(webhookDeliveries.id, id))
+        .returning()
+        .get() ?? null
+    );
+  } catch (error) {
+    logger.error(
+      `Failed to update webhook delivery: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+    throw error;
+  }
+};
+
+/**
+ * Most recent deliveries first, for the settings screen
+ */
+export const listWebhookDeliveries = (
+  limit: number,
+): WebhookDeliverySummary[] => {
+  const db = getDatabase();
+  return db
+    .select()
+    .from(webhookDeliveries)
+    .orderBy(desc(webhookDeliveries.id))
+    .limit(limit)
+    .all()
+    .map(mapRowToWebhookDelivery);
+};
+
+/**
+ * Deliveries still waiting for a retry, oldest first
+ */
+export const listPendingWebhookDeliveries = (): WebhookDeliveryRow[] => {
+  const db = getDatabase();
+  return db
+    .select()
+    .from(webhookDeliveries)
+    .where(eq(webhookDeliveries.status, "pending"))
+    .orderBy(asc(webhookDeliveries.id))
+    .all();
+};
+
+/**
+ * Delete finished deliveries created before `before` (epoch ms)
+ * @returns Number of deleted rows
+ */
+export const pruneWebhookDeliveries = (before: number): number => {
+  const db = getDatabase();
+
+  try {
+    const result = db
+      .delete(webhookDeliveries)
+      .where(
+        and(
+          lt(webhookDeliveries.createdAt, before),
+          ne(webhookDeliveries.status, "pending"),
+        ),
+      )
+      .run();
+    return result.changes;
+  } catch (error) {
+    logger.error(
+      `Failed to prune webhook deliveries: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+    throw error;
+  }
+};
@@ -0,0 +1,105 @@
+import { CpuMonitor } from "../shared/sampling/cpuMonitor";
+import type { EngineFramePayload } from "../shared/types/engine-ipc";
+import type { ReliabilityReason } from "../shared/types/guardrails";
+
+/**
+ * Engine health counters collected from renderer engine frames for the
+ * `/metrics` endpoint. Counters only grow for the lifetime of the process,
+ * as Prometheus expects; gauges hold the latest reported value.
+ */
+
+export const RELIABILITY_REASONS: readonly ReliabilityReason[] = [
+  "yaw-threshold",
+  "roll-threshold",
+  "confidence-low",
+  "illumination-low",
+];
+
+export type EngineMetricsSnapshot = {
+  framesTotal: number;
+  confidenceGateSkippedTotal: number;
+  reliabilityReasonTotals: Record<ReliabilityReason, number>;
+  /** Latest reported values; null until a frame carried them */
+  fps: number | null;
+  inputWidth: number | null;
+  rendererCpuAverage: number | null;
+  mainCpuAverage: number;
+};
+
+const createReasonTotals = (): Record<ReliabilityReason, number> => ({
+  "yaw-threshold": 0,
+  "roll-threshold": 0,
+  "confidence-low": 0,
+  "illumination-low": 0,
+});
+
+let framesTotal = 0;
+let confidenceGateSkippedTotal = 0;
+let reliabilityReasonTotals = createReasonTotals();
+let fps: number | null = null;
+let inputWidth: number | null = null;
+let rendererCpuAverage: number | null = null;
+let mainCpuMonitor = new CpuMonitor();
+
+const finiteOrNull = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+const isReliabilityReason = (value: unknown): value is ReliabilityReason =>
+  RELIABILITY_REASONS.includes(value as ReliabilityReason);
+
+/**
+ * Count one engine frame forwarded from the renderer
+ */
+export const recordEngineFrameMetrics = (payload: EngineFramePayload): void => {
+  framesTotal += 1;
+
+  // Renderer payloads are only shape-checked, so guard the optional parts
+  if (payload.result.metrics?.flags?.confidenceGated === true) {
+    confidenceGateSkippedTotal += 1;
+  }
+
+  const reasons: readonly unknown[] = Array.isArray(
+    payload.result.reliabilityReasons,
+  )
+    ? payload.result.reliabilityReasons
+    : [];
+  // A frame can be unreliable for several reasons at once; count each
+  new Set(reasons.filter(isReliabilityReason)).forEach((reason) => {
+    reliabilityReasonTotals[reason] += 1;
+  });
+
+  const diagnostics = payload.diagnostics ?? null;
+  fps = finiteOrNull(diagnostics?.fps) ?? fps;
+  inputWidth = finiteOrNull(diagnostics?.inputWidth) ?? inputWidth;
+  rendererCpuAverage =
+    finiteOrNull(diagnostics?.cpuAverage) ?? rendererCpuAverage;
+};
+
+/**
+ * Read the collected values. Each call also samples main-process CPU, so the
+ * main average covers the last few scrape intervals.
+ */
+export const getEngineMetricsSnapshot = (
+  now?: number,
+): EngineMetricsSnapshot => {
+  mainCpuMonitor.sample(now);
+  return {
+    framesTotal,
+    confidenceGateSkippedTotal,
+    reliabilityReasonTotals: { ...reliabilityReasonTotals },
+    fps,
+    inputWidth,
+    rendererCpuAverage,
+    mainCpuAverage: mainCpuMonitor.getAverage(),
+  };
+};
+
+export const resetEngineMetrics = (): void => {
+  framesTotal = 0;
+  confidenceGateSkippedTotal = 0;
+  reliabilityReasonTotals = createReasonTotals();
+  fps = null;
+  inputWidth = null;
+  rendererCpuAverage = null;
+  mainCpuMonitor = new CpuMonitor();
+};
@@ -55,8 +55,8 @@ describe("registerCalibrationHandler", () => {
 
     const handler = await loadHandler();
     const response = await handler(null, {
-      detector: "mediapipe",
-      keypoints: [{ x: 1, y: 2 }],
+      requestId: "test-1",
+      args: [{ detector: "mediapipe", keypoints: [{ x: 1, y: 2 }] }],
     });
 
     expect(response).toEqual({
@@ -76,8 +76,8 @@ describe("registerCalibrationHandler", () => {
 
     const handler = await loadHandler();
     const response = await handler(null, {
-      detector: "mediapipe",
-      keypoints: [],
+      requestId: "test-2",
+      args: [{ detector: "mediapipe", keypoints: [] }],
     });
 
     expect(response).toEqual({
@@ -85,4 +85,16 @@ describe("registerCalibrationHandler", () => {
       error: "database down",
     });
   });
+
+  it("rejects malformed baseline payloads before saving", async () => {
+    const handler = await loadHandler();
+
+    await expect(
+      handler(null, {
+        requestId: "test-3",
+        args: [{ detector: "unknown", keypoints: [] }],
+      }),
+    ).rejects.toThrow(/argument 1 must be a calibration baseline payload/);
+    expect(saveCalibrationBaseline).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,77 @@
+import { type IpcMainInvokeEvent, ipcMain } from "electron";
+import {
+  IPC_INVOKE_CHANNELS,
+  type IpcInvokeArgs,
+  type IpcInvokeChannel,
+  type IpcInvokeResult,
+  parseIpcInvokeArgs,
+  parseIpcInvokeEnvelope,
+} from "../../shared/ipc/contract";
+import { getLogger, toErrorPayload } from "../../shared/logger";
+
+const logger = getLogger("ipc", "main");
+
+export type IpcInvokeContext = {
+  event: IpcMainInvokeEvent;
+  /** Id the preload bridge attached to this call */
+  requestId: string;
+};
+
+export type IpcInvokeHandler<C extends IpcInvokeChannel> = (
+  context: IpcInvokeContext,
+  ...args: IpcInvokeArgs<C>
+) => IpcInvokeResult<C> | Promise<IpcInvokeResult<C>>;
+
+const registeredChannels = new Set<IpcInvokeChannel>();
+
+/**
+ * Register the main-process handler for a contract channel. Arguments are
+ * validated before `handler` runs; invalid calls reject with a message
+ * carrying the request id and never reach the handler.
+ */
+export const handleIpcInvoke = <C extends IpcInvokeChannel>(
+  channel: C,
+  handler: IpcInvokeHandler<C>,
+): void => {
+  ipcMain.handle(channel, async (event, ...rawArgs: unknown[]) => {
+    const envelope = parseIpcInvokeEnvelope(rawArgs);
+    if (!envelope) {
+      logger.warn("Rejected IPC call sent outside the preload bridge", {
+        channel,
+      });
+      throw new Error(`Malformed ${channel} request`);
+    }
+
+    const { requestId } = envelope;
+    const parsed = parseIpcInvokeArgs(channel, envelope.args);
+    if (!parsed.ok) {
+      logger.warn("Rejected invalid IPC request", {
+        channel,
+        requestId,
+        error: parsed.error,
+      });
+      throw new Error(
+        `Invalid ${channel} request (${requestId}): ${parsed.error}`,
+      );
+    }
+
+    try {
+      return await handler({ event, requestId }, ...parsed.value);
+    } catch (error) {
+      logger.error("IPC handler failed", {
+        channel,
+        requestId,
+        ...toErrorPayload(error),
+      });
+      throw error;
+    }
+  });
+  registeredChannels.add(channel);
+};
+
+/**
+ * Contract channels without a registered handler; logged at startup so a
+ * channel added to the contract but not wired in main is noticed early
+ */
+export const getUnhandledIpcInvokeChannels = (): IpcInvokeChannel[] =>
+  IPC_INVOKE_CHANNELS.filter((channel) => !registeredChannels.has(channel));
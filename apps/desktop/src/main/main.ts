@@ -11,37 +11,56 @@ import dotenvExpand from "dotenv-expand";
 import {
   BrowserWindow,
   Menu,
+  type MessageBoxOptions,
   Tray,
   app,
+  dialog,
   ipcMain,
   nativeImage,
+  powerMonitor,
   session,
   shell,
 } from "electron";
 import log from "electron-log";
 import { autoUpdater } from "electron-updater";
 import fs from "fs";
-import { Worker } from "node:worker_threads";
 import os from "os";
 import path from "path";
+import { isBreakCycleSettingKey } from "../shared/breaks/breakCycle";
 import { deriveThresholds } from "../shared/calibration/sensitivity-presets";
+import {
+  DASHBOARD_HEATMAP_DAYS,
+  DASHBOARD_STREAM_EVENTS,
+} from "../shared/config/dashboard";
 import { parseBooleanFlag } from "../shared/env";
-import buildGuardrailOverridesFromRecord from "../shared/guardrails/overrides";
 import {
   IPC_CHANNELS,
   WORKER_MESSAGES,
   type WorkerMessage,
 } from "../shared/ipcChannels";
 import { getLogger, toErrorPayload } from "../shared/logger";
+import {
+  DEFAULT_POSTURE_GOAL_RULE,
+  isPostureGoalSettingKey,
+} from "../shared/posture/postureGoal";
+import {
+  getSettingDefault,
+  getSettingDefaults,
+} from "../shared/settings/registry";
+import {
+  addDaysToLocalDate,
+  getTodayLocalDate,
+  setDayStartHour,
+} from "../shared/time";
 import type {
   CalibrationCompletePayload,
   CalibrationCustomThresholds,
   CalibrationFailure,
   CalibrationProgress,
-  CalibrationSensitivityUpdateRequest,
   CalibrationSessionResult,
   CalibrationStartRequest,
   PostureCalibrationRecord,
+  RecalibrationResult,
 } from "../shared/types/calibration";
 import type { EngineTick } from "../shared/types/engine";
 import type {
@@ -49,41 +68,138 @@ import type {
   EngineTickPayload,
 } from "../shared/types/engine-ipc";
 import type { MetricValues } from "../shared/types/metrics";
+import {
+  type CameraProfileResult,
+  DEFAULT_MONITORING_PROFILE_ID,
+  type MonitoringProfile,
+} from "../shared/types/profiles";
+import { type TrayIconStyle, isTrayIconStyle } from "../shared/types/tray";
 import { isMetricValues, isRecord } from "../shared/validation/metricValues";
+import {
+  parseSummaryMonth,
+  parseSummaryRange,
+  parseSummaryYear,
+} from "../shared/validation/summaryQuery";
+import {
+  createApiToken,
+  listApiTokens,
+  revokeApiToken,
+} from "./apiTokenService";
+import {
+  createBackgroundWorker,
+  getWorkerEntrypoint,
+} from "./backgroundWorker";
+import { createBreakCoachService } from "./breakCoachService";
 import {
   openCameraSettings,
   requestCameraPermission,
 } from "./cameraPermissions";
 import {
+  publishDashboardStreamEvent,
+  publishDashboardStreamTick,
+  setDashboardStreamTickInterval,
+} from "./dashboardEventStream";
+import {
+  setDashboardApiControls,
   startDashboardHttpServer,
   stopDashboardHttpServer,
 } from "./dashboardHttpServer";
 import {
   getActivePostureCalibration,
+  getPostureCalibrationById,
   markPostureCalibrationActive,
   savePostureCalibration,
   updatePostureCalibrationSensitivity,
 } from "./database/calibrationRepository";
+import { getDailyBreakLogsInRange } from "./database/dailyBreakRepository";
+import {
+  getProfileTodaySummary,
+  getProfileWeeklySummary,
+} from "./database/dailyPostureProfileRepository";
 import {
   calculateStreak,
   getTodaySummary,
   getWeeklySummary,
+  recomputeDailyGoals,
 } from "./database/dailyPostureRepository";
-import { getSetting, setSetting } from "./database/settingsRepository";
+import {
+  getBestStreak,
+  getMonthSummary,
+  getRangeSummary,
+  getWeekOverWeekSummary,
+  getYearSummary,
+} from "./database/postureSummaryRepository";
+import { getPostureHeatmap } from "./database/postureTimelineRepository";
+import { listWebhookDeliveries } from "./database/webhookDeliveryRepository";
+import { recordEngineFrameMetrics } from "./engineMetrics";
 import { createRendererTickHandler } from "./engineTickBridge";
 import registerCalibrationHandler from "./ipc/calibrationHandler";
+import {
+  getUnhandledIpcInvokeChannels,
+  handleIpcInvoke,
+} from "./ipc/handleInvoke";
 import MenuBuilder from "./menu";
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from "./notificationPreferencesService";
 import {
   processEngineTick,
   startPostureDataAggregator,
   stopPostureDataAggregator,
+  suspendPostureDataAggregator,
 } from "./postureDataAggregator";
-import { captureException } from "./sentry";
+import { exportPostureHistory } from "./postureExport";
+import { commitPostureImport, previewPostureImport } from "./postureImport";
+import { createPresentationProbes } from "./presentationProbes";
+import {
+  activateProfile,
+  createProfile,
+  deleteProfile,
+  getActiveProfile,
+  listProfiles,
+  onActiveProfileChanged,
+  resolveProfileForCamera,
+  toCameraKey,
+  updateProfile,
+} from "./profileService";
+import { createReminderService } from "./reminderService";
+import {
+  getAllSettingValues,
+  getBreakCycleConfig,
+  getPostureGoalRule,
+  getSettingValue,
+  onSettingChanged,
+  updateSettingValue,
+} from "./settingsService";
+import {
+  type TrayIconSpec,
+  type TrayIconTone,
+  createTrayScoreHistory,
+  getTrayIconKey,
+  renderTrayIcon,
+} from "./trayIcon";
 import { resolveHtmlPath } from "./util";
+import { createWebhookDispatcher } from "./webhookDispatcher";
+import {
+  checkDailyWebhookEvents,
+  isBadPostureTransition,
+} from "./webhookEvents";
+import {
+  createWebhook,
+  deleteWebhook,
+  listWebhooks,
+  setWebhookEnabled,
+} from "./webhookService";
+import { createStretchWindow } from "./windows/stretchWindow";
+import {
+  type WorkerSupervisorState,
+  createBoundedQueue,
+} from "./workerSupervisor";
 
 // E2E Testing: Type definitions for global test state
 interface TrayIconState {
-  lastIconPath: string;
+  lastIconKey: string;
   lastTooltip: string;
   updateCount: number;
   lastTick: EngineTick | null;
@@ -109,15 +225,58 @@ declare global {
 dotenvExpand.expand(dotenv.config());
 
 let mainWindow: BrowserWindow | null = null;
-let backgroundWorker: Worker | null = null;
 let tray: Tray | null = null;
 let settingsWindow: BrowserWindow | null = null;
 let isPaused = false; // Story 3.3: Pause/Resume monitoring state
+// Cached so engine ticks and tray menu rebuilds do not hit the database
+let activeProfileId = DEFAULT_MONITORING_PROFILE_ID;
+let cachedProfiles: MonitoringProfile[] = [];
+// Camera the renderer last reported; stored with new calibrations
+let activeCameraKey: string | null = null;
+let isCameraCalibrationPromptOpen = false;
+let trayIconStyle: TrayIconStyle = "ring";
+let trayIconMonochrome = false;
+// Key of the icon currently shown, so unchanged ticks skip the redraw
+let trayIconKey = "";
 
-const pendingWorkerMessages: WorkerMessage[] = [];
 const logger = getLogger("main-process", "main");
 
+// Worker messages held until the main window exists; engine ticks bypass it
+const MAX_PENDING_WORKER_MESSAGES = 100;
+const pendingWorkerMessages = createBoundedQueue<WorkerMessage>(
+  MAX_PENDING_WORKER_MESSAGES,
+);
+
+// Listeners are attached once the message and state handlers are defined
+const backgroundWorker = createBackgroundWorker({
+  entrypoint: getWorkerEntrypoint(app.isPackaged, __dirname),
+  env: process.env,
+});
+
 let latestEngineTick: EngineTick | null = null;
+// Recent scores for the sparkline tray icon
+const trayScoreHistory = createTrayScoreHistory();
+
+const webhookDispatcher = createWebhookDispatcher();
+// Deliveries shown in the settings window
+const WEBHOOK_DELIVERY_LOG_LIMIT = 20;
+
+// Posture reminders run here so they keep firing while the window is closed;
+// notification clicks are wired to the main window once it can be created
+const reminderService = createReminderService({
+  probes: createPresentationProbes({
+    platform: process.platform,
+    ownExecutable: process.execPath,
+    getOwnProcessIds: () => app.getAppMetrics().map((metric) => metric.pid),
+    isOwnWindowFocused: () => BrowserWindow.getFocusedWindow() !== null,
+  }),
+});
+
+// Work/break cycles; the real config is applied once settings are readable
+const breakCoach = createBreakCoachService({
+  isHeld: (now) => reminderService.isHeld(now),
+  openStretchWindow: createStretchWindow,
+});
 
 const isDebug =
   process.env.NODE_ENV === "development" || process.env.DEBUG_PROD === "true";
@@ -184,48 +343,71 @@ logger.info("Tray icon configuration", {
 });
 
 /**
- * Get tray icon path based on EngineTick score
+ * Get the tray icon to draw for an EngineTick
  * Rules (in priority order):
- * - IDLE/UNRELIABLE/INITIAL states: gray (neutral, non-alarming)
- * - Score-based colors for active states (see thresholds above)
+ * - IDLE/INITIAL states: empty ring (neutral, non-alarming)
+ * - UNRELIABLE: dashed ring
+ * - Score ring or sparkline colored by the thresholds above
  */
-const getTrayIconPath = (tick: EngineTick): string => {
-  // Handle envelope states (IDLE, UNRELIABLE, INITIAL) with neutral gray
+const getTrayIconSpec = (tick: EngineTick): TrayIconSpec => {
   // INITIAL is the starting state before any posture data is available
-  const isEnvelopeState =
-    tick.state === "IDLE" ||
-    tick.state === "UNRELIABLE" ||
-    (tick.state as string) === "INITIAL";
-
-  // Debug logging for envelope state check
-  logger.info("getTrayIconPath debug", {
-    state: tick.state,
-    isEnvelopeState,
-    score: tick.score,
-    scoreType: typeof tick.score,
-    neutralThreshold: NEUTRAL_THRESHOLD,
-    useSimpleThreshold: USE_SIMPLE_THRESHOLD,
-    scoreComparison:
-      USE_SIMPLE_THRESHOLD && !isEnvelopeState
-        ? `${tick.score} >= ${NEUTRAL_THRESHOLD} = ${tick.score >= NEUTRAL_THRESHOLD}`
-        : "n/a",
-  });
-
-  if (isEnvelopeState) {
-    return path.join(RESOURCES_PATH, "icons", "tray-gray.png");
+  if (tick.state === "IDLE" || (tick.state as string) === "INITIAL") {
+    return { kind: "idle" };
+  }
+  if (tick.state === "UNRELIABLE") {
+    return { kind: "unreliable" };
   }
 
   // Three-color logic: GREEN >= 80, YELLOW 51-79, RED <= 50
-  // Note: USE_SIMPLE_THRESHOLD kept for backward compatibility but uses same logic
+  let tone: TrayIconTone = "red";
   if (tick.score >= SCORE_THRESHOLDS.GREEN) {
-    return path.join(RESOURCES_PATH, "icons", "tray-green.png");
+    tone = "green";
+  } else if (tick.score > SCORE_THRESHOLDS.RED) {
+    tone = "yellow";
+  }
+
+  if (trayIconStyle === "sparkline") {
+    const scores = trayScoreHistory.getScores();
+    return {
+      kind: "sparkline",
+      scores: scores.length > 0 ? scores : [tick.score],
+      tone,
+    };
+  }
+  return { kind: "ring", score: tick.score, tone };
+};
+
+/**
+ * Show `spec` in the tray, drawn for every display scale. On macOS the
+ * monochrome variant is a template image so it follows the menu bar theme.
+ * Returns the icon key, or null when the tray does not exist.
+ */
+const setTrayIcon = (spec: TrayIconSpec): string | null => {
+  if (!tray) {
+    return null;
   }
-  if (tick.score > SCORE_THRESHOLDS.RED) {
-    // score is between 51-79 (inclusive)
-    return path.join(RESOURCES_PATH, "icons", "tray-yellow.png");
+  const monochrome = process.platform === "darwin" && trayIconMonochrome;
+  const key = getTrayIconKey(spec, { monochrome });
+  if (key === trayIconKey) {
+    return key;
   }
-  // score <= 50
-  return path.join(RESOURCES_PATH, "icons", "tray-red.png");
+
+  const image = nativeImage.createEmpty();
+  renderTrayIcon(spec, { monochrome }).forEach((bitmap) => {
+    image.addRepresentation(bitmap);
+  });
+  if (process.platform === "darwin") {
+    image.setTemplateImage(monochrome);
+  }
+  tray.setImage(image);
+  trayIconKey = key;
+  return key;
+};
+
+const loadTrayIconSettings = (): void => {
+  const style = getSettingValue("trayIconStyle");
+  trayIconStyle = isTrayIconStyle(style) ? style : "ring";
+  trayIconMonochrome = getSettingValue("trayIconMonochrome");
 };
 
 /**
@@ -300,6 +482,12 @@ const getStatusLabel = (tick: EngineTick | null): string => {
   return "Status: Poor Posture ✗";
 };
 
+const DO_NOT_DISTURB_PRESETS = [
+  { label: "For 1 Hour", hours: 1 },
+  { label: "For 2 Hours", hours: 2 },
+  { label: "For 4 Hours", hours: 4 },
+];
+
 /**
  * Update tray context menu with current posture status
  *
@@ -314,9 +502,14 @@ const getStatusLabel = (tick: EngineTick | null): string => {
  *    - "Show Desktop" - Opens/focuses the main monitoring window
  *    - "Show Dashboard" - Opens the analytics dashboard (separate window)
  *    - "Settings" - Will open settings window (Epic 3)
+ *    - "Stretch Break" - Opens the guided stretch window
  *
  * 3. Monitoring Group: Controls for detection
+ *    - "Profile: <name>" - Submenu of monitoring profiles, one radio item each
  *    - "Pause Monitoring" / "Resume Monitoring" - Toggles detection on/off (Story 3.3)
+ *    - "Do Not Disturb" - Submenu holding reminders for a while, or turning that off
+ *    - "Presenting" - Checkbox holding reminders until turned off; the label
+ *      also shows a detected call or fullscreen app
  *
  * 4. System Group: App-level actions
  *    - "Quit Posely" - Terminates the application
@@ -330,7 +523,22 @@ const updateTrayMenu = (tick: EngineTick | null) => {
     return;
   }
 
-  const statusLabel = getStatusLabel(tick);
+  const statusLabel =
+    backgroundWorker.getState() === "degraded"
+      ? "Status: Monitoring Degraded ⚠"
+      : getStatusLabel(tick);
+
+  const { doNotDisturbUntil } = reminderService.getPreferences();
+  const isDoNotDisturbOn =
+    doNotDisturbUntil !== null && doNotDisturbUntil > Date.now();
+  const startOfTomorrow = new Date();
+  startOfTomorrow.setHours(24, 0, 0, 0);
+
+  const presentationReasons = reminderService.getPresentationReasons();
+  const detectedLabel = [
+    ...(presentationReasons.includes("camera") ? ["Call"] : []),
+    ...(presentationReasons.includes("fullscreen") ? ["Fullscreen App"] : []),
+  ].join(", ");
 
   const contextMenu = Menu.buildFromTemplate([
     // === STATUS GROUP ===
@@ -372,45 +580,81 @@ const updateTrayMenu = (tick: EngineTick | null) => {
         createSettingsWindow();
       },
     },
+    {
+      label: "Stretch Break",
+      click: () => {
+        createStretchWindow();
+      },
+    },
     { type: "separator" }, // Separator after application controls
 
     // === MONITORING GROUP ===
+    {
+      label: `Profile: ${
+        cachedProfiles.find((profile) => profile.id === activeProfileId)
+          ?.name ?? "Default"
+      }`,
+      enabled: cachedProfiles.length > 1,
+      submenu: cachedProfiles.map((profile) => ({
+        label: profile.name,
+        type: "radio" as const,
+        checked: profile.id === activeProfileId,
+        click: () => {
+          // eslint-disable-next-line no-use-before-define
+          switchMonitoringProfile(profile.id);
+        },
+      })),
+    },
     {
       label: isPaused ? "Resume Monitoring" : "Pause Monitoring",
       enabled: true, // Story 3.3: Pause/Resume functionality now implemented
       click: () => {
-        // Toggle the paused state
-        isPaused = !isPaused;
-
-        logger.info(`Monitoring ${isPaused ? "paused" : "resumed"}`);
-
-        // Send message to Worker Process to pause/resume
-        if (backgroundWorker) {
-          backgroundWorker.postMessage({
-            type: WORKER_MESSAGES.setPaused,
-            payload: isPaused,
-          });
-        }
-
-        // Update tray icon to reflect paused state
-        if (isPaused) {
-          const pausedIconPath = getAssetPath("icons", "tray-gray.png");
-          const pausedImage = nativeImage.createFromPath(pausedIconPath);
-          tray?.setImage(pausedImage);
-          tray?.setToolTip("Posely - Paused");
-        } else if (latestEngineTick) {
-          // Resume: Update icon based on latest tick
-          // eslint-disable-next-line no-use-before-define
-          updateTrayIcon(latestEngineTick);
-        }
-
-        // Broadcast status change to all renderer windows
-        BrowserWindow.getAllWindows().forEach((window) => {
-          window.webContents.send("app:status-changed", { isPaused });
-        });
-
-        // Rebuild menu to update label
-        updateTrayMenu(latestEngineTick);
+        // eslint-disable-next-line no-use-before-define
+        setMonitoringPaused(!isPaused);
+      },
+    },
+    {
+      label: isDoNotDisturbOn
+        ? `Do Not Disturb Until ${new Date(
+            doNotDisturbUntil,
+          ).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+        : "Do Not Disturb",
+      submenu: [
+        ...(isDoNotDisturbOn
+          ? [
+              {
+                label: "Turn Off",
+                click: () => {
+                  reminderService.setDoNotDisturb(null);
+                },
+              },
+              { type: "separator" as const },
+            ]
+          : []),
+        ...DO_NOT_DISTURB_PRESETS.map(({ label, hours }) => ({
+          label,
+          click: () => {
+            reminderService.setDoNotDisturb(
+              Date.now() + hours * 60 * 60 * 1000,
+            );
+          },
+        })),
+        {
+          label: "Until Tomorrow",
+          click: () => {
+            reminderService.setDoNotDisturb(startOfTomorrow.getTime());
+          },
+        },
+      ],
+    },
+    {
+      label: detectedLabel
+        ? `Presenting (${detectedLabel} Detected)`
+        : "Presenting",
+      type: "checkbox",
+      checked: reminderService.isPresenting(),
+      click: () => {
+        reminderService.setPresenting(!reminderService.isPresenting());
       },
     },
     { type: "separator" }, // Separator before system actions
@@ -448,6 +692,8 @@ const updateTrayMenu = (tick: EngineTick | null) => {
   }
 };
 
+reminderService.onPresentationChange(() => updateTrayMenu(latestEngineTick));
+
 /**
  * Update tray icon and tooltip based on EngineTick score
  */
@@ -459,8 +705,8 @@ const updateTrayIcon = (tick: EngineTick) => {
   const trayInstance = tray; // Capture for type narrowing
 
   try {
-    const iconPath = getTrayIconPath(tick);
     const tooltip = getTrayTooltip(tick);
+    const iconKey = setTrayIcon(getTrayIconSpec(tick)) ?? "";
 
     // Debug logging - always log to help diagnose issues
     logger.info("Tray icon update", {
@@ -471,7 +717,7 @@ const updateTrayIcon = (tick: EngineTick) => {
       state: tick.state,
       presence: tick.presence,
       reliability: tick.reliability,
-      iconPath: iconPath.split("/").pop(), // Just the filename
+      iconKey,
       tooltip,
       isPaused,
     });
@@ -483,35 +729,61 @@ const updateTrayIcon = (tick: EngineTick) => {
       const updateCount = currentState ? currentState.updateCount + 1 : 1;
       // eslint-disable-next-line no-underscore-dangle
       globalThis.__trayIconState = {
-        lastIconPath: iconPath,
+        lastIconKey: iconKey,
         lastTooltip: tooltip,
         updateCount,
         lastTick: tick,
       };
     }
 
-    // Use nativeImage to support both PNG and SVG
-    const image = nativeImage.createFromPath(iconPath);
-    if (!image.isEmpty()) {
-      // DO NOT use setTemplateImage for colored icons
-      // Template images are converted to monochrome by macOS
-      // Only use template mode for monochrome icons that should adapt to light/dark mode
-      if (process.platform === "darwin") {
-        // For colored tray icons, we need to disable template mode
-        image.setTemplateImage(false);
-      }
-      trayInstance.setImage(image);
-      trayInstance.setToolTip(tooltip);
-      // Update menu with current status
-      updateTrayMenu(tick);
-    } else {
-      logger.warn("Failed to load tray icon", { iconPath });
-    }
+    trayInstance.setToolTip(tooltip);
+    // Update menu with current status
+    updateTrayMenu(tick);
   } catch (error) {
     logger.error("Failed to update tray icon", toErrorPayload(error));
   }
 };
 
+/**
+ * Pause or resume monitoring from the tray or the local API
+ */
+const setMonitoringPaused = (paused: boolean): void => {
+  if (paused === isPaused) {
+    return;
+  }
+  isPaused = paused;
+  // Zones before a pause should not count towards reminders after it
+  reminderService.reset();
+  breakCoach.reset();
+
+  logger.info(`Monitoring ${isPaused ? "paused" : "resumed"}`);
+
+  // Send message to Worker Process to pause/resume
+  backgroundWorker.getWorker()?.postMessage({
+    type: WORKER_MESSAGES.setPaused,
+    payload: isPaused,
+  });
+
+  // Update tray icon to reflect paused state
+  if (isPaused) {
+    // The sparkline should not bridge the pause
+    trayScoreHistory.clear();
+    setTrayIcon({ kind: "paused" });
+    tray?.setToolTip("Posely - Paused");
+  } else if (latestEngineTick) {
+    // Resume: Update icon based on latest tick
+    updateTrayIcon(latestEngineTick);
+  }
+
+  // Broadcast status change to all renderer windows
+  BrowserWindow.getAllWindows().forEach((window) => {
+    window.webContents.send("app:status-changed", { isPaused });
+  });
+
+  // Rebuild menu to update label
+  updateTrayMenu(latestEngineTick);
+};
+
 const broadcastEngineTick = (tick: EngineTick) => {
   logger.info("🟢 broadcastEngineTick called", {
     score: tick.score,
@@ -520,29 +792,45 @@ const broadcastEngineTick = (tick: EngineTick) => {
     isPaused,
   });
 
+  if (!isPaused && isBadPostureTransition(latestEngineTick, tick)) {
+    webhookDispatcher.dispatch("posture.bad_posture", {
+      score: tick.score,
+      zone: tick.zone,
+      t: tick.t,
+    });
+  }
+
   latestEngineTick = tick;
 
   // Update tray icon based on score (unless manually paused)
   // When paused, keep the gray icon
   if (!isPaused) {
+    if (tick.presence === "PRESENT" && tick.reliability === "OK") {
+      trayScoreHistory.push(tick.t, tick.score);
+    }
     updateTrayIcon(tick);
+    reminderService.handleTick(tick);
+    breakCoach.handleTick(tick);
   }
 
   // Process tick for data aggregation
-  processEngineTick(tick);
+  processEngineTick(tick, activeProfileId);
 
   if (mainWindow) {
     mainWindow.webContents.send(IPC_CHANNELS.engineTick, tick);
   }
+
+  publishDashboardStreamTick(tick);
 };
 
 const forwardEngineTickToWorker = (tick: EngineTick) => {
-  if (!backgroundWorker) {
+  const worker = backgroundWorker.getWorker();
+  if (!worker) {
     return;
   }
 
   try {
-    backgroundWorker.postMessage({
+    worker.postMessage({
       type: WORKER_MESSAGES.engineTick,
       payload: tick,
     });
@@ -693,6 +981,10 @@ const appendSignalTrace = (
 app.commandLine.appendSwitch("enable-features", "SharedArrayBuffer");
 
 const broadcastCalibrationProgress = (progress: CalibrationProgress): void => {
+  publishDashboardStreamEvent(
+    DASHBOARD_STREAM_EVENTS.calibrationProgress,
+    progress,
+  );
   if (!mainWindow) {
     return;
   }
@@ -700,6 +992,10 @@ const broadcastCalibrationProgress = (progress: CalibrationProgress): void => {
 };
 
 const broadcastCalibrationFailure = (failure: CalibrationFailure): void => {
+  publishDashboardStreamEvent(
+    DASHBOARD_STREAM_EVENTS.calibrationFailed,
+    failure,
+  );
   if (!mainWindow) {
     return;
   }
@@ -709,12 +1005,32 @@ const broadcastCalibrationFailure = (failure: CalibrationFailure): void => {
 const broadcastCalibrationComplete = (
   payload: CalibrationCompletePayload,
 ): void => {
+  publishDashboardStreamEvent(
+    DASHBOARD_STREAM_EVENTS.calibrationComplete,
+    payload,
+  );
   if (!mainWindow) {
     return;
   }
   mainWindow.webContents.send(IPC_CHANNELS.calibrationComplete, payload);
 };
 
+/**
+ * Tell every window and stream client that stored posture data changed
+ */
+const broadcastPostureDataUpdated = (): void => {
+  const allWindows = BrowserWindow.getAllWindows();
+  allWindows.forEach((window) => {
+    if (!window.isDestroyed()) {
+      window.webContents.send(IPC_CHANNELS.postureDataUpdated);
+    }
+  });
+  publishDashboardStreamEvent(DASHBOARD_STREAM_EVENTS.postureDataUpdated);
+  logger.info("Broadcasted posture data update to all windows", {
+    windowCount: allWindows.length,
+  });
+};
+
 const resolveCustomThresholdsFromRecord = (
   record: PostureCalibrationRecord,
 ): CalibrationCustomThresholds | null => {
@@ -767,16 +1083,21 @@ const reliabilityTracker = {
   lastNudgeAt: 0,
 };
 
+const getCalibrationApplyMessage = (): WorkerMessage | null =>
+  activeCalibration
+    ? {
+        type: WORKER_MESSAGES.calibrationApply,
+        payload: {
+          thresholds: activeCalibration.thresholds,
+        },
+      }
+    : null;
+
 const notifyWorkerCalibrationApplied = (): void => {
-  if (!backgroundWorker || !activeCalibration) {
-    return;
+  const message = getCalibrationApplyMessage();
+  if (message) {
+    backgroundWorker.getWorker()?.postMessage(message);
   }
-  backgroundWorker.postMessage({
-    type: WORKER_MESSAGES.calibrationApply,
-    payload: {
-      thresholds: activeCalibration.thresholds,
-    },
-  });
 };
 
 const persistCalibrationResult = (
@@ -792,9 +1113,11 @@ const persistCalibrationResult = (
     sensitivity: result.sensitivity,
     customThresholds: result.customThresholds ?? undefined,
     calibratedAt: timestamp,
+    profileId: activeProfileId,
+    cameraKey: activeCameraKey,
   });
 
-  markPostureCalibrationActive(saved.id, saved.userId);
+  markPostureCalibrationActive(saved.id, saved.userId, saved.profileId);
 
   const hydrated = hydrateCalibrationPayload(saved);
   const payload: CalibrationCompletePayload = {
@@ -809,6 +1132,45 @@ const persistCalibrationResult = (
   return payload;
 };
 
+/**
+ * Switch to a previously stored calibration (local API). A calibration of an
+ * inactive profile becomes that profile's calibration and is applied when
+ * the profile is selected.
+ */
+const activateStoredCalibration = (
+  calibrationId: number,
+): PostureCalibrationRecord | null => {
+  const record = getPostureCalibrationById(calibrationId);
+  if (!record) {
+    return null;
+  }
+  markPostureCalibrationActive(record.id, record.userId, record.profileId);
+  if (record.profileId === activeProfileId) {
+    activeCalibration = hydrateCalibrationPayload(record);
+    reliabilityTracker.samples = [];
+    reliabilityTracker.lastNudgeAt = 0;
+    notifyWorkerCalibrationApplied();
+  }
+  logger.info("Activated stored calibration", {
+    calibrationId: record.id,
+    profileId: record.profileId,
+  });
+  return { ...record, isActive: true };
+};
+
+/**
+ * Load the active profile's calibration into the worker; a profile that was
+ * never calibrated leaves the worker on its current thresholds until the
+ * user calibrates
+ */
+const loadProfileCalibration = (): void => {
+  const record = getActivePostureCalibration(undefined, activeProfileId);
+  activeCalibration = record ? hydrateCalibrationPayload(record) : null;
+  reliabilityTracker.samples = [];
+  reliabilityTracker.lastNudgeAt = 0;
+  notifyWorkerCalibrationApplied();
+};
+
 const getWorkerCalibrationPayload = () => {
   if (!activeCalibration) {
     return null;
@@ -882,9 +1244,8 @@ const initializeAppUpdater = (): void => {
 const dispatchWorkerMessage = (message: WorkerMessage) => {
   if (!mainWindow) {
     if (message.type === WORKER_MESSAGES.engineTick) {
-      const enginePayload = (message.payload ?? null) as
-        | EngineTickPayload
-        | null;
+      const enginePayload = (message.payload ??
+        null) as EngineTickPayload | null;
       const tick = enginePayload?.tick ?? null;
       if (tick) {
         broadcastEngineTick(tick);
@@ -897,7 +1258,17 @@ const dispatchWorkerMessage = (message: WorkerMessage) => {
       return;
     }
 
-    pendingWorkerMessages.push(message);
+    const evicted = pendingWorkerMessages.push(message);
+    const dropped = pendingWorkerMessages.droppedCount();
+    if (
+      evicted &&
+      (dropped === 1 || dropped % MAX_PENDING_WORKER_MESSAGES === 0)
+    ) {
+      logger.warn("Pending worker message queue full, dropping oldest", {
+        type: evicted.type,
+        dropped,
+      });
+    }
     return;
   }
 
@@ -908,9 +1279,6 @@ const dispatchWorkerMessage = (message: WorkerMessage) => {
         IPC_CHANNELS.workerStatus,
         message.payload ?? null,
       );
-      if (message.type === WORKER_MESSAGES.ready) {
-        notifyWorkerCalibrationApplied();
-      }
       break;
     case WORKER_MESSAGES.pong:
       mainWindow.webContents.send(
@@ -1018,14 +1386,11 @@ const dispatchWorkerMessage = (message: WorkerMessage) => {
 };
 
 const flushPendingWorkerMessages = () => {
-  if (!mainWindow || pendingWorkerMessages.length === 0) {
+  if (!mainWindow || pendingWorkerMessages.size() === 0) {
     return;
   }
 
-  const messages = pendingWorkerMessages.splice(
-    0,
-    pendingWorkerMessages.length,
-  );
+  const messages = pendingWorkerMessages.drain();
   messages.forEach((message) => {
     dispatchWorkerMessage(message);
   });
@@ -1035,83 +1400,62 @@ const flushPendingWorkerMessages = () => {
   }
 };
 
-const WORKER_BUNDLE_FILES = {
-  packaged: "worker.js",
-  development: "worker.bundle.dev.js",
-} as const;
-
-const getWorkerEntrypoint = () =>
-  app.isPackaged
-    ? path.join(__dirname, WORKER_BUNDLE_FILES.packaged)
-    : path.join(__dirname, WORKER_BUNDLE_FILES.development);
+/**
+ * State a freshly started worker needs from main: the active calibration
+ * and, when monitoring is paused, the paused flag
+ */
+const getWorkerReplayMessages = (): WorkerMessage[] => {
+  const calibrationMessage = getCalibrationApplyMessage();
+  return [
+    ...(calibrationMessage ? [calibrationMessage] : []),
+    ...(isPaused ? [{ type: WORKER_MESSAGES.setPaused, payload: true }] : []),
+  ];
+};
 
-const startWorker = () => {
-  if (backgroundWorker) {
-    return backgroundWorker;
+/**
+ * Show a degraded state in the tray while the worker restarts, then restore
+ * the posture icon once it reports ready again
+ */
+const updateTrayForWorkerState = () => {
+  if (!tray) {
+    return;
+  }
+  if (backgroundWorker.getState() === "degraded") {
+    setTrayIcon({ kind: "unreliable" });
+    tray.setToolTip("Posely - Monitoring degraded, restarting…");
+  } else if (isPaused) {
+    tray.setToolTip("Posely - Paused");
+  } else if (latestEngineTick) {
+    updateTrayIcon(latestEngineTick);
   }
+  updateTrayMenu(latestEngineTick);
+};
 
-  const workerEntrypoint = getWorkerEntrypoint();
-  const guardrailOverrides = buildGuardrailOverridesFromRecord(
-    process.env as Record<string, string | undefined>,
-  );
-  const debugHeadPose = parseBooleanFlag(
-    process.env.POSELY_DEBUG_HEAD_POSE,
-    false,
-  );
-  const debugGuardrailsVerbose = parseBooleanFlag(
-    process.env.POSELY_DEBUG_GUARDRAILS_VERBOSE,
-    false,
-  );
+const handleWorkerStateChange = (state: WorkerSupervisorState) => {
+  if (state === "degraded" && pendingCalibration) {
+    const failure: CalibrationFailure = {
+      reason: "unknown",
+      message: "Calibration was interrupted because the worker restarted.",
+    };
+    broadcastCalibrationFailure(failure);
+    pendingCalibration.reject(new Error(failure.message));
+    pendingCalibration = null;
+  }
 
-  try {
-    backgroundWorker = new Worker(workerEntrypoint, {
-      workerData: {
-        guardrailOverrides,
-        debugHeadPose,
-        debugGuardrailsVerbose,
-      },
-    });
-    backgroundWorker.on("message", (message: WorkerMessage) => {
-      dispatchWorkerMessage(message);
-    });
-    backgroundWorker.on("error", (error) => {
-      logger.error("Worker process error", toErrorPayload(error));
-      captureException(error, { scope: "worker:error" });
-      dispatchWorkerMessage({
-        type: WORKER_MESSAGES.status,
-        payload: {
-          error: error instanceof Error ? error.message : String(error),
-        },
-      });
-    });
-    backgroundWorker.on("exit", (code) => {
-      if (code !== 0) {
-        logger.warn("Worker exited with non-zero code", {
-          code,
-        });
-        dispatchWorkerMessage({
-          type: WORKER_MESSAGES.status,
-          payload: {
-            error: `Worker exited with code ${code}`,
-          },
-        });
-      }
-      backgroundWorker = null;
-    });
-  } catch (error: unknown) {
-    logger.error("Failed to start background worker", toErrorPayload(error));
-    captureException(error, { scope: "worker:start" });
-    dispatchWorkerMessage({
-      type: WORKER_MESSAGES.status,
-      payload: {
-        error: error instanceof Error ? error.message : String(error),
-      },
+  if (state === "degraded" || state === "running") {
+    mainWindow?.webContents.send(IPC_CHANNELS.workerStatus, {
+      state: state === "running" ? "online" : "degraded",
+      observedAt: new Date().toISOString(),
     });
   }
 
-  return backgroundWorker;
+  updateTrayForWorkerState();
 };
 
+backgroundWorker.onMessage(dispatchWorkerMessage);
+backgroundWorker.onStateChange(handleWorkerStateChange);
+backgroundWorker.setReplayMessages(getWorkerReplayMessages);
+
 let securityConfigured = false;
 
 const configureSecurityHeaders = () => {
@@ -1176,15 +1520,17 @@ ipcMain.on(IPC_CHANNELS.rendererPing, (event, arg) => {
 });
 
 ipcMain.on(IPC_CHANNELS.workerRequest, (event) => {
-  if (!backgroundWorker) {
+  const worker = backgroundWorker.getWorker();
+  if (!worker) {
     event.sender.send(IPC_CHANNELS.workerStatus, {
-      state: "starting",
+      state:
+        backgroundWorker.getState() === "degraded" ? "degraded" : "starting",
       observedAt: new Date().toISOString(),
     });
     event.sender.send(IPC_CHANNELS.workerResponse, {
       error: "Background worker not running yet",
     });
-    startWorker();
+    backgroundWorker.start();
     return;
   }
 
@@ -1195,23 +1541,21 @@ ipcMain.on(IPC_CHANNELS.workerRequest, (event) => {
   if (latestEngineTick) {
     event.sender.send(IPC_CHANNELS.engineTick, latestEngineTick);
   }
-  backgroundWorker.postMessage({ type: WORKER_MESSAGES.ping });
+  worker.postMessage({ type: WORKER_MESSAGES.ping });
 });
 
-ipcMain.handle(IPC_CHANNELS.triggerMainError, () => {
+handleIpcInvoke(IPC_CHANNELS.triggerMainError, () => {
   throw new Error("Intentional Main Process Error from Renderer");
 });
 
-ipcMain.handle(IPC_CHANNELS.openCameraPrivacySettings, () =>
+handleIpcInvoke(IPC_CHANNELS.openCameraPrivacySettings, () =>
   openCameraSettings(),
 );
 
 ipcMain.on(IPC_CHANNELS.triggerWorkerError, () => {
-  if (backgroundWorker) {
-    backgroundWorker.postMessage({
-      type: WORKER_MESSAGES.triggerWorkerError,
-    });
-  }
+  backgroundWorker.getWorker()?.postMessage({
+    type: WORKER_MESSAGES.triggerWorkerError,
+  });
 });
 
 ipcMain.on(IPC_CHANNELS.signalTraceAppend, (_event, payload: unknown) => {
@@ -1249,7 +1593,8 @@ const isEngineFramePayload = (value: unknown): value is EngineFramePayload => {
 };
 
 ipcMain.on(IPC_CHANNELS.engineFrame, (_event, payload: unknown) => {
-  if (!backgroundWorker) {
+  const worker = backgroundWorker.getWorker();
+  if (!worker) {
     logger.warn("Engine frame received before worker initialised", {
       payload,
     });
@@ -1261,7 +1606,9 @@ ipcMain.on(IPC_CHANNELS.engineFrame, (_event, payload: unknown) => {
     return;
   }
 
-  backgroundWorker.postMessage({
+  recordEngineFrameMetrics(payload);
+
+  worker.postMessage({
     type: WORKER_MESSAGES.engineFrame,
     payload: {
       ...payload,
@@ -1278,17 +1625,17 @@ app.on("before-quit", () => {
     signalTraceHeaderWritten = false;
   }
 });
-ipcMain.handle(
+handleIpcInvoke(
   IPC_CHANNELS.calibrationStart,
-  (_event, payload: unknown): Promise<CalibrationCompletePayload> => {
-    if (!backgroundWorker) {
+  (_context, request): Promise<CalibrationCompletePayload> => {
+    const worker = backgroundWorker.getWorker();
+    if (!worker) {
       throw new Error("Calibration worker is not ready.");
     }
     if (pendingCalibration) {
       throw new Error("Calibration already in progress.");
     }
 
-    const request = (payload ?? null) as CalibrationStartRequest | null;
     const options = {
       sensitivity: request?.sensitivity,
       customThresholds: request?.customThresholds ?? null,
@@ -1299,7 +1646,7 @@ ipcMain.handle(
 
     return new Promise<CalibrationCompletePayload>((resolve, reject) => {
       pendingCalibration = { resolve, reject };
-      backgroundWorker?.postMessage({
+      worker.postMessage({
         type: WORKER_MESSAGES.calibrationStart,
         payload: options,
       });
@@ -1307,11 +1654,11 @@ ipcMain.handle(
   },
 );
 
-ipcMain.handle(IPC_CHANNELS.calibrationLoad, () => {
+handleIpcInvoke(IPC_CHANNELS.calibrationLoad, () => {
   if (activeCalibration) {
     return activeCalibration;
   }
-  const record = getActivePostureCalibration();
+  const record = getActivePostureCalibration(undefined, activeProfileId);
   if (!record) {
     return null;
   }
@@ -1323,14 +1670,9 @@ ipcMain.handle(IPC_CHANNELS.calibrationLoad, () => {
   return payload;
 });
 
-ipcMain.handle(
+handleIpcInvoke(
   IPC_CHANNELS.calibrationUpdateSensitivity,
-  (_event, payload: unknown) => {
-    const request = (payload ??
-      null) as CalibrationSensitivityUpdateRequest | null;
-    if (!request || typeof request.calibrationId !== "number") {
-      throw new Error("Invalid calibration sensitivity update request.");
-    }
+  (_context, request) => {
     const updated = updatePostureCalibrationSensitivity(
       request.calibrationId,
       request.sensitivity,
@@ -1339,7 +1681,7 @@ ipcMain.handle(
     if (!updated) {
       throw new Error("Calibration record not found.");
     }
-    markPostureCalibrationActive(updated.id, updated.userId);
+    markPostureCalibrationActive(updated.id, updated.userId, updated.profileId);
     const response = hydrateCalibrationPayload(updated);
     activeCalibration = response;
     reliabilityTracker.samples = [];
@@ -1349,14 +1691,19 @@ ipcMain.handle(
   },
 );
 
-ipcMain.handle(IPC_CHANNELS.requestCameraPermission, () =>
+handleIpcInvoke(IPC_CHANNELS.requestCameraPermission, () =>
   requestCameraPermission(),
 );
 
-ipcMain.handle(IPC_CHANNELS.getDailySummary, () => {
+handleIpcInvoke(IPC_CHANNELS.getDailySummary, (_context, profileId) => {
   try {
-    const summary = getTodaySummary();
-    const streak = calculateStreak();
+    const rule = getPostureGoalRule();
+    // Streaks always follow the combined totals
+    const summary =
+      profileId === undefined
+        ? getTodaySummary(rule)
+        : getProfileTodaySummary(profileId, rule);
+    const streak = calculateStreak(rule);
     return summary ? { ...summary, streak } : null;
   } catch (error) {
     logger.error("Failed to get daily summary", toErrorPayload(error));
@@ -1364,9 +1711,12 @@ ipcMain.handle(IPC_CHANNELS.getDailySummary, () => {
   }
 });
 
-ipcMain.handle(IPC_CHANNELS.getWeeklySummary, () => {
+handleIpcInvoke(IPC_CHANNELS.getWeeklySummary, (_context, profileId) => {
   try {
-    const weeklySummary = getWeeklySummary();
+    const weeklySummary =
+      profileId === undefined
+        ? getWeeklySummary()
+        : getProfileWeeklySummary(profileId, getPostureGoalRule());
     return weeklySummary;
   } catch (error) {
     logger.error("Failed to get weekly summary", toErrorPayload(error));
@@ -1374,39 +1724,311 @@ ipcMain.handle(IPC_CHANNELS.getWeeklySummary, () => {
   }
 });
 
-ipcMain.handle(IPC_CHANNELS.getSetting, (_event, key: string) => {
+handleIpcInvoke(IPC_CHANNELS.getPostureHeatmap, () => {
   try {
-    return getSetting(key);
+    return getPostureHeatmap(DASHBOARD_HEATMAP_DAYS);
   } catch (error) {
-    logger.error("Failed to get setting", toErrorPayload(error));
+    logger.error("Failed to get posture heatmap", toErrorPayload(error));
+    return [];
+  }
+});
+
+handleIpcInvoke(IPC_CHANNELS.getRangeSummary, (_context, from, to) => {
+  const range = parseSummaryRange(from, to);
+  if (!range.ok) {
+    logger.warn("Rejected range summary request", { error: range.error });
+    return null;
+  }
+  try {
+    return getRangeSummary(range.value.from, range.value.to);
+  } catch (error) {
+    logger.error("Failed to get range summary", toErrorPayload(error));
     return null;
   }
 });
 
-ipcMain.handle(
-  IPC_CHANNELS.setSetting,
-  (_event, key: string, value: string) => {
-    try {
-      setSetting(key, value);
+handleIpcInvoke(IPC_CHANNELS.getMonthSummary, (_context, year, month) => {
+  const period = parseSummaryMonth(year, month);
+  if (!period.ok) {
+    logger.warn("Rejected month summary request", { error: period.error });
+    return null;
+  }
+  try {
+    return getMonthSummary(period.value.year, period.value.month);
+  } catch (error) {
+    logger.error("Failed to get month summary", toErrorPayload(error));
+    return null;
+  }
+});
 
-      // Handle launch at startup setting
-      if (key === "launchAtStartup") {
-        const enabled = value === "true";
-        app.setLoginItemSettings({
-          openAtLogin: enabled,
-        });
-        logger.info(`Launch at startup ${enabled ? "enabled" : "disabled"}`);
-      }
+handleIpcInvoke(IPC_CHANNELS.getYearSummary, (_context, year) => {
+  const period = parseSummaryYear(year);
+  if (!period.ok) {
+    logger.warn("Rejected year summary request", { error: period.error });
+    return null;
+  }
+  try {
+    return getYearSummary(period.value);
+  } catch (error) {
+    logger.error("Failed to get year summary", toErrorPayload(error));
+    return null;
+  }
+});
+
+handleIpcInvoke(IPC_CHANNELS.getBestStreak, () => {
+  try {
+    return getBestStreak(getPostureGoalRule());
+  } catch (error) {
+    logger.error("Failed to get best streak", toErrorPayload(error));
+    return null;
+  }
+});
+
+handleIpcInvoke(IPC_CHANNELS.getWeekOverWeekSummary, () => {
+  try {
+    return getWeekOverWeekSummary();
+  } catch (error) {
+    logger.error("Failed to get week-over-week summary", toErrorPayload(error));
+    return null;
+  }
+});
 
-      return { success: true };
+handleIpcInvoke(IPC_CHANNELS.getPostureGoal, () => {
+  try {
+    return getPostureGoalRule();
+  } catch (error) {
+    logger.error("Failed to get posture goal", toErrorPayload(error));
+    return DEFAULT_POSTURE_GOAL_RULE;
+  }
+});
+
+handleIpcInvoke(IPC_CHANNELS.getSetting, (_context, key) => {
+  try {
+    return getSettingValue(key);
+  } catch (error) {
+    logger.error("Failed to get setting", toErrorPayload(error));
+    return getSettingDefault(key);
+  }
+});
+
+handleIpcInvoke(IPC_CHANNELS.getAllSettings, () => {
+  try {
+    return getAllSettingValues();
+  } catch (error) {
+    logger.error("Failed to get settings", toErrorPayload(error));
+    return getSettingDefaults();
+  }
+});
+
+handleIpcInvoke(IPC_CHANNELS.setSetting, (_context, key, value) => {
+  try {
+    return updateSettingValue(key, value);
+  } catch (error) {
+    logger.error("Failed to set setting", toErrorPayload(error));
+    return { success: false as const, error: String(error) };
+  }
+});
+
+onSettingChanged((change) => {
+  if (change.key === "launchAtStartup") {
+    app.setLoginItemSettings({
+      openAtLogin: change.value,
+    });
+    logger.info(`Launch at startup ${change.value ? "enabled" : "disabled"}`);
+  }
+
+  if (change.key === "dayStartHour") {
+    setDayStartHour(change.value);
+    logger.info(`Day now starts at ${change.value}:00`);
+    broadcastPostureDataUpdated();
+  }
+
+  if (change.key === "streamTickIntervalMs") {
+    setDashboardStreamTickInterval(change.value);
+  }
+
+  if (isBreakCycleSettingKey(change.key)) {
+    breakCoach.setConfig(getBreakCycleConfig());
+  }
+
+  if (change.key === "trayIconStyle" || change.key === "trayIconMonochrome") {
+    loadTrayIconSettings();
+    if (!isPaused && latestEngineTick) {
+      updateTrayIcon(latestEngineTick);
+    }
+  }
+
+  if (change.key === "deferRemindersWhilePresenting") {
+    if (change.value) {
+      reminderService.startPresentationDetection();
+    } else {
+      reminderService.stopPresentationDetection();
+    }
+  }
+
+  if (isPostureGoalSettingKey(change.key)) {
+    try {
+      recomputeDailyGoals(getPostureGoalRule());
+      broadcastPostureDataUpdated();
     } catch (error) {
-      logger.error("Failed to set setting", toErrorPayload(error));
-      return { success: false, error: String(error) };
+      logger.error(
+        "Failed to apply posture goal change",
+        toErrorPayload(error),
+      );
     }
-  },
+  }
+
+  BrowserWindow.getAllWindows().forEach((window) => {
+    if (!window.isDestroyed()) {
+      window.webContents.send(IPC_CHANNELS.settingsChanged, change);
+    }
+  });
+});
+
+handleIpcInvoke(IPC_CHANNELS.exportPostureData, ({ event }, request) =>
+  exportPostureHistory(
+    request ?? {},
+    BrowserWindow.fromWebContents(event.sender),
+  ),
+);
+
+handleIpcInvoke(IPC_CHANNELS.previewPostureImport, ({ event }, request) =>
+  previewPostureImport(request, BrowserWindow.fromWebContents(event.sender)),
+);
+
+handleIpcInvoke(IPC_CHANNELS.commitPostureImport, () => {
+  const result = commitPostureImport();
+  if (result.ok) {
+    // Imported calibrations can take over as the active one
+    if (result.diff.calibrations.inserted > 0) {
+      loadProfileCalibration();
+    }
+    broadcastPostureDataUpdated();
+  }
+  return result;
+});
+
+handleIpcInvoke(IPC_CHANNELS.listApiTokens, () => listApiTokens());
+
+handleIpcInvoke(IPC_CHANNELS.createApiToken, (_context, name) =>
+  createApiToken(name),
+);
+
+handleIpcInvoke(IPC_CHANNELS.revokeApiToken, (_context, id) =>
+  revokeApiToken(id),
+);
+
+handleIpcInvoke(IPC_CHANNELS.listWebhooks, () => listWebhooks());
+
+handleIpcInvoke(IPC_CHANNELS.createWebhook, (_context, input) =>
+  createWebhook(input),
 );
 
-ipcMain.handle(IPC_CHANNELS.reCalibrate, async () => {
+handleIpcInvoke(IPC_CHANNELS.setWebhookEnabled, (_context, id, enabled) =>
+  setWebhookEnabled(id, enabled),
+);
+
+handleIpcInvoke(IPC_CHANNELS.deleteWebhook, (_context, id) =>
+  deleteWebhook(id),
+);
+
+handleIpcInvoke(IPC_CHANNELS.sendWebhookTest, (_context, id) =>
+  webhookDispatcher.sendTestEvent(id),
+);
+
+handleIpcInvoke(IPC_CHANNELS.listWebhookDeliveries, () => {
+  try {
+    return listWebhookDeliveries(WEBHOOK_DELIVERY_LOG_LIMIT);
+  } catch (error) {
+    logger.error("Failed to list webhook deliveries", toErrorPayload(error));
+    return [];
+  }
+});
+
+/**
+ * Re-read the profile list for the tray menu and push it to every window
+ */
+const refreshProfiles = (): void => {
+  try {
+    cachedProfiles = listProfiles();
+  } catch (error) {
+    logger.error("Failed to list monitoring profiles", toErrorPayload(error));
+  }
+  updateTrayMenu(latestEngineTick);
+  BrowserWindow.getAllWindows().forEach((window) => {
+    if (!window.isDestroyed()) {
+      window.webContents.send(IPC_CHANNELS.profilesChanged, cachedProfiles);
+    }
+  });
+};
+
+/**
+ * Make a profile active from the tray menu or the settings screen
+ */
+const switchMonitoringProfile = (id: number) => {
+  const result = activateProfile(id);
+  if (result.ok) {
+    refreshProfiles();
+  } else {
+    logger.warn("Failed to switch monitoring profile", {
+      id,
+      error: result.error,
+    });
+  }
+  return result;
+};
+
+onActiveProfileChanged((profile) => {
+  if (profile.id === activeProfileId) {
+    return;
+  }
+  activeProfileId = profile.id;
+  loadProfileCalibration();
+  logger.info("Switched monitoring profile", { profileId: profile.id });
+});
+
+handleIpcInvoke(IPC_CHANNELS.listProfiles, () => {
+  try {
+    return listProfiles();
+  } catch (error) {
+    logger.error("Failed to list monitoring profiles", toErrorPayload(error));
+    return [];
+  }
+});
+
+handleIpcInvoke(IPC_CHANNELS.createProfile, (_context, input) => {
+  const result = createProfile(input);
+  if (result.ok) {
+    refreshProfiles();
+  }
+  return result;
+});
+
+handleIpcInvoke(IPC_CHANNELS.updateProfile, (_context, id, update) => {
+  const result = updateProfile(id, update);
+  if (result.ok) {
+    refreshProfiles();
+  }
+  return result;
+});
+
+handleIpcInvoke(IPC_CHANNELS.deleteProfile, (_context, id) => {
+  const result = deleteProfile(id);
+  if (result.ok) {
+    refreshProfiles();
+  }
+  return result;
+});
+
+handleIpcInvoke(IPC_CHANNELS.activateProfile, (_context, id) =>
+  switchMonitoringProfile(id),
+);
+
+/**
+ * Open the standalone calibration screen in the main window, creating the
+ * window when needed. Used by the settings screen and the local API.
+ */
+const startRecalibration = async (): Promise<RecalibrationResult> => {
   try {
     logger.info("Re-calibrate requested, starting standalone calibration");
 
@@ -1461,6 +2083,131 @@ ipcMain.handle(IPC_CHANNELS.reCalibrate, async () => {
     logger.error("Failed to handle re-calibrate", toErrorPayload(error));
     return { success: false, error: String(error) };
   }
+};
+
+handleIpcInvoke(IPC_CHANNELS.reCalibrate, () => startRecalibration());
+
+/**
+ * Ask whether to calibrate now after switching to a profile that has no
+ * baseline for the camera in use
+ */
+const promptCameraCalibration = (profile: MonitoringProfile): void => {
+  if (isCameraCalibrationPromptOpen) {
+    return;
+  }
+  isCameraCalibrationPromptOpen = true;
+  const options: MessageBoxOptions = {
+    type: "question",
+    buttons: ["Calibrate now", "Later"],
+    defaultId: 0,
+    cancelId: 1,
+    message: "New camera detected",
+    detail: `Posely switched to the "${profile.name}" profile for this camera. Calibrate it so posture scores match how the camera sees you.`,
+  };
+  const prompt =
+    mainWindow && !mainWindow.isDestroyed()
+      ? dialog.showMessageBox(mainWindow, options)
+      : dialog.showMessageBox(options);
+  prompt
+    .then(({ response }) => (response === 0 ? startRecalibration() : null))
+    .catch((error: unknown) => {
+      logger.error("Camera calibration prompt failed", toErrorPayload(error));
+    })
+    .finally(() => {
+      isCameraCalibrationPromptOpen = false;
+    });
+};
+
+handleIpcInvoke(
+  IPC_CHANNELS.reportCameraDevice,
+  (_context, camera): CameraProfileResult => {
+    activeCameraKey = toCameraKey(camera);
+    if (!getSettingValue("autoSwitchProfileByCamera")) {
+      return { ok: false, error: "Automatic profile switching is off" };
+    }
+
+    const result = resolveProfileForCamera(camera);
+    if (!result.ok) {
+      logger.warn("Failed to resolve profile for camera", {
+        error: result.error,
+      });
+      return result;
+    }
+    if (result.outcome !== "unchanged") {
+      refreshProfiles();
+    }
+    if (
+      result.needsCalibration &&
+      (result.outcome === "switched" || result.outcome === "created")
+    ) {
+      promptCameraCalibration(result.profile);
+    }
+    return result;
+  },
+);
+
+reminderService.onPreferencesChange((preferences) => {
+  updateTrayMenu(latestEngineTick);
+  BrowserWindow.getAllWindows().forEach((window) => {
+    if (!window.isDestroyed()) {
+      window.webContents.send(
+        IPC_CHANNELS.notificationPreferencesChanged,
+        preferences,
+      );
+    }
+  });
+});
+
+handleIpcInvoke(IPC_CHANNELS.getNotificationPreferences, () => {
+  try {
+    return getNotificationPreferences();
+  } catch (error) {
+    logger.error(
+      "Failed to read notification preferences",
+      toErrorPayload(error),
+    );
+    return reminderService.getPreferences();
+  }
+});
+
+handleIpcInvoke(
+  IPC_CHANNELS.updateNotificationPreferences,
+  (_context, update) => {
+    const result = updateNotificationPreferences(update);
+    if (result.ok) {
+      reminderService.applyPreferences(result.preferences);
+    }
+    return result;
+  },
+);
+
+handleIpcInvoke(IPC_CHANNELS.setDoNotDisturb, (_context, until) =>
+  reminderService.setDoNotDisturb(until),
+);
+
+handleIpcInvoke(IPC_CHANNELS.getBreakCoachState, () => breakCoach.getState());
+
+handleIpcInvoke(IPC_CHANNELS.completeStretchBreak, () => {
+  breakCoach.completeStretch();
+  return breakCoach.getState();
+});
+
+handleIpcInvoke(IPC_CHANNELS.skipBreak, () => {
+  breakCoach.skipBreak();
+  return breakCoach.getState();
+});
+
+handleIpcInvoke(IPC_CHANNELS.getBreakAdherence, (_context, days = 7) => {
+  try {
+    const to = getTodayLocalDate();
+    return getDailyBreakLogsInRange(
+      addDaysToLocalDate(to, -(Math.min(Math.max(days, 1), 366) - 1)),
+      to,
+    );
+  } catch (error) {
+    logger.error("Failed to read break adherence", toErrorPayload(error));
+    return [];
+  }
 });
 
 if (process.env.NODE_ENV === "production") {
@@ -1483,7 +2230,7 @@ const shouldInstallDevtoolsExtensions =
 if (isDebug || process.env.NODE_ENV === "test") {
   // eslint-disable-next-line no-underscore-dangle
   globalThis.__trayIconState = {
-    lastIconPath: "",
+    lastIconKey: "",
     lastTooltip: "",
     updateCount: 0,
     lastTick: null,
@@ -1624,24 +2371,16 @@ const createDashboardWindow = () => {
 
 /**
  * Initialize the system tray icon
- * Starts with gray (neutral) icon until first EngineTick received
+ * Starts with the idle (neutral) icon until first EngineTick received
  */
 const createTray = () => {
   if (tray) {
     return tray;
   }
 
-  const iconPath = getAssetPath("icons", "tray-gray.png");
-  const image = nativeImage.createFromPath(iconPath);
-
-  // DO NOT use setTemplateImage for colored icons
-  // Template images are converted to monochrome by macOS
-  if (process.platform === "darwin") {
-    image.setTemplateImage(false);
-  }
-
   try {
-    tray = new Tray(image);
+    tray = new Tray(nativeImage.createEmpty());
+    setTrayIcon({ kind: "idle" });
     tray.setToolTip("Posely - Starting up…");
 
     // Initialize context menu with organized structure
@@ -1649,7 +2388,7 @@ const createTray = () => {
     updateTrayMenu(null);
 
     logger.info("Tray icon initialized with organized menu structure", {
-      iconPath,
+      iconKey: trayIconKey,
       platform: process.platform,
     });
   } catch (error) {
@@ -1667,8 +2406,7 @@ const createWindow = async () => {
   }
 
   // Check if onboarding has been completed
-  const onboardingCompleted = getSetting("onboardingCompleted");
-  const shouldShowOnboarding = onboardingCompleted !== "true";
+  const shouldShowOnboarding = !getSettingValue("onboardingCompleted");
 
   if (shouldShowOnboarding) {
     logger.info("First launch detected, showing onboarding wizard");
@@ -1805,6 +2543,19 @@ const createWindow = async () => {
   initializeAppUpdater();
 };
 
+const focusMainWindow = (): void => {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.show();
+    mainWindow.focus();
+    return;
+  }
+  createWindow().catch((error: unknown) => {
+    logger.error("Failed to create main window", toErrorPayload(error));
+  });
+};
+
+reminderService.onNotificationClick(focusMainWindow);
+
 /**
  * Add event listeners...
  */
@@ -1813,16 +2564,10 @@ app.on("before-quit", () => {
   // Stop posture data aggregator and save any pending data
   stopPostureDataAggregator();
   stopDashboardHttpServer();
+  webhookDispatcher.stop();
+  reminderService.stopPresentationDetection();
 
-  if (backgroundWorker) {
-    backgroundWorker.terminate().catch((error: unknown) => {
-      logger.warn(
-        "Failed to terminate background worker",
-        toErrorPayload(error),
-      );
-    });
-    backgroundWorker = null;
-  }
+  backgroundWorker.stop();
 
   // Clean up tray icon
   if (tray) {
@@ -1866,24 +2611,62 @@ const onAppReady = async () => {
 
   registerCalibrationHandler({
     onBaselineSaved: () => {
-      if (backgroundWorker) {
-        backgroundWorker.postMessage({
-          type: WORKER_MESSAGES.refreshBaseline,
-        });
-      }
+      backgroundWorker.getWorker()?.postMessage({
+        type: WORKER_MESSAGES.refreshBaseline,
+      });
     },
   });
 
-  const existingCalibration = getActivePostureCalibration();
+  const unhandledChannels = getUnhandledIpcInvokeChannels();
+  if (unhandledChannels.length > 0) {
+    logger.warn("IPC contract channels without a main handler", {
+      channels: unhandledChannels,
+    });
+  }
+
+  refreshProfiles();
+  try {
+    reminderService.applyPreferences(getNotificationPreferences());
+  } catch (error) {
+    logger.error(
+      "Failed to load notification preferences",
+      toErrorPayload(error),
+    );
+  }
+  breakCoach.setConfig(getBreakCycleConfig());
+  if (getSettingValue("deferRemindersWhilePresenting")) {
+    reminderService.startPresentationDetection();
+  }
+  loadTrayIconSettings();
+  activeProfileId = getActiveProfile().id;
+  const existingCalibration = getActivePostureCalibration(
+    undefined,
+    activeProfileId,
+  );
   if (existingCalibration) {
     activeCalibration = hydrateCalibrationPayload(existingCalibration);
     notifyWorkerCalibrationApplied();
   }
 
+  // Apply the day boundary before any posture data is recorded
+  try {
+    setDayStartHour(getSettingValue("dayStartHour"));
+  } catch (error) {
+    logger.warn("Failed to apply day start hour", toErrorPayload(error));
+  }
+
+  try {
+    setDashboardStreamTickInterval(getSettingValue("streamTickIntervalMs"));
+  } catch (error) {
+    logger.warn(
+      "Failed to apply dashboard stream tick interval",
+      toErrorPayload(error),
+    );
+  }
+
   // Apply launch at startup setting
   try {
-    const launchAtStartupValue = getSetting("launchAtStartup");
-    const enabled = launchAtStartupValue === "true";
+    const enabled = getSettingValue("launchAtStartup");
     app.setLoginItemSettings({
       openAtLogin: enabled,
     });
@@ -1909,21 +2692,44 @@ const onAppReady = async () => {
   }
   // Initialize tray icon before starting worker and window
   createTray();
+  setDashboardApiControls({
+    getLatestTick: () => latestEngineTick,
+    isMonitoringPaused: () => isPaused,
+    setMonitoringPaused,
+    activateCalibration: activateStoredCalibration,
+    startRecalibration: () => {
+      startRecalibration().catch((error: unknown) => {
+        logger.error("Failed to start recalibration", toErrorPayload(error));
+      });
+    },
+  });
   startDashboardHttpServer();
+  // Webhooks are optional; a broken delivery log must not stop startup
+  try {
+    webhookDispatcher.resumePending();
+  } catch (error) {
+    logger.error(
+      "Failed to resume pending webhook deliveries",
+      toErrorPayload(error),
+    );
+  }
+  checkDailyWebhookEvents(webhookDispatcher.dispatch);
   // Start posture data aggregator with callback to broadcast updates
   startPostureDataAggregator(() => {
-    // Broadcast data update to all windows
-    const allWindows = BrowserWindow.getAllWindows();
-    allWindows.forEach((window) => {
-      if (!window.isDestroyed()) {
-        window.webContents.send(IPC_CHANNELS.postureDataUpdated);
-      }
-    });
-    logger.info("Broadcasted posture data update to all windows", {
-      windowCount: allWindows.length,
-    });
+    broadcastPostureDataUpdated();
+    checkDailyWebhookEvents(webhookDispatcher.dispatch);
+  });
+  // Persist pending posture data before the machine sleeps or powers off;
+  // before-quit is not emitted when the OS shuts down
+  powerMonitor.on("suspend", () => {
+    logger.info("System suspending, saving posture data");
+    suspendPostureDataAggregator();
+  });
+  powerMonitor.on("shutdown", () => {
+    logger.info("System shutting down, saving posture data");
+    suspendPostureDataAggregator();
   });
-  startWorker();
+  backgroundWorker.start();
   await createWindow();
 
   // DEV ONLY: Add keyboard shortcuts to test tray icon with different scores
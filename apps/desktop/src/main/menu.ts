@@ -3,10 +3,12 @@ import {
   Menu,
   MenuItemConstructorOptions,
   app,
+  dialog,
   shell,
 } from "electron";
 import { autoUpdater } from "electron-updater";
 import { getLogger, toErrorPayload } from "../shared/logger";
+import { exportPostureHistory } from "./postureExport";
 import { createSettingsWindow } from "./windows/settingsWindow";
 
 interface DarwinMenuItemConstructorOptions extends MenuItemConstructorOptions {
@@ -59,6 +61,24 @@ export default class MenuBuilder {
     });
   }
 
+  exportPostureData(): void {
+    exportPostureHistory({}, this.mainWindow)
+      .then((result) => {
+        if (!result.ok && !result.canceled) {
+          dialog.showErrorBox(
+            "Export Failed",
+            result.error ?? "Posture data could not be exported.",
+          );
+        }
+      })
+      .catch((error: unknown) => {
+        logger.error(
+          "Failed to export posture data from menu",
+          toErrorPayload(error),
+        );
+      });
+  }
+
   buildDarwinTemplate(): MenuItemConstructorOptions[] {
     const subMenuAbout: DarwinMenuItemConstructorOptions = {
       label: APP_NAME,
@@ -94,6 +114,12 @@ export default class MenuBuilder {
             }
           },
         },
+        {
+          label: "Export Posture Data…",
+          click: () => {
+            this.exportPostureData();
+          },
+        },
         { type: "separator" },
         { label: "Services", submenu: [] },
         { type: "separator" },
@@ -287,6 +313,12 @@ export default class MenuBuilder {
               }
             },
           },
+          {
+            label: "&Export Posture Data…",
+            click: () => {
+              this.exportPostureData();
+            },
+          },
           { type: "separator" as const },
           {
             label: "&Open",
@@ -0,0 +1,270 @@
+import { getLogger } from "../shared/logger";
+import {
+  DEFAULT_NOTIFICATION_SCHEDULES,
+  NOTIFICATION_SCHEDULE_LIMITS,
+  NOTIFICATION_TYPES,
+  type NotificationPreferences,
+  type NotificationPreferencesResult,
+  type NotificationSchedule,
+  type NotificationType,
+  type QuietHours,
+} from "../shared/types/notifications";
+import { getSetting, setSetting } from "./database/settingsRepository";
+
+const logger = getLogger("notification-preferences", "main");
+
+/** Settings row holding the JSON notification preferences; not part of the registry */
+export const NOTIFICATION_PREFERENCES_SETTING_KEY = "notificationPreferences";
+
+const MINUTES_PER_DAY = 24 * 60;
+const DAYS_PER_WEEK = 7;
+
+const DEFAULT_QUIET_HOURS: QuietHours = {
+  enabled: false,
+  startMinute: 22 * 60,
+  endMinute: 7 * 60,
+};
+
+export const createDefaultNotificationPreferences =
+  (): NotificationPreferences => ({
+    schedules: { ...DEFAULT_NOTIFICATION_SCHEDULES },
+    quietHours: Array.from({ length: DAYS_PER_WEEK }, () => ({
+      ...DEFAULT_QUIET_HOURS,
+    })),
+    doNotDisturbUntil: null,
+  });
+
+const isIntegerInRange = (value: unknown, min: number, max: number) =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= min &&
+  value <= max;
+
+const validateSchedule = (
+  type: NotificationType,
+  value: unknown,
+): NotificationSchedule | string => {
+  const { minDelayMinutes, maxDelayMinutes, maxRepeats } =
+    NOTIFICATION_SCHEDULE_LIMITS;
+  if (typeof value !== "object" || value === null) {
+    return `Schedule for ${type} must be an object`;
+  }
+  const schedule = value as Record<string, unknown>;
+  if (typeof schedule.enabled !== "boolean") {
+    return `Schedule for ${type} needs an enabled flag`;
+  }
+  if (
+    !isIntegerInRange(
+      schedule.firstDelayMinutes,
+      minDelayMinutes,
+      maxDelayMinutes,
+    ) ||
+    !isIntegerInRange(
+      schedule.repeatIntervalMinutes,
+      minDelayMinutes,
+      maxDelayMinutes,
+    )
+  ) {
+    return `Delays for ${type} must be whole minutes between ${minDelayMinutes} and ${maxDelayMinutes}`;
+  }
+  if (!isIntegerInRange(schedule.maxRepeats, 0, maxRepeats)) {
+    return `Repeats for ${type} must be between 0 and ${maxRepeats}`;
+  }
+  return {
+    enabled: schedule.enabled,
+    firstDelayMinutes: schedule.firstDelayMinutes as number,
+    repeatIntervalMinutes: schedule.repeatIntervalMinutes as number,
+    maxRepeats: schedule.maxRepeats as number,
+  };
+};
+
+const validateQuietHours = (value: unknown): QuietHours[] | string => {
+  if (!Array.isArray(value) || value.length !== DAYS_PER_WEEK) {
+    return `Quiet hours need one entry per weekday`;
+  }
+  const windows = value.map((entry: unknown): QuietHours | null => {
+    if (typeof entry !== "object" || entry === null) {
+      return null;
+    }
+    const window = entry as Record<string, unknown>;
+    return typeof window.enabled === "boolean" &&
+      isIntegerInRange(window.startMinute, 0, MINUTES_PER_DAY - 1) &&
+      isIntegerInRange(window.endMinute, 0, MINUTES_PER_DAY - 1)
+      ? {
+          enabled: window.enabled,
+          startMinute: window.startMinute as number,
+          endMinute: window.endMinute as number,
+        }
+      : null;
+  });
+  return windows.every((window): window is QuietHours => window !== null)
+    ? windows
+    : "Quiet hours must be minutes within a day";
+};
+
+/**
+ * Read the stored preferences, falling back to defaults for anything missing
+ * or invalid so a bad row never silences or floods reminders
+ */
+const readPreferences = (): NotificationPreferences => {
+  const preferences = createDefaultNotificationPreferences();
+  const raw = getSetting(NOTIFICATION_PREFERENCES_SETTING_KEY);
+  if (!raw) {
+    return preferences;
+  }
+
+  try {
+    const stored = JSON.parse(raw) as Partial<Record<string, unknown>>;
+    const schedules = (stored.schedules ?? {}) as Record<string, unknown>;
+    NOTIFICATION_TYPES.forEach((type) => {
+      const schedule = validateSchedule(type, schedules[type]);
+      if (typeof schedule !== "string") {
+        preferences.schedules[type] = schedule;
+      }
+    });
+    const quietHours = validateQuietHours(stored.quietHours);
+    if (typeof quietHours !== "string") {
+      preferences.quietHours = quietHours;
+    }
+    if (
+      typeof stored.doNotDisturbUntil === "number" &&
+      Number.isFinite(stored.doNotDisturbUntil)
+    ) {
+      preferences.doNotDisturbUntil = stored.doNotDisturbUntil;
+    }
+  } catch (error) {
+    logger.warn("Ignoring unreadable notification preferences", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+  return preferences;
+};
+
+const writePreferences = (preferences: NotificationPreferences): void => {
+  setSetting(NOTIFICATION_PREFERENCES_SETTING_KEY, JSON.stringify(preferences));
+};
+
+/**
+ * Current preferences; an expired do-not-disturb reads as off
+ */
+export const getNotificationPreferences = (
+  now: number = Date.now(),
+): NotificationPreferences => {
+  const preferences = readPreferences();
+  if (
+    preferences.doNotDisturbUntil !== null &&
+    preferences.doNotDisturbUntil <= now
+  ) {
+    preferences.doNotDisturbUntil = null;
+  }
+  return preferences;
+};
+
+/**
+ * Replace the schedules and/or quiet hours. Schedules may be given for some
+ * reminder types only; quiet hours are always replaced as a whole week.
+ */
+export const updateNotificationPreferences = (
+  input: unknown,
+  now: number = Date.now(),
+): NotificationPreferencesResult => {
+  const fields =
+    typeof input === "object" && input !== null
+      ? (input as Record<string, unknown>)
+      : {};
+  const preferences = getNotificationPreferences(now);
+
+  if (fields.schedules !== undefined) {
+    if (typeof fields.schedules !== "object" || fields.schedules === null) {
+      return { ok: false, error: "Schedules must be an object" };
+    }
+    const schedules = fields.schedules as Record<string, unknown>;
+    const updates = NOTIFICATION_TYPES.filter(
+      (type) => schedules[type] !== undefined,
+    ).map((type) => [type, validateSchedule(type, schedules[type])] as const);
+    const invalid = updates.find(
+      ([, schedule]) => typeof schedule === "string",
+    );
+    if (invalid) {
+      return { ok: false, error: invalid[1] as string };
+    }
+    updates.forEach(([type, schedule]) => {
+      preferences.schedules[type] = schedule as NotificationSchedule;
+    });
+  }
+
+  if (fields.quietHours !== undefined) {
+    const quietHours = validateQuietHours(fields.quietHours);
+    if (typeof quietHours === "string") {
+      return { ok: false, error: quietHours };
+    }
+    preferences.quietHours = quietHours;
+  }
+
+  writePreferences(preferences);
+  logger.info("Updated notification preferences");
+  return { ok: true, preferences };
+};
+
+/**
+ * Hold reminders until `until` (epoch ms); null or a past time turns
+ * do-not-disturb off
+ */
+export const setDoNotDisturbUntil = (
+  until: number | null,
+  now: number = Date.now(),
+): NotificationPreferences => {
+  const preferences = getNotificationPreferences(now);
+  preferences.doNotDisturbUntil =
+    until !== null && Number.isFinite(until) && until > now ? until : null;
+  writePreferences(preferences);
+  logger.info("Updated do not disturb", {
+    until: preferences.doNotDisturbUntil,
+  });
+  return preferences;
+};
+
+const isWithinWindow = (window: QuietHours | undefined, minute: number) => {
+  if (!window?.enabled) {
+    return false;
+  }
+  if (window.startMinute === window.endMinute) {
+    return true;
+  }
+  return window.startMinute < window.endMinute
+    ? minute >= window.startMinute && minute < window.endMinute
+    : minute >= window.startMinute;
+};
+
+/**
+ * Whether `date` falls in the quiet hours of its weekday, or in the
+ * after-midnight part of the previous weekday's window
+ */
+export const isWithinQuietHours = (
+  quietHours: QuietHours[],
+  date: Date,
+): boolean => {
+  const minute = date.getHours() * 60 + date.getMinutes();
+  const day = date.getDay();
+  if (isWithinWindow(quietHours[day], minute)) {
+    return true;
+  }
+  const previous = quietHours[(day + DAYS_PER_WEEK - 1) % DAYS_PER_WEEK];
+  return (
+    previous !== undefined &&
+    previous.enabled &&
+    previous.startMinute > previous.endMinute &&
+    minute < previous.endMinute
+  );
+};
+
+/**
+ * Whether reminders should be held at `now`, by do-not-disturb or quiet hours
+ */
+export const isNotificationQuietTime = (
+  preferences: NotificationPreferences,
+  now: number,
+): boolean =>
+  (preferences.doNotDisturbUntil !== null &&
+    now < preferences.doNotDisturbUntil) ||
+  isWithinQuietHours(preferences.quietHours, new Date(now));
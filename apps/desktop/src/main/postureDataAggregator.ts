@@ -1,34 +1,98 @@
 import { getLogger, toErrorPayload } from "../shared/logger";
+import { meetsPostureGoal } from "../shared/posture/postureGoal";
+import { toLocalDateString } from "../shared/time";
 import type { EngineTick } from "../shared/types/engine";
-import { STREAK_THRESHOLD } from "./database/constants";
+import { DEFAULT_MONITORING_PROFILE_ID } from "../shared/types/profiles";
+import { upsertDailyPostureProfileLog } from "./database/dailyPostureProfileRepository";
+import { upsertDailyPostureLog } from "./database/dailyPostureRepository";
 import {
-  getTodayDateString,
-  upsertDailyPostureLog,
-} from "./database/dailyPostureRepository";
+  appendPostureTickJournalEntry,
+  commitPostureTickJournal,
+  listPostureTickJournal,
+} from "./database/postureTickJournalRepository";
+import {
+  applyPostureTimelineRetention,
+  getMinuteStart,
+  upsertPostureTimelineBucket,
+} from "./database/postureTimelineRepository";
+import type { PostureTickJournalRow } from "./database/schema";
+import { getPostureGoalRule } from "./settingsService";
 
 const logger = getLogger("posture-aggregator", "main");
 
-type AccumulatorState = {
+/**
+ * Daily totals not yet written to daily_posture_logs. Kept per date so a
+ * failed flush around midnight never mixes two days.
+ */
+type PendingDayTotals = {
+  secondsInGreen: number;
+  secondsInYellow: number;
+  secondsInRed: number;
+  scoreSum: number;
+  sampleCount: number;
+};
+
+/** A day's pending totals attributed to one monitoring profile */
+type PendingProfileDayTotals = PendingDayTotals & {
   date: string;
+  profileId: number;
+};
+
+/** A processed tick as stored in the journal */
+type TickContribution = Omit<PostureTickJournalRow, "id">;
+
+/**
+ * Per-minute bucket for the intraday posture timeline.
+ * Presence and reliability time are counted for every tick; zone time, scores
+ * and metrics only for present + reliable ticks (same rule as the daily totals).
+ */
+type TimelineBucketState = {
+  bucketStart: number;
   secondsInGreen: number;
   secondsInYellow: number;
   secondsInRed: number;
+  secondsPresent: number;
+  secondsReliable: number;
   scoreSum: number;
+  minScore: number | null;
+  pitchSum: number;
+  ehdSum: number;
+  dprSum: number;
   sampleCount: number;
-  lastTickTime: number | null;
-  isDirty: boolean;
 };
 
-let accumulator: AccumulatorState = {
-  date: getTodayDateString(),
+const createTimelineBucket = (bucketStart: number): TimelineBucketState => ({
+  bucketStart,
   secondsInGreen: 0,
   secondsInYellow: 0,
   secondsInRed: 0,
+  secondsPresent: 0,
+  secondsReliable: 0,
   scoreSum: 0,
+  minScore: null,
+  pitchSum: 0,
+  ehdSum: 0,
+  dprSum: 0,
   sampleCount: 0,
-  lastTickTime: null,
-  isDirty: false,
-};
+});
+
+const isTimelineBucketEmpty = (bucket: TimelineBucketState): boolean =>
+  bucket.sampleCount === 0 &&
+  bucket.secondsPresent === 0 &&
+  bucket.secondsReliable === 0;
+
+// Local date of the last processed tick, used to detect day changes
+let currentDate: string | null = null;
+let lastTickTime: number | null = null;
+let pendingDays = new Map<string, PendingDayTotals>();
+// Keyed by `${date}:${profileId}`
+let pendingProfileDays = new Map<string, PendingProfileDayTotals>();
+
+let timelineBucket: TimelineBucketState | null = null;
+let completedTimelineBuckets: TimelineBucketState[] = [];
+
+// Highest journal id folded into the in-memory state, trimmed on flush
+let lastJournalId: number | null = null;
 
 let saveInterval: ReturnType<typeof setInterval> | null = null;
 let onDataSavedCallback: (() => void) | null = null;
@@ -36,121 +100,335 @@ let onDataSavedCallback: (() => void) | null = null;
 const SAVE_INTERVAL_MS = 60000; // Save every 60 seconds
 
 /**
- * Reset accumulator if date has changed (new day)
+ * Roll up and prune old timeline rows so the database does not grow unbounded
  */
-const checkAndResetForNewDay = () => {
-  const today = getTodayDateString();
-  if (accumulator.date !== today) {
-    logger.info("New day detected, resetting accumulator", {
-      oldDate: accumulator.date,
-      newDate: today,
-    });
-    accumulator = {
-      date: today,
-      secondsInGreen: 0,
-      secondsInYellow: 0,
-      secondsInRed: 0,
-      scoreSum: 0,
-      sampleCount: 0,
-      lastTickTime: null,
-      isDirty: false,
-    };
+const runTimelineRetention = (): void => {
+  try {
+    applyPostureTimelineRetention();
+  } catch (error) {
+    logger.error(
+      "Failed to apply posture timeline retention",
+      toErrorPayload(error),
+    );
   }
 };
 
 /**
- * Process an EngineTick and update the in-memory accumulator
+ * Update the current minute bucket of the timeline with a tick
+ * Buckets are placed on wall-clock time (tick.t may be a monotonic timestamp)
  */
-export const processEngineTick = (tick: EngineTick): void => {
-  try {
-    checkAndResetForNewDay();
+const accumulateTimelineTick = (contribution: TickContribution): void => {
+  const bucketStart = getMinuteStart(contribution.receivedAt);
 
-    const currentTime = tick.t;
-    let secondsElapsed = 1; // Default to 1 second
+  if (timelineBucket && timelineBucket.bucketStart !== bucketStart) {
+    completedTimelineBuckets.push(timelineBucket);
+    timelineBucket = null;
+  }
+  if (!timelineBucket) {
+    timelineBucket = createTimelineBucket(bucketStart);
+  }
 
-    // Calculate elapsed time since last tick if available
-    if (accumulator.lastTickTime !== null) {
-      const elapsedMs = currentTime - accumulator.lastTickTime;
-      secondsElapsed = Math.max(1, Math.round(elapsedMs / 1000));
-    }
+  const bucket = timelineBucket;
+  const { secondsElapsed } = contribution;
+  const isPresent = contribution.presence === "PRESENT";
+  const isReliable = contribution.reliability === "OK";
 
-    accumulator.lastTickTime = currentTime;
-
-    // Only accumulate if user is present and system is reliable
-    if (tick.presence === "PRESENT" && tick.reliability === "OK") {
-      // Increment zone time
-      if (tick.zone === "GREEN") {
-        accumulator.secondsInGreen += secondsElapsed;
-      } else if (tick.zone === "YELLOW") {
-        accumulator.secondsInYellow += secondsElapsed;
-      } else if (tick.zone === "RED") {
-        accumulator.secondsInRed += secondsElapsed;
-      }
-
-      // Accumulate score for averaging
-      accumulator.scoreSum += tick.score;
-      accumulator.sampleCount += 1;
-
-      accumulator.isDirty = true;
-
-      logger.debug("EngineTick processed", {
-        zone: tick.zone,
-        score: tick.score,
-        secondsElapsed,
-        totalSamples: accumulator.sampleCount,
-      });
-    }
-  } catch (error) {
-    logger.error("Failed to process EngineTick", toErrorPayload(error));
+  if (isPresent) {
+    bucket.secondsPresent += secondsElapsed;
   }
+  if (isReliable) {
+    bucket.secondsReliable += secondsElapsed;
+  }
+  if (!isPresent || !isReliable) {
+    return;
+  }
+
+  if (contribution.zone === "GREEN") {
+    bucket.secondsInGreen += secondsElapsed;
+  } else if (contribution.zone === "YELLOW") {
+    bucket.secondsInYellow += secondsElapsed;
+  } else if (contribution.zone === "RED") {
+    bucket.secondsInRed += secondsElapsed;
+  }
+
+  bucket.scoreSum += contribution.score;
+  bucket.minScore =
+    bucket.minScore === null
+      ? contribution.score
+      : Math.min(bucket.minScore, contribution.score);
+  bucket.pitchSum += contribution.pitchDeg;
+  bucket.ehdSum += contribution.ehdNorm;
+  bucket.dprSum += contribution.dpr;
+  bucket.sampleCount += 1;
+};
+
+const createPendingDayTotals = (): PendingDayTotals => ({
+  secondsInGreen: 0,
+  secondsInYellow: 0,
+  secondsInRed: 0,
+  scoreSum: 0,
+  sampleCount: 0,
+});
+
+const addTickToTotals = (
+  totals: PendingDayTotals,
+  contribution: TickContribution,
+): void => {
+  if (contribution.zone === "GREEN") {
+    totals.secondsInGreen += contribution.secondsElapsed;
+  } else if (contribution.zone === "YELLOW") {
+    totals.secondsInYellow += contribution.secondsElapsed;
+  } else if (contribution.zone === "RED") {
+    totals.secondsInRed += contribution.secondsElapsed;
+  }
+
+  // Accumulate score for averaging
+  totals.scoreSum += contribution.score;
+  totals.sampleCount += 1;
+};
+
+/**
+ * Add a tick to the pending daily totals and its profile's share of them
+ * Only ticks where the user is present and the system is reliable count
+ */
+const accumulateDailyTick = (contribution: TickContribution): void => {
+  if (
+    contribution.presence !== "PRESENT" ||
+    contribution.reliability !== "OK"
+  ) {
+    return;
+  }
+
+  const totals = pendingDays.get(contribution.date) ?? createPendingDayTotals();
+  addTickToTotals(totals, contribution);
+  pendingDays.set(contribution.date, totals);
+
+  const profileKey = `${contribution.date}:${contribution.profileId}`;
+  const profileTotals = pendingProfileDays.get(profileKey) ?? {
+    ...createPendingDayTotals(),
+    date: contribution.date,
+    profileId: contribution.profileId,
+  };
+  addTickToTotals(profileTotals, contribution);
+  pendingProfileDays.set(profileKey, profileTotals);
+};
+
+const applyTickContribution = (contribution: TickContribution): void => {
+  accumulateTimelineTick(contribution);
+  accumulateDailyTick(contribution);
 };
 
 /**
- * Save accumulated data to database
+ * Write pending daily totals and timeline buckets, then trim the journal
+ * Everything is committed in one transaction; on failure the in-memory state
+ * and the journal are kept and the next flush retries.
  */
-const saveAccumulatedData = (): void => {
-  if (!accumulator.isDirty || accumulator.sampleCount === 0) {
+const savePendingData = (): void => {
+  const buckets = completedTimelineBuckets.filter(
+    (bucket) => !isTimelineBucketEmpty(bucket),
+  );
+  if (timelineBucket && !isTimelineBucketEmpty(timelineBucket)) {
+    buckets.push(timelineBucket);
+  }
+  const days = [...pendingDays.entries()];
+  const profileDays = [...pendingProfileDays.values()];
+
+  if (buckets.length === 0 && days.length === 0 && lastJournalId === null) {
     return;
   }
 
+  const throughId = lastJournalId;
+
   try {
-    const avgScore = accumulator.scoreSum / accumulator.sampleCount;
-    const meetsGoal = avgScore >= STREAK_THRESHOLD ? 1 : 0;
-
-    // Save all accumulated data in one upsert
-    upsertDailyPostureLog({
-      date: accumulator.date,
-      secondsInGreen: accumulator.secondsInGreen,
-      secondsInYellow: accumulator.secondsInYellow,
-      secondsInRed: accumulator.secondsInRed,
-      avgScore,
-      sampleCount: accumulator.sampleCount,
-      meetsGoal,
+    const rule = getPostureGoalRule();
+
+    commitPostureTickJournal(throughId, () => {
+      buckets.forEach((bucket) => {
+        const { sampleCount } = bucket;
+        upsertPostureTimelineBucket({
+          bucketStart: bucket.bucketStart,
+          date: toLocalDateString(bucket.bucketStart),
+          secondsInGreen: bucket.secondsInGreen,
+          secondsInYellow: bucket.secondsInYellow,
+          secondsInRed: bucket.secondsInRed,
+          secondsPresent: bucket.secondsPresent,
+          secondsReliable: bucket.secondsReliable,
+          avgScore: sampleCount > 0 ? bucket.scoreSum / sampleCount : 0,
+          minScore: bucket.minScore,
+          avgPitchDeg: sampleCount > 0 ? bucket.pitchSum / sampleCount : 0,
+          avgEhdNorm: sampleCount > 0 ? bucket.ehdSum / sampleCount : 0,
+          avgDpr: sampleCount > 0 ? bucket.dprSum / sampleCount : 0,
+          sampleCount,
+        });
+      });
+
+      // Pending totals are deltas since the last flush; the repository adds
+      // them to the stored row and evaluates the goal on the combined totals
+      days.forEach(([date, totals]) => {
+        const avgScore = totals.scoreSum / totals.sampleCount;
+        upsertDailyPostureLog(
+          {
+            date,
+            secondsInGreen: totals.secondsInGreen,
+            secondsInYellow: totals.secondsInYellow,
+            secondsInRed: totals.secondsInRed,
+            avgScore,
+            sampleCount: totals.sampleCount,
+            meetsGoal: meetsPostureGoal({ ...totals, avgScore }, rule) ? 1 : 0,
+          },
+          rule,
+        );
+      });
+
+      profileDays.forEach((totals) => {
+        upsertDailyPostureProfileLog({
+          date: totals.date,
+          profileId: totals.profileId,
+          secondsInGreen: totals.secondsInGreen,
+          secondsInYellow: totals.secondsInYellow,
+          secondsInRed: totals.secondsInRed,
+          avgScore: totals.scoreSum / totals.sampleCount,
+          sampleCount: totals.sampleCount,
+        });
+      });
     });
+  } catch (error) {
+    logger.error("Failed to save accumulated data", toErrorPayload(error));
+    return;
+  }
+
+  // The in-progress bucket is reset rather than dropped because upserts accumulate
+  completedTimelineBuckets = [];
+  if (timelineBucket) {
+    timelineBucket = createTimelineBucket(timelineBucket.bucketStart);
+  }
+  pendingDays = new Map();
+  pendingProfileDays = new Map();
+  if (lastJournalId === throughId) {
+    lastJournalId = null;
+  }
 
-    logger.info("Saved accumulated posture data", {
-      date: accumulator.date,
-      secondsInGreen: accumulator.secondsInGreen,
-      secondsInYellow: accumulator.secondsInYellow,
-      secondsInRed: accumulator.secondsInRed,
-      avgScore,
-      sampleCount: accumulator.sampleCount,
-      meetsGoal,
+  logger.info("Saved accumulated posture data", {
+    dates: days.map(([date]) => date),
+    bucketCount: buckets.length,
+    journalThroughId: throughId,
+  });
+
+  // Notify listeners that data has been updated
+  if (days.length > 0 && onDataSavedCallback) {
+    onDataSavedCallback();
+  }
+};
+
+/**
+ * Flush the previous day before the first tick of a new day is counted
+ */
+const checkForNewDay = (date: string): void => {
+  if (currentDate !== null && currentDate !== date) {
+    logger.info("New day detected, saving previous day", {
+      oldDate: currentDate,
+      newDate: date,
     });
+    savePendingData();
+    runTimelineRetention();
+  }
+  currentDate = date;
+};
+
+/**
+ * Record a tick in the journal so it survives a crash before the next flush
+ * A failed append is logged; the tick is still kept in memory.
+ */
+const journalTickContribution = (contribution: TickContribution): void => {
+  try {
+    lastJournalId = appendPostureTickJournalEntry(contribution);
+  } catch (error) {
+    logger.error("Failed to journal EngineTick", toErrorPayload(error));
+  }
+};
+
+/**
+ * Fold ticks left in the journal by a previous run into the pending state and
+ * persist them
+ */
+const replayTickJournal = (): void => {
+  let entries: PostureTickJournalRow[];
+  try {
+    entries = listPostureTickJournal();
+  } catch (error) {
+    logger.error("Failed to read posture tick journal", toErrorPayload(error));
+    return;
+  }
 
-    accumulator.isDirty = false;
+  if (entries.length === 0) {
+    return;
+  }
+
+  entries.forEach(({ id, ...contribution }) => {
+    applyTickContribution(contribution);
+    lastJournalId = id;
+  });
+
+  logger.info("Replaying posture tick journal", {
+    entryCount: entries.length,
+  });
+  savePendingData();
+};
+
+/**
+ * Process an EngineTick: journal it and update the in-memory state
+ * @param profileId Monitoring profile that was active when the tick arrived
+ */
+export const processEngineTick = (
+  tick: EngineTick,
+  profileId: number = DEFAULT_MONITORING_PROFILE_ID,
+): void => {
+  try {
+    const receivedAt = Date.now();
+    const date = toLocalDateString(receivedAt);
+    checkForNewDay(date);
+
+    const currentTime = tick.t;
+    let secondsElapsed = 1; // Default to 1 second
 
-    // Notify listeners that data has been updated
-    if (onDataSavedCallback) {
-      onDataSavedCallback();
+    // Calculate elapsed time since last tick if available
+    if (lastTickTime !== null) {
+      const elapsedMs = currentTime - lastTickTime;
+      secondsElapsed = Math.max(1, Math.round(elapsedMs / 1000));
     }
+
+    lastTickTime = currentTime;
+
+    const contribution: TickContribution = {
+      receivedAt,
+      date,
+      secondsElapsed,
+      presence: tick.presence,
+      reliability: tick.reliability,
+      zone: tick.zone,
+      score: tick.score,
+      pitchDeg: tick.metrics.pitchDeg,
+      ehdNorm: tick.metrics.ehdNorm,
+      dpr: tick.metrics.dpr,
+      profileId,
+    };
+
+    journalTickContribution(contribution);
+    applyTickContribution(contribution);
+
+    logger.debug("EngineTick processed", {
+      zone: tick.zone,
+      score: tick.score,
+      secondsElapsed,
+      pendingSamples: pendingDays.get(date)?.sampleCount ?? 0,
+    });
   } catch (error) {
-    logger.error("Failed to save accumulated data", toErrorPayload(error));
+    logger.error("Failed to process EngineTick", toErrorPayload(error));
   }
 };
 
 /**
- * Start the periodic save interval
+ * Replay the tick journal and start the periodic save interval
  */
 export const startPostureDataAggregator = (onDataSaved?: () => void): void => {
   if (saveInterval) {
@@ -160,9 +438,10 @@ export const startPostureDataAggregator = (onDataSaved?: () => void): void => {
 
   onDataSavedCallback = onDataSaved || null;
 
-  saveInterval = setInterval(() => {
-    saveAccumulatedData();
-  }, SAVE_INTERVAL_MS);
+  replayTickJournal();
+  runTimelineRetention();
+
+  saveInterval = setInterval(savePendingData, SAVE_INTERVAL_MS);
 
   logger.info("Posture data aggregator started", {
     saveIntervalMs: SAVE_INTERVAL_MS,
@@ -179,30 +458,36 @@ export const stopPostureDataAggregator = (): void => {
   }
 
   // Save any remaining data before stopping
-  saveAccumulatedData();
+  savePendingData();
 
   logger.info("Posture data aggregator stopped");
 };
 
+/**
+ * Save pending data before the system suspends or shuts down
+ * The next tick starts a fresh interval so time asleep is not counted.
+ */
+export const suspendPostureDataAggregator = (): void => {
+  savePendingData();
+  lastTickTime = null;
+};
+
 /**
  * Force save accumulated data immediately (useful for testing)
  */
 export const forceSavePostureData = (): void => {
-  saveAccumulatedData();
+  savePendingData();
 };
 
 /**
- * Reset the accumulator state (useful for testing)
+ * Reset the in-memory state (useful for testing)
  */
 export const resetAccumulator = (): void => {
-  accumulator = {
-    date: getTodayDateString(),
-    secondsInGreen: 0,
-    secondsInYellow: 0,
-    secondsInRed: 0,
-    scoreSum: 0,
-    sampleCount: 0,
-    lastTickTime: null,
-    isDirty: false,
-  };
+  currentDate = null;
+  lastTickTime = null;
+  pendingDays = new Map();
+  pendingProfileDays = new Map();
+  timelineBucket = null;
+  completedTimelineBuckets = [];
+  lastJournalId = null;
 };
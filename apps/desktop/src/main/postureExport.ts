@@ -0,0 +1,360 @@
+import { BrowserWindow, dialog } from "electron";
+import { promises as fs } from "fs";
+import path from "path";
+import { getLogger, toErrorPayload } from "../shared/logger";
+import { toLocalDateString } from "../shared/time";
+import type { PostureCalibrationRecord } from "../shared/types/calibration";
+import {
+  POSTURE_EXPORT_SCHEMA_VERSION,
+  type PostureExportCalibration,
+  type PostureExportDocument,
+  type PostureExportFormat,
+  type PostureExportRange,
+  type PostureExportRequest,
+  type PostureExportResult,
+} from "../shared/types/export";
+import { API_TOKENS_SETTING_KEY } from "./apiTokenService";
+import { listPostureCalibrations } from "./database/calibrationRepository";
+import { listDailyPostureProfileLogs } from "./database/dailyPostureProfileRepository";
+import { getDailyPostureLogsInRange } from "./database/dailyPostureRepository";
+import { listMonitoringProfiles } from "./database/monitoringProfileRepository";
+import { getAllSettings } from "./database/settingsRepository";
+import { WEBHOOKS_SETTING_KEY } from "./webhookService";
+
+const logger = getLogger("posture-export", "main");
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// listPostureCalibrations is paged for the UI; exports need the full history
+const EXPORT_CALIBRATION_LIMIT = 100_000;
+
+const DAILY_LOG_COLUMNS = [
+  "date",
+  "seconds_in_green",
+  "seconds_in_yellow",
+  "seconds_in_red",
+  "avg_score",
+  "sample_count",
+  "meets_goal",
+] as const;
+
+const PROFILE_COLUMNS = [
+  "id",
+  "name",
+  "performance_mode",
+  "camera_key",
+] as const;
+
+const PROFILE_DAILY_LOG_COLUMNS = [
+  "date",
+  "profile_id",
+  "seconds_in_green",
+  "seconds_in_yellow",
+  "seconds_in_red",
+  "avg_score",
+  "sample_count",
+] as const;
+
+const CALIBRATION_COLUMNS = [
+  "id",
+  "user_id",
+  "profile_id",
+  "camera_key",
+  "calibrated_at",
+  "baseline_pitch",
+  "baseline_ehd",
+  "baseline_dpr",
+  "quality",
+  "sample_count",
+  "sensitivity",
+  "custom_pitch_threshold",
+  "custom_ehd_threshold",
+  "custom_dpr_threshold",
+  "is_active",
+  "created_at",
+  "updated_at",
+] as const;
+
+const isValidDateString = (value: string): boolean => {
+  if (!DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const [year, month, day] = value.split("-").map(Number) as [
+    number,
+    number,
+    number,
+  ];
+  const date = new Date(year, month - 1, day);
+  return (
+    date.getFullYear() === year &&
+    date.getMonth() === month - 1 &&
+    date.getDate() === day
+  );
+};
+
+/**
+ * Validate and normalise the requested date range
+ * Empty strings are treated as an open bound
+ */
+export const normaliseExportRange = (
+  request: PostureExportRequest = {},
+): PostureExportRange => {
+  const from = request.from?.trim() || null;
+  const to = request.to?.trim() || null;
+
+  if (from && !isValidDateString(from)) {
+    throw new Error(`Invalid export start date: ${from}`);
+  }
+  if (to && !isValidDateString(to)) {
+    throw new Error(`Invalid export end date: ${to}`);
+  }
+  if (from && to && from > to) {
+    throw new Error("Export start date must not be after the end date");
+  }
+
+  return { from, to };
+};
+
+const isWithinRange = (date: string, range: PostureExportRange): boolean =>
+  (!range.from || date >= range.from) && (!range.to || date <= range.to);
+
+const toExportCalibration = (
+  record: PostureCalibrationRecord,
+): PostureExportCalibration => ({
+  ...record,
+  calibratedAt: new Date(record.calibratedAt).toISOString(),
+  createdAt: new Date(record.createdAt).toISOString(),
+  updatedAt: new Date(record.updatedAt).toISOString(),
+});
+
+/**
+ * Collect daily logs, profiles with their share of each day, calibration
+ * history and settings for the given range
+ */
+export const buildPostureExportDocument = (
+  range: PostureExportRange,
+  now: Date = new Date(),
+): PostureExportDocument => {
+  const dailyLogs = getDailyPostureLogsInRange(range.from, range.to);
+  const calibrations = listPostureCalibrations(1, EXPORT_CALIBRATION_LIMIT)
+    .filter((record) =>
+      isWithinRange(toLocalDateString(record.calibratedAt), range),
+    )
+    .sort((a, b) => a.calibratedAt - b.calibratedAt)
+    .map(toExportCalibration);
+
+  return {
+    schemaVersion: POSTURE_EXPORT_SCHEMA_VERSION,
+    exportedAt: now.toISOString(),
+    range,
+    dailyLogs,
+    profiles: listMonitoringProfiles().map(
+      ({ id, name, performanceMode, cameraKey }) => ({
+        id,
+        name,
+        performanceMode,
+        cameraKey,
+      }),
+    ),
+    profileDailyLogs: listDailyPostureProfileLogs(range.from, range.to).map(
+      ({
+        date,
+        profileId,
+        secondsInGreen,
+        secondsInYellow,
+        secondsInRed,
+        avgScore,
+        sampleCount,
+      }) => ({
+        date,
+        profileId,
+        secondsInGreen,
+        secondsInYellow,
+        secondsInRed,
+        avgScore,
+        sampleCount,
+      }),
+    ),
+    calibrations,
+    // API token hashes and webhook secrets are credentials and never leave
+    // this machine
+    settings: Object.fromEntries(
+      Object.entries(getAllSettings()).filter(
+        ([key]) =>
+          key !== API_TOKENS_SETTING_KEY && key !== WEBHOOKS_SETTING_KEY,
+      ),
+    ),
+  };
+};
+
+const escapeCsvCell = (value: string | number | boolean | null): string => {
+  if (value === null) {
+    return "";
+  }
+  const text = typeof value === "boolean" ? (value ? "1" : "0") : String(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+const toCsvRow = (cells: (string | number | boolean | null)[]): string =>
+  cells.map(escapeCsvCell).join(",");
+
+/**
+ * Serialise an export document to the sectioned CSV layout documented in
+ * shared/types/export.ts
+ */
+export const serializePostureExportCsv = (
+  document: PostureExportDocument,
+): string => {
+  const lines: string[] = [
+    `# posely-export,schemaVersion=${document.schemaVersion},exportedAt=${
+      document.exportedAt
+    },from=${document.range.from ?? ""},to=${document.range.to ?? ""}`,
+    "",
+    "# daily_logs",
+    DAILY_LOG_COLUMNS.join(","),
+    ...document.dailyLogs.map((log) =>
+      toCsvRow([
+        log.date,
+        log.secondsInGreen,
+        log.secondsInYellow,
+        log.secondsInRed,
+        log.avgScore,
+        log.sampleCount,
+        log.meetsGoal,
+      ]),
+    ),
+    "",
+    "# profiles",
+    PROFILE_COLUMNS.join(","),
+    ...document.profiles.map((profile) =>
+      toCsvRow([
+        profile.id,
+        profile.name,
+        profile.performanceMode,
+        profile.cameraKey,
+      ]),
+    ),
+    "",
+    "# profile_daily_logs",
+    PROFILE_DAILY_LOG_COLUMNS.join(","),
+    ...document.profileDailyLogs.map((log) =>
+      toCsvRow([
+        log.date,
+        log.profileId,
+        log.secondsInGreen,
+        log.secondsInYellow,
+        log.secondsInRed,
+        log.avgScore,
+        log.sampleCount,
+      ]),
+    ),
+    "",
+    "# calibrations",
+    CALIBRATION_COLUMNS.join(","),
+    ...document.calibrations.map((calibration) =>
+      toCsvRow([
+        calibration.id,
+        calibration.userId,
+        calibration.profileId ?? null,
+        calibration.cameraKey ?? null,
+        calibration.calibratedAt,
+        calibration.baselinePitch,
+        calibration.baselineEHD,
+        calibration.baselineDPR,
+        calibration.quality,
+        calibration.sampleCount,
+        calibration.sensitivity,
+        calibration.customPitchThreshold,
+        calibration.customEHDThreshold,
+        calibration.customDPRThreshold,
+        calibration.isActive,
+        calibration.createdAt,
+        calibration.updatedAt,
+      ]),
+    ),
+    "",
+    "# settings",
+    "key,value",
+    ...Object.entries(document.settings).map(([key, value]) =>
+      toCsvRow([key, value]),
+    ),
+  ];
+
+  return `${lines.join("\n")}\n`;
+};
+
+export const serializePostureExport = (
+  document: PostureExportDocument,
+  format: PostureExportFormat,
+): string =>
+  format === "csv"
+    ? serializePostureExportCsv(document)
+    : `${JSON.stringify(document, null, 2)}\n`;
+
+const resolveFormatFromPath = (
+  filePath: string,
+  fallback: PostureExportFormat,
+): PostureExportFormat => {
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === ".csv") return "csv";
+  if (extension === ".json") return "json";
+  return fallback;
+};
+
+/**
+ * Ask the user for a destination and write the posture history export
+ */
+export const exportPostureHistory = async (
+  request: PostureExportRequest = {},
+  parentWindow: BrowserWindow | null = null,
+): Promise<PostureExportResult> => {
+  try {
+    const range = normaliseExportRange(request);
+    const preferredFormat = request.format ?? "json";
+    const suffix = [range.from, range.to].filter(Boolean).join("_to_");
+    const defaultName = `posely-export${suffix ? `-${suffix}` : ""}.${preferredFormat}`;
+    const filters = [
+      { name: "JSON", extensions: ["json"] },
+      { name: "CSV", extensions: ["csv"] },
+    ];
+
+    const options = {
+      title: "Export Posture Data",
+      defaultPath: defaultName,
+      filters: preferredFormat === "csv" ? filters.reverse() : filters,
+    };
+    const { canceled, filePath } = parentWindow
+      ? await dialog.showSaveDialog(parentWindow, options)
+      : await dialog.showSaveDialog(options);
+
+    if (canceled || !filePath) {
+      logger.info("Posture export canceled by user");
+      return { ok: false, canceled: true };
+    }
+
+    const format = resolveFormatFromPath(filePath, preferredFormat);
+    const document = buildPostureExportDocument(range);
+    await fs.writeFile(
+      filePath,
+      serializePostureExport(document, format),
+      "utf-8",
+    );
+
+    const counts = {
+      dailyLogs: document.dailyLogs.length,
+      calibrations: document.calibrations.length,
+      settings: Object.keys(document.settings).length,
+    };
+    logger.info("Exported posture history", { filePath, format, ...counts });
+    return { ok: true, filePath, format, counts };
+  } catch (error) {
+    logger.error("Failed to export posture history", toErrorPayload(error));
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+};
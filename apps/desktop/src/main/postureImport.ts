@@ -0,0 +1,308 @@
+import { BrowserWindow, dialog } from "electron";
+import { promises as fs } from "fs";
+import path from "path";
+import { getLogger, toErrorPayload } from "../shared/logger";
+import type {
+  PostureExportDocument,
+  PostureImportRequest,
+  PostureImportResult,
+  PostureImportStrategy,
+} from "../shared/types/export";
+import { validatePostureBackup } from "../shared/validation/postureBackup";
+import { restorePostureBackup } from "./database/postureBackupRepository";
+import { getPostureGoalRule } from "./settingsService";
+
+const logger = getLogger("posture-import", "main");
+
+const IMPORT_STRATEGIES: readonly PostureImportStrategy[] = [
+  "max-samples",
+  "sum",
+  "overwrite",
+];
+
+type PendingImport = {
+  filePath: string;
+  strategy: PostureImportStrategy;
+  document: PostureExportDocument;
+};
+
+// Backup previewed by the last dry run, waiting for the user to confirm
+let pendingImport: PendingImport | null = null;
+
+/**
+ * Split CSV text into rows of cells, honouring quoted cells
+ */
+export const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+const toCsvNumber = (cell: string | undefined): number | null =>
+  cell === undefined || cell === "" ? null : Number(cell);
+
+/**
+ * Convert the sectioned CSV export back into the JSON document shape so both
+ * formats go through the same schema validation
+ */
+export const parsePostureBackupCsv = (text: string): unknown => {
+  const sections = new Map<string, Record<string, string>[]>();
+  const meta: Record<string, string> = {};
+  let section: string | null = null;
+  let header: string[] | null = null;
+
+  parseCsvRows(text).forEach((cells) => {
+    const first = cells[0] ?? "";
+    if (cells.length === 1 && first === "") {
+      section = null;
+      header = null;
+      return;
+    }
+    if (first.startsWith("# posely-export")) {
+      cells.slice(1).forEach((entry) => {
+        const [key, ...value] = entry.split("=");
+        if (key) {
+          meta[key] = value.join("=");
+        }
+      });
+      return;
+    }
+    if (first.startsWith("# ")) {
+      section = first.slice(2).trim();
+      header = null;
+      sections.set(section, []);
+      return;
+    }
+    if (!section) {
+      return;
+    }
+    if (!header) {
+      header = cells;
+      return;
+    }
+    const columns = header;
+    sections
+      .get(section)
+      ?.push(
+        Object.fromEntries(
+          columns.map((column, index) => [column, cells[index] ?? ""]),
+        ),
+      );
+  });
+
+  return {
+    schemaVersion: toCsvNumber(meta.schemaVersion),
+    exportedAt: meta.exportedAt,
+    range: { from: meta.from || null, to: meta.to || null },
+    dailyLogs: (sections.get("daily_logs") ?? []).map((row) => ({
+      date: row.date,
+      secondsInGreen: toCsvNumber(row.seconds_in_green),
+      secondsInYellow: toCsvNumber(row.seconds_in_yellow),
+      secondsInRed: toCsvNumber(row.seconds_in_red),
+      avgScore: toCsvNumber(row.avg_score),
+      sampleCount: toCsvNumber(row.sample_count),
+      meetsGoal: toCsvNumber(row.meets_goal),
+    })),
+    profiles: (sections.get("profiles") ?? []).map((row) => ({
+      id: toCsvNumber(row.id),
+      name: row.name,
+      performanceMode: row.performance_mode,
+      cameraKey: row.camera_key || null,
+    })),
+    profileDailyLogs: (sections.get("profile_daily_logs") ?? []).map((row) => ({
+      date: row.date,
+      profileId: toCsvNumber(row.profile_id),
+      secondsInGreen: toCsvNumber(row.seconds_in_green),
+      secondsInYellow: toCsvNumber(row.seconds_in_yellow),
+      secondsInRed: toCsvNumber(row.seconds_in_red),
+      avgScore: toCsvNumber(row.avg_score),
+      sampleCount: toCsvNumber(row.sample_count),
+    })),
+    calibrations: (sections.get("calibrations") ?? []).map((row) => ({
+      id: toCsvNumber(row.id),
+      userId: toCsvNumber(row.user_id),
+      // Both columns are missing in CSV backups made before they were added
+      profileId: toCsvNumber(row.profile_id) ?? undefined,
+      cameraKey:
+        row.camera_key === undefined ? undefined : row.camera_key || null,
+      calibratedAt: row.calibrated_at,
+      baselinePitch: toCsvNumber(row.baseline_pitch),
+      baselineEHD: toCsvNumber(row.baseline_ehd),
+      baselineDPR: toCsvNumber(row.baseline_dpr),
+      quality: toCsvNumber(row.quality),
+      sampleCount: toCsvNumber(row.sample_count),
+      sensitivity: row.sensitivity,
+      customPitchThreshold: toCsvNumber(row.custom_pitch_threshold),
+      customEHDThreshold: toCsvNumber(row.custom_ehd_threshold),
+      customDPRThreshold: toCsvNumber(row.custom_dpr_threshold),
+      isActive: row.is_active === "1",
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    })),
+    settings: Object.fromEntries(
+      (sections.get("settings") ?? []).map((row) => [row.key, row.value]),
+    ),
+  };
+};
+
+/**
+ * Parse backup file contents (JSON or CSV) into an untrusted value
+ */
+export const parsePostureBackupContents = (
+  contents: string,
+  filePath: string,
+): unknown => {
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === ".csv" || contents.trimStart().startsWith("#")) {
+    return parsePostureBackupCsv(contents);
+  }
+  return JSON.parse(contents) as unknown;
+};
+
+const isImportStrategy = (value: unknown): value is PostureImportStrategy =>
+  typeof value === "string" &&
+  (IMPORT_STRATEGIES as readonly string[]).includes(value);
+
+/**
+ * Ask the user for a backup file, validate it and report what importing it
+ * would change. The validated backup is kept until it is committed or replaced.
+ */
+export const previewPostureImport = async (
+  request: PostureImportRequest,
+  parentWindow: BrowserWindow | null = null,
+): Promise<PostureImportResult> => {
+  try {
+    if (!isImportStrategy(request?.strategy)) {
+      return { ok: false, errors: ["Unknown import strategy"] };
+    }
+
+    const options = {
+      title: "Import Posture Data",
+      properties: ["openFile" as const],
+      filters: [{ name: "Posely Backup", extensions: ["json", "csv"] }],
+    };
+    const { canceled, filePaths } = parentWindow
+      ? await dialog.showOpenDialog(parentWindow, options)
+      : await dialog.showOpenDialog(options);
+    const filePath = filePaths[0];
+
+    if (canceled || !filePath) {
+      logger.info("Posture import canceled by user");
+      return { ok: false, canceled: true, errors: [] };
+    }
+
+    const contents = await fs.readFile(filePath, "utf-8");
+    let parsed: unknown;
+    try {
+      parsed = parsePostureBackupContents(contents, filePath);
+    } catch (error) {
+      return {
+        ok: false,
+        errors: [
+          `Backup file could not be parsed: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`,
+        ],
+      };
+    }
+
+    const validation = validatePostureBackup(parsed);
+    if (!validation.ok) {
+      logger.warn("Rejected invalid posture backup", {
+        filePath,
+        errors: validation.errors.slice(0, 10),
+      });
+      pendingImport = null;
+      return { ok: false, errors: validation.errors };
+    }
+
+    const diff = restorePostureBackup(
+      validation.document,
+      request.strategy,
+      true,
+      getPostureGoalRule(),
+    );
+    pendingImport = {
+      filePath,
+      strategy: request.strategy,
+      document: validation.document,
+    };
+    return {
+      ok: true,
+      dryRun: true,
+      filePath,
+      strategy: request.strategy,
+      diff,
+    };
+  } catch (error) {
+    logger.error("Failed to preview posture import", toErrorPayload(error));
+    return {
+      ok: false,
+      errors: [error instanceof Error ? error.message : "Unknown error"],
+    };
+  }
+};
+
+/**
+ * Apply the backup validated by the last preview
+ */
+export const commitPostureImport = (): PostureImportResult => {
+  if (!pendingImport) {
+    return { ok: false, errors: ["No previewed backup to import"] };
+  }
+
+  const { filePath, strategy, document } = pendingImport;
+  try {
+    const diff = restorePostureBackup(
+      document,
+      strategy,
+      false,
+      getPostureGoalRule(),
+    );
+    pendingImport = null;
+    return { ok: true, dryRun: false, filePath, strategy, diff };
+  } catch (error) {
+    logger.error("Failed to commit posture import", toErrorPayload(error));
+    return {
+      ok: false,
+      errors: [error instanceof Error ? error.message : "Unknown error"],
+    };
+  }
+};
@@ -1,6 +1,13 @@
 // Disable no-unused-vars, broken for spread args
 /* eslint no-unused-vars: off */
 import { IpcRendererEvent, contextBridge, ipcRenderer } from "electron";
+import {
+  type IpcInvokeArgs,
+  type IpcInvokeChannel,
+  type IpcInvokeResult,
+  createIpcInvokeEnvelope,
+  isIpcInvokeChannel,
+} from "../shared/ipc/contract";
 import { IPC_CHANNELS, type RendererChannel } from "../shared/ipcChannels";
 
 const validChannels = new Set<RendererChannel>(Object.values(IPC_CHANNELS));
@@ -31,9 +38,23 @@ export const electronHandler = {
       ensureChannelIsAllowed(channel);
       ipcRenderer.once(channel, (_event, ...args) => func(...args));
     },
-    invoke(channel: RendererChannel, ...args: unknown[]) {
-      ensureChannelIsAllowed(channel);
-      return ipcRenderer.invoke(channel, ...args);
+    /**
+     * Call a contract channel; arguments and result are typed by
+     * `IPC_INVOKE_CONTRACT` and validated again in main
+     */
+    invoke<C extends IpcInvokeChannel>(
+      channel: C,
+      ...args: IpcInvokeArgs<C>
+    ): Promise<IpcInvokeResult<C>> {
+      if (!isIpcInvokeChannel(channel)) {
+        throw new Error(
+          `Attempted to invoke unsupported IPC channel: ${channel}`,
+        );
+      }
+      return ipcRenderer.invoke(
+        channel,
+        createIpcInvokeEnvelope(args),
+      ) as Promise<IpcInvokeResult<C>>;
     },
   },
   channels: IPC_CHANNELS,
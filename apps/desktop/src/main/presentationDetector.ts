@@ -0,0 +1,131 @@
+import { getLogger, toErrorPayload } from "../shared/logger";
+
+const logger = getLogger("presentation-detector", "main");
+
+/**
+ * Why reminders are held:
+ * - `camera`: another app is using the camera, e.g. a video call
+ * - `fullscreen`: another app has a fullscreen window in front
+ * - `presenting`: presenting mode was turned on from the tray
+ */
+export type PresentationReason = "camera" | "fullscreen" | "presenting";
+
+/** Resolves whether its condition currently holds */
+export type PresentationProbe = () => Promise<boolean>;
+
+export const DEFAULT_PRESENTATION_POLL_MS = 15_000;
+
+export type PresentationDetectorOptions = {
+  /** Probes for the detected reasons; a platform without one skips it */
+  probes: Partial<Record<"camera" | "fullscreen", PresentationProbe>>;
+  /** Called with the active reasons whenever they change */
+  onChange: (reasons: PresentationReason[]) => void;
+  pollMs?: number;
+};
+
+export type PresentationDetector = {
+  /** Start polling the probes */
+  start: () => void;
+  /** Stop polling and forget detected reasons; presenting mode is kept */
+  stop: () => void;
+  setPresenting: (presenting: boolean) => void;
+  isPresenting: () => boolean;
+  getReasons: () => PresentationReason[];
+};
+
+/**
+ * Tracks calls, fullscreen apps and presenting mode. Probes are polled one
+ * at a time; a probe that fails counts as "not detected" so a missing tool
+ * never holds reminders forever.
+ */
+export const createPresentationDetector = ({
+  probes,
+  onChange,
+  pollMs = DEFAULT_PRESENTATION_POLL_MS,
+}: PresentationDetectorOptions): PresentationDetector => {
+  let detected: PresentationReason[] = [];
+  let presenting = false;
+  let timer: NodeJS.Timeout | null = null;
+  let reported: PresentationReason[] = [];
+
+  const getReasons = (): PresentationReason[] =>
+    presenting ? [...detected, "presenting"] : [...detected];
+
+  const notifyIfChanged = () => {
+    const reasons = getReasons();
+    if (reasons.join() === reported.join()) {
+      return;
+    }
+    reported = reasons;
+    logger.info("Presentation state changed", { reasons });
+    onChange(reasons);
+  };
+
+  const runProbe = async (
+    reason: "camera" | "fullscreen",
+  ): Promise<boolean> => {
+    const probe = probes[reason];
+    if (!probe) {
+      return false;
+    }
+    try {
+      return await probe();
+    } catch (error) {
+      logger.debug("Presentation probe failed", {
+        reason,
+        ...toErrorPayload(error),
+      });
+      return false;
+    }
+  };
+
+  const poll = async (): Promise<void> => {
+    const cameraInUse = await runProbe("camera");
+    const fullscreen = await runProbe("fullscreen");
+    // Stopped while the probes ran
+    if (timer === null) {
+      return;
+    }
+    detected = [
+      ...(cameraInUse ? (["camera"] as const) : []),
+      ...(fullscreen ? (["fullscreen"] as const) : []),
+    ];
+    notifyIfChanged();
+  };
+
+  const runPoll = () => {
+    poll().catch((error: unknown) => {
+      logger.error("Presentation poll failed", toErrorPayload(error));
+    });
+  };
+
+  const start = (): void => {
+    if (timer !== null) {
+      return;
+    }
+    timer = setInterval(runPoll, pollMs);
+    runPoll();
+  };
+
+  const stop = (): void => {
+    if (timer !== null) {
+      clearInterval(timer);
+      timer = null;
+    }
+    detected = [];
+    notifyIfChanged();
+  };
+
+  const setPresenting = (next: boolean): void => {
+    presenting = next;
+    notifyIfChanged();
+  };
+
+  return {
+    start,
+    stop,
+    setPresenting,
+    isPresenting: () => presenting,
+    getReasons,
+  };
+};
@@ -0,0 +1,275 @@
+import {
+  type ChildProcessWithoutNullStreams,
+  execFile,
+  spawn,
+} from "node:child_process";
+import { readdir } from "node:fs/promises";
+import { promisify } from "node:util";
+import type { PresentationProbe } from "./presentationDetector";
+
+const execFileAsync = promisify(execFile);
+
+const PROBE_TIMEOUT_MS = 5_000;
+
+const WINDOWS_WEBCAM_CONSENT_KEY =
+  "HKCU\\Software\\Microsoft\\Windows\\CurrentVersion\\CapabilityAccessManager\\ConsentStore\\webcam";
+
+// SHQueryUserNotificationState: busy (fullscreen), Direct3D fullscreen, presentation mode
+const WINDOWS_FULLSCREEN_STATES = new Set(["2", "3", "4"]);
+
+// Compiles the type once, then prints the state for every line read; the
+// loop ends when stdin closes, i.e. when the app quits
+const WINDOWS_NOTIFICATION_STATE_SCRIPT = [
+  "Add-Type -Namespace Posely -Name Shell -MemberDefinition",
+  "'[DllImport(\"shell32.dll\")] public static extern int SHQueryUserNotificationState(out int state);';",
+  "while ($null -ne [Console]::In.ReadLine()) {",
+  "$state = 0;",
+  "[void][Posely.Shell]::SHQueryUserNotificationState([ref]$state);",
+  "[Console]::Out.WriteLine($state)",
+  "}",
+].join(" ");
+
+const MAC_FULLSCREEN_SCRIPT =
+  'tell application "System Events" to get value of attribute "AXFullScreen" of front window of (first application process whose frontmost is true)';
+
+const run = async (file: string, args: string[]): Promise<string> => {
+  const { stdout } = await execFileAsync(file, args, {
+    timeout: PROBE_TIMEOUT_MS,
+    windowsHide: true,
+  });
+  return stdout;
+};
+
+/**
+ * Query a long-lived process that writes one line of output for every line
+ * written to its stdin, so a poll costs a write instead of a process start.
+ * The process is started on the first query, and again after it exits or
+ * fails to answer within the probe timeout.
+ */
+export const createLineQuery = (
+  file: string,
+  args: string[],
+): (() => Promise<string>) => {
+  let child: ChildProcessWithoutNullStreams | null = null;
+  let output = "";
+  let pending: {
+    resolve: (line: string) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+  } | null = null;
+
+  const settle = (error: Error | null, line = ""): void => {
+    if (!pending) {
+      return;
+    }
+    const { resolve, reject, timer } = pending;
+    pending = null;
+    clearTimeout(timer);
+    if (error) {
+      reject(error);
+    } else {
+      resolve(line);
+    }
+  };
+
+  const start = (): ChildProcessWithoutNullStreams => {
+    const started = spawn(file, args, { windowsHide: true });
+    output = "";
+    started.stdout.setEncoding("utf8");
+    started.stdout.on("data", (chunk: string) => {
+      if (child !== started) {
+        return;
+      }
+      output += chunk;
+      const end = output.indexOf("\n");
+      if (end !== -1) {
+        const line = output.slice(0, end).trim();
+        output = output.slice(end + 1);
+        settle(null, line);
+      }
+    });
+    // Failures of a process already given up on are not about the query
+    // in flight
+    const handleFailure = (error: Error) => {
+      if (child !== started) {
+        return;
+      }
+      child = null;
+      settle(error);
+    };
+    started.on("error", handleFailure);
+    started.stdin.on("error", handleFailure);
+    started.on("exit", (code) => {
+      handleFailure(new Error(`${file} exited with code ${code}`));
+    });
+    return started;
+  };
+
+  return () =>
+    new Promise<string>((resolve, reject) => {
+      if (pending) {
+        reject(new Error(`${file} is still answering the previous query`));
+        return;
+      }
+      if (!child) {
+        child = start();
+      }
+      const current = child;
+      pending = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          child = null;
+          current.kill();
+          settle(new Error(`${file} did not answer in time`));
+        }, PROBE_TIMEOUT_MS),
+      };
+      current.stdin.write("\n");
+    });
+};
+
+/**
+ * Whether `reg query /s` output of the webcam consent store lists an app
+ * still using the camera (LastUsedTimeStop of 0), other than `ownExecutable`
+ */
+export const parseWindowsWebcamInUse = (
+  output: string,
+  ownExecutable: string,
+): boolean => {
+  // Non-packaged apps are stored under their path with "\" replaced by "#"
+  const ownKeySuffix = ownExecutable.replace(/\\/g, "#").toLowerCase();
+  let currentKey = "";
+  return output.split(/\r?\n/).some((line) => {
+    if (line.startsWith("HKEY_")) {
+      currentKey = line.trim().toLowerCase();
+      return false;
+    }
+    const [name, , value] = line.trim().split(/\s+/);
+    return (
+      name === "LastUsedTimeStop" &&
+      value === "0x0" &&
+      !currentKey.endsWith(ownKeySuffix)
+    );
+  });
+};
+
+/**
+ * Process IDs in `fuser` output. Each PID may carry access letters (e.g.
+ * `1234m`); the file names go to stderr.
+ */
+export const parseFuserPids = (output: string): number[] =>
+  (output.match(/\d+/g) ?? []).map(Number);
+
+/**
+ * Whether `xprop -id <window> _NET_WM_STATE` output marks the window
+ * fullscreen
+ */
+export const isXpropFullscreen = (output: string): boolean =>
+  output.includes("_NET_WM_STATE_FULLSCREEN");
+
+const isWindowsCameraInUse = async (ownExecutable: string) =>
+  parseWindowsWebcamInUse(
+    await run("reg", [
+      "query",
+      WINDOWS_WEBCAM_CONSENT_KEY,
+      "/s",
+      "/v",
+      "LastUsedTimeStop",
+    ]),
+    ownExecutable,
+  );
+
+/**
+ * Any process outside `ownProcessIds` holding a /dev/video* device open.
+ * `fuser` is asked about the video devices only, not every open file.
+ */
+const isLinuxCameraInUse = async (ownProcessIds: number[]) => {
+  const devices = (await readdir("/dev"))
+    .filter((entry) => /^video\d+$/.test(entry))
+    .map((entry) => `/dev/${entry}`);
+  if (devices.length === 0) {
+    return false;
+  }
+  const output = await run("fuser", devices).catch((error: unknown) => {
+    // fuser exits with 1 when no process uses the devices
+    if ((error as { code?: unknown }).code === 1) {
+      return "";
+    }
+    throw error;
+  });
+  return parseFuserPids(output).some((pid) => !ownProcessIds.includes(pid));
+};
+
+const createWindowsFullscreenProbe = (): PresentationProbe => {
+  const queryNotificationState = createLineQuery("powershell", [
+    "-NoProfile",
+    "-NonInteractive",
+    "-Command",
+    WINDOWS_NOTIFICATION_STATE_SCRIPT,
+  ]);
+  return async () =>
+    WINDOWS_FULLSCREEN_STATES.has(await queryNotificationState());
+};
+
+// Needs the Accessibility permission; without it the probe just fails
+const isMacFullscreen = async () =>
+  (await run("osascript", ["-e", MAC_FULLSCREEN_SCRIPT])).trim() === "true";
+
+// X11 only; under Wayland xprop fails and nothing is detected
+const isLinuxFullscreen = async () => {
+  const active = /window id # (0x[0-9a-f]+)/i.exec(
+    await run("xprop", ["-root", "_NET_ACTIVE_WINDOW"]),
+  );
+  if (!active?.[1] || active[1] === "0x0") {
+    return false;
+  }
+  return isXpropFullscreen(
+    await run("xprop", ["-id", active[1], "_NET_WM_STATE"]),
+  );
+};
+
+export type PresentationProbeOptions = {
+  platform: NodeJS.Platform;
+  /** Path of the running executable, excluded from camera use on Windows */
+  ownExecutable: string;
+  /** Processes of this app, excluded from camera use on Linux */
+  getOwnProcessIds: () => number[];
+  /** A window of this app in front is never "another app" fullscreen */
+  isOwnWindowFocused: () => boolean;
+};
+
+/**
+ * Camera-in-use and fullscreen probes for the current platform. macOS has
+ * no camera probe: it does not expose which app holds the camera, so calls
+ * there are only detected when fullscreen or via presenting mode.
+ */
+export const createPresentationProbes = ({
+  platform,
+  ownExecutable,
+  getOwnProcessIds,
+  isOwnWindowFocused,
+}: PresentationProbeOptions): Partial<
+  Record<"camera" | "fullscreen", PresentationProbe>
+> => {
+  const otherAppFullscreen =
+    (probe: PresentationProbe): PresentationProbe =>
+    async () =>
+      !isOwnWindowFocused() && probe();
+
+  switch (platform) {
+    case "win32":
+      return {
+        camera: () => isWindowsCameraInUse(ownExecutable),
+        fullscreen: otherAppFullscreen(createWindowsFullscreenProbe()),
+      };
+    case "linux":
+      return {
+        camera: () => isLinuxCameraInUse(getOwnProcessIds()),
+        fullscreen: otherAppFullscreen(isLinuxFullscreen),
+      };
+    case "darwin":
+      return { fullscreen: otherAppFullscreen(isMacFullscreen) };
+    default:
+      return {};
+  }
+};
@@ -0,0 +1,318 @@
+import { createHash } from "crypto";
+import { getLogger } from "../shared/logger";
+import {
+  DEFAULT_PERFORMANCE_MODE_ID,
+  isPerformanceModeId,
+} from "../shared/sampling/performanceModes";
+import {
+  type CameraDeviceInfo,
+  type CameraProfileOutcome,
+  type CameraProfileResult,
+  DEFAULT_MONITORING_PROFILE_ID,
+  MAX_MONITORING_PROFILE_NAME_LENGTH,
+  type MonitoringProfile,
+  type MonitoringProfileDeleteResult,
+  type MonitoringProfileResult,
+} from "../shared/types/profiles";
+import { getActivePostureCalibration } from "./database/calibrationRepository";
+import {
+  type MonitoringProfileRowUpdate,
+  deleteMonitoringProfile,
+  getActiveMonitoringProfile,
+  getMonitoringProfileByCameraKey,
+  getMonitoringProfileById,
+  insertMonitoringProfile,
+  listMonitoringProfiles,
+  markMonitoringProfileActive,
+  updateMonitoringProfile,
+} from "./database/monitoringProfileRepository";
+
+type ActiveProfileListener = (profile: MonitoringProfile) => void;
+
+const logger = getLogger("profile-service", "main");
+
+const listeners = new Set<ActiveProfileListener>();
+
+type NameValidation = { ok: true; name: string } | { ok: false; error: string };
+
+const validateProfileName = (
+  value: unknown,
+  ignoreId: number | null,
+): NameValidation => {
+  const name = typeof value === "string" ? value.trim() : "";
+  if (name.length === 0 || name.length > MAX_MONITORING_PROFILE_NAME_LENGTH) {
+    return {
+      ok: false,
+      error: `Profile name must be 1-${MAX_MONITORING_PROFILE_NAME_LENGTH} characters`,
+    };
+  }
+  const taken = listMonitoringProfiles().some(
+    (profile) =>
+      profile.id !== ignoreId &&
+      profile.name.toLowerCase() === name.toLowerCase(),
+  );
+  if (taken) {
+    return { ok: false, error: `A profile named "${name}" already exists` };
+  }
+  return { ok: true, name };
+};
+
+const notifyActiveProfileChanged = (profile: MonitoringProfile): void => {
+  listeners.forEach((listener) => {
+    try {
+      listener(profile);
+    } catch (error) {
+      logger.error(
+        `Active profile listener failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      );
+    }
+  });
+};
+
+export const listProfiles = (): MonitoringProfile[] => listMonitoringProfiles();
+
+/**
+ * The active profile, or the default profile when the table is unreadable
+ * or empty (which the migrations and delete rules prevent)
+ */
+export const getActiveProfile = (): MonitoringProfile => {
+  try {
+    const profile = getActiveMonitoringProfile();
+    if (profile) {
+      return profile;
+    }
+  } catch (error) {
+    logger.error(
+      `Failed to read active profile: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+    );
+  }
+  return {
+    id: DEFAULT_MONITORING_PROFILE_ID,
+    name: "Desk",
+    performanceMode: DEFAULT_PERFORMANCE_MODE_ID,
+    isActive: true,
+    cameraKey: null,
+    createdAt: 0,
+    updatedAt: 0,
+  };
+};
+
+/**
+ * Create an inactive profile. It has no calibration until the user
+ * calibrates while it is active.
+ */
+export const createProfile = (
+  input: unknown,
+  now: number = Date.now(),
+): MonitoringProfileResult => {
+  const fields =
+    typeof input === "object" && input !== null
+      ? (input as Record<string, unknown>)
+      : {};
+  const name = validateProfileName(fields.name, null);
+  if (!name.ok) {
+    return name;
+  }
+  if (
+    fields.performanceMode !== undefined &&
+    !isPerformanceModeId(fields.performanceMode)
+  ) {
+    return { ok: false, error: "Unknown performance mode" };
+  }
+
+  const profile = insertMonitoringProfile(
+    name.name,
+    fields.performanceMode ?? DEFAULT_PERFORMANCE_MODE_ID,
+    now,
+  );
+  logger.info("Created monitoring profile", { id: profile.id });
+  return { ok: true, profile };
+};
+
+/**
+ * Rename a profile or change its performance mode. Changes to the active
+ * profile are announced like an activation so the detection pipeline picks
+ * up the new mode.
+ */
+export const updateProfile = (
+  id: number,
+  input: unknown,
+  now: number = Date.now(),
+): MonitoringProfileResult => {
+  const existing = getMonitoringProfileById(id);
+  if (!existing) {
+    return { ok: false, error: "Profile not found" };
+  }
+  const fields =
+    typeof input === "object" && input !== null
+      ? (input as Record<string, unknown>)
+      : {};
+
+  const update: MonitoringProfileRowUpdate = {};
+  if (fields.name !== undefined) {
+    const name = validateProfileName(fields.name, id);
+    if (!name.ok) {
+      return name;
+    }
+    update.name = name.name;
+  }
+  if (fields.performanceMode !== undefined) {
+    if (!isPerformanceModeId(fields.performanceMode)) {
+      return { ok: false, error: "Unknown performance mode" };
+    }
+    update.performanceMode = fields.performanceMode;
+  }
+
+  const profile = updateMonitoringProfile(id, update, now);
+  if (!profile) {
+    return { ok: false, error: "Profile not found" };
+  }
+  if (profile.isActive) {
+    notifyActiveProfileChanged(profile);
+  }
+  return { ok: true, profile };
+};
+
+/**
+ * Delete an inactive profile. Its calibrations and per-profile daily logs
+ * are kept so exports and history stay complete.
+ */
+export const deleteProfile = (id: number): MonitoringProfileDeleteResult => {
+  const profiles = listMonitoringProfiles();
+  const target = profiles.find((profile) => profile.id === id);
+  if (!target) {
+    return { ok: false, error: "Profile not found" };
+  }
+  if (target.isActive || getActiveProfile().id === id) {
+    return { ok: false, error: "Switch to another profile before deleting" };
+  }
+  if (profiles.length <= 1) {
+    return { ok: false, error: "At least one profile is required" };
+  }
+  deleteMonitoringProfile(id);
+  logger.info("Deleted monitoring profile", { id });
+  return { ok: true };
+};
+
+/**
+ * Make `id` the active profile and notify listeners when it changed
+ */
+export const activateProfile = (
+  id: number,
+  now: number = Date.now(),
+): MonitoringProfileResult => {
+  const target = getMonitoringProfileById(id);
+  if (!target) {
+    return { ok: false, error: "Profile not found" };
+  }
+  if (target.isActive) {
+    return { ok: true, profile: target };
+  }
+
+  markMonitoringProfileActive(id, now);
+  const profile = { ...target, isActive: true, updatedAt: now };
+  logger.info("Activated monitoring profile", { id });
+  notifyActiveProfileChanged(profile);
+  return { ok: true, profile };
+};
+
+/**
+ * Stable key for a camera. Labels survive reconnects and permission resets
+ * better than device ids, so the id is only used for unlabeled devices.
+ * Hashed so device names are not stored.
+ */
+export const toCameraKey = (camera: CameraDeviceInfo): string =>
+  createHash("sha256")
+    .update(camera.label.trim() || camera.deviceId.trim())
+    .digest("hex")
+    .slice(0, 16);
+
+const nameForCamera = (label: string): string => {
+  const base =
+    label.trim().slice(0, MAX_MONITORING_PROFILE_NAME_LENGTH) || "Camera";
+  const taken = new Set(
+    listMonitoringProfiles().map((profile) => profile.name.toLowerCase()),
+  );
+  let name = base;
+  let suffix = 2;
+  while (taken.has(name.toLowerCase())) {
+    const tail = ` ${suffix}`;
+    name = `${base.slice(0, MAX_MONITORING_PROFILE_NAME_LENGTH - tail.length)}${tail}`;
+    suffix += 1;
+  }
+  return name;
+};
+
+const toCameraProfileResult = (
+  outcome: CameraProfileOutcome,
+  profile: MonitoringProfile,
+): CameraProfileResult => ({
+  ok: true,
+  outcome,
+  profile,
+  needsCalibration: getActivePostureCalibration(undefined, profile.id) === null,
+});
+
+/**
+ * Make the profile that belongs to `camera` active. The first camera seen
+ * by an unbound profile is adopted by it; a camera no profile knows gets a
+ * new profile named after it, which then needs its own calibration.
+ */
+export const resolveProfileForCamera = (
+  camera: CameraDeviceInfo,
+  now: number = Date.now(),
+): CameraProfileResult => {
+  if (!camera.label.trim() && !camera.deviceId.trim()) {
+    return { ok: false, error: "Camera has no label or device id" };
+  }
+  const cameraKey = toCameraKey(camera);
+  const active = getActiveProfile();
+  if (active.cameraKey === cameraKey) {
+    return toCameraProfileResult("unchanged", active);
+  }
+
+  const owner = getMonitoringProfileByCameraKey(cameraKey);
+  if (owner) {
+    const switched = activateProfile(owner.id, now);
+    return switched.ok
+      ? toCameraProfileResult("switched", switched.profile)
+      : switched;
+  }
+
+  if (active.cameraKey === null) {
+    const bound = updateMonitoringProfile(active.id, { cameraKey }, now);
+    logger.info("Bound camera to monitoring profile", { id: active.id });
+    return toCameraProfileResult("bound", bound ?? { ...active, cameraKey });
+  }
+
+  const created = insertMonitoringProfile(
+    nameForCamera(camera.label),
+    active.performanceMode,
+    now,
+    cameraKey,
+  );
+  logger.info("Created monitoring profile for new camera", {
+    id: created.id,
+  });
+  const activated = activateProfile(created.id, now);
+  return activated.ok
+    ? toCameraProfileResult("created", activated.profile)
+    : activated;
+};
+
+/**
+ * Subscribe to activations of another profile and edits of the active one
+ * @returns A function that removes the listener
+ */
+export const onActiveProfileChanged = (
+  listener: ActiveProfileListener,
+): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,101 @@
+import type { EngineTick } from "../shared/types/engine-output";
+import type { PresentationReason } from "./presentationDetector";
+
+const MINUTE_IN_MS = 60_000;
+
+// Ticks arrive every second; a longer gap (pause, sleep) is not counted in full
+const MAX_TICK_GAP_MS = 10_000;
+
+export type DeferredReminderSummary = {
+  /** `camera` when a call was part of the hold, else the first reason */
+  reason: PresentationReason;
+  /** Whole minutes spent in the red zone during the hold */
+  redMinutes: number;
+  /** Reminders held back */
+  deferredCount: number;
+};
+
+export type ReminderDeferral = {
+  /**
+   * Follow the presentation reasons. Returns the summary when a hold that
+   * deferred reminders ends, null otherwise.
+   */
+  setReasons: (reasons: PresentationReason[]) => DeferredReminderSummary | null;
+  isActive: () => boolean;
+  /** Hold back a reminder produced during the hold */
+  defer: () => void;
+  /** Count red-zone time during the hold */
+  handleTick: (tick: EngineTick) => void;
+};
+
+type HoldState = {
+  reason: PresentationReason;
+  redMs: number;
+  deferredCount: number;
+  lastTickAt: number | null;
+};
+
+/**
+ * Holds scheduled reminders during calls, fullscreen apps and presenting
+ * mode, and sums up what was held once the hold ends
+ */
+export const createReminderDeferral = (): ReminderDeferral => {
+  let hold: HoldState | null = null;
+
+  const setReasons = (
+    reasons: PresentationReason[],
+  ): DeferredReminderSummary | null => {
+    const [first] = reasons;
+    if (first !== undefined) {
+      if (hold === null) {
+        hold = { reason: first, redMs: 0, deferredCount: 0, lastTickAt: null };
+      } else if (reasons.includes("camera")) {
+        hold.reason = "camera";
+      }
+      return null;
+    }
+
+    const ended = hold;
+    hold = null;
+    if (ended === null || ended.deferredCount === 0) {
+      return null;
+    }
+    return {
+      reason: ended.reason,
+      redMinutes: Math.floor(ended.redMs / MINUTE_IN_MS),
+      deferredCount: ended.deferredCount,
+    };
+  };
+
+  const defer = (): void => {
+    if (hold) {
+      hold.deferredCount += 1;
+    }
+  };
+
+  const handleTick = (tick: EngineTick): void => {
+    if (!hold || !Number.isFinite(tick.t)) {
+      return;
+    }
+    const elapsed =
+      hold.lastTickAt === null
+        ? 0
+        : Math.min(Math.max(tick.t - hold.lastTickAt, 0), MAX_TICK_GAP_MS);
+    hold.lastTickAt = tick.t;
+    // Same rule as the daily totals: only present, reliable ticks count
+    if (
+      tick.zone === "RED" &&
+      tick.presence === "PRESENT" &&
+      tick.reliability === "OK"
+    ) {
+      hold.redMs += elapsed;
+    }
+  };
+
+  return {
+    setReasons,
+    isActive: () => hold !== null,
+    defer,
+    handleTick,
+  };
+};
@@ -0,0 +1,268 @@
+import { getLogger } from "../shared/logger";
+import type { EngineTick } from "../shared/types/engine-output";
+import {
+  DEFAULT_NOTIFICATION_SCHEDULES,
+  NOTIFICATION_TYPES,
+  type NotificationSchedule,
+  type NotificationType,
+} from "../shared/types/notifications";
+import type { ScoreZone } from "../shared/types/score";
+
+const logger = getLogger("reminder-engine", "main");
+
+const MINUTE_IN_MS = 60_000;
+
+/**
+ * Minutes after a zone is entered at which a schedule fires; empty when the
+ * reminder type is disabled
+ */
+export const toScheduleMinutes = (schedule: NotificationSchedule): number[] =>
+  schedule.enabled
+    ? Array.from(
+        { length: schedule.maxRepeats + 1 },
+        (_, repeat) =>
+          schedule.firstDelayMinutes + repeat * schedule.repeatIntervalMinutes,
+      )
+    : [];
+
+export const toReminderSchedules = (
+  schedules: Record<NotificationType, NotificationSchedule>,
+): Record<NotificationType, readonly number[]> => ({
+  red: toScheduleMinutes(schedules.red),
+  yellowFromGreen: toScheduleMinutes(schedules.yellowFromGreen),
+  yellowDwell: toScheduleMinutes(schedules.yellowDwell),
+  greenBreak: toScheduleMinutes(schedules.greenBreak),
+});
+
+/** Minutes after a schedule starts at which each reminder fires */
+export const DEFAULT_REMINDER_SCHEDULES_MINUTES = toReminderSchedules(
+  DEFAULT_NOTIFICATION_SCHEDULES,
+);
+
+export const DEFAULT_REMINDER_SNOOZE_MS = 15 * MINUTE_IN_MS;
+
+export type Reminder = {
+  type: NotificationType;
+  /** Minutes the triggering zone has lasted */
+  minutes: number;
+  /** Tick timestamp that triggered the reminder */
+  firedAt: number;
+};
+
+export type ReminderEngineOptions = {
+  /**
+   * Show the reminder. Returning false (e.g. notifications unsupported)
+   * keeps the step pending so a later tick retries it.
+   */
+  deliver: (reminder: Reminder) => boolean;
+  /** Clock for snoozes; reminders themselves follow tick timestamps */
+  now?: () => number;
+  schedules?: Partial<Record<NotificationType, readonly number[]>>;
+  snoozeMs?: number;
+  /**
+   * Quiet hours or do-not-disturb: hold reminders like a snooze while this
+   * returns true
+   */
+  isQuiet?: (now: number) => boolean;
+};
+
+export type ReminderEngine = {
+  /** Advance the schedules with an engine tick, delivering due reminders */
+  handleTick: (tick: EngineTick) => void;
+  /** "Snooze": deliver nothing until the snooze ends */
+  snooze: (durationMs?: number) => void;
+  /** "I'm fixing it": stop repeating reminders for the zone of `type` */
+  acknowledge: (type: NotificationType) => void;
+  /** Forget zone history, e.g. when monitoring is paused */
+  reset: () => void;
+  /**
+   * Replace the schedules of the given types. Zones already entered keep
+   * their start time, so steps already past as of the last tick are not
+   * repeated.
+   */
+  setSchedules: (
+    schedules: Partial<Record<NotificationType, readonly number[]>>,
+  ) => void;
+  getSnoozedUntil: () => number | null;
+};
+
+type ScheduleState = {
+  start: number | null;
+  nextIndex: number;
+};
+
+const idle = (): ScheduleState => ({ start: null, nextIndex: 0 });
+
+const startedAt = (timestamp: number): ScheduleState => ({
+  start: timestamp,
+  nextIndex: 0,
+});
+
+const createIdleSchedules = (): Record<NotificationType, ScheduleState> => ({
+  red: idle(),
+  yellowFromGreen: idle(),
+  yellowDwell: idle(),
+  greenBreak: idle(),
+});
+
+/**
+ * Zone-driven posture reminders, moved out of the renderer so they keep
+ * running while the window is closed or throttled. Each reminder type has a
+ * schedule that starts when its zone is entered and resets when it is left.
+ */
+export const createReminderEngine = ({
+  deliver,
+  now = Date.now,
+  schedules: scheduleOverrides = {},
+  snoozeMs = DEFAULT_REMINDER_SNOOZE_MS,
+  isQuiet = () => false,
+}: ReminderEngineOptions): ReminderEngine => {
+  let scheduleMinutes = {
+    ...DEFAULT_REMINDER_SCHEDULES_MINUTES,
+    ...scheduleOverrides,
+  };
+  let states = createIdleSchedules();
+  let lastZone: ScoreZone | null = null;
+  // Zone starts are tick timestamps, which need not match `now`
+  let lastTimestamp: number | null = null;
+  let snoozedUntil: number | null = null;
+
+  const applyZoneChange = (zone: ScoreZone, timestamp: number): void => {
+    const previous = lastZone;
+    if (previous === zone) {
+      return;
+    }
+
+    if (zone === "RED") {
+      states.red = startedAt(timestamp);
+    } else if (previous === "RED") {
+      states.red = idle();
+    }
+
+    if (zone === "YELLOW") {
+      states.yellowDwell = startedAt(timestamp);
+      states.yellowFromGreen =
+        previous === "GREEN" ? startedAt(timestamp) : idle();
+    } else {
+      states.yellowDwell = idle();
+      states.yellowFromGreen = idle();
+    }
+
+    states.greenBreak = zone === "GREEN" ? startedAt(timestamp) : idle();
+  };
+
+  const isSnoozed = (): boolean => {
+    if (snoozedUntil === null) {
+      return false;
+    }
+    if (now() < snoozedUntil) {
+      return true;
+    }
+    snoozedUntil = null;
+    return false;
+  };
+
+  /**
+   * Deliver the latest due step of `type`. Steps that came due while
+   * snoozed or without ticks are skipped rather than delivered in a burst.
+   */
+  const maybeDeliver = (type: NotificationType, timestamp: number): void => {
+    const state = states[type];
+    const steps = scheduleMinutes[type];
+    if (state.start === null || state.nextIndex >= steps.length) {
+      return;
+    }
+
+    // Steps are ascending, so the last one reached is the latest due
+    const elapsed = timestamp - state.start;
+    const dueIndex = steps.reduce(
+      (latest, minutes, index) =>
+        elapsed >= minutes * MINUTE_IN_MS ? index : latest,
+      -1,
+    );
+    const minutes = steps[dueIndex];
+    if (
+      dueIndex < state.nextIndex ||
+      minutes === undefined ||
+      isSnoozed() ||
+      isQuiet(now())
+    ) {
+      return;
+    }
+
+    const delivered = deliver({ type, minutes, firedAt: timestamp });
+    if (delivered) {
+      state.nextIndex = dueIndex + 1;
+    }
+  };
+
+  const handleTick = (tick: EngineTick): void => {
+    const timestamp = Number.isFinite(tick.t) ? tick.t : now();
+    applyZoneChange(tick.zone, timestamp);
+    lastZone = tick.zone;
+    lastTimestamp = timestamp;
+
+    maybeDeliver("red", timestamp);
+    if (tick.zone === "YELLOW") {
+      maybeDeliver("yellowFromGreen", timestamp);
+      maybeDeliver("yellowDwell", timestamp);
+    } else if (tick.zone === "GREEN") {
+      maybeDeliver("greenBreak", timestamp);
+    }
+  };
+
+  const snooze = (durationMs: number = snoozeMs): void => {
+    snoozedUntil = now() + durationMs;
+    logger.info("Reminders snoozed", { until: snoozedUntil });
+  };
+
+  const acknowledge = (type: NotificationType): void => {
+    // Both yellow reminders are about the same zone
+    const silenced: NotificationType[] =
+      type === "yellowDwell" || type === "yellowFromGreen"
+        ? ["yellowDwell", "yellowFromGreen"]
+        : [type];
+    silenced.forEach((silencedType) => {
+      const state = states[silencedType];
+      if (state.start !== null) {
+        state.nextIndex = scheduleMinutes[silencedType].length;
+      }
+    });
+  };
+
+  const reset = (): void => {
+    states = createIdleSchedules();
+    lastZone = null;
+    lastTimestamp = null;
+  };
+
+  const setSchedules = (
+    schedules: Partial<Record<NotificationType, readonly number[]>>,
+  ): void => {
+    const previous = scheduleMinutes;
+    scheduleMinutes = { ...scheduleMinutes, ...schedules };
+    NOTIFICATION_TYPES.forEach((type) => {
+      const state = states[type];
+      if (state.start === null || lastTimestamp === null) {
+        return;
+      }
+      // Finished or acknowledged zones stay quiet; otherwise skip the steps
+      // of the new schedule the zone has already outlasted
+      const steps = scheduleMinutes[type];
+      const elapsed = lastTimestamp - state.start;
+      state.nextIndex =
+        state.nextIndex >= previous[type].length
+          ? steps.length
+          : steps.filter((minutes) => elapsed >= minutes * MINUTE_IN_MS).length;
+    });
+  };
+
+  return {
+    handleTick,
+    snooze,
+    acknowledge,
+    reset,
+    setSchedules,
+    getSnoozedUntil: () => (isSnoozed() ? snoozedUntil : null),
+  };
+};
@@ -0,0 +1,252 @@
+import { Notification, app } from "electron";
+import commonEn from "../../locales/en-US/common.json";
+import commonKo from "../../locales/ko-KR/common.json";
+import { getLogger, toErrorPayload } from "../shared/logger";
+import type { NotificationType } from "../shared/types/notifications";
+import type { DeferredReminderSummary } from "./reminderDeferral";
+import type { Reminder } from "./reminderEngine";
+
+const logger = getLogger("reminder-notifications", "main");
+
+type NotificationStrings = (typeof commonEn)["notifications"];
+
+export type ReminderNotificationHandlers = {
+  onSnooze: () => void;
+  onAcknowledge: (type: NotificationType) => void;
+  onClick: () => void;
+};
+
+// Shown notifications lose their event handlers once garbage collected
+const visibleNotifications = new Set<Notification>();
+
+/**
+ * The renderer keeps its language in localStorage, which the main process
+ * cannot read; follow the system locale the renderer also detects from
+ */
+const getNotificationStrings = (): NotificationStrings =>
+  app.getLocale().toLowerCase().startsWith("ko")
+    ? commonKo.notifications
+    : commonEn.notifications;
+
+const interpolate = (template: string, values: Record<string, string>) =>
+  template.replace(/{{(\w+)}}/g, (match, key: string) => values[key] ?? match);
+
+export const formatReminderText = (
+  reminder: Reminder,
+  strings: NotificationStrings = getNotificationStrings(),
+): { title: string; body: string } => {
+  const duration = interpolate(
+    reminder.minutes === 1 ? strings.duration.single : strings.duration.plural,
+    { minutes: String(reminder.minutes) },
+  );
+  const titles: Record<NotificationType, string> = {
+    red: strings.titles.red,
+    yellowFromGreen: strings.titles.yellow,
+    yellowDwell: strings.titles.yellow,
+    greenBreak: strings.titles.break,
+  };
+  const bodies: Record<NotificationType, string> = {
+    red: strings.body.red,
+    yellowFromGreen: strings.body.yellowFromGreen,
+    yellowDwell: strings.body.yellow,
+    greenBreak: strings.body.break,
+  };
+  return {
+    title: titles[reminder.type],
+    body: interpolate(bodies[reminder.type], { duration }),
+  };
+};
+
+type NotificationContent = {
+  title: string;
+  body: string;
+  actionLabels: string[];
+  onAction: (index: number) => void;
+  onClick: () => void;
+};
+
+const presentNotification = ({
+  title,
+  body,
+  actionLabels,
+  onAction,
+  onClick,
+}: NotificationContent): void => {
+  const notification = new Notification({
+    title,
+    body,
+    silent: false,
+    actions: actionLabels.map((text) => ({ type: "button", text })),
+  });
+  const release = () => {
+    visibleNotifications.delete(notification);
+  };
+  notification.on("action", (_event, index) => {
+    release();
+    onAction(index);
+  });
+  notification.on("click", () => {
+    release();
+    onClick();
+  });
+  notification.on("close", release);
+  visibleNotifications.add(notification);
+  notification.show();
+};
+
+/**
+ * Show a reminder as a native notification. Action buttons are only
+ * rendered on macOS; elsewhere clicking the notification opens the app.
+ * @returns Whether the notification was shown
+ */
+export const showReminderNotification = (
+  reminder: Reminder,
+  handlers: ReminderNotificationHandlers,
+): boolean => {
+  if (!Notification.isSupported()) {
+    return false;
+  }
+
+  const strings = getNotificationStrings();
+  const { title, body } = formatReminderText(reminder, strings);
+  // A break reminder has nothing to fix
+  const actionLabels =
+    reminder.type === "greenBreak"
+      ? [strings.actions.snooze]
+      : [strings.actions.snooze, strings.actions.fixing];
+
+  try {
+    presentNotification({
+      title,
+      body,
+      actionLabels,
+      onAction: (index) => {
+        if (index === 0) {
+          handlers.onSnooze();
+        } else {
+          handlers.onAcknowledge(reminder.type);
+        }
+      },
+      onClick: handlers.onClick,
+    });
+    return true;
+  } catch (error) {
+    logger.warn("Unable to show reminder notification", {
+      type: reminder.type,
+      ...toErrorPayload(error),
+    });
+    return false;
+  }
+};
+
+export type BreakNotificationHandlers = {
+  onStartStretch: () => void;
+  onSkip: () => void;
+  onClick: () => void;
+};
+
+/**
+ * Prompt for a break coach break; clicking it opens the stretch window
+ * where action buttons are not available
+ * @returns Whether the notification was shown
+ */
+export const showBreakNotification = (
+  breakMinutes: number,
+  handlers: BreakNotificationHandlers,
+): boolean => {
+  if (!Notification.isSupported()) {
+    return false;
+  }
+
+  const strings = getNotificationStrings();
+  const duration = interpolate(
+    breakMinutes === 1 ? strings.duration.single : strings.duration.plural,
+    { minutes: String(breakMinutes) },
+  );
+
+  try {
+    presentNotification({
+      title: strings.titles.breakDue,
+      body: interpolate(strings.body.breakDue, { duration }),
+      actionLabels: [strings.actions.startStretch, strings.actions.skipBreak],
+      onAction: (index) => {
+        if (index === 0) {
+          handlers.onStartStretch();
+        } else {
+          handlers.onSkip();
+        }
+      },
+      onClick: handlers.onClick,
+    });
+    return true;
+  } catch (error) {
+    logger.warn("Unable to show break notification", toErrorPayload(error));
+    return false;
+  }
+};
+
+export const formatDeferredSummaryText = (
+  summary: DeferredReminderSummary,
+  strings: NotificationStrings = getNotificationStrings(),
+): { title: string; body: string } => {
+  const title =
+    summary.reason === "camera"
+      ? strings.titles.afterCall
+      : strings.titles.afterPresenting;
+  if (summary.redMinutes > 0) {
+    const duration = interpolate(
+      summary.redMinutes === 1
+        ? strings.duration.single
+        : strings.duration.plural,
+      { minutes: String(summary.redMinutes) },
+    );
+    return {
+      title,
+      body: interpolate(
+        summary.reason === "camera"
+          ? strings.body.redDuringCall
+          : strings.body.redWhilePresenting,
+        { duration },
+      ),
+    };
+  }
+  const reminders = interpolate(
+    summary.deferredCount === 1
+      ? strings.reminders.single
+      : strings.reminders.plural,
+    { count: String(summary.deferredCount) },
+  );
+  return {
+    title,
+    body: interpolate(strings.body.heldReminders, { reminders }),
+  };
+};
+
+/**
+ * Sum up the reminders held during a call or while presenting
+ * @returns Whether the notification was shown
+ */
+export const showDeferredSummaryNotification = (
+  summary: DeferredReminderSummary,
+  handlers: Pick<ReminderNotificationHandlers, "onClick">,
+): boolean => {
+  if (!Notification.isSupported()) {
+    return false;
+  }
+
+  try {
+    presentNotification({
+      ...formatDeferredSummaryText(summary),
+      actionLabels: [],
+      onAction: () => undefined,
+      onClick: handlers.onClick,
+    });
+    return true;
+  } catch (error) {
+    logger.warn("Unable to show deferred reminder summary", {
+      reason: summary.reason,
+      ...toErrorPayload(error),
+    });
+    return false;
+  }
+};
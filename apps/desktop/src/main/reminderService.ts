@@ -0,0 +1,177 @@
+import { getLogger, toErrorPayload } from "../shared/logger";
+import type { EngineTick } from "../shared/types/engine-output";
+import type { NotificationPreferences } from "../shared/types/notifications";
+import {
+  createDefaultNotificationPreferences,
+  isNotificationQuietTime,
+  setDoNotDisturbUntil,
+} from "./notificationPreferencesService";
+import {
+  type PresentationDetectorOptions,
+  type PresentationReason,
+  createPresentationDetector,
+} from "./presentationDetector";
+import { createReminderDeferral } from "./reminderDeferral";
+import { createReminderEngine, toReminderSchedules } from "./reminderEngine";
+import {
+  showDeferredSummaryNotification,
+  showReminderNotification,
+} from "./reminderNotifications";
+
+type ReminderServiceListener = () => void;
+type NotificationPreferencesListener = (
+  preferences: NotificationPreferences,
+) => void;
+
+const logger = getLogger("reminder-service", "main");
+
+export type ReminderServiceOptions = {
+  /** Camera and fullscreen probes that hold reminders while they report */
+  probes: PresentationDetectorOptions["probes"];
+};
+
+export type ReminderService = {
+  /** Feed a tick to the reminder engine while monitoring is not paused */
+  handleTick: (tick: EngineTick) => void;
+  /** Forget zones seen so far, e.g. across a pause */
+  reset: () => void;
+  getPreferences: () => NotificationPreferences;
+  /** Use stored preferences for schedules, quiet hours and do-not-disturb */
+  applyPreferences: (preferences: NotificationPreferences) => void;
+  /**
+   * Hold reminders until `until`; null turns do-not-disturb off
+   * @returns The preferences in effect afterwards
+   */
+  setDoNotDisturb: (until: number | null) => NotificationPreferences;
+  /**
+   * Whether reminders are dropped by quiet hours or do-not-disturb, or held
+   * while presenting
+   */
+  isHeld: (now: number) => boolean;
+  startPresentationDetection: () => void;
+  stopPresentationDetection: () => void;
+  getPresentationReasons: () => PresentationReason[];
+  isPresenting: () => boolean;
+  setPresenting: (presenting: boolean) => void;
+  /**
+   * Clicks on a reminder or on the summary shown after presenting
+   * @returns A function that removes the listener
+   */
+  onNotificationClick: (listener: ReminderServiceListener) => () => void;
+  /**
+   * Detected calls or fullscreen apps, or presenting mode, changed
+   * @returns A function that removes the listener
+   */
+  onPresentationChange: (listener: ReminderServiceListener) => () => void;
+  /** @returns A function that removes the listener */
+  onPreferencesChange: (
+    listener: NotificationPreferencesListener,
+  ) => () => void;
+};
+
+const subscribe = <T extends (...args: never[]) => void>(
+  listeners: Set<T>,
+  listener: T,
+): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = <T extends unknown[]>(
+  listeners: Set<(...args: T) => void>,
+  ...args: T
+): void => {
+  listeners.forEach((listener) => {
+    try {
+      listener(...args);
+    } catch (error) {
+      logger.error("Reminder service listener failed", toErrorPayload(error));
+    }
+  });
+};
+
+/**
+ * Posture reminders shown from main, so they keep firing while the window
+ * is closed. Reminders due during quiet hours or do-not-disturb are
+ * dropped; those due during a call, a fullscreen app or presenting mode are
+ * held and summed up in one notification afterwards.
+ */
+export const createReminderService = ({
+  probes,
+}: ReminderServiceOptions): ReminderService => {
+  const clickListeners = new Set<ReminderServiceListener>();
+  const presentationListeners = new Set<ReminderServiceListener>();
+  const preferencesListeners = new Set<NotificationPreferencesListener>();
+  const handleNotificationClick = () => notify(clickListeners);
+  // Defaults until the stored preferences are readable
+  let preferences = createDefaultNotificationPreferences();
+  const isQuiet = (now: number) => isNotificationQuietTime(preferences, now);
+
+  const reminderDeferral = createReminderDeferral();
+
+  const presentationDetector = createPresentationDetector({
+    probes,
+    onChange: (reasons) => {
+      const summary = reminderDeferral.setReasons(reasons);
+      if (summary && !isQuiet(Date.now())) {
+        showDeferredSummaryNotification(summary, {
+          onClick: handleNotificationClick,
+        });
+      }
+      notify(presentationListeners);
+    },
+  });
+
+  const reminderEngine = createReminderEngine({
+    deliver: (reminder) => {
+      if (reminderDeferral.isActive()) {
+        reminderDeferral.defer();
+        return true;
+      }
+      return showReminderNotification(reminder, {
+        onSnooze: () => reminderEngine.snooze(),
+        onAcknowledge: (type) => reminderEngine.acknowledge(type),
+        onClick: handleNotificationClick,
+      });
+    },
+    isQuiet,
+  });
+
+  const applyPreferences = (next: NotificationPreferences): void => {
+    preferences = next;
+    reminderEngine.setSchedules(toReminderSchedules(next.schedules));
+    notify(preferencesListeners, next);
+  };
+
+  return {
+    handleTick: (tick) => {
+      reminderDeferral.handleTick(tick);
+      reminderEngine.handleTick(tick);
+    },
+    reset: () => reminderEngine.reset(),
+    getPreferences: () => preferences,
+    applyPreferences,
+    setDoNotDisturb: (until) => {
+      try {
+        applyPreferences(setDoNotDisturbUntil(until));
+      } catch (error) {
+        logger.error("Failed to update do not disturb", toErrorPayload(error));
+      }
+      return preferences;
+    },
+    isHeld: (now) => isQuiet(now) || reminderDeferral.isActive(),
+    startPresentationDetection: () => presentationDetector.start(),
+    stopPresentationDetection: () => presentationDetector.stop(),
+    getPresentationReasons: () => presentationDetector.getReasons(),
+    isPresenting: () => presentationDetector.isPresenting(),
+    setPresenting: (presenting) =>
+      presentationDetector.setPresenting(presenting),
+    onNotificationClick: (listener) => subscribe(clickListeners, listener),
+    onPresentationChange: (listener) =>
+      subscribe(presentationListeners, listener),
+    onPreferencesChange: (listener) =>
+      subscribe(preferencesListeners, listener),
+  };
+};
@@ -0,0 +1,103 @@
+import {
+  type BreakCycleConfig,
+  toBreakCycleConfig,
+} from "../shared/breaks/breakCycle";
+import { getLogger } from "../shared/logger";
+import {
+  type PostureGoalRule,
+  toPostureGoalRule,
+} from "../shared/posture/postureGoal";
+import {
+  SETTING_KEYS,
+  type SettingChange,
+  type SettingKey,
+  type SettingUpdateResult,
+  type SettingValues,
+  isSettingKey,
+  parseStoredSettingValue,
+  serializeSettingValue,
+  validateSettingValue,
+} from "../shared/settings/registry";
+import { getSetting, setSetting } from "./database/settingsRepository";
+
+export type { SettingUpdateResult };
+
+type SettingChangeListener = (change: SettingChange) => void;
+
+const logger = getLogger("settings-service", "main");
+
+const listeners = new Set<SettingChangeListener>();
+
+/**
+ * Read a typed setting, falling back to its registry default
+ */
+export const getSettingValue = <K extends SettingKey>(
+  key: K,
+): SettingValues[K] => parseStoredSettingValue(key, getSetting(key));
+
+export const getAllSettingValues = (): SettingValues =>
+  Object.fromEntries(
+    SETTING_KEYS.map((key) => [key, getSettingValue(key)]),
+  ) as SettingValues;
+
+export const getPostureGoalRule = (): PostureGoalRule =>
+  toPostureGoalRule(getAllSettingValues());
+
+export const getBreakCycleConfig = (): BreakCycleConfig =>
+  toBreakCycleConfig(getAllSettingValues());
+
+/**
+ * Validate and persist a setting coming from an untrusted caller, then notify
+ * listeners when the stored value actually changed
+ */
+export const updateSettingValue = (
+  key: unknown,
+  value: unknown,
+): SettingUpdateResult => {
+  if (!isSettingKey(key)) {
+    logger.warn("Rejected update for unknown setting", { key });
+    return { success: false, error: `Unknown setting: ${String(key)}` };
+  }
+
+  const validation = validateSettingValue(key, value);
+  if (!validation.ok) {
+    logger.warn("Rejected invalid setting value", {
+      key,
+      error: validation.error,
+    });
+    return { success: false, error: validation.error };
+  }
+
+  const previous = getSettingValue(key);
+  setSetting(key, serializeSettingValue(validation.value));
+
+  if (previous !== validation.value) {
+    const change = { key, value: validation.value } as SettingChange;
+    listeners.forEach((listener) => {
+      try {
+        listener(change);
+      } catch (error) {
+        logger.error(
+          `Setting change listener failed for ${key}: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`,
+        );
+      }
+    });
+  }
+
+  return { success: true, value: validation.value };
+};
+
+/**
+ * Subscribe to setting changes made through updateSettingValue
+ * @returns A function that removes the listener
+ */
+export const onSettingChanged = (
+  listener: SettingChangeListener,
+): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,327 @@
+/**
+ * Tray icons drawn in code instead of loaded from static PNGs, so the icon
+ * can show the live score. Rendering is pure (no Electron) and returns raw
+ * bitmaps that `nativeImage#addRepresentation` accepts per scale factor.
+ */
+/** Zone color of a score icon */
+export type TrayIconTone = "green" | "yellow" | "red" | "neutral";
+
+/**
+ * What the tray shows:
+ * - `ring`: score as a ring filled clockwise from the top
+ * - `sparkline`: recent scores as a line, colored by the latest zone
+ * - `paused`: monitoring paused
+ * - `unreliable`: tracking lost or the worker is restarting
+ * - `idle`: nobody detected or no data yet
+ */
+export type TrayIconSpec =
+  | { kind: "ring"; score: number; tone: TrayIconTone }
+  | { kind: "sparkline"; scores: number[]; tone: TrayIconTone }
+  | { kind: "paused" }
+  | { kind: "unreliable" }
+  | { kind: "idle" };
+
+export type TrayIconBitmap = {
+  scaleFactor: number;
+  width: number;
+  height: number;
+  /** Premultiplied BGRA, the layout Chromium uses for raw bitmaps */
+  buffer: Buffer;
+};
+
+export type TrayIconRenderOptions = {
+  /**
+   * Black shapes on transparency for a macOS template image, which the menu
+   * bar recolors for light and dark mode; zone colors are dropped
+   */
+  monochrome?: boolean;
+};
+
+/** Icon size in points; each scale factor renders `size × scaleFactor` pixels */
+export const TRAY_ICON_SIZE = 16;
+
+export const TRAY_ICON_SCALE_FACTORS = [1, 2] as const;
+
+/** Same palette as the former static icons */
+export const TRAY_ICON_COLORS: Record<TrayIconTone, string> = {
+  green: "#48BB78",
+  yellow: "#F6E05E",
+  red: "#F56565",
+  neutral: "#A0AEC0",
+};
+
+const TRACK_COLOR = "#718096";
+const TRACK_ALPHA = 0.45;
+
+// A 16 pt ring cannot show single points; fewer distinct icons also means
+// fewer tray redraws
+const RING_SCORE_STEP = 5;
+
+const SUPERSAMPLE = 4;
+const RING_OUTER = 0.47;
+const RING_INNER = 0.3;
+const CENTER_DOT_RADIUS = 0.16;
+const DASH_COUNT = 8;
+const SPARKLINE_HALF_WIDTH = 0.07;
+
+type Color = { r: number; g: number; b: number; a: number };
+
+/** Inside test in unit coordinates (0..1, y down) */
+type Shape = (x: number, y: number) => boolean;
+
+type Layer = { color: Color; shape: Shape };
+
+type Point = [x: number, y: number];
+
+const parseHexColor = (hex: string, a = 1): Color => ({
+  r: Number.parseInt(hex.slice(1, 3), 16),
+  g: Number.parseInt(hex.slice(3, 5), 16),
+  b: Number.parseInt(hex.slice(5, 7), 16),
+  a,
+});
+
+const clampScore = (score: number): number =>
+  Number.isFinite(score) ? Math.min(100, Math.max(0, score)) : 0;
+
+const toRingScore = (score: number): number =>
+  Math.round(clampScore(score) / RING_SCORE_STEP) * RING_SCORE_STEP;
+
+/** Clockwise share of a full turn starting at 12 o'clock */
+const getTurnFraction = (x: number, y: number): number => {
+  const angle = Math.atan2(x - 0.5, 0.5 - y);
+  return (angle < 0 ? angle + 2 * Math.PI : angle) / (2 * Math.PI);
+};
+
+const getRadius = (x: number, y: number): number =>
+  Math.hypot(x - 0.5, y - 0.5);
+
+const arc =
+  (fraction: number): Shape =>
+  (x, y) => {
+    const radius = getRadius(x, y);
+    return (
+      radius >= RING_INNER &&
+      radius <= RING_OUTER &&
+      getTurnFraction(x, y) <= fraction
+    );
+  };
+
+const dashedRing: Shape = (x, y) => {
+  const radius = getRadius(x, y);
+  return (
+    radius >= RING_INNER &&
+    radius <= RING_OUTER &&
+    Math.floor(getTurnFraction(x, y) * DASH_COUNT * 2) % 2 === 0
+  );
+};
+
+const disc =
+  (radius: number): Shape =>
+  (x, y) =>
+    getRadius(x, y) <= radius;
+
+const rect =
+  (left: number, top: number, right: number, bottom: number): Shape =>
+  (x, y) =>
+    x >= left && x <= right && y >= top && y <= bottom;
+
+const distanceToSegment = (
+  x: number,
+  y: number,
+  [x1, y1]: Point,
+  [x2, y2]: Point,
+): number => {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.min(
+          1,
+          Math.max(0, ((x - x1) * dx + (y - y1) * dy) / lengthSquared),
+        );
+  return Math.hypot(x - (x1 + t * dx), y - (y1 + t * dy));
+};
+
+const polyline = (scores: number[]): Shape => {
+  const step = scores.length > 1 ? 0.84 / (scores.length - 1) : 0;
+  const points = scores.map(
+    (score, index): Point => [
+      scores.length > 1 ? 0.08 + index * step : 0.5,
+      0.88 - (clampScore(score) / 100) * 0.76,
+    ],
+  );
+  const segments = points.map((point, index): [Point, Point] => [
+    points[index - 1] ?? point,
+    point,
+  ]);
+  return (x, y) =>
+    segments.some(
+      ([from, to]) => distanceToSegment(x, y, from, to) <= SPARKLINE_HALF_WIDTH,
+    );
+};
+
+const getLayers = (spec: TrayIconSpec, monochrome: boolean): Layer[] => {
+  const track = parseHexColor(TRACK_COLOR, TRACK_ALPHA);
+  const neutral = parseHexColor(TRAY_ICON_COLORS.neutral);
+  const toneColor = (tone: TrayIconTone) =>
+    monochrome ? neutral : parseHexColor(TRAY_ICON_COLORS[tone]);
+
+  switch (spec.kind) {
+    case "ring": {
+      const color = toneColor(spec.tone);
+      return [
+        { color: track, shape: arc(1) },
+        { color, shape: arc(toRingScore(spec.score) / 100) },
+        { color, shape: disc(CENTER_DOT_RADIUS) },
+      ];
+    }
+    case "sparkline":
+      return spec.scores.length > 0
+        ? [{ color: toneColor(spec.tone), shape: polyline(spec.scores) }]
+        : [{ color: track, shape: arc(1) }];
+    case "paused":
+      return [
+        { color: neutral, shape: rect(0.25, 0.2, 0.42, 0.8) },
+        { color: neutral, shape: rect(0.58, 0.2, 0.75, 0.8) },
+      ];
+    case "unreliable":
+      return [{ color: neutral, shape: dashedRing }];
+    default:
+      return [{ color: track, shape: arc(1) }];
+  }
+};
+
+/**
+ * Draw the layers with SUPERSAMPLE² samples per pixel for smooth edges.
+ * Template images only use alpha, so monochrome output is black.
+ */
+const rasterize = (
+  layers: Layer[],
+  sizePx: number,
+  monochrome: boolean,
+): Buffer => {
+  const buffer = Buffer.alloc(sizePx * sizePx * 4);
+  const samples = SUPERSAMPLE * SUPERSAMPLE;
+
+  for (let py = 0; py < sizePx; py += 1) {
+    for (let px = 0; px < sizePx; px += 1) {
+      // Premultiplied, composited front over back
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      layers.forEach(({ color, shape }) => {
+        let hits = 0;
+        for (let sy = 0; sy < SUPERSAMPLE; sy += 1) {
+          for (let sx = 0; sx < SUPERSAMPLE; sx += 1) {
+            if (
+              shape(
+                (px + (sx + 0.5) / SUPERSAMPLE) / sizePx,
+                (py + (sy + 0.5) / SUPERSAMPLE) / sizePx,
+              )
+            ) {
+              hits += 1;
+            }
+          }
+        }
+        const alpha = (color.a * hits) / samples;
+        r = (monochrome ? 0 : color.r / 255) * alpha + r * (1 - alpha);
+        g = (monochrome ? 0 : color.g / 255) * alpha + g * (1 - alpha);
+        b = (monochrome ? 0 : color.b / 255) * alpha + b * (1 - alpha);
+        a = alpha + a * (1 - alpha);
+      });
+
+      const offset = (py * sizePx + px) * 4;
+      buffer[offset] = Math.round(b * 255);
+      buffer[offset + 1] = Math.round(g * 255);
+      buffer[offset + 2] = Math.round(r * 255);
+      buffer[offset + 3] = Math.round(a * 255);
+    }
+  }
+  return buffer;
+};
+
+/**
+ * Render the icon at every scale factor in TRAY_ICON_SCALE_FACTORS
+ */
+export const renderTrayIcon = (
+  spec: TrayIconSpec,
+  { monochrome = false }: TrayIconRenderOptions = {},
+): TrayIconBitmap[] => {
+  const layers = getLayers(spec, monochrome);
+  return TRAY_ICON_SCALE_FACTORS.map((scaleFactor) => {
+    const sizePx = TRAY_ICON_SIZE * scaleFactor;
+    return {
+      scaleFactor,
+      width: sizePx,
+      height: sizePx,
+      buffer: rasterize(layers, sizePx, monochrome),
+    };
+  });
+};
+
+/**
+ * Identifies what `renderTrayIcon` would draw, to skip redundant redraws
+ */
+export const getTrayIconKey = (
+  spec: TrayIconSpec,
+  { monochrome = false }: TrayIconRenderOptions = {},
+): string => {
+  const suffix = monochrome ? ":mono" : "";
+  switch (spec.kind) {
+    case "ring":
+      return `ring:${spec.tone}:${toRingScore(spec.score)}${suffix}`;
+    case "sparkline":
+      return `sparkline:${spec.tone}:${spec.scores
+        .map((score) => Math.round(clampScore(score)))
+        .join(",")}${suffix}`;
+    default:
+      return `${spec.kind}${suffix}`;
+  }
+};
+
+export type TrayScoreHistory = {
+  /**
+   * Add a score at `t`, the monotonic tick timestamp in ms (`EngineTick.t`,
+   * not epoch ms); only the spacing of ticks matters for the buckets
+   */
+  push: (t: number, score: number) => void;
+  /** Average score per bucket, oldest first */
+  getScores: () => number[];
+  clear: () => void;
+};
+
+/**
+ * Recent scores for the sparkline, averaged per `bucketMs` and limited to
+ * the last `bucketCount` buckets that had any ticks
+ */
+export const createTrayScoreHistory = ({
+  bucketMs = 20_000,
+  bucketCount = 15,
+}: { bucketMs?: number; bucketCount?: number } = {}): TrayScoreHistory => {
+  let buckets: { index: number; sum: number; count: number }[] = [];
+
+  const push = (t: number, score: number): void => {
+    if (!Number.isFinite(t) || !Number.isFinite(score)) {
+      return;
+    }
+    const index = Math.floor(t / bucketMs);
+    const latest = buckets[buckets.length - 1];
+    if (latest && latest.index === index) {
+      latest.sum += score;
+      latest.count += 1;
+      return;
+    }
+    buckets = [...buckets, { index, sum: score, count: 1 }].slice(-bucketCount);
+  };
+
+  return {
+    push,
+    getScores: () => buckets.map(({ sum, count }) => sum / count),
+    clear: () => {
+      buckets = [];
+    },
+  };
+};
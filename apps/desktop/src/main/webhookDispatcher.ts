@@ -0,0 +1,376 @@
+import { createHmac, randomUUID } from "crypto";
+import { getLogger, toErrorPayload } from "../shared/logger";
+import {
+  WEBHOOK_TEST_EVENT,
+  type WebhookDeliveryEvent,
+  type WebhookDeliverySummary,
+  type WebhookEvent,
+  type WebhookPayload,
+  type WebhookTestResult,
+} from "../shared/types/webhooks";
+import { WEBHOOK_DELIVERY_RETENTION_DAYS } from "./database/constants";
+import {
+  insertWebhookDelivery,
+  listPendingWebhookDeliveries,
+  mapRowToWebhookDelivery,
+  pruneWebhookDeliveries,
+  updateWebhookDelivery,
+} from "./database/webhookDeliveryRepository";
+import {
+  type WebhookTarget,
+  getWebhook,
+  getWebhookSubscribers,
+} from "./webhookService";
+
+const logger = getLogger("webhook-dispatcher", "main");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const WEBHOOK_EVENT_HEADER = "X-Posely-Event";
+export const WEBHOOK_DELIVERY_HEADER = "X-Posely-Delivery";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Posely-Timestamp";
+export const WEBHOOK_SIGNATURE_HEADER = "X-Posely-Signature";
+
+/** Wait before each retry; the number of entries caps the retries */
+export const DEFAULT_WEBHOOK_RETRY_DELAYS_MS: readonly number[] = [
+  10_000, 60_000, 300_000, 1_800_000,
+];
+
+const DEFAULT_WEBHOOK_TIMEOUT_MS = 10_000;
+
+export type WebhookDispatcherOptions = {
+  retryDelaysMs?: readonly number[];
+  requestTimeoutMs?: number;
+  now?: () => number;
+};
+
+export type WebhookDispatcher = {
+  /**
+   * Queue `event` for every enabled subscriber
+   * @returns Number of deliveries queued
+   */
+  dispatch: (event: WebhookEvent, data: Record<string, unknown>) => number;
+  /** Deliver a test event once, without retries, and report the outcome */
+  sendTestEvent: (webhookId: unknown) => Promise<WebhookTestResult>;
+  /** Prune old log rows and reschedule deliveries left pending at shutdown */
+  resumePending: () => void;
+  /** Cancel scheduled retries; pending rows are resumed on next start */
+  stop: () => void;
+};
+
+type AttemptOutcome = {
+  responseStatus: number | null;
+  error: string | null;
+  delivered: boolean;
+  retryable: boolean;
+};
+
+/**
+ * Hex HMAC-SHA256 of `${timestamp}.${body}`. Receivers recompute it with the
+ * webhook secret and compare it to the `sha256=` value of the signature
+ * header; the timestamp lets them reject replays.
+ */
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: number,
+  body: string,
+): string =>
+  createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+// Timeouts, rate limiting and server errors are worth another try; other
+// client errors will fail the same way again
+const isRetryableStatus = (status: number): boolean =>
+  status === 408 || status === 429 || status >= 500;
+
+export const createWebhookDispatcher = (
+  options: WebhookDispatcherOptions = {},
+): WebhookDispatcher => {
+  const retryDelaysMs =
+    options.retryDelaysMs ?? DEFAULT_WEBHOOK_RETRY_DELAYS_MS;
+  const requestTimeoutMs =
+    options.requestTimeoutMs ?? DEFAULT_WEBHOOK_TIMEOUT_MS;
+  const now = options.now ?? Date.now;
+  const timers = new Map<number, NodeJS.Timeout>();
+  let stopped = false;
+
+  const post = async (
+    webhook: WebhookTarget,
+    deliveryId: number,
+    event: WebhookDeliveryEvent,
+    body: string,
+  ): Promise<AttemptOutcome> => {
+    const timestamp = Math.floor(now() / 1000);
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), requestTimeoutMs);
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: "POST",
+        redirect: "manual",
+        signal: controller.signal,
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "Posely-Webhooks",
+          [WEBHOOK_EVENT_HEADER]: event,
+          [WEBHOOK_DELIVERY_HEADER]: String(deliveryId),
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: `sha256=${signWebhookPayload(
+            webhook.secret,
+            timestamp,
+            body,
+          )}`,
+        },
+        body,
+      });
+      // The response body is not used; release the connection
+      await response.body?.cancel();
+
+      const delivered = response.status >= 200 && response.status < 300;
+      return {
+        responseStatus: response.status,
+        error: delivered ? null : `HTTP ${response.status}`,
+        delivered,
+        retryable: !delivered && isRetryableStatus(response.status),
+      };
+    } catch (error) {
+      return {
+        responseStatus: null,
+        error: controller.signal.aborted
+          ? `Timed out after ${requestTimeoutMs}ms`
+          : error instanceof Error
+            ? error.message
+            : "Unknown error",
+        delivered: false,
+        retryable: true,
+      };
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+
+  const fail = (deliveryId: number, attempts: number, error: string): void => {
+    updateWebhookDelivery(deliveryId, {
+      status: "failed",
+      attempts,
+      responseStatus: null,
+      error,
+      updatedAt: now(),
+      nextAttemptAt: null,
+    });
+  };
+
+  // Declared before use by the retry timer below
+  let attempt: (
+    webhook: WebhookTarget,
+    deliveryId: number,
+    event: WebhookDeliveryEvent,
+    body: string,
+    previousAttempts: number,
+    maxAttempts: number,
+  ) => Promise<WebhookDeliverySummary | null>;
+
+  const scheduleRetry = (
+    webhookId: string,
+    deliveryId: number,
+    event: WebhookDeliveryEvent,
+    body: string,
+    previousAttempts: number,
+    delayMs: number,
+  ): void => {
+    const timer = setTimeout(() => {
+      timers.delete(deliveryId);
+      // Re-read the webhook so edits, deletes and disables apply to retries
+      const webhook = getWebhook(webhookId);
+      if (!webhook || !webhook.enabled) {
+        fail(
+          deliveryId,
+          previousAttempts,
+          webhook ? "Webhook is disabled" : "Webhook was deleted",
+        );
+        return;
+      }
+      attempt(
+        webhook,
+        deliveryId,
+        event,
+        body,
+        previousAttempts,
+        retryDelaysMs.length + 1,
+      ).catch((error: unknown) => {
+        logger.error("Webhook retry failed", toErrorPayload(error));
+      });
+    }, delayMs);
+    // Pending retries must not keep the process alive; they resume on start
+    timer.unref();
+    timers.set(deliveryId, timer);
+  };
+
+  attempt = async (
+    webhook,
+    deliveryId,
+    event,
+    body,
+    previousAttempts,
+    maxAttempts,
+  ) => {
+    const outcome = await post(webhook, deliveryId, event, body);
+    const attempts = previousAttempts + 1;
+    const retryDelay =
+      outcome.retryable && attempts < maxAttempts
+        ? (retryDelaysMs[attempts - 1] ?? null)
+        : null;
+    const finishedAt = now();
+
+    const row = updateWebhookDelivery(deliveryId, {
+      status: outcome.delivered
+        ? "delivered"
+        : retryDelay === null
+          ? "failed"
+          : "pending",
+      attempts,
+      responseStatus: outcome.responseStatus,
+      error: outcome.error,
+      updatedAt: finishedAt,
+      nextAttemptAt: retryDelay === null ? null : finishedAt + retryDelay,
+    });
+
+    if (outcome.delivered) {
+      logger.info("Delivered webhook", { deliveryId, event, attempts });
+    } else {
+      logger.warn("Webhook delivery attempt failed", {
+        deliveryId,
+        event,
+        attempts,
+        error: outcome.error,
+        retryInMs: retryDelay,
+      });
+    }
+
+    // After stop() the row stays pending and is resumed on the next start
+    if (retryDelay !== null && !stopped) {
+      scheduleRetry(webhook.id, deliveryId, event, body, attempts, retryDelay);
+    }
+    return row ? mapRowToWebhookDelivery(row) : null;
+  };
+
+  const createDelivery = (
+    webhook: WebhookTarget,
+    event: WebhookDeliveryEvent,
+    payload: WebhookPayload,
+  ): { id: number; body: string } => {
+    const body = JSON.stringify(payload);
+    const createdAt = now();
+    const row = insertWebhookDelivery({
+      webhookId: webhook.id,
+      event,
+      payload: body,
+      status: "pending",
+      attempts: 0,
+      createdAt,
+      updatedAt: createdAt,
+      nextAttemptAt: createdAt,
+    });
+    return { id: row.id, body };
+  };
+
+  const createPayload = (
+    event: WebhookDeliveryEvent,
+    data: Record<string, unknown>,
+  ): WebhookPayload => ({
+    id: randomUUID(),
+    event,
+    occurredAt: new Date(now()).toISOString(),
+    data,
+  });
+
+  return {
+    dispatch: (event, data) => {
+      if (stopped) {
+        return 0;
+      }
+      const subscribers = getWebhookSubscribers(event);
+      if (subscribers.length === 0) {
+        return 0;
+      }
+
+      const payload = createPayload(event, data);
+      subscribers.forEach((webhook) => {
+        try {
+          const delivery = createDelivery(webhook, event, payload);
+          attempt(
+            webhook,
+            delivery.id,
+            event,
+            delivery.body,
+            0,
+            retryDelaysMs.length + 1,
+          ).catch((error: unknown) => {
+            logger.error("Webhook delivery failed", toErrorPayload(error));
+          });
+        } catch (error) {
+          logger.error("Failed to queue webhook delivery", {
+            webhookId: webhook.id,
+            event,
+            ...toErrorPayload(error),
+          });
+        }
+      });
+      return subscribers.length;
+    },
+
+    sendTestEvent: async (webhookId) => {
+      const webhook = getWebhook(webhookId);
+      if (!webhook) {
+        return { ok: false, error: "Webhook not found" };
+      }
+
+      const delivery = createDelivery(
+        webhook,
+        WEBHOOK_TEST_EVENT,
+        createPayload(WEBHOOK_TEST_EVENT, {
+          webhookId: webhook.id,
+          message: "Test event from Posely",
+        }),
+      );
+      const result = await attempt(
+        webhook,
+        delivery.id,
+        WEBHOOK_TEST_EVENT,
+        delivery.body,
+        0,
+        1,
+      );
+      return result
+        ? { ok: true, delivery: result }
+        : { ok: false, error: "Delivery log entry is missing" };
+    },
+
+    resumePending: () => {
+      const current = now();
+      const pruned = pruneWebhookDeliveries(
+        current - WEBHOOK_DELIVERY_RETENTION_DAYS * DAY_MS,
+      );
+      const pending = listPendingWebhookDeliveries();
+      pending.forEach((row) => {
+        scheduleRetry(
+          row.webhookId,
+          row.id,
+          row.event as WebhookDeliveryEvent,
+          row.payload,
+          row.attempts,
+          Math.max(0, (row.nextAttemptAt ?? current) - current),
+        );
+      });
+      logger.info("Resumed webhook deliveries", {
+        pending: pending.length,
+        pruned,
+      });
+    },
+
+    stop: () => {
+      stopped = true;
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+    },
+  };
+};
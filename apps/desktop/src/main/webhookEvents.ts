@@ -0,0 +1,157 @@
+import { getLogger } from "../shared/logger";
+import {
+  type PostureGoalRule,
+  isPostureRestDay,
+} from "../shared/posture/postureGoal";
+import { addDaysToLocalDate, getTodayLocalDate } from "../shared/time";
+import type { EngineTick } from "../shared/types/engine";
+import type { WebhookEvent } from "../shared/types/webhooks";
+import { MAX_STREAK_DAYS } from "./database/constants";
+import {
+  type DailySummary,
+  countStreak,
+  getDailyPostureLogsInRange,
+} from "./database/dailyPostureRepository";
+import { getSetting, setSetting } from "./database/settingsRepository";
+import { getPostureGoalRule } from "./settingsService";
+
+const logger = getLogger("webhook-events", "main");
+
+/** Settings row remembering which daily events were already sent */
+export const WEBHOOK_EVENT_STATE_SETTING_KEY = "webhookEventState";
+
+/**
+ * Dates (YYYY-MM-DD) whose daily events were already evaluated, so restarts
+ * and repeated aggregator saves send each event once
+ */
+export type DailyWebhookEventState = {
+  goalMetDate: string | null;
+  streakCheckedDate: string | null;
+};
+
+export type PendingWebhookEvent = {
+  event: WebhookEvent;
+  data: Record<string, unknown>;
+};
+
+export type WebhookEventSink = (
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+) => void;
+
+const EMPTY_STATE: DailyWebhookEventState = {
+  goalMetDate: null,
+  streakCheckedDate: null,
+};
+
+/**
+ * A tick entering BAD_POSTURE from any other state. The risk state machine
+ * already debounces the transition, so no cooldown is applied here.
+ */
+export const isBadPostureTransition = (
+  previous: EngineTick | null,
+  tick: EngineTick,
+): boolean => tick.state === "BAD_POSTURE" && previous?.state !== "BAD_POSTURE";
+
+/**
+ * Decide which daily events are due (pure helper)
+ * goal.met fires once per day when today's log first meets the goal.
+ * streak.broken fires once per day when yesterday was a non-rest day that
+ * missed the goal and ended a streak of at least one day.
+ */
+export const evaluateDailyWebhookEvents = (
+  logs: Pick<DailySummary, "date" | "meetsGoal" | "avgScore">[],
+  today: string,
+  rule: Pick<PostureGoalRule, "restOnWeekends">,
+  state: DailyWebhookEventState,
+): { events: PendingWebhookEvent[]; state: DailyWebhookEventState } => {
+  const events: PendingWebhookEvent[] = [];
+  const nextState = { ...state };
+  const todayLog = logs.find((log) => log.date === today);
+
+  if (todayLog?.meetsGoal === 1 && state.goalMetDate !== today) {
+    events.push({
+      event: "goal.met",
+      data: {
+        date: today,
+        avgScore: todayLog.avgScore,
+        streak: countStreak(logs, today, rule),
+      },
+    });
+    nextState.goalMetDate = today;
+  }
+
+  if (state.streakCheckedDate !== today) {
+    const yesterday = addDaysToLocalDate(today, -1);
+    const yesterdayMet =
+      logs.find((log) => log.date === yesterday)?.meetsGoal === 1;
+    const previousStreak =
+      yesterdayMet || isPostureRestDay(yesterday, rule)
+        ? 0
+        : countStreak(logs, addDaysToLocalDate(yesterday, -1), rule);
+
+    if (previousStreak > 0) {
+      events.push({
+        event: "streak.broken",
+        data: { date: yesterday, previousStreak },
+      });
+    }
+    nextState.streakCheckedDate = today;
+  }
+
+  return { events, state: nextState };
+};
+
+const readState = (): DailyWebhookEventState => {
+  const raw = getSetting(WEBHOOK_EVENT_STATE_SETTING_KEY);
+  if (!raw) {
+    return EMPTY_STATE;
+  }
+  try {
+    const parsed = JSON.parse(raw) as Partial<DailyWebhookEventState>;
+    return {
+      goalMetDate:
+        typeof parsed.goalMetDate === "string" ? parsed.goalMetDate : null,
+      streakCheckedDate:
+        typeof parsed.streakCheckedDate === "string"
+          ? parsed.streakCheckedDate
+          : null,
+    };
+  } catch {
+    return EMPTY_STATE;
+  }
+};
+
+/**
+ * Evaluate daily events against stored posture logs and hand due ones to
+ * `emit`. Call after each aggregator save and once on startup.
+ */
+export const checkDailyWebhookEvents = (
+  emit: WebhookEventSink,
+  today: string = getTodayLocalDate(),
+): void => {
+  try {
+    const state = readState();
+    const result = evaluateDailyWebhookEvents(
+      getDailyPostureLogsInRange(
+        addDaysToLocalDate(today, -MAX_STREAK_DAYS),
+        today,
+      ),
+      today,
+      getPostureGoalRule(),
+      state,
+    );
+
+    if (
+      result.state.goalMetDate !== state.goalMetDate ||
+      result.state.streakCheckedDate !== state.streakCheckedDate
+    ) {
+      setSetting(WEBHOOK_EVENT_STATE_SETTING_KEY, JSON.stringify(result.state));
+    }
+    result.events.forEach(({ event, data }) => emit(event, data));
+  } catch (error) {
+    logger.error("Failed to check daily webhook events", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
@@ -0,0 +1,196 @@
+import { randomBytes, randomUUID } from "crypto";
+import { getLogger } from "../shared/logger";
+import {
+  WEBHOOK_EVENTS,
+  type WebhookCreateResult,
+  type WebhookEvent,
+  type WebhookSummary,
+} from "../shared/types/webhooks";
+import { getSetting, setSetting } from "./database/settingsRepository";
+
+const logger = getLogger("webhook-service", "main");
+
+/** Settings row holding the JSON list of webhooks; not part of the registry */
+export const WEBHOOKS_SETTING_KEY = "webhooks";
+
+const WEBHOOK_SECRET_PREFIX = "whsec_";
+const MAX_WEBHOOK_NAME_LENGTH = 64;
+const MAX_WEBHOOK_URL_LENGTH = 2048;
+
+/**
+ * A webhook with its signing secret. The secret is needed to sign every
+ * delivery, so unlike API tokens it is stored as-is.
+ */
+export type WebhookTarget = WebhookSummary & {
+  secret: string;
+};
+
+const isWebhookEvent = (value: unknown): value is WebhookEvent =>
+  WEBHOOK_EVENTS.includes(value as WebhookEvent);
+
+const isWebhookTarget = (value: unknown): value is WebhookTarget => {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const webhook = value as Record<string, unknown>;
+  return (
+    typeof webhook.id === "string" &&
+    typeof webhook.name === "string" &&
+    typeof webhook.url === "string" &&
+    Array.isArray(webhook.events) &&
+    webhook.events.every(isWebhookEvent) &&
+    typeof webhook.enabled === "boolean" &&
+    typeof webhook.secret === "string" &&
+    typeof webhook.createdAt === "number"
+  );
+};
+
+const readWebhooks = (): WebhookTarget[] => {
+  const raw = getSetting(WEBHOOKS_SETTING_KEY);
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? parsed.filter(isWebhookTarget) : [];
+  } catch (error) {
+    logger.warn("Ignoring unreadable webhook list", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return [];
+  }
+};
+
+const writeWebhooks = (webhooks: WebhookTarget[]): void => {
+  setSetting(WEBHOOKS_SETTING_KEY, JSON.stringify(webhooks));
+};
+
+const toSummary = (webhook: WebhookTarget): WebhookSummary => ({
+  id: webhook.id,
+  name: webhook.name,
+  url: webhook.url,
+  events: [...webhook.events],
+  enabled: webhook.enabled,
+  createdAt: webhook.createdAt,
+});
+
+/**
+ * Accept absolute http(s) URLs only; plain http is allowed for local
+ * receivers such as Home Assistant
+ */
+export const parseWebhookUrl = (value: unknown): string | null => {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const trimmed = value.trim();
+  if (trimmed.length === 0 || trimmed.length > MAX_WEBHOOK_URL_LENGTH) {
+    return null;
+  }
+  try {
+    const url = new URL(trimmed);
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return null;
+    }
+    return url.toString();
+  } catch {
+    return null;
+  }
+};
+
+export const listWebhooks = (): WebhookSummary[] =>
+  readWebhooks().map(toSummary);
+
+export const getWebhook = (id: unknown): WebhookTarget | null =>
+  readWebhooks().find((webhook) => webhook.id === id) ?? null;
+
+/**
+ * Enabled webhooks subscribed to `event`
+ */
+export const getWebhookSubscribers = (event: WebhookEvent): WebhookTarget[] =>
+  readWebhooks().filter(
+    (webhook) => webhook.enabled && webhook.events.includes(event),
+  );
+
+/**
+ * Register a webhook. The returned secret is shown once so the receiver can
+ * be configured to verify signatures.
+ */
+export const createWebhook = (
+  input: unknown,
+  now: number = Date.now(),
+): WebhookCreateResult => {
+  const fields =
+    typeof input === "object" && input !== null
+      ? (input as Record<string, unknown>)
+      : {};
+  const name = typeof fields.name === "string" ? fields.name.trim() : "";
+  if (name.length === 0 || name.length > MAX_WEBHOOK_NAME_LENGTH) {
+    return {
+      ok: false,
+      error: `Webhook name must be 1-${MAX_WEBHOOK_NAME_LENGTH} characters`,
+    };
+  }
+
+  const url = parseWebhookUrl(fields.url);
+  if (!url) {
+    return { ok: false, error: "Webhook URL must be an http(s) URL" };
+  }
+
+  const events = Array.isArray(fields.events)
+    ? WEBHOOK_EVENTS.filter((event) =>
+        (fields.events as unknown[]).includes(event),
+      )
+    : [];
+  if (events.length === 0) {
+    return { ok: false, error: "Select at least one event" };
+  }
+
+  const secret = `${WEBHOOK_SECRET_PREFIX}${randomBytes(24).toString("base64url")}`;
+  const webhook: WebhookTarget = {
+    id: randomUUID(),
+    name,
+    url,
+    events,
+    enabled: true,
+    createdAt: now,
+    secret,
+  };
+
+  writeWebhooks([...readWebhooks(), webhook]);
+  logger.info("Created webhook", { id: webhook.id, events });
+  return { ok: true, webhook: toSummary(webhook), secret };
+};
+
+/**
+ * Turn deliveries for a webhook on or off without losing its secret
+ * @returns The updated webhook, or null when no webhook has that id
+ */
+export const setWebhookEnabled = (
+  id: unknown,
+  enabled: unknown,
+): WebhookSummary | null => {
+  const webhooks = readWebhooks();
+  const match = webhooks.find((webhook) => webhook.id === id);
+  if (!match || typeof enabled !== "boolean") {
+    return null;
+  }
+  match.enabled = enabled;
+  writeWebhooks(webhooks);
+  logger.info("Updated webhook", { id, enabled });
+  return toSummary(match);
+};
+
+/**
+ * Delete a webhook; its pending retries are dropped on their next attempt
+ * @returns false when no webhook has that id
+ */
+export const deleteWebhook = (id: unknown): boolean => {
+  const webhooks = readWebhooks();
+  const remaining = webhooks.filter((webhook) => webhook.id !== id);
+  if (remaining.length === webhooks.length) {
+    return false;
+  }
+  writeWebhooks(remaining);
+  logger.info("Deleted webhook", { id });
+  return true;
+};
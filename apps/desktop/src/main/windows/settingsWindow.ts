@@ -21,7 +21,7 @@ export const createSettingsWindow = (): BrowserWindow => {
   settingsWindow = new BrowserWindow({
     show: false,
     width: 600,
-    height: 500,
+    height: 920,
     resizable: false,
     title: "Settings",
     icon: getAssetPath("icon.png"),
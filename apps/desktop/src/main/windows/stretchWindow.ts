@@ -0,0 +1,54 @@
+import { BrowserWindow, app } from "electron";
+import path from "path";
+import { getLogger, toErrorPayload } from "../../shared/logger";
+import { resolveHtmlPath } from "../util";
+
+const logger = getLogger("stretch-window", "main");
+
+let stretchWindow: BrowserWindow | null = null;
+
+/**
+ * Create and show the guided stretch window for a break, or bring the open
+ * one to the front
+ */
+export const createStretchWindow = (): void => {
+  if (stretchWindow && !stretchWindow.isDestroyed()) {
+    stretchWindow.show();
+    stretchWindow.focus();
+    return;
+  }
+
+  const RESOURCES_PATH = app.isPackaged
+    ? path.join(process.resourcesPath, "assets")
+    : path.join(__dirname, "../../assets");
+
+  stretchWindow = new BrowserWindow({
+    width: 360,
+    height: 480,
+    resizable: false,
+    alwaysOnTop: true,
+    icon: path.join(RESOURCES_PATH, "icon.png"),
+    webPreferences: {
+      preload: app.isPackaged
+        ? path.join(__dirname, "preload.js")
+        : path.join(__dirname, "../../.erb/dll/preload.js"),
+      nodeIntegration: false,
+      contextIsolation: true,
+      sandbox: process.env.ELECTRON_SANDBOX === "true",
+      webSecurity: true,
+    },
+  });
+
+  const url = new URL(resolveHtmlPath("index.html"));
+  url.hash = "#/stretch";
+
+  stretchWindow.loadURL(url.toString()).catch((error: unknown) => {
+    logger.error("Failed to load stretch window", toErrorPayload(error));
+  });
+
+  stretchWindow.on("closed", () => {
+    stretchWindow = null;
+  });
+
+  logger.info("Stretch window created");
+};
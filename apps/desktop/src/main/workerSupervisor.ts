@@ -0,0 +1,294 @@
+import { WORKER_MESSAGES, type WorkerMessage } from "../shared/ipcChannels";
+import { getLogger, toErrorPayload } from "../shared/logger";
+import { isRecord } from "../shared/validation/metricValues";
+
+const logger = getLogger("worker-supervisor", "main");
+
+/**
+ * - `starting`: first worker spawned, waiting for its ready message
+ * - `running`: the worker reported ready and answers heartbeats
+ * - `degraded`: the worker crashed or stopped answering; a restart is
+ *   scheduled or waiting for the new worker to report ready
+ * - `stopped`: `stop` was called
+ */
+export type WorkerSupervisorState =
+  | "starting"
+  | "running"
+  | "degraded"
+  | "stopped";
+
+/** The parts of `worker_threads.Worker` the supervisor relies on */
+export type SupervisedWorker = {
+  postMessage: (message: WorkerMessage) => void;
+  terminate: () => Promise<number>;
+  on: {
+    (event: "message", listener: (message: WorkerMessage) => void): unknown;
+    (event: "exit", listener: (code: number) => void): unknown;
+  };
+};
+
+export const DEFAULT_WORKER_HEARTBEAT_INTERVAL_MS = 5_000;
+/** Consecutive unanswered pings before the worker is considered hung */
+export const DEFAULT_WORKER_MAX_MISSED_HEARTBEATS = 3;
+export const DEFAULT_WORKER_RESTART_BASE_DELAY_MS = 1_000;
+export const DEFAULT_WORKER_RESTART_MAX_DELAY_MS = 60_000;
+/** A worker running this long resets the restart backoff */
+export const DEFAULT_WORKER_STABLE_AFTER_MS = 60_000;
+
+export type WorkerSupervisorOptions<W extends SupervisedWorker> = {
+  /** Create a new worker; throwing counts as a failed start */
+  spawn: () => W;
+  /** Every worker message except heartbeat pongs */
+  onMessage: (message: WorkerMessage) => void;
+  onStateChange?: (state: WorkerSupervisorState) => void;
+  /**
+   * Messages that restore main-process state in a worker that just reported
+   * ready, e.g. the active calibration and the paused flag
+   */
+  getReplayMessages?: () => WorkerMessage[];
+  heartbeatIntervalMs?: number;
+  maxMissedHeartbeats?: number;
+  restartBaseDelayMs?: number;
+  restartMaxDelayMs?: number;
+  stableAfterMs?: number;
+};
+
+export type WorkerSupervisor<W extends SupervisedWorker> = {
+  /** Spawn the worker and start heartbeats; no-op while already supervising */
+  start: () => void;
+  /** Terminate the worker and cancel restarts and heartbeats */
+  stop: () => void;
+  getWorker: () => W | null;
+  getState: () => WorkerSupervisorState;
+  /** Number of restarts since the worker was last stable */
+  getRestartAttempts: () => number;
+};
+
+// Marks supervisor pings so their pongs are not forwarded to the renderer
+const HEARTBEAT_PAYLOAD = { heartbeat: true } as const;
+
+const isHeartbeatPong = (message: WorkerMessage): boolean =>
+  message.type === WORKER_MESSAGES.pong &&
+  isRecord(message.payload) &&
+  message.payload.heartbeat === true;
+
+/**
+ * Delay before restart `attempt` (1-based): doubles from `baseDelayMs` and
+ * is capped at `maxDelayMs`
+ */
+export const getWorkerRestartDelay = (
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+): number => Math.min(baseDelayMs * 2 ** Math.max(0, attempt - 1), maxDelayMs);
+
+/**
+ * Keep the background worker alive: restart it with exponential backoff
+ * when it exits or stops answering heartbeat pings, and replay main-process
+ * state once the new worker reports ready.
+ */
+export const createWorkerSupervisor = <W extends SupervisedWorker>(
+  options: WorkerSupervisorOptions<W>,
+): WorkerSupervisor<W> => {
+  const heartbeatIntervalMs =
+    options.heartbeatIntervalMs ?? DEFAULT_WORKER_HEARTBEAT_INTERVAL_MS;
+  const maxMissedHeartbeats =
+    options.maxMissedHeartbeats ?? DEFAULT_WORKER_MAX_MISSED_HEARTBEATS;
+  const restartBaseDelayMs =
+    options.restartBaseDelayMs ?? DEFAULT_WORKER_RESTART_BASE_DELAY_MS;
+  const restartMaxDelayMs =
+    options.restartMaxDelayMs ?? DEFAULT_WORKER_RESTART_MAX_DELAY_MS;
+  const stableAfterMs = options.stableAfterMs ?? DEFAULT_WORKER_STABLE_AFTER_MS;
+
+  let worker: W | null = null;
+  let state: WorkerSupervisorState = "stopped";
+  let restartAttempts = 0;
+  let missedHeartbeats = 0;
+  let heartbeatTimer: NodeJS.Timeout | null = null;
+  let restartTimer: NodeJS.Timeout | null = null;
+  let stableTimer: NodeJS.Timeout | null = null;
+
+  const setState = (next: WorkerSupervisorState) => {
+    if (next === state) {
+      return;
+    }
+    state = next;
+    options.onStateChange?.(next);
+  };
+
+  const clearTimer = (timer: NodeJS.Timeout | null): null => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    return null;
+  };
+
+  const stopHeartbeat = () => {
+    if (heartbeatTimer) {
+      clearInterval(heartbeatTimer);
+      heartbeatTimer = null;
+    }
+    stableTimer = clearTimer(stableTimer);
+  };
+
+  const handleReady = () => {
+    missedHeartbeats = 0;
+    setState("running");
+    (options.getReplayMessages?.() ?? []).forEach((message) => {
+      worker?.postMessage(message);
+    });
+    stableTimer = clearTimer(stableTimer);
+    stableTimer = setTimeout(() => {
+      stableTimer = null;
+      restartAttempts = 0;
+    }, stableAfterMs);
+  };
+
+  const sendHeartbeat = () => {
+    if (!worker) {
+      return;
+    }
+    if (missedHeartbeats >= maxMissedHeartbeats) {
+      logger.warn("Worker missed heartbeats, restarting", {
+        missedHeartbeats,
+      });
+      // eslint-disable-next-line no-use-before-define
+      scheduleRestart("heartbeat timeout");
+      return;
+    }
+    missedHeartbeats += 1;
+    worker.postMessage({
+      type: WORKER_MESSAGES.ping,
+      payload: HEARTBEAT_PAYLOAD,
+    });
+  };
+
+  const spawnWorker = () => {
+    let spawned: W;
+    try {
+      spawned = options.spawn();
+    } catch (error) {
+      logger.error("Failed to start background worker", toErrorPayload(error));
+      // eslint-disable-next-line no-use-before-define
+      scheduleRestart("start failed");
+      return;
+    }
+
+    worker = spawned;
+    missedHeartbeats = 0;
+    spawned.on("message", (message: WorkerMessage) => {
+      if (spawned !== worker) {
+        return;
+      }
+      if (message.type === WORKER_MESSAGES.pong) {
+        missedHeartbeats = 0;
+      }
+      if (message.type === WORKER_MESSAGES.ready) {
+        handleReady();
+      }
+      if (!isHeartbeatPong(message)) {
+        options.onMessage(message);
+      }
+    });
+    spawned.on("exit", (code: number) => {
+      // Exits of workers the supervisor already replaced or stopped
+      if (spawned !== worker) {
+        return;
+      }
+      logger.warn("Worker exited unexpectedly", { code });
+      worker = null;
+      // eslint-disable-next-line no-use-before-define
+      scheduleRestart(`exit code ${code}`);
+    });
+    heartbeatTimer = setInterval(sendHeartbeat, heartbeatIntervalMs);
+  };
+
+  const scheduleRestart = (reason: string) => {
+    stopHeartbeat();
+    const previous = worker;
+    worker = null;
+    if (previous) {
+      previous.terminate().catch((error: unknown) => {
+        logger.warn(
+          "Failed to terminate unresponsive worker",
+          toErrorPayload(error),
+        );
+      });
+    }
+    if (state === "stopped" || restartTimer) {
+      return;
+    }
+
+    restartAttempts += 1;
+    const delayMs = getWorkerRestartDelay(
+      restartAttempts,
+      restartBaseDelayMs,
+      restartMaxDelayMs,
+    );
+    logger.warn("Scheduling worker restart", {
+      reason,
+      attempt: restartAttempts,
+      delayMs,
+    });
+    setState("degraded");
+    restartTimer = setTimeout(() => {
+      restartTimer = null;
+      spawnWorker();
+    }, delayMs);
+  };
+
+  return {
+    start: () => {
+      if (state !== "stopped") {
+        return;
+      }
+      setState("starting");
+      spawnWorker();
+    },
+    stop: () => {
+      setState("stopped");
+      stopHeartbeat();
+      restartTimer = clearTimer(restartTimer);
+      const previous = worker;
+      worker = null;
+      if (previous) {
+        previous.terminate().catch((error: unknown) => {
+          logger.warn(
+            "Failed to terminate background worker",
+            toErrorPayload(error),
+          );
+        });
+      }
+    },
+    getWorker: () => worker,
+    getState: () => state,
+    getRestartAttempts: () => restartAttempts,
+  };
+};
+
+/**
+ * FIFO for worker messages waiting on the main window. Once `limit` is
+ * reached the oldest entry is dropped, so a window that never opens cannot
+ * grow the queue without bound.
+ */
+export const createBoundedQueue = <T>(limit: number) => {
+  const items: T[] = [];
+  let dropped = 0;
+
+  return {
+    /** @returns The evicted entry, if any */
+    push: (item: T): T | undefined => {
+      items.push(item);
+      if (items.length <= limit) {
+        return undefined;
+      }
+      dropped += 1;
+      return items.shift();
+    },
+    /** Remove and return every entry */
+    drain: (): T[] => items.splice(0, items.length),
+    size: () => items.length,
+    /** Entries evicted since the queue was created */
+    droppedCount: () => dropped,
+  };
+};
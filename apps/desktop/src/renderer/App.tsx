@@ -21,7 +21,6 @@ import {
 } from "../shared/calibration/sensitivity-presets";
 import { parseBooleanFlag } from "../shared/env";
 import { IPC_CHANNELS } from "../shared/ipcChannels";
-import type { RendererChannel } from "../shared/ipcChannels";
 import { getLogger } from "../shared/logger";
 import { listPerformanceModePresets } from "../shared/sampling";
 import type {
@@ -33,9 +32,11 @@ import type { DetectorKind } from "../shared/types/detector";
 import type { EngineTickPayload } from "../shared/types/engine-ipc";
 import type { EngineTick } from "../shared/types/engine-output";
 import type { CombinedLandmarks } from "../shared/types/landmarks";
+import type { MonitoringProfile } from "../shared/types/profiles";
 import { useCameraPermission } from "./camera/useCameraPermission";
 import ExampleHeroUI from "./components/ExampleHeroUI";
 import { LanguageSwitcher } from "./components/LanguageSwitcher";
+import StretchBreak from "./components/breaks/StretchBreak";
 import Dashboard from "./components/dashboard/Dashboard";
 import { CalibrationFlow } from "./components/onboarding/CalibrationFlow";
 import { OnboardingWizard } from "./components/onboarding/OnboardingWizard";
@@ -48,7 +49,6 @@ import {
   PERFORMANCE_SHORT_SIDE_OPTIONS,
 } from "./detection/detectionPipeline";
 import { useDetectionPipeline } from "./detection/useDetectionPipeline";
-import { useZoneNotifications } from "./hooks/useZoneNotifications";
 import "./styles/globals.css";
 
 type ElectronApi = Window["electron"];
@@ -453,6 +453,10 @@ function IntegrationDashboard({ electron }: { electron: ElectronApi }) {
   const { ipcRenderer } = electron;
   const [activeCalibration, setActiveCalibration] =
     useState<CalibrationCompletePayload | null>(null);
+  const [activeProfile, setActiveProfile] = useState<MonitoringProfile | null>(
+    null,
+  );
+  const activeProfileId = activeProfile?.id ?? null;
   const [onboardingComplete, setOnboardingComplete] = useState(false);
   const [isLoadingCalibration, setIsLoadingCalibration] = useState(false);
   const [calibrationStatusError, setCalibrationStatusError] = useState<
@@ -481,17 +485,68 @@ function IntegrationDashboard({ electron }: { electron: ElectronApi }) {
     "custom",
   ];
 
+  useEffect(() => {
+    let cancelled = false;
+    const applyProfiles = (list: unknown) => {
+      if (cancelled || !Array.isArray(list)) {
+        return;
+      }
+      const active = (list as MonitoringProfile[]).find(
+        (profile) => profile.isActive,
+      );
+      if (active) {
+        setActiveProfile(active);
+      }
+    };
+
+    ipcRenderer
+      .invoke(channels?.listProfiles ?? IPC_CHANNELS.listProfiles)
+      .then(applyProfiles)
+      .catch((error: unknown) => {
+        logger.error("Failed to load monitoring profiles", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    const unsubscribe = ipcRenderer.on(
+      channels?.profilesChanged ?? IPC_CHANNELS.profilesChanged,
+      applyProfiles,
+    );
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [channels?.listProfiles, channels?.profilesChanged, ipcRenderer]);
+
+  // Each profile remembers its own performance mode. Only apply it when the
+  // profile or its stored mode changes so manual switches are not undone.
+  const appliedProfileModeRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!activeProfile) {
+      return;
+    }
+    const key = `${activeProfile.id}:${activeProfile.performanceMode}`;
+    if (appliedProfileModeRef.current === key) {
+      return;
+    }
+    appliedProfileModeRef.current = key;
+    setPerformanceMode(activeProfile.performanceMode).catch(
+      (error: unknown) => {
+        logger.error("Failed to apply profile performance mode", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      },
+    );
+  }, [activeProfile, setPerformanceMode]);
+
   useEffect(() => {
     let cancelled = false;
     const loadCalibration = async () => {
       const loadChannel =
-        (channels?.calibrationLoad as RendererChannel | undefined) ??
-        IPC_CHANNELS.calibrationLoad;
+        channels?.calibrationLoad ?? IPC_CHANNELS.calibrationLoad;
       try {
         setIsLoadingCalibration(true);
-        const response = (await ipcRenderer.invoke(
-          loadChannel,
-        )) as CalibrationCompletePayload | null;
+        const response = await ipcRenderer.invoke(loadChannel);
         if (cancelled) {
           return;
         }
@@ -499,6 +554,9 @@ function IntegrationDashboard({ electron }: { electron: ElectronApi }) {
           setActiveCalibration(response);
           setOnboardingComplete(true);
           setCalibrationStatusError(null);
+        } else if (activeProfileId !== null) {
+          // Switched to a profile that has not been calibrated yet
+          setActiveCalibration(null);
         }
       } catch (error: unknown) {
         if (cancelled) {
@@ -529,7 +587,7 @@ function IntegrationDashboard({ electron }: { electron: ElectronApi }) {
     return () => {
       cancelled = true;
     };
-  }, [channels?.calibrationLoad, ipcRenderer, t]);
+  }, [activeProfileId, channels?.calibrationLoad, ipcRenderer, t]);
 
   const currentThresholds = useMemo(() => {
     if (!activeCalibration) {
@@ -661,20 +719,19 @@ function IntegrationDashboard({ electron }: { electron: ElectronApi }) {
       }
 
       const updateChannel =
-        (channels?.calibrationUpdateSensitivity as
-          | RendererChannel
-          | undefined) ?? IPC_CHANNELS.calibrationUpdateSensitivity;
+        channels?.calibrationUpdateSensitivity ??
+        IPC_CHANNELS.calibrationUpdateSensitivity;
 
       setIsUpdatingSensitivity(true);
       setCalibrationStatusError(null);
       setCustomSensitivityError(null);
 
       try {
-        const response = (await ipcRenderer.invoke(updateChannel, {
+        const response = await ipcRenderer.invoke(updateChannel, {
           calibrationId: activeCalibration.calibrationId,
           sensitivity: nextSensitivity,
           customThresholds: custom ?? null,
-        })) as CalibrationCompletePayload;
+        });
         setActiveCalibration(response);
         return response;
       } catch (error: unknown) {
@@ -839,8 +896,6 @@ function IntegrationDashboard({ electron }: { electron: ElectronApi }) {
   const [engineTick, setEngineTick] = useState<EngineTick | null>(null);
   const [calibrationAlert, setCalibrationAlert] = useState<string | null>(null);
 
-  useZoneNotifications(engineTick);
-
   useEffect(() => {
     setMainResponse((previous) =>
       previous.isDefault
@@ -1638,6 +1693,26 @@ function IntegrationDashboard({ electron }: { electron: ElectronApi }) {
                     }
                     onPress={() => {
                       setPerformanceMode(mode.id);
+                      if (activeProfileId !== null) {
+                        ipcRenderer
+                          .invoke(
+                            channels?.updateProfile ??
+                              IPC_CHANNELS.updateProfile,
+                            activeProfileId,
+                            { performanceMode: mode.id },
+                          )
+                          .catch((error: unknown) => {
+                            logger.error(
+                              "Failed to save profile performance mode",
+                              {
+                                error:
+                                  error instanceof Error
+                                    ? error.message
+                                    : String(error),
+                              },
+                            );
+                          });
+                      }
                     }}
                   >
                     {mode.label}
@@ -1820,6 +1895,7 @@ export default function App() {
         <Routes>
           <Route path="/dashboard" element={<Dashboard />} />
           <Route path="/settings" element={<Settings />} />
+          <Route path="/stretch" element={<StretchBreak />} />
           <Route
             path="/calibration"
             element={
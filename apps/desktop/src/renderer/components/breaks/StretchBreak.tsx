@@ -0,0 +1,185 @@
+import { Button, Progress } from "@heroui/react";
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { IPC_CHANNELS } from "../../../shared/ipcChannels";
+import { getLogger } from "../../../shared/logger";
+
+const logger = getLogger("stretch-break", "renderer");
+
+type StretchExercise = {
+  /** Key under `stretch.exercises` in the locales */
+  id: string;
+  title: string;
+  instruction: string;
+  seconds: number;
+};
+
+// Neck and shoulder routine, about two minutes
+const STRETCH_EXERCISES: StretchExercise[] = [
+  {
+    id: "chinTuck",
+    title: "Chin tucks",
+    instruction:
+      "Sit tall and glide your chin straight back, hold for a breath, release. Repeat slowly.",
+    seconds: 20,
+  },
+  {
+    id: "neckTilt",
+    title: "Side neck stretch",
+    instruction:
+      "Tilt your ear towards your shoulder and hold, then switch sides halfway.",
+    seconds: 30,
+  },
+  {
+    id: "shoulderRoll",
+    title: "Shoulder rolls",
+    instruction: "Roll your shoulders up, back and down in big, slow circles.",
+    seconds: 20,
+  },
+  {
+    id: "chestOpener",
+    title: "Chest opener",
+    instruction:
+      "Clasp your hands behind your back, squeeze your shoulder blades together and lift your chest.",
+    seconds: 30,
+  },
+  {
+    id: "upperBack",
+    title: "Upper back stretch",
+    instruction:
+      "Reach both arms forward, round your upper back and let your head drop gently.",
+    seconds: 20,
+  },
+];
+
+const invokeAndClose = async (
+  channel:
+    | typeof IPC_CHANNELS.completeStretchBreak
+    | typeof IPC_CHANNELS.skipBreak,
+) => {
+  const { electron } = window;
+  if (!electron?.ipcRenderer) {
+    logger.error("IPC renderer not available");
+    return;
+  }
+  await electron.ipcRenderer.invoke(channel);
+  window.close();
+};
+
+/**
+ * Guided stretch shown in its own window when a break comes due. Finishing
+ * every exercise counts the break as taken; skipping ends the break without.
+ */
+function StretchBreak() {
+  const { t } = useTranslation(["common"]);
+  const [index, setIndex] = useState(0);
+  const [remaining, setRemaining] = useState(
+    STRETCH_EXERCISES[0]?.seconds ?? 0,
+  );
+  const [isRunning, setIsRunning] = useState(false);
+
+  const exercise = STRETCH_EXERCISES[index];
+  const isFinished = exercise === undefined;
+
+  useEffect(() => {
+    if (!isRunning || isFinished) {
+      return undefined;
+    }
+    const timer = window.setInterval(() => {
+      setRemaining((current) => current - 1);
+    }, 1000);
+    return () => {
+      window.clearInterval(timer);
+    };
+  }, [isRunning, isFinished]);
+
+  // Move on once the current exercise runs out
+  useEffect(() => {
+    if (remaining > 0 || isFinished) {
+      return;
+    }
+    const nextIndex = index + 1;
+    setIndex(nextIndex);
+    setRemaining(STRETCH_EXERCISES[nextIndex]?.seconds ?? 0);
+  }, [remaining, index, isFinished]);
+
+  const handleFinish = useCallback(() => {
+    invokeAndClose(IPC_CHANNELS.completeStretchBreak).catch((err) => {
+      logger.error("Failed to complete stretch break", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    });
+  }, []);
+
+  const handleSkip = useCallback(() => {
+    invokeAndClose(IPC_CHANNELS.skipBreak).catch((err) => {
+      logger.error("Failed to skip break", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    });
+  }, []);
+
+  return (
+    <div className="flex min-h-screen flex-col gap-4 bg-gradient-to-br from-amber-300 via-rose-500 to-indigo-700 p-6 text-white">
+      <h1 className="text-lg font-semibold">
+        {t("stretch.title", "Stretch break")}
+      </h1>
+      {isFinished ? (
+        <div className="flex flex-1 flex-col items-center justify-center gap-4 text-center">
+          <p className="text-base">
+            {t("stretch.done", "Nice work! Your break is done.")}
+          </p>
+          <Button color="primary" onPress={handleFinish}>
+            {t("stretch.finish", "Back to work")}
+          </Button>
+        </div>
+      ) : (
+        <div
+          className="flex flex-1 flex-col gap-3"
+          data-testid="stretch-exercise"
+        >
+          <span className="text-xs uppercase tracking-wide text-white/70">
+            {t("stretch.step", {
+              defaultValue: "Exercise {{current}} of {{total}}",
+              current: index + 1,
+              total: STRETCH_EXERCISES.length,
+            })}
+          </span>
+          <h2 className="text-xl font-bold">
+            {t(`stretch.exercises.${exercise.id}.title`, exercise.title)}
+          </h2>
+          <p className="text-sm text-white/90">
+            {t(
+              `stretch.exercises.${exercise.id}.instruction`,
+              exercise.instruction,
+            )}
+          </p>
+          <div className="mt-auto text-center text-5xl font-bold">
+            {remaining}
+          </div>
+          <Progress
+            aria-label={t(
+              `stretch.exercises.${exercise.id}.title`,
+              exercise.title,
+            )}
+            size="sm"
+            value={((exercise.seconds - remaining) / exercise.seconds) * 100}
+          />
+          <Button
+            color="primary"
+            onPress={() => setIsRunning((current) => !current)}
+          >
+            {isRunning
+              ? t("stretch.pause", "Pause")
+              : t("stretch.start", "Start")}
+          </Button>
+        </div>
+      )}
+      <Button variant="light" className="text-white" onPress={handleSkip}>
+        {t("stretch.skip", "Skip this break")}
+      </Button>
+    </div>
+  );
+}
+
+export default StretchBreak;
@@ -0,0 +1,63 @@
+import { useTranslation } from "react-i18next";
+import type { DailyBreakSummary } from "../../../shared/types/breaks";
+
+type BreakAdherenceProps = {
+  data: DailyBreakSummary[];
+  /** Local date (YYYY-MM-DD) shown as today */
+  today: string;
+};
+
+/**
+ * BreakAdherence Component
+ *
+ * Summarizes the break coach over the fetched days:
+ * - Share of breaks taken out of those taken or skipped
+ * - Today's taken, skipped and stretch counts
+ */
+function BreakAdherence({ data, today }: BreakAdherenceProps) {
+  const { t } = useTranslation(["common"]);
+
+  const totals = data.reduce(
+    (sum, day) => ({
+      taken: sum.taken + day.taken,
+      skipped: sum.skipped + day.skipped,
+    }),
+    { taken: 0, skipped: 0 },
+  );
+  const decided = totals.taken + totals.skipped;
+  const adherence =
+    decided > 0 ? Math.round((totals.taken / decided) * 100) : null;
+  const todayLog = data.find((day) => day.date === today);
+
+  const getAdherenceColor = (value: number): string => {
+    if (value >= 80) return "text-green-600";
+    if (value >= 50) return "text-yellow-600";
+    return "text-red-600";
+  };
+
+  return (
+    <div
+      className="flex flex-col items-center gap-2"
+      data-testid="break-adherence"
+    >
+      {adherence === null ? (
+        <div className="text-2xl text-slate-400">–</div>
+      ) : (
+        <div className={`text-5xl font-bold ${getAdherenceColor(adherence)}`}>
+          {adherence}%
+        </div>
+      )}
+      <p className="text-center text-xs text-slate-500">
+        {t("dashboard.breaks.today", {
+          defaultValue:
+            "Today: {{taken}} taken · {{skipped}} skipped · {{stretched}} stretches",
+          taken: todayLog?.taken ?? 0,
+          skipped: todayLog?.skipped ?? 0,
+          stretched: todayLog?.stretched ?? 0,
+        })}
+      </p>
+    </div>
+  );
+}
+
+export default BreakAdherence;
@@ -1,12 +1,26 @@
-import { Card, CardBody, CardHeader } from "@heroui/react";
+import { Card, CardBody, CardHeader, Select, SelectItem } from "@heroui/react";
 import { useEffect, useRef, useState } from "react";
 import { useTranslation } from "react-i18next";
 import {
+  DASHBOARD_HEATMAP_DAYS,
   DASHBOARD_HTTP_DEFAULT_ORIGIN,
   DASHBOARD_HTTP_ORIGIN_ENV_KEY,
   DASHBOARD_HTTP_POLL_INTERVAL_MS,
+  DASHBOARD_HTTP_TOKEN_ENV_KEY,
+  DASHBOARD_STREAM_EVENTS,
+  DASHBOARD_STREAM_PATH,
 } from "../../../shared/config/dashboard";
 import { getLogger } from "../../../shared/logger";
+import {
+  DEFAULT_POSTURE_GOAL_RULE,
+  type PostureGoalRule,
+  UNLIMITED_RED_MINUTES,
+} from "../../../shared/posture/postureGoal";
+import { getTodayLocalDate } from "../../../shared/time";
+import type { DailyBreakSummary } from "../../../shared/types/breaks";
+import type { MonitoringProfile } from "../../../shared/types/profiles";
+import BreakAdherence from "./BreakAdherence";
+import PostureHeatmap from "./PostureHeatmap";
 import WeeklyChart from "./WeeklyChart";
 
 const logger = getLogger("Dashboard", "renderer");
@@ -27,9 +41,20 @@ type WeeklySummary = {
   sampleCount: number;
 };
 
+type HeatmapCell = {
+  weekday: number;
+  hour: number;
+  avgScore: number;
+  avgRedMinutes: number;
+  sampleCount: number;
+  dayCount: number;
+};
+
 type DashboardEnv = {
   VITE_POSELY_DASHBOARD_HTTP_ORIGIN?: string;
   POSELY_DASHBOARD_HTTP_ORIGIN?: string;
+  VITE_POSELY_DASHBOARD_HTTP_TOKEN?: string;
+  POSELY_DASHBOARD_HTTP_TOKEN?: string;
   [key: string]: string | undefined;
 };
 
@@ -59,6 +84,20 @@ const resolveDashboardHttpOrigin = (): string | null => {
   return DASHBOARD_HTTP_DEFAULT_ORIGIN;
 };
 
+/**
+ * API token for browser mode; the Electron app reads data over IPC instead
+ */
+const resolveDashboardHttpToken = (): string | null => {
+  if (typeof process === "undefined" || !process.env) {
+    return null;
+  }
+  const processEnv = process.env as DashboardEnv;
+  const token =
+    processEnv.VITE_POSELY_DASHBOARD_HTTP_TOKEN ??
+    processEnv[DASHBOARD_HTTP_TOKEN_ENV_KEY];
+  return token && token.trim().length > 0 ? token.trim() : null;
+};
+
 /**
  * Dashboard Component
  *
@@ -67,6 +106,11 @@ const resolveDashboardHttpOrigin = (): string | null => {
  * - Posture Streak (consecutive days meeting goal) - placeholder for now
  * - Today's Score (current posture performance) - from database
  * - Weekly Trend (7-day bar chart) - placeholder for now
+ * - Weekly Patterns (weekday × hour heatmap) - from intraday timeline
+ * - Breaks (break coach adherence over 7 days) - Electron only, once used
+ *
+ * In Electron, today's score and the weekly trend can be narrowed to one
+ * monitoring profile; the streak always counts all profiles.
  */
 function Dashboard() {
   const { t } = useTranslation(["common"]);
@@ -74,16 +118,27 @@ function Dashboard() {
   const [weeklySummary, setWeeklySummary] = useState<WeeklySummary[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isWeeklyLoading, setIsWeeklyLoading] = useState(true);
+  const [heatmap, setHeatmap] = useState<HeatmapCell[]>([]);
+  const [isHeatmapLoading, setIsHeatmapLoading] = useState(true);
+  const [goalRule, setGoalRule] = useState<PostureGoalRule>(
+    DEFAULT_POSTURE_GOAL_RULE,
+  );
+  const [profiles, setProfiles] = useState<MonitoringProfile[]>([]);
+  // null shows every profile combined
+  const [profileFilter, setProfileFilter] = useState<number | null>(null);
+  const [breakAdherence, setBreakAdherence] = useState<DailyBreakSummary[]>([]);
 
   // Refs to track first load state without causing re-renders
   const hasLoadedDailyRef = useRef(false);
   const hasLoadedWeeklyRef = useRef(false);
+  const hasLoadedHeatmapRef = useRef(false);
 
   useEffect(() => {
     logger.info("Dashboard component mounted, initializing data fetch");
     if (typeof window === "undefined") {
       setIsLoading(false);
       setIsWeeklyLoading(false);
+      setIsHeatmapLoading(false);
       return () => {
         /* no-op cleanup for non-browser environments */
       };
@@ -92,6 +147,7 @@ function Dashboard() {
     const electronApi = window.electron;
     const isElectronEnv = Boolean(electronApi?.ipcRenderer);
     const httpOrigin = resolveDashboardHttpOrigin();
+    const httpToken = isElectronEnv ? null : resolveDashboardHttpToken();
 
     if (!isElectronEnv) {
       logger.info(
@@ -104,12 +160,20 @@ function Dashboard() {
 
     let isCancelled = false;
     let unsubscribe: (() => void) | null = null;
+    let unsubscribeProfiles: (() => void) | null = null;
+    let unsubscribeBreaks: (() => void) | null = null;
     let focusHandler: (() => void) | null = null;
     let pollTimer: number | null = null;
+    let eventSource: EventSource | null = null;
 
     const fetchJson = async <T,>(url: string): Promise<T | null> => {
       try {
-        const response = await fetch(url, { cache: "no-store" });
+        const response = await fetch(url, {
+          cache: "no-store",
+          ...(httpToken
+            ? { headers: { Authorization: `Bearer ${httpToken}` } }
+            : {}),
+        });
         if (!response.ok) {
           logger.warn("Dashboard HTTP request failed", {
             url,
@@ -139,6 +203,7 @@ function Dashboard() {
         if (isElectronEnv) {
           summary = (await electronApi.ipcRenderer.invoke(
             electronApi.channels.getDailySummary,
+            profileFilter ?? undefined,
           )) as DailySummary | null;
         } else if (httpOrigin) {
           summary =
@@ -184,6 +249,7 @@ function Dashboard() {
         if (isElectronEnv) {
           summary = (await electronApi.ipcRenderer.invoke(
             electronApi.channels.getWeeklySummary,
+            profileFilter ?? undefined,
           )) as WeeklySummary[] | null;
         } else if (httpOrigin) {
           summary =
@@ -217,6 +283,95 @@ function Dashboard() {
       }
     };
 
+    const fetchHeatmap = async () => {
+      if (!hasLoadedHeatmapRef.current) {
+        setIsHeatmapLoading(true);
+      }
+
+      try {
+        let cells: HeatmapCell[] | null = null;
+
+        if (isElectronEnv) {
+          cells = (await electronApi.ipcRenderer.invoke(
+            electronApi.channels.getPostureHeatmap,
+          )) as HeatmapCell[] | null;
+        } else if (httpOrigin) {
+          cells =
+            (await fetchJson<HeatmapCell[] | null>(
+              `${httpOrigin}/api/dashboard/heatmap`,
+            )) ?? [];
+        }
+
+        if (isCancelled) {
+          return;
+        }
+
+        logger.info("Fetched posture heatmap", {
+          source: isElectronEnv ? "ipc" : "http",
+          cells: cells?.length || 0,
+        });
+
+        setHeatmap(Array.isArray(cells) ? cells : []);
+      } catch (error) {
+        if (!isCancelled) {
+          logger.error("Failed to fetch posture heatmap", {
+            error: error instanceof Error ? error.message : String(error),
+          });
+          setHeatmap([]);
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsHeatmapLoading(false);
+          hasLoadedHeatmapRef.current = true;
+        }
+      }
+    };
+
+    const fetchGoalRule = async () => {
+      try {
+        let rule: PostureGoalRule | null = null;
+
+        if (isElectronEnv) {
+          rule = (await electronApi.ipcRenderer.invoke(
+            electronApi.channels.getPostureGoal,
+          )) as PostureGoalRule | null;
+        } else if (httpOrigin) {
+          rule = await fetchJson<PostureGoalRule>(
+            `${httpOrigin}/api/dashboard/goal`,
+          );
+        }
+
+        if (!isCancelled && rule) {
+          setGoalRule(rule);
+        }
+      } catch (error) {
+        logger.error("Failed to fetch posture goal", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    };
+
+    const fetchBreakAdherence = async () => {
+      if (!isElectronEnv) {
+        return;
+      }
+      try {
+        const days: unknown = await electronApi.ipcRenderer.invoke(
+          electronApi.channels.getBreakAdherence,
+          7,
+        );
+        if (!isCancelled) {
+          setBreakAdherence(
+            Array.isArray(days) ? (days as DailyBreakSummary[]) : [],
+          );
+        }
+      } catch (error) {
+        logger.error("Failed to fetch break adherence", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    };
+
     const refreshChain = async (): Promise<void> => {
       try {
         await fetchDailySummary();
@@ -233,6 +388,28 @@ function Dashboard() {
       } catch {
         /* fetchWeeklySummary already logs failures */
       }
+
+      if (isCancelled) {
+        return;
+      }
+
+      try {
+        await fetchHeatmap();
+      } catch {
+        /* fetchHeatmap already logs failures */
+      }
+
+      if (isCancelled) {
+        return;
+      }
+
+      await fetchGoalRule();
+
+      if (isCancelled) {
+        return;
+      }
+
+      await fetchBreakAdherence();
     };
 
     const triggerRefresh = () => {
@@ -259,9 +436,57 @@ function Dashboard() {
         triggerRefresh();
       };
 
+      const applyProfiles = (list: unknown) => {
+        if (isCancelled || !Array.isArray(list)) {
+          return;
+        }
+        const next = list as MonitoringProfile[];
+        setProfiles(next);
+        // Fall back to all profiles when the filtered one was deleted
+        setProfileFilter((current) =>
+          next.some((profile) => profile.id === current) ? current : null,
+        );
+      };
+      electronApi.ipcRenderer
+        .invoke(electronApi.channels.listProfiles)
+        .then(applyProfiles)
+        .catch((error: unknown) => {
+          logger.error("Failed to fetch monitoring profiles", {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+      unsubscribeProfiles = electronApi.ipcRenderer.on(
+        electronApi.channels.profilesChanged,
+        applyProfiles,
+      );
+      // Breaks are recorded as the coach changes state
+      unsubscribeBreaks = electronApi.ipcRenderer.on(
+        electronApi.channels.breakCoachStateChanged,
+        () => {
+          fetchBreakAdherence().catch(() => {
+            /* fetchBreakAdherence already logs failures */
+          });
+        },
+      );
+
       if (window.addEventListener) {
         window.addEventListener("focus", focusHandler);
       }
+    } else if (httpOrigin && typeof EventSource !== "undefined") {
+      // The event stream announces saved data; the browser reconnects on its own
+      // EventSource cannot send headers, so the token goes in the query string
+      const streamUrl = new URL(DASHBOARD_STREAM_PATH, httpOrigin);
+      if (httpToken) {
+        streamUrl.searchParams.set("token", httpToken);
+      }
+      eventSource = new EventSource(streamUrl.toString());
+      eventSource.addEventListener(
+        DASHBOARD_STREAM_EVENTS.postureDataUpdated,
+        () => {
+          logger.info("Received posture data update from stream, refreshing");
+          triggerRefresh();
+        },
+      );
     } else {
       pollTimer = window.setInterval(() => {
         logger.debug("Polling dashboard HTTP endpoints for fresh data", {
@@ -276,14 +501,23 @@ function Dashboard() {
       if (unsubscribe) {
         unsubscribe();
       }
+      if (unsubscribeProfiles) {
+        unsubscribeProfiles();
+      }
+      if (unsubscribeBreaks) {
+        unsubscribeBreaks();
+      }
       if (focusHandler && window.removeEventListener) {
         window.removeEventListener("focus", focusHandler);
       }
       if (pollTimer !== null) {
         window.clearInterval(pollTimer);
       }
+      if (eventSource) {
+        eventSource.close();
+      }
     };
-  }, []);
+  }, [profileFilter]);
 
   // Calculate display score
   const displayScore =
@@ -294,6 +528,29 @@ function Dashboard() {
   // Get streak value
   const streak = dailySummary?.streak ?? 0;
 
+  // Describe the rule a day must meet to extend the streak
+  const goalRuleParts = [
+    t("dashboard.streak.ruleScore", {
+      defaultValue: "Avg score ≥ {{score}}%",
+      score: goalRule.minAvgScore,
+    }),
+    goalRule.minMonitoredMinutes > 0
+      ? t("dashboard.streak.ruleMonitored", {
+          defaultValue: "≥ {{minutes}} min monitored",
+          minutes: goalRule.minMonitoredMinutes,
+        })
+      : null,
+    goalRule.maxRedMinutes < UNLIMITED_RED_MINUTES
+      ? t("dashboard.streak.ruleRed", {
+          defaultValue: "≤ {{minutes}} min in red",
+          minutes: goalRule.maxRedMinutes,
+        })
+      : null,
+    goalRule.restOnWeekends
+      ? t("dashboard.streak.ruleRestDays", "Weekends are rest days")
+      : null,
+  ].filter((part): part is string => Boolean(part));
+
   // Determine score color based on thresholds
   const getScoreColor = (score: number): string => {
     if (score >= 80) return "text-green-600";
@@ -313,10 +570,35 @@ function Dashboard() {
       className="flex min-h-screen flex-col gap-6 bg-gradient-to-br from-slate-50 to-slate-100 p-6"
       data-testid="dashboard"
     >
-      <header>
+      <header className="flex items-center justify-between gap-4">
         <h1 className="text-2xl font-semibold text-slate-800">
           {t("dashboard.title", "Progress Dashboard")}
         </h1>
+        {profiles.length > 1 && (
+          <Select
+            size="sm"
+            className="max-w-48"
+            aria-label={t("dashboard.profileFilter.label", "Profile")}
+            selectedKeys={[profileFilter === null ? "all" : `${profileFilter}`]}
+            onSelectionChange={(keys) => {
+              const [key] = Array.from(keys);
+              const id = Number(key);
+              setProfileFilter(
+                key === "all" || !Number.isInteger(id) ? null : id,
+              );
+            }}
+            data-testid="dashboard-profile-filter"
+          >
+            {[
+              <SelectItem key="all">
+                {t("dashboard.profileFilter.all", "All profiles")}
+              </SelectItem>,
+              ...profiles.map((profile) => (
+                <SelectItem key={`${profile.id}`}>{profile.name}</SelectItem>
+              )),
+            ]}
+          </Select>
+        )}
       </header>
 
       <main className="flex flex-col gap-4">
@@ -327,13 +609,16 @@ function Dashboard() {
               {t("dashboard.streak.title", "Posture Streak")}
             </h2>
           </CardHeader>
-          <CardBody className="flex items-center justify-center py-6">
+          <CardBody className="flex flex-col items-center justify-center gap-2 py-6">
             {isLoading ? (
               <div className="text-2xl text-slate-400">Loading...</div>
             ) : (
               <div
                 className="text-5xl font-bold"
-                title="Consecutive days with score ≥ 70%"
+                title={t("dashboard.streak.tooltip", {
+                  defaultValue: "Consecutive days meeting the goal: {{rule}}",
+                  rule: goalRuleParts.join(", "),
+                })}
               >
                 <span role="img" aria-label="fire">
                   🔥
@@ -341,6 +626,12 @@ function Dashboard() {
                 <span className={getStreakColor(streak)}>{streak}</span>
               </div>
             )}
+            <p
+              className="text-center text-xs text-slate-500"
+              data-testid="streak-goal-rule"
+            >
+              {goalRuleParts.join(" · ")}
+            </p>
           </CardBody>
         </Card>
 
@@ -384,6 +675,44 @@ function Dashboard() {
             )}
           </CardBody>
         </Card>
+
+        {/* Weekly Patterns Heatmap Card */}
+        <Card className="bg-white shadow-md">
+          <CardHeader className="flex flex-col items-center gap-2 pb-2">
+            <h2 className="text-sm font-medium uppercase tracking-wide text-slate-600">
+              {t("dashboard.heatmap.title", "Weekly Patterns")}
+            </h2>
+          </CardHeader>
+          <CardBody className="py-6">
+            {isHeatmapLoading ? (
+              <div
+                className="flex items-center justify-center"
+                style={{ height: "120px" }}
+              >
+                <div className="text-2xl text-slate-400">Loading...</div>
+              </div>
+            ) : (
+              <PostureHeatmap data={heatmap} days={DASHBOARD_HEATMAP_DAYS} />
+            )}
+          </CardBody>
+        </Card>
+
+        {/* Break Adherence Card */}
+        {breakAdherence.length > 0 && (
+          <Card className="bg-white shadow-md">
+            <CardHeader className="flex flex-col items-center gap-2 pb-2">
+              <h2 className="text-sm font-medium uppercase tracking-wide text-slate-600">
+                {t("dashboard.breaks.title", "Breaks Taken")}
+              </h2>
+            </CardHeader>
+            <CardBody className="py-6">
+              <BreakAdherence
+                data={breakAdherence}
+                today={getTodayLocalDate()}
+              />
+            </CardBody>
+          </Card>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,188 @@
+import { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+
+type PostureHeatmapCell = {
+  weekday: number;
+  hour: number;
+  avgScore: number;
+  avgRedMinutes: number;
+  sampleCount: number;
+  dayCount: number;
+};
+
+type HeatmapMode = "score" | "red";
+
+type PostureHeatmapProps = {
+  data: PostureHeatmapCell[];
+  days: number;
+};
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+// 2024-01-07 was a Sunday; offsetting from it yields localized weekday names
+const REFERENCE_SUNDAY = new Date(2024, 0, 7);
+
+/**
+ * PostureHeatmap Component
+ *
+ * Displays a weekday × hour grid of posture data so recurring bad slots
+ * (e.g. Tuesday afternoons) stand out.
+ * - Toggle between average score and average red-zone minutes
+ * - Color-coded cells (score uses the same thresholds as WeeklyChart)
+ * - Hover tooltips with the slot and its value
+ */
+function PostureHeatmap({ data, days }: PostureHeatmapProps) {
+  const { t, i18n } = useTranslation(["common"]);
+  const [mode, setMode] = useState<HeatmapMode>("score");
+
+  const cellsByKey = useMemo(() => {
+    const map = new Map<string, PostureHeatmapCell>();
+    data.forEach((cell) => map.set(`${cell.weekday}:${cell.hour}`, cell));
+    return map;
+  }, [data]);
+
+  const weekdayLabels = useMemo(() => {
+    const formatter = new Intl.DateTimeFormat(i18n.language || undefined, {
+      weekday: "short",
+    });
+    return WEEKDAYS.map((weekday) => {
+      const date = new Date(REFERENCE_SUNDAY);
+      date.setDate(REFERENCE_SUNDAY.getDate() + weekday);
+      return formatter.format(date);
+    });
+  }, [i18n.language]);
+
+  const maxRedMinutes = useMemo(
+    () => data.reduce((max, cell) => Math.max(max, cell.avgRedMinutes), 0),
+    [data],
+  );
+
+  // Get cell color based on the active mode
+  const getCellColor = (cell: PostureHeatmapCell | undefined): string => {
+    if (!cell) return "bg-slate-100";
+    if (mode === "score") {
+      if (cell.sampleCount === 0) return "bg-slate-100";
+      if (cell.avgScore >= 80) return "bg-green-500";
+      if (cell.avgScore >= 60) return "bg-yellow-500";
+      return "bg-red-500";
+    }
+    if (cell.avgRedMinutes <= 0 || maxRedMinutes <= 0) return "bg-slate-100";
+    const ratio = cell.avgRedMinutes / maxRedMinutes;
+    if (ratio >= 0.75) return "bg-red-600";
+    if (ratio >= 0.5) return "bg-red-400";
+    if (ratio >= 0.25) return "bg-red-300";
+    return "bg-red-100";
+  };
+
+  // Format tooltip text
+  const getTooltipText = (
+    weekdayLabel: string,
+    hour: number,
+    cell: PostureHeatmapCell | undefined,
+  ): string => {
+    if (!cell || (mode === "score" && cell.sampleCount === 0)) {
+      return t("dashboard.heatmap.cellEmpty", {
+        defaultValue: "{{weekday}} {{hour}}:00 · No data",
+        weekday: weekdayLabel,
+        hour,
+      });
+    }
+    if (mode === "score") {
+      return t("dashboard.heatmap.cellScore", {
+        defaultValue: "{{weekday}} {{hour}}:00 · {{score}}%",
+        weekday: weekdayLabel,
+        hour,
+        score: Math.round(cell.avgScore),
+      });
+    }
+    return t("dashboard.heatmap.cellRed", {
+      defaultValue: "{{weekday}} {{hour}}:00 · {{minutes}} min in red",
+      weekday: weekdayLabel,
+      hour,
+      minutes: Math.round(cell.avgRedMinutes * 10) / 10,
+    });
+  };
+
+  const modeButtonClass = (value: HeatmapMode): string =>
+    `rounded px-2 py-1 text-xs font-medium transition-colors ${
+      mode === value
+        ? "bg-slate-800 text-white"
+        : "bg-slate-100 text-slate-600 hover:bg-slate-200"
+    }`;
+
+  return (
+    <div className="flex flex-col gap-3 px-4" data-testid="posture-heatmap">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-slate-500">
+          {t("dashboard.heatmap.description", {
+            defaultValue: "Hour-by-hour posture over the last {{days}} days.",
+            days,
+          })}
+        </p>
+        <div className="flex gap-1">
+          <button
+            type="button"
+            className={modeButtonClass("score")}
+            aria-pressed={mode === "score"}
+            onClick={() => setMode("score")}
+          >
+            {t("dashboard.heatmap.modeScore", "Average score")}
+          </button>
+          <button
+            type="button"
+            className={modeButtonClass("red")}
+            aria-pressed={mode === "red"}
+            onClick={() => setMode("red")}
+          >
+            {t("dashboard.heatmap.modeRed", "Red-zone minutes")}
+          </button>
+        </div>
+      </div>
+
+      {data.length === 0 ? (
+        <div className="flex h-[120px] items-center justify-center">
+          <p className="text-sm text-slate-400">
+            {t("dashboard.heatmap.noData", "No data available yet")}
+          </p>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-[2px]">
+          {WEEKDAYS.map((weekday) => {
+            const weekdayLabel = weekdayLabels[weekday] ?? "";
+            return (
+              <div key={weekday} className="flex items-center gap-[2px]">
+                <span className="w-10 shrink-0 text-xs text-slate-500">
+                  {weekdayLabel}
+                </span>
+                {HOURS.map((hour) => {
+                  const cell = cellsByKey.get(`${weekday}:${hour}`);
+                  return (
+                    <div
+                      key={hour}
+                      className={`h-4 flex-1 rounded-sm ${getCellColor(cell)}`}
+                      title={getTooltipText(weekdayLabel, hour, cell)}
+                      data-testid={`heatmap-cell-${weekday}-${hour}`}
+                    />
+                  );
+                })}
+              </div>
+            );
+          })}
+          <div className="flex items-center gap-[2px]">
+            <span className="w-10 shrink-0" />
+            {HOURS.map((hour) => (
+              <span
+                key={hour}
+                className="flex-1 text-center text-[10px] text-slate-400"
+              >
+                {hour % 6 === 0 ? hour : ""}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PostureHeatmap;
@@ -0,0 +1,76 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import PostureHeatmap from "../PostureHeatmap";
+
+type HeatmapCell = {
+  weekday: number;
+  hour: number;
+  avgScore: number;
+  avgRedMinutes: number;
+  sampleCount: number;
+  dayCount: number;
+};
+
+const createCell = (overrides: Partial<HeatmapCell> = {}): HeatmapCell => ({
+  weekday: 2,
+  hour: 14,
+  avgScore: 85,
+  avgRedMinutes: 0,
+  sampleCount: 60,
+  dayCount: 1,
+  ...overrides,
+});
+
+describe("PostureHeatmap", () => {
+  it("should render a 7 × 24 grid", () => {
+    const { container } = render(
+      <PostureHeatmap data={[createCell()]} days={28} />,
+    );
+
+    const cells = container.querySelectorAll('[data-testid^="heatmap-cell-"]');
+    expect(cells).toHaveLength(7 * 24);
+  });
+
+  it("should color score cells by threshold", () => {
+    render(
+      <PostureHeatmap
+        data={[
+          createCell({ weekday: 1, hour: 9, avgScore: 85 }),
+          createCell({ weekday: 2, hour: 14, avgScore: 65 }),
+          createCell({ weekday: 3, hour: 16, avgScore: 40 }),
+        ]}
+        days={28}
+      />,
+    );
+
+    expect(screen.getByTestId("heatmap-cell-1-9")).toHaveClass("bg-green-500");
+    expect(screen.getByTestId("heatmap-cell-2-14")).toHaveClass(
+      "bg-yellow-500",
+    );
+    expect(screen.getByTestId("heatmap-cell-3-16")).toHaveClass("bg-red-500");
+    expect(screen.getByTestId("heatmap-cell-0-0")).toHaveClass("bg-slate-100");
+  });
+
+  it("should switch to red-zone minutes", () => {
+    render(
+      <PostureHeatmap
+        data={[
+          createCell({ weekday: 2, hour: 14, avgRedMinutes: 12 }),
+          createCell({ weekday: 4, hour: 10, avgRedMinutes: 1 }),
+        ]}
+        days={28}
+      />,
+    );
+
+    fireEvent.click(screen.getByText("Red-zone minutes"));
+
+    expect(screen.getByTestId("heatmap-cell-2-14")).toHaveClass("bg-red-600");
+    expect(screen.getByTestId("heatmap-cell-4-10")).toHaveClass("bg-red-100");
+  });
+
+  it("should show empty state when there is no data", () => {
+    render(<PostureHeatmap data={[]} days={28} />);
+
+    expect(screen.getByText("No data available yet")).toBeInTheDocument();
+  });
+});
@@ -62,7 +62,7 @@ describe("CalibrationFlow", () => {
   const createElectronMock = () => {
     const progressListeners = new Set<(...args: unknown[]) => void>();
 
-    const invoke = vi.fn<InvokeFn>(async (channel) => {
+    const invoke = vi.fn(async (channel: RendererChannel) => {
       if (channel !== IPC_CHANNELS.calibrationStart) {
         throw new Error(`Unexpected channel ${String(channel)}`);
       }
@@ -121,7 +121,8 @@ describe("CalibrationFlow", () => {
         sendMessage: () => {},
         on,
         once: () => {},
-        invoke,
+        // The contract-typed signature is generic; the mock only serves one channel
+        invoke: invoke as unknown as InvokeFn,
       },
       channels: IPC_CHANNELS,
       env: {} as ElectronHandler["env"],
@@ -352,10 +352,10 @@ export function CalibrationFlow({
     setState("calibrating");
 
     try {
-      const response = (await electron.ipcRenderer.invoke(
+      const response = await electron.ipcRenderer.invoke(
         IPC_CHANNELS.calibrationStart,
         {},
-      )) as CalibrationCompletePayload;
+      );
 
       setResult(response);
       const { suggestion } = response.validation;
@@ -176,7 +176,7 @@ export function OnboardingWizardV2({
       await ipcRenderer.invoke(
         IPC_CHANNELS.setSetting,
         "onboardingCompleted",
-        "true",
+        true,
       );
 
       logger.info("Onboarding completed successfully");
@@ -0,0 +1,216 @@
+import { Button, Input } from "@heroui/react";
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { IPC_CHANNELS } from "../../../shared/ipcChannels";
+import { getLogger } from "../../../shared/logger";
+import type { ApiTokenSummary } from "../../../shared/types/apiAccess";
+
+const logger = getLogger("api-access-settings", "renderer");
+
+/**
+ * Manage tokens and allowed origins for the local dashboard API
+ */
+function ApiAccessSettings() {
+  const { t } = useTranslation(["common"]);
+  const [tokens, setTokens] = useState<ApiTokenSummary[]>([]);
+  const [tokenName, setTokenName] = useState("");
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [allowedOrigins, setAllowedOrigins] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTokens = useCallback(async () => {
+    const { electron } = window;
+    if (!electron?.ipcRenderer) {
+      logger.error("IPC renderer not available");
+      return;
+    }
+
+    const result = (await electron.ipcRenderer.invoke(
+      IPC_CHANNELS.listApiTokens,
+    )) as unknown;
+    setTokens(Array.isArray(result) ? (result as ApiTokenSummary[]) : []);
+  }, []);
+
+  useEffect(() => {
+    const { electron } = window;
+
+    const load = async () => {
+      await loadTokens();
+      const origins = (await electron?.ipcRenderer?.invoke(
+        IPC_CHANNELS.getSetting,
+        "apiAllowedOrigins",
+      )) as unknown;
+      if (typeof origins === "string") {
+        setAllowedOrigins(origins);
+      }
+    };
+
+    load().catch((err) => {
+      logger.error("Failed to load API access settings", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    });
+  }, [loadTokens]);
+
+  const handleCreate = useCallback(async () => {
+    try {
+      const { electron } = window;
+      if (!electron?.ipcRenderer) {
+        logger.error("IPC renderer not available");
+        return;
+      }
+
+      const result = await electron.ipcRenderer.invoke(
+        IPC_CHANNELS.createApiToken,
+        tokenName,
+      );
+
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+
+      setError(null);
+      setTokenName("");
+      setCreatedSecret(result.secret);
+      await loadTokens();
+    } catch (err) {
+      logger.error("Failed to create API token", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }, [loadTokens, tokenName]);
+
+  const handleRevoke = useCallback(
+    async (id: string) => {
+      try {
+        const { electron } = window;
+        if (!electron?.ipcRenderer) {
+          logger.error("IPC renderer not available");
+          return;
+        }
+
+        await electron.ipcRenderer.invoke(IPC_CHANNELS.revokeApiToken, id);
+        setCreatedSecret(null);
+        await loadTokens();
+      } catch (err) {
+        logger.error("Failed to revoke API token", {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    },
+    [loadTokens],
+  );
+
+  const handleOriginsSave = useCallback(async () => {
+    try {
+      const { electron } = window;
+      if (!electron?.ipcRenderer) {
+        logger.error("IPC renderer not available");
+        return;
+      }
+
+      const result = await electron.ipcRenderer.invoke(
+        IPC_CHANNELS.setSetting,
+        "apiAllowedOrigins",
+        allowedOrigins,
+      );
+
+      setError(result && !result.success ? (result.error ?? null) : null);
+    } catch (err) {
+      logger.error("Failed to save allowed origins", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }, [allowedOrigins]);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className="text-sm text-white">
+        {t("settings.api.title", "Local API access")}
+      </span>
+      <Input
+        size="sm"
+        label={t("settings.api.allowedOrigins", "Allowed web origins")}
+        placeholder="http://localhost:1212"
+        value={allowedOrigins}
+        onValueChange={setAllowedOrigins}
+        onBlur={() => {
+          handleOriginsSave().catch((err) => {
+            logger.error("Error in allowed origins handler", { error: err });
+          });
+        }}
+      />
+      <div className="flex items-end gap-2">
+        <Input
+          size="sm"
+          label={t("settings.api.tokenName", "New token name")}
+          value={tokenName}
+          onValueChange={setTokenName}
+        />
+        <Button
+          size="sm"
+          variant="flat"
+          isDisabled={tokenName.trim().length === 0}
+          onPress={() => {
+            handleCreate().catch((err) => {
+              logger.error("Error in create token handler", { error: err });
+            });
+          }}
+        >
+          {t("settings.api.create", "Create token")}
+        </Button>
+      </div>
+      {createdSecret && (
+        <div className="flex flex-col gap-1 text-xs text-white/80">
+          <p>
+            {t(
+              "settings.api.copyNow",
+              "Copy this token now, it will not be shown again:",
+            )}
+          </p>
+          <code
+            className="break-all rounded bg-black/30 px-2 py-1 text-white"
+            data-testid="api-token-secret"
+          >
+            {createdSecret}
+          </code>
+        </div>
+      )}
+      {tokens.length > 0 && (
+        <ul className="flex flex-col gap-1 text-xs text-white/80">
+          {tokens.map((token) => (
+            <li key={token.id} className="flex items-center justify-between">
+              <span>
+                {`${token.name} (${token.prefix}…) · `}
+                {token.lastUsedAt
+                  ? t("settings.api.lastUsed", {
+                      defaultValue: "last used {{date}}",
+                      date: new Date(token.lastUsedAt).toLocaleString(),
+                    })
+                  : t("settings.api.neverUsed", "never used")}
+              </span>
+              <Button
+                size="sm"
+                variant="light"
+                className="text-white"
+                onPress={() => {
+                  handleRevoke(token.id).catch((err) => {
+                    logger.error("Error in revoke token handler", {
+                      error: err,
+                    });
+                  });
+                }}
+              >
+                {t("settings.api.revoke", "Revoke")}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="text-danger-300 text-xs">{error}</p>}
+    </div>
+  );
+}
+
+export default ApiAccessSettings;
@@ -0,0 +1,218 @@
+import { Checkbox, Input, Select, SelectItem } from "@heroui/react";
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import {
+  BREAK_CYCLE_PRESETS,
+  type BREAK_CYCLE_SETTING_KEYS,
+  type BreakCyclePresetId,
+} from "../../../shared/breaks/breakCycle";
+import type { SettingUpdateArgs } from "../../../shared/ipc/contract";
+import { IPC_CHANNELS } from "../../../shared/ipcChannels";
+import { getLogger } from "../../../shared/logger";
+import type { SettingValues } from "../../../shared/settings/registry";
+
+const logger = getLogger("break-coach-settings", "renderer");
+
+type BreakSettingKey = (typeof BREAK_CYCLE_SETTING_KEYS)[number];
+
+type BreakDrafts = Record<
+  Exclude<BreakSettingKey, "breakCoachEnabled">,
+  string
+>;
+
+export type BreakCoachSettingsValues = Pick<SettingValues, BreakSettingKey>;
+
+type BreakCoachSettingsProps = {
+  /** Current break settings, kept up to date by the settings screen */
+  values: BreakCoachSettingsValues;
+};
+
+const PRESET_IDS = Object.keys(BREAK_CYCLE_PRESETS) as BreakCyclePresetId[];
+
+const toBreakDrafts = (values: BreakCoachSettingsValues): BreakDrafts => ({
+  breakWorkMinutes: String(values.breakWorkMinutes),
+  breakMinutes: String(values.breakMinutes),
+  breakLongMinutes: String(values.breakLongMinutes),
+  breakLongEvery: String(values.breakLongEvery),
+  breakAbsenceMinutes: String(values.breakAbsenceMinutes),
+});
+
+// The preset the drafts match, "custom" otherwise
+const findPreset = (drafts: BreakDrafts): BreakCyclePresetId | "custom" =>
+  PRESET_IDS.find((id) =>
+    (
+      Object.entries(BREAK_CYCLE_PRESETS[id]) as [keyof BreakDrafts, number][]
+    ).every(([key, value]) => drafts[key] === String(value)),
+  ) ?? "custom";
+
+/**
+ * Turn the break coach on and pick its work/break cycle, either from a
+ * preset or minute by minute.
+ */
+function BreakCoachSettings({ values }: BreakCoachSettingsProps) {
+  const { t } = useTranslation(["common"]);
+  const [enabled, setEnabled] = useState(values.breakCoachEnabled);
+  const [drafts, setDrafts] = useState<BreakDrafts>(() =>
+    toBreakDrafts(values),
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow values loaded or changed elsewhere
+  useEffect(() => {
+    setEnabled(values.breakCoachEnabled);
+    setDrafts(toBreakDrafts(values));
+  }, [values]);
+
+  const saveSetting = useCallback(
+    async (key: BreakSettingKey, value: number | boolean) => {
+      try {
+        const { electron } = window;
+        if (!electron?.ipcRenderer) {
+          logger.error("IPC renderer not available");
+          return;
+        }
+
+        // Each key is paired with the value type the caller passes for it
+        const result = await electron.ipcRenderer.invoke(
+          IPC_CHANNELS.setSetting,
+          ...([key, value] as SettingUpdateArgs),
+        );
+
+        if (result && !result.success) {
+          setError(
+            t("settings.breaks.invalid", {
+              defaultValue: "Could not save break setting: {{error}}",
+              error: result.error ?? "",
+            }),
+          );
+          return;
+        }
+
+        setError(null);
+        logger.info(`Break setting saved: ${key}=${String(value)}`);
+      } catch (err) {
+        logger.error("Failed to save break setting", {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    },
+    [t],
+  );
+
+  const handlePresetChange = useCallback(
+    async (presetId: BreakCyclePresetId) => {
+      const entries = Object.entries(BREAK_CYCLE_PRESETS[presetId]) as [
+        keyof BreakDrafts,
+        number,
+      ][];
+      setDrafts((current) => {
+        const next = { ...current };
+        entries.forEach(([key, value]) => {
+          next[key] = String(value);
+        });
+        return next;
+      });
+      // Saved in order; each change restarts the coach in main
+      await entries.reduce<Promise<void>>(
+        (previous, [key, value]) =>
+          previous.then(() => saveSetting(key, value)),
+        Promise.resolve(),
+      );
+    },
+    [saveSetting],
+  );
+
+  const preset = findPreset(drafts);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className="text-sm text-white">
+        {t("settings.breaks.title", "Break coach")}
+      </span>
+      <Checkbox
+        isSelected={enabled}
+        onValueChange={(checked) => {
+          setEnabled(checked);
+          saveSetting("breakCoachEnabled", checked).catch((err) => {
+            logger.error("Error in break coach handler", { error: err });
+          });
+        }}
+        classNames={{
+          label: "text-white",
+        }}
+      >
+        {t("settings.breaks.enabled", "Remind me to take breaks")}
+      </Checkbox>
+      <Select
+        size="sm"
+        label={t("settings.breaks.preset", "Cycle")}
+        isDisabled={!enabled}
+        selectedKeys={[preset]}
+        onSelectionChange={(keys) => {
+          const [key] = Array.from(keys);
+          if (typeof key === "string" && key in BREAK_CYCLE_PRESETS) {
+            handlePresetChange(key as BreakCyclePresetId).catch((err) => {
+              logger.error("Error in break preset handler", { error: err });
+            });
+          }
+        }}
+      >
+        <SelectItem key="fiftyTen">
+          {t("settings.breaks.presets.fiftyTen", "50/10")}
+        </SelectItem>
+        <SelectItem key="pomodoro">
+          {t("settings.breaks.presets.pomodoro", "Pomodoro (25/5, 15 every 4)")}
+        </SelectItem>
+        <SelectItem key="custom">
+          {t("settings.breaks.presets.custom", "Custom")}
+        </SelectItem>
+      </Select>
+      <div className="flex flex-wrap gap-2">
+        {(
+          [
+            [
+              "breakWorkMinutes",
+              t("settings.breaks.workMinutes", "Work (min)"),
+            ],
+            ["breakMinutes", t("settings.breaks.breakMinutes", "Break (min)")],
+            [
+              "breakLongMinutes",
+              t("settings.breaks.longBreakMinutes", "Long break (min)"),
+            ],
+            [
+              "breakLongEvery",
+              t("settings.breaks.longBreakEvery", "Long break every"),
+            ],
+            [
+              "breakAbsenceMinutes",
+              t("settings.breaks.absenceMinutes", "Away counts after (min)"),
+            ],
+          ] as const
+        ).map(([key, label]) => (
+          <Input
+            key={key}
+            type="number"
+            size="sm"
+            className="max-w-36"
+            label={label}
+            isDisabled={!enabled}
+            value={drafts[key]}
+            onValueChange={(value) =>
+              setDrafts((current) => ({ ...current, [key]: value }))
+            }
+            onBlur={() => {
+              saveSetting(key, Number(drafts[key])).catch((err) => {
+                logger.error("Error in break setting handler", {
+                  error: err,
+                });
+              });
+            }}
+          />
+        ))}
+      </div>
+      {error && <p className="text-danger-300 text-xs">{error}</p>}
+    </div>
+  );
+}
+
+export default BreakCoachSettings;
@@ -0,0 +1,405 @@
+import { Button, Checkbox, Input } from "@heroui/react";
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { IPC_CHANNELS } from "../../../shared/ipcChannels";
+import { getLogger } from "../../../shared/logger";
+import {
+  NOTIFICATION_SCHEDULE_LIMITS,
+  NOTIFICATION_TYPES,
+  type NotificationPreferences,
+  type NotificationSchedule,
+  type NotificationType,
+  type QuietHours,
+} from "../../../shared/types/notifications";
+
+const logger = getLogger("notification-settings", "renderer");
+
+const TYPE_LABELS: Record<NotificationType, [key: string, fallback: string]> = {
+  red: ["settings.reminders.types.red", "Bad posture"],
+  yellowFromGreen: [
+    "settings.reminders.types.yellowFromGreen",
+    "Slipping from good",
+  ],
+  yellowDwell: ["settings.reminders.types.yellowDwell", "So-so posture"],
+  greenBreak: ["settings.reminders.types.greenBreak", "Break suggestion"],
+};
+
+// Indexed like Date#getDay
+const WEEKDAYS: [key: string, fallback: string][] = [
+  ["settings.reminders.weekdays.sun", "Sun"],
+  ["settings.reminders.weekdays.mon", "Mon"],
+  ["settings.reminders.weekdays.tue", "Tue"],
+  ["settings.reminders.weekdays.wed", "Wed"],
+  ["settings.reminders.weekdays.thu", "Thu"],
+  ["settings.reminders.weekdays.fri", "Fri"],
+  ["settings.reminders.weekdays.sat", "Sat"],
+];
+
+const toTimeValue = (minute: number) =>
+  `${String(Math.floor(minute / 60)).padStart(2, "0")}:${String(
+    minute % 60,
+  ).padStart(2, "0")}`;
+
+const fromTimeValue = (value: string): number | null => {
+  const match = /^(\d{2}):(\d{2})$/.exec(value);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+/**
+ * Edit when each reminder fires, weekly quiet hours and do-not-disturb.
+ * Changes to do-not-disturb from the tray menu arrive here as well.
+ * Holding reminders during calls is a registry setting saved on change.
+ */
+function NotificationSettings() {
+  const { t } = useTranslation(["common"]);
+  const [preferences, setPreferences] =
+    useState<NotificationPreferences | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [deferWhilePresenting, setDeferWhilePresenting] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      const { electron } = window;
+      if (!electron?.ipcRenderer) {
+        logger.error("IPC renderer not available");
+        return;
+      }
+      const loaded: unknown = await electron.ipcRenderer.invoke(
+        IPC_CHANNELS.getNotificationPreferences,
+      );
+      if (
+        typeof loaded === "object" &&
+        loaded !== null &&
+        "schedules" in loaded
+      ) {
+        setPreferences(loaded as NotificationPreferences);
+      }
+      const defer: unknown = await electron.ipcRenderer.invoke(
+        IPC_CHANNELS.getSetting,
+        "deferRemindersWhilePresenting",
+      );
+      if (typeof defer === "boolean") {
+        setDeferWhilePresenting(defer);
+      }
+    };
+
+    load().catch((err) => {
+      logger.error("Failed to load notification preferences", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    });
+
+    // Only do-not-disturb is taken over, so unsaved edits survive
+    const dispose = window.electron?.ipcRenderer?.on(
+      IPC_CHANNELS.notificationPreferencesChanged,
+      (next: unknown) => {
+        const { doNotDisturbUntil } = next as NotificationPreferences;
+        setPreferences((current) =>
+          current ? { ...current, doNotDisturbUntil } : current,
+        );
+      },
+    );
+    return () => {
+      dispose?.();
+    };
+  }, []);
+
+  const updateSchedule = (
+    type: NotificationType,
+    changes: Partial<NotificationSchedule>,
+  ) => {
+    setSaved(false);
+    setPreferences((current) =>
+      current
+        ? {
+            ...current,
+            schedules: {
+              ...current.schedules,
+              [type]: { ...current.schedules[type], ...changes },
+            },
+          }
+        : current,
+    );
+  };
+
+  const updateQuietHours = (day: number, changes: Partial<QuietHours>) => {
+    setSaved(false);
+    setPreferences((current) =>
+      current
+        ? {
+            ...current,
+            quietHours: current.quietHours.map((window, index) =>
+              index === day ? { ...window, ...changes } : window,
+            ),
+          }
+        : current,
+    );
+  };
+
+  const handleSave = useCallback(async () => {
+    try {
+      const { electron } = window;
+      if (!electron?.ipcRenderer || !preferences) {
+        return;
+      }
+
+      const result = await electron.ipcRenderer.invoke(
+        IPC_CHANNELS.updateNotificationPreferences,
+        {
+          schedules: preferences.schedules,
+          quietHours: preferences.quietHours,
+        },
+      );
+      setError(result.ok ? null : result.error);
+      setSaved(result.ok);
+    } catch (err) {
+      logger.error("Failed to save notification preferences", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }, [preferences]);
+
+  const handleTurnOffDoNotDisturb = useCallback(async () => {
+    try {
+      const { electron } = window;
+      if (!electron?.ipcRenderer) {
+        logger.error("IPC renderer not available");
+        return;
+      }
+
+      const next = await electron.ipcRenderer.invoke(
+        IPC_CHANNELS.setDoNotDisturb,
+        null,
+      );
+      setPreferences((current) =>
+        current
+          ? { ...current, doNotDisturbUntil: next.doNotDisturbUntil }
+          : current,
+      );
+    } catch (err) {
+      logger.error("Failed to turn off do not disturb", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }, []);
+
+  const handleDeferWhilePresentingChange = useCallback(
+    async (checked: boolean) => {
+      try {
+        const { electron } = window;
+        if (!electron?.ipcRenderer) {
+          logger.error("IPC renderer not available");
+          return;
+        }
+
+        setDeferWhilePresenting(checked);
+        await electron.ipcRenderer.invoke(
+          IPC_CHANNELS.setSetting,
+          "deferRemindersWhilePresenting",
+          checked,
+        );
+      } catch (err) {
+        logger.error("Failed to save hold reminders setting", {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    },
+    [],
+  );
+
+  if (!preferences) {
+    return null;
+  }
+
+  const { minDelayMinutes, maxDelayMinutes, maxRepeats } =
+    NOTIFICATION_SCHEDULE_LIMITS;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className="text-sm text-white">
+        {t("settings.reminders.title", "Reminders")}
+      </span>
+      {preferences.doNotDisturbUntil !== null && (
+        <div className="flex items-center gap-2 text-xs text-white/80">
+          <span className="flex-1">
+            {t("settings.reminders.doNotDisturbUntil", {
+              defaultValue: "Do not disturb until {{time}}",
+              time: new Date(preferences.doNotDisturbUntil).toLocaleString([], {
+                weekday: "short",
+                hour: "2-digit",
+                minute: "2-digit",
+              }),
+            })}
+          </span>
+          <Button
+            size="sm"
+            variant="light"
+            className="text-white"
+            onPress={() => {
+              handleTurnOffDoNotDisturb().catch((err) => {
+                logger.error("Error in do not disturb handler", {
+                  error: err,
+                });
+              });
+            }}
+          >
+            {t("settings.reminders.turnOff", "Turn off")}
+          </Button>
+        </div>
+      )}
+      <ul
+        className="flex flex-col gap-2 text-xs text-white/80"
+        data-testid="reminder-schedules"
+      >
+        {NOTIFICATION_TYPES.map((type) => {
+          const schedule = preferences.schedules[type];
+          const [labelKey, labelFallback] = TYPE_LABELS[type];
+          return (
+            <li key={type} className="flex items-center gap-2">
+              <Checkbox
+                className="flex-1"
+                isSelected={schedule.enabled}
+                onValueChange={(enabled) => updateSchedule(type, { enabled })}
+                classNames={{
+                  label: "text-white",
+                }}
+              >
+                {t(labelKey, labelFallback)}
+              </Checkbox>
+              <Input
+                type="number"
+                size="sm"
+                className="max-w-24"
+                label={t("settings.reminders.firstDelay", "First (min)")}
+                min={minDelayMinutes}
+                max={maxDelayMinutes}
+                isDisabled={!schedule.enabled}
+                value={String(schedule.firstDelayMinutes)}
+                onValueChange={(value) =>
+                  updateSchedule(type, { firstDelayMinutes: Number(value) })
+                }
+              />
+              <Input
+                type="number"
+                size="sm"
+                className="max-w-24"
+                label={t("settings.reminders.repeatInterval", "Every (min)")}
+                min={minDelayMinutes}
+                max={maxDelayMinutes}
+                isDisabled={!schedule.enabled || schedule.maxRepeats === 0}
+                value={String(schedule.repeatIntervalMinutes)}
+                onValueChange={(value) =>
+                  updateSchedule(type, {
+                    repeatIntervalMinutes: Number(value),
+                  })
+                }
+              />
+              <Input
+                type="number"
+                size="sm"
+                className="max-w-24"
+                label={t("settings.reminders.maxRepeats", "Repeats")}
+                min={0}
+                max={maxRepeats}
+                isDisabled={!schedule.enabled}
+                value={String(schedule.maxRepeats)}
+                onValueChange={(value) =>
+                  updateSchedule(type, { maxRepeats: Number(value) })
+                }
+              />
+            </li>
+          );
+        })}
+      </ul>
+      <span className="text-xs text-white/70">
+        {t("settings.reminders.quietHours", "Quiet hours")}
+      </span>
+      <ul
+        className="flex flex-col gap-1 text-xs text-white/80"
+        data-testid="quiet-hours"
+      >
+        {preferences.quietHours.map((window, day) => {
+          const [dayKey, dayFallback] = WEEKDAYS[day] ?? ["", ""];
+          return (
+            <li key={dayKey} className="flex items-center gap-2">
+              <Checkbox
+                className="flex-1"
+                isSelected={window.enabled}
+                onValueChange={(enabled) => updateQuietHours(day, { enabled })}
+                classNames={{
+                  label: "text-white",
+                }}
+              >
+                {t(dayKey, dayFallback)}
+              </Checkbox>
+              <Input
+                type="time"
+                size="sm"
+                className="max-w-32"
+                aria-label={t("settings.reminders.quietFrom", "From")}
+                isDisabled={!window.enabled}
+                value={toTimeValue(window.startMinute)}
+                onValueChange={(value) => {
+                  const startMinute = fromTimeValue(value);
+                  if (startMinute !== null) {
+                    updateQuietHours(day, { startMinute });
+                  }
+                }}
+              />
+              <Input
+                type="time"
+                size="sm"
+                className="max-w-32"
+                aria-label={t("settings.reminders.quietTo", "To")}
+                isDisabled={!window.enabled}
+                value={toTimeValue(window.endMinute)}
+                onValueChange={(value) => {
+                  const endMinute = fromTimeValue(value);
+                  if (endMinute !== null) {
+                    updateQuietHours(day, { endMinute });
+                  }
+                }}
+              />
+            </li>
+          );
+        })}
+      </ul>
+      <Checkbox
+        isSelected={deferWhilePresenting}
+        onValueChange={(checked) => {
+          handleDeferWhilePresentingChange(checked).catch((err) => {
+            logger.error("Error in hold reminders handler", { error: err });
+          });
+        }}
+        classNames={{
+          label: "text-white text-xs",
+        }}
+      >
+        {t(
+          "settings.reminders.deferWhilePresenting",
+          "Hold reminders during calls and fullscreen apps",
+        )}
+      </Checkbox>
+      <Button
+        size="sm"
+        variant="flat"
+        onPress={() => {
+          handleSave().catch((err) => {
+            logger.error("Error in save reminders handler", { error: err });
+          });
+        }}
+      >
+        {t("settings.reminders.save", "Save reminders")}
+      </Button>
+      {saved && (
+        <p className="text-xs text-white/70">
+          {t("settings.reminders.saved", "Reminders saved")}
+        </p>
+      )}
+      {error && <p className="text-danger-300 text-xs">{error}</p>}
+    </div>
+  );
+}
+
+export default NotificationSettings;
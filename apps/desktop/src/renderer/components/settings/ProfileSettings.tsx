@@ -0,0 +1,352 @@
+import { Button, Checkbox, Input, Select, SelectItem } from "@heroui/react";
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { IPC_CHANNELS } from "../../../shared/ipcChannels";
+import { getLogger } from "../../../shared/logger";
+import {
+  DEFAULT_PERFORMANCE_MODE_ID,
+  type PerformanceModeId,
+  isPerformanceModeId,
+  listPerformanceModePresets,
+} from "../../../shared/sampling/performanceModes";
+import {
+  MAX_MONITORING_PROFILE_NAME_LENGTH,
+  type MonitoringProfile,
+} from "../../../shared/types/profiles";
+
+const logger = getLogger("profile-settings", "renderer");
+
+const PERFORMANCE_MODES = listPerformanceModePresets();
+
+/**
+ * Manage monitoring profiles: switch, create, change performance mode and
+ * delete. Calibration and sensitivity follow the active profile, and each
+ * camera is linked to the profile that first used it.
+ */
+function ProfileSettings() {
+  const { t } = useTranslation(["common"]);
+  const [profiles, setProfiles] = useState<MonitoringProfile[]>([]);
+  const [name, setName] = useState("");
+  const [performanceMode, setPerformanceMode] = useState<PerformanceModeId>(
+    DEFAULT_PERFORMANCE_MODE_ID,
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [autoSwitch, setAutoSwitch] = useState(true);
+
+  const loadProfiles = useCallback(async () => {
+    const { electron } = window;
+    if (!electron?.ipcRenderer) {
+      logger.error("IPC renderer not available");
+      return;
+    }
+
+    const list: unknown = await electron.ipcRenderer.invoke(
+      IPC_CHANNELS.listProfiles,
+    );
+    setProfiles(Array.isArray(list) ? (list as MonitoringProfile[]) : []);
+  }, []);
+
+  useEffect(() => {
+    const load = async () => {
+      const enabled = (await window.electron?.ipcRenderer?.invoke(
+        IPC_CHANNELS.getSetting,
+        "autoSwitchProfileByCamera",
+      )) as unknown;
+      if (typeof enabled === "boolean") {
+        setAutoSwitch(enabled);
+      }
+    };
+
+    load().catch((err) => {
+      logger.error("Failed to load camera switching setting", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    });
+  }, []);
+
+  useEffect(() => {
+    loadProfiles().catch((err) => {
+      logger.error("Failed to load monitoring profiles", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    });
+
+    // Switches from the tray menu arrive here as well
+    const dispose = window.electron?.ipcRenderer?.on(
+      IPC_CHANNELS.profilesChanged,
+      (list: unknown) => {
+        if (Array.isArray(list)) {
+          setProfiles(list as MonitoringProfile[]);
+        }
+      },
+    );
+    return () => {
+      dispose?.();
+    };
+  }, [loadProfiles]);
+
+  const handleCreate = useCallback(async () => {
+    try {
+      const { electron } = window;
+      if (!electron?.ipcRenderer) {
+        logger.error("IPC renderer not available");
+        return;
+      }
+
+      const result = await electron.ipcRenderer.invoke(
+        IPC_CHANNELS.createProfile,
+        { name, performanceMode },
+      );
+
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+
+      setError(null);
+      setName("");
+      await loadProfiles();
+    } catch (err) {
+      logger.error("Failed to create monitoring profile", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }, [loadProfiles, name, performanceMode]);
+
+  const handleActivate = useCallback(
+    async (id: number) => {
+      try {
+        const { electron } = window;
+        if (!electron?.ipcRenderer) {
+          logger.error("IPC renderer not available");
+          return;
+        }
+
+        const result = await electron.ipcRenderer.invoke(
+          IPC_CHANNELS.activateProfile,
+          id,
+        );
+        setError(result.ok ? null : result.error);
+        await loadProfiles();
+      } catch (err) {
+        logger.error("Failed to switch monitoring profile", {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    },
+    [loadProfiles],
+  );
+
+  const handleModeChange = useCallback(
+    async (id: number, mode: PerformanceModeId) => {
+      try {
+        const { electron } = window;
+        if (!electron?.ipcRenderer) {
+          logger.error("IPC renderer not available");
+          return;
+        }
+
+        const result = await electron.ipcRenderer.invoke(
+          IPC_CHANNELS.updateProfile,
+          id,
+          { performanceMode: mode },
+        );
+        setError(result.ok ? null : result.error);
+        await loadProfiles();
+      } catch (err) {
+        logger.error("Failed to update monitoring profile", {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    },
+    [loadProfiles],
+  );
+
+  const handleAutoSwitchChange = useCallback(async (enabled: boolean) => {
+    try {
+      const { electron } = window;
+      if (!electron?.ipcRenderer) {
+        logger.error("IPC renderer not available");
+        return;
+      }
+
+      setAutoSwitch(enabled);
+      const result = await electron.ipcRenderer.invoke(
+        IPC_CHANNELS.setSetting,
+        "autoSwitchProfileByCamera",
+        enabled,
+      );
+      setError(result && !result.success ? (result.error ?? null) : null);
+    } catch (err) {
+      logger.error("Failed to save camera switching setting", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }, []);
+
+  const handleDelete = useCallback(
+    async (id: number) => {
+      try {
+        const { electron } = window;
+        if (!electron?.ipcRenderer) {
+          logger.error("IPC renderer not available");
+          return;
+        }
+
+        const result = await electron.ipcRenderer.invoke(
+          IPC_CHANNELS.deleteProfile,
+          id,
+        );
+        setError(result.ok ? null : result.error);
+        await loadProfiles();
+      } catch (err) {
+        logger.error("Failed to delete monitoring profile", {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    },
+    [loadProfiles],
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className="text-sm text-white">
+        {t("settings.profiles.title", "Monitoring profiles")}
+      </span>
+      <p className="text-xs text-white/70">
+        {t(
+          "settings.profiles.description",
+          "Each profile keeps its own calibration, sensitivity and performance mode.",
+        )}
+      </p>
+      {profiles.length > 0 && (
+        <ul
+          className="flex flex-col gap-2 text-xs text-white/80"
+          data-testid="monitoring-profiles"
+        >
+          {profiles.map((profile) => (
+            <li key={profile.id} className="flex items-center gap-2">
+              <span className="flex-1 break-all text-white">
+                {profile.name}
+                {profile.isActive &&
+                  ` · ${t("settings.profiles.active", "Active")}`}
+                {profile.cameraKey &&
+                  ` · ${t("settings.profiles.cameraLinked", "Camera linked")}`}
+              </span>
+              <Select
+                size="sm"
+                className="max-w-40"
+                aria-label={t(
+                  "settings.profiles.performanceMode",
+                  "Performance mode",
+                )}
+                selectedKeys={[profile.performanceMode]}
+                onSelectionChange={(keys) => {
+                  const [key] = Array.from(keys);
+                  if (isPerformanceModeId(key)) {
+                    handleModeChange(profile.id, key).catch((err) => {
+                      logger.error("Error in profile mode handler", {
+                        error: err,
+                      });
+                    });
+                  }
+                }}
+              >
+                {PERFORMANCE_MODES.map((mode) => (
+                  <SelectItem key={mode.id}>{mode.label}</SelectItem>
+                ))}
+              </Select>
+              <Button
+                size="sm"
+                variant="light"
+                className="text-white"
+                isDisabled={profile.isActive}
+                onPress={() => {
+                  handleActivate(profile.id).catch((err) => {
+                    logger.error("Error in activate profile handler", {
+                      error: err,
+                    });
+                  });
+                }}
+              >
+                {t("settings.profiles.activate", "Use")}
+              </Button>
+              <Button
+                size="sm"
+                variant="light"
+                className="text-white"
+                isDisabled={profile.isActive}
+                onPress={() => {
+                  handleDelete(profile.id).catch((err) => {
+                    logger.error("Error in delete profile handler", {
+                      error: err,
+                    });
+                  });
+                }}
+              >
+                {t("settings.profiles.delete", "Delete")}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex items-end gap-2">
+        <Input
+          size="sm"
+          label={t("settings.profiles.name", "Name")}
+          placeholder={t("settings.profiles.namePlaceholder", "Standing desk")}
+          maxLength={MAX_MONITORING_PROFILE_NAME_LENGTH}
+          value={name}
+          onValueChange={setName}
+        />
+        <Select
+          size="sm"
+          className="max-w-40"
+          label={t("settings.profiles.performanceMode", "Performance mode")}
+          selectedKeys={[performanceMode]}
+          onSelectionChange={(keys) => {
+            const [key] = Array.from(keys);
+            if (isPerformanceModeId(key)) {
+              setPerformanceMode(key);
+            }
+          }}
+        >
+          {PERFORMANCE_MODES.map((mode) => (
+            <SelectItem key={mode.id}>{mode.label}</SelectItem>
+          ))}
+        </Select>
+      </div>
+      <Button
+        size="sm"
+        variant="flat"
+        isDisabled={name.trim().length === 0}
+        onPress={() => {
+          handleCreate().catch((err) => {
+            logger.error("Error in create profile handler", { error: err });
+          });
+        }}
+      >
+        {t("settings.profiles.create", "Add profile")}
+      </Button>
+      <Checkbox
+        isSelected={autoSwitch}
+        onValueChange={(checked) => {
+          handleAutoSwitchChange(checked).catch((err) => {
+            logger.error("Error in camera switching handler", { error: err });
+          });
+        }}
+        classNames={{
+          label: "text-white",
+        }}
+      >
+        {t(
+          "settings.profiles.autoSwitch",
+          "Switch profiles when the camera changes",
+        )}
+      </Checkbox>
+      {error && <p className="text-danger-300 text-xs">{error}</p>}
+    </div>
+  );
+}
+
+export default ProfileSettings;
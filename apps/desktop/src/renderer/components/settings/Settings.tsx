@@ -5,50 +5,147 @@ import {
   CardFooter,
   CardHeader,
   Checkbox,
+  Input,
+  Select,
+  SelectItem,
   Slider,
 } from "@heroui/react";
 import { useCallback, useEffect, useState } from "react";
 import { useTranslation } from "react-i18next";
+import { BREAK_CYCLE_SETTING_KEYS } from "../../../shared/breaks/breakCycle";
+import type { SettingUpdateArgs } from "../../../shared/ipc/contract";
 import { IPC_CHANNELS } from "../../../shared/ipcChannels";
 import { getLogger } from "../../../shared/logger";
+import {
+  DEFAULT_POSTURE_GOAL_RULE,
+  POSTURE_GOAL_SETTING_KEYS,
+} from "../../../shared/posture/postureGoal";
+import {
+  type SettingChange,
+  type SettingValues,
+  getSettingDefaults,
+} from "../../../shared/settings/registry";
+import type {
+  PostureExportFormat,
+  PostureImportResult,
+  PostureImportStrategy,
+} from "../../../shared/types/export";
+import {
+  TRAY_ICON_STYLES,
+  type TrayIconStyle,
+  isTrayIconStyle,
+} from "../../../shared/types/tray";
+import ApiAccessSettings from "./ApiAccessSettings";
+import BreakCoachSettings, {
+  type BreakCoachSettingsValues,
+} from "./BreakCoachSettings";
+import NotificationSettings from "./NotificationSettings";
+import ProfileSettings from "./ProfileSettings";
+import WebhookSettings from "./WebhookSettings";
 
 const logger = getLogger("settings", "renderer");
 
+type GoalSettingKey = (typeof POSTURE_GOAL_SETTING_KEYS)[number];
+
+type GoalDrafts = Record<
+  Exclude<GoalSettingKey, "streakRestOnWeekends">,
+  string
+>;
+
+const toGoalDrafts = (values: Pick<SettingValues, GoalSettingKey>) => ({
+  goalMinAvgScore: String(values.goalMinAvgScore),
+  goalMinMonitoredMinutes: String(values.goalMinMonitoredMinutes),
+  goalMaxRedMinutes: String(values.goalMaxRedMinutes),
+});
+
+const pickBreakValues = (
+  values: Partial<SettingValues>,
+): Partial<BreakCoachSettingsValues> =>
+  Object.fromEntries(
+    BREAK_CYCLE_SETTING_KEYS.filter((key) => values[key] !== undefined).map(
+      (key) => [key, values[key]],
+    ),
+  );
+
 function Settings() {
   const { t } = useTranslation(["common"]);
   const [launchAtStartup, setLaunchAtStartup] = useState(false);
   const [sensitivity, setSensitivity] = useState(50);
   const [isLoading, setIsLoading] = useState(true);
+  const [goalDrafts, setGoalDrafts] = useState<GoalDrafts>(() =>
+    toGoalDrafts(getSettingDefaults()),
+  );
+  const [restOnWeekends, setRestOnWeekends] = useState(
+    DEFAULT_POSTURE_GOAL_RULE.restOnWeekends,
+  );
+  const [goalError, setGoalError] = useState<string | null>(null);
+  const [dayStartHour, setDayStartHour] = useState(0);
+  const [trayIconStyle, setTrayIconStyle] = useState<TrayIconStyle>("ring");
+  const [trayIconMonochrome, setTrayIconMonochrome] = useState(false);
+  const [breakValues, setBreakValues] =
+    useState<BreakCoachSettingsValues>(getSettingDefaults);
+  const [exportFrom, setExportFrom] = useState("");
+  const [exportTo, setExportTo] = useState("");
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportStatus, setExportStatus] = useState<string | null>(null);
+  const [importStrategy, setImportStrategy] =
+    useState<PostureImportStrategy>("max-samples");
+  const [importPreview, setImportPreview] =
+    useState<PostureImportResult | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importStatus, setImportStatus] = useState<string | null>(null);
 
-  // Load initial settings on mount
+  // Load initial settings on mount and follow changes made elsewhere
   useEffect(() => {
+    const { electron } = window;
+
+    const applySettings = (values: Partial<SettingValues>) => {
+      if (typeof values.launchAtStartup === "boolean") {
+        setLaunchAtStartup(values.launchAtStartup);
+      }
+      if (typeof values.sensitivity === "number") {
+        setSensitivity(values.sensitivity);
+      }
+      setGoalDrafts((current) => {
+        const next = { ...current };
+        (Object.keys(current) as (keyof GoalDrafts)[]).forEach((key) => {
+          const value = values[key];
+          if (typeof value === "number") {
+            next[key] = String(value);
+          }
+        });
+        return next;
+      });
+      if (typeof values.streakRestOnWeekends === "boolean") {
+        setRestOnWeekends(values.streakRestOnWeekends);
+      }
+      if (typeof values.dayStartHour === "number") {
+        setDayStartHour(values.dayStartHour);
+      }
+      if (isTrayIconStyle(values.trayIconStyle)) {
+        setTrayIconStyle(values.trayIconStyle);
+      }
+      if (typeof values.trayIconMonochrome === "boolean") {
+        setTrayIconMonochrome(values.trayIconMonochrome);
+      }
+      const breakChanges = pickBreakValues(values);
+      if (Object.keys(breakChanges).length > 0) {
+        setBreakValues((current) => ({ ...current, ...breakChanges }));
+      }
+    };
+
     const loadSettings = async () => {
       try {
-        const { electron } = window;
         if (!electron?.ipcRenderer) {
           logger.error("IPC renderer not available");
           return;
         }
 
-        // Get launch at startup setting
-        const launchAtStartupValue = (await electron.ipcRenderer.invoke(
-          IPC_CHANNELS.getSetting,
-          "launchAtStartup",
-        )) as string | undefined;
-        if (launchAtStartupValue === "true") {
-          setLaunchAtStartup(true);
-        }
-
-        // Get sensitivity setting
-        const sensitivityValue = (await electron.ipcRenderer.invoke(
-          IPC_CHANNELS.getSetting,
-          "sensitivity",
-        )) as string | undefined;
-        if (sensitivityValue) {
-          const parsedSensitivity = parseInt(String(sensitivityValue), 10);
-          if (!Number.isNaN(parsedSensitivity)) {
-            setSensitivity(parsedSensitivity);
-          }
+        const values = await electron.ipcRenderer.invoke(
+          IPC_CHANNELS.getAllSettings,
+        );
+        if (values) {
+          applySettings(values);
         }
 
         setIsLoading(false);
@@ -63,6 +160,20 @@ function Settings() {
     loadSettings().catch((err) => {
       logger.error("Unexpected error loading settings", { error: err });
     });
+
+    const unsubscribe = electron?.ipcRenderer?.on(
+      IPC_CHANNELS.settingsChanged,
+      (change) => {
+        const { key, value } = change as SettingChange;
+        applySettings({ [key]: value });
+      },
+    );
+
+    return () => {
+      if (typeof unsubscribe === "function") {
+        unsubscribe();
+      }
+    };
   }, []);
 
   const handleLaunchAtStartupChange = useCallback(async (checked: boolean) => {
@@ -77,7 +188,7 @@ function Settings() {
       await electron.ipcRenderer.invoke(
         IPC_CHANNELS.setSetting,
         "launchAtStartup",
-        checked ? "true" : "false",
+        checked,
       );
       logger.info(`Launch at startup setting saved: ${checked}`);
     } catch (error) {
@@ -99,7 +210,7 @@ function Settings() {
       await electron.ipcRenderer.invoke(
         IPC_CHANNELS.setSetting,
         "sensitivity",
-        String(value),
+        value,
       );
       logger.info(`Sensitivity setting saved: ${value}`);
     } catch (error) {
@@ -109,6 +220,89 @@ function Settings() {
     }
   }, []);
 
+  const handleDayStartHourChange = useCallback(async (hour: number) => {
+    try {
+      const { electron } = window;
+      if (!electron?.ipcRenderer) {
+        logger.error("IPC renderer not available");
+        return;
+      }
+
+      setDayStartHour(hour);
+      await electron.ipcRenderer.invoke(
+        IPC_CHANNELS.setSetting,
+        "dayStartHour",
+        hour,
+      );
+      logger.info(`Day start hour saved: ${hour}`);
+    } catch (error) {
+      logger.error("Failed to save day start hour", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }, []);
+
+  const handleTraySettingChange = useCallback(
+    async (
+      ...args: Extract<
+        SettingUpdateArgs,
+        [key: "trayIconStyle" | "trayIconMonochrome", value: unknown]
+      >
+    ) => {
+      try {
+        const { electron } = window;
+        if (!electron?.ipcRenderer) {
+          logger.error("IPC renderer not available");
+          return;
+        }
+
+        await electron.ipcRenderer.invoke(IPC_CHANNELS.setSetting, ...args);
+        logger.info(`Tray setting saved: ${args[0]}=${String(args[1])}`);
+      } catch (error) {
+        logger.error("Failed to save tray setting", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    },
+    [],
+  );
+
+  const handleGoalSettingSave = useCallback(
+    async (key: GoalSettingKey, value: number | boolean) => {
+      try {
+        const { electron } = window;
+        if (!electron?.ipcRenderer) {
+          logger.error("IPC renderer not available");
+          return;
+        }
+
+        // Each key is paired with the value type the caller passes for it
+        const result = await electron.ipcRenderer.invoke(
+          IPC_CHANNELS.setSetting,
+          ...([key, value] as SettingUpdateArgs),
+        );
+
+        if (result && !result.success) {
+          setGoalError(
+            t("settings.goal.invalid", {
+              defaultValue: "Could not save goal: {{error}}",
+              error: result.error ?? "",
+            }),
+          );
+          return;
+        }
+
+        setGoalError(null);
+        logger.info(`Goal setting saved: ${key}=${String(value)}`);
+      } catch (error) {
+        logger.error("Failed to save goal setting", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    },
+    [t],
+  );
+
   const handleReCalibrate = useCallback(async () => {
     try {
       const { electron } = window;
@@ -126,6 +320,110 @@ function Settings() {
     }
   }, []);
 
+  const handleExport = useCallback(
+    async (format: PostureExportFormat) => {
+      try {
+        const { electron } = window;
+        if (!electron?.ipcRenderer) {
+          logger.error("IPC renderer not available");
+          return;
+        }
+
+        setIsExporting(true);
+        setExportStatus(null);
+        const result = await electron.ipcRenderer.invoke(
+          IPC_CHANNELS.exportPostureData,
+          { format, from: exportFrom || null, to: exportTo || null },
+        );
+
+        if (result.ok) {
+          logger.info(`Posture data exported to ${result.filePath}`);
+          setExportStatus(
+            t("settings.export.success", "Exported to {{path}}", {
+              path: result.filePath,
+            }),
+          );
+        } else if (!result.canceled) {
+          setExportStatus(
+            result.error ?? t("settings.export.failed", "Export failed"),
+          );
+        }
+      } catch (error) {
+        logger.error("Failed to export posture data", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        setExportStatus(t("settings.export.failed", "Export failed"));
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [exportFrom, exportTo, t],
+  );
+
+  const handleImportPreview = useCallback(async () => {
+    try {
+      const { electron } = window;
+      if (!electron?.ipcRenderer) {
+        logger.error("IPC renderer not available");
+        return;
+      }
+
+      setIsImporting(true);
+      setImportStatus(null);
+      setImportPreview(null);
+      const result = await electron.ipcRenderer.invoke(
+        IPC_CHANNELS.previewPostureImport,
+        { strategy: importStrategy },
+      );
+
+      if (result.ok) {
+        setImportPreview(result);
+      } else if (!result.canceled) {
+        setImportStatus(
+          result.errors.slice(0, 3).join("\n") ||
+            t("settings.import.failed", "Import failed"),
+        );
+      }
+    } catch (error) {
+      logger.error("Failed to preview posture import", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      setImportStatus(t("settings.import.failed", "Import failed"));
+    } finally {
+      setIsImporting(false);
+    }
+  }, [importStrategy, t]);
+
+  const handleImportCommit = useCallback(async () => {
+    try {
+      const { electron } = window;
+      if (!electron?.ipcRenderer) {
+        logger.error("IPC renderer not available");
+        return;
+      }
+
+      setIsImporting(true);
+      const result = await electron.ipcRenderer.invoke(
+        IPC_CHANNELS.commitPostureImport,
+      );
+
+      setImportPreview(null);
+      setImportStatus(
+        result.ok
+          ? t("settings.import.success", "Backup imported")
+          : result.errors.join("\n") ||
+              t("settings.import.failed", "Import failed"),
+      );
+    } catch (error) {
+      logger.error("Failed to commit posture import", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      setImportStatus(t("settings.import.failed", "Import failed"));
+    } finally {
+      setIsImporting(false);
+    }
+  }, [t]);
+
   if (isLoading) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-amber-300 via-rose-500 to-indigo-700">
@@ -201,6 +499,295 @@ function Settings() {
                 }}
               />
             </div>
+
+            <div className="flex flex-col gap-2">
+              <span className="text-sm text-white">
+                {t("settings.tray.title", "Tray icon")}
+              </span>
+              <Select
+                size="sm"
+                label={t("settings.tray.style", "Shows")}
+                selectedKeys={[trayIconStyle]}
+                onSelectionChange={(keys) => {
+                  const [key] = Array.from(keys);
+                  if (isTrayIconStyle(key)) {
+                    setTrayIconStyle(key);
+                    handleTraySettingChange("trayIconStyle", key).catch(
+                      (err) => {
+                        logger.error("Error in tray style handler", {
+                          error: err,
+                        });
+                      },
+                    );
+                  }
+                }}
+              >
+                {TRAY_ICON_STYLES.map((style) => (
+                  <SelectItem key={style}>
+                    {t(`settings.tray.styles.${style}`)}
+                  </SelectItem>
+                ))}
+              </Select>
+              <Checkbox
+                isSelected={trayIconMonochrome}
+                onValueChange={(checked) => {
+                  setTrayIconMonochrome(checked);
+                  handleTraySettingChange("trayIconMonochrome", checked).catch(
+                    (err) => {
+                      logger.error("Error in tray monochrome handler", {
+                        error: err,
+                      });
+                    },
+                  );
+                }}
+                classNames={{
+                  label: "text-white",
+                }}
+              >
+                {t(
+                  "settings.tray.monochrome",
+                  "Monochrome menu bar icon (macOS)",
+                )}
+              </Checkbox>
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <span className="text-sm text-white">
+                {t("settings.goal.title", "Daily goal")}
+              </span>
+              <div className="flex gap-2">
+                {(
+                  [
+                    [
+                      "goalMinAvgScore",
+                      t("settings.goal.minAvgScore", "Min. avg score"),
+                    ],
+                    [
+                      "goalMinMonitoredMinutes",
+                      t("settings.goal.minMonitoredMinutes", "Min. minutes"),
+                    ],
+                    [
+                      "goalMaxRedMinutes",
+                      t("settings.goal.maxRedMinutes", "Max. red minutes"),
+                    ],
+                  ] as const
+                ).map(([key, label]) => (
+                  <Input
+                    key={key}
+                    type="number"
+                    size="sm"
+                    label={label}
+                    value={goalDrafts[key]}
+                    onValueChange={(value) =>
+                      setGoalDrafts((current) => ({ ...current, [key]: value }))
+                    }
+                    onBlur={() => {
+                      handleGoalSettingSave(key, Number(goalDrafts[key])).catch(
+                        (err) => {
+                          logger.error("Error in goal handler", { error: err });
+                        },
+                      );
+                    }}
+                  />
+                ))}
+              </div>
+              <Checkbox
+                isSelected={restOnWeekends}
+                onValueChange={(checked) => {
+                  setRestOnWeekends(checked);
+                  handleGoalSettingSave("streakRestOnWeekends", checked).catch(
+                    (err) => {
+                      logger.error("Error in goal handler", { error: err });
+                    },
+                  );
+                }}
+                classNames={{
+                  label: "text-white",
+                }}
+              >
+                {t(
+                  "settings.goal.restOnWeekends",
+                  "Weekends don't break the streak",
+                )}
+              </Checkbox>
+              {goalError && (
+                <p className="text-danger-300 text-xs">{goalError}</p>
+              )}
+              <Select
+                size="sm"
+                label={t("settings.dayStartHour", "Day starts at")}
+                selectedKeys={[String(dayStartHour)]}
+                onSelectionChange={(keys) => {
+                  const [key] = Array.from(keys);
+                  if (typeof key === "string") {
+                    handleDayStartHourChange(Number(key)).catch((err) => {
+                      logger.error("Error in day start handler", {
+                        error: err,
+                      });
+                    });
+                  }
+                }}
+              >
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <SelectItem key={String(hour)}>
+                    {`${String(hour).padStart(2, "0")}:00`}
+                  </SelectItem>
+                ))}
+              </Select>
+            </div>
+
+            <ProfileSettings />
+
+            <NotificationSettings />
+
+            <BreakCoachSettings values={breakValues} />
+
+            <div className="flex flex-col gap-2">
+              <span className="text-sm text-white">
+                {t("settings.export.title", "Export posture data")}
+              </span>
+              <div className="flex gap-2">
+                <Input
+                  type="date"
+                  size="sm"
+                  label={t("settings.export.from", "From")}
+                  value={exportFrom}
+                  max={exportTo || undefined}
+                  onValueChange={setExportFrom}
+                />
+                <Input
+                  type="date"
+                  size="sm"
+                  label={t("settings.export.to", "To")}
+                  value={exportTo}
+                  min={exportFrom || undefined}
+                  onValueChange={setExportTo}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="flat"
+                  isDisabled={isExporting}
+                  onPress={() => {
+                    handleExport("csv").catch((err) => {
+                      logger.error("Error in export handler", { error: err });
+                    });
+                  }}
+                >
+                  {t("settings.export.csv", "Export CSV")}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="flat"
+                  isDisabled={isExporting}
+                  onPress={() => {
+                    handleExport("json").catch((err) => {
+                      logger.error("Error in export handler", { error: err });
+                    });
+                  }}
+                >
+                  {t("settings.export.json", "Export JSON")}
+                </Button>
+              </div>
+              {exportStatus && (
+                <p className="break-all text-xs text-white/70">
+                  {exportStatus}
+                </p>
+              )}
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <span className="text-sm text-white">
+                {t("settings.import.title", "Import backup")}
+              </span>
+              <div className="flex items-end gap-2">
+                <Select
+                  size="sm"
+                  label={t("settings.import.strategy", "When a day exists")}
+                  selectedKeys={[importStrategy]}
+                  onSelectionChange={(keys) => {
+                    const [key] = Array.from(keys);
+                    if (typeof key === "string") {
+                      setImportStrategy(key as PostureImportStrategy);
+                      setImportPreview(null);
+                    }
+                  }}
+                >
+                  <SelectItem key="max-samples">
+                    {t("settings.import.maxSamples", "Keep more samples")}
+                  </SelectItem>
+                  <SelectItem key="sum">
+                    {t("settings.import.sum", "Add together")}
+                  </SelectItem>
+                  <SelectItem key="overwrite">
+                    {t("settings.import.overwrite", "Overwrite")}
+                  </SelectItem>
+                </Select>
+                <Button
+                  size="sm"
+                  variant="flat"
+                  isDisabled={isImporting}
+                  onPress={() => {
+                    handleImportPreview().catch((err) => {
+                      logger.error("Error in import preview handler", {
+                        error: err,
+                      });
+                    });
+                  }}
+                >
+                  {t("settings.import.choose", "Choose file…")}
+                </Button>
+              </div>
+              {importPreview?.ok && (
+                <div className="flex flex-col gap-2 text-xs text-white/80">
+                  <p>
+                    {t("settings.import.preview", {
+                      defaultValue:
+                        "{{inserted}} new days, {{updated}} updated, {{unchanged}} unchanged, {{calibrations}} calibrations added",
+                      inserted: importPreview.diff.dailyLogs.inserted.length,
+                      updated: importPreview.diff.dailyLogs.updated.length,
+                      unchanged: importPreview.diff.dailyLogs.unchanged.length,
+                      calibrations: importPreview.diff.calibrations.inserted,
+                    })}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      color="primary"
+                      isDisabled={isImporting}
+                      onPress={() => {
+                        handleImportCommit().catch((err) => {
+                          logger.error("Error in import commit handler", {
+                            error: err,
+                          });
+                        });
+                      }}
+                    >
+                      {t("settings.import.confirm", "Import")}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="light"
+                      className="text-white"
+                      isDisabled={isImporting}
+                      onPress={() => setImportPreview(null)}
+                    >
+                      {t("settings.import.cancel", "Cancel")}
+                    </Button>
+                  </div>
+                </div>
+              )}
+              {importStatus && (
+                <p className="whitespace-pre-line break-all text-xs text-white/70">
+                  {importStatus}
+                </p>
+              )}
+            </div>
+
+            <ApiAccessSettings />
+
+            <WebhookSettings />
           </div>
         </CardBody>
         <CardFooter className="flex justify-between">
@@ -0,0 +1,343 @@
+import { Button, Checkbox, Input } from "@heroui/react";
+import { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { IPC_CHANNELS } from "../../../shared/ipcChannels";
+import { getLogger } from "../../../shared/logger";
+import {
+  WEBHOOK_EVENTS,
+  type WebhookDeliverySummary,
+  type WebhookEvent,
+  type WebhookSummary,
+} from "../../../shared/types/webhooks";
+
+const logger = getLogger("webhook-settings", "renderer");
+
+// Event names contain dots, which i18next reads as key separators
+const EVENT_LABELS: Record<WebhookEvent, { key: string; fallback: string }> = {
+  "posture.bad_posture": {
+    key: "settings.webhooks.events.badPosture",
+    fallback: "Bad posture detected",
+  },
+  "goal.met": {
+    key: "settings.webhooks.events.goalMet",
+    fallback: "Daily goal met",
+  },
+  "streak.broken": {
+    key: "settings.webhooks.events.streakBroken",
+    fallback: "Streak broken",
+  },
+};
+
+/**
+ * Manage outbound webhooks and show their recent deliveries
+ */
+function WebhookSettings() {
+  const { t } = useTranslation(["common"]);
+  const [webhooks, setWebhooks] = useState<WebhookSummary[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDeliverySummary[]>([]);
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>([...WEBHOOK_EVENTS]);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadWebhooks = useCallback(async () => {
+    const { electron } = window;
+    if (!electron?.ipcRenderer) {
+      logger.error("IPC renderer not available");
+      return;
+    }
+
+    const [webhookList, deliveryList] = (await Promise.all([
+      electron.ipcRenderer.invoke(IPC_CHANNELS.listWebhooks),
+      electron.ipcRenderer.invoke(IPC_CHANNELS.listWebhookDeliveries),
+    ])) as unknown[];
+    setWebhooks(
+      Array.isArray(webhookList) ? (webhookList as WebhookSummary[]) : [],
+    );
+    setDeliveries(
+      Array.isArray(deliveryList)
+        ? (deliveryList as WebhookDeliverySummary[])
+        : [],
+    );
+  }, []);
+
+  useEffect(() => {
+    loadWebhooks().catch((err) => {
+      logger.error("Failed to load webhooks", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    });
+  }, [loadWebhooks]);
+
+  const handleEventToggle = useCallback(
+    (event: WebhookEvent, checked: boolean) => {
+      setEvents((current) =>
+        WEBHOOK_EVENTS.filter((item) =>
+          item === event ? checked : current.includes(item),
+        ),
+      );
+    },
+    [],
+  );
+
+  const handleCreate = useCallback(async () => {
+    try {
+      const { electron } = window;
+      if (!electron?.ipcRenderer) {
+        logger.error("IPC renderer not available");
+        return;
+      }
+
+      const result = await electron.ipcRenderer.invoke(
+        IPC_CHANNELS.createWebhook,
+        { name, url, events },
+      );
+
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+
+      setError(null);
+      setStatus(null);
+      setName("");
+      setUrl("");
+      setCreatedSecret(result.secret);
+      await loadWebhooks();
+    } catch (err) {
+      logger.error("Failed to create webhook", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }, [events, loadWebhooks, name, url]);
+
+  const handleEnabledChange = useCallback(
+    async (id: string, enabled: boolean) => {
+      try {
+        const { electron } = window;
+        if (!electron?.ipcRenderer) {
+          logger.error("IPC renderer not available");
+          return;
+        }
+
+        await electron.ipcRenderer.invoke(
+          IPC_CHANNELS.setWebhookEnabled,
+          id,
+          enabled,
+        );
+        await loadWebhooks();
+      } catch (err) {
+        logger.error("Failed to update webhook", {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    },
+    [loadWebhooks],
+  );
+
+  const handleDelete = useCallback(
+    async (id: string) => {
+      try {
+        const { electron } = window;
+        if (!electron?.ipcRenderer) {
+          logger.error("IPC renderer not available");
+          return;
+        }
+
+        await electron.ipcRenderer.invoke(IPC_CHANNELS.deleteWebhook, id);
+        setCreatedSecret(null);
+        await loadWebhooks();
+      } catch (err) {
+        logger.error("Failed to delete webhook", {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    },
+    [loadWebhooks],
+  );
+
+  const handleSendTest = useCallback(
+    async (id: string) => {
+      try {
+        const { electron } = window;
+        if (!electron?.ipcRenderer) {
+          logger.error("IPC renderer not available");
+          return;
+        }
+
+        const result = await electron.ipcRenderer.invoke(
+          IPC_CHANNELS.sendWebhookTest,
+          id,
+        );
+
+        if (!result.ok) {
+          setError(result.error);
+          return;
+        }
+
+        setError(null);
+        setStatus(
+          result.delivery.status === "delivered"
+            ? t("settings.webhooks.testDelivered", "Test event delivered")
+            : t("settings.webhooks.testFailed", {
+                defaultValue: "Test event failed: {{error}}",
+                error: result.delivery.error ?? "",
+              }),
+        );
+        await loadWebhooks();
+      } catch (err) {
+        logger.error("Failed to send webhook test event", {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    },
+    [loadWebhooks, t],
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className="text-sm text-white">
+        {t("settings.webhooks.title", "Webhooks")}
+      </span>
+      <Input
+        size="sm"
+        label={t("settings.webhooks.name", "Name")}
+        value={name}
+        onValueChange={setName}
+      />
+      <Input
+        size="sm"
+        label={t("settings.webhooks.url", "URL")}
+        placeholder="http://homeassistant.local:8123/api/webhook/posely"
+        value={url}
+        onValueChange={setUrl}
+      />
+      <div className="flex flex-wrap gap-3">
+        {WEBHOOK_EVENTS.map((event) => (
+          <Checkbox
+            key={event}
+            size="sm"
+            isSelected={events.includes(event)}
+            onValueChange={(checked) => handleEventToggle(event, checked)}
+            classNames={{
+              label: "text-white text-xs",
+            }}
+          >
+            {t(EVENT_LABELS[event].key, EVENT_LABELS[event].fallback)}
+          </Checkbox>
+        ))}
+      </div>
+      <Button
+        size="sm"
+        variant="flat"
+        isDisabled={
+          name.trim().length === 0 ||
+          url.trim().length === 0 ||
+          events.length === 0
+        }
+        onPress={() => {
+          handleCreate().catch((err) => {
+            logger.error("Error in create webhook handler", { error: err });
+          });
+        }}
+      >
+        {t("settings.webhooks.create", "Add webhook")}
+      </Button>
+      {createdSecret && (
+        <div className="flex flex-col gap-1 text-xs text-white/80">
+          <p>
+            {t(
+              "settings.webhooks.copySecret",
+              "Copy this signing secret now, it will not be shown again:",
+            )}
+          </p>
+          <code
+            className="break-all rounded bg-black/30 px-2 py-1 text-white"
+            data-testid="webhook-secret"
+          >
+            {createdSecret}
+          </code>
+        </div>
+      )}
+      {webhooks.length > 0 && (
+        <ul className="flex flex-col gap-1 text-xs text-white/80">
+          {webhooks.map((webhook) => (
+            <li key={webhook.id} className="flex items-center justify-between">
+              <Checkbox
+                size="sm"
+                isSelected={webhook.enabled}
+                onValueChange={(checked) => {
+                  handleEnabledChange(webhook.id, checked).catch((err) => {
+                    logger.error("Error in webhook toggle handler", {
+                      error: err,
+                    });
+                  });
+                }}
+                classNames={{
+                  label: "text-white/80 text-xs break-all",
+                }}
+              >
+                {`${webhook.name} · ${webhook.url}`}
+              </Checkbox>
+              <div className="flex gap-1">
+                <Button
+                  size="sm"
+                  variant="light"
+                  className="text-white"
+                  onPress={() => {
+                    handleSendTest(webhook.id).catch((err) => {
+                      logger.error("Error in webhook test handler", {
+                        error: err,
+                      });
+                    });
+                  }}
+                >
+                  {t("settings.webhooks.sendTest", "Send test event")}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="light"
+                  className="text-white"
+                  onPress={() => {
+                    handleDelete(webhook.id).catch((err) => {
+                      logger.error("Error in delete webhook handler", {
+                        error: err,
+                      });
+                    });
+                  }}
+                >
+                  {t("settings.webhooks.delete", "Delete")}
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {deliveries.length > 0 && (
+        <div className="flex flex-col gap-1 text-xs text-white/70">
+          <span>{t("settings.webhooks.deliveries", "Recent deliveries")}</span>
+          <ul className="flex flex-col gap-1" data-testid="webhook-deliveries">
+            {deliveries.map((delivery) => (
+              <li key={delivery.id}>
+                {`${new Date(delivery.createdAt).toLocaleString()} · ${
+                  delivery.event
+                } · `}
+                {t(`settings.webhooks.status.${delivery.status}`, {
+                  defaultValue: delivery.status,
+                  attempts: delivery.attempts,
+                })}
+                {delivery.error ? ` (${delivery.error})` : ""}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {status && <p className="text-xs text-white/70">{status}</p>}
+      {error && <p className="text-danger-300 text-xs">{error}</p>}
+    </div>
+  );
+}
+
+export default WebhookSettings;
@@ -1,4 +1,10 @@
-import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import {
+  act,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import Settings from "../Settings";
@@ -31,7 +37,9 @@ describe("Settings Component", () => {
     },
     channels: {
       getSetting: "settings:get",
+      getAllSettings: "settings:get-all",
       setSetting: "settings:set",
+      settingsChanged: "settings:changed",
       reCalibrate: "calibration:re-calibrate",
     },
   };
@@ -47,20 +55,26 @@ describe("Settings Component", () => {
     });
 
     // Default mock implementations
-    mockInvoke.mockImplementation((channel: string, key?: string) => {
-      if (channel === "settings:get") {
-        if (key === "launchAtStartup") return Promise.resolve("false");
-        if (key === "sensitivity") return Promise.resolve("50");
+    mockInvoke.mockImplementation((channel: string) => {
+      if (channel === "settings:get-all") {
+        return Promise.resolve({
+          launchAtStartup: false,
+          sensitivity: 50,
+          onboardingCompleted: true,
+        });
       }
       return Promise.resolve({ success: true });
     });
   });
 
   it("should fetch and display initial settings values", async () => {
-    mockInvoke.mockImplementation((channel: string, key?: string) => {
-      if (channel === "settings:get") {
-        if (key === "launchAtStartup") return Promise.resolve("true");
-        if (key === "sensitivity") return Promise.resolve("75");
+    mockInvoke.mockImplementation((channel: string) => {
+      if (channel === "settings:get-all") {
+        return Promise.resolve({
+          launchAtStartup: true,
+          sensitivity: 75,
+          onboardingCompleted: true,
+        });
       }
       return Promise.resolve({ success: true });
     });
@@ -72,11 +86,12 @@ describe("Settings Component", () => {
     });
 
     // Check that settings were fetched
-    expect(mockInvoke).toHaveBeenCalledWith("settings:get", "launchAtStartup");
-    expect(mockInvoke).toHaveBeenCalledWith("settings:get", "sensitivity");
+    expect(mockInvoke).toHaveBeenCalledWith("settings:get-all");
 
     // Verify the checkbox is checked (launchAtStartup = true)
-    const checkbox = screen.getByRole("checkbox", { name: /launch at startup/i });
+    const checkbox = screen.getByRole("checkbox", {
+      name: /launch at startup/i,
+    });
     expect(checkbox).toBeChecked();
   });
 
@@ -88,7 +103,9 @@ describe("Settings Component", () => {
       expect(screen.queryByText("Loading settings...")).not.toBeInTheDocument();
     });
 
-    const checkbox = screen.getByRole("checkbox", { name: /launch at startup/i });
+    const checkbox = screen.getByRole("checkbox", {
+      name: /launch at startup/i,
+    });
 
     await user.click(checkbox);
 
@@ -96,7 +113,7 @@ describe("Settings Component", () => {
       expect(mockInvoke).toHaveBeenCalledWith(
         "settings:set",
         "launchAtStartup",
-        "true",
+        true,
       );
     });
   });
@@ -118,11 +135,41 @@ describe("Settings Component", () => {
       expect(mockInvoke).toHaveBeenCalledWith(
         "settings:set",
         "sensitivity",
-        "80",
+        80,
       );
     });
   });
 
+  it("should apply settings changed in another window", async () => {
+    const listeners = new Map<string, (...args: unknown[]) => void>();
+    mockElectron.ipcRenderer.on.mockImplementation(
+      (channel: string, listener: (...args: unknown[]) => void) => {
+        listeners.set(channel, listener);
+        return () => listeners.delete(channel);
+      },
+    );
+
+    render(<Settings />);
+
+    await waitFor(() => {
+      expect(screen.queryByText("Loading settings...")).not.toBeInTheDocument();
+    });
+
+    const checkbox = screen.getByRole("checkbox", {
+      name: /launch at startup/i,
+    });
+    expect(checkbox).not.toBeChecked();
+
+    act(() => {
+      listeners.get("settings:changed")?.({
+        key: "launchAtStartup",
+        value: true,
+      });
+    });
+
+    expect(checkbox).toBeChecked();
+  });
+
   it("should trigger re-calibrate IPC when re-calibrate button is clicked", async () => {
     const user = userEvent.setup();
     render(<Settings />);
@@ -142,6 +189,25 @@ describe("Settings Component", () => {
     });
   });
 
+  it("should invoke the export IPC with the chosen format", async () => {
+    const user = userEvent.setup();
+    render(<Settings />);
+
+    await waitFor(() => {
+      expect(screen.queryByText("Loading settings...")).not.toBeInTheDocument();
+    });
+
+    await user.click(screen.getByRole("button", { name: /export csv/i }));
+
+    await waitFor(() => {
+      expect(mockInvoke).toHaveBeenCalledWith("data:export-posture", {
+        format: "csv",
+        from: null,
+        to: null,
+      });
+    });
+  });
+
   it("should display loading state initially", () => {
     render(<Settings />);
 
@@ -149,7 +215,9 @@ describe("Settings Component", () => {
   });
 
   it("should handle errors gracefully when fetching settings fails", async () => {
-    const consoleErrorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const consoleErrorSpy = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
     mockInvoke.mockRejectedValue(new Error("Failed to fetch settings"));
 
     render(<Settings />);
@@ -1,4 +1,5 @@
 import { getLogger } from "../../shared/logger";
+import type { CameraDeviceInfo } from "../../shared/types/profiles";
 import { getRuntimePreferences } from "../config/runtimePreferences";
 
 const logger = getLogger("camera-manager", "renderer");
@@ -154,6 +155,20 @@ export class CameraManager {
     return this.stream;
   }
 
+  /**
+   * The video input currently streaming, after any Continuity Camera switch
+   */
+  getActiveDevice(): CameraDeviceInfo | null {
+    const track = this.stream?.getVideoTracks()[0];
+    if (!track) {
+      return null;
+    }
+    return {
+      deviceId: track.getSettings().deviceId ?? "",
+      label: track.label,
+    };
+  }
+
   dispose(): void {
     if (this.videoElement) {
       this.videoElement.pause();
@@ -578,6 +578,7 @@ export class DetectionPipeline {
     await this.camera.initialise({
       idealFrameRate: this.performanceConfig.fps,
     });
+    this.reportActiveCamera();
 
     const guardrailOverrides = buildGuardrailOverridesFromRecord(
       ((typeof window !== "undefined" ? window.electron?.env : undefined) ??
@@ -1085,6 +1086,34 @@ export class DetectionPipeline {
     }
   }
 
+  /**
+   * Let the main process pick the monitoring profile (and calibration) that
+   * belongs to the camera that just started
+   */
+  private reportActiveCamera(): void {
+    const ipc = this.electron?.ipcRenderer;
+    const camera = this.camera.getActiveDevice();
+    if (!ipc?.invoke || !camera) {
+      return;
+    }
+
+    ipc
+      .invoke(IPC_CHANNELS.reportCameraDevice, camera)
+      .then((result) => {
+        if (result.ok && result.outcome !== "unchanged") {
+          logger.info("Camera changed the monitoring profile", {
+            outcome: result.outcome,
+            profileId: result.profile.id,
+          });
+        }
+      })
+      .catch((error: unknown) => {
+        logger.warn("Failed to report camera device", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }
+
   private emitEngineFrame(result: DetectorResult): void {
     const ipc = this.electron?.ipcRenderer;
     if (!ipc?.sendMessage) {
@@ -1098,6 +1127,7 @@ export class DetectionPipeline {
           ? result.processedAt - this.lastEngineFrameProcessedAt
           : undefined,
       fps: this.effectiveFps,
+      cpuAverage: this.cpuMonitor?.getAverage(),
     } as EngineFramePayload["diagnostics"];
 
     const payload: EngineFramePayload = {
@@ -0,0 +1,82 @@
+import type { SettingValues } from "../settings/registry";
+
+/**
+ * Work/break cycle followed by the break coach
+ */
+export type BreakCycleConfig = {
+  enabled: boolean;
+  /** Minutes of work before a break is due */
+  workMinutes: number;
+  /** Length of a short break */
+  breakMinutes: number;
+  /** Length of a long break, 0 when the cycle has none */
+  longBreakMinutes: number;
+  /** Every n-th break is a long one */
+  longBreakEvery: number;
+  /** Minutes away from the camera that count as a break taken */
+  absenceMinutes: number;
+};
+
+/**
+ * Settings that make up the cycle; changing any of them restarts the coach
+ */
+export const BREAK_CYCLE_SETTING_KEYS = [
+  "breakCoachEnabled",
+  "breakWorkMinutes",
+  "breakMinutes",
+  "breakLongMinutes",
+  "breakLongEvery",
+  "breakAbsenceMinutes",
+] as const satisfies readonly (keyof SettingValues)[];
+
+export const isBreakCycleSettingKey = (key: string): boolean =>
+  (BREAK_CYCLE_SETTING_KEYS as readonly string[]).includes(key);
+
+export const toBreakCycleConfig = (
+  values: Pick<SettingValues, (typeof BREAK_CYCLE_SETTING_KEYS)[number]>,
+): BreakCycleConfig => ({
+  enabled: values.breakCoachEnabled,
+  workMinutes: values.breakWorkMinutes,
+  breakMinutes: values.breakMinutes,
+  longBreakMinutes: values.breakLongMinutes,
+  longBreakEvery: values.breakLongEvery,
+  absenceMinutes: values.breakAbsenceMinutes,
+});
+
+export type BreakCyclePresetId = "fiftyTen" | "pomodoro";
+
+/**
+ * Cycle presets offered in settings, as the setting values they write
+ */
+export const BREAK_CYCLE_PRESETS: Record<
+  BreakCyclePresetId,
+  Pick<
+    SettingValues,
+    "breakWorkMinutes" | "breakMinutes" | "breakLongMinutes" | "breakLongEvery"
+  >
+> = {
+  fiftyTen: {
+    breakWorkMinutes: 50,
+    breakMinutes: 10,
+    breakLongMinutes: 0,
+    breakLongEvery: 4,
+  },
+  pomodoro: {
+    breakWorkMinutes: 25,
+    breakMinutes: 5,
+    breakLongMinutes: 15,
+    breakLongEvery: 4,
+  },
+};
+
+/**
+ * Length in minutes of the break following `completedBreaks` earlier ones
+ */
+export const getBreakLengthMinutes = (
+  config: BreakCycleConfig,
+  completedBreaks: number,
+): number =>
+  config.longBreakMinutes > 0 &&
+  (completedBreaks + 1) % config.longBreakEvery === 0
+    ? config.longBreakMinutes
+    : config.breakMinutes;
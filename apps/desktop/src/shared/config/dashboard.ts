@@ -25,7 +25,60 @@ export const DASHBOARD_HTTP_DEFAULT_ORIGIN = `http://${DASHBOARD_HTTP_DEFAULT_HO
  */
 export const DASHBOARD_HTTP_ORIGIN_ENV_KEY = "POSELY_DASHBOARD_HTTP_ORIGIN";
 
+/**
+ * Environment variable holding an API token for browser-mode dashboards
+ */
+export const DASHBOARD_HTTP_TOKEN_ENV_KEY = "POSELY_DASHBOARD_HTTP_TOKEN";
+
 /**
  * Polling interval in milliseconds for HTTP-based dashboard updates (browser mode)
  */
 export const DASHBOARD_HTTP_POLL_INTERVAL_MS = 30000;
+
+/**
+ * Prefix of the versioned REST API; its OpenAPI document is served at
+ * `${DASHBOARD_API_V1_PREFIX}/openapi.json`
+ */
+export const DASHBOARD_API_V1_PREFIX = "/api/v1";
+
+/**
+ * Path of the Prometheus/OpenMetrics scrape endpoint
+ */
+export const DASHBOARD_METRICS_PATH = "/metrics";
+
+/**
+ * Path of the Server-Sent Events stream on the dashboard HTTP server
+ */
+export const DASHBOARD_STREAM_PATH = "/api/stream";
+
+/**
+ * Event names pushed on the dashboard stream. `tick` carries an EngineTick,
+ * calibration events carry the same payloads as their IPC channels and
+ * `posture-data-updated` has an empty object payload.
+ */
+export const DASHBOARD_STREAM_EVENTS = {
+  tick: "tick",
+  calibrationProgress: "calibration-progress",
+  calibrationComplete: "calibration-complete",
+  calibrationFailed: "calibration-failed",
+  postureDataUpdated: "posture-data-updated",
+} as const;
+
+export type DashboardStreamEvent =
+  (typeof DASHBOARD_STREAM_EVENTS)[keyof typeof DASHBOARD_STREAM_EVENTS];
+
+/**
+ * Bounds for the per-client `tickIntervalMs` query parameter of the stream
+ */
+export const DASHBOARD_STREAM_MIN_TICK_INTERVAL_MS = 100;
+export const DASHBOARD_STREAM_MAX_TICK_INTERVAL_MS = 60000;
+
+/**
+ * Interval between keep-alive comments so proxies do not close idle streams
+ */
+export const DASHBOARD_STREAM_HEARTBEAT_MS = 15000;
+
+/**
+ * Number of days (including today) aggregated into the weekday × hour heatmap
+ */
+export const DASHBOARD_HEATMAP_DAYS = 28;
@@ -23,6 +23,9 @@ export const postureCalibration = sqliteTable(
   {
     id: integer("id").primaryKey({ autoIncrement: true }),
     userId: integer("user_id").notNull().default(1),
+    profileId: integer("profile_id").notNull().default(1),
+    // Hash of the camera the baseline was captured with, null if unknown
+    cameraKey: text("camera_key"),
 
     baselinePitch: real("baseline_pitch").notNull(),
     baselineEHD: real("baseline_ehd").notNull(),
@@ -55,14 +58,14 @@ export const postureCalibration = sqliteTable(
     calibratedAtIdx: index("posture_calibration_calibrated_at_idx").on(
       table.calibratedAt,
     ),
+    profileActiveIdx: index("posture_calibration_profile_active_idx").on(
+      table.userId,
+      table.profileId,
+      table.isActive,
+    ),
   }),
 );
 
-// export const schema = {
-//   calibrationBaselines,
-//   postureCalibration,
-// };
-
 export type CalibrationBaselineRow = typeof calibrationBaselines.$inferSelect;
 export type NewCalibrationBaselineRow =
   typeof calibrationBaselines.$inferInsert;
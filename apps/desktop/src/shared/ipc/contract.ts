@@ -0,0 +1,469 @@
+import { IPC_CHANNELS, type RendererChannel } from "../ipcChannels";
+import type { PostureGoalRule } from "../posture/postureGoal";
+import {
+  type SettingKey,
+  type SettingUpdateResult,
+  type SettingValues,
+  isSettingKey,
+} from "../settings/registry";
+import type { ApiTokenCreateResult, ApiTokenSummary } from "../types/apiAccess";
+import type { BreakCoachState, DailyBreakSummary } from "../types/breaks";
+import type {
+  CalibrationBaselineLatestResult,
+  CalibrationBaselineSaveResult,
+  CalibrationCompletePayload,
+  RecalibrationResult,
+} from "../types/calibration";
+import type {
+  CameraPermissionResult,
+  OpenCameraSettingsResult,
+} from "../types/camera";
+import type { PostureExportResult, PostureImportResult } from "../types/export";
+import type {
+  NotificationPreferences,
+  NotificationPreferencesResult,
+} from "../types/notifications";
+import type {
+  CameraProfileResult,
+  MonitoringProfile,
+  MonitoringProfileDeleteResult,
+  MonitoringProfileResult,
+} from "../types/profiles";
+import type {
+  DailySummary,
+  PostureBestStreak,
+  PostureHeatmapCell,
+  PosturePeriodSummary,
+  PostureRangeSummary,
+  PostureWeekComparison,
+  PostureYearSummary,
+} from "../types/summary";
+import type {
+  WebhookCreateResult,
+  WebhookDeliverySummary,
+  WebhookSummary,
+  WebhookTestResult,
+} from "../types/webhooks";
+import {
+  isCalibrationBaselinePayload,
+  isCalibrationSensitivityUpdateRequest,
+  isCalibrationStartRequest,
+  isCameraDeviceInfo,
+  isMonitoringProfileInput,
+  isMonitoringProfileUpdate,
+  isNotificationPreferencesUpdate,
+  isPostureExportRequest,
+  isPostureImportRequest,
+  isWebhookInput,
+} from "../validation/ipcRequests";
+import {
+  type IpcArgsParser,
+  ipcArgs,
+  ipcBoolean,
+  ipcInteger,
+  ipcNullable,
+  ipcOptional,
+  ipcString,
+  ipcValue,
+} from "./validators";
+
+/**
+ * Typed contract for every renderer → main `invoke` channel.
+ *
+ * Each entry names the channel, validates its arguments at runtime and
+ * carries the response type. The preload bridge derives `invoke`'s
+ * signature from it and main registers handlers through `handleIpcInvoke`,
+ * so a change on one side that the other does not follow fails to compile.
+ * Push channels (`send`/`on`) are not part of the contract.
+ */
+
+/** Type-only marker for a channel's response; carries no runtime data */
+export type IpcResponse<R> = { readonly type?: R };
+
+export type IpcInvokeDefinition<
+  C extends RendererChannel,
+  A extends unknown[],
+  R,
+> = {
+  channel: C;
+  parseArgs: IpcArgsParser<A>;
+  response: IpcResponse<R>;
+};
+
+const returns = <R>(): IpcResponse<R> => ({});
+
+const defineInvoke = <C extends RendererChannel, A extends unknown[], R>(
+  channel: C,
+  parseArgs: IpcArgsParser<A>,
+  response: IpcResponse<R>,
+): IpcInvokeDefinition<C, A, R> => ({ channel, parseArgs, response });
+
+const settingKey = ipcValue("a setting key", isSettingKey);
+
+/** One `[key, value]` tuple per setting, so the value type follows the key */
+export type SettingUpdateArgs = SettingKey extends infer K
+  ? K extends SettingKey
+    ? [key: K, value: SettingValues[K]]
+    : never
+  : never;
+
+// Values are checked against the settings registry by the handler, which
+// reports failures as a result instead of rejecting the call
+const parseSettingUpdateArgs = ipcArgs(
+  settingKey,
+  ipcValue("any value", (_value: unknown): _value is unknown => true),
+) as IpcArgsParser<SettingUpdateArgs>;
+
+export const IPC_INVOKE_CONTRACT = {
+  triggerMainError: defineInvoke(
+    IPC_CHANNELS.triggerMainError,
+    ipcArgs(),
+    returns<void>(),
+  ),
+  openCameraPrivacySettings: defineInvoke(
+    IPC_CHANNELS.openCameraPrivacySettings,
+    ipcArgs(),
+    returns<OpenCameraSettingsResult>(),
+  ),
+  requestCameraPermission: defineInvoke(
+    IPC_CHANNELS.requestCameraPermission,
+    ipcArgs(),
+    returns<CameraPermissionResult>(),
+  ),
+  calibrationRequest: defineInvoke(
+    IPC_CHANNELS.calibrationRequest,
+    ipcArgs(
+      ipcValue("a calibration baseline payload", isCalibrationBaselinePayload),
+    ),
+    returns<CalibrationBaselineSaveResult>(),
+  ),
+  calibrationLatest: defineInvoke(
+    IPC_CHANNELS.calibrationLatest,
+    ipcArgs(),
+    returns<CalibrationBaselineLatestResult>(),
+  ),
+  calibrationStart: defineInvoke(
+    IPC_CHANNELS.calibrationStart,
+    ipcArgs(
+      ipcOptional(
+        ipcNullable(
+          ipcValue("a calibration start request", isCalibrationStartRequest),
+        ),
+      ),
+    ),
+    returns<CalibrationCompletePayload>(),
+  ),
+  calibrationLoad: defineInvoke(
+    IPC_CHANNELS.calibrationLoad,
+    ipcArgs(),
+    returns<CalibrationCompletePayload | null>(),
+  ),
+  calibrationUpdateSensitivity: defineInvoke(
+    IPC_CHANNELS.calibrationUpdateSensitivity,
+    ipcArgs(
+      ipcValue(
+        "a calibration sensitivity update",
+        isCalibrationSensitivityUpdateRequest,
+      ),
+    ),
+    returns<CalibrationCompletePayload>(),
+  ),
+  reCalibrate: defineInvoke(
+    IPC_CHANNELS.reCalibrate,
+    ipcArgs(),
+    returns<RecalibrationResult>(),
+  ),
+  // The optional argument is a monitoring profile id; omitted means all
+  // profiles combined
+  getDailySummary: defineInvoke(
+    IPC_CHANNELS.getDailySummary,
+    ipcArgs(ipcOptional(ipcInteger)),
+    returns<(DailySummary & { streak: number }) | null>(),
+  ),
+  getWeeklySummary: defineInvoke(
+    IPC_CHANNELS.getWeeklySummary,
+    ipcArgs(ipcOptional(ipcInteger)),
+    returns<DailySummary[]>(),
+  ),
+  getPostureHeatmap: defineInvoke(
+    IPC_CHANNELS.getPostureHeatmap,
+    ipcArgs(),
+    returns<PostureHeatmapCell[]>(),
+  ),
+  getPostureGoal: defineInvoke(
+    IPC_CHANNELS.getPostureGoal,
+    ipcArgs(),
+    returns<PostureGoalRule>(),
+  ),
+  getRangeSummary: defineInvoke(
+    IPC_CHANNELS.getRangeSummary,
+    ipcArgs(ipcString, ipcString),
+    returns<PostureRangeSummary | null>(),
+  ),
+  getMonthSummary: defineInvoke(
+    IPC_CHANNELS.getMonthSummary,
+    ipcArgs(ipcInteger, ipcInteger),
+    returns<PosturePeriodSummary | null>(),
+  ),
+  getYearSummary: defineInvoke(
+    IPC_CHANNELS.getYearSummary,
+    ipcArgs(ipcInteger),
+    returns<PostureYearSummary | null>(),
+  ),
+  getBestStreak: defineInvoke(
+    IPC_CHANNELS.getBestStreak,
+    ipcArgs(),
+    returns<PostureBestStreak | null>(),
+  ),
+  getWeekOverWeekSummary: defineInvoke(
+    IPC_CHANNELS.getWeekOverWeekSummary,
+    ipcArgs(),
+    returns<PostureWeekComparison | null>(),
+  ),
+  getSetting: defineInvoke(
+    IPC_CHANNELS.getSetting,
+    ipcArgs(settingKey),
+    returns<SettingValues[SettingKey]>(),
+  ),
+  getAllSettings: defineInvoke(
+    IPC_CHANNELS.getAllSettings,
+    ipcArgs(),
+    returns<SettingValues>(),
+  ),
+  setSetting: defineInvoke(
+    IPC_CHANNELS.setSetting,
+    parseSettingUpdateArgs,
+    returns<SettingUpdateResult>(),
+  ),
+  exportPostureData: defineInvoke(
+    IPC_CHANNELS.exportPostureData,
+    ipcArgs(
+      ipcOptional(ipcValue("a posture export request", isPostureExportRequest)),
+    ),
+    returns<PostureExportResult>(),
+  ),
+  previewPostureImport: defineInvoke(
+    IPC_CHANNELS.previewPostureImport,
+    ipcArgs(ipcValue("a posture import request", isPostureImportRequest)),
+    returns<PostureImportResult>(),
+  ),
+  commitPostureImport: defineInvoke(
+    IPC_CHANNELS.commitPostureImport,
+    ipcArgs(),
+    returns<PostureImportResult>(),
+  ),
+  listApiTokens: defineInvoke(
+    IPC_CHANNELS.listApiTokens,
+    ipcArgs(),
+    returns<ApiTokenSummary[]>(),
+  ),
+  createApiToken: defineInvoke(
+    IPC_CHANNELS.createApiToken,
+    ipcArgs(ipcString),
+    returns<ApiTokenCreateResult>(),
+  ),
+  revokeApiToken: defineInvoke(
+    IPC_CHANNELS.revokeApiToken,
+    ipcArgs(ipcString),
+    returns<boolean>(),
+  ),
+  listWebhooks: defineInvoke(
+    IPC_CHANNELS.listWebhooks,
+    ipcArgs(),
+    returns<WebhookSummary[]>(),
+  ),
+  createWebhook: defineInvoke(
+    IPC_CHANNELS.createWebhook,
+    ipcArgs(ipcValue("a webhook definition", isWebhookInput)),
+    returns<WebhookCreateResult>(),
+  ),
+  setWebhookEnabled: defineInvoke(
+    IPC_CHANNELS.setWebhookEnabled,
+    ipcArgs(ipcString, ipcBoolean),
+    returns<WebhookSummary | null>(),
+  ),
+  deleteWebhook: defineInvoke(
+    IPC_CHANNELS.deleteWebhook,
+    ipcArgs(ipcString),
+    returns<boolean>(),
+  ),
+  sendWebhookTest: defineInvoke(
+    IPC_CHANNELS.sendWebhookTest,
+    ipcArgs(ipcString),
+    returns<WebhookTestResult>(),
+  ),
+  listWebhookDeliveries: defineInvoke(
+    IPC_CHANNELS.listWebhookDeliveries,
+    ipcArgs(),
+    returns<WebhookDeliverySummary[]>(),
+  ),
+  listProfiles: defineInvoke(
+    IPC_CHANNELS.listProfiles,
+    ipcArgs(),
+    returns<MonitoringProfile[]>(),
+  ),
+  createProfile: defineInvoke(
+    IPC_CHANNELS.createProfile,
+    ipcArgs(ipcValue("a profile definition", isMonitoringProfileInput)),
+    returns<MonitoringProfileResult>(),
+  ),
+  updateProfile: defineInvoke(
+    IPC_CHANNELS.updateProfile,
+    ipcArgs(
+      ipcInteger,
+      ipcValue("a profile update", isMonitoringProfileUpdate),
+    ),
+    returns<MonitoringProfileResult>(),
+  ),
+  deleteProfile: defineInvoke(
+    IPC_CHANNELS.deleteProfile,
+    ipcArgs(ipcInteger),
+    returns<MonitoringProfileDeleteResult>(),
+  ),
+  activateProfile: defineInvoke(
+    IPC_CHANNELS.activateProfile,
+    ipcArgs(ipcInteger),
+    returns<MonitoringProfileResult>(),
+  ),
+  reportCameraDevice: defineInvoke(
+    IPC_CHANNELS.reportCameraDevice,
+    ipcArgs(ipcValue("a camera device", isCameraDeviceInfo)),
+    returns<CameraProfileResult>(),
+  ),
+  getNotificationPreferences: defineInvoke(
+    IPC_CHANNELS.getNotificationPreferences,
+    ipcArgs(),
+    returns<NotificationPreferences>(),
+  ),
+  updateNotificationPreferences: defineInvoke(
+    IPC_CHANNELS.updateNotificationPreferences,
+    ipcArgs(
+      ipcValue(
+        "a notification preferences update",
+        isNotificationPreferencesUpdate,
+      ),
+    ),
+    returns<NotificationPreferencesResult>(),
+  ),
+  setDoNotDisturb: defineInvoke(
+    IPC_CHANNELS.setDoNotDisturb,
+    ipcArgs(ipcNullable(ipcInteger)),
+    returns<NotificationPreferences>(),
+  ),
+  getBreakCoachState: defineInvoke(
+    IPC_CHANNELS.getBreakCoachState,
+    ipcArgs(),
+    returns<BreakCoachState>(),
+  ),
+  completeStretchBreak: defineInvoke(
+    IPC_CHANNELS.completeStretchBreak,
+    ipcArgs(),
+    returns<BreakCoachState>(),
+  ),
+  skipBreak: defineInvoke(
+    IPC_CHANNELS.skipBreak,
+    ipcArgs(),
+    returns<BreakCoachState>(),
+  ),
+  getBreakAdherence: defineInvoke(
+    IPC_CHANNELS.getBreakAdherence,
+    ipcArgs(ipcOptional(ipcInteger)),
+    returns<DailyBreakSummary[]>(),
+  ),
+};
+
+type AnyIpcInvokeDefinition =
+  (typeof IPC_INVOKE_CONTRACT)[keyof typeof IPC_INVOKE_CONTRACT];
+
+export type IpcInvokeChannel = AnyIpcInvokeDefinition["channel"];
+
+type IpcInvokeDefinitionFor<C extends IpcInvokeChannel> = Extract<
+  AnyIpcInvokeDefinition,
+  { channel: C }
+>;
+
+export type IpcInvokeArgs<C extends IpcInvokeChannel> =
+  IpcInvokeDefinitionFor<C> extends IpcInvokeDefinition<C, infer A, unknown>
+    ? A
+    : never;
+
+export type IpcInvokeResult<C extends IpcInvokeChannel> =
+  IpcInvokeDefinitionFor<C> extends IpcInvokeDefinition<C, unknown[], infer R>
+    ? R
+    : never;
+
+const DEFINITIONS_BY_CHANNEL = new Map<string, AnyIpcInvokeDefinition>(
+  Object.values(IPC_INVOKE_CONTRACT).map((definition) => [
+    definition.channel,
+    definition,
+  ]),
+);
+
+export const IPC_INVOKE_CHANNELS = [
+  ...DEFINITIONS_BY_CHANNEL.keys(),
+] as IpcInvokeChannel[];
+
+export const isIpcInvokeChannel = (
+  channel: unknown,
+): channel is IpcInvokeChannel =>
+  typeof channel === "string" && DEFINITIONS_BY_CHANNEL.has(channel);
+
+/**
+ * Validate the arguments of an invoke call against the contract
+ */
+export const parseIpcInvokeArgs = <C extends IpcInvokeChannel>(
+  channel: C,
+  args: readonly unknown[],
+): { ok: true; value: IpcInvokeArgs<C> } | { ok: false; error: string } => {
+  const definition = DEFINITIONS_BY_CHANNEL.get(channel);
+  if (!definition) {
+    return { ok: false, error: `${channel} is not an invoke channel` };
+  }
+  const parsed = (definition.parseArgs as IpcArgsParser<unknown[]>)(args);
+  return parsed.ok
+    ? { ok: true, value: parsed.value as IpcInvokeArgs<C> }
+    : parsed;
+};
+
+/**
+ * Wire format of every invoke call. The preload bridge wraps the renderer's
+ * arguments with a request id so main-process logs and rejection messages
+ * can be matched to the call that caused them.
+ */
+export type IpcInvokeEnvelope = {
+  requestId: string;
+  args: unknown[];
+};
+
+// Distinguishes renderers (and reloads) that share a main process
+const REQUEST_ID_PREFIX = Math.random().toString(36).slice(2, 8);
+let requestCounter = 0;
+
+export const createIpcInvokeEnvelope = (args: unknown[]): IpcInvokeEnvelope => {
+  requestCounter += 1;
+  return {
+    requestId: `${REQUEST_ID_PREFIX}-${requestCounter.toString(36)}`,
+    args,
+  };
+};
+
+/**
+ * Unwrap the raw `ipcMain.handle` arguments; null when they were not sent
+ * through the preload bridge
+ */
+export const parseIpcInvokeEnvelope = (
+  rawArgs: readonly unknown[],
+): IpcInvokeEnvelope | null => {
+  const [envelope] = rawArgs;
+  if (
+    rawArgs.length !== 1 ||
+    typeof envelope !== "object" ||
+    envelope === null
+  ) {
+    return null;
+  }
+  const { requestId, args } = envelope as Partial<IpcInvokeEnvelope>;
+  return typeof requestId === "string" && Array.isArray(args)
+    ? { requestId, args }
+    : null;
+};
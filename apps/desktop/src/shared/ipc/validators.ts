@@ -0,0 +1,115 @@
+import { isBoolean, isFiniteNumber } from "../validation/metricValues";
+
+/**
+ * Runtime check for one IPC argument. `expected` completes the sentence
+ * "argument N must be …" in rejection messages.
+ */
+export type IpcValidator<T> = {
+  expected: string;
+  test: (value: unknown) => value is T;
+};
+
+export type IpcArgsResult<A extends unknown[]> =
+  | { ok: true; value: A }
+  | { ok: false; error: string };
+
+/**
+ * Validates the full argument list of an invoke call
+ */
+export type IpcArgsParser<A extends unknown[]> = (
+  args: readonly unknown[],
+) => IpcArgsResult<A>;
+
+export const ipcValue = <T>(
+  expected: string,
+  test: (value: unknown) => value is T,
+): IpcValidator<T> => ({ expected, test });
+
+export const ipcString = ipcValue(
+  "a string",
+  (value): value is string => typeof value === "string",
+);
+
+export const ipcInteger = ipcValue(
+  "an integer",
+  (value): value is number => isFiniteNumber(value) && Number.isInteger(value),
+);
+
+export const ipcBoolean = ipcValue("a boolean", isBoolean);
+
+export const ipcOneOf = <T extends string>(
+  values: readonly T[],
+): IpcValidator<T> =>
+  ipcValue(
+    `one of ${values.join(", ")}`,
+    (value): value is T =>
+      typeof value === "string" &&
+      (values as readonly string[]).includes(value),
+  );
+
+export const ipcOptional = <T>(
+  validator: IpcValidator<T>,
+): IpcValidator<T | undefined> =>
+  ipcValue(
+    `${validator.expected} or omitted`,
+    (value): value is T | undefined =>
+      value === undefined || validator.test(value),
+  );
+
+export const ipcNullable = <T>(
+  validator: IpcValidator<T>,
+): IpcValidator<T | null> =>
+  ipcValue(
+    `${validator.expected} or null`,
+    (value): value is T | null => value === null || validator.test(value),
+  );
+
+// Arguments whose validator accepts `undefined` may be left off by callers
+// when nothing required follows them
+type IpcArgsTuple1<A> = undefined extends A ? [first?: A] : [first: A];
+
+type IpcArgsTuple2<A, B> = undefined extends B
+  ? undefined extends A
+    ? [first?: A, second?: B]
+    : [first: A, second?: B]
+  : [first: A, second: B];
+
+type IpcArgs = {
+  (): IpcArgsParser<[]>;
+  <A>(first: IpcValidator<A>): IpcArgsParser<IpcArgsTuple1<A>>;
+  <A, B>(
+    first: IpcValidator<A>,
+    second: IpcValidator<B>,
+  ): IpcArgsParser<IpcArgsTuple2<A, B>>;
+};
+
+/**
+ * Build the parser for a channel's positional arguments. Missing trailing
+ * arguments are checked as `undefined`, extra ones are rejected.
+ */
+export const ipcArgs = ((...validators: IpcValidator<unknown>[]) =>
+  (args: readonly unknown[]): IpcArgsResult<unknown[]> => {
+    if (args.length > validators.length) {
+      return {
+        ok: false,
+        error: `expected at most ${validators.length} argument${
+          validators.length === 1 ? "" : "s"
+        }, received ${args.length}`,
+      };
+    }
+    const invalidIndex = validators.findIndex(
+      (validator, index) => !validator.test(args[index]),
+    );
+    if (invalidIndex !== -1) {
+      return {
+        ok: false,
+        error: `argument ${invalidIndex + 1} must be ${
+          validators[invalidIndex]?.expected ?? "valid"
+        }`,
+      };
+    }
+    return {
+      ok: true,
+      value: validators.map((_validator, index) => args[index]),
+    };
+  }) as IpcArgs;
@@ -22,10 +22,47 @@ export const IPC_CHANNELS = {
   requestCameraPermission: "camera:request-permission",
   getDailySummary: "posture:get-daily-summary",
   getWeeklySummary: "posture:get-weekly-summary",
+  getPostureHeatmap: "posture:get-heatmap",
+  getPostureGoal: "posture:get-goal",
+  getRangeSummary: "posture:get-range-summary",
+  getMonthSummary: "posture:get-month-summary",
+  getYearSummary: "posture:get-year-summary",
+  getBestStreak: "posture:get-best-streak",
+  getWeekOverWeekSummary: "posture:get-week-over-week",
   postureDataUpdated: "posture:data-updated",
   getSetting: "settings:get",
   setSetting: "settings:set",
+  getAllSettings: "settings:get-all",
+  settingsChanged: "settings:changed",
   reCalibrate: "calibration:recalibrate",
+  exportPostureData: "data:export-posture",
+  previewPostureImport: "data:import-posture-preview",
+  commitPostureImport: "data:import-posture-commit",
+  listApiTokens: "api-tokens:list",
+  createApiToken: "api-tokens:create",
+  revokeApiToken: "api-tokens:revoke",
+  listWebhooks: "webhooks:list",
+  createWebhook: "webhooks:create",
+  setWebhookEnabled: "webhooks:set-enabled",
+  deleteWebhook: "webhooks:delete",
+  sendWebhookTest: "webhooks:send-test",
+  listWebhookDeliveries: "webhooks:list-deliveries",
+  listProfiles: "profiles:list",
+  createProfile: "profiles:create",
+  updateProfile: "profiles:update",
+  deleteProfile: "profiles:delete",
+  activateProfile: "profiles:activate",
+  profilesChanged: "profiles:changed",
+  reportCameraDevice: "camera:report-device",
+  getNotificationPreferences: "notifications:get-preferences",
+  updateNotificationPreferences: "notifications:update-preferences",
+  setDoNotDisturb: "notifications:set-do-not-disturb",
+  notificationPreferencesChanged: "notifications:preferences-changed",
+  getBreakCoachState: "breaks:get-state",
+  completeStretchBreak: "breaks:complete-stretch",
+  skipBreak: "breaks:skip",
+  getBreakAdherence: "breaks:get-adherence",
+  breakCoachStateChanged: "breaks:state-changed",
 } as const;
 
 export type RendererChannel = (typeof IPC_CHANNELS)[keyof typeof IPC_CHANNELS];
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_POSTURE_GOAL_RULE,
+  type PostureGoalRule,
+  isPostureRestDay,
+  meetsPostureGoal,
+} from "./postureGoal";
+
+const day = {
+  secondsInGreen: 3600,
+  secondsInYellow: 1200,
+  secondsInRed: 600,
+  avgScore: 75,
+};
+
+const rule = (overrides: Partial<PostureGoalRule> = {}): PostureGoalRule => ({
+  ...DEFAULT_POSTURE_GOAL_RULE,
+  ...overrides,
+});
+
+describe("meetsPostureGoal", () => {
+  it("uses an average score of 70 by default", () => {
+    expect(meetsPostureGoal(day, DEFAULT_POSTURE_GOAL_RULE)).toBe(true);
+    expect(
+      meetsPostureGoal({ ...day, avgScore: 69.9 }, DEFAULT_POSTURE_GOAL_RULE),
+    ).toBe(false);
+  });
+
+  it("requires the minimum monitored time", () => {
+    expect(meetsPostureGoal(day, rule({ minMonitoredMinutes: 90 }))).toBe(true);
+    expect(meetsPostureGoal(day, rule({ minMonitoredMinutes: 91 }))).toBe(
+      false,
+    );
+  });
+
+  it("limits red-zone time unless the limit is unlimited", () => {
+    expect(meetsPostureGoal(day, rule({ maxRedMinutes: 10 }))).toBe(true);
+    expect(meetsPostureGoal(day, rule({ maxRedMinutes: 9 }))).toBe(false);
+    expect(
+      meetsPostureGoal(
+        { ...day, secondsInRed: 100_000 },
+        DEFAULT_POSTURE_GOAL_RULE,
+      ),
+    ).toBe(true);
+  });
+});
+
+describe("isPostureRestDay", () => {
+  it("treats weekends as rest days only when enabled", () => {
+    // 2025-11-08 is a Saturday, 2025-11-09 a Sunday, 2025-11-10 a Monday
+    expect(isPostureRestDay("2025-11-08", { restOnWeekends: false })).toBe(
+      false,
+    );
+    expect(isPostureRestDay("2025-11-08", { restOnWeekends: true })).toBe(true);
+    expect(isPostureRestDay("2025-11-09", { restOnWeekends: true })).toBe(true);
+    expect(isPostureRestDay("2025-11-10", { restOnWeekends: true })).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import { type SettingValues, getSettingDefaults } from "../settings/registry";
+import { getLocalDateWeekday } from "../time";
+
+/**
+ * Rule deciding whether a day counts towards the posture streak
+ */
+export type PostureGoalRule = {
+  /** Minimum average posture score for the day (0-100) */
+  minAvgScore: number;
+  /** Minimum time monitored (green + yellow + red), in minutes */
+  minMonitoredMinutes: number;
+  /** Maximum time spent in the red zone, in minutes */
+  maxRedMinutes: number;
+  /** Saturdays and Sundays that miss the goal do not break the streak */
+  restOnWeekends: boolean;
+};
+
+/**
+ * Daily totals needed to evaluate a goal rule
+ */
+export type PostureGoalDay = {
+  secondsInGreen: number;
+  secondsInYellow: number;
+  secondsInRed: number;
+  avgScore: number;
+};
+
+/**
+ * `goalMaxRedMinutes` at this value means red time is not limited
+ */
+export const UNLIMITED_RED_MINUTES = 24 * 60;
+
+/**
+ * Settings that make up the goal rule; changing any of them requires
+ * recomputing `meetsGoal` for stored days
+ */
+export const POSTURE_GOAL_SETTING_KEYS = [
+  "goalMinAvgScore",
+  "goalMinMonitoredMinutes",
+  "goalMaxRedMinutes",
+  "streakRestOnWeekends",
+] as const satisfies readonly (keyof SettingValues)[];
+
+export const isPostureGoalSettingKey = (key: string): boolean =>
+  (POSTURE_GOAL_SETTING_KEYS as readonly string[]).includes(key);
+
+export const toPostureGoalRule = (
+  values: Pick<SettingValues, (typeof POSTURE_GOAL_SETTING_KEYS)[number]>,
+): PostureGoalRule => ({
+  minAvgScore: values.goalMinAvgScore,
+  minMonitoredMinutes: values.goalMinMonitoredMinutes,
+  maxRedMinutes: values.goalMaxRedMinutes,
+  restOnWeekends: values.streakRestOnWeekends,
+});
+
+export const DEFAULT_POSTURE_GOAL_RULE: PostureGoalRule =
+  toPostureGoalRule(getSettingDefaults());
+
+/**
+ * Check a day's totals against the goal rule
+ */
+export const meetsPostureGoal = (
+  day: PostureGoalDay,
+  rule: PostureGoalRule,
+): boolean => {
+  const monitoredSeconds =
+    day.secondsInGreen + day.secondsInYellow + day.secondsInRed;
+
+  return (
+    day.avgScore >= rule.minAvgScore &&
+    monitoredSeconds >= rule.minMonitoredMinutes * 60 &&
+    (rule.maxRedMinutes >= UNLIMITED_RED_MINUTES ||
+      day.secondsInRed <= rule.maxRedMinutes * 60)
+  );
+};
+
+/**
+ * Whether a YYYY-MM-DD date is a rest day under the rule
+ */
+export const isPostureRestDay = (
+  date: string,
+  rule: Pick<PostureGoalRule, "restOnWeekends">,
+): boolean => {
+  if (!rule.restOnWeekends) {
+    return false;
+  }
+  const weekday = getLocalDateWeekday(date);
+  return weekday === 0 || weekday === 6;
+};
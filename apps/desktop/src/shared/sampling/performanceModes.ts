@@ -89,6 +89,12 @@ export const getPerformanceModePreset = (
   );
 };
 
+export const isPerformanceModeId = (
+  value: unknown,
+): value is PerformanceModeId =>
+  typeof value === "string" &&
+  Object.prototype.hasOwnProperty.call(PERFORMANCE_MODE_PRESETS, value);
+
 export const listPerformanceModePresets = (): PerformanceModePreset[] => {
   return Object.values(PERFORMANCE_MODE_PRESETS);
 };
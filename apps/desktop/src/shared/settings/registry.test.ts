@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  getSettingDefaults,
+  isSettingKey,
+  parseStoredSettingValue,
+  serializeSettingValue,
+  validateSettingValue,
+} from "./registry";
+
+describe("settings registry", () => {
+  it("recognises only registered keys", () => {
+    expect(isSettingKey("sensitivity")).toBe(true);
+    expect(isSettingKey("notARealSetting")).toBe(false);
+    expect(isSettingKey("toString")).toBe(false);
+    expect(isSettingKey(42)).toBe(false);
+  });
+
+  it("exposes a default for every setting", () => {
+    expect(getSettingDefaults()).toEqual({
+      launchAtStartup: false,
+      sensitivity: 50,
+      onboardingCompleted: false,
+      goalMinAvgScore: 70,
+      goalMinMonitoredMinutes: 0,
+      goalMaxRedMinutes: 1440,
+      streakRestOnWeekends: false,
+      dayStartHour: 0,
+      streamTickIntervalMs: 1000,
+      apiAllowedOrigins: "",
+      autoSwitchProfileByCamera: true,
+      breakCoachEnabled: false,
+      breakWorkMinutes: 50,
+      breakMinutes: 10,
+      breakLongMinutes: 0,
+      breakLongEvery: 4,
+      breakAbsenceMinutes: 5,
+      deferRemindersWhilePresenting: true,
+      trayIconStyle: "ring",
+      trayIconMonochrome: false,
+    });
+  });
+
+  it("rejects values of the wrong type", () => {
+    expect(validateSettingValue("launchAtStartup", "true")).toEqual({
+      ok: false,
+      error: "launchAtStartup must be a boolean",
+    });
+    expect(validateSettingValue("sensitivity", Number.NaN).ok).toBe(false);
+  });
+
+  it("applies per-setting validators", () => {
+    expect(validateSettingValue("sensitivity", 80)).toEqual({
+      ok: true,
+      value: 80,
+    });
+    expect(validateSettingValue("sensitivity", 101)).toEqual({
+      ok: false,
+      error: "sensitivity must be an integer between 0 and 100",
+    });
+    expect(validateSettingValue("sensitivity", 12.5).ok).toBe(false);
+  });
+
+  it("round-trips stored strings and falls back to defaults", () => {
+    expect(
+      parseStoredSettingValue("sensitivity", serializeSettingValue(75)),
+    ).toBe(75);
+    expect(parseStoredSettingValue("launchAtStartup", "true")).toBe(true);
+    expect(parseStoredSettingValue("launchAtStartup", null)).toBe(false);
+    expect(parseStoredSettingValue("sensitivity", "loud")).toBe(50);
+    expect(parseStoredSettingValue("sensitivity", "")).toBe(50);
+  });
+});
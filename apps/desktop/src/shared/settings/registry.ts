@@ -0,0 +1,314 @@
+/**
+ * Typed settings registry shared by the main and renderer processes.
+ *
+ * Every persisted setting is declared here with its type, default value,
+ * validator and scope. Values are stored as strings in the `settings` table;
+ * `serializeSettingValue` / `parseStoredSettingValue` convert between the two.
+ */
+import { TRAY_ICON_STYLES, isTrayIconStyle } from "../types/tray";
+import { validateOriginList } from "../validation/originList";
+
+export type SettingType = "boolean" | "number" | "string";
+
+/**
+ * Which process reacts to the setting:
+ * - `main`: applied by the main process (e.g. login items)
+ * - `renderer`: only read by UI code
+ * - `shared`: read by both
+ */
+export type SettingScope = "main" | "renderer" | "shared";
+
+type SettingTypeMap = {
+  boolean: boolean;
+  number: number;
+  string: string;
+};
+
+export type SettingDefinition<T extends SettingType = SettingType> = {
+  type: T;
+  defaultValue: SettingTypeMap[T];
+  scope: SettingScope;
+  description: string;
+  /** Extra constraints on top of the base type check */
+  validate?: (value: SettingTypeMap[T]) => string | null;
+};
+
+type AnySettingDefinition =
+  | SettingDefinition<"boolean">
+  | SettingDefinition<"number">
+  | SettingDefinition<"string">;
+
+const defineSetting = <T extends SettingType>(
+  definition: SettingDefinition<T>,
+): SettingDefinition<T> => definition;
+
+const integerInRange =
+  (min: number, max: number) =>
+  (value: number): string | null =>
+    Number.isInteger(value) && value >= min && value <= max
+      ? null
+      : `must be an integer between ${min} and ${max}`;
+
+/** Typed value of every setting; each key must have a registry entry below */
+export type SettingValues = {
+  launchAtStartup: boolean;
+  sensitivity: number;
+  onboardingCompleted: boolean;
+  goalMinAvgScore: number;
+  goalMinMonitoredMinutes: number;
+  goalMaxRedMinutes: number;
+  streakRestOnWeekends: boolean;
+  dayStartHour: number;
+  streamTickIntervalMs: number;
+  apiAllowedOrigins: string;
+  autoSwitchProfileByCamera: boolean;
+  breakCoachEnabled: boolean;
+  breakWorkMinutes: number;
+  breakMinutes: number;
+  breakLongMinutes: number;
+  breakLongEvery: number;
+  breakAbsenceMinutes: number;
+  deferRemindersWhilePresenting: boolean;
+  trayIconStyle: string;
+  trayIconMonochrome: boolean;
+};
+
+export type SettingKey = keyof SettingValues;
+
+export const SETTINGS_REGISTRY = {
+  launchAtStartup: defineSetting({
+    type: "boolean",
+    defaultValue: false,
+    scope: "main",
+    description: "Open Posely when the user logs in",
+  }),
+  sensitivity: defineSetting({
+    type: "number",
+    defaultValue: 50,
+    scope: "shared",
+    description: "Posture detection sensitivity (0-100)",
+    validate: integerInRange(0, 100),
+  }),
+  onboardingCompleted: defineSetting({
+    type: "boolean",
+    defaultValue: false,
+    scope: "main",
+    description: "Whether the onboarding wizard has been finished",
+  }),
+  goalMinAvgScore: defineSetting({
+    type: "number",
+    defaultValue: 70,
+    scope: "shared",
+    description: "Minimum average score for a day to meet the posture goal",
+    validate: integerInRange(0, 100),
+  }),
+  goalMinMonitoredMinutes: defineSetting({
+    type: "number",
+    defaultValue: 0,
+    scope: "shared",
+    description: "Minimum monitored minutes for a day to meet the posture goal",
+    validate: integerInRange(0, 1440),
+  }),
+  goalMaxRedMinutes: defineSetting({
+    type: "number",
+    defaultValue: 1440,
+    scope: "shared",
+    description:
+      "Maximum minutes in the red zone for a day to meet the posture goal (1440 = no limit)",
+    validate: integerInRange(0, 1440),
+  }),
+  streakRestOnWeekends: defineSetting({
+    type: "boolean",
+    defaultValue: false,
+    scope: "shared",
+    description: "Weekends that miss the goal do not break the streak",
+  }),
+  dayStartHour: defineSetting({
+    type: "number",
+    defaultValue: 0,
+    scope: "main",
+    description:
+      "Local hour (0-23) at which a new day starts for daily logs and streaks",
+    validate: integerInRange(0, 23),
+  }),
+  streamTickIntervalMs: defineSetting({
+    type: "number",
+    defaultValue: 1000,
+    scope: "main",
+    description:
+      "Minimum milliseconds between engine ticks pushed to /api/stream clients",
+    validate: integerInRange(100, 60000),
+  }),
+  apiAllowedOrigins: defineSetting({
+    type: "string",
+    defaultValue: "",
+    scope: "main",
+    description:
+      "Web origins allowed to call the local API from a browser, comma separated",
+    validate: validateOriginList,
+  }),
+  autoSwitchProfileByCamera: defineSetting({
+    type: "boolean",
+    defaultValue: true,
+    scope: "main",
+    description:
+      "Switch monitoring profiles when the camera changes and create one for unknown cameras",
+  }),
+  breakCoachEnabled: defineSetting({
+    type: "boolean",
+    defaultValue: false,
+    scope: "main",
+    description: "Prompt for breaks on a work/break cycle",
+  }),
+  breakWorkMinutes: defineSetting({
+    type: "number",
+    defaultValue: 50,
+    scope: "main",
+    description: "Minutes of work before a break is due",
+    validate: integerInRange(5, 240),
+  }),
+  breakMinutes: defineSetting({
+    type: "number",
+    defaultValue: 10,
+    scope: "main",
+    description: "Length of a short break in minutes",
+    validate: integerInRange(1, 60),
+  }),
+  breakLongMinutes: defineSetting({
+    type: "number",
+    defaultValue: 0,
+    scope: "main",
+    description: "Length of a long break in minutes (0 = no long breaks)",
+    validate: integerInRange(0, 60),
+  }),
+  breakLongEvery: defineSetting({
+    type: "number",
+    defaultValue: 4,
+    scope: "main",
+    description: "Every how many breaks a long break is due",
+    validate: integerInRange(2, 12),
+  }),
+  breakAbsenceMinutes: defineSetting({
+    type: "number",
+    defaultValue: 5,
+    scope: "main",
+    description:
+      "Minutes away from the camera that count as having taken a break",
+    validate: integerInRange(1, 60),
+  }),
+  deferRemindersWhilePresenting: defineSetting({
+    type: "boolean",
+    defaultValue: true,
+    scope: "main",
+    description:
+      "Hold reminders while another app uses the camera or is fullscreen",
+  }),
+  trayIconStyle: defineSetting({
+    type: "string",
+    defaultValue: "ring",
+    scope: "main",
+    description: "Live score in the tray icon: ring or sparkline",
+    validate: (value) =>
+      isTrayIconStyle(value)
+        ? null
+        : `must be one of ${TRAY_ICON_STYLES.join(", ")}`,
+  }),
+  trayIconMonochrome: defineSetting({
+    type: "boolean",
+    defaultValue: false,
+    scope: "main",
+    description:
+      "Monochrome template tray icon that follows the macOS menu bar appearance",
+  }),
+} as const satisfies Record<SettingKey, AnySettingDefinition>;
+
+/** Discriminated on `key`, so narrowing the key narrows the value */
+export type SettingChange<K extends SettingKey = SettingKey> =
+  K extends SettingKey ? { key: K; value: SettingValues[K] } : never;
+
+export type SettingValidationResult<K extends SettingKey = SettingKey> =
+  | { ok: true; value: SettingValues[K] }
+  | { ok: false; error: string };
+
+/** Result of a settings write from the renderer or the local API */
+export type SettingUpdateResult =
+  | { success: true; value: SettingValues[SettingKey] }
+  | { success: false; error: string };
+
+export const SETTING_KEYS = Object.keys(SETTINGS_REGISTRY) as SettingKey[];
+
+export const isSettingKey = (key: unknown): key is SettingKey =>
+  typeof key === "string" &&
+  Object.prototype.hasOwnProperty.call(SETTINGS_REGISTRY, key);
+
+const getDefinition = (key: SettingKey): SettingDefinition =>
+  SETTINGS_REGISTRY[key] as SettingDefinition;
+
+export const getSettingDefault = <K extends SettingKey>(
+  key: K,
+): SettingValues[K] => getDefinition(key).defaultValue as SettingValues[K];
+
+export const getSettingDefaults = (): SettingValues =>
+  Object.fromEntries(
+    SETTING_KEYS.map((key) => [key, getSettingDefault(key)]),
+  ) as SettingValues;
+
+/**
+ * Check an untrusted value against the registry entry for `key`
+ */
+export const validateSettingValue = <K extends SettingKey>(
+  key: K,
+  value: unknown,
+): SettingValidationResult<K> => {
+  const definition = getDefinition(key);
+
+  const matchesType =
+    definition.type === "number"
+      ? typeof value === "number" && Number.isFinite(value)
+      : typeof value === definition.type;
+  if (!matchesType) {
+    return { ok: false, error: `${key} must be a ${definition.type}` };
+  }
+
+  const error = definition.validate?.(value as never) ?? null;
+  if (error) {
+    return { ok: false, error: `${key} ${error}` };
+  }
+
+  return { ok: true, value: value as SettingValues[K] };
+};
+
+export const serializeSettingValue = (
+  value: SettingValues[SettingKey],
+): string => String(value);
+
+const parseRawValue = (type: SettingType, raw: string): unknown => {
+  if (type === "boolean") {
+    if (raw === "true") return true;
+    if (raw === "false") return false;
+    return undefined;
+  }
+  if (type === "number") {
+    return raw.trim() === "" ? undefined : Number(raw);
+  }
+  return raw;
+};
+
+/**
+ * Convert a stored string back to a typed value, falling back to the default
+ * when the row is missing or no longer valid
+ */
+export const parseStoredSettingValue = <K extends SettingKey>(
+  key: K,
+  raw: string | null,
+): SettingValues[K] => {
+  if (raw === null) {
+    return getSettingDefault(key);
+  }
+
+  const result = validateSettingValue(
+    key,
+    parseRawValue(getDefinition(key).type, raw),
+  );
+  return result.ok ? result.value : getSettingDefault(key);
+};
@@ -14,3 +14,5 @@ export const resolveTimestamp = (value?: number): number => {
   }
   return getMonotonicTime();
 };
+
+export * from "./localDate";
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  addDaysToLocalDate,
+  getLocalDateWeekday,
+  getLocalDayStart,
+  setDayStartHour,
+  toLocalDateString,
+} from "./localDate";
+
+const originalTimeZone = process.env.TZ;
+
+const useTimeZone = (timeZone: string) => {
+  process.env.TZ = timeZone;
+};
+
+describe("localDate", () => {
+  beforeEach(() => {
+    setDayStartHour(0);
+  });
+
+  afterEach(() => {
+    if (originalTimeZone === undefined) {
+      delete process.env.TZ;
+    } else {
+      process.env.TZ = originalTimeZone;
+    }
+    setDayStartHour(0);
+  });
+
+  describe("toLocalDateString", () => {
+    it("uses the local calendar east of UTC", () => {
+      useTimeZone("Asia/Seoul");
+      // 01:30 on Nov 4 in Seoul, still Nov 3 in UTC
+      expect(toLocalDateString(Date.parse("2025-11-03T16:30:00Z"))).toBe(
+        "2025-11-04",
+      );
+    });
+
+    it("uses the local calendar west of UTC", () => {
+      useTimeZone("America/Los_Angeles");
+      // 21:00 on Nov 3 in Los Angeles, already Nov 4 in UTC
+      expect(toLocalDateString(Date.parse("2025-11-04T05:00:00Z"))).toBe(
+        "2025-11-03",
+      );
+    });
+
+    it("keeps the early hours on the previous day after dayStartHour", () => {
+      useTimeZone("Asia/Seoul");
+      setDayStartHour(4);
+      // 03:59 and 04:00 on Nov 4 in Seoul
+      expect(toLocalDateString(Date.parse("2025-11-03T18:59:00Z"))).toBe(
+        "2025-11-03",
+      );
+      expect(toLocalDateString(Date.parse("2025-11-03T19:00:00Z"))).toBe(
+        "2025-11-04",
+      );
+    });
+
+    it("handles DST transitions with a late day start", () => {
+      useTimeZone("America/New_York");
+      // Spring forward: 01:30 EST is before, 03:30 EDT after a 03:00 start
+      expect(toLocalDateString(Date.parse("2025-03-09T06:30:00Z"), 3)).toBe(
+        "2025-03-08",
+      );
+      expect(toLocalDateString(Date.parse("2025-03-09T07:30:00Z"), 3)).toBe(
+        "2025-03-09",
+      );
+      // Fall back: both 01:30 EDT and 01:30 EST belong to Nov 1
+      expect(toLocalDateString(Date.parse("2025-11-02T05:30:00Z"), 3)).toBe(
+        "2025-11-01",
+      );
+      expect(toLocalDateString(Date.parse("2025-11-02T06:30:00Z"), 3)).toBe(
+        "2025-11-01",
+      );
+    });
+  });
+
+  describe("getLocalDayStart", () => {
+    it("returns 23- and 25-hour days around DST changes", () => {
+      useTimeZone("America/New_York");
+      const hours = (from: string, to: string) =>
+        (getLocalDayStart(to) - getLocalDayStart(from)) / 3_600_000;
+
+      expect(getLocalDayStart("2025-03-09")).toBe(
+        Date.parse("2025-03-09T05:00:00Z"),
+      );
+      expect(hours("2025-03-09", "2025-03-10")).toBe(23);
+      expect(hours("2025-11-02", "2025-11-03")).toBe(25);
+    });
+
+    it("honours the day start hour", () => {
+      useTimeZone("Europe/Berlin");
+      expect(getLocalDayStart("2025-07-01", 5)).toBe(
+        Date.parse("2025-07-01T03:00:00Z"),
+      );
+    });
+  });
+
+  describe("calendar arithmetic", () => {
+    it("adds days across months, years and leap days", () => {
+      useTimeZone("Pacific/Auckland");
+      expect(addDaysToLocalDate("2024-02-28", 1)).toBe("2024-02-29");
+      expect(addDaysToLocalDate("2024-03-01", -1)).toBe("2024-02-29");
+      expect(addDaysToLocalDate("2025-12-31", 1)).toBe("2026-01-01");
+      expect(addDaysToLocalDate("2025-04-06", -7)).toBe("2025-03-30");
+    });
+
+    it("returns the weekday independent of the host timezone", () => {
+      useTimeZone("Pacific/Kiritimati");
+      expect(getLocalDateWeekday("2025-11-08")).toBe(6);
+      useTimeZone("Pacific/Pago_Pago");
+      expect(getLocalDateWeekday("2025-11-08")).toBe(6);
+    });
+
+    it("rejects malformed dates", () => {
+      expect(() => addDaysToLocalDate("2025/11/08", 1)).toThrow(
+        "Invalid local date",
+      );
+      expect(() => setDayStartHour(24)).toThrow("Invalid day start hour");
+    });
+  });
+});
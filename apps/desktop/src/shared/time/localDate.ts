@@ -0,0 +1,105 @@
+/**
+ * Local calendar dates (`YYYY-MM-DD`) for daily posture logs.
+ *
+ * A "day" starts at `dayStartHour` local time (midnight by default) so
+ * night-shift users can keep a late session on the previous day. All instant →
+ * date conversions use the host's local calendar fields, never
+ * `toISOString()`, so days are not split at UTC midnight. Date arithmetic
+ * works on calendar fields as well, which keeps it correct across DST changes.
+ */
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export const DEFAULT_DAY_START_HOUR = 0;
+
+let configuredDayStartHour = DEFAULT_DAY_START_HOUR;
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+const formatCalendarDate = (year: number, month: number, day: number) =>
+  `${year}-${pad(month)}-${pad(day)}`;
+
+const parseDateParts = (date: string): [number, number, number] => {
+  const match = DATE_PATTERN.exec(date);
+  if (!match) {
+    throw new Error(`Invalid local date: ${date}`);
+  }
+  return [Number(match[1]), Number(match[2]), Number(match[3])];
+};
+
+export const isValidDayStartHour = (hour: number): boolean =>
+  Number.isInteger(hour) && hour >= 0 && hour <= 23;
+
+/**
+ * Set the hour (0-23, local time) at which a new day starts in this process
+ */
+export const setDayStartHour = (hour: number): void => {
+  if (!isValidDayStartHour(hour)) {
+    throw new Error(`Invalid day start hour: ${hour}`);
+  }
+  configuredDayStartHour = hour;
+};
+
+export const getDayStartHour = (): number => configuredDayStartHour;
+
+/**
+ * Local date an instant belongs to, honouring the day start hour
+ */
+export const toLocalDateString = (
+  instant: number | Date,
+  dayStartHour: number = configuredDayStartHour,
+): string => {
+  const date = new Date(instant);
+  // Build the previous day from calendar fields at noon, which always exists
+  // and cannot be pushed onto another date by a DST transition
+  const local =
+    date.getHours() < dayStartHour
+      ? new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1, 12)
+      : date;
+  return formatCalendarDate(
+    local.getFullYear(),
+    local.getMonth() + 1,
+    local.getDate(),
+  );
+};
+
+/**
+ * Today's local date
+ */
+export const getTodayLocalDate = (
+  now: number | Date = Date.now(),
+  dayStartHour: number = configuredDayStartHour,
+): string => toLocalDateString(now, dayStartHour);
+
+/**
+ * Move a local date by whole calendar days
+ */
+export const addDaysToLocalDate = (date: string, days: number): string => {
+  const [year, month, day] = parseDateParts(date);
+  // Calendar arithmetic only, so UTC avoids any DST offsets
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return formatCalendarDate(
+    shifted.getUTCFullYear(),
+    shifted.getUTCMonth() + 1,
+    shifted.getUTCDate(),
+  );
+};
+
+/**
+ * Weekday of a local date (0 = Sunday)
+ */
+export const getLocalDateWeekday = (date: string): number => {
+  const [year, month, day] = parseDateParts(date);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+/**
+ * Instant (epoch ms) at which a local date begins
+ */
+export const getLocalDayStart = (
+  date: string,
+  dayStartHour: number = configuredDayStartHour,
+): number => {
+  const [year, month, day] = parseDateParts(date);
+  return new Date(year, month - 1, day, dayStartHour).getTime();
+};
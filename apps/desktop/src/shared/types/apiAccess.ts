@@ -0,0 +1,18 @@
+/**
+ * Local API access tokens. Only a SHA-256 hash of each secret is stored; the
+ * secret itself is returned once, when the token is created.
+ */
+export type ApiTokenSummary = {
+  id: string;
+  name: string;
+  /** First characters of the secret so users can tell tokens apart */
+  prefix: string;
+  /** Epoch ms */
+  createdAt: number;
+  /** Epoch ms of the last authenticated request, null if never used */
+  lastUsedAt: number | null;
+};
+
+export type ApiTokenCreateResult =
+  | { ok: true; token: ApiTokenSummary; secret: string }
+  | { ok: false; error: string };
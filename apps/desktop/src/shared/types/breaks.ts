@@ -0,0 +1,38 @@
+/**
+ * Break coach state shown in the stretch window and settings:
+ * - `off`: the coach is disabled
+ * - `working`: counting towards the next break
+ * - `breakDue`: a break was prompted and not yet taken or skipped
+ * - `away`: the user has been away long enough for a break to count
+ */
+export type BreakCoachPhase = "off" | "working" | "breakDue" | "away";
+
+export type BreakCoachState = {
+  phase: BreakCoachPhase;
+  /** Epoch ms the current work period started, null unless working */
+  workStartedAt: number | null;
+  /** Epoch ms the next break is due, null unless working */
+  nextBreakAt: number | null;
+  /** Length of the next (or due) break in minutes */
+  breakMinutes: number;
+  /** Breaks taken since the cycle started; picks short or long breaks */
+  completedBreaks: number;
+};
+
+/**
+ * Counted per day:
+ * - `prompted`: a break came due
+ * - `taken`: a break was taken, by stepping away or finishing a stretch
+ * - `skipped`: a due break was skipped or ignored until the next one
+ * - `stretched`: a guided stretch was finished (also counted as taken)
+ */
+export type BreakEvent = "prompted" | "taken" | "skipped" | "stretched";
+
+export type DailyBreakSummary = {
+  /** Local date, YYYY-MM-DD */
+  date: string;
+  prompted: number;
+  taken: number;
+  skipped: number;
+  stretched: number;
+};
@@ -18,6 +18,14 @@ export type CalibrationBaselineRecord = CalibrationBaselinePayload & {
   createdAt: number;
 };
 
+export type CalibrationBaselineSaveResult =
+  | { ok: true; baseline: CalibrationBaselineRecord }
+  | { ok: false; error: string };
+
+export type CalibrationBaselineLatestResult =
+  | { ok: true; baseline: CalibrationBaselineRecord }
+  | { ok: false; baseline: null; error?: string };
+
 export type CalibrationSensitivity = "low" | "medium" | "high" | "custom";
 
 export type CalibrationThresholds = {
@@ -42,6 +50,10 @@ export type CalibrationCustomThresholds = Partial<CalibrationThresholds>;
 export type PostureCalibrationPayload = CalibrationBaselineMetrics &
   CalibrationQualitySnapshot & {
     userId?: number;
+    /** Defaults to the default monitoring profile */
+    profileId?: number;
+    /** Camera the samples came from, see `toCameraKey` */
+    cameraKey?: string | null;
     sensitivity?: CalibrationSensitivity;
     customThresholds?: CalibrationCustomThresholds | null;
     calibratedAt: number;
@@ -52,6 +64,8 @@ export type PostureCalibrationRecord = CalibrationBaselineMetrics &
   CalibrationQualitySnapshot & {
     id: number;
     userId: number;
+    profileId: number;
+    cameraKey: string | null;
     sensitivity: CalibrationSensitivity;
     customPitchThreshold: number | null;
     customEHDThreshold: number | null;
@@ -146,3 +160,9 @@ export type CalibrationSensitivityUpdateRequest = {
   sensitivity: CalibrationSensitivity;
   customThresholds?: CalibrationCustomThresholds | null;
 };
+
+/** Outcome of opening the standalone calibration screen */
+export type RecalibrationResult = {
+  success: boolean;
+  error?: string;
+};
@@ -0,0 +1,9 @@
+export type CameraPermissionResult = {
+  granted: boolean;
+  error?: string;
+};
+
+export type OpenCameraSettingsResult = {
+  success: boolean;
+  error?: string;
+};
@@ -6,6 +6,8 @@ export type EngineFrameDiagnostics = {
   inputWidth?: number;
   frameIntervalMs?: number;
   fps?: number;
+  /** Rolling CpuMonitor average for the detection renderer, 0-100 */
+  cpuAverage?: number;
 };
 
 export type EngineFramePayload = {
@@ -30,7 +30,10 @@ export type EngineDiagnostics = {
  * Consumed by UI (Epic 1) and dashboard surfaces (Epic 2).
  */
 export interface EngineTick {
-  /** Unix timestamp in milliseconds when the tick was produced. */
+  /**
+   * Monotonic frame timestamp in milliseconds (`performance.now()` clock)
+   * when the tick was produced; not epoch ms.
+   */
   t: number;
   /** Presence classification derived from face and pose tracking. */
   presence: PresenceState;
@@ -0,0 +1,175 @@
+import type { PostureCalibrationRecord } from "./calibration";
+
+/**
+ * Posture history export schema.
+ *
+ * JSON exports serialise {@link PostureExportDocument} as-is.
+ *
+ * CSV exports contain one section per collection, each introduced by a
+ * `# <section>` line followed by a header row and separated by a blank line:
+ *
+ * ```
+ * # posely-export,schemaVersion=2,exportedAt=<ISO-8601>,from=<date|>,to=<date|>
+ *
+ * # daily_logs
+ * date,seconds_in_green,seconds_in_yellow,seconds_in_red,avg_score,sample_count,meets_goal
+ *
+ * # profiles
+ * id,name,performance_mode,camera_key
+ *
+ * # profile_daily_logs
+ * date,profile_id,seconds_in_green,seconds_in_yellow,seconds_in_red,avg_score,sample_count
+ *
+ * # calibrations
+ * id,user_id,profile_id,camera_key,calibrated_at,baseline_pitch,baseline_ehd,baseline_dpr,
+ * quality,sample_count,sensitivity,custom_pitch_threshold,custom_ehd_threshold,
+ * custom_dpr_threshold,is_active,created_at,updated_at
+ *
+ * # settings
+ * key,value
+ * ```
+ *
+ * Timestamps are ISO-8601 strings, dates are local `YYYY-MM-DD`, booleans are
+ * `1`/`0` and missing numbers are empty cells.
+ *
+ * Version 2 added `profiles` and version 3 `profileDailyLogs`. Older backups
+ * are still restored: version 1 calibrations go to the default profile, and
+ * backups before version 3 restore no per-profile days.
+ */
+export const POSTURE_EXPORT_SCHEMA_VERSION = 3 as const;
+
+export type PostureExportFormat = "csv" | "json";
+
+export type PostureExportRange = {
+  /** Inclusive local start date (YYYY-MM-DD), or null for no lower bound */
+  from: string | null;
+  /** Inclusive local end date (YYYY-MM-DD), or null for no upper bound */
+  to: string | null;
+};
+
+export type PostureExportRequest = Partial<PostureExportRange> & {
+  /** Output format; when omitted it is derived from the chosen file name */
+  format?: PostureExportFormat;
+};
+
+export type PostureExportDailyLog = {
+  date: string;
+  secondsInGreen: number;
+  secondsInYellow: number;
+  secondsInRed: number;
+  avgScore: number;
+  sampleCount: number;
+  meetsGoal: number;
+};
+
+/**
+ * One profile's share of a day in `dailyLogs`. Goals are not stored per
+ * profile, so there is no `meetsGoal`.
+ */
+export type PostureExportProfileDailyLog = Omit<
+  PostureExportDailyLog,
+  "meetsGoal"
+> & {
+  profileId: number;
+};
+
+/**
+ * Monitoring profile a calibration belongs to. Profile IDs differ between
+ * machines, so imports match profiles by camera key or name instead.
+ */
+export type PostureExportProfile = {
+  id: number;
+  name: string;
+  performanceMode: string;
+  cameraKey: string | null;
+};
+
+export type PostureExportCalibration = Omit<
+  PostureCalibrationRecord,
+  "profileId" | "cameraKey" | "calibratedAt" | "createdAt" | "updatedAt"
+> & {
+  /** Missing in backups made before monitoring profiles existed */
+  profileId?: number;
+  /** Missing in backups made before camera keys were recorded */
+  cameraKey?: string | null;
+  calibratedAt: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type PostureExportDocument = {
+  schemaVersion: typeof POSTURE_EXPORT_SCHEMA_VERSION;
+  exportedAt: string;
+  range: PostureExportRange;
+  dailyLogs: PostureExportDailyLog[];
+  /** Every profile, so calibrations and profile days can be mapped locally */
+  profiles: PostureExportProfile[];
+  profileDailyLogs: PostureExportProfileDailyLog[];
+  /** Calibrations whose `calibratedAt` falls inside the range */
+  calibrations: PostureExportCalibration[];
+  /** Settings are a snapshot and are not filtered by range */
+  settings: Record<string, string>;
+};
+
+export type PostureExportResult =
+  | {
+      ok: true;
+      filePath: string;
+      format: PostureExportFormat;
+      counts: {
+        dailyLogs: number;
+        calibrations: number;
+        settings: number;
+      };
+    }
+  | {
+      ok: false;
+      canceled?: boolean;
+      error?: string;
+    };
+
+/**
+ * How an imported daily log is merged with an existing row for the same date:
+ * - `max-samples`: keep whichever row has more samples
+ * - `sum`: add durations and samples, weighting the average score
+ * - `overwrite`: replace the existing row with the imported one
+ */
+export type PostureImportStrategy = "max-samples" | "sum" | "overwrite";
+
+export type PostureImportRequest = {
+  strategy: PostureImportStrategy;
+};
+
+export type PostureImportDiff = {
+  dailyLogs: {
+    inserted: string[];
+    updated: string[];
+    unchanged: string[];
+  };
+  /** Rows keyed by date and local profile */
+  profileDailyLogs: {
+    inserted: number;
+    updated: number;
+    unchanged: number;
+  };
+  calibrations: {
+    inserted: number;
+    skipped: number;
+    /** calibratedAt (epoch ms) of the calibration left active, if any */
+    activeCalibratedAt: number | null;
+  };
+};
+
+export type PostureImportResult =
+  | {
+      ok: true;
+      dryRun: boolean;
+      filePath: string;
+      strategy: PostureImportStrategy;
+      diff: PostureImportDiff;
+    }
+  | {
+      ok: false;
+      canceled?: boolean;
+      errors: string[];
+    };
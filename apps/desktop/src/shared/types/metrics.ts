@@ -22,6 +22,8 @@ export type MetricFrameFlags = {
   yawDeweighted: boolean;
   lowConfidence: boolean;
   baselinePending: boolean;
+  /** Frame confidence was below the ConfidenceGate threshold, so smoothing held */
+  confidenceGated?: boolean;
 };
 
 export type MetricValues = {
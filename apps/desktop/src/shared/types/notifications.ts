@@ -0,0 +1,95 @@
+/**
+ * Posture reminders scheduled by the main-process reminder engine:
+ * - `red`: staying in the red zone
+ * - `yellowFromGreen`: slipping from green into yellow and staying there
+ * - `yellowDwell`: staying in the yellow zone
+ * - `greenBreak`: a long stretch in the green zone, time for a break
+ */
+export type NotificationType =
+  | "red"
+  | "yellowFromGreen"
+  | "yellowDwell"
+  | "greenBreak";
+
+export const NOTIFICATION_TYPES: readonly NotificationType[] = [
+  "red",
+  "yellowFromGreen",
+  "yellowDwell",
+  "greenBreak",
+];
+
+/**
+ * When a reminder type fires while its zone lasts: first after
+ * `firstDelayMinutes`, then every `repeatIntervalMinutes` up to `maxRepeats`
+ * more times
+ */
+export type NotificationSchedule = {
+  enabled: boolean;
+  firstDelayMinutes: number;
+  repeatIntervalMinutes: number;
+  maxRepeats: number;
+};
+
+export const NOTIFICATION_SCHEDULE_LIMITS = {
+  minDelayMinutes: 1,
+  maxDelayMinutes: 240,
+  maxRepeats: 20,
+} as const;
+
+export const DEFAULT_NOTIFICATION_SCHEDULES: Record<
+  NotificationType,
+  NotificationSchedule
+> = {
+  red: {
+    enabled: true,
+    firstDelayMinutes: 1,
+    repeatIntervalMinutes: 2,
+    maxRepeats: 5,
+  },
+  yellowFromGreen: {
+    enabled: true,
+    firstDelayMinutes: 3,
+    repeatIntervalMinutes: 2,
+    maxRepeats: 4,
+  },
+  yellowDwell: {
+    enabled: true,
+    firstDelayMinutes: 5,
+    repeatIntervalMinutes: 2,
+    maxRepeats: 3,
+  },
+  greenBreak: {
+    enabled: true,
+    firstDelayMinutes: 45,
+    repeatIntervalMinutes: 45,
+    maxRepeats: 0,
+  },
+};
+
+/**
+ * A daily window without reminders, in minutes after local midnight. A window
+ * whose end is before its start runs past midnight into the next day; equal
+ * start and end cover the whole day.
+ */
+export type QuietHours = {
+  enabled: boolean;
+  startMinute: number;
+  endMinute: number;
+};
+
+export type NotificationPreferences = {
+  schedules: Record<NotificationType, NotificationSchedule>;
+  /** One window per weekday, indexed like `Date#getDay` (0 = Sunday) */
+  quietHours: QuietHours[];
+  /** Epoch ms until which reminders are held, null when off */
+  doNotDisturbUntil: number | null;
+};
+
+export type NotificationPreferencesUpdate = {
+  schedules?: Partial<Record<NotificationType, NotificationSchedule>>;
+  quietHours?: QuietHours[];
+};
+
+export type NotificationPreferencesResult =
+  | { ok: true; preferences: NotificationPreferences }
+  | { ok: false; error: string };
@@ -0,0 +1,69 @@
+import type { PerformanceModeId } from "../sampling/performanceModes";
+
+/** Profile every existing calibration and log belongs to after upgrading */
+export const DEFAULT_MONITORING_PROFILE_ID = 1;
+
+export const MAX_MONITORING_PROFILE_NAME_LENGTH = 40;
+
+/**
+ * A named workspace (desk, standing desk, laptop…) with its own calibration,
+ * sensitivity and detection performance mode. Sensitivity is stored on the
+ * profile's calibration rows.
+ */
+export type MonitoringProfile = {
+  id: number;
+  name: string;
+  performanceMode: PerformanceModeId;
+  isActive: boolean;
+  /** Camera bound to the profile for automatic switching */
+  cameraKey: string | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type MonitoringProfileInput = {
+  name: string;
+  performanceMode?: PerformanceModeId;
+};
+
+export type MonitoringProfileUpdate = {
+  name?: string;
+  performanceMode?: PerformanceModeId;
+};
+
+export type MonitoringProfileResult =
+  | { ok: true; profile: MonitoringProfile }
+  | { ok: false; error: string };
+
+export type MonitoringProfileDeleteResult =
+  | { ok: true }
+  | { ok: false; error: string };
+
+/** The video input the detection pipeline is reading from */
+export type CameraDeviceInfo = {
+  deviceId: string;
+  label: string;
+};
+
+/**
+ * What reporting a camera did to the active profile:
+ * - `unchanged`: the active profile already uses this camera
+ * - `bound`: the active profile had no camera yet and now owns this one
+ * - `switched`: another profile owns this camera and became active
+ * - `created`: the camera was unknown, a new profile was created for it
+ */
+export type CameraProfileOutcome =
+  | "unchanged"
+  | "bound"
+  | "switched"
+  | "created";
+
+export type CameraProfileResult =
+  | {
+      ok: true;
+      outcome: CameraProfileOutcome;
+      profile: MonitoringProfile;
+      /** True when the now active profile has no calibration yet */
+      needsCalibration: boolean;
+    }
+  | { ok: false; error: string };
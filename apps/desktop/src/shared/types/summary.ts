@@ -0,0 +1,82 @@
+/**
+ * One stored day of posture totals
+ */
+export type DailySummary = {
+  date: string;
+  secondsInGreen: number;
+  secondsInYellow: number;
+  secondsInRed: number;
+  avgScore: number;
+  sampleCount: number;
+  meetsGoal: number; // 1 if the day met the goal rule, else 0
+  streak?: number; // Optional: daily streak count
+};
+
+export type PostureHeatmapCell = {
+  /** Local day of week, 0 = Sunday */
+  weekday: number;
+  /** Local hour of day, 0-23 */
+  hour: number;
+  avgScore: number;
+  /** Red-zone minutes in this slot, averaged over the days it was observed */
+  avgRedMinutes: number;
+  sampleCount: number;
+  dayCount: number;
+};
+
+/**
+ * Aggregated posture totals for an inclusive range of local dates
+ */
+export type PostureRangeSummary = {
+  /** Inclusive start date (YYYY-MM-DD) */
+  from: string;
+  /** Inclusive end date (YYYY-MM-DD) */
+  to: string;
+  /** Days in the range with at least one stored log */
+  daysWithData: number;
+  /** Days in the range that met the goal */
+  goalMetDays: number;
+  /** Sample-weighted average score, 0 when there is no data */
+  avgScore: number;
+  sampleCount: number;
+  secondsInGreen: number;
+  secondsInYellow: number;
+  secondsInRed: number;
+  /** Green + yellow + red */
+  monitoredSeconds: number;
+};
+
+/**
+ * Rollup for a calendar period; `period` is `YYYY-MM` for months and `YYYY`
+ * for years
+ */
+export type PosturePeriodSummary = PostureRangeSummary & {
+  period: string;
+};
+
+export type PostureYearSummary = PosturePeriodSummary & {
+  /** One entry per calendar month, January first */
+  months: PosturePeriodSummary[];
+};
+
+export type PostureBestStreak = {
+  length: number;
+  /** First goal-met day of the streak, or null when no day met the goal */
+  startDate: string | null;
+  /** Last goal-met day of the streak */
+  endDate: string | null;
+};
+
+export type PostureWeekComparison = {
+  /** The 7 days ending today */
+  current: PostureRangeSummary;
+  /** The 7 days before `current` */
+  previous: PostureRangeSummary;
+  /** `current` minus `previous` */
+  delta: {
+    avgScore: number;
+    monitoredSeconds: number;
+    secondsInRed: number;
+    goalMetDays: number;
+  };
+};
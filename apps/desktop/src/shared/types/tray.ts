@@ -0,0 +1,12 @@
+/**
+ * How the tray icon shows the live score:
+ * - `ring`: the current score as a ring filled clockwise
+ * - `sparkline`: scores of the last few minutes as a line
+ */
+export type TrayIconStyle = "ring" | "sparkline";
+
+export const TRAY_ICON_STYLES: readonly TrayIconStyle[] = ["ring", "sparkline"];
+
+export const isTrayIconStyle = (value: unknown): value is TrayIconStyle =>
+  typeof value === "string" &&
+  (TRAY_ICON_STYLES as readonly string[]).includes(value);
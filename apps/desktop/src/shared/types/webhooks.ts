@@ -0,0 +1,71 @@
+/**
+ * Outbound webhooks. Posely POSTs a signed JSON payload to each enabled
+ * webhook subscribed to an event; the signing secret is returned once, when
+ * the webhook is created.
+ */
+export const WEBHOOK_EVENTS = [
+  "posture.bad_posture",
+  "goal.met",
+  "streak.broken",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/** Sent only by the "send test event" action, never subscribed to */
+export const WEBHOOK_TEST_EVENT = "webhook.test";
+
+export type WebhookDeliveryEvent = WebhookEvent | typeof WEBHOOK_TEST_EVENT;
+
+export type WebhookSummary = {
+  id: string;
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+  /** Epoch ms */
+  createdAt: number;
+};
+
+export type WebhookInput = {
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+};
+
+export type WebhookCreateResult =
+  | { ok: true; webhook: WebhookSummary; secret: string }
+  | { ok: false; error: string };
+
+/**
+ * JSON body of every delivery
+ */
+export type WebhookPayload = {
+  /** Unique per event; retries of the same delivery reuse it */
+  id: string;
+  event: WebhookDeliveryEvent;
+  /** ISO 8601 */
+  occurredAt: string;
+  data: Record<string, unknown>;
+};
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+export type WebhookDeliverySummary = {
+  id: number;
+  webhookId: string;
+  event: WebhookDeliveryEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** HTTP status of the last attempt, null when no response was received */
+  responseStatus: number | null;
+  error: string | null;
+  /** Epoch ms */
+  createdAt: number;
+  updatedAt: number;
+  /** Epoch ms of the next retry while pending */
+  nextAttemptAt: number | null;
+};
+
+export type WebhookTestResult =
+  | { ok: true; delivery: WebhookDeliverySummary }
+  | { ok: false; error: string };
@@ -0,0 +1,157 @@
+import { isPerformanceModeId } from "../sampling/performanceModes";
+import type {
+  CalibrationBaselinePayload,
+  CalibrationCustomThresholds,
+  CalibrationSensitivity,
+  CalibrationSensitivityUpdateRequest,
+  CalibrationStartRequest,
+} from "../types/calibration";
+import type { DetectorKind } from "../types/detector";
+import type {
+  PostureExportRequest,
+  PostureImportRequest,
+  PostureImportStrategy,
+} from "../types/export";
+import type { NotificationPreferencesUpdate } from "../types/notifications";
+import type {
+  CameraDeviceInfo,
+  MonitoringProfileInput,
+  MonitoringProfileUpdate,
+} from "../types/profiles";
+import { WEBHOOK_EVENTS, type WebhookInput } from "../types/webhooks";
+import { isFiniteNumber, isRecord } from "./metricValues";
+
+/**
+ * Structural guards for object payloads sent over IPC. They check shapes
+ * only; main-process services still apply their own business rules.
+ */
+
+const CALIBRATION_SENSITIVITIES: readonly CalibrationSensitivity[] = [
+  "low",
+  "medium",
+  "high",
+  "custom",
+];
+
+const DETECTOR_KINDS: readonly DetectorKind[] = ["mediapipe", "onnx"];
+
+const POSTURE_EXPORT_FORMATS = ["csv", "json"];
+
+const POSTURE_IMPORT_STRATEGIES: readonly PostureImportStrategy[] = [
+  "max-samples",
+  "sum",
+  "overwrite",
+];
+
+const isOptionalFiniteNumber = (value: unknown): value is number | undefined =>
+  value === undefined || isFiniteNumber(value);
+
+const isOptionalDate = (value: unknown): value is string | null | undefined =>
+  value === undefined || value === null || typeof value === "string";
+
+const isCalibrationSensitivity = (
+  value: unknown,
+): value is CalibrationSensitivity =>
+  typeof value === "string" &&
+  (CALIBRATION_SENSITIVITIES as readonly string[]).includes(value);
+
+const isCustomThresholds = (
+  value: unknown,
+): value is CalibrationCustomThresholds | null | undefined =>
+  value === undefined ||
+  value === null ||
+  (isRecord(value) &&
+    isOptionalFiniteNumber(value.pitch) &&
+    isOptionalFiniteNumber(value.ehd) &&
+    isOptionalFiniteNumber(value.dpr));
+
+export const isCalibrationStartRequest = (
+  value: unknown,
+): value is CalibrationStartRequest =>
+  isRecord(value) &&
+  (value.sensitivity === undefined ||
+    isCalibrationSensitivity(value.sensitivity)) &&
+  isCustomThresholds(value.customThresholds) &&
+  isOptionalFiniteNumber(value.targetSamples) &&
+  isOptionalFiniteNumber(value.minQuality) &&
+  isOptionalFiniteNumber(value.validationDurationMs);
+
+export const isCalibrationSensitivityUpdateRequest = (
+  value: unknown,
+): value is CalibrationSensitivityUpdateRequest =>
+  isRecord(value) &&
+  isFiniteNumber(value.calibrationId) &&
+  Number.isInteger(value.calibrationId) &&
+  isCalibrationSensitivity(value.sensitivity) &&
+  isCustomThresholds(value.customThresholds);
+
+export const isCalibrationBaselinePayload = (
+  value: unknown,
+): value is CalibrationBaselinePayload =>
+  isRecord(value) &&
+  typeof value.detector === "string" &&
+  (DETECTOR_KINDS as readonly string[]).includes(value.detector) &&
+  Array.isArray(value.keypoints) &&
+  value.keypoints.every(
+    (keypoint) =>
+      isRecord(keypoint) &&
+      isFiniteNumber(keypoint.x) &&
+      isFiniteNumber(keypoint.y),
+  );
+
+export const isPostureExportRequest = (
+  value: unknown,
+): value is PostureExportRequest =>
+  isRecord(value) &&
+  (value.format === undefined ||
+    (typeof value.format === "string" &&
+      POSTURE_EXPORT_FORMATS.includes(value.format))) &&
+  isOptionalDate(value.from) &&
+  isOptionalDate(value.to);
+
+export const isPostureImportRequest = (
+  value: unknown,
+): value is PostureImportRequest =>
+  isRecord(value) &&
+  typeof value.strategy === "string" &&
+  (POSTURE_IMPORT_STRATEGIES as readonly string[]).includes(value.strategy);
+
+export const isWebhookInput = (value: unknown): value is WebhookInput =>
+  isRecord(value) &&
+  typeof value.name === "string" &&
+  typeof value.url === "string" &&
+  Array.isArray(value.events) &&
+  value.events.every(
+    (event) =>
+      typeof event === "string" &&
+      (WEBHOOK_EVENTS as readonly string[]).includes(event),
+  );
+
+export const isMonitoringProfileInput = (
+  value: unknown,
+): value is MonitoringProfileInput =>
+  isRecord(value) &&
+  typeof value.name === "string" &&
+  (value.performanceMode === undefined ||
+    isPerformanceModeId(value.performanceMode));
+
+export const isMonitoringProfileUpdate = (
+  value: unknown,
+): value is MonitoringProfileUpdate =>
+  isRecord(value) &&
+  (value.name === undefined || typeof value.name === "string") &&
+  (value.performanceMode === undefined ||
+    isPerformanceModeId(value.performanceMode));
+
+export const isCameraDeviceInfo = (value: unknown): value is CameraDeviceInfo =>
+  isRecord(value) &&
+  typeof value.deviceId === "string" &&
+  typeof value.label === "string";
+
+export const isNotificationPreferencesUpdate = (
+  value: unknown,
+): value is NotificationPreferencesUpdate =>
+  isRecord(value) &&
+  (value.schedules === undefined || isRecord(value.schedules)) &&
+  (value.quietHours === undefined ||
+    (Array.isArray(value.quietHours) && value.quietHours.every(isRecord)));
@@ -106,12 +106,14 @@ export const isMetricFlags = (
     return false;
   }
 
-  const { yawDeweighted, lowConfidence, baselinePending } = value;
+  const { yawDeweighted, lowConfidence, baselinePending, confidenceGated } =
+    value;
 
   return (
     isBoolean(yawDeweighted) &&
     isBoolean(lowConfidence) &&
-    isBoolean(baselinePending)
+    isBoolean(baselinePending) &&
+    (confidenceGated === undefined || isBoolean(confidenceGated))
   );
 };
 
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import {
+  normalizeOrigin,
+  parseOriginList,
+  validateOriginList,
+} from "./originList";
+
+describe("origin allowlist", () => {
+  it("accepts bare http(s) origins", () => {
+    expect(normalizeOrigin("http://localhost:1212")).toBe(
+      "http://localhost:1212",
+    );
+    expect(normalizeOrigin("https://overlay.example/")).toBe(
+      "https://overlay.example",
+    );
+  });
+
+  it("rejects wildcards, paths and other schemes", () => {
+    expect(normalizeOrigin("*")).toBeNull();
+    expect(normalizeOrigin("https://overlay.example/path")).toBeNull();
+    expect(normalizeOrigin("file:///tmp/index.html")).toBeNull();
+  });
+
+  it("splits on commas and whitespace", () => {
+    expect(
+      parseOriginList("http://localhost:1212, https://a.example\nbogus"),
+    ).toEqual(["http://localhost:1212", "https://a.example"]);
+    expect(validateOriginList("")).toBeNull();
+    expect(validateOriginList("http://localhost:1212, *")).toBe(
+      "contains an invalid origin: *",
+    );
+  });
+});
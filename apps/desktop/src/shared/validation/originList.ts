@@ -0,0 +1,46 @@
+/**
+ * Origin allowlist stored as a comma- or whitespace-separated string,
+ * e.g. `http://localhost:1212, https://overlay.example`
+ */
+
+const splitOriginList = (raw: string): string[] =>
+  raw
+    .split(/[\s,]+/)
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+
+/**
+ * Reduce an entry to its `scheme://host[:port]` origin, or null when it is not
+ * an http(s) origin on its own (paths, queries and `*` are rejected)
+ */
+export const normalizeOrigin = (entry: string): string | null => {
+  try {
+    const url = new URL(entry);
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return null;
+    }
+    return url.origin === entry.replace(/\/$/, "") ? url.origin : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Settings validator: every entry must be a bare http(s) origin
+ */
+export const validateOriginList = (raw: string): string | null => {
+  const invalid = splitOriginList(raw).find(
+    (entry) => normalizeOrigin(entry) === null,
+  );
+  return invalid === undefined
+    ? null
+    : `contains an invalid origin: ${invalid}`;
+};
+
+/**
+ * Parse a stored allowlist, silently skipping invalid entries
+ */
+export const parseOriginList = (raw: string): string[] =>
+  splitOriginList(raw)
+    .map(normalizeOrigin)
+    .filter((origin): origin is string => origin !== null);
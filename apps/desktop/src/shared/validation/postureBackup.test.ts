@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import { validatePostureBackup } from "./postureBackup";
+
+const createBackup = (overrides: Record<string, unknown> = {}) => ({
+  schemaVersion: 1,
+  exportedAt: "2025-11-04T00:00:00.000Z",
+  range: { from: null, to: null },
+  dailyLogs: [
+    {
+      date: "2025-11-03",
+      secondsInGreen: 3600,
+      secondsInYellow: 600,
+      secondsInRed: 300,
+      avgScore: 81.5,
+      sampleCount: 4500,
+      meetsGoal: 1,
+    },
+  ],
+  calibrations: [
+    {
+      id: 1,
+      userId: 1,
+      baselinePitch: 10,
+      baselineEHD: 0.2,
+      baselineDPR: 1,
+      quality: 90,
+      sampleCount: 120,
+      sensitivity: "medium",
+      customPitchThreshold: null,
+      customEHDThreshold: null,
+      customDPRThreshold: null,
+      calibratedAt: "2025-11-03T09:00:00.000Z",
+      isActive: true,
+      createdAt: "2025-11-03T09:00:00.000Z",
+      updatedAt: "2025-11-03T09:00:00.000Z",
+    },
+  ],
+  settings: { sensitivity: "50" },
+  ...overrides,
+});
+
+describe("validatePostureBackup", () => {
+  it("accepts a well-formed v1 backup and upgrades it to the current shape", () => {
+    const result = validatePostureBackup(createBackup());
+
+    expect(result).toMatchObject({
+      ok: true,
+      document: { schemaVersion: 3, profiles: [], profileDailyLogs: [] },
+    });
+  });
+
+  it("validates the per-profile days of a v3 backup", () => {
+    const profileDailyLog = {
+      date: "2025-11-03",
+      profileId: 2,
+      secondsInGreen: 1800,
+      secondsInYellow: 300,
+      secondsInRed: 0,
+      avgScore: 84,
+      sampleCount: 2000,
+    };
+    const createV3Backup = (profileDailyLogs?: unknown) =>
+      createBackup({ schemaVersion: 3, profiles: [], profileDailyLogs });
+
+    expect(validatePostureBackup(createV3Backup([profileDailyLog]))).toEqual({
+      ok: true,
+      document: expect.objectContaining({
+        profileDailyLogs: [profileDailyLog],
+      }),
+    });
+    expect(validatePostureBackup(createV3Backup())).toEqual({
+      ok: false,
+      errors: ["profileDailyLogs must be an array"],
+    });
+    expect(
+      validatePostureBackup(
+        createV3Backup([
+          profileDailyLog,
+          { ...profileDailyLog, profileId: "2" },
+          profileDailyLog,
+        ]),
+      ),
+    ).toEqual({
+      ok: false,
+      errors: [
+        "profileDailyLogs[1].profileId must be a number",
+        "profileDailyLogs[2].date 2025-11-03 appears more than once for profile 2",
+      ],
+    });
+  });
+
+  it("validates the profiles of a v2 backup", () => {
+    const profile = {
+      id: 2,
+      name: "Standing desk",
+      performanceMode: "balanced",
+      cameraKey: "usb:046d:085c",
+    };
+
+    expect(
+      validatePostureBackup(
+        createBackup({ schemaVersion: 2, profiles: [profile] }),
+      ).ok,
+    ).toBe(true);
+    expect(validatePostureBackup(createBackup({ schemaVersion: 2 }))).toEqual({
+      ok: false,
+      errors: ["profiles must be an array"],
+    });
+    expect(
+      validatePostureBackup(
+        createBackup({
+          schemaVersion: 2,
+          profiles: [{ ...profile, name: "", cameraKey: 1 }],
+        }),
+      ),
+    ).toEqual({
+      ok: false,
+      errors: [
+        "profiles[0].name must be a non-empty string",
+        "profiles[0].cameraKey must be a string or null",
+      ],
+    });
+  });
+
+  it("rejects unsupported schema versions", () => {
+    const result = validatePostureBackup(createBackup({ schemaVersion: 99 }));
+
+    expect(result).toEqual({
+      ok: false,
+      errors: [expect.stringContaining("Unsupported schemaVersion 99")],
+    });
+  });
+
+  it("reports every invalid field with its path", () => {
+    const result = validatePostureBackup(
+      createBackup({
+        dailyLogs: [
+          {
+            date: "11/03/2025",
+            secondsInGreen: -1,
+            secondsInYellow: 0,
+            secondsInRed: 0,
+            avgScore: 140,
+            sampleCount: 10,
+            meetsGoal: 1,
+          },
+        ],
+        settings: { sensitivity: 50 },
+      }),
+    );
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors).toEqual([
+        "dailyLogs[0].date must be a YYYY-MM-DD string",
+        "dailyLogs[0].secondsInGreen must be a non-negative number",
+        "dailyLogs[0].avgScore must be a number between 0 and 100",
+        "settings must be an object of string values",
+      ]);
+    }
+  });
+
+  it("rejects duplicate dates", () => {
+    const backup = createBackup();
+    const result = validatePostureBackup({
+      ...backup,
+      dailyLogs: [...backup.dailyLogs, ...backup.dailyLogs],
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors[0]).toContain("appears more than once");
+    }
+  });
+});
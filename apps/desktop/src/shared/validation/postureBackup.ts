@@ -0,0 +1,326 @@
+import {
+  POSTURE_EXPORT_SCHEMA_VERSION,
+  type PostureExportCalibration,
+  type PostureExportDailyLog,
+  type PostureExportDocument,
+  type PostureExportProfile,
+  type PostureExportProfileDailyLog,
+} from "../types/export";
+import {
+  isBoolean,
+  isFiniteNumber,
+  isOptionalNumber,
+  isRecord,
+} from "./metricValues";
+
+/**
+ * Backup schema versions this build can restore
+ */
+export const SUPPORTED_POSTURE_BACKUP_VERSIONS: readonly number[] = [
+  1,
+  2,
+  POSTURE_EXPORT_SCHEMA_VERSION,
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const CALIBRATION_SENSITIVITIES = ["low", "medium", "high", "custom"];
+
+export type PostureBackupValidationResult =
+  | { ok: true; document: PostureExportDocument }
+  | { ok: false; errors: string[] };
+
+const isDateString = (value: unknown): value is string =>
+  typeof value === "string" && DATE_PATTERN.test(value);
+
+const isTimestampString = (value: unknown): value is string =>
+  typeof value === "string" && !Number.isNaN(Date.parse(value));
+
+const isNonNegativeNumber = (value: unknown): value is number =>
+  isFiniteNumber(value) && value >= 0;
+
+/**
+ * Date and totals shared by daily logs and per-profile daily logs
+ */
+const validateDailyTotals = (
+  value: Record<string, unknown>,
+  path: string,
+  errors: string[],
+): void => {
+  if (!isDateString(value.date)) {
+    errors.push(`${path}.date must be a YYYY-MM-DD string`);
+  }
+  (
+    [
+      "secondsInGreen",
+      "secondsInYellow",
+      "secondsInRed",
+      "sampleCount",
+    ] as const
+  ).forEach((key) => {
+    if (!isNonNegativeNumber(value[key])) {
+      errors.push(`${path}.${key} must be a non-negative number`);
+    }
+  });
+  if (
+    !isFiniteNumber(value.avgScore) ||
+    value.avgScore < 0 ||
+    value.avgScore > 100
+  ) {
+    errors.push(`${path}.avgScore must be a number between 0 and 100`);
+  }
+};
+
+const validateDailyLog = (
+  value: unknown,
+  path: string,
+  errors: string[],
+): value is PostureExportDailyLog => {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return false;
+  }
+
+  const before = errors.length;
+  validateDailyTotals(value, path, errors);
+  if (value.meetsGoal !== 0 && value.meetsGoal !== 1) {
+    errors.push(`${path}.meetsGoal must be 0 or 1`);
+  }
+  return errors.length === before;
+};
+
+const validateProfileDailyLog = (
+  value: unknown,
+  path: string,
+  errors: string[],
+): value is PostureExportProfileDailyLog => {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return false;
+  }
+
+  const before = errors.length;
+  validateDailyTotals(value, path, errors);
+  if (!isFiniteNumber(value.profileId)) {
+    errors.push(`${path}.profileId must be a number`);
+  }
+  return errors.length === before;
+};
+
+const validateProfile = (
+  value: unknown,
+  path: string,
+  errors: string[],
+): value is PostureExportProfile => {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return false;
+  }
+
+  const before = errors.length;
+  if (!isFiniteNumber(value.id)) {
+    errors.push(`${path}.id must be a number`);
+  }
+  if (typeof value.name !== "string" || value.name.trim() === "") {
+    errors.push(`${path}.name must be a non-empty string`);
+  }
+  if (typeof value.performanceMode !== "string") {
+    errors.push(`${path}.performanceMode must be a string`);
+  }
+  if (value.cameraKey !== null && typeof value.cameraKey !== "string") {
+    errors.push(`${path}.cameraKey must be a string or null`);
+  }
+  return errors.length === before;
+};
+
+const validateCalibration = (
+  value: unknown,
+  path: string,
+  errors: string[],
+): value is PostureExportCalibration => {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return false;
+  }
+
+  const before = errors.length;
+  (
+    [
+      "id",
+      "userId",
+      "baselinePitch",
+      "baselineEHD",
+      "baselineDPR",
+      "quality",
+      "sampleCount",
+    ] as const
+  ).forEach((key) => {
+    if (!isFiniteNumber(value[key])) {
+      errors.push(`${path}.${key} must be a number`);
+    }
+  });
+  (
+    [
+      "customPitchThreshold",
+      "customEHDThreshold",
+      "customDPRThreshold",
+    ] as const
+  ).forEach((key) => {
+    if (!isOptionalNumber(value[key])) {
+      errors.push(`${path}.${key} must be a number or null`);
+    }
+  });
+  (["calibratedAt", "createdAt", "updatedAt"] as const).forEach((key) => {
+    if (!isTimestampString(value[key])) {
+      errors.push(`${path}.${key} must be an ISO-8601 timestamp`);
+    }
+  });
+  if (
+    typeof value.sensitivity !== "string" ||
+    !CALIBRATION_SENSITIVITIES.includes(value.sensitivity)
+  ) {
+    errors.push(
+      `${path}.sensitivity must be one of ${CALIBRATION_SENSITIVITIES.join(", ")}`,
+    );
+  }
+  if (!isBoolean(value.isActive)) {
+    errors.push(`${path}.isActive must be a boolean`);
+  }
+  if (value.profileId !== undefined && !isFiniteNumber(value.profileId)) {
+    errors.push(`${path}.profileId must be a number when present`);
+  }
+  if (
+    value.cameraKey !== undefined &&
+    value.cameraKey !== null &&
+    typeof value.cameraKey !== "string"
+  ) {
+    errors.push(`${path}.cameraKey must be a string or null when present`);
+  }
+  return errors.length === before;
+};
+
+/**
+ * Validate an untrusted value against the versioned backup schema
+ * Collects every problem instead of stopping at the first one
+ */
+export const validatePostureBackup = (
+  value: unknown,
+): PostureBackupValidationResult => {
+  if (!isRecord(value)) {
+    return { ok: false, errors: ["Backup must be a JSON object"] };
+  }
+
+  const { schemaVersion } = value;
+  if (!isFiniteNumber(schemaVersion)) {
+    return { ok: false, errors: ["schemaVersion is missing"] };
+  }
+  if (!SUPPORTED_POSTURE_BACKUP_VERSIONS.includes(schemaVersion)) {
+    return {
+      ok: false,
+      errors: [
+        `Unsupported schemaVersion ${schemaVersion} (supported: ${SUPPORTED_POSTURE_BACKUP_VERSIONS.join(", ")})`,
+      ],
+    };
+  }
+
+  const errors: string[] = [];
+
+  if (!isTimestampString(value.exportedAt)) {
+    errors.push("exportedAt must be an ISO-8601 timestamp");
+  }
+
+  const { range } = value;
+  if (
+    !isRecord(range) ||
+    !(range.from === null || isDateString(range.from)) ||
+    !(range.to === null || isDateString(range.to))
+  ) {
+    errors.push("range must contain from/to dates or null");
+  }
+
+  if (Array.isArray(value.dailyLogs)) {
+    const seenDates = new Set<string>();
+    value.dailyLogs.forEach((log, index) => {
+      const path = `dailyLogs[${index}]`;
+      if (validateDailyLog(log, path, errors)) {
+        if (seenDates.has(log.date)) {
+          errors.push(`${path}.date ${log.date} appears more than once`);
+        }
+        seenDates.add(log.date);
+      }
+    });
+  } else {
+    errors.push("dailyLogs must be an array");
+  }
+
+  // Version 1 backups predate exported profiles
+  if (schemaVersion !== 1) {
+    if (Array.isArray(value.profiles)) {
+      value.profiles.forEach((profile, index) => {
+        validateProfile(profile, `profiles[${index}]`, errors);
+      });
+    } else {
+      errors.push("profiles must be an array");
+    }
+  }
+
+  // Versions before 3 predate exported per-profile days
+  if (schemaVersion >= 3) {
+    if (Array.isArray(value.profileDailyLogs)) {
+      const seenKeys = new Set<string>();
+      value.profileDailyLogs.forEach((log, index) => {
+        const path = `profileDailyLogs[${index}]`;
+        if (validateProfileDailyLog(log, path, errors)) {
+          const key = `${log.date}:${log.profileId}`;
+          if (seenKeys.has(key)) {
+            errors.push(
+              `${path}.date ${log.date} appears more than once for profile ${log.profileId}`,
+            );
+          }
+          seenKeys.add(key);
+        }
+      });
+    } else {
+      errors.push("profileDailyLogs must be an array");
+    }
+  }
+
+  if (Array.isArray(value.calibrations)) {
+    value.calibrations.forEach((calibration, index) => {
+      validateCalibration(calibration, `calibrations[${index}]`, errors);
+    });
+  } else {
+    errors.push("calibrations must be an array");
+  }
+
+  if (
+    !isRecord(value.settings) ||
+    !Object.values(value.settings).every((entry) => typeof entry === "string")
+  ) {
+    errors.push("settings must be an object of string values");
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  if (schemaVersion !== POSTURE_EXPORT_SCHEMA_VERSION) {
+    // Older backups restore no per-profile days, and version 1 calibrations
+    // go to the default profile
+    const upgraded = value as Omit<
+      PostureExportDocument,
+      "schemaVersion" | "profileDailyLogs"
+    >;
+    return {
+      ok: true,
+      document: {
+        ...upgraded,
+        schemaVersion: POSTURE_EXPORT_SCHEMA_VERSION,
+        profiles: schemaVersion === 1 ? [] : upgraded.profiles,
+        profileDailyLogs: [],
+      },
+    };
+  }
+
+  return { ok: true, document: value as PostureExportDocument };
+};
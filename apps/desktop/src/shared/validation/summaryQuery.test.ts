@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseSummaryMonth,
+  parseSummaryRange,
+  parseSummaryYear,
+} from "./summaryQuery";
+
+describe("summary query validation", () => {
+  it("accepts ordered calendar dates", () => {
+    expect(parseSummaryRange("2025-11-01", "2025-11-30")).toEqual({
+      ok: true,
+      value: { from: "2025-11-01", to: "2025-11-30" },
+    });
+  });
+
+  it("rejects impossible or inverted ranges", () => {
+    expect(parseSummaryRange("2025-02-30", "2025-03-01").ok).toBe(false);
+    expect(parseSummaryRange("2025-11-30", "2025-11-01")).toEqual({
+      ok: false,
+      error: "from must not be after to",
+    });
+    expect(parseSummaryRange(null, "2025-11-01").ok).toBe(false);
+  });
+
+  it("accepts numeric strings from query parameters", () => {
+    expect(parseSummaryMonth("2025", "11")).toEqual({
+      ok: true,
+      value: { year: 2025, month: 11 },
+    });
+    expect(parseSummaryYear(2025)).toEqual({ ok: true, value: 2025 });
+  });
+
+  it("rejects out-of-range months and years", () => {
+    expect(parseSummaryMonth(2025, 13).ok).toBe(false);
+    expect(parseSummaryMonth(2025, 1.5).ok).toBe(false);
+    expect(parseSummaryYear("").ok).toBe(false);
+    expect(parseSummaryYear("20x5").ok).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const MIN_YEAR = 1970;
+const MAX_YEAR = 9999;
+
+export type SummaryQueryResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+const isCalendarDate = (value: unknown): value is string => {
+  if (typeof value !== "string" || !DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return (
+    !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+  );
+};
+
+// IPC callers send numbers, HTTP query strings arrive as text
+const toInteger = (value: unknown): number | null => {
+  const parsed =
+    typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  return typeof parsed === "number" && Number.isInteger(parsed) ? parsed : null;
+};
+
+/**
+ * Validate an inclusive YYYY-MM-DD range
+ */
+export const parseSummaryRange = (
+  from: unknown,
+  to: unknown,
+): SummaryQueryResult<{ from: string; to: string }> => {
+  if (!isCalendarDate(from)) {
+    return { ok: false, error: "from must be a YYYY-MM-DD date" };
+  }
+  if (!isCalendarDate(to)) {
+    return { ok: false, error: "to must be a YYYY-MM-DD date" };
+  }
+  if (from > to) {
+    return { ok: false, error: "from must not be after to" };
+  }
+  return { ok: true, value: { from, to } };
+};
+
+export const parseSummaryYear = (year: unknown): SummaryQueryResult<number> => {
+  const parsed = toInteger(year);
+  if (parsed === null || parsed < MIN_YEAR || parsed > MAX_YEAR) {
+    return {
+      ok: false,
+      error: `year must be an integer between ${MIN_YEAR} and ${MAX_YEAR}`,
+    };
+  }
+  return { ok: true, value: parsed };
+};
+
+/**
+ * Validate a calendar month; `month` is 1-based
+ */
+export const parseSummaryMonth = (
+  year: unknown,
+  month: unknown,
+): SummaryQueryResult<{ year: number; month: number }> => {
+  const parsedYear = parseSummaryYear(year);
+  if (!parsedYear.ok) {
+    return parsedYear;
+  }
+  const parsedMonth = toInteger(month);
+  if (parsedMonth === null || parsedMonth < 1 || parsedMonth > 12) {
+    return { ok: false, error: "month must be an integer between 1 and 12" };
+  }
+  return { ok: true, value: { year: parsedYear.value, month: parsedMonth } };
+};
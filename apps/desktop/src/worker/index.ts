@@ -9,6 +9,7 @@ import type {
   EngineTickPayload,
 } from "../shared/types/engine-ipc";
 import { MetricValues } from "../shared/types/metrics";
+import { isRecord } from "../shared/validation/metricValues";
 import {
   CalibrationFlow,
   type CalibrationFlowOptions,
@@ -170,10 +171,15 @@ const handleEngineFrame = (payload: EngineFramePayload) => {
 port.on("message", (message: WorkerMessage) => {
   switch (message.type) {
     case WORKER_MESSAGES.ping: {
+      // Echo the supervisor's heartbeat marker so main can tell its own
+      // pings from diagnostics requested by the renderer
+      const heartbeat =
+        isRecord(message.payload) && message.payload.heartbeat === true;
       postMessage({
         type: WORKER_MESSAGES.pong,
         payload: {
           respondedAt: new Date().toISOString(),
+          ...(heartbeat ? { heartbeat } : {}),
         },
       });
       break;
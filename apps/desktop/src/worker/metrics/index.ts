@@ -386,6 +386,7 @@ export default class MetricProcessor {
         yawDeweighted,
         lowConfidence,
         baselinePending,
+        confidenceGated: this.signalProcessor.isFrameGated(),
       },
     } satisfies MetricValues;
 
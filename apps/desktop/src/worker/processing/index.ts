@@ -81,6 +81,13 @@ export default class SignalProcessor {
     }
   }
 
+  /**
+   * Whether the ConfidenceGate rejected the frame passed to beginFrame
+   */
+  isFrameGated(): boolean {
+    return !this.gateAllowsUpdate;
+  }
+
   process(
     sample: MetricSample,
     context: SignalProcessingContext,
@@ -0,0 +1,4 @@
+import { config } from "@baro/eslint-config/base";
+
+/** @type {import("eslint").Linter.Config[]} */
+export default config;
@@ -0,0 +1,287 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { EXIT_API_ERROR, EXIT_OK, EXIT_USAGE, runCli } from "../commands.js";
+import { createSseParser } from "../sse.js";
+
+type Handler = (req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+const TOKEN = "posely_test";
+
+const tick = (t: number, score: number) => ({
+  t,
+  presence: "PRESENT",
+  reliability: "OK",
+  metrics: { pitchDeg: 4, ehdNorm: 0.1, dpr: 1, conf: 0.9 },
+  score,
+  zone: "GREEN",
+  state: "GOOD",
+});
+
+/**
+ * Test suite for the posely CLI, run against a local stub of the app's API
+ */
+describe("posely CLI", () => {
+  let server: http.Server;
+  let origin: string;
+  let routes: Map<string, Handler>;
+  let requests: { method: string; url: string; auth?: string }[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push({
+        method: req.method ?? "",
+        url: req.url ?? "",
+        auth: req.headers.authorization,
+      });
+      const path = new URL(req.url ?? "/", "http://localhost").pathname;
+      const handler = routes.get(`${req.method} ${path}`);
+      if (!handler) {
+        res.writeHead(404, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            error: { code: "not_found", message: "Not found" },
+          }),
+        );
+        return;
+      }
+      handler(req, res);
+    });
+    await new Promise<void>((resolve) => {
+      server.listen(0, "127.0.0.1", resolve);
+    });
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+    });
+  });
+
+  beforeEach(() => {
+    routes = new Map();
+    requests = [];
+  });
+
+  const json =
+    (body: unknown, status = 200): Handler =>
+    (_req, res) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+  const run = async (argv: string[]) => {
+    const output = { stdout: "", stderr: "", files: new Map<string, string>() };
+    const code = await runCli(argv, {
+      stdout: (text) => {
+        output.stdout += text;
+      },
+      stderr: (text) => {
+        output.stderr += text;
+      },
+      env: {
+        POSELY_DASHBOARD_HTTP_ORIGIN: origin,
+        POSELY_DASHBOARD_HTTP_TOKEN: TOKEN,
+      },
+      writeFile: (path, content) => {
+        output.files.set(path, content);
+        return Promise.resolve();
+      },
+    });
+    return { code, ...output };
+  };
+
+  describe("today", () => {
+    const today = {
+      date: "2025-11-13",
+      summary: {
+        date: "2025-11-13",
+        secondsInGreen: 3600,
+        secondsInYellow: 1800,
+        secondsInRed: 600,
+        avgScore: 81.4,
+        sampleCount: 6000,
+        meetsGoal: 1,
+      },
+      streak: 3,
+    };
+
+    it("should print a readable summary with the bearer token", async () => {
+      routes.set("GET /api/v1/history/today", json(today));
+
+      const result = await run(["today"]);
+
+      expect(result.code).toBe(EXIT_OK);
+      expect(result.stdout).toContain("Today (2025-11-13)");
+      expect(result.stdout).toContain("Score:   81");
+      expect(result.stdout).toContain("Good   1h 00m (60%)");
+      expect(result.stdout).toContain("Streak:  3 days");
+      expect(requests[0]?.auth).toBe(`Bearer ${TOKEN}`);
+    });
+
+    it("should print the raw payload with --json", async () => {
+      routes.set("GET /api/v1/history/today", json(today));
+
+      const result = await run(["today", "--json"]);
+
+      expect(JSON.parse(result.stdout)).toEqual(today);
+    });
+
+    it("should report API errors with exit code 1", async () => {
+      routes.set(
+        "GET /api/v1/history/today",
+        json(
+          { error: { code: "unauthorized", message: "Invalid API token" } },
+          401,
+        ),
+      );
+
+      const result = await run(["today"]);
+
+      expect(result.code).toBe(EXIT_API_ERROR);
+      expect(result.stderr).toContain("Invalid API token");
+      expect(result.stderr).toContain("--token");
+    });
+
+    it("should explain when the app is not running", async () => {
+      const result = await run(["today", "--url", "http://127.0.0.1:1"]);
+
+      expect(result.code).toBe(EXIT_API_ERROR);
+      expect(result.stderr).toContain("Is the app running?");
+    });
+  });
+
+  describe("controls", () => {
+    it("should pause and resume monitoring", async () => {
+      routes.set("POST /api/v1/monitoring/pause", json({ paused: true }));
+      routes.set("POST /api/v1/monitoring/resume", json({ paused: false }));
+
+      const paused = await run(["pause"]);
+      const resumed = await run(["resume", "--json"]);
+
+      expect(paused.stdout).toBe("Monitoring is paused.\n");
+      expect(JSON.parse(resumed.stdout)).toEqual({ paused: false });
+    });
+
+    it("should trigger recalibration", async () => {
+      routes.set(
+        "POST /api/v1/calibrations/recalibrate",
+        json({ started: true }, 202),
+      );
+
+      const result = await run(["recalibrate", "--json"]);
+
+      expect(result.code).toBe(EXIT_OK);
+      expect(JSON.parse(result.stdout)).toEqual({ started: true });
+    });
+  });
+
+  describe("export", () => {
+    it("should forward the range and print CSV as-is", async () => {
+      routes.set("GET /api/v1/export", (_req, res) => {
+        res.writeHead(200, { "Content-Type": "text/csv; charset=utf-8" });
+        res.end("# posely-export\n");
+      });
+
+      const result = await run([
+        "export",
+        "--format",
+        "csv",
+        "--from",
+        "2025-11-01",
+        "--to",
+        "2025-11-13",
+      ]);
+
+      expect(result.stdout).toBe("# posely-export\n");
+      expect(requests[0]?.url).toBe(
+        "/api/v1/export?format=csv&from=2025-11-01&to=2025-11-13",
+      );
+    });
+
+    it("should write JSON exports to --output", async () => {
+      routes.set("GET /api/v1/export", json({ schemaVersion: 1 }));
+
+      const result = await run(["export", "--output", "history.json"]);
+
+      expect(result.stdout).toContain("history.json");
+      expect(JSON.parse(result.files.get("history.json") ?? "")).toEqual({
+        schemaVersion: 1,
+      });
+    });
+
+    it("should reject bad formats and dates before calling the app", async () => {
+      expect((await run(["export", "--format", "xml"])).code).toBe(EXIT_USAGE);
+      expect((await run(["export", "--from", "13/11/2025"])).code).toBe(
+        EXIT_USAGE,
+      );
+      expect(requests).toHaveLength(0);
+    });
+  });
+
+  describe("tail", () => {
+    it("should print ticks as NDJSON and stop after --count", async () => {
+      routes.set("GET /api/stream", (_req, res) => {
+        res.writeHead(200, { "Content-Type": "text/event-stream" });
+        res.write(": keep-alive\n\n");
+        res.write("retry: 5000\n\n");
+        res.write(
+          `event: posture-data-updated\ndata: {}\n\nevent: tick\ndata: ${JSON.stringify(tick(1, 90))}\n\n`,
+        );
+        res.write(`event: tick\ndata: ${JSON.stringify(tick(2, 70))}\n\n`);
+        // Left open: the CLI must hang up by itself
+      });
+
+      const result = await run([
+        "tail",
+        "--json",
+        "--count",
+        "2",
+        "--interval",
+        "500",
+      ]);
+
+      expect(result.code).toBe(EXIT_OK);
+      expect(
+        result.stdout
+          .trim()
+          .split("\n")
+          .map((line) => (JSON.parse(line) as { score: number }).score),
+      ).toEqual([90, 70]);
+      expect(requests[0]?.url).toBe("/api/stream?tickIntervalMs=500");
+    });
+
+    it("should validate --interval", async () => {
+      const result = await run(["tail", "--interval", "5"]);
+
+      expect(result.code).toBe(EXIT_USAGE);
+      expect(result.stderr).toContain("--interval");
+    });
+  });
+
+  describe("usage", () => {
+    it("should print help and reject unknown commands", async () => {
+      expect((await run(["--help"])).stdout).toContain("Usage: posely");
+      expect((await run([])).code).toBe(EXIT_USAGE);
+      expect((await run(["toString"])).code).toBe(EXIT_USAGE);
+      expect((await run(["today", "--bogus"])).code).toBe(EXIT_USAGE);
+    });
+  });
+});
+
+describe("createSseParser", () => {
+  it("should join multi-line data and handle split chunks", () => {
+    const events: { event: string; data: string }[] = [];
+    const parser = createSseParser((event) => events.push(event));
+
+    parser.push("event: tick\ndata: a\r\nda");
+    parser.push("ta: b\n\n: comment\ndata: c\n\n");
+
+    expect(events).toEqual([
+      { event: "tick", data: "a\nb" },
+      { event: "message", data: "c" },
+    ]);
+  });
+});
@@ -0,0 +1,147 @@
+import { DASHBOARD_API_V1_PREFIX } from "./shared.js";
+
+/**
+ * Thin fetch wrapper for the desktop app's local API. Every failure, from a
+ * refused connection to an error envelope, comes back as `{ ok: false }`.
+ */
+
+export type ApiConnection = {
+  /** Origin of the dashboard HTTP server, e.g. http://127.0.0.1:3212 */
+  baseUrl: string;
+  token: string | null;
+};
+
+export type ApiQuery = Record<string, string | number | undefined>;
+
+export type ApiResponse<T> =
+  | { ok: true; value: T; contentType: string }
+  | { ok: false; status: number | null; error: string };
+
+type ErrorEnvelope = {
+  error?: { code?: string; message?: string };
+};
+
+export const buildApiUrl = (
+  connection: ApiConnection,
+  path: string,
+  query: ApiQuery = {},
+): URL => {
+  const url = new URL(path, connection.baseUrl);
+  Object.entries(query).forEach(([name, value]) => {
+    if (value !== undefined) {
+      url.searchParams.set(name, String(value));
+    }
+  });
+  return url;
+};
+
+export const v1Path = (path: string): string =>
+  `${DASHBOARD_API_V1_PREFIX}${path}`;
+
+const authHeaders = (connection: ApiConnection): Record<string, string> =>
+  connection.token ? { Authorization: `Bearer ${connection.token}` } : {};
+
+const describeFetchError = (
+  connection: ApiConnection,
+  error: unknown,
+): string => {
+  const cause =
+    error instanceof Error && error.cause instanceof Error
+      ? error.cause.message
+      : error instanceof Error
+        ? error.message
+        : "Unknown error";
+  return `Could not reach Posely at ${connection.baseUrl} (${cause}). Is the app running?`;
+};
+
+const readError = async (response: Response): Promise<string> => {
+  try {
+    const body = (await response.json()) as ErrorEnvelope;
+    if (body.error?.message) {
+      return body.error.message;
+    }
+  } catch {
+    // Not an error envelope; fall back to the status line
+  }
+  return `HTTP ${response.status} ${response.statusText}`.trim();
+};
+
+/**
+ * Send a request and parse the response as JSON, or return it as text for
+ * non-JSON content types such as CSV exports
+ */
+export const requestApi = async <T>(
+  connection: ApiConnection,
+  method: "GET" | "POST",
+  path: string,
+  query: ApiQuery = {},
+): Promise<ApiResponse<T>> => {
+  let response: Response;
+  try {
+    response = await fetch(buildApiUrl(connection, path, query), {
+      method,
+      headers: { Accept: "application/json", ...authHeaders(connection) },
+    });
+  } catch (error) {
+    return {
+      ok: false,
+      status: null,
+      error: describeFetchError(connection, error),
+    };
+  }
+
+  if (!response.ok) {
+    const message = await readError(response);
+    return {
+      ok: false,
+      status: response.status,
+      error:
+        response.status === 401
+          ? `${message}. Create a token in Settings → Local API access and pass it with --token`
+          : message,
+    };
+  }
+
+  const contentType = response.headers.get("content-type") ?? "";
+  const value = contentType.includes("application/json")
+    ? ((await response.json()) as T)
+    : ((await response.text()) as T);
+  return { ok: true, value, contentType };
+};
+
+/**
+ * Open a streaming GET request, e.g. the Server-Sent Events endpoint
+ */
+export const openApiStream = async (
+  connection: ApiConnection,
+  path: string,
+  query: ApiQuery,
+  signal?: AbortSignal,
+): Promise<ApiResponse<ReadableStream<Uint8Array>>> => {
+  let response: Response;
+  try {
+    response = await fetch(buildApiUrl(connection, path, query), {
+      headers: { Accept: "text/event-stream", ...authHeaders(connection) },
+      signal,
+    });
+  } catch (error) {
+    return {
+      ok: false,
+      status: null,
+      error: describeFetchError(connection, error),
+    };
+  }
+
+  if (!response.ok || !response.body) {
+    return {
+      ok: false,
+      status: response.status,
+      error: await readError(response),
+    };
+  }
+  return {
+    ok: true,
+    value: response.body,
+    contentType: response.headers.get("content-type") ?? "",
+  };
+};
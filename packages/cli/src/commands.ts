@@ -0,0 +1,360 @@
+import { parseArgs } from "node:util";
+import {
+  type ApiConnection,
+  openApiStream,
+  requestApi,
+  v1Path,
+} from "./client.js";
+import { resolveConnection } from "./config.js";
+import {
+  type MonitoringStatus,
+  type TodaySummary,
+  formatMonitoringStatus,
+  formatTick,
+  formatTodaySummary,
+} from "./format.js";
+import {
+  DASHBOARD_STREAM_EVENTS,
+  DASHBOARD_STREAM_MAX_TICK_INTERVAL_MS,
+  DASHBOARD_STREAM_MIN_TICK_INTERVAL_MS,
+  DASHBOARD_STREAM_PATH,
+  type EngineTick,
+  type PostureExportFormat,
+} from "./shared.js";
+import { readSseStream } from "./sse.js";
+
+export const EXIT_OK = 0;
+export const EXIT_API_ERROR = 1;
+export const EXIT_USAGE = 2;
+
+/**
+ * Side effects the commands need, injected so tests can capture output
+ */
+export type CliIo = {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  env: NodeJS.ProcessEnv;
+  writeFile: (path: string, content: string) => Promise<void>;
+  /** Aborted on Ctrl+C; ends `tail` cleanly */
+  signal?: AbortSignal;
+};
+
+type CommandContext = {
+  connection: ApiConnection;
+  json: boolean;
+  values: CliFlags;
+  io: CliIo;
+};
+
+type CliFlags = {
+  json?: boolean;
+  url?: string;
+  token?: string;
+  help?: boolean;
+  interval?: string;
+  count?: string;
+  format?: string;
+  from?: string;
+  to?: string;
+  output?: string;
+};
+
+export const USAGE = `Usage: posely <command> [options]
+
+Commands:
+  today          Print today's posture summary and streak
+  tail           Print live engine ticks until interrupted
+  pause          Pause monitoring
+  resume         Resume monitoring
+  recalibrate    Open the calibration screen in the app
+  export         Print or save posture history
+
+Options:
+  --json             Machine-readable output (NDJSON for tail)
+  --url <origin>     App origin (default: $POSELY_DASHBOARD_HTTP_ORIGIN or http://127.0.0.1:3212)
+  --token <token>    API token (default: $POSELY_DASHBOARD_HTTP_TOKEN)
+  -h, --help         Show this help
+
+tail options:
+  --interval <ms>    Minimum time between ticks (${DASHBOARD_STREAM_MIN_TICK_INTERVAL_MS}-${DASHBOARD_STREAM_MAX_TICK_INTERVAL_MS})
+  --count <n>        Exit after n ticks
+
+export options:
+  --format json|csv  Output format (default: json)
+  --from <date>      Inclusive start date, YYYY-MM-DD
+  --to <date>        Inclusive end date, YYYY-MM-DD
+  --output <file>    Write to a file instead of stdout`;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const printJson = (io: CliIo, value: unknown): void => {
+  io.stdout(`${JSON.stringify(value, null, 2)}\n`);
+};
+
+const apiFailure = (io: CliIo, error: string): number => {
+  io.stderr(`posely: ${error}\n`);
+  return EXIT_API_ERROR;
+};
+
+const usageFailure = (io: CliIo, error: string): number => {
+  io.stderr(`posely: ${error}\nRun "posely --help" for usage.\n`);
+  return EXIT_USAGE;
+};
+
+const parseInteger = (
+  value: string | undefined,
+  name: string,
+  min: number,
+  max: number,
+): number | undefined | { error: string } => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= min && parsed <= max
+    ? parsed
+    : { error: `--${name} must be an integer between ${min} and ${max}` };
+};
+
+const runToday = async ({
+  connection,
+  json,
+  io,
+}: CommandContext): Promise<number> => {
+  const result = await requestApi<TodaySummary>(
+    connection,
+    "GET",
+    v1Path("/history/today"),
+  );
+  if (!result.ok) {
+    return apiFailure(io, result.error);
+  }
+  if (json) {
+    printJson(io, result.value);
+  } else {
+    io.stdout(`${formatTodaySummary(result.value)}\n`);
+  }
+  return EXIT_OK;
+};
+
+const runSetPaused =
+  (paused: boolean) =>
+  async ({ connection, json, io }: CommandContext): Promise<number> => {
+    const result = await requestApi<MonitoringStatus>(
+      connection,
+      "POST",
+      v1Path(paused ? "/monitoring/pause" : "/monitoring/resume"),
+    );
+    if (!result.ok) {
+      return apiFailure(io, result.error);
+    }
+    if (json) {
+      printJson(io, result.value);
+    } else {
+      io.stdout(`${formatMonitoringStatus(result.value)}\n`);
+    }
+    return EXIT_OK;
+  };
+
+const runRecalibrate = async ({
+  connection,
+  json,
+  io,
+}: CommandContext): Promise<number> => {
+  const result = await requestApi<{ started: boolean }>(
+    connection,
+    "POST",
+    v1Path("/calibrations/recalibrate"),
+  );
+  if (!result.ok) {
+    return apiFailure(io, result.error);
+  }
+  if (json) {
+    printJson(io, result.value);
+  } else {
+    io.stdout("Calibration started in the Posely window.\n");
+  }
+  return EXIT_OK;
+};
+
+const runTail = async ({
+  connection,
+  json,
+  values,
+  io,
+}: CommandContext): Promise<number> => {
+  const interval = parseInteger(
+    values.interval,
+    "interval",
+    DASHBOARD_STREAM_MIN_TICK_INTERVAL_MS,
+    DASHBOARD_STREAM_MAX_TICK_INTERVAL_MS,
+  );
+  const count = parseInteger(values.count, "count", 1, Number.MAX_SAFE_INTEGER);
+  if (typeof interval === "object") {
+    return usageFailure(io, interval.error);
+  }
+  if (typeof count === "object") {
+    return usageFailure(io, count.error);
+  }
+
+  const controller = new AbortController();
+  const stopOnSignal = () => controller.abort();
+  io.signal?.addEventListener("abort", stopOnSignal);
+
+  try {
+    const stream = await openApiStream(
+      connection,
+      DASHBOARD_STREAM_PATH,
+      { tickIntervalMs: interval },
+      controller.signal,
+    );
+    if (!stream.ok) {
+      return controller.signal.aborted ? EXIT_OK : apiFailure(io, stream.error);
+    }
+
+    let received = 0;
+    await readSseStream(stream.value, ({ event, data }) => {
+      if (event !== DASHBOARD_STREAM_EVENTS.tick || controller.signal.aborted) {
+        return;
+      }
+      const tick = JSON.parse(data) as EngineTick;
+      // NDJSON so each tick can be piped straight into jq
+      io.stdout(json ? `${JSON.stringify(tick)}\n` : `${formatTick(tick)}\n`);
+      received += 1;
+      if (count !== undefined && received >= count) {
+        controller.abort();
+      }
+    });
+    return controller.signal.aborted
+      ? EXIT_OK
+      : apiFailure(io, "The app closed the stream");
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return EXIT_OK;
+    }
+    return apiFailure(
+      io,
+      `Stream failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  } finally {
+    io.signal?.removeEventListener("abort", stopOnSignal);
+  }
+};
+
+const runExport = async ({
+  connection,
+  json,
+  values,
+  io,
+}: CommandContext): Promise<number> => {
+  const format = values.format ?? "json";
+  if (format !== "json" && format !== "csv") {
+    return usageFailure(io, "--format must be json or csv");
+  }
+  const invalidDate = [values.from, values.to].find(
+    (date) => date !== undefined && !DATE_PATTERN.test(date),
+  );
+  if (invalidDate !== undefined) {
+    return usageFailure(io, `Dates must be YYYY-MM-DD, got ${invalidDate}`);
+  }
+
+  const result = await requestApi<unknown>(
+    connection,
+    "GET",
+    v1Path("/export"),
+    {
+      format: format satisfies PostureExportFormat,
+      from: values.from,
+      to: values.to,
+    },
+  );
+  if (!result.ok) {
+    return apiFailure(io, result.error);
+  }
+
+  const content =
+    typeof result.value === "string"
+      ? result.value
+      : `${JSON.stringify(result.value, null, 2)}\n`;
+  if (!values.output) {
+    io.stdout(content);
+    return EXIT_OK;
+  }
+
+  try {
+    await io.writeFile(values.output, content);
+  } catch (error) {
+    return apiFailure(
+      io,
+      `Could not write ${values.output}: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+  if (json) {
+    printJson(io, { path: values.output, format });
+  } else {
+    io.stdout(`Exported posture history to ${values.output}\n`);
+  }
+  return EXIT_OK;
+};
+
+const COMMANDS: Record<string, (context: CommandContext) => Promise<number>> = {
+  today: runToday,
+  tail: runTail,
+  pause: runSetPaused(true),
+  resume: runSetPaused(false),
+  recalibrate: runRecalibrate,
+  export: runExport,
+};
+
+/**
+ * Parse `argv` (without the node and script entries), run the command and
+ * return the process exit code
+ */
+export const runCli = async (argv: string[], io: CliIo): Promise<number> => {
+  let parsed: { values: CliFlags; positionals: string[] };
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        json: { type: "boolean" },
+        url: { type: "string" },
+        token: { type: "string" },
+        help: { type: "boolean", short: "h" },
+        interval: { type: "string" },
+        count: { type: "string" },
+        format: { type: "string" },
+        from: { type: "string" },
+        to: { type: "string" },
+        output: { type: "string", short: "o" },
+      },
+    });
+  } catch (error) {
+    return usageFailure(
+      io,
+      error instanceof Error ? error.message : "Invalid arguments",
+    );
+  }
+
+  const { values, positionals } = parsed;
+  const [name, ...extra] = positionals;
+  if (values.help || !name) {
+    io.stdout(`${USAGE}\n`);
+    return values.help ? EXIT_OK : EXIT_USAGE;
+  }
+
+  const command = Object.hasOwn(COMMANDS, name) ? COMMANDS[name] : undefined;
+  if (!command) {
+    return usageFailure(io, `Unknown command "${name}"`);
+  }
+  if (extra.length > 0) {
+    return usageFailure(io, `Unexpected argument "${extra[0]}"`);
+  }
+
+  const connection = resolveConnection(values, io.env);
+  if ("error" in connection) {
+    return usageFailure(io, connection.error);
+  }
+
+  return command({ connection, json: values.json ?? false, values, io });
+};
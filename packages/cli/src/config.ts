@@ -0,0 +1,33 @@
+import type { ApiConnection } from "./client.js";
+import {
+  DASHBOARD_HTTP_DEFAULT_ORIGIN,
+  DASHBOARD_HTTP_ORIGIN_ENV_KEY,
+  DASHBOARD_HTTP_TOKEN_ENV_KEY,
+} from "./shared.js";
+
+/**
+ * Resolve where the running app listens and which token to send.
+ * Flags win over the same environment variables the browser dashboard
+ * uses, which win over the app's default origin.
+ */
+export const resolveConnection = (
+  flags: { url?: string; token?: string },
+  env: NodeJS.ProcessEnv,
+): ApiConnection | { error: string } => {
+  const baseUrl =
+    flags.url ||
+    env[DASHBOARD_HTTP_ORIGIN_ENV_KEY] ||
+    DASHBOARD_HTTP_DEFAULT_ORIGIN;
+  try {
+    const parsed = new URL(baseUrl);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      return { error: `--url must be an http(s) URL, got ${baseUrl}` };
+    }
+    return {
+      baseUrl: parsed.origin,
+      token: flags.token || env[DASHBOARD_HTTP_TOKEN_ENV_KEY] || null,
+    };
+  } catch {
+    return { error: `--url is not a valid URL: ${baseUrl}` };
+  }
+};
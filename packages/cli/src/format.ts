@@ -0,0 +1,83 @@
+import type { EngineTick } from "./shared.js";
+
+/**
+ * Plain-text renderers for the non-`--json` output. Shapes mirror the
+ * `/api/v1` schemas in the app's OpenAPI document.
+ */
+
+export type DailySummary = {
+  date: string;
+  secondsInGreen: number;
+  secondsInYellow: number;
+  secondsInRed: number;
+  avgScore: number;
+  sampleCount: number;
+  meetsGoal: number;
+};
+
+export type TodaySummary = {
+  date: string;
+  summary: DailySummary | null;
+  streak: number;
+};
+
+export type MonitoringStatus = {
+  paused: boolean;
+};
+
+export const formatDuration = (seconds: number): string => {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  if (hours > 0) {
+    return `${hours}h ${String(minutes).padStart(2, "0")}m`;
+  }
+  return minutes > 0 ? `${minutes}m` : `${total % 60}s`;
+};
+
+const percentOf = (part: number, total: number): string =>
+  total > 0 ? `${Math.round((part / total) * 100)}%` : "0%";
+
+export const formatTodaySummary = ({
+  date,
+  summary,
+  streak,
+}: TodaySummary): string => {
+  const streakLine = `Streak:  ${streak} day${streak === 1 ? "" : "s"}`;
+  if (!summary) {
+    return [
+      `Today (${date})`,
+      "No posture data recorded yet.",
+      streakLine,
+    ].join("\n");
+  }
+
+  const tracked =
+    summary.secondsInGreen + summary.secondsInYellow + summary.secondsInRed;
+  return [
+    `Today (${date})`,
+    `Score:   ${Math.round(summary.avgScore)}`,
+    `Tracked: ${formatDuration(tracked)}`,
+    `  Good   ${formatDuration(summary.secondsInGreen)} (${percentOf(summary.secondsInGreen, tracked)})`,
+    `  Fair   ${formatDuration(summary.secondsInYellow)} (${percentOf(summary.secondsInYellow, tracked)})`,
+    `  Poor   ${formatDuration(summary.secondsInRed)} (${percentOf(summary.secondsInRed, tracked)})`,
+    `Goal:    ${summary.meetsGoal === 1 ? "met" : "not met yet"}`,
+    streakLine,
+  ].join("\n");
+};
+
+/**
+ * One line per tick: local time, score, zone, risk state and presence
+ */
+export const formatTick = (tick: EngineTick): string =>
+  [
+    new Date(tick.t).toLocaleTimeString(),
+    `score=${tick.score}`,
+    `zone=${tick.zone}`,
+    `state=${tick.state}`,
+    `presence=${tick.presence}`,
+    ...(tick.reliability === "OK" ? [] : [`reliability=${tick.reliability}`]),
+  ].join("  ");
+
+export const formatMonitoringStatus = ({ paused }: MonitoringStatus): string =>
+  paused ? "Monitoring is paused." : "Monitoring is running.";
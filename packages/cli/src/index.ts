@@ -0,0 +1,23 @@
+#!/usr/bin/env node
+import { writeFile } from "node:fs/promises";
+import { runCli } from "./commands.js";
+
+const controller = new AbortController();
+process.once("SIGINT", () => controller.abort());
+
+runCli(process.argv.slice(2), {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+  env: process.env,
+  writeFile: (path, content) => writeFile(path, content, "utf-8"),
+  signal: controller.signal,
+})
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error: unknown) => {
+    process.stderr.write(
+      `posely: ${error instanceof Error ? error.message : "Unknown error"}\n`,
+    );
+    process.exitCode = 1;
+  });
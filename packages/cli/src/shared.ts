@@ -0,0 +1,16 @@
+/**
+ * The one place the CLI reaches into the desktop app's shared code. Only
+ * dependency-free types and constants are imported; esbuild inlines them.
+ */
+export {
+  DASHBOARD_API_V1_PREFIX,
+  DASHBOARD_HTTP_DEFAULT_ORIGIN,
+  DASHBOARD_HTTP_ORIGIN_ENV_KEY,
+  DASHBOARD_HTTP_TOKEN_ENV_KEY,
+  DASHBOARD_STREAM_EVENTS,
+  DASHBOARD_STREAM_MAX_TICK_INTERVAL_MS,
+  DASHBOARD_STREAM_MIN_TICK_INTERVAL_MS,
+  DASHBOARD_STREAM_PATH,
+} from "../../../apps/desktop/src/shared/config/dashboard.js";
+export type { EngineTick } from "../../../apps/desktop/src/shared/types/engine-output.js";
+export type { PostureExportFormat } from "../../../apps/desktop/src/shared/types/export.js";
@@ -0,0 +1,81 @@
+/**
+ * Minimal Server-Sent Events parser for the dashboard stream. Handles the
+ * subset the desktop server emits: `event:`, `data:`, `retry:` and `:`
+ * keep-alive comments.
+ */
+
+export type ServerSentEvent = {
+  event: string;
+  data: string;
+};
+
+/**
+ * Feed decoded text chunks in and receive complete events through `onEvent`.
+ * Events without an explicit name are reported as `message`, per the spec.
+ */
+export const createSseParser = (
+  onEvent: (event: ServerSentEvent) => void,
+): { push: (chunk: string) => void } => {
+  let buffer = "";
+  let eventName = "";
+  let dataLines: string[] = [];
+
+  const dispatch = (): void => {
+    if (dataLines.length > 0) {
+      onEvent({ event: eventName || "message", data: dataLines.join("\n") });
+    }
+    eventName = "";
+    dataLines = [];
+  };
+
+  const handleLine = (line: string): void => {
+    if (line === "") {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(":")) {
+      return;
+    }
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const rawValue = separator === -1 ? "" : line.slice(separator + 1);
+    const value = rawValue.startsWith(" ") ? rawValue.slice(1) : rawValue;
+
+    if (field === "event") {
+      eventName = value;
+    } else if (field === "data") {
+      dataLines.push(value);
+    }
+    // `retry` and `id` are irrelevant to a one-shot CLI connection
+  };
+
+  return {
+    push: (chunk) => {
+      buffer += chunk;
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = lines.pop() ?? "";
+      lines.forEach(handleLine);
+    },
+  };
+};
+
+/**
+ * Read a byte stream to the end, handing parsed events to `onEvent`
+ */
+export const readSseStream = async (
+  stream: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void,
+): Promise<void> => {
+  const parser = createSseParser(onEvent);
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  try {
+    let result = await reader.read();
+    while (!result.done) {
+      parser.push(decoder.decode(result.value, { stream: true }));
+      result = await reader.read();
+    }
+  } finally {
+    reader.releaseLock();
+  }
+};